@@ -548,6 +548,28 @@ logger.debug('TTL constants defined', {
   operation: 'storage-constants',
 });
 
+// ============================================================================
+// SIZE
+// ============================================================================
+
+/**
+ * Size of a string value in bytes as MMKV stores it (UTF-8)
+ */
+export function utf8ByteLength(value: string): number {
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair: one 4-byte code point
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+}
+
 // ============================================================================
 // MIGRATION FROM ASYNCSTORAGE (optional)
 // ============================================================================
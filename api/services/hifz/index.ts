@@ -0,0 +1,77 @@
+/**
+ * Hifz Progress Firebase Client
+ *
+ * Optional cloud copy of the hifz tracker (stores/useHifzStore), so memorised
+ * ranges and their review schedules follow the user between devices.
+ *
+ * Data Structure:
+ * - `users/{userId}.hifz` — `{ ranges, removed, reviews, updatedAt }`
+ * - The field is replaced as a whole on save; merging with this device's copy
+ *   happens in the store (`mergeHifzData`) before saving
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { doc, getDoc, setDoc } from '@react-native-firebase/firestore';
+import { db } from '../../client/firebase';
+import { createLogger } from '../../../services/logging/logger';
+import type { HifzSyncData } from '../../../stores/useHifzStore';
+
+const logger = createLogger('Hifz Sync');
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const USERS_COLLECTION = 'users';
+const HIFZ_FIELD = 'hifz';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * The synced tracker, or null if this user has never synced
+ *
+ * @throws {Error} When the profile cannot be read
+ */
+export async function fetchHifzProgress(userId: string): Promise<HifzSyncData | null> {
+  try {
+    const snapshot = await getDoc(doc(db, USERS_COLLECTION, userId));
+    const data = snapshot.data()?.[HIFZ_FIELD] as Partial<HifzSyncData> | undefined;
+    if (!data) return null;
+
+    return {
+      ranges: data.ranges ?? {},
+      removed: data.removed ?? {},
+      reviews: Array.isArray(data.reviews) ? data.reviews : [],
+    };
+  } catch (error: any) {
+    logger.error('Failed to fetch hifz progress', { userId, error: error.message });
+    throw new Error('Could not load your hifz progress.');
+  }
+}
+
+/**
+ * Replace the synced tracker with `data`
+ *
+ * @throws {Error} When the profile cannot be written
+ */
+export async function saveHifzProgress(userId: string, data: HifzSyncData): Promise<void> {
+  try {
+    await setDoc(
+      doc(db, USERS_COLLECTION, userId),
+      { [HIFZ_FIELD]: { ...data, updatedAt: new Date().toISOString() } },
+      { mergeFields: [HIFZ_FIELD] }
+    );
+    logger.success('Hifz progress saved', {
+      userId,
+      ranges: Object.keys(data.ranges).length,
+      reviews: data.reviews.length,
+    });
+  } catch (error: any) {
+    logger.error('Failed to save hifz progress', { userId, error: error.message });
+    throw new Error('Could not save your hifz progress.');
+  }
+}
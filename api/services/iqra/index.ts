@@ -0,0 +1,86 @@
+/**
+ * Iqra Course Audio Service
+ *
+ * Resolves course audio references (see data/iqraCourse.ts) to playable URLs:
+ * drill clips from Firebase Storage, ayah examples from the same surah data
+ * the Quran reader uses. Resolved URLs are cached for the session through
+ * TanStack Query.
+ *
+ * The clips are uploaded by scripts/iqra/seed-iqra-clips.mjs; its clips.json
+ * lists every name the course expects under `iqra/`.
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { ref, getDownloadURL } from '@react-native-firebase/storage';
+import { storageService } from '../../client/firebase';
+import { logger } from '../../../services/logging/logger';
+import { fetchSurahDetail } from '../quran';
+import { iqraAudioKey, type IqraAudio } from '../../../data/iqraCourse';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CLIP_FOLDER = 'iqra'; // must match scripts/iqra
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+export const IQRA_QUERY_KEYS = {
+  all: ['iqra'] as const,
+  audio: (key: string) => ['iqra', 'audio', key] as const,
+};
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Playable URL for a course audio reference
+ *
+ * @throws {Error} When the clip or ayah audio is unavailable
+ */
+export async function resolveIqraAudio(audio: IqraAudio): Promise<string> {
+  if (audio.type === 'clip') {
+    try {
+      return await getDownloadURL(ref(storageService, `${CLIP_FOLDER}/${audio.clip}.mp3`));
+    } catch (error: any) {
+      logger.error('Iqra clip unavailable', { clip: audio.clip, error: error.message });
+      throw new Error('This recording is not available right now.');
+    }
+  }
+
+  const surah = await fetchSurahDetail(audio.surah);
+  const url = surah.ayahs.find((a) => a.numberInSurah === audio.ayah)?.audio;
+  if (!url) {
+    logger.warn('Iqra ayah audio missing', { surah: audio.surah, ayah: audio.ayah });
+    throw new Error('Audio for this ayah is not available right now.');
+  }
+  return url;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Resolver bound to the query cache; each reference is looked up once
+ */
+export function useIqraAudioResolver() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (audio: IqraAudio) =>
+      queryClient.fetchQuery({
+        queryKey: IQRA_QUERY_KEYS.audio(iqraAudioKey(audio)),
+        queryFn: () => resolveIqraAudio(audio),
+        staleTime: Infinity,
+      }),
+    [queryClient]
+  );
+}
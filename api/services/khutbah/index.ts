@@ -5,7 +5,7 @@
  * support (English, Malay, Tamil, Mandarin). Includes PDF links, AI summaries,
  * and search functionality.
  * 
- * @version 2.0 - Structured logging migration
+ * @version 2.1 - Friday preview helpers
  */
 
 import { useQuery, useQueryClient } from '@tanstack/react-query';
@@ -36,6 +36,9 @@ export interface Khutbah {
 // CONSTANTS
 // ============================================================================
 
+/** Languages MUIS publishes the khutbah in, in display order. */
+export const KHUTBAH_LANGUAGES: Language[] = ['English', 'Malay', 'Tamil', 'Mandarin'];
+
 const COLLECTION = 'khutbahs';
 const CACHE_KEY_ALL = 'khutbahs-all';
 
@@ -642,4 +645,37 @@ export function getMostRecentKhutbah(khutbahs: Khutbah[]): Khutbah | null {
   });
 
   return mostRecent;
-}
\ No newline at end of file
+}
+/**
+ * Checks whether a khutbah belongs to a given Friday
+ *
+ * A khutbah counts when it is dated within the six days up to and including
+ * that Friday, so next week's Jumaat never announces last week's sermon.
+ *
+ * @function isKhutbahForFriday
+ * @param {Pick<Khutbah, 'date'>} khutbah - Khutbah to check
+ * @param {string} friday - Friday in YYYY-MM-DD format
+ * @returns {boolean} True if the khutbah is for that Friday
+ *
+ * @example
+ * isKhutbahForFriday(latest, '2026-10-23');
+ */
+export function isKhutbahForFriday(khutbah: Pick<Khutbah, 'date'>, friday: string): boolean {
+  const days = (new Date(friday).getTime() - new Date(khutbah.date).getTime()) / (24 * 60 * 60 * 1000);
+  return days >= 0 && days < 7;
+}
+
+/**
+ * Builds the in-app link that opens a khutbah
+ *
+ * @function getKhutbahHref
+ * @param {string} id - Khutbah document ID
+ * @param {Language} language - Language to open it in
+ * @returns {string} Route on the khutbah screen
+ *
+ * @example
+ * getKhutbahHref('2026-10-23', 'Malay'); // "/khutbah?id=2026-10-23&language=Malay"
+ */
+export function getKhutbahHref(id: string, language: Language): string {
+  return `/khutbah?id=${encodeURIComponent(id)}&language=${language}`;
+}
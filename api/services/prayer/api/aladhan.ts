@@ -5,7 +5,7 @@
  * All responses are validated with Zod schemas.
  * 
  * Features:
- * - Prayer times fetching with Singapore calculation method
+ * - Prayer times fetching with the user's calculation profile (MUIS by default)
  * - Islamic date conversion (Gregorian ↔ Hijri)
  * - Monthly calendar bulk fetching
  * - Comprehensive error handling with custom error types
@@ -17,8 +17,9 @@
  */
 
 import { format } from 'date-fns';
-import { PrayerTimesParams, IslamicDateConversion, AladhanResponseSchema, PrayerServiceError, PrayerErrorCode } from '../types/index';
-import { ALADHAN_ENDPOINTS, CalculationMethod, School, DATE_FORMATS, ERROR_MESSAGES } from '../types/constants';
+import { PrayerTimesParams, PrayerCalculationProfile, IslamicDateConversion, AladhanResponseSchema, PrayerServiceError, PrayerErrorCode } from '../types/index';
+import { ALADHAN_ENDPOINTS, CalculationMethod, School, DATE_FORMATS, ERROR_MESSAGES, DEFAULT_CALCULATION_PROFILE } from '../types/constants';
+import { getAladhanLatitudeAdjustment } from '../utils/calculation-profile';
 import { aladhanClient } from '../../../client/http';
 import type { z } from 'zod';
 import { logger } from '../../../../services/logging/logger';
@@ -59,6 +60,7 @@ export async function fetchPrayerTimesFromAladhan(
       longitude,
       method = CalculationMethod.SINGAPORE,
       school = School.SHAFI,
+      latitudeAdjustmentMethod,
       date,
     } = params;
 
@@ -67,6 +69,7 @@ export async function fetchPrayerTimesFromAladhan(
       longitude: longitude.toFixed(4),
       method,
       school,
+      latitudeAdjustmentMethod,
       date: date || 'today',
       endpoint: ALADHAN_ENDPOINTS.TIMINGS,
     });
@@ -78,6 +81,7 @@ export async function fetchPrayerTimesFromAladhan(
         longitude,
         method,
         school,
+        ...(latitudeAdjustmentMethod && { latitudeAdjustmentMethod }),
         ...(date && { date }), // Optional date parameter
       },
     });
@@ -163,10 +167,11 @@ export async function fetchPrayerTimesFromAladhan(
  * Fetch today's prayer times
  * 
  * Convenience wrapper around fetchPrayerTimesFromAladhan that automatically
- * uses current date and Singapore calculation method.
+ * uses current date and the given calculation profile.
  * 
  * @param latitude - User latitude
  * @param longitude - User longitude
+ * @param profile - Calculation profile (default: MUIS Singapore)
  * @returns Validated Aladhan API response
  * 
  * @example
@@ -176,7 +181,8 @@ export async function fetchPrayerTimesFromAladhan(
  */
 export async function fetchTodayPrayerTimesFromAladhan(
   latitude: number,
-  longitude: number
+  longitude: number,
+  profile: PrayerCalculationProfile = DEFAULT_CALCULATION_PROFILE
 ): Promise<AladhanResponse> {
   const startTime = performance.now();
   
@@ -188,8 +194,9 @@ export async function fetchTodayPrayerTimesFromAladhan(
   const response = await fetchPrayerTimesFromAladhan({
     latitude,
     longitude,
-    method: CalculationMethod.SINGAPORE,
-    school: School.SHAFI,
+    method: profile.method,
+    school: profile.school,
+    latitudeAdjustmentMethod: getAladhanLatitudeAdjustment(profile.highLatitudeRule),
   });
 
   const duration = performance.now() - startTime;
@@ -210,6 +217,7 @@ export async function fetchTodayPrayerTimesFromAladhan(
  * @param latitude - User latitude
  * @param longitude - User longitude
  * @param date - JavaScript Date object
+ * @param profile - Calculation profile (default: MUIS Singapore)
  * @returns Validated Aladhan API response
  * 
  * @example
@@ -221,7 +229,8 @@ export async function fetchTodayPrayerTimesFromAladhan(
 export async function fetchPrayerTimesByDateFromAladhan(
   latitude: number,
   longitude: number,
-  date: Date
+  date: Date,
+  profile: PrayerCalculationProfile = DEFAULT_CALCULATION_PROFILE
 ): Promise<AladhanResponse> {
   const startTime = performance.now();
   const formattedDate = format(date, DATE_FORMATS.API); // DD-MM-YYYY
@@ -237,8 +246,9 @@ export async function fetchPrayerTimesByDateFromAladhan(
     latitude,
     longitude,
     date: formattedDate,
-    method: CalculationMethod.SINGAPORE,
-    school: School.SHAFI,
+    method: profile.method,
+    school: profile.school,
+    latitudeAdjustmentMethod: getAladhanLatitudeAdjustment(profile.highLatitudeRule),
   });
 
   const duration = performance.now() - startTime;
@@ -438,6 +448,7 @@ export async function getTodayIslamicDate(): Promise<IslamicDateConversion> {
  * @param month - Month (1-12)
  * @param latitude - User latitude
  * @param longitude - User longitude
+ * @param profile - Calculation profile (default: MUIS Singapore)
  * @returns Array of daily prayer times
  * 
  * @example
@@ -450,8 +461,11 @@ export async function fetchMonthlyCalendar(
   year: number,
   month: number,
   latitude: number,
-  longitude: number
+  longitude: number,
+  profile: PrayerCalculationProfile = DEFAULT_CALCULATION_PROFILE
 ): Promise<AladhanResponse[]> {
+  const latitudeAdjustmentMethod = getAladhanLatitudeAdjustment(profile.highLatitudeRule);
+
   const startTime = performance.now();
   
   try {
@@ -469,8 +483,9 @@ export async function fetchMonthlyCalendar(
         params: {
           latitude,
           longitude,
-          method: CalculationMethod.SINGAPORE,
-          school: School.SHAFI,
+          method: profile.method,
+          school: profile.school,
+          ...(latitudeAdjustmentMethod && { latitudeAdjustmentMethod }),
           month,
           year,
         },
@@ -527,7 +542,7 @@ export async function fetchMonthlyCalendar(
       month,
       days: validated.length,
       duration: `${totalDuration.toFixed(0)}ms`,
-      method: CalculationMethod.SINGAPORE,
+      method: profile.method,
       source: 'Aladhan API',
     });
 
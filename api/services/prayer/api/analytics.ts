@@ -0,0 +1,149 @@
+/**
+ * Prayer Log Range Client
+ *
+ * Reads prayer logs for arbitrary date ranges (month, year, custom) for the
+ * analytics screens.
+ *
+ * Logs live in a single map on the user document, so a range read is one
+ * document read however many months it spans. Results are cached in MMKV per
+ * month: a year view only reads Firestore for months missing from the cache,
+ * and all of them are filled from that one read.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { doc, getDoc } from '@react-native-firebase/firestore';
+import { format } from 'date-fns';
+import { PrayerErrorCode, PrayerLog, PrayerServiceError } from '../types/index';
+import {
+  ERROR_MESSAGES,
+  FIREBASE_COLLECTIONS,
+  PRAYER_LOG_MONTH_CACHE_TTL,
+} from '../types/constants';
+import { getMonthsInRange } from '../utils/analytics';
+import { normalizePrayerLogPrayers } from '../utils/prayer';
+import { db } from '../../../client/firebase';
+import { cache } from '../../../client/storage';
+import { logger } from '../../../../services/logging/logger';
+
+type MonthLogs = Record<string, PrayerLog['prayers']>;
+
+// ============================================================================
+// MONTH CACHE
+// ============================================================================
+
+const monthCacheKey = (userId: string, month: string) => `prayer-log-month:${userId}:${month}`;
+
+function cacheMonth(userId: string, month: string, logs: MonthLogs): void {
+  const isCurrentMonth = month === format(new Date(), 'yyyy-MM');
+  cache.set(
+    monthCacheKey(userId, month),
+    logs,
+    isCurrentMonth ? PRAYER_LOG_MONTH_CACHE_TTL.CURRENT : PRAYER_LOG_MONTH_CACHE_TTL.PAST
+  );
+}
+
+/**
+ * Drop the cached month containing a date
+ *
+ * Call after a log for that date reaches Firestore.
+ *
+ * @param userId - User ID
+ * @param date - Date string (YYYY-MM-DD)
+ */
+export function evictPrayerLogMonthCache(userId: string, date: string): void {
+  cache.clear(monthCacheKey(userId, date.slice(0, 7)));
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Fetch prayer logs for a date range
+ *
+ * @param userId - User ID
+ * @param startDate - Start date (YYYY-MM-DD)
+ * @param endDate - End date (YYYY-MM-DD)
+ * @returns Entries keyed by date (only days with a log)
+ * @throws {PrayerServiceError} On Firebase errors
+ *
+ * @example
+ * ```ts
+ * const logs = await fetchPrayerLogRange('user123', '2026-01-01', '2026-12-31');
+ * ```
+ */
+export async function fetchPrayerLogRange(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<Record<string, PrayerLog['prayers']>> {
+  const startTime = performance.now();
+
+  if (!userId) {
+    logger.error('User ID required for prayer log range fetch', { startDate, endDate });
+    throw new PrayerServiceError(PrayerErrorCode.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+  }
+
+  const months = getMonthsInRange(startDate, endDate);
+  const byMonth: Record<string, MonthLogs> = {};
+  const missing: string[] = [];
+
+  for (const month of months) {
+    const cached = cache.get<MonthLogs>(monthCacheKey(userId, month));
+    if (cached) {
+      byMonth[month] = cached;
+    } else {
+      missing.push(month);
+    }
+  }
+
+  if (missing.length > 0) {
+    try {
+      const snapshot = await getDoc(doc(db, FIREBASE_COLLECTIONS.USERS, userId));
+      const rawLogs: Record<string, unknown> = snapshot.data()?.prayerLogs ?? {};
+
+      missing.forEach((month) => {
+        byMonth[month] = {};
+      });
+      Object.entries(rawLogs).forEach(([date, prayers]) => {
+        const month = date.slice(0, 7);
+        if (missing.includes(month)) {
+          byMonth[month][date] = normalizePrayerLogPrayers(prayers);
+        }
+      });
+      missing.forEach((month) => cacheMonth(userId, month, byMonth[month]));
+    } catch (error) {
+      logger.error('Failed to fetch prayer log range', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        dateRange: `${startDate} to ${endDate}`,
+      });
+
+      throw new PrayerServiceError(
+        PrayerErrorCode.FIREBASE_ERROR,
+        ERROR_MESSAGES.FIREBASE_ERROR,
+        error
+      );
+    }
+  }
+
+  const logs: Record<string, PrayerLog['prayers']> = {};
+  Object.values(byMonth).forEach((monthLogs) => {
+    Object.entries(monthLogs).forEach(([date, prayers]) => {
+      if (date >= startDate && date <= endDate) logs[date] = prayers;
+    });
+  });
+
+  logger.success('Prayer log range fetched', {
+    userId,
+    dateRange: `${startDate} to ${endDate}`,
+    months: months.length,
+    cachedMonths: months.length - missing.length,
+    daysWithLogs: Object.keys(logs).length,
+    duration: `${(performance.now() - startTime).toFixed(0)}ms`,
+  });
+
+  return logs;
+}
@@ -6,6 +6,7 @@
  * Features:
  * - Prayer times queries from year-specific collections
  * - Prayer log management with nested field updates
+ * - Conflict-free merge for replayed offline writes
  * - Weekly prayer log fetching with date range filtering
  * - Prayer statistics calculation (completion rate, streaks)
  * - User document validation
@@ -14,15 +15,39 @@
  * Data Structure:
  * - Prayer times: Collection per year (prayerTimes{year}, e.g. prayerTimes2026)
  * - Prayer logs: Nested in user documents under prayerLogs.{date}
+ *   ({ status, loggedAt?, mosqueId? } per prayer; legacy booleans are migrated on read)
  * - Date format: Firebase uses D/M/YYYY, app uses YYYY-MM-DD
  * 
  * @version 4.0
  * @since 2025-12-24
  */
 
-import { collection, getDocs, doc, getDoc, updateDoc, query, limit, where } from '@react-native-firebase/firestore';
-import { DailyPrayerTime, PrayerLog, PrayerServiceError, PrayerErrorCode } from '../types/index';
+import {
+  collection,
+  getDocs,
+  doc,
+  getDoc,
+  updateDoc,
+  query,
+  limit,
+  where,
+  runTransaction,
+} from '@react-native-firebase/firestore';
+import {
+  DailyPrayerTime,
+  PrayerLog,
+  PrayerLogStatus,
+  PrayerLogTravelTag,
+  PrayerServiceError,
+  PrayerErrorCode,
+} from '../types/index';
 import { FIREBASE_COLLECTIONS, getPrayerTimesCollection, ERROR_MESSAGES } from '../types/constants';
+import {
+  getCompletedPrayersCount,
+  mergePrayerLogPrayers,
+  normalizePrayerLogPrayers,
+  summarizePrayerLogs,
+} from '../utils/prayer';
 import { db } from '../../../client/firebase';
 import { logger } from '../../../../services/logging/logger';
 
@@ -307,8 +332,9 @@ export async function fetchMonthlyPrayerTimesFromFirebase(
 /**
  * Fetch prayer log for a specific user and date
  * 
- * Retrieves prayer completion status for a user on a specific date. Prayer
+ * Retrieves prayer statuses for a user on a specific date. Prayer
  * logs are stored as nested objects in the user document under prayerLogs.{date}.
+ * Legacy boolean logs are migrated to status entries on read.
  * 
  * @param userId - User ID
  * @param date - ISO format date (YYYY-MM-DD)
@@ -318,7 +344,7 @@ export async function fetchMonthlyPrayerTimesFromFirebase(
  * @example
  * ```ts
  * const log = await fetchPrayerLog('user123', '2025-12-22');
- * console.log(log?.prayers.Subuh); // true/false
+ * console.log(log?.prayers.Subuh.status); // 'on_time' | 'congregation' | ...
  * ```
  */
 export async function fetchPrayerLog(
@@ -369,9 +395,10 @@ export async function fetchPrayerLog(
     }
 
     const userData = userSnapshot.data();
-    const prayers = userData?.prayerLogs?.[date];
+    const rawPrayers = userData?.prayerLogs?.[date];
+    const travel = userData?.prayerLogTravel?.[date];
 
-    if (!prayers) {
+    if (!rawPrayers) {
       const duration = performance.now() - startTime;
       
       logger.debug('No prayer log for date', {
@@ -385,8 +412,9 @@ export async function fetchPrayerLog(
       return null;
     }
 
+    const prayers = normalizePrayerLogPrayers(rawPrayers);
     const totalDuration = performance.now() - startTime;
-    const completedPrayers = Object.values(prayers).filter(Boolean).length;
+    const completedPrayers = getCompletedPrayersCount(prayers);
     const totalPrayers = Object.keys(prayers).length;
 
     logger.success('Prayer log fetched from Firebase', {
@@ -402,6 +430,7 @@ export async function fetchPrayerLog(
       userId,
       date,
       prayers,
+      ...(travel && { travel }),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -431,30 +460,32 @@ export async function fetchPrayerLog(
  * Save prayer log for a user and date
  * 
  * Uses Firestore's nested object update to avoid overwriting other dates.
- * Updates the specific date's prayer completion status while preserving
+ * Updates the specific date's prayer statuses while preserving
  * all other prayer logs.
  * 
  * @param userId - User ID
  * @param date - ISO format date (YYYY-MM-DD)
- * @param prayers - Prayer completion status
+ * @param prayers - Prayer status entries
+ * @param travel - Travel tag when logged during a travel session (stored under prayerLogTravel.{date})
  * @returns Saved prayer log
  * @throws {PrayerServiceError} On Firebase errors
  * 
  * @example
  * ```ts
  * const log = await savePrayerLog('user123', '2025-12-22', {
- *   Subuh: true,
- *   Zohor: true,
- *   Asar: false,
- *   Maghrib: true,
- *   Isyak: true,
+ *   Subuh: createPrayerLogEntry('congregation', { mosqueId: 'abc123' }),
+ *   Zohor: createPrayerLogEntry('on_time'),
+ *   Asar: createPrayerLogEntry('missed'),
+ *   Maghrib: createPrayerLogEntry('late'),
+ *   Isyak: createPrayerLogEntry('excused'),
  * });
  * ```
  */
 export async function savePrayerLog(
   userId: string,
   date: string,
-  prayers: PrayerLog['prayers']
+  prayers: PrayerLog['prayers'],
+  travel?: PrayerLogTravelTag
 ): Promise<PrayerLog> {
   const startTime = performance.now();
   
@@ -470,7 +501,7 @@ export async function savePrayerLog(
       );
     }
 
-    const completedPrayers = Object.values(prayers).filter(Boolean).length;
+    const completedPrayers = getCompletedPrayersCount(prayers);
     const totalPrayers = Object.keys(prayers).length;
 
     logger.debug('Saving prayer log to Firebase', {
@@ -479,6 +510,7 @@ export async function savePrayerLog(
       prayers: totalPrayers,
       completed: completedPrayers,
       updatePath: `prayerLogs.${date}`,
+      travelSession: travel?.sessionId,
     });
 
     const userRef = doc(db, FIREBASE_COLLECTIONS.USERS, userId);
@@ -487,6 +519,7 @@ export async function savePrayerLog(
     const updateStart = performance.now();
     await updateDoc(userRef, {
       [`prayerLogs.${date}`]: prayers,
+      ...(travel && { [`prayerLogTravel.${date}`]: travel }),
     });
     const updateDuration = performance.now() - updateStart;
 
@@ -506,6 +539,7 @@ export async function savePrayerLog(
       userId,
       date,
       prayers,
+      ...(travel && { travel }),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -531,6 +565,93 @@ export async function savePrayerLog(
   }
 }
 
+/**
+ * Merge a prayer log into Firestore
+ *
+ * Used when replaying queued offline writes. Reads the stored day inside a
+ * transaction and keeps, per prayer, whichever entry changed last (see
+ * `mergePrayerLogPrayers`), so a stale queued write cannot undo a newer log
+ * made on another device.
+ *
+ * @param userId - User ID
+ * @param date - Date string (YYYY-MM-DD)
+ * @param prayers - Locally written entries
+ * @param travel - Travel tag (replaces the stored tag when given)
+ * @returns Merged prayer log
+ * @throws {PrayerServiceError} On Firebase errors
+ *
+ * @example
+ * ```ts
+ * const merged = await mergePrayerLog('user123', '2025-12-22', queued.prayers);
+ * ```
+ */
+export async function mergePrayerLog(
+  userId: string,
+  date: string,
+  prayers: PrayerLog['prayers'],
+  travel?: PrayerLogTravelTag
+): Promise<PrayerLog> {
+  const startTime = performance.now();
+
+  try {
+    if (!userId) {
+      logger.error('User ID required for prayer log merge', { date });
+      throw new PrayerServiceError(PrayerErrorCode.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+    }
+
+    const userRef = doc(db, FIREBASE_COLLECTIONS.USERS, userId);
+
+    const merged = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(userRef);
+      const stored = snapshot.data()?.prayerLogs?.[date];
+      const next = stored
+        ? mergePrayerLogPrayers(normalizePrayerLogPrayers(stored), prayers)
+        : prayers;
+
+      transaction.update(userRef, {
+        [`prayerLogs.${date}`]: next,
+        ...(travel && { [`prayerLogTravel.${date}`]: travel }),
+      });
+
+      return next;
+    });
+
+    logger.success('Prayer log merged into Firebase', {
+      userId,
+      date,
+      completed: getCompletedPrayersCount(merged),
+      travelSession: travel?.sessionId,
+      duration: `${(performance.now() - startTime).toFixed(0)}ms`,
+    });
+
+    return {
+      userId,
+      date,
+      prayers: merged,
+      ...(travel && { travel }),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error('Failed to merge prayer log', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId,
+      date,
+      duration: `${(performance.now() - startTime).toFixed(0)}ms`,
+    });
+
+    if (error instanceof PrayerServiceError) {
+      throw error;
+    }
+
+    throw new PrayerServiceError(
+      PrayerErrorCode.FIREBASE_ERROR,
+      ERROR_MESSAGES.FIREBASE_ERROR,
+      error
+    );
+  }
+}
+
 /**
  * Fetch weekly prayer logs for a user
  * 
@@ -616,7 +737,7 @@ export async function fetchWeeklyPrayerLogs(
 
     Object.keys(allLogs).forEach((date) => {
       if (date >= startDate && date <= endDate) {
-        weeklyLogs[date] = allLogs[date];
+        weeklyLogs[date] = normalizePrayerLogPrayers(allLogs[date]);
         filteredCount++;
       }
     });
@@ -667,9 +788,10 @@ export async function fetchWeeklyPrayerLogs(
  * 
  * Analyzes all prayer logs to calculate comprehensive statistics including:
  * - Total prayers logged across all days
- * - Completion rate (percentage of prayers completed)
- * - Current streak (consecutive days with all prayers completed)
+ * - Completion rate (weighted by status; excused prayers are excluded)
+ * - Current streak (consecutive days kept by `keepsPrayerStreak`)
  * - Longest streak (all-time record)
+ * - Count per status
  * 
  * @param userId - User ID
  * @returns Prayer statistics
@@ -690,6 +812,7 @@ export async function calculatePrayerStats(
   currentStreak: number;
   longestStreak: number;
   completionRate: number;
+  statusCounts: Record<PrayerLogStatus, number>;
 }> {
   const startTime = performance.now();
   
@@ -727,13 +850,7 @@ export async function calculatePrayerStats(
         duration: `${duration.toFixed(0)}ms`,
       });
       
-      return {
-        totalPrayers: 0,
-        completedPrayers: 0,
-        currentStreak: 0,
-        longestStreak: 0,
-        completionRate: 0,
-      };
+      return summarizePrayerLogs({});
     }
 
     const userData = userSnapshot.data();
@@ -744,57 +861,11 @@ export async function calculatePrayerStats(
       totalDays,
     });
 
-    let totalPrayers = 0;
-    let completedPrayers = 0;
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let tempStreak = 0;
-
-    // Sort dates chronologically
     const calcStart = performance.now();
-    const sortedDates = Object.keys(prayerLogs).sort();
-
-    sortedDates.forEach((date, index) => {
-      const prayers = prayerLogs[date];
-      const prayerNames = Object.keys(prayers);
-      const completedCount = Object.values(prayers).filter(Boolean).length;
-
-      totalPrayers += prayerNames.length;
-      completedPrayers += completedCount;
-
-      // Check if all prayers completed (for streak)
-      const isFullyCompleted = completedCount === prayerNames.length;
-      
-      if (isFullyCompleted) {
-        tempStreak++;
-        currentStreak = tempStreak;
-        longestStreak = Math.max(longestStreak, tempStreak);
-      } else {
-        tempStreak = 0;
-      }
-
-      if (index % 10 === 0 && index > 0) {
-        logger.debug('Stats calculation progress', {
-          processedDays: index,
-          totalDays,
-          currentStreak: tempStreak,
-        });
-      }
-    });
-    
+    const stats = summarizePrayerLogs(prayerLogs);
+    const { totalPrayers, completedPrayers, currentStreak, longestStreak, completionRate } = stats;
     const calcDuration = performance.now() - calcStart;
 
-    const completionRate =
-      totalPrayers > 0 ? Math.round((completedPrayers / totalPrayers) * 100) : 0;
-
-    const stats = {
-      totalPrayers,
-      completedPrayers,
-      currentStreak,
-      longestStreak,
-      completionRate,
-    };
-
     const totalDuration = performance.now() - startTime;
 
     logger.success('Prayer stats calculated', {
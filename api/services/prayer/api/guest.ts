@@ -0,0 +1,243 @@
+/**
+ * Guest Prayer Logs
+ *
+ * On-device prayer history for people using the app without an account.
+ * Logs are kept in MMKV in the same shape as the user document, so stats
+ * and streaks are computed by the same helpers, and the whole history can be
+ * merged into Firestore once the user signs in.
+ *
+ * Features:
+ * - Daily/weekly logs and stats without a user ID
+ * - Merge into `users/{userId}.prayerLogs` on sign-in, per prayer
+ * - Conflict report for prayers logged differently on both sides
+ * - Backup export/import while signed out
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import {
+  PrayerLog,
+  PrayerLogHistory,
+  PrayerLogMergeReport,
+  PrayerLogTravelTag,
+  PrayerStats,
+} from '../types/index';
+import { GUEST_PRAYER_LOGS_KEY, GUEST_USER_ID } from '../types/constants';
+import {
+  mergePrayerLogHistory,
+  normalizePrayerLogPrayers,
+  summarizePrayerLogs,
+} from '../utils/prayer';
+import { importPrayerLogHistory } from './history';
+import { defaultStorage } from '../../../client/storage';
+import { logger } from '../../../../services/logging/logger';
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function readGuestLogs(): PrayerLogHistory {
+  const stored = defaultStorage.get<PrayerLogHistory>(GUEST_PRAYER_LOGS_KEY);
+  return {
+    prayerLogs: stored?.prayerLogs ?? {},
+    prayerLogTravel: stored?.prayerLogTravel ?? {},
+  };
+}
+
+function writeGuestLogs(logs: PrayerLogHistory): void {
+  defaultStorage.set(GUEST_PRAYER_LOGS_KEY, logs);
+}
+
+function toPrayerLog(date: string, prayers: PrayerLog['prayers'], travel?: PrayerLogTravelTag): PrayerLog {
+  return {
+    userId: GUEST_USER_ID,
+    date,
+    prayers,
+    ...(travel && { travel }),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Guest prayer log for a date
+ *
+ * @param date - Date string (YYYY-MM-DD)
+ * @returns Prayer log or null if nothing was logged
+ */
+export function fetchGuestPrayerLog(date: string): PrayerLog | null {
+  const { prayerLogs, prayerLogTravel } = readGuestLogs();
+  const stored = prayerLogs[date];
+  if (!stored) return null;
+
+  return toPrayerLog(date, normalizePrayerLogPrayers(stored), prayerLogTravel[date]);
+}
+
+/**
+ * Guest prayer logs for a date range
+ *
+ * @param startDate - Start date (YYYY-MM-DD)
+ * @param endDate - End date (YYYY-MM-DD)
+ * @returns Entries keyed by date
+ */
+export function fetchGuestWeeklyPrayerLogs(
+  startDate: string,
+  endDate: string
+): Record<string, PrayerLog['prayers']> {
+  const { prayerLogs } = readGuestLogs();
+
+  return Object.fromEntries(
+    Object.entries(prayerLogs)
+      .filter(([date]) => date >= startDate && date <= endDate)
+      .map(([date, prayers]) => [date, normalizePrayerLogPrayers(prayers)])
+  );
+}
+
+/**
+ * Statistics over all guest logs
+ */
+export function calculateGuestPrayerStats(): PrayerStats {
+  return {
+    ...summarizePrayerLogs(readGuestLogs().prayerLogs),
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether any guest history is waiting to be migrated
+ */
+export function hasGuestPrayerLogs(): boolean {
+  return Object.keys(readGuestLogs().prayerLogs).length > 0;
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Save a guest prayer log
+ *
+ * @param date - Date string (YYYY-MM-DD)
+ * @param prayers - Complete prayer entries for the day
+ * @param travel - Travel tag when logged during a travel session
+ * @returns Saved prayer log
+ *
+ * @example
+ * ```ts
+ * saveGuestPrayerLog('2026-10-18', { ...prayers, Subuh: createPrayerLogEntry('on_time') });
+ * ```
+ */
+export function saveGuestPrayerLog(
+  date: string,
+  prayers: PrayerLog['prayers'],
+  travel?: PrayerLogTravelTag
+): PrayerLog {
+  const logs = readGuestLogs();
+
+  writeGuestLogs({
+    prayerLogs: { ...logs.prayerLogs, [date]: prayers },
+    prayerLogTravel: travel ? { ...logs.prayerLogTravel, [date]: travel } : logs.prayerLogTravel,
+  });
+
+  logger.debug('Guest prayer log saved', { date, travelSession: travel?.sessionId });
+
+  return toPrayerLog(date, prayers, travel ?? logs.prayerLogTravel[date]);
+}
+
+/**
+ * Delete all guest logs from the device
+ */
+export function clearGuestPrayerLogs(): void {
+  defaultStorage.delete(GUEST_PRAYER_LOGS_KEY);
+}
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+/**
+ * The whole guest history, e.g. for a backup
+ */
+export function exportGuestPrayerLogHistory(): PrayerLogHistory {
+  const { prayerLogs, prayerLogTravel } = readGuestLogs();
+
+  return {
+    prayerLogs: Object.fromEntries(
+      Object.entries(prayerLogs).map(([date, prayers]) => [date, normalizePrayerLogPrayers(prayers)])
+    ),
+    prayerLogTravel,
+  };
+}
+
+/**
+ * Merge a history (e.g. a backup file) into the guest logs
+ *
+ * Same rules as `importPrayerLogHistory`, applied to on-device storage.
+ *
+ * @param history - History to merge
+ * @returns Merge report (`userId` is `GUEST_USER_ID`)
+ */
+export function importGuestPrayerLogHistory(history: PrayerLogHistory): PrayerLogMergeReport {
+  const logs = readGuestLogs();
+  const { changes, addedDates, mergedDates, conflicts } = mergePrayerLogHistory(logs, history);
+
+  writeGuestLogs({
+    prayerLogs: { ...logs.prayerLogs, ...changes.prayerLogs },
+    prayerLogTravel: { ...logs.prayerLogTravel, ...changes.prayerLogTravel },
+  });
+
+  logger.debug('Prayer history imported into guest logs', {
+    added: addedDates.length,
+    merged: mergedDates.length,
+    conflicts: conflicts.length,
+  });
+
+  return {
+    userId: GUEST_USER_ID,
+    addedDates,
+    mergedDates,
+    conflicts,
+    mergedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * Merge guest history into a signed-in user's prayer logs
+ *
+ * Uses `importPrayerLogHistory`. Guest storage is cleared once the merge is
+ * committed.
+ *
+ * @param userId - Signed-in user ID
+ * @returns Merge report (null when there was nothing to migrate)
+ * @throws {PrayerServiceError} On Firebase errors (guest logs are kept)
+ *
+ * @example
+ * ```ts
+ * const report = await migrateGuestPrayerLogs(user.uid);
+ * console.log(`${report?.conflicts.length} conflicts`);
+ * ```
+ */
+export async function migrateGuestPrayerLogs(userId: string): Promise<PrayerLogMergeReport | null> {
+  if (!hasGuestPrayerLogs()) return null;
+
+  const report = await importPrayerLogHistory(userId, readGuestLogs());
+  clearGuestPrayerLogs();
+
+  logger.success('Guest prayer logs migrated', {
+    userId,
+    added: report.addedDates.length,
+    merged: report.mergedDates.length,
+    conflicts: report.conflicts.length,
+  });
+
+  return report;
+}
@@ -0,0 +1,167 @@
+/**
+ * Prayer Log History Client
+ *
+ * Whole-history reads and merges of a user's prayer logs, used by backups
+ * and by the guest sign-in migration.
+ *
+ * Features:
+ * - Full history export (logs + travel tags) in one document read
+ * - Transactional merge of a history into `users/{userId}`, per prayer
+ * - Conflict report for prayers logged differently on both sides
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { doc, getDoc, runTransaction } from '@react-native-firebase/firestore';
+import {
+  PrayerErrorCode,
+  PrayerLogHistory,
+  PrayerLogMergeReport,
+  PrayerLogTravelTag,
+  PrayerServiceError,
+} from '../types/index';
+import { ERROR_MESSAGES, FIREBASE_COLLECTIONS } from '../types/constants';
+import { mergePrayerLogHistory, normalizePrayerLogPrayers } from '../utils/prayer';
+import { evictPrayerLogMonthCache } from './analytics';
+import { db } from '../../../client/firebase';
+import { logger } from '../../../../services/logging/logger';
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Fetch a user's whole prayer history
+ *
+ * @param userId - User ID
+ * @returns All logged days (normalized) and travel tags
+ * @throws {PrayerServiceError} On Firebase errors
+ *
+ * @example
+ * ```ts
+ * const history = await fetchPrayerLogHistory('user123');
+ * console.log(Object.keys(history.prayerLogs).length);
+ * ```
+ */
+export async function fetchPrayerLogHistory(userId: string): Promise<PrayerLogHistory> {
+  const startTime = performance.now();
+
+  if (!userId) {
+    logger.error('User ID required for prayer history fetch');
+    throw new PrayerServiceError(PrayerErrorCode.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+  }
+
+  try {
+    const snapshot = await getDoc(doc(db, FIREBASE_COLLECTIONS.USERS, userId));
+    const rawLogs: Record<string, unknown> = snapshot.data()?.prayerLogs ?? {};
+    const prayerLogTravel: Record<string, PrayerLogTravelTag> =
+      snapshot.data()?.prayerLogTravel ?? {};
+
+    const prayerLogs = Object.fromEntries(
+      Object.entries(rawLogs).map(([date, prayers]) => [date, normalizePrayerLogPrayers(prayers)])
+    );
+
+    logger.success('Prayer history fetched', {
+      userId,
+      days: Object.keys(prayerLogs).length,
+      duration: `${(performance.now() - startTime).toFixed(0)}ms`,
+    });
+
+    return { prayerLogs, prayerLogTravel };
+  } catch (error) {
+    logger.error('Failed to fetch prayer history', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId,
+    });
+
+    throw new PrayerServiceError(
+      PrayerErrorCode.FIREBASE_ERROR,
+      ERROR_MESSAGES.FIREBASE_ERROR,
+      error
+    );
+  }
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Merge a prayer history into a user's prayer logs
+ *
+ * Runs in a transaction against the user document. Days the account has no
+ * log for are copied over; other days are merged per prayer with
+ * `mergePrayerLogPrayers` (most recently changed entry wins). Prayers logged
+ * with different statuses on both sides are listed in the report.
+ *
+ * @param userId - Signed-in user ID
+ * @param history - History to merge (guest logs, backup file)
+ * @returns Merge report
+ * @throws {PrayerServiceError} On Firebase errors
+ *
+ * @example
+ * ```ts
+ * const report = await importPrayerLogHistory(user.uid, backup.prayer);
+ * console.log(`${report.conflicts.length} conflicts`);
+ * ```
+ */
+export async function importPrayerLogHistory(
+  userId: string,
+  history: PrayerLogHistory
+): Promise<PrayerLogMergeReport> {
+  const startTime = performance.now();
+
+  if (!userId) {
+    logger.error('User ID required for prayer history import');
+    throw new PrayerServiceError(PrayerErrorCode.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+  }
+
+  const dates = Object.keys(history.prayerLogs);
+
+  try {
+    const userRef = doc(db, FIREBASE_COLLECTIONS.USERS, userId);
+
+    const result = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(userRef);
+      const merged = mergePrayerLogHistory(snapshot.data() ?? {}, history);
+
+      if (dates.length > 0) {
+        transaction.set(userRef, merged.changes, { merge: true });
+      }
+
+      return merged;
+    });
+
+    dates.forEach((date) => evictPrayerLogMonthCache(userId, date));
+
+    logger.success('Prayer history imported', {
+      userId,
+      added: result.addedDates.length,
+      merged: result.mergedDates.length,
+      conflicts: result.conflicts.length,
+      duration: `${(performance.now() - startTime).toFixed(0)}ms`,
+    });
+
+    return {
+      userId,
+      addedDates: result.addedDates,
+      mergedDates: result.mergedDates,
+      conflicts: result.conflicts,
+      mergedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error('Failed to import prayer history', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId,
+      dates: dates.length,
+      duration: `${(performance.now() - startTime).toFixed(0)}ms`,
+    });
+
+    throw new PrayerServiceError(
+      PrayerErrorCode.FIREBASE_ERROR,
+      ERROR_MESSAGES.FIREBASE_ERROR,
+      error
+    );
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Prayer Log Outbox
+ *
+ * Durable queue for prayer log writes. Every save is written to MMKV first
+ * and then replayed against Firestore, so a log tapped while offline (e.g. on
+ * the MRT) survives the app being killed.
+ *
+ * Features:
+ * - One queued entry per user and date, merged per prayer (last writer wins)
+ * - Replays on reconnect (NetInfo) and on app start
+ * - Transient failures are retried with exponential backoff and never dropped;
+ *   only writes that can never succeed are discarded
+ * - Transactional merge with the stored log (see `mergePrayerLog`)
+ * - Subscribable sync status for the UI, including failing writes
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { mergePrayerLog } from './firebase';
+import { evictPrayerLogMonthCache } from './analytics';
+import {
+  PrayerErrorCode,
+  PrayerLog,
+  PrayerLogOutboxEntry,
+  PrayerLogSyncStatus,
+  PrayerLogTravelTag,
+  PrayerServiceError,
+} from '../types/index';
+import {
+  PRAYER_LOG_OUTBOX_BASE_BACKOFF_MS,
+  PRAYER_LOG_OUTBOX_KEY,
+  PRAYER_LOG_OUTBOX_MAX_BACKOFF_MS,
+} from '../types/constants';
+import { mergePrayerLogPrayers } from '../utils/prayer';
+import { defaultStorage } from '../../../client/storage';
+import { logger } from '../../../../services/logging/logger';
+
+type Outbox = Record<string, PrayerLogOutboxEntry>;
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let status: PrayerLogSyncStatus = {
+  ...countOutbox(readOutbox()),
+  isSyncing: false,
+  isOnline: true,
+  lastSyncedAt: null,
+};
+
+const listeners = new Set<() => void>();
+let flushChain: Promise<unknown> = Promise.resolve();
+
+// Backoff retry, armed by startPrayerLogOutboxSync
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let onRetryDue: (() => void) | null = null;
+
+function setStatus(update: Partial<PrayerLogSyncStatus>): void {
+  status = { ...status, ...update };
+  listeners.forEach((listener) => listener());
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function readOutbox(): Outbox {
+  return defaultStorage.get<Outbox>(PRAYER_LOG_OUTBOX_KEY) ?? {};
+}
+
+function countOutbox(outbox: Outbox): Pick<PrayerLogSyncStatus, 'pendingCount' | 'failingCount' | 'lastError'> {
+  const entries = Object.values(outbox);
+  const failing = entries.filter((entry) => entry.attempts > 0);
+  const latest = failing.reduce<PrayerLogOutboxEntry | null>(
+    (a, b) => (!a || (b.nextAttemptAt ?? '') > (a.nextAttemptAt ?? '') ? b : a),
+    null
+  );
+  return {
+    pendingCount: entries.length,
+    failingCount: failing.length,
+    lastError: latest?.lastError ?? null,
+  };
+}
+
+function writeOutbox(outbox: Outbox): void {
+  defaultStorage.set(PRAYER_LOG_OUTBOX_KEY, outbox);
+  setStatus(countOutbox(outbox));
+}
+
+function toKey(userId: string, date: string): string {
+  return `${userId}:${date}`;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+function backoffMs(attempts: number): number {
+  return Math.min(
+    PRAYER_LOG_OUTBOX_MAX_BACKOFF_MS,
+    PRAYER_LOG_OUTBOX_BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1)
+  );
+}
+
+/**
+ * Replay the outbox once the earliest backed-off write is due
+ */
+function scheduleRetry(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (!onRetryDue) return;
+
+  const due = Object.values(readOutbox())
+    .map((entry) => (entry.nextAttemptAt ? Date.parse(entry.nextAttemptAt) : NaN))
+    .filter((time) => !Number.isNaN(time));
+  if (due.length === 0) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    onRetryDue?.();
+  }, Math.max(0, Math.min(...due) - Date.now()));
+}
+
+/**
+ * Errors that will fail the same way on every retry
+ */
+function isPermanentError(error: unknown): boolean {
+  if (!(error instanceof PrayerServiceError)) return false;
+  if (error.code === PrayerErrorCode.UNAUTHORIZED || error.code === PrayerErrorCode.VALIDATION_ERROR) {
+    return true;
+  }
+
+  const code = (error.originalError as { code?: string } | undefined)?.code;
+  return code === 'firestore/permission-denied' || code === 'firestore/not-found';
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Queue a prayer log write
+ *
+ * A pending write for the same day is merged per prayer, keeping the most
+ * recently changed entry. A new change is tried right away, even when an
+ * earlier write for the day is waiting out a backoff.
+ *
+ * @param userId - User ID
+ * @param date - Date string (YYYY-MM-DD)
+ * @param prayers - Complete prayer entries for the day
+ * @param travel - Travel tag for the day
+ * @returns Queued entry
+ *
+ * @example
+ * ```ts
+ * enqueuePrayerLogWrite('user123', '2026-10-18', prayers);
+ * await flushPrayerLogOutbox({ userId: 'user123', date: '2026-10-18' });
+ * ```
+ */
+export function enqueuePrayerLogWrite(
+  userId: string,
+  date: string,
+  prayers: PrayerLog['prayers'],
+  travel?: PrayerLogTravelTag
+): PrayerLogOutboxEntry {
+  const outbox = readOutbox();
+  const key = toKey(userId, date);
+  const existing = outbox[key];
+
+  const entry: PrayerLogOutboxEntry = {
+    userId,
+    date,
+    prayers: existing ? mergePrayerLogPrayers(existing.prayers, prayers) : prayers,
+    ...((travel ?? existing?.travel) && { travel: travel ?? existing?.travel }),
+    queuedAt: existing?.queuedAt ?? new Date().toISOString(),
+    attempts: existing?.attempts ?? 0,
+    ...(existing?.lastError && { lastError: existing.lastError }),
+  };
+
+  writeOutbox({ ...outbox, [key]: entry });
+
+  logger.debug('Prayer log write queued', {
+    date,
+    merged: !!existing,
+    pendingCount: status.pendingCount,
+  });
+
+  return entry;
+}
+
+/**
+ * Queued write for a day, if any
+ */
+export function getPendingPrayerLogWrite(userId: string, date: string): PrayerLogOutboxEntry | null {
+  return readOutbox()[toKey(userId, date)] ?? null;
+}
+
+/**
+ * All queued writes, optionally for one user
+ */
+export function getPendingPrayerLogWrites(userId?: string): PrayerLogOutboxEntry[] {
+  return Object.values(readOutbox()).filter((entry) => !userId || entry.userId === userId);
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+async function isConnected(): Promise<boolean> {
+  const state = await NetInfo.fetch();
+  const online = state.isConnected !== false && state.isInternetReachable !== false;
+  if (online !== status.isOnline) setStatus({ isOnline: online });
+  return online;
+}
+
+async function flush(filter: { userId?: string; date?: string }): Promise<PrayerLog[]> {
+  const now = new Date().toISOString();
+  const entries = getPendingPrayerLogWrites(filter.userId).filter(
+    (entry) =>
+      (!filter.date || entry.date === filter.date) &&
+      (!entry.nextAttemptAt || entry.nextAttemptAt <= now)
+  );
+  if (entries.length === 0) return [];
+
+  if (!(await isConnected())) {
+    logger.debug('Offline, keeping prayer log writes queued', { pending: entries.length });
+    return [];
+  }
+
+  setStatus({ isSyncing: true });
+  const synced: PrayerLog[] = [];
+
+  try {
+    for (const entry of entries) {
+      await flushEntry(entry, synced, !!filter.date);
+    }
+  } finally {
+    setStatus({
+      isSyncing: false,
+      ...(synced.length > 0 && { lastSyncedAt: new Date().toISOString() }),
+    });
+    scheduleRetry();
+  }
+
+  if (synced.length > 0) {
+    logger.success('Prayer log outbox flushed', {
+      synced: synced.length,
+      pendingCount: status.pendingCount,
+    });
+  }
+
+  return synced;
+}
+
+/**
+ * Sync one queued write; drops it only when it can never succeed, otherwise
+ * backs off and keeps it queued
+ */
+async function flushEntry(
+  entry: PrayerLogOutboxEntry,
+  synced: PrayerLog[],
+  throwIfDropped: boolean
+): Promise<void> {
+  const key = toKey(entry.userId, entry.date);
+
+  try {
+    const log = await mergePrayerLog(entry.userId, entry.date, entry.prayers, entry.travel);
+    evictPrayerLogMonthCache(entry.userId, entry.date);
+    synced.push(log);
+
+    // Only clear the entry if nothing was queued for the day meanwhile
+    const outbox = readOutbox();
+    if (JSON.stringify(outbox[key]?.prayers) === JSON.stringify(entry.prayers)) {
+      delete outbox[key];
+      writeOutbox(outbox);
+    }
+  } catch (error) {
+    const outbox = readOutbox();
+    const current = outbox[key];
+    if (!current) return;
+
+    const attempts = current.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    if (isPermanentError(error)) {
+      logger.error('Dropping queued prayer log write', { date: entry.date, attempts, error: message });
+      delete outbox[key];
+      writeOutbox(outbox);
+      if (throwIfDropped) throw error;
+    } else {
+      const nextAttemptAt = new Date(Date.now() + backoffMs(attempts)).toISOString();
+      logger.warn('Queued prayer log write failed, will retry', {
+        date: entry.date,
+        attempts,
+        nextAttemptAt,
+        error: message,
+      });
+      writeOutbox({ ...outbox, [key]: { ...current, attempts, nextAttemptAt, lastError: message } });
+    }
+  }
+}
+
+/**
+ * Replay queued writes against Firestore
+ *
+ * Flushes run one at a time. Writes that fail on a transient error stay
+ * queued and are skipped until their backoff has passed; writes that can
+ * never succeed (permission denied, invalid data) are dropped.
+ *
+ * @param filter - Limit the flush to a user and/or date
+ * @returns Logs that reached Firestore (merged with the stored version)
+ * @throws {PrayerServiceError} When flushing a single date and its write is dropped
+ */
+export function flushPrayerLogOutbox(
+  filter: { userId?: string; date?: string } = {}
+): Promise<PrayerLog[]> {
+  const run = flushChain.then(() => flush(filter));
+  flushChain = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Replay the outbox now, whenever the device reconnects and whenever a
+ * backed-off write is due again
+ *
+ * @param onSynced - Called with the logs that reached Firestore
+ * @returns Unsubscribe function
+ *
+ * @example
+ * ```ts
+ * const stop = startPrayerLogOutboxSync((logs) => invalidate(logs));
+ * ```
+ */
+export function startPrayerLogOutboxSync(onSynced?: (logs: PrayerLog[]) => void): () => void {
+  const replay = () =>
+    flushPrayerLogOutbox()
+      .then((logs) => {
+        if (logs.length > 0) onSynced?.(logs);
+      })
+      .catch((error) =>
+        logger.error('Prayer log outbox replay failed', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+
+  onRetryDue = replay;
+  replay();
+
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    const online = state.isConnected !== false && state.isInternetReachable !== false;
+    const reconnected = online && !status.isOnline;
+    if (online !== status.isOnline) setStatus({ isOnline: online });
+
+    if (reconnected) {
+      logger.info('Back online, replaying prayer log outbox', { pendingCount: status.pendingCount });
+      // Waiting out a backoff makes no sense once the connection is back
+      const outbox = readOutbox();
+      Object.values(outbox).forEach((entry) => delete entry.nextAttemptAt);
+      writeOutbox(outbox);
+      replay();
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    onRetryDue = null;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+/**
+ * Current sync status (stable reference until it changes)
+ */
+export function getPrayerLogSyncStatus(): PrayerLogSyncStatus {
+  return status;
+}
+
+/**
+ * Subscribe to sync status changes
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToPrayerLogSyncStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
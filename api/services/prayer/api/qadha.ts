@@ -0,0 +1,212 @@
+/**
+ * Qadha Ledger Firebase Client
+ *
+ * Firestore access for the qadha (missed prayer) ledger.
+ *
+ * Data Structure:
+ * - Ledger: `qadhaLedgers/{userId}` (one document per user)
+ * - `missed` is recomputed from `users/{userId}.prayerLogs` on every sync, so
+ *   logging a past day later is picked up without double counting
+ * - `declared` / `madeUp` / `makeups.{date}` only change through increments
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { doc, getDoc, setDoc, increment } from '@react-native-firebase/firestore';
+import {
+  LoggablePrayerName,
+  PrayerErrorCode,
+  PrayerServiceError,
+  QadhaCounts,
+  QadhaLedger,
+} from '../types/index';
+import { ERROR_MESSAGES, FIREBASE_COLLECTIONS } from '../types/constants';
+import { countMissedPrayers, createEmptyQadhaLedger, EMPTY_QADHA_COUNTS } from '../utils/qadha';
+import { normalizePrayerLogPrayers } from '../utils/prayer';
+import { db } from '../../../client/firebase';
+import { logger } from '../../../../services/logging/logger';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function requireUserId(userId: string, operation: string): void {
+  if (!userId) {
+    logger.error('User ID required for qadha ledger', { operation });
+    throw new PrayerServiceError(PrayerErrorCode.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+  }
+}
+
+function toFirebaseError(error: unknown, operation: string, userId: string): PrayerServiceError {
+  logger.error('Qadha ledger operation failed', {
+    error: error instanceof Error ? error.message : 'Unknown error',
+    operation,
+    userId,
+  });
+
+  if (error instanceof PrayerServiceError) return error;
+  return new PrayerServiceError(PrayerErrorCode.FIREBASE_ERROR, ERROR_MESSAGES.FIREBASE_ERROR, error);
+}
+
+/**
+ * Fill in fields missing from a stored document
+ */
+function normalizeLedger(userId: string, data: Partial<QadhaLedger> | undefined): QadhaLedger {
+  const empty = createEmptyQadhaLedger(userId);
+  return {
+    ...empty,
+    ...data,
+    userId,
+    missed: { ...EMPTY_QADHA_COUNTS, ...data?.missed },
+    declared: { ...EMPTY_QADHA_COUNTS, ...data?.declared },
+    madeUp: { ...EMPTY_QADHA_COUNTS, ...data?.madeUp },
+    makeups: data?.makeups ?? {},
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Sync the ledger with the user's prayer logs and return it
+ *
+ * Reads every log from the user document, recounts missed prayers (today
+ * excluded) and writes the result back. Creates the ledger on first use.
+ *
+ * @param userId - User ID
+ * @returns Up-to-date ledger
+ * @throws {PrayerServiceError} On Firebase errors
+ *
+ * @example
+ * ```ts
+ * const ledger = await syncQadhaLedger('user123');
+ * console.log(ledger.missed.Subuh);
+ * ```
+ */
+export async function syncQadhaLedger(userId: string): Promise<QadhaLedger> {
+  const startTime = performance.now();
+  requireUserId(userId, 'sync');
+
+  try {
+    const ledgerRef = doc(db, FIREBASE_COLLECTIONS.QADHA_LEDGERS, userId);
+    const [userSnapshot, ledgerSnapshot] = await Promise.all([
+      getDoc(doc(db, FIREBASE_COLLECTIONS.USERS, userId)),
+      getDoc(ledgerRef),
+    ]);
+
+    const rawLogs: Record<string, unknown> = userSnapshot.data()?.prayerLogs ?? {};
+    const { missed, syncedThrough } = countMissedPrayers(
+      Object.fromEntries(
+        Object.entries(rawLogs).map(([date, prayers]) => [date, normalizePrayerLogPrayers(prayers)])
+      )
+    );
+    const updatedAt = new Date().toISOString();
+
+    await setDoc(ledgerRef, { userId, missed, syncedThrough, updatedAt }, { merge: true });
+
+    const ledger = normalizeLedger(userId, {
+      ...(ledgerSnapshot.data() as Partial<QadhaLedger> | undefined),
+      missed,
+      syncedThrough,
+      updatedAt,
+    });
+
+    logger.success('Qadha ledger synced', {
+      userId,
+      syncedThrough,
+      missed,
+      duration: `${(performance.now() - startTime).toFixed(0)}ms`,
+    });
+
+    return ledger;
+  } catch (error) {
+    throw toFirebaseError(error, 'sync', userId);
+  }
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add a bulk-declared backlog estimate
+ *
+ * Counts are added to the existing declaration. Pass negative counts to
+ * correct an over-estimate.
+ *
+ * @param userId - User ID
+ * @param counts - Prayers to add per prayer name
+ * @throws {PrayerServiceError} On Firebase errors
+ *
+ * @example
+ * ```ts
+ * // "3 years of Subuh"
+ * await declareQadhaBacklog('user123', { Subuh: estimateQadhaBacklog(3, 'years') });
+ * ```
+ */
+export async function declareQadhaBacklog(
+  userId: string,
+  counts: Partial<QadhaCounts>
+): Promise<void> {
+  requireUserId(userId, 'declare');
+
+  try {
+    const declared = Object.fromEntries(
+      Object.entries(counts).map(([prayer, count]) => [prayer, increment(count ?? 0)])
+    );
+
+    await setDoc(
+      doc(db, FIREBASE_COLLECTIONS.QADHA_LEDGERS, userId),
+      { userId, declared, updatedAt: new Date().toISOString() },
+      { merge: true }
+    );
+
+    logger.success('Qadha backlog declared', { userId, counts });
+  } catch (error) {
+    throw toFirebaseError(error, 'declare', userId);
+  }
+}
+
+/**
+ * Record qadha prayers made up on a date
+ *
+ * Stored separately from on-time prayer logs, under `makeups.{date}`.
+ *
+ * @param userId - User ID
+ * @param prayer - Prayer made up
+ * @param date - YYYY-MM-DD the makeup was performed
+ * @param count - Number of makeups (negative to undo)
+ * @throws {PrayerServiceError} On Firebase errors
+ *
+ * @example
+ * ```ts
+ * await logQadhaMakeup('user123', 'Subuh', '2026-10-18');
+ * ```
+ */
+export async function logQadhaMakeup(
+  userId: string,
+  prayer: LoggablePrayerName,
+  date: string,
+  count: number = 1
+): Promise<void> {
+  requireUserId(userId, 'makeup');
+
+  try {
+    await setDoc(
+      doc(db, FIREBASE_COLLECTIONS.QADHA_LEDGERS, userId),
+      {
+        userId,
+        madeUp: { [prayer]: increment(count) },
+        makeups: { [date]: { [prayer]: increment(count) } },
+        updatedAt: new Date().toISOString(),
+      },
+      { merge: true }
+    );
+
+    logger.success('Qadha makeup logged', { userId, prayer, date, count });
+  } catch (error) {
+    throw toFirebaseError(error, 'makeup', userId);
+  }
+}
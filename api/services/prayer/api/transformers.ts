@@ -67,6 +67,7 @@ export function normalizeAladhanResponse(
     asar: cleanTimeString(timings.Asr),
     maghrib: cleanTimeString(timings.Maghrib),
     isyak: cleanTimeString(timings.Isha),
+    ...(timings.Imsak && { imsak: cleanTimeString(timings.Imsak) }),
   };
 
   logger.debug('Aladhan response normalized', {
@@ -114,12 +114,56 @@ export {
   fetchMonthlyPrayerTimesFromFirebase,
   fetchPrayerLog,
   savePrayerLog,
+  mergePrayerLog,
   fetchWeeklyPrayerLogs,
   calculatePrayerStats,
   checkUserExists,
   getAvailablePrayerTimeYears,
 } from './api/firebase';
 
+// Qadha Ledger API
+export {
+  syncQadhaLedger,
+  declareQadhaBacklog,
+  logQadhaMakeup,
+} from './api/qadha';
+
+// Prayer Log Outbox (offline writes)
+export {
+  enqueuePrayerLogWrite,
+  getPendingPrayerLogWrite,
+  getPendingPrayerLogWrites,
+  flushPrayerLogOutbox,
+  startPrayerLogOutboxSync,
+  getPrayerLogSyncStatus,
+  subscribeToPrayerLogSyncStatus,
+} from './api/outbox';
+
+// Guest Prayer Logs (no account)
+export {
+  fetchGuestPrayerLog,
+  fetchGuestWeeklyPrayerLogs,
+  calculateGuestPrayerStats,
+  hasGuestPrayerLogs,
+  saveGuestPrayerLog,
+  clearGuestPrayerLogs,
+  exportGuestPrayerLogHistory,
+  importGuestPrayerLogHistory,
+  migrateGuestPrayerLogs,
+} from './api/guest';
+
+// Prayer Log History (backups, migration)
+export {
+  fetchPrayerLogHistory,
+  importPrayerLogHistory,
+} from './api/history';
+
+// Prayer Log Ranges (analytics)
+export {
+  fetchPrayerLogRange,
+  evictPrayerLogMonthCache,
+} from './api/analytics';
+
 // Data Transformers
 export {
   normalizeAladhanResponse,
@@ -173,7 +217,26 @@ export {
   useIsPrayerLogged,
   usePrayerCompletionCount,
   useIsDateFullyLogged,
+  usePrayerLogSyncStatus,
+  readPrayerLog,
+  writePrayerLog,
+  onPrayerLogWritten,
 } from './queries/prayer-logs';
+export type { PrayerLogWrite } from './queries/prayer-logs';
+
+// Qadha Ledger Queries & Mutations
+export {
+  useQadhaLedger,
+  useQadhaProjection,
+  useDeclareQadhaBacklog,
+  useLogQadhaMakeup,
+} from './queries/qadha';
+
+// Prayer Analytics Queries
+export {
+  usePrayerLogRange,
+  usePrayerAnalytics,
+} from './queries/analytics';
 
 // Query Keys
 export {
@@ -182,6 +245,7 @@ export {
   islamicDateKeys,
   prayerLogKeys,
   prayerStatsKeys,
+  qadhaKeys,
   getAllPrayerKeys,
   getUserPrayerKeys,
 } from './queries/query-keys';
@@ -245,9 +309,18 @@ export {
   getTimeOfDayGreeting,
   getIslamicGreeting,
   calculateCompletionPercentage,
+  createPrayerLogEntry,
+  toPrayerLogEntry,
+  normalizePrayerLogPrayers,
+  createEmptyPrayerLogPrayers,
+  mergePrayerLogPrayers,
+  mergePrayerLogHistory,
+  isPrayerPrayed,
   areAllPrayersCompleted,
+  keepsPrayerStreak,
   getMissedPrayers,
   getCompletedPrayersCount,
+  getPrayerLogScore,
   calculateStreak,
   validatePrayerTimes,
   validatePrayerLog,
@@ -255,6 +328,83 @@ export {
   debugLogCurrentPrayerStatus,
 } from './utils/prayer';
 
+// Astronomical Calculation (offline fallback)
+export {
+  calculatePrayerTimes,
+  MUIS_CALCULATION_PARAMETERS,
+  ZERO_PRAYER_OFFSETS,
+} from './utils/astronomical';
+
+export type {
+  CalculationParameters,
+  CalculationOptions,
+} from './utils/astronomical';
+
+// Calculation Profile Utilities
+export {
+  isWithinSingapore,
+  usesOfficialMuisTimes,
+  getAladhanLatitudeAdjustment,
+  getCalculationParameters,
+  hasPrayerTimeAdjustments,
+  applyPrayerTimeAdjustments,
+  getCalculationProfileKey,
+  suggestCalculationMethod,
+  getCalculationMethodName,
+} from './utils/calculation-profile';
+
+// Qadha Ledger Utilities
+export {
+  EMPTY_QADHA_COUNTS,
+  createEmptyQadhaLedger,
+  countMissedPrayers,
+  getOutstandingQadha,
+  sumQadhaCounts,
+  estimateQadhaBacklog,
+  getQadhaMakeupRate,
+  projectQadhaPayoff,
+} from './utils/qadha';
+
+export type { QadhaBacklogUnit } from './utils/qadha';
+
+// Prayer Analytics Utilities
+export {
+  getPrayerAnalyticsRange,
+  getMonthsInRange,
+  buildPrayerHeatmap,
+  calculatePrayerAnalytics,
+} from './utils/analytics';
+
+// Ramadan Utilities
+export {
+  getHijriMonthNumber,
+  getRamadanDay,
+  getRamadanDatesAhead,
+  getImsakTime,
+  getFastingCountdown,
+  summarizeFastingLog,
+} from './utils/ramadan';
+
+// Reminder Utilities
+export {
+  getReminderRulesForDay,
+  isJumaat,
+  getPrayerDisplayName,
+  estimateJumaatTravelMinutes,
+  getJumaatLeaveTime,
+  formatWeekdays,
+  formatReminderRule,
+} from './utils/reminders';
+
+// Travel (Safar) Utilities
+export {
+  getTravelStatus,
+  getJamakWindows,
+  buildTravelTag,
+} from './utils/travel';
+
+export type { JamakWindow, TravelLogChoice } from './utils/travel';
+
 // Qibla Utilities
 export {
   KAABA_COORDINATES,
@@ -369,6 +519,8 @@ export function getPrayerServiceVersion() {
     architecture: 'TanStack Query + Zustand + MMKV',
     features: [
       'Multi-source prayer times (Firebase + Aladhan)',
+      'Offline astronomical prayer time calculation',
+      'Selectable calculation method, Asr school and adjustments',
       'Optimistic prayer logging',
       'Streak tracking',
       'Qibla direction calculation',
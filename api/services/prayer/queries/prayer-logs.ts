@@ -5,22 +5,63 @@
  * 
  * Features:
  * - Instant UI feedback (optimistic updates)
+ * - Durable offline writes (MMKV outbox, replayed on reconnect)
+ * - Guest mode: logs kept on-device when there is no user (null userId)
  * - Automatic rollback on errors
+ * - Write listeners for side effects of logging (notification follow-ups)
  * - Streak tracking
  * - Statistics calculation
  * 
- * @version 4.0
+ * @version 4.2
  * @since 2025-12-24
  */
 
+import { useSyncExternalStore } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
-import { fetchPrayerLog, savePrayerLog, fetchWeeklyPrayerLogs, calculatePrayerStats } from '../api/firebase';
+import { fetchPrayerLog, fetchWeeklyPrayerLogs, calculatePrayerStats } from '../api/firebase';
+import {
+  enqueuePrayerLogWrite,
+  flushPrayerLogOutbox,
+  getPendingPrayerLogWrite,
+  getPendingPrayerLogWrites,
+  getPrayerLogSyncStatus,
+  subscribeToPrayerLogSyncStatus,
+} from '../api/outbox';
+import {
+  calculateGuestPrayerStats,
+  fetchGuestPrayerLog,
+  fetchGuestWeeklyPrayerLogs,
+  saveGuestPrayerLog,
+} from '../api/guest';
 import { prayerQueryKeys } from './query-keys';
-import { PrayerLog, PrayerServiceError, PrayerErrorCode, LoggablePrayerName } from '../types/index';
-import { STALE_TIME, CACHE_TTL, DATE_FORMATS, ERROR_MESSAGES } from '../types/constants';
+import { PrayerLog, PrayerLogTravelTag, PrayerServiceError, LoggablePrayerName } from '../types/index';
+import { STALE_TIME, CACHE_TTL, DATE_FORMATS, GUEST_USER_ID } from '../types/constants';
+import { getCompletedPrayersCount, isPrayerPrayed, mergePrayerLogPrayers } from '../utils/prayer';
 import { logger } from '../../../../services/logging/logger';
 
+// ============================================================================
+// OUTBOX OVERLAY
+// ============================================================================
+
+/**
+ * Lay a queued (not yet synced) write over a fetched log
+ */
+function applyPendingWrite(userId: string, date: string, log: PrayerLog | null): PrayerLog | null {
+  const pending = getPendingPrayerLogWrite(userId, date);
+  if (!pending) return log;
+
+  const travel = pending.travel ?? log?.travel;
+  return {
+    userId,
+    date,
+    prayers: log ? mergePrayerLogPrayers(log.prayers, pending.prayers) : pending.prayers,
+    ...(travel && { travel }),
+    createdAt: log?.createdAt ?? pending.queuedAt,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
 // ============================================================================
 // SINGLE DAY PRAYER LOG
 // ============================================================================
@@ -28,7 +69,7 @@ import { logger } from '../../../../services/logging/logger';
 /**
  * Fetch prayer log for a specific date
  * 
- * @param userId - User ID (null if not authenticated)
+ * @param userId - User ID (null for a guest, read from on-device storage)
  * @param date - Date string (YYYY-MM-DD)
  * @returns Prayer log or null
  * 
@@ -45,20 +86,16 @@ import { logger } from '../../../../services/logging/logger';
  */
 export function usePrayerLog(userId: string | null, date: string) {
   return useQuery({
-    queryKey: prayerQueryKeys.logs.daily(userId!, date),
+    queryKey: prayerQueryKeys.logs.daily(userId ?? GUEST_USER_ID, date),
     queryFn: async (): Promise<PrayerLog | null> => {
       const startTime = Date.now();
       
       if (!userId) {
-        logger.error('Prayer log query failed: User not authenticated', {
-          error: 'Missing userId',
-          errorCode: PrayerErrorCode.UNAUTHORIZED,
-          requestedDate: date,
+        logger.debug('Fetching guest prayer log for date', {
+          date,
+          queryType: 'daily-log',
         });
-        throw new PrayerServiceError(
-          PrayerErrorCode.UNAUTHORIZED,
-          ERROR_MESSAGES.UNAUTHORIZED
-        );
+        return fetchGuestPrayerLog(date);
       }
 
       logger.debug('Fetching prayer log for date', {
@@ -68,11 +105,11 @@ export function usePrayerLog(userId: string | null, date: string) {
       });
 
       const fetchStart = Date.now();
-      const log = await fetchPrayerLog(userId, date);
+      const log = applyPendingWrite(userId, date, await fetchPrayerLog(userId, date));
       const fetchDuration = Date.now() - fetchStart;
 
       if (log) {
-        const prayersLogged = Object.values(log.prayers).filter(Boolean).length;
+        const prayersLogged = getCompletedPrayersCount(log.prayers);
         const totalPrayers = Object.keys(log.prayers).length;
         const completionRate = Math.round((prayersLogged / totalPrayers) * 100);
         
@@ -98,7 +135,7 @@ export function usePrayerLog(userId: string | null, date: string) {
     },
     staleTime: STALE_TIME.PRAYER_LOG,
     gcTime: CACHE_TTL.ONE_HOUR,
-    enabled: !!userId && !!date,
+    enabled: !!date,
     retry: 1,
   });
 }
@@ -141,7 +178,7 @@ export function useTodayPrayerLog(userId: string | null) {
  * 
  * Returns logs for a 7-day period
  * 
- * @param userId - User ID
+ * @param userId - User ID (null for a guest)
  * @param startDate - Start date (YYYY-MM-DD)
  * @param endDate - End date (YYYY-MM-DD)
  * @returns Weekly prayer logs
@@ -168,20 +205,16 @@ export function useWeeklyPrayerLogs(
   endDate: string
 ) {
   return useQuery({
-    queryKey: prayerQueryKeys.logs.weekly(userId!, startDate, endDate),
+    queryKey: prayerQueryKeys.logs.weekly(userId ?? GUEST_USER_ID, startDate, endDate),
     queryFn: async (): Promise<Record<string, PrayerLog['prayers']>> => {
       const startTime = Date.now();
       
       if (!userId) {
-        logger.error('Weekly prayer logs query failed: User not authenticated', {
-          error: 'Missing userId',
-          errorCode: PrayerErrorCode.UNAUTHORIZED,
+        logger.debug('Fetching guest weekly prayer logs', {
           dateRange: `${startDate} to ${endDate}`,
+          queryType: 'weekly-logs',
         });
-        throw new PrayerServiceError(
-          PrayerErrorCode.UNAUTHORIZED,
-          ERROR_MESSAGES.UNAUTHORIZED
-        );
+        return fetchGuestWeeklyPrayerLogs(startDate, endDate);
       }
 
       logger.debug('Fetching weekly prayer logs', {
@@ -194,6 +227,11 @@ export function useWeeklyPrayerLogs(
 
       const fetchStart = Date.now();
       const logs = await fetchWeeklyPrayerLogs(userId, startDate, endDate);
+      getPendingPrayerLogWrites(userId)
+        .filter(({ date }) => date >= startDate && date <= endDate)
+        .forEach(({ date, prayers }) => {
+          logs[date] = logs[date] ? mergePrayerLogPrayers(logs[date], prayers) : prayers;
+        });
       const fetchDuration = Date.now() - fetchStart;
       
       const daysWithLogs = Object.keys(logs).length;
@@ -201,7 +239,7 @@ export function useWeeklyPrayerLogs(
       let totalPossiblePrayers = 0;
       
       Object.values(logs).forEach(prayers => {
-        const prayersLogged = Object.values(prayers).filter(Boolean).length;
+        const prayersLogged = getCompletedPrayersCount(prayers);
         totalPrayersLogged += prayersLogged;
         totalPossiblePrayers += Object.keys(prayers).length;
       });
@@ -224,7 +262,7 @@ export function useWeeklyPrayerLogs(
     },
     staleTime: STALE_TIME.PRAYER_LOG,
     gcTime: CACHE_TTL.ONE_HOUR,
-    enabled: !!userId && !!startDate && !!endDate,
+    enabled: !!startDate && !!endDate,
     retry: 1,
   });
 }
@@ -242,7 +280,7 @@ export function useWeeklyPrayerLogs(
  * - Current streak
  * - Longest streak
  * 
- * @param userId - User ID
+ * @param userId - User ID (null for a guest)
  * @returns Prayer statistics
  * 
  * @example
@@ -262,19 +300,13 @@ export function useWeeklyPrayerLogs(
  */
 export function usePrayerStats(userId: string | null) {
   return useQuery({
-    queryKey: prayerQueryKeys.stats.user(userId!),
+    queryKey: prayerQueryKeys.stats.user(userId ?? GUEST_USER_ID),
     queryFn: async () => {
       const startTime = Date.now();
       
       if (!userId) {
-        logger.error('Prayer stats query failed: User not authenticated', {
-          error: 'Missing userId',
-          errorCode: PrayerErrorCode.UNAUTHORIZED,
-        });
-        throw new PrayerServiceError(
-          PrayerErrorCode.UNAUTHORIZED,
-          ERROR_MESSAGES.UNAUTHORIZED
-        );
+        logger.debug('Calculating guest prayer statistics', { queryType: 'stats' });
+        return calculateGuestPrayerStats();
       }
 
       logger.debug('Calculating prayer statistics', {
@@ -300,7 +332,6 @@ export function usePrayerStats(userId: string | null) {
     },
     staleTime: STALE_TIME.PRAYER_STATS,
     gcTime: CACHE_TTL.ONE_HOUR,
-    enabled: !!userId,
     retry: 1,
   });
 }
@@ -309,6 +340,127 @@ export function usePrayerStats(userId: string | null) {
 // SAVE PRAYER LOG MUTATION
 // ============================================================================
 
+/**
+ * Current log for a day, with any queued write laid over it
+ *
+ * @param userId - User ID (null for a guest)
+ * @param date - Date string (YYYY-MM-DD)
+ */
+export async function readPrayerLog(userId: string | null, date: string): Promise<PrayerLog | null> {
+  if (!userId) return fetchGuestPrayerLog(date);
+  return applyPendingWrite(userId, date, await fetchPrayerLog(userId, date));
+}
+
+/**
+ * Variables for saving a day's prayer log
+ */
+export interface PrayerLogWrite {
+  userId: string | null;
+  date: string;
+  prayers: PrayerLog['prayers'];
+  travel?: PrayerLogTravelTag;
+}
+
+const writeListeners = new Set<(write: PrayerLogWrite) => void>();
+
+/**
+ * Subscribe to saved prayer logs, from any screen or the notification actions
+ * (e.g. to cancel alerts for prayers just logged). Called once the write is
+ * stored on-device or queued, before it syncs.
+ *
+ * @returns Unsubscribe function
+ */
+export function onPrayerLogWritten(listener: (write: PrayerLogWrite) => void): () => void {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
+  };
+}
+
+function notifyPrayerLogWritten(write: PrayerLogWrite): void {
+  writeListeners.forEach((listener) => {
+    try {
+      listener(write);
+    } catch (error) {
+      logger.warn('Prayer log write listener failed', { date: write.date, error });
+    }
+  });
+}
+
+/**
+ * Save a day's prayer log
+ *
+ * Guests write to on-device storage. Signed-in writes are queued in the
+ * outbox first and then flushed, so the log survives being offline. Used by
+ * `useSavePrayerLog` and by code outside React (notification actions).
+ * Listeners from `onPrayerLogWritten` are told once it is stored or queued.
+ *
+ * @returns Saved log (or the queued version while offline)
+ * @throws {PrayerServiceError} When the write can never reach Firestore
+ */
+export async function writePrayerLog({
+  userId,
+  date,
+  prayers,
+  travel,
+}: PrayerLogWrite): Promise<PrayerLog> {
+  const startTime = Date.now();
+  const prayersLogged = getCompletedPrayersCount(prayers);
+  const totalPrayers = Object.keys(prayers).length;
+
+  if (!userId) {
+    logger.debug('Saving guest prayer log', {
+      date,
+      prayersLogged,
+      mutationType: 'save-log',
+    });
+    const log = await saveGuestPrayerLog(date, prayers, travel);
+    notifyPrayerLogWritten({ userId, date, prayers, travel });
+    return log;
+  }
+  
+  logger.debug('Starting prayer log mutation', {
+    userId: userId.substring(0, 8) + '...',
+    date,
+    prayersLogged,
+    totalPrayers,
+    prayers,
+    travelSession: travel?.sessionId,
+    mutationType: 'save-log',
+  });
+
+  // Queue first so the write survives the app being killed while offline
+  enqueuePrayerLogWrite(userId, date, prayers, travel);
+  notifyPrayerLogWritten({ userId, date, prayers, travel });
+
+  const saveStart = Date.now();
+  const [synced] = await flushPrayerLogOutbox({ userId, date });
+  const saveDuration = Date.now() - saveStart;
+
+  if (!synced) {
+    logger.info('Prayer log queued for sync', {
+      date,
+      prayersLogged,
+      mutationType: 'save-log',
+    });
+    return applyPendingWrite(userId, date, null)!;
+  }
+
+  const result = synced;
+
+  logger.success('Prayer log saved to Firebase', {
+    date,
+    prayersLogged,
+    totalPrayers,
+    completionRate: `${Math.round((prayersLogged / totalPrayers) * 100)}%`,
+    saveDuration: `${saveDuration}ms`,
+    totalDuration: `${Date.now() - startTime}ms`,
+    mutationType: 'save-log',
+  });
+
+  return result;
+}
+
 /**
  * Save prayer log mutation with optimistic updates
  * 
@@ -316,6 +468,7 @@ export function usePrayerStats(userId: string | null) {
  * - Instant UI feedback
  * - Automatic rollback on error
  * - Invalidates related queries on success
+ * - Saved on-device, without the outbox, when `userId` is null (guest)
  * 
  * @returns Mutation object
  * 
@@ -326,10 +479,12 @@ export function usePrayerStats(userId: string | null) {
  *   const { data: log } = usePrayerLog(userId, date);
  *   const { mutate } = useSavePrayerLog();
  *   
+ *   const isPrayed = isPrayerPrayed(log?.prayers[prayer]);
+ *   
  *   const handleToggle = () => {
  *     const newPrayers = {
- *       ...log?.prayers,
- *       [prayer]: !log?.prayers[prayer],
+ *       ...(log?.prayers ?? createEmptyPrayerLogPrayers()),
+ *       [prayer]: createPrayerLogEntry(isPrayed ? 'missed' : 'on_time'),
  *     };
  *     
  *     mutate({ userId, date, prayers: newPrayers });
@@ -337,7 +492,7 @@ export function usePrayerStats(userId: string | null) {
  *   
  *   return (
  *     <Checkbox
- *       checked={log?.prayers[prayer] ?? false}
+ *       checked={isPrayed}
  *       onChange={handleToggle}
  *     />
  *   );
@@ -348,51 +503,15 @@ export function useSavePrayerLog() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({
-      userId,
-      date,
-      prayers,
-    }: {
-      userId: string;
-      date: string;
-      prayers: PrayerLog['prayers'];
-    }) => {
-      const startTime = Date.now();
-      const prayersLogged = Object.values(prayers).filter(Boolean).length;
-      const totalPrayers = Object.keys(prayers).length;
-      
-      logger.debug('Starting prayer log mutation', {
-        userId: userId.substring(0, 8) + '...',
-        date,
-        prayersLogged,
-        totalPrayers,
-        prayers,
-        mutationType: 'save-log',
-      });
-
-      const saveStart = Date.now();
-      const result = await savePrayerLog(userId, date, prayers);
-      const saveDuration = Date.now() - saveStart;
-
-      logger.success('Prayer log saved to Firebase', {
-        date,
-        prayersLogged,
-        totalPrayers,
-        completionRate: `${Math.round((prayersLogged / totalPrayers) * 100)}%`,
-        saveDuration: `${saveDuration}ms`,
-        totalDuration: `${Date.now() - startTime}ms`,
-        mutationType: 'save-log',
-      });
-
-      return result;
-    },
+    mutationFn: writePrayerLog,
 
     // ========================================================================
     // OPTIMISTIC UPDATE
     // ========================================================================
-    onMutate: async ({ userId, date, prayers }) => {
+    onMutate: async ({ userId: maybeUserId, date, prayers, travel }) => {
       const mutateStart = Date.now();
-      const prayersLogged = Object.values(prayers).filter(Boolean).length;
+      const userId = maybeUserId ?? GUEST_USER_ID;
+      const prayersLogged = getCompletedPrayersCount(prayers);
       const totalPrayers = Object.keys(prayers).length;
       
       logger.debug('Applying optimistic update', {
@@ -425,7 +544,7 @@ export function useSavePrayerLog() {
         date,
         hadPreviousLog: !!previousLog,
         previousPrayersLogged: previousLog 
-          ? Object.values(previousLog.prayers).filter(Boolean).length 
+          ? getCompletedPrayersCount(previousLog.prayers) 
           : 0,
         phase: 'snapshot',
       });
@@ -435,6 +554,7 @@ export function useSavePrayerLog() {
         userId,
         date,
         prayers,
+        ...(travel && { travel }),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -474,7 +594,7 @@ export function useSavePrayerLog() {
       // Rollback to previous value
       if (context?.previousLog !== undefined) {
         queryClient.setQueryData(
-          prayerQueryKeys.logs.daily(userId, date),
+          prayerQueryKeys.logs.daily(userId ?? GUEST_USER_ID, date),
           context.previousLog
         );
         
@@ -496,8 +616,12 @@ export function useSavePrayerLog() {
     // ========================================================================
     // SUCCESS INVALIDATION
     // ========================================================================
-    onSuccess: (data, { userId, date }) => {
+    onSuccess: (data, { userId: maybeUserId, date }) => {
       const successStart = Date.now();
+      const userId = maybeUserId ?? GUEST_USER_ID;
+
+      // Still queued: keep the optimistic state until the outbox replays
+      if (maybeUserId && getPendingPrayerLogWrite(maybeUserId, date)) return;
       
       logger.debug('Prayer log mutation succeeded, invalidating related queries', {
         date,
@@ -514,13 +638,17 @@ export function useSavePrayerLog() {
       queryClient.invalidateQueries({
         queryKey: prayerQueryKeys.stats.user(userId),
       });
+
+      queryClient.invalidateQueries({
+        queryKey: prayerQueryKeys.qadha.ledger(userId),
+      });
       
       const invalidateDuration = Date.now() - invalidateStart;
       const successDuration = Date.now() - successStart;
 
       logger.success('Related queries invalidated', {
         userId: userId.substring(0, 8) + '...',
-        queriesInvalidated: ['logs.user', 'stats.user'],
+        queriesInvalidated: ['logs.user', 'stats.user', 'qadha.ledger'],
         invalidateDuration: `${invalidateDuration}ms`,
         totalSuccessDuration: `${successDuration}ms`,
         phase: 'invalidation',
@@ -532,6 +660,8 @@ export function useSavePrayerLog() {
     // ========================================================================
     onSettled: (data, error, { userId, date }) => {
       const settledStart = Date.now();
+
+      if (userId && getPendingPrayerLogWrite(userId, date)) return;
       
       logger.debug('Prayer log mutation settled, ensuring data consistency', {
         date,
@@ -541,7 +671,7 @@ export function useSavePrayerLog() {
 
       // Always refetch to ensure consistency
       queryClient.invalidateQueries({
-        queryKey: prayerQueryKeys.logs.daily(userId, date),
+        queryKey: prayerQueryKeys.logs.daily(userId ?? GUEST_USER_ID, date),
       });
 
       const settledDuration = Date.now() - settledStart;
@@ -573,8 +703,8 @@ export function useSavePrayerLog() {
  * mutate({
  *   userId,
  *   logs: [
- *     { date: '2025-12-22', prayers: { Subuh: true, Zohor: true } },
- *     { date: '2025-12-21', prayers: { Subuh: true, Zohor: false } },
+ *     { date: '2025-12-22', prayers: { ...createEmptyPrayerLogPrayers(), Subuh: createPrayerLogEntry('on_time') } },
+ *     { date: '2025-12-21', prayers: { ...createEmptyPrayerLogPrayers(), Zohor: createPrayerLogEntry('late') } },
  *   ],
  * });
  * ```
@@ -602,13 +732,12 @@ export function useBatchSavePrayerLogs() {
 
       // Save all logs
       const saveStart = Date.now();
-      const results = await Promise.all(
-        logs.map(({ date, prayers }) => savePrayerLog(userId, date, prayers))
-      );
+      logs.forEach(({ date, prayers }) => enqueuePrayerLogWrite(userId, date, prayers));
+      const results = await flushPrayerLogOutbox({ userId });
       const saveDuration = Date.now() - saveStart;
 
       const totalPrayersLogged = logs.reduce((sum, log) => {
-        return sum + Object.values(log.prayers).filter(Boolean).length;
+        return sum + getCompletedPrayersCount(log.prayers);
       }, 0);
 
       logger.success('Batch prayer log save complete', {
@@ -820,6 +949,30 @@ export function useInvalidatePrayerLogByDate() {
   };
 }
 
+// ============================================================================
+// OFFLINE SYNC
+// ============================================================================
+
+/**
+ * Prayer log outbox status
+ *
+ * Re-renders when writes are queued, synced or connectivity changes.
+ *
+ * @returns Pending and failing counts, syncing flag, connectivity, last error
+ * and last sync time
+ *
+ * @example
+ * ```tsx
+ * const { pendingCount, failingCount, isOnline } = usePrayerLogSyncStatus();
+ * if (!isOnline || pendingCount > 0) {
+ *   return <OfflineIndicator pendingSyncCount={pendingCount} failingSyncCount={failingCount} />;
+ * }
+ * ```
+ */
+export function usePrayerLogSyncStatus() {
+  return useSyncExternalStore(subscribeToPrayerLogSyncStatus, getPrayerLogSyncStatus);
+}
+
 // ============================================================================
 // UTILITY HOOKS
 // ============================================================================
@@ -830,7 +983,7 @@ export function useInvalidatePrayerLogByDate() {
  * @param userId - User ID
  * @param date - Date string
  * @param prayerName - Prayer name
- * @returns True if prayer is logged
+ * @returns True if prayer was prayed (any status but missed or excused)
  * 
  * @example
  * ```tsx
@@ -848,7 +1001,7 @@ export function useIsPrayerLogged(
   prayerName: LoggablePrayerName
 ): boolean {
   const { data } = usePrayerLog(userId, date);
-  const isLogged = data?.prayers?.[prayerName] ?? false;
+  const isLogged = isPrayerPrayed(data?.prayers?.[prayerName]);
   
   logger.debug('Checking if prayer is logged', {
     date,
@@ -882,7 +1035,7 @@ export function usePrayerCompletionCount(
     return 0;
   }
   
-  const count = Object.values(data.prayers).filter(Boolean).length;
+  const count = getCompletedPrayersCount(data.prayers);
   const totalPrayers = Object.keys(data.prayers).length;
   
   logger.debug('Prayer completion count calculated', {
@@ -5,10 +5,15 @@
  * 
  * Strategy:
  * 1. Try MMKV cache (instant)
- * 2. **ALWAYS try Firebase FIRST** (official MUIS timings)
- * 3. Fallback to Aladhan API (only if Firebase unavailable)
+ * 2. **ALWAYS try Firebase FIRST** (official MUIS timings) when the MUIS
+ *    method applies (Singapore method, Shafi Asr, location inside Singapore)
+ * 3. Fallback to Aladhan API with the user's calculation profile
+ * 4. Calculate on-device (only if both remote sources fail, e.g. offline)
  * 
- * @version 3.1
+ * User per-prayer adjustments are applied to every source before caching.
+ * Cache and query keys include the calculation profile.
+ * 
+ * @version 3.2
  * @since 2025-12-23
  */
 
@@ -17,9 +22,11 @@ import { format } from 'date-fns';
 import { fetchTodayPrayerTimesFromAladhan, fetchPrayerTimesByDateFromAladhan, convertToIslamicDate } from '../api/aladhan';
 import { fetchDailyPrayerTimeFromFirebase, fetchMonthlyPrayerTimesFromFirebase } from '../api/firebase';
 import { normalizeAladhanResponse, normalizeFirebaseTime, normalizeFirebaseTimesBatch, convertISOToAladhanDate, validatePrayerTimes } from '../api/transformers';
+import { calculatePrayerTimes } from '../utils/astronomical';
+import { applyPrayerTimeAdjustments, getCalculationParameters, getCalculationProfileKey, usesOfficialMuisTimes } from '../utils/calculation-profile';
 import { prayerQueryKeys } from './query-keys';
-import { Coordinates, NormalizedPrayerTimes, IslamicDateConversion, PrayerServiceError, PrayerErrorCode } from '../types/index';
-import { STALE_TIME, CACHE_TTL, DATE_FORMATS, ERROR_MESSAGES } from '../types/constants';
+import { Coordinates, NormalizedPrayerTimes, IslamicDateConversion, PrayerCalculationProfile, PrayerServiceError, PrayerErrorCode } from '../types/index';
+import { STALE_TIME, CACHE_TTL, DATE_FORMATS, ERROR_MESSAGES, DEFAULT_CALCULATION_PROFILE } from '../types/constants';
 import { cache } from '../../../client/storage';
 import { logger } from '../../../../services/logging/logger';
 
@@ -43,10 +50,12 @@ function pickPrayerTimes(t: NormalizedPrayerTimes) {
  * 
  * Multi-source strategy:
  * 1. MMKV cache (instant)
- * 2. **Firebase (ALWAYS FIRST - Official MUIS timings)**
- * 3. Aladhan API (fallback only)
+ * 2. **Firebase (ALWAYS FIRST - Official MUIS timings)** when the MUIS method applies
+ * 3. Aladhan API (fallback, or primary for other methods/locations)
+ * 4. On-device astronomical calculation (offline fallback, never cached)
  * 
  * @param location - User location coordinates
+ * @param profile - Calculation profile (default: MUIS Singapore)
  * @returns Today's prayer times
  * 
  * @example
@@ -60,9 +69,12 @@ function pickPrayerTimes(t: NormalizedPrayerTimes) {
  * }
  * ```
  */
-export function useTodayPrayerTimes(location: Coordinates | null) {
+export function useTodayPrayerTimes(
+  location: Coordinates | null,
+  profile: PrayerCalculationProfile = DEFAULT_CALCULATION_PROFILE
+) {
   return useQuery({
-    queryKey: prayerQueryKeys.times.today(location!),
+    queryKey: prayerQueryKeys.times.today(location!, profile),
     queryFn: async (): Promise<NormalizedPrayerTimes> => {
       const overallStartTime = Date.now();
 
@@ -78,7 +90,7 @@ export function useTodayPrayerTimes(location: Coordinates | null) {
       }
 
       const today = format(new Date(), DATE_FORMATS.ISO); // YYYY-MM-DD
-      const cacheKey = `prayer-times-${today}-${location.latitude}-${location.longitude}`;
+      const cacheKey = `prayer-times-${today}-${location.latitude}-${location.longitude}-${getCalculationProfileKey(profile)}`;
 
       logger.debug('Fetching today\'s prayer times', {
         location: {
@@ -88,7 +100,7 @@ export function useTodayPrayerTimes(location: Coordinates | null) {
         date: today,
         dateFormat: DATE_FORMATS.ISO,
         cacheKey,
-        queryKey: prayerQueryKeys.times.today(location),
+        queryKey: prayerQueryKeys.times.today(location, profile),
       });
 
       // ======================================================================
@@ -119,58 +131,70 @@ export function useTodayPrayerTimes(location: Coordinates | null) {
       // ======================================================================
       // LAYER 2: FIREBASE (ALWAYS FIRST - MUIS OFFICIAL)
       // ======================================================================
-      logger.debug('Attempting Firebase fetch (MUIS official source)', {
-        date: today,
-        priority: 'primary',
-        reason: 'Official MUIS Singapore timings',
-      });
+      if (usesOfficialMuisTimes(profile, location)) {
+        logger.debug('Attempting Firebase fetch (MUIS official source)', {
+          date: today,
+          priority: 'primary',
+          reason: 'Official MUIS Singapore timings',
+        });
 
-      const firebaseStartTime = Date.now();
-      try {
-        const firebaseData = await fetchDailyPrayerTimeFromFirebase(today);
-        const firebaseDuration = Date.now() - firebaseStartTime;
+        const firebaseStartTime = Date.now();
+        try {
+          const firebaseData = await fetchDailyPrayerTimeFromFirebase(today);
+          const firebaseDuration = Date.now() - firebaseStartTime;
 
-        if (firebaseData) {
-          const normalized = normalizeFirebaseTime(firebaseData);
+          if (firebaseData) {
+            const normalized = applyPrayerTimeAdjustments(
+              normalizeFirebaseTime(firebaseData),
+              profile.adjustments
+            );
 
-          // Guard against malformed/partial Firestore docs: only trust + cache data
-          // that passes format + chronological validation. Otherwise fall through to
-          // Aladhan rather than show wrong/placeholder times (the corruption class).
-          if (validatePrayerTimes(normalized)) {
-            cache.set(cacheKey, normalized, CACHE_TTL.ONE_DAY);
+            // Guard against malformed/partial Firestore docs: only trust + cache data
+            // that passes format + chronological validation. Otherwise fall through to
+            // Aladhan rather than show wrong/placeholder times (the corruption class).
+            if (validatePrayerTimes(normalized)) {
+              cache.set(cacheKey, normalized, CACHE_TTL.ONE_DAY);
+
+              logger.success('Prayer times fetched from Firebase', {
+                source: 'Firebase',
+                certification: 'MUIS Official',
+                date: today,
+                prayers: pickPrayerTimes(normalized),
+                firebaseDuration: `${firebaseDuration}ms`,
+                overallDuration: `${Date.now() - overallStartTime}ms`,
+                cacheTTL: CACHE_TTL.ONE_DAY,
+              });
+
+              return normalized;
+            }
 
-            logger.success('Prayer times fetched from Firebase', {
-              source: 'Firebase',
-              certification: 'MUIS Official',
+            logger.warn('Firebase prayer times failed validation, falling back to Aladhan', {
               date: today,
               prayers: pickPrayerTimes(normalized),
-              firebaseDuration: `${firebaseDuration}ms`,
-              overallDuration: `${Date.now() - overallStartTime}ms`,
-              cacheTTL: CACHE_TTL.ONE_DAY,
             });
-
-            return normalized;
           }
 
-          logger.warn('Firebase prayer times failed validation, falling back to Aladhan', {
+          logger.warn('No Firebase data available for today', {
+            date: today,
+            firebaseDuration: `${firebaseDuration}ms`,
+            reason: 'Data not in Firestore',
+            nextStep: 'Attempting Aladhan fallback',
+          });
+        } catch (error) {
+          const firebaseDuration = Date.now() - firebaseStartTime;
+          logger.warn('Firebase fetch failed - falling back to Aladhan', {
+            error,
             date: today,
-            prayers: pickPrayerTimes(normalized),
+            firebaseDuration: `${firebaseDuration}ms`,
+            nextStep: 'Attempting Aladhan API',
           });
         }
-
-        logger.warn('No Firebase data available for today', {
-          date: today,
-          firebaseDuration: `${firebaseDuration}ms`,
-          reason: 'Data not in Firestore',
-          nextStep: 'Attempting Aladhan fallback',
-        });
-      } catch (error) {
-        const firebaseDuration = Date.now() - firebaseStartTime;
-        logger.warn('Firebase fetch failed - falling back to Aladhan', {
-          error,
+      } else {
+        logger.debug('Skipping Firebase - MUIS timetable does not apply', {
           date: today,
-          firebaseDuration: `${firebaseDuration}ms`,
-          nextStep: 'Attempting Aladhan API',
+          method: profile.method,
+          school: profile.school,
+          reason: 'Custom location or calculation profile',
         });
       }
 
@@ -191,12 +215,16 @@ export function useTodayPrayerTimes(location: Coordinates | null) {
       try {
         const aladhanData = await fetchTodayPrayerTimesFromAladhan(
           location.latitude,
-          location.longitude
+          location.longitude,
+          profile
         );
         const aladhanDuration = Date.now() - aladhanStartTime;
 
         const normalizationStartTime = Date.now();
-        const normalized = normalizeAladhanResponse(aladhanData);
+        const normalized = applyPrayerTimeAdjustments(
+          normalizeAladhanResponse(aladhanData),
+          profile.adjustments
+        );
         const normalizationDuration = Date.now() - normalizationStartTime;
 
         // Cache the result
@@ -222,21 +250,52 @@ export function useTodayPrayerTimes(location: Coordinates | null) {
         return normalized;
       } catch (error) {
         const aladhanDuration = Date.now() - aladhanStartTime;
-        const overallDuration = Date.now() - overallStartTime;
+        logger.warn('Aladhan fetch failed - falling back to on-device calculation', {
+          error,
+          date: today,
+          aladhanDuration: `${aladhanDuration}ms`,
+          nextStep: 'Calculating locally',
+        });
+      }
+
+      // ======================================================================
+      // LAYER 4: ASTRONOMICAL CALCULATION (OFFLINE FALLBACK)
+      // ======================================================================
+      // Not cached: the next online fetch should replace these with official times.
+      try {
+        const calculated = applyPrayerTimeAdjustments(
+          calculatePrayerTimes(new Date(), location, getCalculationParameters(profile)),
+          profile.adjustments
+        );
+
+        logger.warn('Prayer times calculated on-device (offline fallback)', {
+          source: 'Calculated',
+          certification: 'NOT MUIS Official',
+          date: today,
+          prayers: pickPrayerTimes(calculated),
+          overallDuration: `${Date.now() - overallStartTime}ms`,
+          warning: 'Using locally calculated times, not official MUIS',
+        });
 
+        return calculated;
+      } catch (error) {
         logger.error('All sources failed to fetch prayer times', {
           error,
           date: today,
           sources: {
             firebase: 'failed',
             aladhan: 'failed',
+            calculated: 'failed',
             cache: 'miss',
           },
-          aladhanDuration: `${aladhanDuration}ms`,
-          overallDuration: `${overallDuration}ms`,
+          overallDuration: `${Date.now() - overallStartTime}ms`,
         });
 
-        throw error;
+        throw new PrayerServiceError(
+          PrayerErrorCode.API_ERROR,
+          ERROR_MESSAGES.API_ERROR,
+          error
+        );
       }
     },
     staleTime: STALE_TIME.TODAY_PRAYER_TIMES, // 1 hour
@@ -256,6 +315,7 @@ export function useTodayPrayerTimes(location: Coordinates | null) {
  * 
  * @param location - User location coordinates
  * @param date - Date object
+ * @param profile - Calculation profile (default: MUIS Singapore)
  * @returns Prayer times for the specified date
  * 
  * @example
@@ -270,12 +330,13 @@ export function useTodayPrayerTimes(location: Coordinates | null) {
  */
 export function usePrayerTimesByDate(
   location: Coordinates | null,
-  date: Date
+  date: Date,
+  profile: PrayerCalculationProfile = DEFAULT_CALCULATION_PROFILE
 ) {
   const isoDate = format(date, DATE_FORMATS.ISO);
 
   return useQuery({
-    queryKey: prayerQueryKeys.times.date(location!, isoDate),
+    queryKey: prayerQueryKeys.times.date(location!, isoDate, profile),
     queryFn: async (): Promise<NormalizedPrayerTimes> => {
       const overallStartTime = Date.now();
 
@@ -291,7 +352,7 @@ export function usePrayerTimesByDate(
         );
       }
 
-      const cacheKey = `prayer-times-${isoDate}-${location.latitude}-${location.longitude}`;
+      const cacheKey = `prayer-times-${isoDate}-${location.latitude}-${location.longitude}-${getCalculationProfileKey(profile)}`;
 
       logger.debug('Fetching prayer times for specific date', {
         location: {
@@ -300,7 +361,7 @@ export function usePrayerTimesByDate(
         },
         date: isoDate,
         cacheKey,
-        queryKey: prayerQueryKeys.times.date(location, isoDate),
+        queryKey: prayerQueryKeys.times.date(location, isoDate, profile),
       });
 
       // ======================================================================
@@ -331,53 +392,65 @@ export function usePrayerTimesByDate(
       // ======================================================================
       // LAYER 2: FIREBASE (MUIS OFFICIAL)
       // ======================================================================
-      logger.debug('Attempting Firebase fetch for date (MUIS official)', {
-        date: isoDate,
-        priority: 'primary',
-      });
+      if (usesOfficialMuisTimes(profile, location)) {
+        logger.debug('Attempting Firebase fetch for date (MUIS official)', {
+          date: isoDate,
+          priority: 'primary',
+        });
 
-      const firebaseStartTime = Date.now();
-      try {
-        const firebaseData = await fetchDailyPrayerTimeFromFirebase(isoDate);
-        const firebaseDuration = Date.now() - firebaseStartTime;
+        const firebaseStartTime = Date.now();
+        try {
+          const firebaseData = await fetchDailyPrayerTimeFromFirebase(isoDate);
+          const firebaseDuration = Date.now() - firebaseStartTime;
 
-        if (firebaseData) {
-          const normalized = normalizeFirebaseTime(firebaseData);
+          if (firebaseData) {
+            const normalized = applyPrayerTimeAdjustments(
+              normalizeFirebaseTime(firebaseData),
+              profile.adjustments
+            );
 
-          // Only trust + cache validated data; otherwise fall through to Aladhan.
-          if (validatePrayerTimes(normalized)) {
-            cache.set(cacheKey, normalized, CACHE_TTL.ONE_WEEK);
+            // Only trust + cache validated data; otherwise fall through to Aladhan.
+            if (validatePrayerTimes(normalized)) {
+              cache.set(cacheKey, normalized, CACHE_TTL.ONE_WEEK);
+
+              logger.success('Prayer times fetched from Firebase (specific date)', {
+                source: 'Firebase',
+                certification: 'MUIS Official',
+                date: isoDate,
+                prayers: pickPrayerTimes(normalized),
+                firebaseDuration: `${firebaseDuration}ms`,
+                overallDuration: `${Date.now() - overallStartTime}ms`,
+                cacheTTL: CACHE_TTL.ONE_WEEK,
+              });
+
+              return normalized;
+            }
 
-            logger.success('Prayer times fetched from Firebase (specific date)', {
-              source: 'Firebase',
-              certification: 'MUIS Official',
+            logger.warn('Firebase prayer times failed validation (specific date), falling back to Aladhan', {
               date: isoDate,
               prayers: pickPrayerTimes(normalized),
-              firebaseDuration: `${firebaseDuration}ms`,
-              overallDuration: `${Date.now() - overallStartTime}ms`,
-              cacheTTL: CACHE_TTL.ONE_WEEK,
             });
-
-            return normalized;
           }
 
-          logger.warn('Firebase prayer times failed validation (specific date), falling back to Aladhan', {
+          logger.warn('No Firebase data for date', {
+            date: isoDate,
+            firebaseDuration: `${firebaseDuration}ms`,
+            nextStep: 'Attempting Aladhan fallback',
+          });
+        } catch (error) {
+          const firebaseDuration = Date.now() - firebaseStartTime;
+          logger.warn('Firebase fetch failed for date', {
+            error,
             date: isoDate,
-            prayers: pickPrayerTimes(normalized),
+            firebaseDuration: `${firebaseDuration}ms`,
           });
         }
-
-        logger.warn('No Firebase data for date', {
-          date: isoDate,
-          firebaseDuration: `${firebaseDuration}ms`,
-          nextStep: 'Attempting Aladhan fallback',
-        });
-      } catch (error) {
-        const firebaseDuration = Date.now() - firebaseStartTime;
-        logger.warn('Firebase fetch failed for date', {
-          error,
+      } else {
+        logger.debug('Skipping Firebase - MUIS timetable does not apply', {
           date: isoDate,
-          firebaseDuration: `${firebaseDuration}ms`,
+          method: profile.method,
+          school: profile.school,
+          reason: 'Custom location or calculation profile',
         });
       }
 
@@ -391,36 +464,66 @@ export function usePrayerTimesByDate(
       });
 
       const aladhanStartTime = Date.now();
-      const aladhanData = await fetchPrayerTimesByDateFromAladhan(
-        location.latitude,
-        location.longitude,
-        date
-      );
-      const aladhanDuration = Date.now() - aladhanStartTime;
+      try {
+        const aladhanData = await fetchPrayerTimesByDateFromAladhan(
+          location.latitude,
+          location.longitude,
+          date,
+          profile
+        );
+        const aladhanDuration = Date.now() - aladhanStartTime;
 
-      const normalizationStartTime = Date.now();
-      const normalized = normalizeAladhanResponse(aladhanData);
-      const normalizationDuration = Date.now() - normalizationStartTime;
+        const normalizationStartTime = Date.now();
+        const normalized = applyPrayerTimeAdjustments(
+          normalizeAladhanResponse(aladhanData),
+          profile.adjustments
+        );
+        const normalizationDuration = Date.now() - normalizationStartTime;
 
-      const cacheSetStartTime = Date.now();
-      cache.set(cacheKey, normalized, CACHE_TTL.ONE_WEEK);
-      const cacheSetDuration = Date.now() - cacheSetStartTime;
+        const cacheSetStartTime = Date.now();
+        cache.set(cacheKey, normalized, CACHE_TTL.ONE_WEEK);
+        const cacheSetDuration = Date.now() - cacheSetStartTime;
 
-      const overallDuration = Date.now() - overallStartTime;
+        const overallDuration = Date.now() - overallStartTime;
 
-      logger.warn('Prayer times fetched from Aladhan (specific date fallback)', {
-        source: 'Aladhan API',
+        logger.warn('Prayer times fetched from Aladhan (specific date fallback)', {
+          source: 'Aladhan API',
+          certification: 'NOT MUIS Official',
+          date: isoDate,
+          prayers: pickPrayerTimes(normalized),
+          aladhanDuration: `${aladhanDuration}ms`,
+          normalizationDuration: `${normalizationDuration}ms`,
+          cacheSetDuration: `${cacheSetDuration}ms`,
+          overallDuration: `${overallDuration}ms`,
+          cacheTTL: CACHE_TTL.ONE_WEEK,
+        });
+
+        return normalized;
+      } catch (error) {
+        logger.warn('Aladhan fetch failed for date - falling back to on-device calculation', {
+          error,
+          date: isoDate,
+          aladhanDuration: `${Date.now() - aladhanStartTime}ms`,
+        });
+      }
+
+      // ======================================================================
+      // LAYER 4: ASTRONOMICAL CALCULATION (OFFLINE FALLBACK, NOT CACHED)
+      // ======================================================================
+      const calculated = applyPrayerTimeAdjustments(
+        calculatePrayerTimes(date, location, getCalculationParameters(profile)),
+        profile.adjustments
+      );
+
+      logger.warn('Prayer times calculated on-device (specific date fallback)', {
+        source: 'Calculated',
         certification: 'NOT MUIS Official',
         date: isoDate,
-        prayers: pickPrayerTimes(normalized),
-        aladhanDuration: `${aladhanDuration}ms`,
-        normalizationDuration: `${normalizationDuration}ms`,
-        cacheSetDuration: `${cacheSetDuration}ms`,
-        overallDuration: `${overallDuration}ms`,
-        cacheTTL: CACHE_TTL.ONE_WEEK,
+        prayers: pickPrayerTimes(calculated),
+        overallDuration: `${Date.now() - overallStartTime}ms`,
       });
 
-      return normalized;
+      return calculated;
     },
     staleTime: STALE_TIME.SPECIFIC_DATE,
     gcTime: CACHE_TTL.ONE_WEEK,
@@ -704,7 +807,11 @@ export function useTodayIslamicDate() {
 export function usePrefetchPrayerTimes() {
   const queryClient = useQueryClient();
 
-  return async (location: Coordinates, date: Date) => {
+  return async (
+    location: Coordinates,
+    date: Date,
+    profile: PrayerCalculationProfile = DEFAULT_CALCULATION_PROFILE
+  ) => {
     const startTime = Date.now();
     const isoDate = format(date, DATE_FORMATS.ISO);
 
@@ -714,28 +821,33 @@ export function usePrefetchPrayerTimes() {
         longitude: location.longitude,
       },
       date: isoDate,
-      queryKey: prayerQueryKeys.times.date(location, isoDate),
+      queryKey: prayerQueryKeys.times.date(location, isoDate, profile),
     });
 
     try {
       await queryClient.prefetchQuery({
-        queryKey: prayerQueryKeys.times.date(location, isoDate),
+        queryKey: prayerQueryKeys.times.date(location, isoDate, profile),
         queryFn: async () => {
-          // Same multi-source logic - Firebase FIRST
-          try {
-            const firebaseData = await fetchDailyPrayerTimeFromFirebase(isoDate);
-            if (firebaseData) {
-              logger.debug('Prefetch: Using Firebase data', {
+          // Same multi-source logic - Firebase FIRST when MUIS applies
+          if (usesOfficialMuisTimes(profile, location)) {
+            try {
+              const firebaseData = await fetchDailyPrayerTimeFromFirebase(isoDate);
+              if (firebaseData) {
+                logger.debug('Prefetch: Using Firebase data', {
+                  date: isoDate,
+                  source: 'Firebase',
+                });
+                return applyPrayerTimeAdjustments(
+                  normalizeFirebaseTime(firebaseData),
+                  profile.adjustments
+                );
+              }
+            } catch (error) {
+              logger.warn('Prefetch: Firebase failed, using Aladhan', {
+                error,
                 date: isoDate,
-                source: 'Firebase',
               });
-              return normalizeFirebaseTime(firebaseData);
             }
-          } catch (error) {
-            logger.warn('Prefetch: Firebase failed, using Aladhan', {
-              error,
-              date: isoDate,
-            });
           }
 
           // Fallback to Aladhan
@@ -746,9 +858,13 @@ export function usePrefetchPrayerTimes() {
           const aladhanData = await fetchPrayerTimesByDateFromAladhan(
             location.latitude,
             location.longitude,
-            date
+            date,
+            profile
+          );
+          return applyPrayerTimeAdjustments(
+            normalizeAladhanResponse(aladhanData),
+            profile.adjustments
           );
-          return normalizeAladhanResponse(aladhanData);
         },
       });
 
@@ -0,0 +1,249 @@
+/**
+ * Qadha Ledger Queries
+ *
+ * TanStack Query hooks for the qadha (missed prayer) ledger, alongside the
+ * prayer log hooks.
+ *
+ * Features:
+ * - Ledger synced with prayer logs on every fetch
+ * - Offline MMKV mirror (served when Firestore is unreachable)
+ * - Optimistic backlog declarations and makeups with rollback
+ * - Payoff projection
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { syncQadhaLedger, declareQadhaBacklog, logQadhaMakeup } from '../api/qadha';
+import { prayerQueryKeys } from './query-keys';
+import {
+  LoggablePrayerName,
+  PrayerErrorCode,
+  PrayerServiceError,
+  QadhaCounts,
+  QadhaLedger,
+} from '../types/index';
+import { CACHE_TTL, DATE_FORMATS, ERROR_MESSAGES, STALE_TIME } from '../types/constants';
+import { projectQadhaPayoff } from '../utils/qadha';
+import { userStorageService } from '../../../client/storage';
+import { logger } from '../../../../services/logging/logger';
+
+// ============================================================================
+// OFFLINE MIRROR
+// ============================================================================
+
+const mirrorKey = (userId: string) => `qadha-ledger-${userId}`;
+
+function readMirror(userId: string): QadhaLedger | null {
+  return userStorageService.get<QadhaLedger>(mirrorKey(userId));
+}
+
+function writeMirror(ledger: QadhaLedger): void {
+  userStorageService.set(mirrorKey(ledger.userId), ledger);
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Fetch the user's qadha ledger
+ *
+ * Syncs missed prayers from logs on every fetch. The last synced ledger is
+ * mirrored in MMKV: it seeds the query on mount and is returned when
+ * Firestore cannot be reached.
+ *
+ * @param userId - User ID (null if not authenticated)
+ * @returns Qadha ledger
+ *
+ * @example
+ * ```tsx
+ * const { data: ledger } = useQadhaLedger(userId);
+ * console.log(ledger?.declared.Subuh);
+ * ```
+ */
+export function useQadhaLedger(userId: string | null) {
+  return useQuery({
+    queryKey: prayerQueryKeys.qadha.ledger(userId!),
+    queryFn: async (): Promise<QadhaLedger> => {
+      if (!userId) {
+        throw new PrayerServiceError(PrayerErrorCode.UNAUTHORIZED, ERROR_MESSAGES.UNAUTHORIZED);
+      }
+
+      try {
+        const ledger = await syncQadhaLedger(userId);
+        writeMirror(ledger);
+        return ledger;
+      } catch (error) {
+        const mirrored = readMirror(userId);
+        if (mirrored) {
+          logger.warn('Qadha ledger sync failed, using offline mirror', {
+            error: error instanceof Error ? error.message : String(error),
+            mirroredAt: mirrored.updatedAt,
+          });
+          return mirrored;
+        }
+        throw error;
+      }
+    },
+    initialData: () => (userId ? readMirror(userId) ?? undefined : undefined),
+    initialDataUpdatedAt: 0, // Always revalidate the mirror
+    staleTime: STALE_TIME.QADHA_LEDGER,
+    gcTime: CACHE_TTL.ONE_HOUR,
+    enabled: !!userId,
+    retry: 1,
+  });
+}
+
+/**
+ * Qadha ledger with payoff projection
+ *
+ * @param userId - User ID
+ * @param dailyRate - Makeups per day (default: recent average)
+ * @returns Ledger query plus `projection`
+ *
+ * @example
+ * ```tsx
+ * const { projection } = useQadhaProjection(userId);
+ * <Text>{projection?.totalOutstanding} prayers left</Text>
+ * ```
+ */
+export function useQadhaProjection(userId: string | null, dailyRate?: number) {
+  const query = useQadhaLedger(userId);
+
+  const projection = useMemo(
+    () => (query.data ? projectQadhaPayoff(query.data, dailyRate) : null),
+    [query.data, dailyRate]
+  );
+
+  return { ...query, projection };
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Apply an optimistic change to the cached ledger and mirror
+ */
+function useOptimisticLedger() {
+  const queryClient = useQueryClient();
+
+  const apply = async (userId: string, update: (ledger: QadhaLedger) => QadhaLedger) => {
+    const queryKey = prayerQueryKeys.qadha.ledger(userId);
+    await queryClient.cancelQueries({ queryKey });
+
+    const previousLedger = queryClient.getQueryData<QadhaLedger>(queryKey);
+    if (previousLedger) {
+      const next = update(previousLedger);
+      queryClient.setQueryData(queryKey, next);
+      writeMirror(next);
+    }
+    return { previousLedger };
+  };
+
+  const rollback = (userId: string, previousLedger: QadhaLedger | undefined) => {
+    if (!previousLedger) return;
+    queryClient.setQueryData(prayerQueryKeys.qadha.ledger(userId), previousLedger);
+    writeMirror(previousLedger);
+  };
+
+  const invalidate = (userId: string) =>
+    queryClient.invalidateQueries({ queryKey: prayerQueryKeys.qadha.ledger(userId) });
+
+  return { apply, rollback, invalidate };
+}
+
+/**
+ * Declare an estimated qadha backlog
+ *
+ * @returns Mutation object
+ *
+ * @example
+ * ```tsx
+ * const { mutate } = useDeclareQadhaBacklog();
+ * mutate({ userId, counts: { Subuh: estimateQadhaBacklog(3, 'years') } });
+ * ```
+ */
+export function useDeclareQadhaBacklog() {
+  const { apply, rollback, invalidate } = useOptimisticLedger();
+
+  return useMutation({
+    mutationFn: ({ userId, counts }: { userId: string; counts: Partial<QadhaCounts> }) =>
+      declareQadhaBacklog(userId, counts),
+
+    onMutate: ({ userId, counts }) =>
+      apply(userId, (ledger) => ({
+        ...ledger,
+        declared: Object.entries(counts).reduce(
+          (acc, [prayer, count]) => ({
+            ...acc,
+            [prayer]: acc[prayer as LoggablePrayerName] + (count ?? 0),
+          }),
+          ledger.declared
+        ),
+        updatedAt: new Date().toISOString(),
+      })),
+
+    onError: (error, { userId }, context) => {
+      logger.error('Failed to declare qadha backlog, rolling back', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      rollback(userId, context?.previousLedger);
+    },
+
+    onSettled: (data, error, { userId }) => invalidate(userId),
+  });
+}
+
+/**
+ * Log a qadha makeup, separately from on-time prayer logs
+ *
+ * @returns Mutation object
+ *
+ * @example
+ * ```tsx
+ * const { mutate } = useLogQadhaMakeup();
+ * mutate({ userId, prayer: 'Subuh' });
+ * ```
+ */
+export function useLogQadhaMakeup() {
+  const { apply, rollback, invalidate } = useOptimisticLedger();
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      prayer,
+      date = format(new Date(), DATE_FORMATS.ISO),
+      count = 1,
+    }: {
+      userId: string;
+      prayer: LoggablePrayerName;
+      date?: string;
+      count?: number;
+    }) => logQadhaMakeup(userId, prayer, date, count),
+
+    onMutate: ({ userId, prayer, date = format(new Date(), DATE_FORMATS.ISO), count = 1 }) =>
+      apply(userId, (ledger) => ({
+        ...ledger,
+        madeUp: { ...ledger.madeUp, [prayer]: ledger.madeUp[prayer] + count },
+        makeups: {
+          ...ledger.makeups,
+          [date]: { ...ledger.makeups[date], [prayer]: (ledger.makeups[date]?.[prayer] ?? 0) + count },
+        },
+        updatedAt: new Date().toISOString(),
+      })),
+
+    onError: (error, { userId }, context) => {
+      logger.error('Failed to log qadha makeup, rolling back', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      rollback(userId, context?.previousLedger);
+    },
+
+    onSettled: (data, error, { userId }) => invalidate(userId),
+  });
+}
@@ -13,7 +13,7 @@
  * @since 2025-12-22
  */
 
-import { Coordinates, PrayerTimesParams } from '../types/index';
+import { Coordinates, PrayerCalculationProfile, PrayerTimesParams } from '../types/index';
 
 // ============================================================================
 // PRAYER TIMES KEYS
@@ -56,15 +56,23 @@ export const prayerTimeKeys = {
 
   /**
    * Today's prayer times for a location
+   *
+   * Omit the profile to match every profile (e.g. for invalidation).
    */
-  today: (location: Coordinates) =>
-    [...prayerTimeKeys.all, 'today', location] as const,
+  today: (location: Coordinates, profile?: PrayerCalculationProfile) =>
+    profile
+      ? ([...prayerTimeKeys.all, 'today', location, profile] as const)
+      : ([...prayerTimeKeys.all, 'today', location] as const),
 
   /**
    * Prayer times for a specific date
+   *
+   * Omit the profile to match every profile (e.g. for invalidation).
    */
-  date: (location: Coordinates, date: string) =>
-    [...prayerTimeKeys.all, 'date', location, date] as const,
+  date: (location: Coordinates, date: string, profile?: PrayerCalculationProfile) =>
+    profile
+      ? ([...prayerTimeKeys.all, 'date', location, date, profile] as const)
+      : ([...prayerTimeKeys.all, 'date', location, date] as const),
 
   /**
    * Monthly prayer times
@@ -138,6 +146,12 @@ export const prayerLogKeys = {
    */
   monthly: (userId: string, year: number, month: number) =>
     [...prayerLogKeys.user(userId), 'monthly', year, month] as const,
+
+  /**
+   * Logs for an arbitrary date range (analytics)
+   */
+  range: (userId: string, startDate: string, endDate: string) =>
+    [...prayerLogKeys.user(userId), 'range', startDate, endDate] as const,
 } as const;
 
 // ============================================================================
@@ -171,6 +185,25 @@ export const prayerStatsKeys = {
     [...prayerStatsKeys.user(userId), 'completion'] as const,
 } as const;
 
+// ============================================================================
+// QADHA LEDGER KEYS
+// ============================================================================
+
+/**
+ * Qadha ledger query keys
+ */
+export const qadhaKeys = {
+  /**
+   * Base key for all qadha ledgers
+   */
+  all: ['prayer', 'qadha'] as const,
+
+  /**
+   * Ledger for a user
+   */
+  ledger: (userId: string) => [...qadhaKeys.all, userId] as const,
+} as const;
+
 // ============================================================================
 // COMBINED FACTORY
 // ============================================================================
@@ -185,6 +218,7 @@ export const prayerQueryKeys = {
   islamicDate: islamicDateKeys,
   logs: prayerLogKeys,
   stats: prayerStatsKeys,
+  qadha: qadhaKeys,
 } as const;
 
 // ============================================================================
@@ -209,6 +243,7 @@ export function getUserPrayerKeys(userId: string) {
   return [
     ...prayerLogKeys.user(userId),
     ...prayerStatsKeys.user(userId),
+    ...qadhaKeys.ledger(userId),
   ] as const;
 }
 
@@ -240,6 +275,8 @@ export type PrayerStatsQueryKey =
   | ReturnType<typeof prayerStatsKeys.streak>
   | ReturnType<typeof prayerStatsKeys.completionRate>;
 
+export type QadhaQueryKey = ReturnType<typeof qadhaKeys.ledger>;
+
 export type IslamicDateQueryKey = 
   | ReturnType<typeof islamicDateKeys.date>
   | ReturnType<typeof islamicDateKeys.today>;
@@ -251,6 +288,7 @@ export type PrayerQueryKey =
   | PrayerTimeQueryKey
   | PrayerLogQueryKey
   | PrayerStatsQueryKey
+  | QadhaQueryKey
   | IslamicDateQueryKey;
 
 // ============================================================================
@@ -7,6 +7,16 @@
  * @since 2025-12-22
  */
 
+import type {
+  FastingExcuseReason,
+  FastingStatus,
+  JumaatSettings,
+  JumaatTravelMode,
+  PrayerCalculationProfile,
+  PrayerLogStatus,
+  PrayerReminderRule,
+} from './index';
+
 // ============================================================================
 // FIREBASE COLLECTIONS
 // ============================================================================
@@ -22,6 +32,7 @@ export const FIREBASE_COLLECTIONS = {
   USERS: 'users',
   KHUTBAHS: 'khutbahs',
   DUAS: 'duas',
+  QADHA_LEDGERS: 'qadhaLedgers',
 } as const;
 
 /**
@@ -43,19 +54,117 @@ export function getPrayerTimesCollection(year: number = new Date().getFullYear()
  * @see https://aladhan.com/prayer-times-api#methods
  */
 export enum CalculationMethod {
-  MAKKAH = 1,
+  JAFARI = 0,
+  KARACHI = 1,
   ISNA = 2,
   MUSLIM_WORLD_LEAGUE = 3,
   UMM_AL_QURA = 4,
   EGYPTIAN = 5,
-  KARACHI = 7,
-  TEHRAN = 8,
-  JAFARI = 9,
-  SINGAPORE = 11, // ✅ Default for Singapore
+  TEHRAN = 7,
+  GULF = 8,
+  KUWAIT = 9,
+  QATAR = 10,
+  SINGAPORE = 11, // ✅ Default for Singapore (MUIS)
+  FRANCE = 12,
   TURKEY = 13,
-  DUBAI = 15,
+  RUSSIA = 14,
+  MOONSIGHTING_COMMITTEE = 15,
+  DUBAI = 16,
+  JAKIM = 17,
+  TUNISIA = 18,
+  ALGERIA = 19,
+  KEMENAG = 20,
+  MOROCCO = 21,
+  PORTUGAL = 22,
+  JORDAN = 23,
+}
+
+/**
+ * Calculation method details
+ *
+ * Angles mirror Aladhan's method definitions so the on-device calculator
+ * agrees with the API when it has to take over offline.
+ */
+export interface CalculationMethodInfo {
+  name: string;
+  fajrAngle: number;
+  ishaAngle: number;
+  ishaInterval?: number; // Minutes after Maghrib (replaces ishaAngle)
+  maghribAngle?: number; // Sun depression at Maghrib (Shia methods)
 }
 
+export const CALCULATION_METHODS: Record<CalculationMethod, CalculationMethodInfo> = {
+  [CalculationMethod.JAFARI]: { name: 'Shia Ithna-Ashari (Jafari)', fajrAngle: 16, ishaAngle: 14, maghribAngle: 4 },
+  [CalculationMethod.KARACHI]: { name: 'University of Islamic Sciences, Karachi', fajrAngle: 18, ishaAngle: 18 },
+  [CalculationMethod.ISNA]: { name: 'Islamic Society of North America', fajrAngle: 15, ishaAngle: 15 },
+  [CalculationMethod.MUSLIM_WORLD_LEAGUE]: { name: 'Muslim World League', fajrAngle: 18, ishaAngle: 17 },
+  [CalculationMethod.UMM_AL_QURA]: { name: 'Umm al-Qura, Makkah', fajrAngle: 18.5, ishaAngle: 0, ishaInterval: 90 },
+  [CalculationMethod.EGYPTIAN]: { name: 'Egyptian General Authority of Survey', fajrAngle: 19.5, ishaAngle: 17.5 },
+  [CalculationMethod.TEHRAN]: { name: 'Institute of Geophysics, Tehran', fajrAngle: 17.7, ishaAngle: 14, maghribAngle: 4.5 },
+  [CalculationMethod.GULF]: { name: 'Gulf Region', fajrAngle: 19.5, ishaAngle: 0, ishaInterval: 90 },
+  [CalculationMethod.KUWAIT]: { name: 'Kuwait', fajrAngle: 18, ishaAngle: 17.5 },
+  [CalculationMethod.QATAR]: { name: 'Qatar', fajrAngle: 18, ishaAngle: 0, ishaInterval: 90 },
+  [CalculationMethod.SINGAPORE]: { name: 'MUIS Singapore', fajrAngle: 20, ishaAngle: 18 },
+  [CalculationMethod.FRANCE]: { name: 'Union Organization Islamic de France', fajrAngle: 12, ishaAngle: 12 },
+  [CalculationMethod.TURKEY]: { name: 'Diyanet İşleri Başkanlığı, Turkey', fajrAngle: 18, ishaAngle: 17 },
+  [CalculationMethod.RUSSIA]: { name: 'Spiritual Administration of Muslims of Russia', fajrAngle: 16, ishaAngle: 15 },
+  [CalculationMethod.MOONSIGHTING_COMMITTEE]: { name: 'Moonsighting Committee Worldwide', fajrAngle: 18, ishaAngle: 18 },
+  [CalculationMethod.DUBAI]: { name: 'Dubai', fajrAngle: 18.2, ishaAngle: 18.2 },
+  [CalculationMethod.JAKIM]: { name: 'JAKIM Malaysia', fajrAngle: 20, ishaAngle: 18 },
+  [CalculationMethod.TUNISIA]: { name: 'Tunisia', fajrAngle: 18, ishaAngle: 18 },
+  [CalculationMethod.ALGERIA]: { name: 'Algeria', fajrAngle: 18, ishaAngle: 17 },
+  [CalculationMethod.KEMENAG]: { name: 'KEMENAG Indonesia', fajrAngle: 20, ishaAngle: 18 },
+  [CalculationMethod.MOROCCO]: { name: 'Morocco', fajrAngle: 19, ishaAngle: 17 },
+  [CalculationMethod.PORTUGAL]: { name: 'Comunidade Islamica de Lisboa', fajrAngle: 18, ishaAngle: 0, ishaInterval: 77 },
+  [CalculationMethod.JORDAN]: { name: 'Ministry of Awqaf, Jordan', fajrAngle: 18, ishaAngle: 18 },
+};
+
+/**
+ * Suggested method per country (ISO 3166-1 alpha-2)
+ *
+ * Used when the user picks a custom location. Countries not listed fall back
+ * to DEFAULT_FOREIGN_CALCULATION_METHOD.
+ */
+export const COUNTRY_CALCULATION_METHODS: Readonly<Record<string, CalculationMethod>> = {
+  SG: CalculationMethod.SINGAPORE,
+  MY: CalculationMethod.JAKIM,
+  BN: CalculationMethod.JAKIM,
+  ID: CalculationMethod.KEMENAG,
+  SA: CalculationMethod.UMM_AL_QURA,
+  AE: CalculationMethod.DUBAI,
+  QA: CalculationMethod.QATAR,
+  KW: CalculationMethod.KUWAIT,
+  BH: CalculationMethod.GULF,
+  OM: CalculationMethod.GULF,
+  EG: CalculationMethod.EGYPTIAN,
+  JO: CalculationMethod.JORDAN,
+  TR: CalculationMethod.TURKEY,
+  IR: CalculationMethod.TEHRAN,
+  PK: CalculationMethod.KARACHI,
+  IN: CalculationMethod.KARACHI,
+  BD: CalculationMethod.KARACHI,
+  AF: CalculationMethod.KARACHI,
+  US: CalculationMethod.ISNA,
+  CA: CalculationMethod.ISNA,
+  GB: CalculationMethod.MOONSIGHTING_COMMITTEE,
+  FR: CalculationMethod.FRANCE,
+  PT: CalculationMethod.PORTUGAL,
+  RU: CalculationMethod.RUSSIA,
+  MA: CalculationMethod.MOROCCO,
+  DZ: CalculationMethod.ALGERIA,
+  TN: CalculationMethod.TUNISIA,
+};
+
+/**
+ * Method suggested for countries without a specific authority
+ */
+export const DEFAULT_FOREIGN_CALCULATION_METHOD = CalculationMethod.MUSLIM_WORLD_LEAGUE;
+
+/**
+ * Countries where Hanafi Asr is the common practice
+ */
+export const HANAFI_COUNTRIES: readonly string[] = ['PK', 'IN', 'BD', 'AF'];
+
 /**
  * Juristic school for Asr calculation
  */
@@ -94,6 +203,21 @@ export const DEFAULT_PRAYER_CONFIG = {
   school: School.SHAFI,
 } as const;
 
+/**
+ * Default calculation profile (MUIS Singapore, no adjustments)
+ */
+export const DEFAULT_CALCULATION_PROFILE: PrayerCalculationProfile = {
+  method: CalculationMethod.SINGAPORE,
+  school: School.SHAFI,
+  highLatitudeRule: 'middleOfTheNight',
+  adjustments: { subuh: 0, syuruk: 0, zohor: 0, asar: 0, maghrib: 0, isyak: 0 },
+};
+
+/**
+ * Bounds for user per-prayer adjustments (minutes)
+ */
+export const PRAYER_ADJUSTMENT_LIMIT = 30;
+
 // ============================================================================
 // TIMING CONSTANTS
 // ============================================================================
@@ -119,6 +243,8 @@ export const STALE_TIME = {
   MONTHLY: CACHE_TTL.ONE_MONTH, // Refetch after 1 month
   PRAYER_LOG: CACHE_TTL.FIVE_MINUTES, // Refetch after 5 minutes
   PRAYER_STATS: CACHE_TTL.FIFTEEN_MINUTES, // Refetch after 15 minutes
+  QADHA_LEDGER: CACHE_TTL.FIFTEEN_MINUTES, // Refetch after 15 minutes
+  PRAYER_ANALYTICS: CACHE_TTL.FIFTEEN_MINUTES, // Refetch after 15 minutes
 } as const;
 
 // ============================================================================
@@ -283,6 +409,59 @@ export const STREAK_SETTINGS = {
   MAX_GAP_DAYS: 1, // Max 1 day gap allowed
 } as const;
 
+// ============================================================================
+// PRAYER LOG STATUSES
+// ============================================================================
+
+/**
+ * Statuses that count as the prayer having been performed
+ */
+export const PRAYED_STATUSES: readonly PrayerLogStatus[] = ['on_time', 'congregation', 'late', 'qadha'];
+
+/**
+ * Statuses that keep a streak alive
+ *
+ * Qadha is excluded (the prayer left its time); excused days do not break
+ * a streak.
+ */
+export const STREAK_KEEPING_STATUSES: readonly PrayerLogStatus[] = [
+  'on_time',
+  'congregation',
+  'late',
+  'excused',
+];
+
+/**
+ * Weight of each status in the completion rate
+ *
+ * `null` = excluded from both numerator and denominator (excused).
+ */
+export const PRAYER_STATUS_WEIGHTS: Record<PrayerLogStatus, number | null> = {
+  congregation: 1,
+  on_time: 1,
+  late: 0.75,
+  qadha: 0.5,
+  missed: 0,
+  excused: null,
+};
+
+/**
+ * Display labels for statuses
+ */
+export const PRAYER_STATUS_LABELS: Record<PrayerLogStatus, string> = {
+  on_time: 'On time',
+  congregation: 'Congregation',
+  late: 'Late',
+  qadha: 'Qadha',
+  excused: 'Excused',
+  missed: 'Missed',
+};
+
+/**
+ * Congregation logs are tagged with the nearest mosque within this radius
+ */
+export const CONGREGATION_MOSQUE_RADIUS_KM = 0.5;
+
 // ============================================================================
 // WIDGET STORAGE (iOS)
 // ============================================================================
@@ -292,6 +471,210 @@ export const STREAK_SETTINGS = {
  */
 export const WIDGET_APP_GROUP = 'group.com.rihlah.prayerTimesWidget' as const;
 
+// ============================================================================
+// TRAVEL (SAFAR)
+// ============================================================================
+
+/**
+ * Minimum distance from home for travel concessions (qasar/jamak)
+ *
+ * Two marhalah, the Shafi'i threshold commonly given as ~81 km.
+ */
+export const TRAVEL_DISTANCE_THRESHOLD_KM = 81;
+
+/**
+ * Four-rakaat prayers that may be shortened to two (qasar)
+ */
+export const QASAR_PRAYERS = ['Zohor', 'Asar', 'Isyak'] as const;
+
+/**
+ * Prayer pairs that may be combined (jamak)
+ */
+export const JAMAK_PAIRS = [
+  ['Zohor', 'Asar'],
+  ['Maghrib', 'Isyak'],
+] as const;
+
+// ============================================================================
+// QADHA
+// ============================================================================
+
+/**
+ * Days of makeups averaged for the payoff projection
+ */
+export const QADHA_RATE_WINDOW_DAYS = 30;
+
+/**
+ * Days per unit when bulk-declaring a backlog (solar calendar)
+ */
+export const QADHA_BACKLOG_UNIT_DAYS = {
+  days: 1,
+  weeks: 7,
+  months: 30,
+  years: 365,
+} as const;
+
+// ============================================================================
+// PRAYER LOG OUTBOX
+// ============================================================================
+
+/**
+ * MMKV key holding queued prayer log writes
+ */
+export const PRAYER_LOG_OUTBOX_KEY = 'prayer-log-outbox';
+
+/**
+ * Delay before retrying a write that failed on a transient error, doubled on
+ * every further failure up to PRAYER_LOG_OUTBOX_MAX_BACKOFF_MS
+ */
+export const PRAYER_LOG_OUTBOX_BASE_BACKOFF_MS = 30 * 1000;
+export const PRAYER_LOG_OUTBOX_MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// GUEST PRAYER LOGS
+// ============================================================================
+
+/**
+ * Query key owner for prayer logs kept on-device without an account
+ */
+export const GUEST_USER_ID = 'guest';
+
+/**
+ * MMKV key holding guest prayer logs
+ */
+export const GUEST_PRAYER_LOGS_KEY = 'guest-prayer-logs';
+
+// ============================================================================
+// PRAYER ANALYTICS
+// ============================================================================
+
+/**
+ * MMKV cache lifetime of a month of prayer logs
+ *
+ * Past months rarely change (edits evict them), the current month is
+ * refreshed often so logs from other devices show up.
+ */
+export const PRAYER_LOG_MONTH_CACHE_TTL = {
+  CURRENT: CACHE_TTL.FIVE_MINUTES,
+  PAST: CACHE_TTL.ONE_WEEK,
+} as const;
+
+/**
+ * Number of coloured heatmap levels (level 0 = nothing prayed)
+ */
+export const PRAYER_HEATMAP_LEVELS = 4;
+
+// ============================================================================
+// RAMADAN
+// ============================================================================
+
+/**
+ * Hijri month number of Ramadan
+ */
+export const RAMADAN_HIJRI_MONTH = 9;
+
+/**
+ * Imsak before Subuh when the source has no Imsak time (MUIS convention)
+ */
+export const IMSAK_OFFSET_MINUTES = 10;
+
+/**
+ * Sahur reminder lead time before Imsak
+ */
+export const SAHUR_REMINDER_MINUTES = 30;
+
+/**
+ * Display labels for fast statuses
+ */
+export const FASTING_STATUS_LABELS: Record<FastingStatus, string> = {
+  fasted: 'Fasted',
+  missed: 'Missed',
+  excused: 'Excused',
+};
+
+/**
+ * Display labels for fasting excuses
+ */
+export const FASTING_EXCUSE_LABELS: Record<FastingExcuseReason, string> = {
+  haid: 'Haid / nifas',
+  illness: 'Illness',
+  travel: 'Travel',
+  pregnancy: 'Pregnancy',
+  nursing: 'Nursing',
+  old_age: 'Old age',
+  other: 'Other',
+};
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/**
+ * Weekday of Jumaat (Friday, as returned by `Date.getDay()`)
+ */
+export const JUMAAT_WEEKDAY = 5;
+
+/**
+ * Short weekday labels, indexed by `Date.getDay()`
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+/**
+ * Offsets offered when adding a reminder rule (minutes before the prayer)
+ */
+export const REMINDER_RULE_OFFSETS = [5, 10, 15, 30, 45, 60] as const;
+
+/**
+ * Friday Zohor reminder to leave for the mosque in time for the khutbah
+ */
+export const JUMAAT_REMINDER_PRESET: Omit<PrayerReminderRule, 'id'> = {
+  minutesBefore: 45,
+  weekdays: [JUMAAT_WEEKDAY],
+  note: 'Time to leave for the mosque for Jumaat.',
+};
+
+/**
+ * Friday notification defaults: khutbah preview at 9am, no leave reminder
+ * until the user picks a mosque
+ */
+export const DEFAULT_JUMAAT_SETTINGS: JumaatSettings = {
+  khutbahPreview: true,
+  previewMinutes: 9 * 60,
+  khutbahLanguage: 'English',
+  leaveReminder: false,
+  mosqueId: null,
+  travelMode: 'transit',
+  arriveMinutesBefore: 15,
+};
+
+/**
+ * Times offered for the khutbah preview (minutes from midnight)
+ */
+export const JUMAAT_PREVIEW_TIMES = [7 * 60, 8 * 60, 9 * 60, 10 * 60, 11 * 60] as const;
+
+/**
+ * How early to arrive before Zohor (minutes)
+ */
+export const JUMAAT_ARRIVAL_OFFSETS = [5, 10, 15, 20, 30] as const;
+
+/**
+ * Average door-to-door speed per travel mode, plus fixed overhead (waiting for
+ * the bus/train, parking). Rough, but enough to time a reminder.
+ */
+export const JUMAAT_TRAVEL_MODES: Record<
+  JumaatTravelMode,
+  { label: string; phrase: string; icon: string; kmPerHour: number; overheadMinutes: number }
+> = {
+  walk: { label: 'Walk', phrase: 'on foot', icon: 'person-walking', kmPerHour: 4.5, overheadMinutes: 0 },
+  transit: { label: 'Transit', phrase: 'by public transport', icon: 'train-subway', kmPerHour: 20, overheadMinutes: 10 },
+  drive: { label: 'Drive', phrase: 'by car', icon: 'car', kmPerHour: 30, overheadMinutes: 5 },
+};
+
+/**
+ * Roads are longer than the straight line between two points
+ */
+export const JUMAAT_ROUTE_FACTOR = 1.3;
+
 // ============================================================================
 // ERROR MESSAGES
 // ============================================================================
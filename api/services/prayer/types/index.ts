@@ -9,6 +9,7 @@
  */
 
 import { z } from 'zod';
+import type { Language as KhutbahLanguage } from '../../khutbah';
 
 // ============================================================================
 // PRAYER NAMES (Standardized)
@@ -84,19 +85,59 @@ export const LocalPrayerTimesSchema = z.object({
   isyak: TimeStringSchema,
 });
 
+/**
+ * Prayer log status
+ *
+ * - `on_time`: prayed within its time
+ * - `congregation`: prayed in jemaah (optionally at a mosque)
+ * - `late`: prayed near the end of its time
+ * - `qadha`: made up after its time ended
+ * - `excused`: not required (e.g. haid/nifas); does not break streaks
+ * - `missed`: not prayed
+ */
+export const PrayerLogStatusSchema = z.enum([
+  'on_time',
+  'congregation',
+  'late',
+  'qadha',
+  'excused',
+  'missed',
+]);
+
+/**
+ * Single prayer entry in a log
+ */
+export const PrayerLogEntrySchema = z.object({
+  status: PrayerLogStatusSchema,
+  loggedAt: z.string().datetime().optional(), // When the status was recorded
+  mosqueId: z.string().optional(), // MosqueLocation.id for congregation prayers
+  updatedAt: z.string().datetime().optional(), // Last change; resolves offline write conflicts
+});
+
 /**
  * Prayer log schema
+ *
+ * Logs written before statuses existed store a boolean per prayer; they are
+ * migrated on read (see `normalizePrayerLogPrayers`).
  */
 export const PrayerLogSchema = z.object({
   userId: z.string().min(1),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
   prayers: z.object({
-    Subuh: z.boolean(),
-    Zohor: z.boolean(),
-    Asar: z.boolean(),
-    Maghrib: z.boolean(),
-    Isyak: z.boolean(),
+    Subuh: PrayerLogEntrySchema,
+    Zohor: PrayerLogEntrySchema,
+    Asar: PrayerLogEntrySchema,
+    Maghrib: PrayerLogEntrySchema,
+    Isyak: PrayerLogEntrySchema,
   }),
+  travel: z
+    .object({
+      sessionId: z.string().min(1),
+      destination: z.string().optional(),
+      shortened: z.array(z.enum(['Zohor', 'Asar', 'Isyak'])), // Qasar (2 rakaat)
+      combined: z.array(z.enum(['Zohor', 'Asar', 'Maghrib', 'Isyak'])), // Jamak pairs
+    })
+    .optional(), // Set when the log was recorded during a travel session
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -178,6 +219,9 @@ export type Coordinates = z.infer<typeof CoordinatesSchema>;
 export type PrayerTimings = z.infer<typeof PrayerTimingsSchema>;
 export type LocalPrayerTimes = z.infer<typeof LocalPrayerTimesSchema>;
 export type PrayerLog = z.infer<typeof PrayerLogSchema>;
+export type PrayerLogStatus = z.infer<typeof PrayerLogStatusSchema>;
+export type PrayerLogEntry = z.infer<typeof PrayerLogEntrySchema>;
+export type PrayerLogTravelTag = NonNullable<PrayerLog['travel']>;
 export type AladhanResponse = z.infer<typeof AladhanResponseSchema>;
 
 // ============================================================================
@@ -196,6 +240,7 @@ export interface NormalizedPrayerTimes {
   asar: string;
   maghrib: string;
   isyak: string;
+  imsak?: string; // Start of the fast (Aladhan only; see getImsakTime)
 }
 
 /**
@@ -204,7 +249,45 @@ export interface NormalizedPrayerTimes {
 export interface DailyPrayerTime extends NormalizedPrayerTimes {
   hijriDate?: string;
   location?: Coordinates;
-  source: 'aladhan' | 'firebase';
+  source: 'aladhan' | 'firebase' | 'calculated';
+}
+
+// ============================================================================
+// CALCULATION PROFILE
+// ============================================================================
+
+/**
+ * How Subuh/Isyak are bounded when the sun never reaches the twilight angle
+ * (high latitudes in summer).
+ *
+ * - `none`: no adjustment (times may be unavailable)
+ * - `middleOfTheNight`: Subuh/Isyak no further than half the night from sunrise/sunset
+ * - `seventhOfTheNight`: ... no further than 1/7 of the night
+ * - `twilightAngle`: ... no further than (angle / 60) of the night
+ */
+export type HighLatitudeRule =
+  | 'none'
+  | 'middleOfTheNight'
+  | 'seventhOfTheNight'
+  | 'twilightAngle';
+
+/**
+ * Per-prayer minute offsets (ihtiyati / precautionary adjustments)
+ */
+export type PrayerTimeOffsets = Record<Exclude<keyof NormalizedPrayerTimes, 'date' | 'imsak'>, number>; // Imsak follows Subuh
+
+/**
+ * User's prayer time calculation profile
+ *
+ * Official MUIS times (Firebase) only apply to the Singapore method with
+ * Shafi Asr inside Singapore. Any other profile is resolved through Aladhan,
+ * or the on-device calculator when offline.
+ */
+export interface PrayerCalculationProfile {
+  method: number; // Aladhan method id (see CalculationMethod)
+  school: 0 | 1; // 0 = Shafi, 1 = Hanafi
+  highLatitudeRule: HighLatitudeRule;
+  adjustments: PrayerTimeOffsets; // Minutes added to each time (may be negative)
 }
 
 /**
@@ -215,7 +298,8 @@ export interface PrayerStats {
   completedPrayers: number;
   currentStreak: number;
   longestStreak: number;
-  completionRate: number; // 0-100
+  completionRate: number; // 0-100, weighted by status
+  statusCounts: Record<PrayerLogStatus, number>;
   lastUpdated: string; // ISO timestamp
 }
 
@@ -230,6 +314,237 @@ export interface PrayerAvailability {
   isCurrent: boolean;
 }
 
+// ============================================================================
+// QADHA LEDGER
+// ============================================================================
+
+/**
+ * Count per loggable prayer
+ */
+export type QadhaCounts = Record<LoggablePrayerName, number>;
+
+/**
+ * Qadha (missed prayer) ledger
+ *
+ * Stored in `qadhaLedgers/{userId}`. Outstanding qadha for a prayer is
+ * `missed + declared - madeUp` (never below zero).
+ */
+export interface QadhaLedger {
+  userId: string;
+  missed: QadhaCounts; // Accumulated from prayer logs (recomputed on sync)
+  declared: QadhaCounts; // Bulk-declared backlog estimate
+  madeUp: QadhaCounts; // Qadha prayers performed
+  makeups: Record<string, Partial<QadhaCounts>>; // YYYY-MM-DD → makeups that day
+  syncedThrough: string | null; // Last log date counted into `missed`
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Projection of when the qadha backlog will be paid off
+ */
+export interface QadhaPayoffProjection {
+  outstanding: QadhaCounts;
+  totalOutstanding: number;
+  dailyRate: number; // Makeups per day used for the projection
+  daysRemaining: number | null; // null when the rate is zero
+  projectedDate: string | null; // YYYY-MM-DD
+}
+
+// ============================================================================
+// PRAYER LOG OUTBOX
+// ============================================================================
+
+/**
+ * Prayer log write waiting to reach Firestore
+ *
+ * One entry per user and date; later writes for the same day are merged in
+ * per prayer (last writer wins by `PrayerLogEntry.updatedAt`).
+ */
+export interface PrayerLogOutboxEntry {
+  userId: string;
+  date: string; // YYYY-MM-DD
+  prayers: PrayerLog['prayers'];
+  travel?: PrayerLogTravelTag;
+  queuedAt: string; // ISO timestamp of the first queued write
+  attempts: number; // Failed sync attempts
+  nextAttemptAt?: string; // ISO timestamp; replays wait until then after a failure
+  lastError?: string; // Message of the last failed attempt
+}
+
+/**
+ * Outbox state shown in the UI
+ */
+export interface PrayerLogSyncStatus {
+  pendingCount: number;
+  isSyncing: boolean;
+  isOnline: boolean;
+  lastSyncedAt: string | null; // ISO timestamp
+  failingCount: number; // Queued writes whose last attempt failed (retried with backoff)
+  lastError: string | null; // Most recent sync failure, cleared once the outbox drains
+}
+
+// ============================================================================
+// PRAYER LOG HISTORY
+// ============================================================================
+
+/**
+ * A user's whole prayer history
+ *
+ * Mirrors the `prayerLogs` / `prayerLogTravel` maps of the user document.
+ * Used for on-device guest logs and backups, so either can be merged into an
+ * account as-is.
+ */
+export interface PrayerLogHistory {
+  prayerLogs: Record<string, PrayerLog['prayers']>; // keyed by YYYY-MM-DD
+  prayerLogTravel: Record<string, PrayerLogTravelTag>;
+}
+
+/**
+ * A prayer logged with different statuses in two histories being merged
+ */
+export interface PrayerLogMergeConflict {
+  date: string; // YYYY-MM-DD
+  prayer: LoggablePrayerName;
+  local: PrayerLogEntry; // Incoming (guest device / backup file)
+  remote: PrayerLogEntry; // Already stored
+  kept: 'local' | 'remote';
+}
+
+/**
+ * Outcome of merging a history into stored logs (guest sign-in, backup import)
+ */
+export interface PrayerLogMergeReport {
+  userId: string;
+  addedDates: string[]; // Days with no stored log
+  mergedDates: string[]; // Days merged per prayer with the stored log
+  conflicts: PrayerLogMergeConflict[];
+  mergedAt: string; // ISO timestamp
+}
+
+// ============================================================================
+// PRAYER ANALYTICS
+// ============================================================================
+
+/**
+ * Analytics window: calendar month, calendar year or a custom range
+ */
+export type PrayerAnalyticsPeriod = 'month' | 'year' | 'custom';
+
+/**
+ * Inclusive date range (YYYY-MM-DD)
+ */
+export interface PrayerAnalyticsRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Completion over a group of prayers (one prayer, one weekday, ...)
+ */
+export interface PrayerRateSummary {
+  completed: number; // Prayed (any status but missed/excused)
+  missed: number;
+  total: number; // Logged prayers, excused included
+  rate: number; // 0-100, weighted by status (excused excluded)
+}
+
+/**
+ * One day of the calendar heatmap
+ */
+export interface PrayerHeatmapCell {
+  date: string; // YYYY-MM-DD
+  rate: number | null; // 0-1 weighted score, null when nothing was logged
+  level: 0 | 1 | 2 | 3 | 4; // Colour intensity
+}
+
+/**
+ * Prayer analytics for a date range
+ */
+export interface PrayerAnalytics {
+  range: PrayerAnalyticsRange;
+  daysInRange: number;
+  daysLogged: number;
+  completionRate: number; // 0-100, weighted by status
+  perPrayer: Record<LoggablePrayerName, PrayerRateSummary>;
+  mostMissedPrayer: LoggablePrayerName | null;
+  dayOfWeek: PrayerRateSummary[]; // Index 0 = Sunday (date-fns `getDay`)
+  heatmap: PrayerHeatmapCell[];
+}
+
+// ============================================================================
+// RAMADAN
+// ============================================================================
+
+/**
+ * Daily fast status
+ *
+ * - `fasted`: completed the fast
+ * - `missed`: not fasted without an excuse (to be made up)
+ * - `excused`: not fasted for a valid reason (see `FastingExcuseReason`)
+ */
+export type FastingStatus = 'fasted' | 'missed' | 'excused';
+
+/**
+ * Why a fast was not kept
+ */
+export type FastingExcuseReason = 'haid' | 'illness' | 'travel' | 'pregnancy' | 'nursing' | 'old_age' | 'other';
+
+/**
+ * One day of the fasting log
+ */
+export interface FastingLogEntry {
+  status: FastingStatus;
+  reason?: FastingExcuseReason; // Only for `excused`
+  hijriYear: string; // Ramadan the fast belongs to, e.g. "1448"
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Next fasting milestone for the countdown
+ *
+ * `imsak` while sahur is still allowed, `iftar` while fasting.
+ */
+export interface FastingCountdown {
+  event: 'imsak' | 'iftar';
+  time: string; // HH:MM
+  minutesUntil: number;
+  timeUntil: string; // e.g. "2h 15m"
+}
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/**
+ * A pre-prayer reminder. A prayer can have several, each limited to some
+ * weekdays (e.g. 30 and 10 minutes before Zohor on workdays only).
+ */
+export interface PrayerReminderRule {
+  id: string;
+  minutesBefore: number;
+  weekdays: number[]; // 0 = Sunday … 6 = Saturday; empty = every day
+  note?: string; // Notification body, e.g. "Time to leave for the mosque"
+}
+
+/**
+ * How the user gets to the mosque for Jumaat (drives the travel estimate)
+ */
+export type JumaatTravelMode = 'walk' | 'transit' | 'drive';
+
+/**
+ * Friday notifications: a khutbah preview in the morning, and a reminder to
+ * leave for a favourite mosque in time for the khutbah.
+ */
+export interface JumaatSettings {
+  khutbahPreview: boolean;
+  previewMinutes: number; // minutes from midnight on Friday
+  khutbahLanguage: KhutbahLanguage; // language the preview opens the khutbah in
+  leaveReminder: boolean;
+  mosqueId: string | null; // one of the user's favourite mosques
+  travelMode: JumaatTravelMode;
+  arriveMinutesBefore: number; // arrive this long before Zohor (the khutbah starts then)
+}
+
 // ============================================================================
 // REQUEST/RESPONSE TYPES
 // ============================================================================
@@ -243,6 +558,7 @@ export interface PrayerTimesParams {
   date?: string; // DD-MM-YYYY (Aladhan format)
   method?: number; // Calculation method
   school?: 0 | 1; // 0 = Shafi, 1 = Hanafi
+  latitudeAdjustmentMethod?: 1 | 2 | 3; // 1 = Middle of night, 2 = One seventh, 3 = Angle based
 }
 
 /**
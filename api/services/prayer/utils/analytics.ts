@@ -0,0 +1,217 @@
+/**
+ * Prayer Analytics Utilities
+ *
+ * Pure helpers for monthly/yearly prayer analytics: resolving the date range
+ * of a period, per-prayer and day-of-week completion, the most missed prayer
+ * and the calendar heatmap.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  endOfMonth,
+  endOfYear,
+  format,
+  getDay,
+  parseISO,
+  startOfMonth,
+  startOfYear,
+} from 'date-fns';
+import {
+  LoggablePrayerName,
+  PrayerAnalytics,
+  PrayerAnalyticsPeriod,
+  PrayerAnalyticsRange,
+  PrayerHeatmapCell,
+  PrayerLog,
+  PrayerRateSummary,
+} from '../types/index';
+import {
+  DATE_FORMATS,
+  LOGGABLE_PRAYERS,
+  PRAYER_HEATMAP_LEVELS,
+  PRAYER_STATUS_WEIGHTS,
+} from '../types/constants';
+import { getPrayerLogScore, isPrayerPrayed } from './prayer';
+
+// ============================================================================
+// RANGES
+// ============================================================================
+
+/**
+ * Date range covered by a period
+ *
+ * @param period - 'month' or 'year' ('custom' requires `customRange`)
+ * @param anchorDate - Any date inside the wanted month/year
+ * @param customRange - Range used for the 'custom' period
+ * @returns Inclusive range (YYYY-MM-DD)
+ *
+ * @example
+ * ```ts
+ * getPrayerAnalyticsRange('month', new Date(2026, 9, 18));
+ * // { startDate: '2026-10-01', endDate: '2026-10-31' }
+ * ```
+ */
+export function getPrayerAnalyticsRange(
+  period: PrayerAnalyticsPeriod,
+  anchorDate: Date = new Date(),
+  customRange?: PrayerAnalyticsRange
+): PrayerAnalyticsRange {
+  if (period === 'custom' && customRange) return customRange;
+
+  const [start, end] =
+    period === 'year'
+      ? [startOfYear(anchorDate), endOfYear(anchorDate)]
+      : [startOfMonth(anchorDate), endOfMonth(anchorDate)];
+
+  return {
+    startDate: format(start, DATE_FORMATS.ISO),
+    endDate: format(end, DATE_FORMATS.ISO),
+  };
+}
+
+/**
+ * Months (yyyy-MM) touched by a date range
+ */
+export function getMonthsInRange(startDate: string, endDate: string): string[] {
+  if (endDate < startDate) return [];
+
+  return eachMonthOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map((month) =>
+    format(month, 'yyyy-MM')
+  );
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+function createRateSummary(): PrayerRateSummary & { score: number; counted: number } {
+  return { completed: 0, missed: 0, total: 0, rate: 0, score: 0, counted: 0 };
+}
+
+function finalizeRateSummary({
+  completed,
+  missed,
+  total,
+  score,
+  counted,
+}: ReturnType<typeof createRateSummary>): PrayerRateSummary {
+  return {
+    completed,
+    missed,
+    total,
+    rate: counted > 0 ? Math.round((score / counted) * 100) : 0,
+  };
+}
+
+/**
+ * Heatmap intensity for a day's weighted score
+ */
+function toHeatmapLevel(rate: number | null): PrayerHeatmapCell['level'] {
+  if (rate === null || rate <= 0) return 0;
+  return Math.min(PRAYER_HEATMAP_LEVELS, Math.ceil(rate * PRAYER_HEATMAP_LEVELS)) as PrayerHeatmapCell['level'];
+}
+
+/**
+ * Calendar heatmap for a date range
+ *
+ * Every day of the range gets a cell; days without a log have `rate: null`.
+ *
+ * @param logs - Prayer logs keyed by YYYY-MM-DD
+ * @param range - Inclusive range
+ * @returns One cell per day, oldest first
+ */
+export function buildPrayerHeatmap(
+  logs: Record<string, PrayerLog['prayers']>,
+  { startDate, endDate }: PrayerAnalyticsRange
+): PrayerHeatmapCell[] {
+  if (endDate < startDate) return [];
+
+  return eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map((day) => {
+    const date = format(day, DATE_FORMATS.ISO);
+    const prayers = logs[date];
+    let rate: number | null = null;
+
+    if (prayers) {
+      const { score, counted } = getPrayerLogScore(prayers);
+      rate = counted > 0 ? score / counted : 1; // All excused: nothing owed
+    }
+
+    return { date, rate, level: toHeatmapLevel(rate) };
+  });
+}
+
+/**
+ * Analytics for a date range
+ *
+ * Only days with a log are counted: days the app was not used are unknown
+ * rather than missed. Rates are weighted by status like `PrayerStats`.
+ *
+ * @param logs - Prayer logs keyed by YYYY-MM-DD (may include days outside the range)
+ * @param range - Inclusive range
+ * @returns Per-prayer and per-weekday completion, most missed prayer and heatmap
+ *
+ * @example
+ * ```ts
+ * const analytics = calculatePrayerAnalytics(logs, getPrayerAnalyticsRange('year'));
+ * console.log(analytics.mostMissedPrayer); // 'Subuh'
+ * ```
+ */
+export function calculatePrayerAnalytics(
+  logs: Record<string, PrayerLog['prayers']>,
+  range: PrayerAnalyticsRange
+): PrayerAnalytics {
+  const overall = createRateSummary();
+  const perPrayer = Object.fromEntries(
+    LOGGABLE_PRAYERS.map((prayer) => [prayer, createRateSummary()])
+  ) as Record<LoggablePrayerName, ReturnType<typeof createRateSummary>>;
+  const dayOfWeek = Array.from({ length: 7 }, createRateSummary);
+  let daysLogged = 0;
+
+  Object.entries(logs)
+    .filter(([date]) => date >= range.startDate && date <= range.endDate)
+    .forEach(([date, prayers]) => {
+      const weekday = dayOfWeek[getDay(parseISO(date))];
+      daysLogged++;
+
+      LOGGABLE_PRAYERS.forEach((prayer) => {
+        const entry = prayers[prayer];
+        const status = entry?.status ?? 'missed';
+        const weight = PRAYER_STATUS_WEIGHTS[status];
+
+        [overall, perPrayer[prayer], weekday].forEach((summary) => {
+          summary.total++;
+          if (isPrayerPrayed(entry)) summary.completed++;
+          if (status === 'missed') summary.missed++;
+          if (weight !== null) {
+            summary.score += weight;
+            summary.counted++;
+          }
+        });
+      });
+    });
+
+  const mostMissed = LOGGABLE_PRAYERS.reduce<LoggablePrayerName | null>(
+    (worst, prayer) =>
+      perPrayer[prayer].missed > (worst ? perPrayer[worst].missed : 0) ? prayer : worst,
+    null
+  );
+
+  const heatmap = buildPrayerHeatmap(logs, range);
+
+  return {
+    range,
+    daysInRange: heatmap.length,
+    daysLogged,
+    completionRate: finalizeRateSummary(overall).rate,
+    perPrayer: Object.fromEntries(
+      LOGGABLE_PRAYERS.map((prayer) => [prayer, finalizeRateSummary(perPrayer[prayer])])
+    ) as Record<LoggablePrayerName, PrayerRateSummary>,
+    mostMissedPrayer: mostMissed,
+    dayOfWeek: dayOfWeek.map(finalizeRateSummary),
+    heatmap,
+  };
+}
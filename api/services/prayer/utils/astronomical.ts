@@ -0,0 +1,315 @@
+/**
+ * Astronomical Prayer Time Calculator
+ *
+ * Pure-TypeScript solar-position engine that computes prayer times on-device.
+ * Used as the last fallback layer (MMKV → Firebase → Aladhan → calculated) so
+ * a device that is offline on a date it never cached still gets prayer times.
+ *
+ * The solar model is the low-precision USNO algorithm (accurate to well under
+ * a minute between 1950 and 2050). Each time is iterated once against the
+ * previous estimate so the sun position is evaluated at the actual event.
+ *
+ * NOTE: Only type imports are allowed in this file. It is also loaded directly
+ * by `scripts/prayer-times/validate-calculator.mjs` (Node type stripping),
+ * which cannot resolve app runtime modules.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import type {
+  Coordinates,
+  HighLatitudeRule,
+  NormalizedPrayerTimes,
+  PrayerTimeOffsets,
+} from '../types/index';
+
+export type { HighLatitudeRule, PrayerTimeOffsets };
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Inputs for the astronomical calculation
+ */
+export interface CalculationParameters {
+  fajrAngle: number; // Sun depression below horizon at Subuh (degrees)
+  ishaAngle: number; // Sun depression below horizon at Isyak (degrees)
+  ishaInterval?: number; // Fixed minutes after Maghrib (overrides ishaAngle, e.g. Umm al-Qura)
+  maghribAngle?: number; // Sun depression at Maghrib (Shia methods); defaults to sunset
+  asrShadowFactor: 1 | 2; // 1 = Shafi (shadow = object), 2 = Hanafi (shadow = 2x object)
+  highLatitudeRule: HighLatitudeRule;
+  offsets: PrayerTimeOffsets;
+  rounding: 'up' | 'nearest'; // 'up' = seconds always round to the next minute
+}
+
+/**
+ * Options for a single calculation
+ */
+export interface CalculationOptions {
+  /**
+   * UTC offset of the location in hours. Defaults to the device's offset on
+   * the given date (offline we cannot look up the location's timezone).
+   */
+  timezoneOffsetHours?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * No offsets
+ */
+export const ZERO_PRAYER_OFFSETS: PrayerTimeOffsets = {
+  subuh: 0,
+  syuruk: 0,
+  zohor: 0,
+  asar: 0,
+  maghrib: 0,
+  isyak: 0,
+};
+
+/**
+ * MUIS (Singapore) parameters
+ *
+ * Fajr 20°, Isha 18°, Shafi Asr. MUIS rounds seconds up and adds one minute
+ * of ihtiyati to Zohor. Matches the official 2026 table to within 2 minutes
+ * (see `scripts/prayer-times/validate-calculator.mjs`).
+ */
+export const MUIS_CALCULATION_PARAMETERS: CalculationParameters = {
+  fajrAngle: 20,
+  ishaAngle: 18,
+  asrShadowFactor: 1,
+  highLatitudeRule: 'middleOfTheNight',
+  offsets: { ...ZERO_PRAYER_OFFSETS, zohor: 1 },
+  rounding: 'up',
+};
+
+/**
+ * Apparent sun altitude at sunrise/sunset (refraction + solar semi-diameter)
+ */
+const SUNRISE_ANGLE = 0.833;
+
+// ============================================================================
+// SOLAR POSITION
+// ============================================================================
+
+const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+const toDeg = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Normalize an angle/hour value into [0, range)
+ */
+function fix(value: number, range: number): number {
+  const result = value % range;
+  return result < 0 ? result + range : result;
+}
+
+/**
+ * Julian day at 0h UTC for a calendar date
+ */
+function julianDay(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return (
+    Math.floor(365.25 * (year + 4716)) +
+    Math.floor(30.6001 * (month + 1)) +
+    day +
+    b -
+    1524.5
+  );
+}
+
+/**
+ * Sun declination (degrees) and equation of time (hours) for a Julian day
+ */
+function sunPosition(jd: number): { declination: number; equationOfTime: number } {
+  const d = jd - 2451545.0;
+  const g = fix(357.529 + 0.98560028 * d, 360); // Mean anomaly
+  const q = fix(280.459 + 0.98564736 * d, 360); // Mean longitude
+  const l = fix(q + 1.915 * Math.sin(toRad(g)) + 0.02 * Math.sin(toRad(2 * g)), 360);
+  const e = 23.439 - 0.00000036 * d; // Obliquity of the ecliptic
+
+  const rightAscension =
+    fix(toDeg(Math.atan2(Math.cos(toRad(e)) * Math.sin(toRad(l)), Math.cos(toRad(l)))), 360) / 15;
+  const declination = toDeg(Math.asin(Math.sin(toRad(e)) * Math.sin(toRad(l))));
+  const equationOfTime = fix(q / 15 - rightAscension + 12, 24) - 12;
+
+  return { declination, equationOfTime };
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Calculate prayer times for a date and location
+ *
+ * @param date - Calendar date (only year/month/day are used)
+ * @param coordinates - Location coordinates
+ * @param params - Calculation parameters (default: MUIS)
+ * @param options - Timezone override
+ * @returns Normalized prayer times (24h HH:MM)
+ * @throws {RangeError} If a time cannot be computed (e.g. polar day with no high-latitude rule)
+ *
+ * @example
+ * ```ts
+ * const times = calculatePrayerTimes(new Date(2026, 0, 1), { latitude: 1.3521, longitude: 103.8198 });
+ * console.log(times.subuh); // '05:44'
+ * ```
+ */
+export function calculatePrayerTimes(
+  date: Date,
+  coordinates: Coordinates,
+  params: CalculationParameters = MUIS_CALCULATION_PARAMETERS,
+  options: CalculationOptions = {}
+): NormalizedPrayerTimes {
+  const year = date.getFullYear();
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  const { latitude, longitude } = coordinates;
+
+  const timezone =
+    options.timezoneOffsetHours ??
+    -new Date(year, month - 1, day, 12).getTimezoneOffset() / 60;
+
+  // Julian day at local noon of the location's solar day
+  const jd = julianDay(year, month, day) - longitude / (15 * 24);
+
+  const position = (hours: number) => sunPosition(jd + hours / 24);
+
+  const midDay = (hours: number) => fix(12 - position(hours).equationOfTime, 24);
+
+  // Hours from solar noon until the sun reaches `angle` below the horizon
+  const sunAngleTime = (angle: number, hours: number, beforeNoon: boolean) => {
+    const { declination } = position(hours);
+    const noon = midDay(hours);
+    const t =
+      toDeg(
+        Math.acos(
+          (-Math.sin(toRad(angle)) - Math.sin(toRad(declination)) * Math.sin(toRad(latitude))) /
+            (Math.cos(toRad(declination)) * Math.cos(toRad(latitude)))
+        )
+      ) / 15;
+    return noon + (beforeNoon ? -t : t);
+  };
+
+  const asrTime = (factor: number, hours: number) => {
+    const { declination } = position(hours);
+    const angle = -toDeg(Math.atan(1 / (factor + Math.tan(toRad(Math.abs(latitude - declination))))));
+    return sunAngleTime(angle, hours, false);
+  };
+
+  // Initial estimates (hours), then refine against the sun position at each event
+  let times = { subuh: 5, syuruk: 6, zohor: 12, asar: 13, maghrib: 18, isyak: 18 };
+  for (let i = 0; i < 2; i++) {
+    times = {
+      subuh: sunAngleTime(params.fajrAngle, times.subuh, true),
+      syuruk: sunAngleTime(SUNRISE_ANGLE, times.syuruk, true),
+      zohor: midDay(times.zohor),
+      asar: asrTime(params.asrShadowFactor, times.asar),
+      maghrib: sunAngleTime(params.maghribAngle ?? SUNRISE_ANGLE, times.maghrib, false),
+      isyak: sunAngleTime(params.ishaAngle, times.isyak, false),
+    };
+  }
+
+  times = adjustHighLatitudes(times, params);
+
+  if (params.ishaInterval !== undefined) {
+    times.isyak = times.maghrib + params.ishaInterval / 60;
+  }
+
+  // Convert from solar time at the location to local clock time
+  const shift = timezone - longitude / 15;
+
+  const result: NormalizedPrayerTimes = {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    subuh: '',
+    syuruk: '',
+    zohor: '',
+    asar: '',
+    maghrib: '',
+    isyak: '',
+  };
+
+  for (const key of Object.keys(times) as Array<keyof typeof times>) {
+    const hours = times[key];
+    if (!Number.isFinite(hours)) {
+      throw new RangeError(
+        `Cannot calculate ${key} on ${result.date} at ${latitude.toFixed(2)}, ${longitude.toFixed(2)}`
+      );
+    }
+    result[key] = formatHours(hours + shift + params.offsets[key] / 60, params.rounding);
+  }
+
+  return result;
+}
+
+/**
+ * Bound Subuh/Isyak to a portion of the night when twilight never ends
+ * (or lasts implausibly long) at high latitudes.
+ */
+function adjustHighLatitudes<T extends Record<'subuh' | 'syuruk' | 'maghrib' | 'isyak', number>>(
+  times: T,
+  params: CalculationParameters
+): T {
+  if (params.highLatitudeRule === 'none') return times;
+
+  const night = fix(times.syuruk - times.maghrib, 24);
+  if (!Number.isFinite(night)) return times;
+
+  const nightPortion = (angle: number) => {
+    switch (params.highLatitudeRule) {
+      case 'seventhOfTheNight':
+        return night / 7;
+      case 'twilightAngle':
+        return (angle / 60) * night;
+      default:
+        return night / 2;
+    }
+  };
+
+  const adjusted = { ...times };
+
+  const fajrPortion = nightPortion(params.fajrAngle);
+  const fajrDiff = fix(times.syuruk - times.subuh, 24);
+  if (!Number.isFinite(times.subuh) || fajrDiff > fajrPortion) {
+    adjusted.subuh = times.syuruk - fajrPortion;
+  }
+
+  if (params.ishaInterval === undefined) {
+    const ishaPortion = nightPortion(params.ishaAngle);
+    const ishaDiff = fix(times.isyak - times.maghrib, 24);
+    if (!Number.isFinite(times.isyak) || ishaDiff > ishaPortion) {
+      adjusted.isyak = times.maghrib + ishaPortion;
+    }
+  }
+
+  return adjusted;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Format fractional hours as HH:MM (24h)
+ */
+function formatHours(hours: number, rounding: CalculationParameters['rounding']): string {
+  // Tolerate floating-point noise so an exact minute isn't rounded up
+  const rawMinutes = hours * 60;
+  const minutes =
+    rounding === 'up' ? Math.ceil(rawMinutes - 1e-6) : Math.round(rawMinutes);
+  const total = fix(minutes, 24 * 60);
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+}
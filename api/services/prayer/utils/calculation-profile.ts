@@ -0,0 +1,242 @@
+/**
+ * Calculation Profile Utilities
+ *
+ * Helpers for the user's prayer calculation profile (method, Asr school,
+ * high-latitude rule and per-prayer adjustments): deciding when the official
+ * MUIS timetable applies, mapping the profile onto Aladhan and on-device
+ * calculator parameters, applying adjustments and suggesting a method for a
+ * country.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import {
+  Coordinates,
+  HighLatitudeRule,
+  NormalizedPrayerTimes,
+  PrayerCalculationProfile,
+  PrayerTimeOffsets,
+} from '../types/index';
+import {
+  CALCULATION_METHODS,
+  CalculationMethod,
+  COUNTRY_CALCULATION_METHODS,
+  DEFAULT_FOREIGN_CALCULATION_METHOD,
+  HANAFI_COUNTRIES,
+  School,
+  SINGAPORE_BOUNDS,
+} from '../types/constants';
+import { CalculationParameters, MUIS_CALCULATION_PARAMETERS, ZERO_PRAYER_OFFSETS } from './astronomical';
+
+// ============================================================================
+// SOURCE SELECTION
+// ============================================================================
+
+/**
+ * Check if coordinates fall inside Singapore
+ *
+ * @param location - Coordinates to check
+ * @returns True if within SINGAPORE_BOUNDS
+ */
+export function isWithinSingapore(location: Coordinates): boolean {
+  return (
+    location.latitude >= SINGAPORE_BOUNDS.LATITUDE.min &&
+    location.latitude <= SINGAPORE_BOUNDS.LATITUDE.max &&
+    location.longitude >= SINGAPORE_BOUNDS.LONGITUDE.min &&
+    location.longitude <= SINGAPORE_BOUNDS.LONGITUDE.max
+  );
+}
+
+/**
+ * Check if the official MUIS timetable (Firebase) applies
+ *
+ * Firebase only holds Singapore times calculated with the MUIS method and
+ * Shafi Asr. Anywhere else, or with any other method/school, the times must
+ * come from Aladhan or the on-device calculator.
+ *
+ * @param profile - Calculation profile
+ * @param location - User location
+ * @returns True if Firebase times can be used
+ *
+ * @example
+ * ```ts
+ * usesOfficialMuisTimes(DEFAULT_CALCULATION_PROFILE, { latitude: 1.35, longitude: 103.82 }); // true
+ * usesOfficialMuisTimes(DEFAULT_CALCULATION_PROFILE, { latitude: 3.14, longitude: 101.69 }); // false (Kuala Lumpur)
+ * ```
+ */
+export function usesOfficialMuisTimes(
+  profile: PrayerCalculationProfile,
+  location: Coordinates
+): boolean {
+  return (
+    profile.method === CalculationMethod.SINGAPORE &&
+    profile.school === School.SHAFI &&
+    isWithinSingapore(location)
+  );
+}
+
+// ============================================================================
+// PARAMETER MAPPING
+// ============================================================================
+
+/**
+ * Aladhan `latitudeAdjustmentMethod` for a high-latitude rule
+ *
+ * @param rule - High-latitude rule
+ * @returns Aladhan value, or undefined to let Aladhan use its default
+ */
+export function getAladhanLatitudeAdjustment(rule: HighLatitudeRule): 1 | 2 | 3 | undefined {
+  switch (rule) {
+    case 'middleOfTheNight':
+      return 1;
+    case 'seventhOfTheNight':
+      return 2;
+    case 'twilightAngle':
+      return 3;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build on-device calculator parameters for a profile
+ *
+ * The Singapore method keeps the MUIS rounding and ihtiyati so it still
+ * matches the official table. User adjustments are NOT included here; apply
+ * them with `applyPrayerTimeAdjustments` so every source is treated alike.
+ *
+ * @param profile - Calculation profile
+ * @returns Parameters for `calculatePrayerTimes`
+ */
+export function getCalculationParameters(profile: PrayerCalculationProfile): CalculationParameters {
+  const asrShadowFactor = profile.school === School.HANAFI ? 2 : 1;
+
+  if (profile.method === CalculationMethod.SINGAPORE) {
+    return {
+      ...MUIS_CALCULATION_PARAMETERS,
+      asrShadowFactor,
+      highLatitudeRule: profile.highLatitudeRule,
+    };
+  }
+
+  const method =
+    CALCULATION_METHODS[profile.method as CalculationMethod] ??
+    CALCULATION_METHODS[DEFAULT_FOREIGN_CALCULATION_METHOD];
+
+  return {
+    fajrAngle: method.fajrAngle,
+    ishaAngle: method.ishaAngle,
+    ishaInterval: method.ishaInterval,
+    maghribAngle: method.maghribAngle,
+    asrShadowFactor,
+    highLatitudeRule: profile.highLatitudeRule,
+    offsets: ZERO_PRAYER_OFFSETS,
+    rounding: 'nearest',
+  };
+}
+
+// ============================================================================
+// ADJUSTMENTS
+// ============================================================================
+
+/**
+ * Check if any per-prayer adjustment is non-zero
+ */
+export function hasPrayerTimeAdjustments(adjustments: PrayerTimeOffsets): boolean {
+  return Object.values(adjustments).some((minutes) => minutes !== 0);
+}
+
+/**
+ * Shift each prayer time by the user's adjustment
+ *
+ * @param times - Prayer times (24h HH:MM)
+ * @param adjustments - Minutes to add per prayer (may be negative)
+ * @returns New prayer times object (input is not mutated)
+ *
+ * @example
+ * ```ts
+ * applyPrayerTimeAdjustments(times, { ...ZERO_PRAYER_OFFSETS, isyak: 2 });
+ * // isyak '20:25' → '20:27'
+ * ```
+ */
+export function applyPrayerTimeAdjustments(
+  times: NormalizedPrayerTimes,
+  adjustments: PrayerTimeOffsets
+): NormalizedPrayerTimes {
+  if (!hasPrayerTimeAdjustments(adjustments)) return times;
+
+  const shift = (time: string, minutes: number) => {
+    const [h, m] = time.split(':').map(Number);
+    const total = (((h * 60 + m + minutes) % 1440) + 1440) % 1440;
+    return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  };
+
+  const adjusted = { ...times };
+  for (const key of Object.keys(adjustments) as Array<keyof PrayerTimeOffsets>) {
+    const minutes = adjustments[key];
+    if (!minutes || !times[key]) continue;
+
+    adjusted[key] = shift(times[key], minutes);
+  }
+  // Imsak stays a fixed interval before Subuh
+  if (times.imsak && adjustments.subuh) {
+    adjusted.imsak = shift(times.imsak, adjustments.subuh);
+  }
+  return adjusted;
+}
+
+// ============================================================================
+// CACHE KEYS
+// ============================================================================
+
+/**
+ * Stable string for a profile, used in MMKV cache keys
+ *
+ * @example
+ * ```ts
+ * getCalculationProfileKey(DEFAULT_CALCULATION_PROFILE); // 'm11-s0-middleOfTheNight-0.0.0.0.0.0'
+ * ```
+ */
+export function getCalculationProfileKey(profile: PrayerCalculationProfile): string {
+  const a = profile.adjustments;
+  return [
+    `m${profile.method}`,
+    `s${profile.school}`,
+    profile.highLatitudeRule,
+    [a.subuh, a.syuruk, a.zohor, a.asar, a.maghrib, a.isyak].join('.'),
+  ].join('-');
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/**
+ * Suggest a method and Asr school for a country
+ *
+ * @param countryCode - ISO 3166-1 alpha-2 code (e.g. from reverse geocoding)
+ * @returns Suggested method and school
+ *
+ * @example
+ * ```ts
+ * suggestCalculationMethod('MY'); // { method: CalculationMethod.JAKIM, school: School.SHAFI }
+ * suggestCalculationMethod('PK'); // { method: CalculationMethod.KARACHI, school: School.HANAFI }
+ * ```
+ */
+export function suggestCalculationMethod(
+  countryCode: string | null | undefined
+): Pick<PrayerCalculationProfile, 'method' | 'school'> {
+  const code = countryCode?.toUpperCase() ?? '';
+  return {
+    method: COUNTRY_CALCULATION_METHODS[code] ?? DEFAULT_FOREIGN_CALCULATION_METHOD,
+    school: HANAFI_COUNTRIES.includes(code) ? School.HANAFI : School.SHAFI,
+  };
+}
+
+/**
+ * Display name for a method id
+ */
+export function getCalculationMethodName(method: number): string {
+  return CALCULATION_METHODS[method as CalculationMethod]?.name ?? `Method ${method}`;
+}
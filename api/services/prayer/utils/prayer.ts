@@ -10,8 +10,26 @@
 
 import { parseTimeToDate, cleanTimeString } from '../api/transformers';
 import { getMinutesDifference, getCurrentHour } from './date';
-import { NormalizedPrayerTimes, PrayerName, isLoggablePrayerName } from '../types/index';
-import { LOGGABLE_PRAYERS, logger, PRAYER_ORDER } from '../types/constants';
+import {
+  NormalizedPrayerTimes,
+  PrayerLog,
+  PrayerLogEntry,
+  PrayerLogEntrySchema,
+  PrayerLogHistory,
+  PrayerLogMergeConflict,
+  PrayerLogStatus,
+  PrayerName,
+  PrayerStats,
+  isLoggablePrayerName,
+} from '../types/index';
+import {
+  LOGGABLE_PRAYERS,
+  logger,
+  PRAYED_STATUSES,
+  PRAYER_ORDER,
+  PRAYER_STATUS_WEIGHTS,
+  STREAK_KEEPING_STATUSES,
+} from '../types/constants';
 
 // ============================================================================
 // CURRENT PRAYER DETERMINATION
@@ -93,6 +111,7 @@ export function getCurrentPrayer(
  * Get next prayer name and time until it
  * 
  * @param prayerTimes - Normalized prayer times
+ * @param now - Time to look ahead from (defaults to now)
  * @returns Object with next prayer name and time remaining
  * 
  * @example
@@ -104,7 +123,8 @@ export function getCurrentPrayer(
  * ```
  */
 export function getNextPrayer(
-  prayerTimes: NormalizedPrayerTimes | null
+  prayerTimes: NormalizedPrayerTimes | null,
+  now: Date = new Date()
 ): {
   prayer: PrayerName;
   time: string;
@@ -113,16 +133,20 @@ export function getNextPrayer(
 } | null {
   if (!prayerTimes) return null;
 
-  const now = new Date();
+  // Parse all prayer times on the same day as `now`
+  const onDay = (time: string) => {
+    const date = parseTimeToDate(time);
+    date?.setFullYear(now.getFullYear(), now.getMonth(), now.getDate());
+    return date!;
+  };
 
-  // Parse all prayer times
   const prayers: Array<{ name: PrayerName; time: Date }> = [
-    { name: 'Subuh', time: parseTimeToDate(prayerTimes.subuh)! },
-    { name: 'Syuruk', time: parseTimeToDate(prayerTimes.syuruk)! },
-    { name: 'Zohor', time: parseTimeToDate(prayerTimes.zohor)! },
-    { name: 'Asar', time: parseTimeToDate(prayerTimes.asar)! },
-    { name: 'Maghrib', time: parseTimeToDate(prayerTimes.maghrib)! },
-    { name: 'Isyak', time: parseTimeToDate(prayerTimes.isyak)! },
+    { name: 'Subuh', time: onDay(prayerTimes.subuh) },
+    { name: 'Syuruk', time: onDay(prayerTimes.syuruk) },
+    { name: 'Zohor', time: onDay(prayerTimes.zohor) },
+    { name: 'Asar', time: onDay(prayerTimes.asar) },
+    { name: 'Maghrib', time: onDay(prayerTimes.maghrib) },
+    { name: 'Isyak', time: onDay(prayerTimes.isyak) },
   ];
 
   // Find next prayer
@@ -130,7 +154,7 @@ export function getNextPrayer(
 
   if (!nextPrayer) {
     // All prayers passed, next is tomorrow's Subuh
-    const tomorrowSubuh = parseTimeToDate(prayerTimes.subuh)!;
+    const tomorrowSubuh = onDay(prayerTimes.subuh);
     tomorrowSubuh.setDate(tomorrowSubuh.getDate() + 1);
 
     const minutesUntil = getMinutesDifference(tomorrowSubuh, now);
@@ -348,6 +372,182 @@ export function getIslamicGreeting(): string {
   return 'Assalamualaikum';
 }
 
+// ============================================================================
+// PRAYER LOG ENTRIES
+// ============================================================================
+
+/**
+ * Build a prayer log entry
+ *
+ * Optional fields are only set when given (Firestore rejects `undefined`).
+ *
+ * @param status - Prayer status
+ * @param details - Optional mosque id / timestamp
+ * @returns Prayer log entry
+ *
+ * @example
+ * ```ts
+ * createPrayerLogEntry('congregation', { mosqueId: 'abc123' });
+ * // { status: 'congregation', loggedAt: '2026-10-18T05:50:00.000Z', mosqueId: 'abc123', updatedAt: ... }
+ * ```
+ */
+export function createPrayerLogEntry(
+  status: PrayerLogStatus,
+  details: { mosqueId?: string; loggedAt?: string } = {}
+): PrayerLogEntry {
+  return {
+    status,
+    ...(status !== 'missed' && { loggedAt: details.loggedAt ?? new Date().toISOString() }),
+    ...(details.mosqueId && { mosqueId: details.mosqueId }),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Convert a stored value into a prayer log entry
+ *
+ * Legacy logs store a boolean per prayer: `true` becomes `on_time`,
+ * `false` (or anything unreadable) becomes `missed`.
+ */
+export function toPrayerLogEntry(value: unknown): PrayerLogEntry {
+  if (value === true) return { status: 'on_time' };
+
+  const parsed = PrayerLogEntrySchema.safeParse(value);
+  return parsed.success ? parsed.data : { status: 'missed' };
+}
+
+/**
+ * Migrate a stored day of prayers to status entries
+ *
+ * @param raw - `prayerLogs.{date}` value from Firestore (booleans or entries)
+ * @returns Entries for every loggable prayer
+ *
+ * @example
+ * ```ts
+ * normalizePrayerLogPrayers({ Subuh: true, Zohor: false });
+ * // { Subuh: { status: 'on_time' }, Zohor: { status: 'missed' }, Asar: { status: 'missed' }, ... }
+ * ```
+ */
+export function normalizePrayerLogPrayers(raw: unknown): PrayerLog['prayers'] {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  return LOGGABLE_PRAYERS.reduce((acc, prayer) => {
+    acc[prayer] = toPrayerLogEntry(source[prayer]);
+    return acc;
+  }, {} as PrayerLog['prayers']);
+}
+
+/**
+ * A day with every prayer missed (nothing logged yet)
+ */
+export function createEmptyPrayerLogPrayers(): PrayerLog['prayers'] {
+  return normalizePrayerLogPrayers({});
+}
+
+/**
+ * Merge two versions of a day, prayer by prayer
+ *
+ * Last writer wins by `updatedAt`. Entries without one (legacy or never
+ * touched) are older than any timestamped entry; on a tie `base` is kept,
+ * so an untouched default never overwrites a stored status.
+ *
+ * @param base - Stored version (e.g. Firestore)
+ * @param incoming - Newer local version (e.g. outbox)
+ * @returns Merged entries
+ *
+ * @example
+ * ```ts
+ * mergePrayerLogPrayers(serverPrayers, queuedPrayers);
+ * ```
+ */
+export function mergePrayerLogPrayers(
+  base: PrayerLog['prayers'],
+  incoming: PrayerLog['prayers']
+): PrayerLog['prayers'] {
+  return LOGGABLE_PRAYERS.reduce((acc, prayer) => {
+    const current = base[prayer];
+    const next = incoming[prayer];
+    acc[prayer] = (next.updatedAt ?? '') > (current.updatedAt ?? '') ? next : current;
+    return acc;
+  }, {} as PrayerLog['prayers']);
+}
+
+/**
+ * Merge an incoming history into stored logs
+ *
+ * Days missing from `stored` are copied over; other days are merged per
+ * prayer with `mergePrayerLogPrayers`. Prayers both sides actually logged
+ * (not untouched defaults) with different statuses are reported as
+ * conflicts. Stored travel tags are kept.
+ *
+ * @param stored - Stored logs (raw `prayerLogs` map and travel tags)
+ * @param incoming - History being merged in (guest logs, backup file)
+ * @returns Entries to write for the incoming dates, plus what happened
+ *
+ * @example
+ * ```ts
+ * const { changes, conflicts } = mergePrayerLogHistory(userData, guestHistory);
+ * ```
+ */
+export function mergePrayerLogHistory(
+  stored: { prayerLogs?: Record<string, unknown>; prayerLogTravel?: PrayerLogHistory['prayerLogTravel'] },
+  incoming: PrayerLogHistory
+): {
+  changes: PrayerLogHistory;
+  addedDates: string[];
+  mergedDates: string[];
+  conflicts: PrayerLogMergeConflict[];
+} {
+  const isUntouched = (entry: PrayerLogEntry) => !entry.updatedAt && entry.status === 'missed';
+  const changes: PrayerLogHistory = { prayerLogs: {}, prayerLogTravel: {} };
+  const addedDates: string[] = [];
+  const mergedDates: string[] = [];
+  const conflicts: PrayerLogMergeConflict[] = [];
+
+  for (const date of Object.keys(incoming.prayerLogs).sort()) {
+    const local = normalizePrayerLogPrayers(incoming.prayerLogs[date]);
+    const travel = incoming.prayerLogTravel[date];
+    if (travel && !stored.prayerLogTravel?.[date]) changes.prayerLogTravel[date] = travel;
+
+    const storedDay = stored.prayerLogs?.[date];
+    if (!storedDay) {
+      changes.prayerLogs[date] = local;
+      addedDates.push(date);
+      continue;
+    }
+
+    const remote = normalizePrayerLogPrayers(storedDay);
+    const merged = mergePrayerLogPrayers(remote, local);
+    changes.prayerLogs[date] = merged;
+    mergedDates.push(date);
+
+    for (const prayer of LOGGABLE_PRAYERS) {
+      if (
+        local[prayer].status !== remote[prayer].status &&
+        !isUntouched(local[prayer]) &&
+        !isUntouched(remote[prayer])
+      ) {
+        conflicts.push({
+          date,
+          prayer,
+          local: local[prayer],
+          remote: remote[prayer],
+          kept: merged[prayer] === local[prayer] ? 'local' : 'remote',
+        });
+      }
+    }
+  }
+
+  return { changes, addedDates, mergedDates, conflicts };
+}
+
+/**
+ * Check if an entry counts as prayed
+ */
+export function isPrayerPrayed(entry: PrayerLogEntry | undefined): boolean {
+  return !!entry && PRAYED_STATUSES.includes(entry.status);
+}
+
 // ============================================================================
 // PRAYER COMPLETION
 // ============================================================================
@@ -375,56 +575,106 @@ export function calculateCompletionPercentage(
 /**
  * Check if all loggable prayers are completed
  * 
- * @param prayers - Prayer log object
- * @returns True if all 5 prayers logged
+ * Excused prayers count as completed so an excused day is not "incomplete".
+ * 
+ * @param prayers - Prayer log entries
+ * @returns True if all 5 prayers are prayed or excused
  * 
  * @example
  * ```ts
- * const log = {
+ * const log = normalizePrayerLogPrayers({
  *   Subuh: true,
  *   Zohor: true,
  *   Asar: true,
  *   Maghrib: true,
  *   Isyak: true,
- * };
+ * });
  * 
  * areAllPrayersCompleted(log) // true
  * ```
  */
 export function areAllPrayersCompleted(
-  prayers: Record<string, boolean> | undefined
+  prayers: PrayerLog['prayers'] | undefined
 ): boolean {
   if (!prayers) return false;
 
-  return LOGGABLE_PRAYERS.every((prayer: any) => prayers[prayer] === true);
+  return LOGGABLE_PRAYERS.every(
+    (prayer) => isPrayerPrayed(prayers[prayer]) || prayers[prayer]?.status === 'excused'
+  );
+}
+
+/**
+ * Check if a day keeps the streak alive
+ * 
+ * Every prayer must be on time, in congregation, late or excused. Qadha
+ * (made up after its time) breaks the streak.
+ * 
+ * @param prayers - Prayer log entries
+ * @returns True if the day counts towards a streak
+ */
+export function keepsPrayerStreak(
+  prayers: PrayerLog['prayers'] | undefined
+): boolean {
+  if (!prayers) return false;
+
+  return LOGGABLE_PRAYERS.every((prayer) =>
+    STREAK_KEEPING_STATUSES.includes(prayers[prayer]?.status ?? 'missed')
+  );
 }
 
 /**
  * Get missed prayers for a day
  * 
- * @param prayers - Prayer log object
- * @returns Array of missed prayer names
+ * @param prayers - Prayer log entries
+ * @returns Array of missed prayer names (excused prayers are not missed)
  */
 export function getMissedPrayers(
-  prayers: Record<string, boolean> | undefined
+  prayers: PrayerLog['prayers'] | undefined
 ): string[] {
   if (!prayers) return [...LOGGABLE_PRAYERS];
 
-  return LOGGABLE_PRAYERS.filter((prayer: any) => !prayers[prayer]);
+  return LOGGABLE_PRAYERS.filter((prayer) => (prayers[prayer]?.status ?? 'missed') === 'missed');
 }
 
 /**
  * Get completed prayers count
  * 
- * @param prayers - Prayer log object
- * @returns Number of completed prayers (0-5)
+ * @param prayers - Prayer log entries
+ * @returns Number of prayed prayers (0-5)
  */
 export function getCompletedPrayersCount(
-  prayers: Record<string, boolean> | undefined
+  prayers: PrayerLog['prayers'] | undefined
 ): number {
   if (!prayers) return 0;
 
-  return LOGGABLE_PRAYERS.filter((prayer: any) => prayers[prayer] === true).length;
+  return LOGGABLE_PRAYERS.filter((prayer) => isPrayerPrayed(prayers[prayer])).length;
+}
+
+/**
+ * Weighted score for a day
+ * 
+ * @param prayers - Prayer log entries
+ * @returns Sum of status weights and the number of weighted (non-excused) prayers
+ * 
+ * @example
+ * ```ts
+ * // on_time, late, qadha, missed, excused
+ * getPrayerLogScore(prayers) // { score: 2.25, counted: 4 }
+ * ```
+ */
+export function getPrayerLogScore(
+  prayers: PrayerLog['prayers'] | undefined
+): { score: number; counted: number } {
+  if (!prayers) return { score: 0, counted: LOGGABLE_PRAYERS.length };
+
+  return LOGGABLE_PRAYERS.reduce(
+    (acc, prayer) => {
+      const weight = PRAYER_STATUS_WEIGHTS[prayers[prayer]?.status ?? 'missed'];
+      if (weight === null) return acc;
+      return { score: acc.score + weight, counted: acc.counted + 1 };
+    },
+    { score: 0, counted: 0 }
+  );
 }
 
 // ============================================================================
@@ -434,25 +684,27 @@ export function getCompletedPrayersCount(
 /**
  * Calculate prayer streak from logs
  * 
- * A streak continues when all 5 prayers are completed each day.
- * Breaks if any day is incomplete or there's a gap.
+ * A streak continues while every prayer of a day is on time, in
+ * congregation, late or excused (see `keepsPrayerStreak`).
+ * Breaks if any day falls short or there's a gap.
  * 
- * @param logs - Object with date keys and prayer completion values
+ * @param logs - Object with date keys and prayer log entries
  * @returns Object with current and longest streak
  * 
  * @example
  * ```ts
+ * const full = { Subuh: true, Zohor: true, Asar: true, Maghrib: true, Isyak: true };
  * const logs = {
- *   '2025-12-20': { Subuh: true, Zohor: true, Asar: true, Maghrib: true, Isyak: true },
- *   '2025-12-21': { Subuh: true, Zohor: true, Asar: true, Maghrib: true, Isyak: true },
- *   '2025-12-22': { Subuh: true, Zohor: false, Asar: false, Maghrib: false, Isyak: false },
+ *   '2025-12-20': normalizePrayerLogPrayers(full),
+ *   '2025-12-21': normalizePrayerLogPrayers(full),
+ *   '2025-12-22': normalizePrayerLogPrayers({ Subuh: true }),
  * };
  * 
  * calculateStreak(logs) // { currentStreak: 0, longestStreak: 2 }
  * ```
  */
 export function calculateStreak(
-  logs: Record<string, Record<string, boolean>>
+  logs: Record<string, PrayerLog['prayers']>
 ): {
   currentStreak: number;
   longestStreak: number;
@@ -469,7 +721,7 @@ export function calculateStreak(
 
   sortedDates.forEach((date, index) => {
     const prayers = logs[date];
-    const isComplete = areAllPrayersCompleted(prayers);
+    const isComplete = keepsPrayerStreak(prayers);
 
     if (date === todayStr) {
       todayCompleted = isComplete;
@@ -496,6 +748,74 @@ export function calculateStreak(
   return { currentStreak, longestStreak, todayCompleted };
 }
 
+/**
+ * Summarize stored prayer logs into statistics
+ * 
+ * Logs are migrated with `normalizePrayerLogPrayers` first, so raw
+ * `prayerLogs` maps (Firestore or local guest storage) can be passed as is.
+ * 
+ * @param prayerLogs - Stored logs keyed by YYYY-MM-DD
+ * @returns Totals, weighted completion rate, streaks and status counts
+ * 
+ * @example
+ * ```ts
+ * const stats = summarizePrayerLogs(userData.prayerLogs ?? {});
+ * console.log(`${stats.completionRate}% completion rate`);
+ * ```
+ */
+export function summarizePrayerLogs(
+  prayerLogs: Record<string, unknown>
+): Omit<PrayerStats, 'lastUpdated'> {
+  let totalPrayers = 0;
+  let completedPrayers = 0;
+  let weightedScore = 0;
+  let weightedPrayers = 0;
+  const statusCounts: Record<PrayerLogStatus, number> = {
+    on_time: 0,
+    congregation: 0,
+    late: 0,
+    qadha: 0,
+    excused: 0,
+    missed: 0,
+  };
+  let currentStreak = 0;
+  let longestStreak = 0;
+  let tempStreak = 0;
+
+  Object.keys(prayerLogs).sort().forEach((date) => {
+    const prayers = normalizePrayerLogPrayers(prayerLogs[date]);
+    const entries = Object.values(prayers);
+    const { score, counted } = getPrayerLogScore(prayers);
+
+    totalPrayers += entries.length;
+    completedPrayers += getCompletedPrayersCount(prayers);
+    weightedScore += score;
+    weightedPrayers += counted;
+    entries.forEach((entry) => {
+      statusCounts[entry.status]++;
+    });
+
+    // Excused prayers keep the streak; qadha/missed break it
+    if (keepsPrayerStreak(prayers)) {
+      tempStreak++;
+      currentStreak = tempStreak;
+      longestStreak = Math.max(longestStreak, tempStreak);
+    } else {
+      tempStreak = 0;
+      currentStreak = 0;
+    }
+  });
+
+  return {
+    totalPrayers,
+    completedPrayers,
+    currentStreak,
+    longestStreak,
+    completionRate: weightedPrayers > 0 ? Math.round((weightedScore / weightedPrayers) * 100) : 0,
+    statusCounts,
+  };
+}
+
 // ============================================================================
 // VALIDATION
 // ============================================================================
@@ -523,7 +843,7 @@ export function validatePrayerTimes(times: any): times is NormalizedPrayerTimes
 /**
  * Validate prayer log object
  * 
- * Checks that all loggable prayers are present with boolean values
+ * Checks that all loggable prayers are present with valid status entries
  * 
  * @param prayers - Prayer log object
  * @returns True if valid
@@ -532,7 +852,7 @@ export function validatePrayerLog(prayers: any): boolean {
   if (!prayers || typeof prayers !== 'object') return false;
 
   return LOGGABLE_PRAYERS.every((prayer: any) => {
-    return prayer in prayers && typeof prayers[prayer] === 'boolean';
+    return prayer in prayers && PrayerLogEntrySchema.safeParse(prayers[prayer]).success;
   });
 }
 
@@ -0,0 +1,210 @@
+/**
+ * Qadha Ledger Utilities
+ *
+ * Pure helpers for the qadha (missed prayer) ledger: counting missed prayers
+ * from logs, working out what is still outstanding, converting a bulk
+ * backlog estimate into prayer counts and projecting the payoff date.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { addDays, format, subDays } from 'date-fns';
+import {
+  LoggablePrayerName,
+  PrayerLog,
+  QadhaCounts,
+  QadhaLedger,
+  QadhaPayoffProjection,
+} from '../types/index';
+import {
+  DATE_FORMATS,
+  LOGGABLE_PRAYERS,
+  QADHA_BACKLOG_UNIT_DAYS,
+  QADHA_RATE_WINDOW_DAYS,
+} from '../types/constants';
+import { getMissedPrayers } from './prayer';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Zero count for every prayer
+ */
+export const EMPTY_QADHA_COUNTS: QadhaCounts = {
+  Subuh: 0,
+  Zohor: 0,
+  Asar: 0,
+  Maghrib: 0,
+  Isyak: 0,
+};
+
+export type QadhaBacklogUnit = keyof typeof QADHA_BACKLOG_UNIT_DAYS;
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Create an empty ledger for a user
+ */
+export function createEmptyQadhaLedger(userId: string): QadhaLedger {
+  return {
+    userId,
+    missed: { ...EMPTY_QADHA_COUNTS },
+    declared: { ...EMPTY_QADHA_COUNTS },
+    madeUp: { ...EMPTY_QADHA_COUNTS },
+    makeups: {},
+    syncedThrough: null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Count missed prayers from logs
+ *
+ * Only dates that have a log are counted: days the app was not used are
+ * unknown and left to a bulk declaration. The day being prayed (and any
+ * later date) is skipped since its prayers may still be logged.
+ *
+ * @param logs - Prayer logs keyed by YYYY-MM-DD
+ * @param beforeDate - First date NOT to count (default: today)
+ * @returns Missed count per prayer and the last date counted
+ *
+ * @example
+ * ```ts
+ * countMissedPrayers({ '2026-10-01': { Subuh: { status: 'missed' }, ... } }, '2026-10-18');
+ * // { missed: { Subuh: 1, ... }, syncedThrough: '2026-10-01' }
+ * ```
+ */
+export function countMissedPrayers(
+  logs: Record<string, PrayerLog['prayers']>,
+  beforeDate: string = format(new Date(), DATE_FORMATS.ISO)
+): { missed: QadhaCounts; syncedThrough: string | null } {
+  const missed = { ...EMPTY_QADHA_COUNTS };
+  let syncedThrough: string | null = null;
+
+  for (const [date, prayers] of Object.entries(logs)) {
+    if (date >= beforeDate) continue;
+
+    for (const prayer of getMissedPrayers(prayers)) {
+      missed[prayer as LoggablePrayerName] += 1;
+    }
+    if (!syncedThrough || date > syncedThrough) syncedThrough = date;
+  }
+
+  return { missed, syncedThrough };
+}
+
+/**
+ * Outstanding qadha per prayer
+ *
+ * @param ledger - Qadha ledger
+ * @returns `missed + declared - madeUp` per prayer, floored at zero
+ */
+export function getOutstandingQadha(ledger: QadhaLedger): QadhaCounts {
+  return LOGGABLE_PRAYERS.reduce((acc, prayer) => {
+    acc[prayer] = Math.max(
+      0,
+      ledger.missed[prayer] + ledger.declared[prayer] - ledger.madeUp[prayer]
+    );
+    return acc;
+  }, { ...EMPTY_QADHA_COUNTS });
+}
+
+/**
+ * Total of a counts object
+ */
+export function sumQadhaCounts(counts: Partial<QadhaCounts>): number {
+  return Object.values(counts).reduce((sum, value) => sum + (value ?? 0), 0);
+}
+
+// ============================================================================
+// BACKLOG
+// ============================================================================
+
+/**
+ * Convert a backlog estimate into a prayer count
+ *
+ * @param amount - Number of units (e.g. 3)
+ * @param unit - Unit of the estimate
+ * @returns Number of prayers (one per day)
+ *
+ * @example
+ * ```ts
+ * estimateQadhaBacklog(3, 'years'); // 1095 ("3 years of Subuh")
+ * ```
+ */
+export function estimateQadhaBacklog(amount: number, unit: QadhaBacklogUnit): number {
+  if (!Number.isFinite(amount) || amount <= 0) return 0;
+  return Math.round(amount * QADHA_BACKLOG_UNIT_DAYS[unit]);
+}
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Average makeups per day over the recent window
+ *
+ * @param ledger - Qadha ledger
+ * @param today - Reference date (default: now)
+ * @returns Makeups per day over the last QADHA_RATE_WINDOW_DAYS days
+ */
+export function getQadhaMakeupRate(ledger: QadhaLedger, today: Date = new Date()): number {
+  const windowStart = format(subDays(today, QADHA_RATE_WINDOW_DAYS - 1), DATE_FORMATS.ISO);
+  const end = format(today, DATE_FORMATS.ISO);
+
+  const total = Object.entries(ledger.makeups)
+    .filter(([date]) => date >= windowStart && date <= end)
+    .reduce((sum, [, counts]) => sum + sumQadhaCounts(counts), 0);
+
+  return total / QADHA_RATE_WINDOW_DAYS;
+}
+
+/**
+ * Project when the backlog will be paid off
+ *
+ * @param ledger - Qadha ledger
+ * @param dailyRate - Makeups per day (default: recent average)
+ * @param today - Reference date (default: now)
+ * @returns Outstanding counts and the projected payoff date
+ *
+ * @example
+ * ```ts
+ * const projection = projectQadhaPayoff(ledger, 5);
+ * console.log(projection.projectedDate); // '2027-03-02'
+ * ```
+ */
+export function projectQadhaPayoff(
+  ledger: QadhaLedger,
+  dailyRate: number = getQadhaMakeupRate(ledger),
+  today: Date = new Date()
+): QadhaPayoffProjection {
+  const outstanding = getOutstandingQadha(ledger);
+  const totalOutstanding = sumQadhaCounts(outstanding);
+
+  if (totalOutstanding === 0) {
+    return {
+      outstanding,
+      totalOutstanding,
+      dailyRate,
+      daysRemaining: 0,
+      projectedDate: format(today, DATE_FORMATS.ISO),
+    };
+  }
+
+  if (dailyRate <= 0) {
+    return { outstanding, totalOutstanding, dailyRate, daysRemaining: null, projectedDate: null };
+  }
+
+  const daysRemaining = Math.ceil(totalOutstanding / dailyRate);
+  return {
+    outstanding,
+    totalOutstanding,
+    dailyRate,
+    daysRemaining,
+    projectedDate: format(addDays(today, daysRemaining), DATE_FORMATS.ISO),
+  };
+}
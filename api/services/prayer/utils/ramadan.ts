@@ -0,0 +1,162 @@
+/**
+ * Ramadan Utilities
+ *
+ * Pure helpers for Ramadan mode: detecting Ramadan from the Hijri date,
+ * imsak/iftar times and countdowns, and summarising the fasting log.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { addDays, format } from 'date-fns';
+import {
+  FastingCountdown,
+  FastingExcuseReason,
+  FastingLogEntry,
+  IslamicDateConversion,
+  NormalizedPrayerTimes,
+} from '../types/index';
+import { DATE_FORMATS, IMSAK_OFFSET_MINUTES, RAMADAN_HIJRI_MONTH } from '../types/constants';
+import { parseTimeToDate } from '../api/transformers';
+import { getMinutesDifference } from './date';
+import { formatMinutesToTimeString } from './prayer';
+
+// ============================================================================
+// RAMADAN DETECTION
+// ============================================================================
+
+/**
+ * Hijri month number (1-12) of a converted date
+ *
+ * Reads the numeric month of `hijri.date` (DD-MM-YYYY), falling back to the
+ * month name for Ramadan (Aladhan spells it "Ramaḍān").
+ */
+export function getHijriMonthNumber(hijri: IslamicDateConversion['hijri']): number | null {
+  const month = Number(hijri.date?.split('-')[1]);
+  if (month >= 1 && month <= 12) return month;
+
+  const name = hijri.month.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  return name.startsWith('ramad') ? RAMADAN_HIJRI_MONTH : null;
+}
+
+/**
+ * Day of Ramadan (1-30), or null outside Ramadan
+ *
+ * @example
+ * ```ts
+ * const { data } = useTodayIslamicDate();
+ * const day = getRamadanDay(data); // 15
+ * ```
+ */
+export function getRamadanDay(conversion: IslamicDateConversion | null | undefined): number | null {
+  if (!conversion || getHijriMonthNumber(conversion.hijri) !== RAMADAN_HIJRI_MONTH) return null;
+
+  const day = parseInt(conversion.hijri.day, 10);
+  return Number.isNaN(day) ? null : day;
+}
+
+/**
+ * Gregorian dates still in Ramadan, starting from a known Ramadan day
+ *
+ * Ramadan has 29 or 30 days; day 30 is only included when it is `start`
+ * itself, so nothing is scheduled for a possible Hari Raya.
+ *
+ * @param start - Date whose Ramadan day is known
+ * @param ramadanDay - Ramadan day of `start`
+ * @param days - How many days ahead to consider
+ * @returns Dates (YYYY-MM-DD) from `start` that fall in Ramadan
+ */
+export function getRamadanDatesAhead(start: Date, ramadanDay: number, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => i)
+    .filter((i) => i === 0 || ramadanDay + i <= 29)
+    .map((i) => format(addDays(start, i), DATE_FORMATS.ISO));
+}
+
+// ============================================================================
+// IMSAK / IFTAR
+// ============================================================================
+
+/**
+ * Imsak time for a day
+ *
+ * Uses the source's Imsak when it has one (Aladhan), otherwise
+ * `IMSAK_OFFSET_MINUTES` before Subuh.
+ */
+export function getImsakTime(times: NormalizedPrayerTimes): string {
+  if (times.imsak) return times.imsak;
+
+  const [h, m] = times.subuh.split(':').map(Number);
+  const total = (h * 60 + m - IMSAK_OFFSET_MINUTES + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Next fasting milestone
+ *
+ * Before Imsak counts down to Imsak (end of sahur); between Imsak and
+ * Maghrib to iftar; after Maghrib to tomorrow's Imsak.
+ *
+ * @param times - Today's prayer times
+ * @param now - Current time
+ * @returns Countdown, or null if the times cannot be parsed
+ */
+export function getFastingCountdown(
+  times: NormalizedPrayerTimes,
+  now: Date = new Date()
+): FastingCountdown | null {
+  const imsak = getImsakTime(times);
+  const imsakAt = parseTimeToDate(imsak);
+  const iftarAt = parseTimeToDate(times.maghrib);
+  if (!imsakAt || !iftarAt) return null;
+
+  let event: FastingCountdown['event'] = 'imsak';
+  let target = imsakAt;
+
+  if (now >= imsakAt && now < iftarAt) {
+    event = 'iftar';
+    target = iftarAt;
+  } else if (now >= iftarAt) {
+    target = addDays(imsakAt, 1);
+  }
+
+  const minutesUntil = getMinutesDifference(target, now);
+
+  return {
+    event,
+    time: event === 'iftar' ? times.maghrib : imsak,
+    minutesUntil,
+    timeUntil: formatMinutesToTimeString(minutesUntil),
+  };
+}
+
+// ============================================================================
+// FASTING LOG
+// ============================================================================
+
+/**
+ * Fasting log totals for one Ramadan (or all, without `hijriYear`)
+ */
+export function summarizeFastingLog(
+  log: Record<string, FastingLogEntry>,
+  hijriYear?: string
+): {
+  fasted: number;
+  missed: number;
+  excused: Record<FastingExcuseReason, number>;
+} {
+  const summary = {
+    fasted: 0,
+    missed: 0,
+    excused: { haid: 0, illness: 0, travel: 0, pregnancy: 0, nursing: 0, old_age: 0, other: 0 },
+  };
+
+  Object.values(log)
+    .filter((entry) => !hijriYear || entry.hijriYear === hijriYear)
+    .forEach((entry) => {
+      if (entry.status === 'fasted') summary.fasted++;
+      if (entry.status === 'missed') summary.missed++;
+      if (entry.status === 'excused') summary.excused[entry.reason ?? 'other']++;
+    });
+
+  return summary;
+}
@@ -0,0 +1,115 @@
+/**
+ * Reminder Utilities
+ *
+ * Pure helpers for per-prayer reminder rules: which rules apply on a day,
+ * Friday Zohor as Jumaat (and when to leave for it), and labels for the
+ * settings screen.
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import { JumaatTravelMode, LocalPrayerName, PrayerReminderRule } from '../types/index';
+import {
+  JUMAAT_ROUTE_FACTOR,
+  JUMAAT_TRAVEL_MODES,
+  JUMAAT_WEEKDAY,
+  WEEKDAY_LABELS,
+} from '../types/constants';
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Reminder rules that apply to a prayer on a date
+ *
+ * A prayer without its own rules uses the default offset every day
+ * (0 = no reminder). Rules are returned earliest reminder first.
+ *
+ * @param rules - The prayer's rules (undefined = use the default)
+ * @param defaultMinutes - Default reminder offset
+ * @param date - Day being scheduled
+ */
+export function getReminderRulesForDay(
+  rules: PrayerReminderRule[] | undefined,
+  defaultMinutes: number,
+  date: Date
+): PrayerReminderRule[] {
+  if (!rules) {
+    return defaultMinutes > 0 ? [{ id: 'default', minutesBefore: defaultMinutes, weekdays: [] }] : [];
+  }
+
+  const weekday = date.getDay();
+  return rules
+    .filter((rule) => rule.minutesBefore > 0)
+    .filter((rule) => rule.weekdays.length === 0 || rule.weekdays.includes(weekday))
+    .sort((a, b) => b.minutesBefore - a.minutesBefore);
+}
+
+// ============================================================================
+// JUMAAT
+// ============================================================================
+
+/**
+ * Whether a prayer on a date is Jumaat (Zohor on Friday)
+ */
+export function isJumaat(prayer: LocalPrayerName, date: Date): boolean {
+  return prayer === 'Zohor' && date.getDay() === JUMAAT_WEEKDAY;
+}
+
+/**
+ * Name to show for a prayer on a date ("Jumaat" for Friday Zohor)
+ */
+export function getPrayerDisplayName(prayer: LocalPrayerName, date: Date): string {
+  return isJumaat(prayer, date) ? 'Jumaat' : prayer;
+}
+
+/**
+ * Rough door-to-door travel time to a mosque
+ *
+ * @param distanceKm - Straight-line distance
+ * @param mode - How the user travels
+ * @returns Whole minutes, at least 1
+ */
+export function estimateJumaatTravelMinutes(distanceKm: number, mode: JumaatTravelMode): number {
+  const { kmPerHour, overheadMinutes } = JUMAAT_TRAVEL_MODES[mode];
+  const minutes = ((distanceKm * JUMAAT_ROUTE_FACTOR) / kmPerHour) * 60 + overheadMinutes;
+  return Math.max(1, Math.ceil(minutes));
+}
+
+/**
+ * When to leave so the user arrives `arriveMinutesBefore` ahead of Zohor
+ */
+export function getJumaatLeaveTime(zohor: Date, travelMinutes: number, arriveMinutesBefore: number): Date {
+  return new Date(zohor.getTime() - (travelMinutes + arriveMinutesBefore) * 60 * 1000);
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+/**
+ * Describe a weekday filter
+ *
+ * @example
+ * ```ts
+ * formatWeekdays([]) // "Every day"
+ * formatWeekdays([1, 2, 3, 4, 5]) // "Weekdays"
+ * formatWeekdays([5]) // "Fri"
+ * ```
+ */
+export function formatWeekdays(weekdays: number[]): string {
+  const days = [...new Set(weekdays)].sort();
+  if (days.length === 0 || days.length === 7) return 'Every day';
+  if (days.join() === '1,2,3,4,5') return 'Weekdays';
+  if (days.join() === '0,6') return 'Weekends';
+  return days.map((day) => WEEKDAY_LABELS[day]).join(', ');
+}
+
+/**
+ * One-line summary of a rule, e.g. "30 min before · Weekdays"
+ */
+export function formatReminderRule(rule: Pick<PrayerReminderRule, 'minutesBefore' | 'weekdays'>): string {
+  return `${rule.minutesBefore} min before · ${formatWeekdays(rule.weekdays)}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Travel (Safar) Utilities
+ *
+ * Helpers for travel mode: deciding whether a location counts as travel,
+ * computing jamak (combined prayer) windows and tagging prayer logs recorded
+ * while travelling.
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import {
+  Coordinates,
+  LoggablePrayerName,
+  NormalizedPrayerTimes,
+  PrayerLog,
+  PrayerLogTravelTag,
+} from '../types/index';
+import { JAMAK_PAIRS, QASAR_PRAYERS, TRAVEL_DISTANCE_THRESHOLD_KM } from '../types/constants';
+import { isPrayerPrayed } from './prayer';
+import { calculateDistanceBetween } from './qibla';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Window in which a jamak pair may be prayed together
+ */
+export interface JamakWindow {
+  prayers: readonly [LoggablePrayerName, LoggablePrayerName];
+  start: string; // HH:MM (start of the first prayer)
+  end: string; // HH:MM (start of the following prayer)
+  endsNextDay: boolean; // Maghrib + Isyak runs until Subuh
+}
+
+// ============================================================================
+// DISTANCE
+// ============================================================================
+
+/**
+ * Check whether a location is far enough from home to count as travel
+ *
+ * @param home - Home coordinates
+ * @param current - Current coordinates
+ * @returns Distance from home (km) and whether it passes the threshold
+ *
+ * @example
+ * ```ts
+ * getTravelStatus(SINGAPORE, KUALA_LUMPUR); // { distanceKm: 316, isTravelling: true }
+ * ```
+ */
+export function getTravelStatus(
+  home: Coordinates,
+  current: Coordinates
+): { distanceKm: number; isTravelling: boolean } {
+  const distanceKm = calculateDistanceBetween(home, current);
+  return { distanceKm, isTravelling: distanceKm > TRAVEL_DISTANCE_THRESHOLD_KM };
+}
+
+// ============================================================================
+// JAMAK WINDOWS
+// ============================================================================
+
+/**
+ * Combined prayer windows for a day
+ *
+ * Zohor + Asar may be prayed together from Zohor until Maghrib, and
+ * Maghrib + Isyak from Maghrib until Subuh. The next day's Subuh is not
+ * known here, so today's Subuh is used as the approximate end.
+ *
+ * @param times - Prayer times for the day
+ * @returns Jamak windows in prayer order
+ */
+export function getJamakWindows(times: NormalizedPrayerTimes): JamakWindow[] {
+  return [
+    {
+      prayers: JAMAK_PAIRS[0],
+      start: times.zohor,
+      end: times.maghrib,
+      endsNextDay: false,
+    },
+    {
+      prayers: JAMAK_PAIRS[1],
+      start: times.maghrib,
+      end: times.subuh,
+      endsNextDay: true,
+    },
+  ];
+}
+
+// ============================================================================
+// LOG TAGGING
+// ============================================================================
+
+/**
+ * Qasar / jamak choice made by the user while logging a prayer
+ */
+export interface TravelLogChoice {
+  prayer: LoggablePrayerName;
+  shortened?: boolean;
+  combined?: boolean;
+}
+
+/**
+ * Build the travel tag for a prayer log recorded during a travel session
+ *
+ * Being on a journey does not mean the prayers were shortened or combined,
+ * so the flags only ever come from an explicit choice in the log UI. Choices
+ * on the previous tag are kept, minus prayers that are no longer logged.
+ *
+ * @param prayers - Logged prayers for the day
+ * @param sessionId - Travel session id
+ * @param destination - Optional destination label
+ * @param previous - Tag already stored on the log, if any
+ * @param choice - Qasar/jamak choice for one prayer, if the user made one
+ * @returns Travel tag, or undefined when nothing was logged
+ *
+ * @example
+ * ```ts
+ * buildTravelTag(prayers, session.id, 'Kuala Lumpur', log.travel, { prayer: 'Asar', shortened: true });
+ * ```
+ */
+export function buildTravelTag(
+  prayers: PrayerLog['prayers'],
+  sessionId: string,
+  destination?: string,
+  previous?: PrayerLogTravelTag,
+  choice?: TravelLogChoice
+): PrayerLogTravelTag | undefined {
+  if (!Object.values(prayers).some(isPrayerPrayed)) return undefined;
+
+  const apply = (flagged: readonly string[], prayer: string, on: boolean | undefined) => {
+    const next = new Set(flagged);
+    if (on === true) next.add(prayer);
+    if (on === false) next.delete(prayer);
+    return next;
+  };
+
+  const shortened = apply(previous?.shortened ?? [], choice?.prayer ?? '', choice?.shortened);
+  const combined = apply(previous?.combined ?? [], choice?.prayer ?? '', choice?.combined);
+
+  return {
+    sessionId,
+    ...(destination && { destination }),
+    shortened: QASAR_PRAYERS.filter((prayer) => shortened.has(prayer) && isPrayerPrayed(prayers[prayer])),
+    combined: JAMAK_PAIRS.flat().filter((prayer) => combined.has(prayer) && isPrayerPrayed(prayers[prayer])),
+  };
+}
@@ -6,16 +6,20 @@
  * - Uses MMKV cache via your CacheService (cache, TTL)
  * - Offline behavior: return cache if present, otherwise throw
  * - Comprehensive logging for cache hits, Firestore operations, offline mode
+ * - Whole-Quran offline download (`cacheSurahForOffline`) into the same cache
+ * - Further translation editions and transliteration live in `./translations`
+ * - Ayah references by number or surah name (`parseAyahReference`)
  *
- * @version 2.0 - Structured Logging Migration
+ * @version 2.3 - Named ayah references
  */
 
 import firestore from '@react-native-firebase/firestore';
 import NetInfo from '@react-native-community/netinfo';
 import { useEffect, useState } from 'react';
 import { UseQueryOptions, useQuery, useQueryClient, useSuspenseQuery } from '@tanstack/react-query';
-import { cache, TTL } from '../../client/storage';
+import { cache, cacheStorage, TTL, utf8ByteLength } from '../../client/storage';
 import { logger } from '../../../services/logging/logger';
+import { surahMeta } from '../../../data/surahMeta';
 
 // ============================================================================
 // FIRESTORE CONFIG
@@ -80,7 +84,7 @@ interface FirestoreSurahDoc {
 export const EDITIONS = {
   ARABIC: 'ar.alafasy',
   ENGLISH: 'en.sahih',
-  TRANSLITERATION: 'en.transliteration', // not supported by your doc unless you add it
+  TRANSLITERATION: 'en.transliteration', // from alquran.cloud, see ./translations
 } as const;
 
 export const TOTAL_SURAHS = 114;
@@ -97,8 +101,27 @@ export const QURAN_QUERY_KEYS = {
     ['quran', 'surah', number, edition] as const,
   surahWithTranslation: (number: number) =>
     ['quran', 'surah', number, 'with-translation'] as const,
+  surahEdition: (number: number, edition: string) =>
+    ['quran', 'surah', number, 'edition', edition] as const,
+  edition: (edition: string) => ['quran', 'edition', edition] as const,
 };
 
+// ============================================================================
+// CACHE KEYS
+// ============================================================================
+
+/** MMKV cache keys; the offline download writes the same entries the hooks read. */
+export const QURAN_CACHE_KEYS = {
+  surahs: 'quran-surahs',
+  surah: (number: number, edition: string) => `quran-surah-${number}-${edition}`,
+  surahWithTranslation: (number: number) => `quran-surah-${number}-with-translation`,
+  /** Plain ayah texts of a translation or transliteration edition */
+  surahEdition: (number: number, edition: string) => `quran-surah-${number}-text-${edition}`,
+};
+
+// Quran text never changes; entries are kept for a year
+export const QURAN_CACHE_TTL = TTL.ONE_MONTH * 12;
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -559,6 +582,7 @@ export async function fetchSurahDetail(
 /**
  * Fetch a surah with both Arabic and English translation
  * Optimized to fetch single doc and parse both editions
+ * Cache-first, so search and the reader work from a downloaded Quran
  */
 export async function fetchSurahWithTranslation(
   surahNumber: number
@@ -575,6 +599,17 @@ export async function fetchSurahWithTranslation(
     throw new Error(`Invalid surah number: ${surahNumber}`);
   }
 
+  const cacheKey = QURAN_CACHE_KEYS.surahWithTranslation(surahNumber);
+  const cached = cache.get<SurahWithTranslation>(cacheKey);
+  if (cached?.arabic?.ayahs && cached?.translation?.ayahs) {
+    logger.debug('Surah with translation served from cache', {
+      source: 'MMKV',
+      surahNumber,
+      operation: 'fetch-surah-with-translation',
+    });
+    return cached;
+  }
+
   logger.debug('Initiating surah with translation fetch', {
     surahNumber,
     editions: [EDITIONS.ARABIC, EDITIONS.ENGLISH],
@@ -613,6 +648,7 @@ export async function fetchSurahWithTranslation(
     }
 
     const result = { arabic, translation };
+    cache.set(cacheKey, result, QURAN_CACHE_TTL);
 
     logger.success('Surah with translation fetched from Firestore', {
       source: 'Firestore',
@@ -641,6 +677,54 @@ export async function fetchSurahWithTranslation(
   }
 }
 
+// ============================================================================
+// OFFLINE
+// ============================================================================
+
+/**
+ * Whether a surah's Arabic, translation and combined entries are all cached
+ * (key check only, without parsing the entries)
+ */
+export function isSurahCachedOffline(surahNumber: number): boolean {
+  return (
+    cacheStorage.contains(QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ARABIC)) &&
+    cacheStorage.contains(QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ENGLISH)) &&
+    cacheStorage.contains(QURAN_CACHE_KEYS.surahWithTranslation(surahNumber))
+  );
+}
+
+/**
+ * Download a surah for offline reading
+ *
+ * One Firestore read fills every cache entry the reader, search and
+ * translation views look up.
+ */
+export async function cacheSurahForOffline(surahNumber: number): Promise<void> {
+  const { arabic, translation } = await fetchSurahWithTranslation(surahNumber);
+  cache.set(QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ARABIC), arabic, QURAN_CACHE_TTL);
+  cache.set(QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ENGLISH), translation, QURAN_CACHE_TTL);
+}
+
+/**
+ * Size of a surah's cached entries in bytes (0 when not cached)
+ */
+export function getSurahOfflineCacheSize(surahNumber: number): number {
+  return [
+    QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ARABIC),
+    QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ENGLISH),
+    QURAN_CACHE_KEYS.surahWithTranslation(surahNumber),
+  ].reduce((total, key) => total + utf8ByteLength(cacheStorage.getString(key) ?? ''), 0);
+}
+
+/**
+ * Remove a surah's cached text (the surah list is kept)
+ */
+export function clearSurahOfflineCache(surahNumber: number): void {
+  cache.clear(QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ARABIC));
+  cache.clear(QURAN_CACHE_KEYS.surah(surahNumber, EDITIONS.ENGLISH));
+  cache.clear(QURAN_CACHE_KEYS.surahWithTranslation(surahNumber));
+}
+
 // ============================================================================
 // HOOKS - ALL SURAHS
 // ============================================================================
@@ -1268,17 +1352,54 @@ export function formatAyahReference(surahNumber: number, ayahNumber: number): st
   return `${surahNumber}:${ayahNumber}`;
 }
 
+// "Al-Baqarah" / "al baqarah" / "Baqara" -> "baqara"
+function surahNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/^(al|an|ar|as|at|ad|adh|az|ash)[-\s]+/, '')
+    .replace(/[^a-z]/g, '')
+    .replace(/h$/, '');
+}
+
+const SURAH_NAME_KEYS = surahMeta.map((meta) => surahNameKey(meta.name));
+
+/**
+ * Resolve a typed surah name to its number: an exact match first, otherwise
+ * the first surah whose name starts with it (at least 3 letters)
+ */
+export function findSurahByName(name: string): number | null {
+  const key = surahNameKey(name.trim());
+  if (key.length < 3) return null;
+
+  const exact = SURAH_NAME_KEYS.indexOf(key);
+  if (exact !== -1) return exact + 1;
+  const prefix = SURAH_NAME_KEYS.findIndex((k) => k.startsWith(key));
+  return prefix === -1 ? null : prefix + 1;
+}
+
+/**
+ * Parse an ayah reference: "2:255", "2 255", "2.255", "al-baqarah 255",
+ * "Baqarah:255", or a surah name alone ("al-kahf", which means ayah 1)
+ *
+ * Returns null when the text is not a reference or points past the surah.
+ */
 export function parseAyahReference(reference: string): {
   surahNumber: number;
   ayahNumber: number;
 } | null {
-  const match = reference.match(/^(\d+):(\d+)$/);
-  if (!match) return null;
+  const text = reference.trim();
 
-  return {
-    surahNumber: parseInt(match[1], 10),
-    ayahNumber: parseInt(match[2], 10),
-  };
+  const numeric = text.match(/^(\d{1,3})\s*[:.\s]\s*(\d{1,3})$/);
+  const named = numeric ? null : text.match(/^([a-z'’\-\s]+?)(?:\s*[:.\s]\s*(\d{1,3}))?$/i);
+
+  const surahNumber = numeric ? parseInt(numeric[1], 10) : named ? findSurahByName(named[1]) : null;
+  const ayahText = numeric ? numeric[2] : named?.[2];
+  const ayahNumber = ayahText ? parseInt(ayahText, 10) : 1;
+
+  if (surahNumber === null || !isValidSurahNumber(surahNumber)) return null;
+  if (ayahNumber < 1 || ayahNumber > surahMeta[surahNumber - 1].ayahCount) return null;
+
+  return { surahNumber, ayahNumber };
 }
 
 export function isMeccanSurah(surah: Surah): boolean {
@@ -1,4 +1,4 @@
-import { defaultStorage } from '../../client/storage';
+import { defaultStorage, utf8ByteLength } from '../../client/storage';
 import { createLogger } from '../../../services/logging/logger';
 
 const logger = createLogger('MushafPage');
@@ -94,3 +94,20 @@ export async function fetchMushafPage(pageNumber: number): Promise<MushafPageDat
 
   return result;
 }
+
+// ============================================================================
+// OFFLINE
+// ============================================================================
+
+export function isMushafPageCached(pageNumber: number): boolean {
+  return defaultStorage.contains(cacheKey(pageNumber));
+}
+
+/** Size of a cached page in bytes (0 when not cached) */
+export function getMushafPageCacheSize(pageNumber: number): number {
+  return utf8ByteLength(defaultStorage.getString(cacheKey(pageNumber)) ?? '');
+}
+
+export function clearMushafPage(pageNumber: number): void {
+  defaultStorage.delete(cacheKey(pageNumber));
+}
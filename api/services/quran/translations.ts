@@ -0,0 +1,149 @@
+/**
+ * Quran Translations
+ *
+ * Translation editions and transliteration shown under each ayah, next to the
+ * Arabic and Sahih International text from Firestore. Extra editions come from
+ * alquran.cloud and are cached per surah as plain ayah texts, alongside the
+ * `SurahWithTranslation` entries.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { cache } from '../../client/storage';
+import { createLogger } from '../../../services/logging/logger';
+import {
+  EDITIONS,
+  QURAN_CACHE_KEYS,
+  QURAN_CACHE_TTL,
+  TOTAL_SURAHS,
+  fetchSurahWithTranslation,
+  isValidSurahNumber,
+} from './index';
+
+const logger = createLogger('Quran Translations');
+
+const BASE = 'https://api.alquran.cloud/v1';
+
+// ============================================================================
+// EDITIONS
+// ============================================================================
+
+export interface TranslationEdition {
+  /** alquran.cloud edition identifier */
+  id: string;
+  name: string;
+  language: string;
+}
+
+export const TRANSLATION_EDITIONS: TranslationEdition[] = [
+  { id: EDITIONS.ENGLISH, name: 'Sahih International', language: 'English' },
+  { id: 'en.pickthall', name: 'Pickthall', language: 'English' },
+  { id: 'ms.basmeih', name: 'Basmeih', language: 'Malay' },
+  { id: 'id.indonesian', name: 'Kementerian Agama', language: 'Indonesian' },
+  { id: 'ta.tamil', name: 'Jan Trust Foundation', language: 'Tamil' },
+  { id: 'ur.jalandhry', name: 'Jalandhry', language: 'Urdu' },
+];
+
+export const DEFAULT_TRANSLATION_EDITIONS: string[] = [EDITIONS.ENGLISH];
+
+/** Short label shown next to each translation, e.g. "Malay · Basmeih" */
+export function getEditionLabel(edition: string): string {
+  if (edition === EDITIONS.TRANSLITERATION) return 'Transliteration';
+  const match = TRANSLATION_EDITIONS.find((e) => e.id === edition);
+  if (!match) return edition;
+  return `${match.language} · ${match.name}`;
+}
+
+// ============================================================================
+// FETCH
+// ============================================================================
+
+interface EditionAyahResponse {
+  numberInSurah: number;
+  text: string;
+}
+
+function toTexts(ayahs: EditionAyahResponse[]): string[] {
+  return ayahs.map((a) => (a.text ?? '').replace(/\uFEFF/g, '').trim());
+}
+
+/**
+ * Ayah texts of one surah in a translation or transliteration edition
+ *
+ * Sahih International comes from the Firestore surah (already cached for the
+ * reader); every other edition is fetched once and cached for a year.
+ */
+export async function fetchSurahEdition(surahNumber: number, edition: string): Promise<string[]> {
+  if (!isValidSurahNumber(surahNumber)) {
+    throw new Error(`Invalid surah number: ${surahNumber}`);
+  }
+
+  if (edition === EDITIONS.ENGLISH) {
+    const { translation } = await fetchSurahWithTranslation(surahNumber);
+    return translation.ayahs.map((ayah) => ayah.text);
+  }
+
+  const key = QURAN_CACHE_KEYS.surahEdition(surahNumber, edition);
+  const cached = cache.get<string[]>(key);
+  if (cached && Array.isArray(cached)) return cached;
+
+  logger.info('Fetching surah edition from API', { surahNumber, edition, operation: 'edition-fetch' });
+
+  const res = await fetch(`${BASE}/surah/${surahNumber}/${edition}`);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${edition} for surah ${surahNumber}: ${res.status}`);
+  }
+
+  const json = await res.json();
+  const texts = toTexts(json.data.ayahs);
+  cache.set(key, texts, QURAN_CACHE_TTL);
+
+  logger.info('Surah edition cached', { surahNumber, edition, ayahCount: texts.length });
+  return texts;
+}
+
+/**
+ * Ayah texts of the whole Quran in one edition, indexed by surah (0-based)
+ *
+ * Served from the per-surah cache when complete; otherwise the whole edition
+ * is fetched in a single request and every surah entry is written, so search
+ * does not need 114 requests per edition.
+ */
+export async function fetchQuranEdition(edition: string): Promise<string[][]> {
+  const surahNumbers = Array.from({ length: TOTAL_SURAHS }, (_, i) => i + 1);
+
+  if (edition === EDITIONS.ENGLISH) {
+    return Promise.all(surahNumbers.map((n) => fetchSurahEdition(n, edition)));
+  }
+
+  const cached = surahNumbers.map((n) => cache.get<string[]>(QURAN_CACHE_KEYS.surahEdition(n, edition)));
+  if (cached.every((texts) => Array.isArray(texts))) {
+    return cached as string[][];
+  }
+
+  const startTime = Date.now();
+  logger.info('Fetching full Quran edition from API', { edition, operation: 'edition-fetch' });
+
+  const res = await fetch(`${BASE}/quran/${edition}`);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${edition}: ${res.status}`);
+  }
+
+  const json = await res.json();
+  const surahs: { number: number; ayahs: EditionAyahResponse[] }[] = json.data.surahs;
+  const texts = surahNumbers.map((n) => toTexts(surahs.find((s) => s.number === n)?.ayahs ?? []));
+
+  texts.forEach((surahTexts, i) => {
+    if (surahTexts.length) {
+      cache.set(QURAN_CACHE_KEYS.surahEdition(i + 1, edition), surahTexts, QURAN_CACHE_TTL);
+    }
+  });
+
+  logger.success('Full Quran edition cached', {
+    edition,
+    surahCount: surahs.length,
+    duration: `${Date.now() - startTime}ms`,
+  });
+  return texts;
+}
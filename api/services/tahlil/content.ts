@@ -0,0 +1,173 @@
+/**
+ * Tahlil & Janazah Guide Content
+ *
+ * Static guide content: the janazah rites in order (each pointing at matching
+ * du'as in the du'a dataset) and the tahlil sequence (Quran portions opened
+ * in the reader, counted adhkar in the tasbih).
+ *
+ * Follows the common Shafi'i / Malay practice in Singapore. Local practice
+ * varies; the guide is a checklist, not a ruling.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import type { Doa } from '../duas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JanazahStep {
+  id: string;
+  title: string;
+  points: string[];
+  /** Matched (case-insensitive) against du'a titles to show related du'as. */
+  doaKeywords: string[];
+}
+
+export type TahlilStepKind = 'quran' | 'adhkar' | 'doa';
+
+export interface TahlilStep {
+  id: string;
+  title: string;
+  description: string;
+  kind: TahlilStepKind;
+  surah?: number;     // quran steps
+  ayah?: number;      // 1-based ayah to open at
+  repeat?: number;    // times to recite (default once)
+}
+
+// ============================================================================
+// JANAZAH
+// ============================================================================
+
+export const JANAZAH_STEPS: JanazahStep[] = [
+  {
+    id: 'passing',
+    title: 'At the passing',
+    points: [
+      'Close the eyes and say "Inna lillahi wa inna ilayhi raji\'un".',
+      'Make du\'a for the deceased and cover the body.',
+      'Inform family, the mosque and the funeral service. Note any debts and wasiat (bequests).',
+    ],
+    doaKeywords: ['calamity', 'inna lillahi', 'musibah', 'death', 'deceased'],
+  },
+  {
+    id: 'ghusl',
+    title: 'Ghusl (washing)',
+    points: [
+      'Done by relatives or trained washers of the same gender (spouses may wash each other).',
+      'Start with the right side and the limbs of wudu, washing an odd number of times.',
+      'Keep the body covered and the washing private.',
+    ],
+    doaKeywords: ['ghusl', 'washing the dead', 'mandi jenazah'],
+  },
+  {
+    id: 'kafan',
+    title: 'Kafan (shrouding)',
+    points: [
+      'Three white sheets for men; five pieces for women.',
+      'Perfume the shroud; do not use silk.',
+    ],
+    doaKeywords: ['kafan', 'shroud'],
+  },
+  {
+    id: 'solat',
+    title: 'Solat janazah',
+    points: [
+      'Standing only: four takbir, no ruku\' or sujud.',
+      'After the 1st takbir: Al-Fatihah.',
+      'After the 2nd takbir: salawat Ibrahimiyyah.',
+      'After the 3rd takbir: du\'a for the deceased.',
+      'After the 4th takbir: du\'a for the deceased and the living, then salam.',
+    ],
+    doaKeywords: ['janazah', 'jenazah', 'funeral prayer', 'for the deceased', 'for the dead'],
+  },
+  {
+    id: 'burial',
+    title: 'Burial',
+    points: [
+      'Carry the body to the grave promptly.',
+      'Lay the deceased on the right side, facing the qiblat.',
+      'Those present add three handfuls of soil; talqin is read where it is the local practice.',
+      'Stay a while after burial to ask forgiveness and firmness for the deceased.',
+    ],
+    doaKeywords: ['grave', 'burial', 'kubur', 'visiting the graves'],
+  },
+  {
+    id: 'after',
+    title: 'After the burial',
+    points: [
+      'Condolences (ta\'ziah) are offered for up to three days.',
+      'Family and friends gather for tahlil and recite Yasin for the deceased.',
+      'Settle the deceased\'s debts and carry out the wasiat.',
+    ],
+    doaKeywords: ['condolence', 'takziah', 'tahlil'],
+  },
+];
+
+// ============================================================================
+// TAHLIL
+// ============================================================================
+
+export const TAHLIL_SEQUENCE: TahlilStep[] = [
+  {
+    id: 'yasin',
+    title: 'Surah Yasin',
+    description: 'Recited for the deceased, together or as claimed in the gathering.',
+    kind: 'quran',
+    surah: 36,
+  },
+  {
+    id: 'fatihah',
+    title: 'Al-Fatihah',
+    description: 'Gifted to the Prophet ﷺ, his family and the deceased.',
+    kind: 'quran',
+    surah: 1,
+  },
+  { id: 'ikhlas', title: 'Al-Ikhlas', description: 'Each recitation preceded by the basmalah.', kind: 'quran', surah: 112, repeat: 3 },
+  { id: 'falaq', title: 'Al-Falaq', description: 'Seek refuge in the Lord of daybreak.', kind: 'quran', surah: 113 },
+  { id: 'nas', title: 'An-Nas', description: 'Seek refuge in the Lord of mankind.', kind: 'quran', surah: 114 },
+  { id: 'fatihah-2', title: 'Al-Fatihah', description: 'Recited again before Al-Baqarah.', kind: 'quran', surah: 1 },
+  { id: 'baqarah-1', title: 'Al-Baqarah 1–5', description: 'The opening of Al-Baqarah.', kind: 'quran', surah: 2, ayah: 1 },
+  { id: 'baqarah-163', title: 'Al-Baqarah 163', description: '"Your God is one God…"', kind: 'quran', surah: 2, ayah: 163 },
+  { id: 'kursi', title: 'Ayat al-Kursi', description: 'Al-Baqarah 255.', kind: 'quran', surah: 2, ayah: 255 },
+  { id: 'baqarah-284', title: 'Al-Baqarah 284–286', description: 'The closing ayat of Al-Baqarah.', kind: 'quran', surah: 2, ayah: 284 },
+  {
+    id: 'adhkar',
+    title: 'Tahlil adhkar',
+    description: 'Istighfar, La ilaha illallah, tasbih and salawat — counted in the tasbih.',
+    kind: 'adhkar',
+  },
+  {
+    id: 'doa',
+    title: 'Doa tahlil',
+    description: 'Closing du\'a, gifting the reward of the recitation to the deceased.',
+    kind: 'doa',
+  },
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function matchesKeywords(doa: Doa, keywords: string[]): boolean {
+  const title = doa.title.toLowerCase();
+  return keywords.some((keyword) => title.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Du'as from the dataset related to a janazah step
+ */
+export function getDoasForJanazahStep(doas: Doa[], step: JanazahStep): Doa[] {
+  return doas.filter((doa) => matchesKeywords(doa, step.doaKeywords));
+}
+
+/**
+ * Du'as related to any janazah step or the tahlil
+ */
+export function getJanazahDoas(doas: Doa[]): Doa[] {
+  const keywords = JANAZAH_STEPS.flatMap((step) => step.doaKeywords);
+  return doas.filter((doa) => matchesKeywords(doa, keywords));
+}
@@ -0,0 +1,508 @@
+/**
+ * Tahlil Gathering Service
+ *
+ * Shared gatherings for the deceased: the host sets how many Yasin
+ * recitations (and optionally a 30-juz khatam) to dedicate, shares a short
+ * code or link, and attendees claim and complete recitations. Everything lives
+ * in one Firestore document per gathering, so every open screen stays in sync
+ * through a snapshot listener.
+ *
+ * - Short join codes double as document ids
+ * - Claims are changed in transactions, so two people cannot take one slot
+ *   and only the claimer (or the host) can release or complete it
+ * - Recently opened gatherings are remembered on the device
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteField,
+  doc,
+  getDoc,
+  onSnapshot,
+  runTransaction,
+} from '@react-native-firebase/firestore';
+import { db } from '../../client/firebase';
+import { defaultStorage } from '../../client/storage';
+import { logger } from '../../../services/logging/logger';
+import { juzMeta } from '../../../data/juzMeta';
+
+export * from './content';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TahlilSlotKind = 'yasin' | 'juz';
+
+export interface TahlilClaim {
+  userId: string;
+  name: string;
+  claimedAt: number;
+  completedAt: number | null;
+}
+
+export interface TahlilGathering {
+  id: string;                 // join code
+  deceasedName: string;
+  hostId: string;
+  hostName: string;
+  date: string | null;        // YYYY-MM-DD of the gathering, if set
+  note: string;
+  yasinCount: number;         // Yasin recitations to dedicate
+  includeJuz: boolean;        // also split a 30-juz khatam
+  claims: Record<string, TahlilClaim>; // slot key -> claim
+  createdAt: number;
+}
+
+export interface TahlilSlot {
+  key: string;                // 'yasin-3', 'juz-12'
+  kind: TahlilSlotKind;
+  number: number;
+  label: string;
+  surah: number;              // where to open the Quran reader
+  ayah: number;
+}
+
+export interface TahlilGatheringProgress {
+  total: number;
+  claimed: number;
+  completed: number;
+}
+
+export interface CreateTahlilGatheringInput {
+  deceasedName: string;
+  date: string | null;
+  note: string;
+  yasinCount: number;
+  includeJuz: boolean;
+}
+
+/** Who is acting; gatherings need a signed-in user. */
+export interface TahlilParticipant {
+  userId: string;
+  name: string;
+}
+
+export enum TahlilErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  SLOT_TAKEN = 'SLOT_TAKEN',
+  NOT_YOURS = 'NOT_YOURS',
+  FAILED = 'FAILED',
+}
+
+const ERROR_MESSAGES: Record<TahlilErrorCode, string> = {
+  [TahlilErrorCode.NOT_FOUND]: 'No gathering found for this code.',
+  [TahlilErrorCode.SLOT_TAKEN]: 'Someone has already claimed this recitation.',
+  [TahlilErrorCode.NOT_YOURS]: 'Only the person who claimed this recitation can change it.',
+  [TahlilErrorCode.FAILED]: 'Could not update the gathering. Please try again.',
+};
+
+export class TahlilError extends Error {
+  constructor(public code: TahlilErrorCode, message: string = ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'TahlilError';
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLLECTION = 'tahlilGatherings';
+const RECENT_GATHERINGS_KEY = 'tahlil_recent_gatherings';
+const MAX_RECENT_GATHERINGS = 10;
+
+export const MAX_YASIN_COUNT = 100;
+export const YASIN_COUNT_PRESETS = [7, 10, 41] as const;
+
+// No 0/O/1/I so codes survive being read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+const YASIN_SURAH = 36;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Every recitation a gathering asks for, Yasin first
+ */
+export function getGatheringSlots(gathering: Pick<TahlilGathering, 'yasinCount' | 'includeJuz'>): TahlilSlot[] {
+  const yasin = Array.from({ length: gathering.yasinCount }, (_, i): TahlilSlot => ({
+    key: `yasin-${i + 1}`,
+    kind: 'yasin',
+    number: i + 1,
+    label: `Yasin #${i + 1}`,
+    surah: YASIN_SURAH,
+    ayah: 1,
+  }));
+
+  const juz = gathering.includeJuz
+    ? juzMeta.map((meta): TahlilSlot => ({
+        key: `juz-${meta.number}`,
+        kind: 'juz',
+        number: meta.number,
+        label: `Juz ${meta.number}`,
+        surah: meta.start.surah,
+        ayah: meta.start.ayah,
+      }))
+    : [];
+
+  return [...yasin, ...juz];
+}
+
+export function getGatheringProgress(gathering: TahlilGathering): TahlilGatheringProgress {
+  const slots = getGatheringSlots(gathering);
+  const claims = slots.map((slot) => gathering.claims[slot.key]).filter(Boolean);
+  return {
+    total: slots.length,
+    claimed: claims.length,
+    completed: claims.filter((claim) => claim.completedAt != null).length,
+  };
+}
+
+export function buildGatheringLink(id: string): string {
+  return `rihlah://tahlil/${id}`;
+}
+
+/** Normalise a typed code ("abc 123" -> "ABC123"). */
+export function normalizeGatheringCode(code: string): string {
+  return code.replace(/[^a-z0-9]/gi, '').toUpperCase();
+}
+
+function generateCode(): string {
+  return Array.from(
+    { length: CODE_LENGTH },
+    () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+  ).join('');
+}
+
+function toGathering(id: string, data: any): TahlilGathering {
+  return {
+    id,
+    deceasedName: data.deceasedName ?? '',
+    hostId: data.hostId ?? '',
+    hostName: data.hostName ?? '',
+    date: data.date ?? null,
+    note: data.note ?? '',
+    yasinCount: data.yasinCount ?? 0,
+    includeJuz: !!data.includeJuz,
+    claims: data.claims ?? {},
+    createdAt: data.createdAt ?? 0,
+  };
+}
+
+function toTahlilError(error: unknown): TahlilError {
+  return error instanceof TahlilError ? error : new TahlilError(TahlilErrorCode.FAILED);
+}
+
+// ============================================================================
+// RECENT GATHERINGS (DEVICE)
+// ============================================================================
+
+export function getRecentGatheringIds(): string[] {
+  return defaultStorage.get<string[]>(RECENT_GATHERINGS_KEY) ?? [];
+}
+
+export function rememberGathering(id: string): void {
+  const ids = [id, ...getRecentGatheringIds().filter((existing) => existing !== id)];
+  defaultStorage.set(RECENT_GATHERINGS_KEY, ids.slice(0, MAX_RECENT_GATHERINGS));
+}
+
+export function forgetGathering(id: string): void {
+  defaultStorage.set(
+    RECENT_GATHERINGS_KEY,
+    getRecentGatheringIds().filter((existing) => existing !== id)
+  );
+}
+
+// ============================================================================
+// API FUNCTIONS (MODULAR)
+// ============================================================================
+
+/**
+ * Fetch a gathering by its code
+ *
+ * @throws {TahlilError} NOT_FOUND when no gathering has the code
+ */
+export async function fetchTahlilGathering(code: string): Promise<TahlilGathering> {
+  const id = normalizeGatheringCode(code);
+  try {
+    const snapshot = await getDoc(doc(db, COLLECTION, id));
+    if (!snapshot.exists()) {
+      throw new TahlilError(TahlilErrorCode.NOT_FOUND);
+    }
+    return toGathering(id, snapshot.data());
+  } catch (error: any) {
+    logger.error('Failed to fetch tahlil gathering', { error: error.message, id });
+    throw toTahlilError(error);
+  }
+}
+
+/**
+ * Create a gathering under a fresh join code
+ *
+ * @returns The new gathering
+ */
+export async function createTahlilGathering(
+  input: CreateTahlilGatheringInput,
+  host: TahlilParticipant
+): Promise<TahlilGathering> {
+  const yasinCount = Math.max(0, Math.min(MAX_YASIN_COUNT, Math.round(input.yasinCount)));
+
+  try {
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const id = generateCode();
+      const ref = doc(db, COLLECTION, id);
+      const gathering: TahlilGathering = {
+        id,
+        deceasedName: input.deceasedName.trim(),
+        hostId: host.userId,
+        hostName: host.name,
+        date: input.date,
+        note: input.note.trim(),
+        yasinCount,
+        includeJuz: input.includeJuz,
+        claims: {},
+        createdAt: Date.now(),
+      };
+
+      // The transaction refuses to overwrite a gathering that owns the code
+      const created = await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(ref);
+        if (existing.exists()) return false;
+        const { id: _id, ...data } = gathering;
+        transaction.set(ref, data);
+        return true;
+      });
+
+      if (created) {
+        rememberGathering(id);
+        logger.success('Tahlil gathering created', { id, yasinCount, includeJuz: input.includeJuz });
+        return gathering;
+      }
+      logger.debug('Gathering code taken, retrying', { attempt });
+    }
+    throw new TahlilError(TahlilErrorCode.FAILED);
+  } catch (error: any) {
+    logger.error('Failed to create tahlil gathering', { error: error.message });
+    throw toTahlilError(error);
+  }
+}
+
+/**
+ * Claim a recitation for a participant
+ *
+ * Claiming a slot the participant already holds is a no-op.
+ *
+ * @throws {TahlilError} SLOT_TAKEN when someone else holds it
+ */
+export async function claimTahlilSlot(
+  gatheringId: string,
+  slotKey: string,
+  participant: TahlilParticipant
+): Promise<void> {
+  const ref = doc(db, COLLECTION, gatheringId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists()) throw new TahlilError(TahlilErrorCode.NOT_FOUND);
+
+      const claim: TahlilClaim | undefined = snapshot.data()?.claims?.[slotKey];
+      if (claim && claim.userId !== participant.userId) {
+        throw new TahlilError(TahlilErrorCode.SLOT_TAKEN);
+      }
+      if (claim) return;
+
+      const newClaim: TahlilClaim = {
+        userId: participant.userId,
+        name: participant.name,
+        claimedAt: Date.now(),
+        completedAt: null,
+      };
+      transaction.update(ref, { [`claims.${slotKey}`]: newClaim });
+    });
+    logger.success('Tahlil slot claimed', { gatheringId, slotKey });
+  } catch (error: any) {
+    logger.error('Failed to claim tahlil slot', { error: error.message, gatheringId, slotKey });
+    throw toTahlilError(error);
+  }
+}
+
+/**
+ * Give up a claimed recitation (the claimer or the host)
+ */
+export async function releaseTahlilSlot(
+  gatheringId: string,
+  slotKey: string,
+  participant: TahlilParticipant
+): Promise<void> {
+  const ref = doc(db, COLLECTION, gatheringId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists()) throw new TahlilError(TahlilErrorCode.NOT_FOUND);
+
+      const data = snapshot.data();
+      const claim: TahlilClaim | undefined = data?.claims?.[slotKey];
+      if (!claim) return;
+      if (claim.userId !== participant.userId && data?.hostId !== participant.userId) {
+        throw new TahlilError(TahlilErrorCode.NOT_YOURS);
+      }
+      transaction.update(ref, { [`claims.${slotKey}`]: deleteField() });
+    });
+    logger.info('Tahlil slot released', { gatheringId, slotKey });
+  } catch (error: any) {
+    logger.error('Failed to release tahlil slot', { error: error.message, gatheringId, slotKey });
+    throw toTahlilError(error);
+  }
+}
+
+/**
+ * Mark a claimed recitation as done (or not done), by the claimer or the host
+ *
+ * @throws {TahlilError} NOT_FOUND when the slot is not claimed, NOT_YOURS
+ * when someone else holds it
+ */
+export async function setTahlilSlotCompleted(
+  gatheringId: string,
+  slotKey: string,
+  completed: boolean,
+  participant: TahlilParticipant
+): Promise<void> {
+  const ref = doc(db, COLLECTION, gatheringId);
+  try {
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists()) throw new TahlilError(TahlilErrorCode.NOT_FOUND);
+
+      const data = snapshot.data();
+      const claim: TahlilClaim | undefined = data?.claims?.[slotKey];
+      if (!claim) {
+        throw new TahlilError(TahlilErrorCode.NOT_FOUND, 'This recitation is no longer claimed.');
+      }
+      if (claim.userId !== participant.userId && data?.hostId !== participant.userId) {
+        throw new TahlilError(TahlilErrorCode.NOT_YOURS);
+      }
+      transaction.update(ref, { [`claims.${slotKey}.completedAt`]: completed ? Date.now() : null });
+    });
+    logger.success('Tahlil slot updated', { gatheringId, slotKey, completed });
+  } catch (error: any) {
+    logger.error('Failed to update tahlil slot', { error: error.message, gatheringId, slotKey });
+    throw toTahlilError(error);
+  }
+}
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+export const TAHLIL_QUERY_KEYS = {
+  all: ['tahlil'] as const,
+  gathering: (id: string) => ['tahlil', 'gathering', id] as const,
+};
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Live gathering: fetched once, then kept current by a snapshot listener
+ *
+ * @param id - Gathering code (null to skip)
+ */
+export function useTahlilGathering(id: string | null) {
+  const queryClient = useQueryClient();
+  const code = id ? normalizeGatheringCode(id) : null;
+
+  const query = useQuery({
+    queryKey: TAHLIL_QUERY_KEYS.gathering(code ?? ''),
+    queryFn: () => fetchTahlilGathering(code!),
+    enabled: !!code,
+    staleTime: Infinity, // the listener keeps it fresh
+    retry: (failureCount, error) =>
+      !(error instanceof TahlilError && error.code === TahlilErrorCode.NOT_FOUND) && failureCount < 2,
+  });
+
+  useEffect(() => {
+    if (!code) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, COLLECTION, code),
+      (snapshot) => {
+        if (!snapshot.exists()) return;
+        queryClient.setQueryData(TAHLIL_QUERY_KEYS.gathering(code), toGathering(code, snapshot.data()));
+      },
+      (error) => {
+        logger.error('Tahlil gathering listener error', { error: error.message, id: code });
+      }
+    );
+    rememberGathering(code);
+
+    return unsubscribe;
+  }, [code, queryClient]);
+
+  return query;
+}
+
+/**
+ * Gatherings opened on this device, newest first (missing ones are skipped)
+ */
+export function useRecentTahlilGatherings() {
+  return useQuery({
+    queryKey: [...TAHLIL_QUERY_KEYS.all, 'recent'],
+    queryFn: async () => {
+      const results = await Promise.allSettled(getRecentGatheringIds().map(fetchTahlilGathering));
+      return results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCreateTahlilGathering() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ input, host }: { input: CreateTahlilGatheringInput; host: TahlilParticipant }) =>
+      createTahlilGathering(input, host),
+    onSuccess: (gathering) => {
+      queryClient.setQueryData(TAHLIL_QUERY_KEYS.gathering(gathering.id), gathering);
+      queryClient.invalidateQueries({ queryKey: [...TAHLIL_QUERY_KEYS.all, 'recent'] });
+    },
+  });
+}
+
+export function useClaimTahlilSlot() {
+  return useMutation({
+    mutationFn: ({ gatheringId, slotKey, participant }: { gatheringId: string; slotKey: string; participant: TahlilParticipant }) =>
+      claimTahlilSlot(gatheringId, slotKey, participant),
+  });
+}
+
+export function useReleaseTahlilSlot() {
+  return useMutation({
+    mutationFn: ({ gatheringId, slotKey, participant }: { gatheringId: string; slotKey: string; participant: TahlilParticipant }) =>
+      releaseTahlilSlot(gatheringId, slotKey, participant),
+  });
+}
+
+export function useCompleteTahlilSlot() {
+  return useMutation({
+    mutationFn: ({
+      gatheringId,
+      slotKey,
+      completed,
+      participant,
+    }: {
+      gatheringId: string;
+      slotKey: string;
+      completed: boolean;
+      participant: TahlilParticipant;
+    }) => setTahlilSlotCompleted(gatheringId, slotKey, completed, participant),
+  });
+}
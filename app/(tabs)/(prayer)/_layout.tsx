@@ -65,6 +65,18 @@ const PrayerLayout = () => {
           title: '',
         }}
       />
+      <Stack.Screen
+        name="tahlil/index"
+        options={{
+          title: '',
+        }}
+      />
+      <Stack.Screen
+        name="tahlil/[id]"
+        options={{
+          title: '',
+        }}
+      />
     </Stack>
   );
 };
@@ -15,8 +15,10 @@ import PrayerTimesSkeleton from '../../../components/prayer/PrayerTimesSkeleton'
 import { PrayerDateSelector } from '../../../components/prayer/PrayerDateSelector';
 import { PrayerErrorFallback } from '../../../components/prayer/PrayerErrorFallback';
 import { LocationDisplay } from '../../../components/prayer/LocationDisplay';
+import { OfflineIndicator } from '../../../components/prayer/OfflineIndicator';
 
 import { NextPrayerHero } from '../../../components/prayer/NextPrayerHero';
+import FastingLogCard from '../../../components/prayer/FastingLogCard';
 
 // Hooks & Services
 import { usePrayerTimesOptimized } from '../../../hooks/prayer/usePrayerTimesOptimized';
@@ -25,13 +27,23 @@ import { usePrayerNotifications } from '../../../hooks/prayer/usePrayerNotificat
 import { usePrayerDateNavigation } from '../../../hooks/prayer/usePrayerDateNavigation';
 import { usePrayerModals } from '../../../hooks/prayer/usePrayerModals';
 import { usePrayerActions } from '../../../hooks/prayer/usePrayerActions';
+import { useFastingCountdown } from '../../../hooks/prayer/useFastingCountdown';
 import { analyticsService } from '../../../services/analytics/service';
 import { createLogger } from '../../../services/logging/logger';
 import { useLocationStore } from '../../../stores/useLocationStore';
 import { useCoordinates } from '../../../stores/useLocationStore';
+import { useCalculationProfile } from '../../../stores/userPreferencesStore';
 
 // API
-import { usePrayerTimesByDate, useTodayIslamicDate, useTodayPrayerTimes, formatIslamicDate } from '../../../api/services/prayer';
+import {
+  usePrayerTimesByDate,
+  useIslamicDate,
+  useTodayIslamicDate,
+  useTodayPrayerTimes,
+  usePrayerLogSyncStatus,
+  formatIslamicDate,
+  getRamadanDay,
+} from '../../../api/services/prayer';
 
 const logger = createLogger('Prayer Tab');
 
@@ -41,6 +53,7 @@ const PrayerTab: React.FC = () => {
 
   // Get user location (convert undefined to null for API compatibility)
   const coordinates = useCoordinates(); 
+  const calculationProfile = useCalculationProfile();
 
   // Date navigation hook with location for prefetching
   const dateNavigation = usePrayerDateNavigation(coordinates);
@@ -63,8 +76,8 @@ const PrayerTab: React.FC = () => {
   const isToday = dateNavigation.formattedDate === format(new Date(), 'yyyy-MM-dd');
 
   // Fetch prayer times using new API
-  const todayQuery = useTodayPrayerTimes(coordinates);
-  const dateQuery = usePrayerTimesByDate(coordinates, dateNavigation.selectedDate);
+  const todayQuery = useTodayPrayerTimes(coordinates, calculationProfile);
+  const dateQuery = usePrayerTimesByDate(coordinates, dateNavigation.selectedDate, calculationProfile);
 
   // Use the appropriate query based on date selection
   const { data: prayerData, isLoading, error, refetch } = isToday ? todayQuery : dateQuery;
@@ -81,9 +94,19 @@ const PrayerTab: React.FC = () => {
     prayerData ?? null
   );
 
+  // Ramadan: imsak/iftar countdown for today, fast log for the selected day
+  const fastingCountdown = useFastingCountdown(todayQuery.data ?? null, islamicDateData);
+  const { data: selectedIslamicDate } = useIslamicDate(dateNavigation.formattedDate);
+  const selectedRamadanDay = getRamadanDay(selectedIslamicDate);
+  const canLogFast = dateNavigation.formattedDate <= format(new Date(), 'yyyy-MM-dd');
+
   // Initialize notifications
   usePrayerNotifications(prayerData || null);
 
+  // Offline prayer log writes waiting to sync
+  const syncStatus = usePrayerLogSyncStatus();
+  const showSyncIndicator = !syncStatus.isOnline || syncStatus.pendingCount > 0;
+
   // Track analytics
   useEffect(() => {
     analyticsService.trackScreenView('PrayerTab', {
@@ -115,6 +138,13 @@ const PrayerTab: React.FC = () => {
       
       return (
         <View key={dateNavigation.formattedDate} style={styles.contentContainer}>
+          {selectedRamadanDay && selectedIslamicDate && canLogFast && (
+            <FastingLogCard
+              date={dateNavigation.formattedDate}
+              ramadanDay={selectedRamadanDay}
+              hijriYear={selectedIslamicDate.hijri.year}
+            />
+          )}
           <PrayerTimesList
             prayerTimes={prayerTimesRecord}
             selectedDate={dateNavigation.selectedDate}
@@ -142,7 +172,7 @@ const PrayerTab: React.FC = () => {
           <PrayerErrorFallback
             error={error}
             resetError={refetch}
-            isOffline={false}
+            isOffline={!syncStatus.isOnline}
           />
         </View>
       );
@@ -194,6 +224,16 @@ const PrayerTab: React.FC = () => {
               prayerData={prayerData ?? null}
               nextPrayer={nextPrayerInfo.prayer}
               timeUntil={nextPrayerInfo.timeUntil}
+              fasting={fastingCountdown}
+            />
+          )}
+
+          {/* Offline / pending sync */}
+          {showSyncIndicator && (
+            <OfflineIndicator
+              pendingSyncCount={syncStatus.pendingCount}
+              isSyncing={syncStatus.isSyncing}
+              failingSyncCount={syncStatus.failingCount}
             />
           )}
 
@@ -3,7 +3,7 @@
  * 
  * Display Friday sermon content with multi-language PDFs and AI summaries
  * 
- * @version 2.0
+ * @version 2.1
  */
 
 import React from 'react';
@@ -12,9 +12,11 @@ import { FlashList } from '@shopify/flash-list';
 import { FontAwesome6 } from '@expo/vector-icons';
 import { MotiView } from 'moti';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams } from 'expo-router';
 
 import { useTheme } from '../../../../context/ThemeContext';
-import { useKhutbahs } from '../../../../api/services/khutbah';
+import { useKhutbahs, type Language } from '../../../../api/services/khutbah';
+import { usePreferencesStore } from '../../../../stores/userPreferencesStore';
 import KhutbahCard from '../../../../components/prayer/KhutbahCard';
 import { enter } from '../../../../utils';
 
@@ -30,9 +32,13 @@ import { enter } from '../../../../utils';
  * - Staggered animations
  * - Modern loading/error states
  * - TanStack Query caching
+ * - `?id=&language=` (from the Friday notification) opens that khutbah
  */
 const KhutbahScreen: React.FC = () => {
   const { theme, isDarkMode } = useTheme();
+  const params = useLocalSearchParams<{ id?: string; language?: Language }>();
+  const savedLanguage = usePreferencesStore((s) => s.jumaatSettings.khutbahLanguage);
+  const preferredLanguage = params.language ?? savedLanguage;
 
   const gradientColors = isDarkMode
     ? (['#060B18', '#0C1428', '#080F1E'] as const)
@@ -71,6 +77,9 @@ const KhutbahScreen: React.FC = () => {
     );
   }
 
+  // Opened from a notification: start at that khutbah, expanded
+  const linkedIndex = params.id ? khutbahs.findIndex((k) => k.id === params.id) : -1;
+
   // Success state
   return (
     <View style={styles.container}>
@@ -78,13 +87,18 @@ const KhutbahScreen: React.FC = () => {
       <FlashList
         data={khutbahs}
         keyExtractor={(item) => item.id}
+        initialScrollIndex={linkedIndex > 0 ? linkedIndex : undefined}
         renderItem={({ item, index }) => (
           <MotiView
             from={{ opacity: 0, translateY: 20 }}
             animate={{ opacity: 1, translateY: 0 }}
             transition={enter(0)}
           >
-            <KhutbahCard khutbah={item} />
+            <KhutbahCard
+              khutbah={item}
+              preferredLanguage={preferredLanguage}
+              initiallyExpanded={index === linkedIndex}
+            />
           </MotiView>
         )}
         showsVerticalScrollIndicator={false}
@@ -0,0 +1,359 @@
+/**
+ * Tahlil Gathering
+ *
+ * Live view of a shared gathering: progress, and every Yasin / juz slot with
+ * who has claimed it. Attendees claim, release and mark their recitations
+ * done; the host can also release any slot. Updates from others arrive
+ * through the gathering's snapshot listener.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { FlashList } from '@shopify/flash-list';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import { useTheme } from '../../../../context/ThemeContext';
+import {
+  buildGatheringLink,
+  getGatheringProgress,
+  getGatheringSlots,
+  useClaimTahlilSlot,
+  useCompleteTahlilSlot,
+  useReleaseTahlilSlot,
+  useTahlilGathering,
+  type TahlilGathering,
+  type TahlilParticipant,
+  type TahlilSlot,
+} from '../../../../api/services/tahlil';
+import { useAuthStore } from '../../../../stores/useAuthStore';
+import { createLogger } from '../../../../services/logging/logger';
+
+const logger = createLogger('Tahlil Gathering');
+
+const TahlilGatheringScreen: React.FC = () => {
+  const { theme, isDarkMode } = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const user = useAuthStore((state) => state.user);
+  const { data: gathering, isLoading, isError, error, refetch } = useTahlilGathering(id ?? null);
+
+  const gradientColors = isDarkMode
+    ? (['#060B18', '#0C1428', '#080F1E'] as const)
+    : (['#EEF2FF', '#F0F4FF', '#E8EFFF'] as const);
+
+  const participant = useMemo<TahlilParticipant | null>(
+    () => (user ? { userId: user.uid, name: user.displayName || 'Guest' } : null),
+    [user]
+  );
+
+  const slots = useMemo(() => (gathering ? getGatheringSlots(gathering) : []), [gathering]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={gradientColors} style={StyleSheet.absoluteFill} />
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.colors.accent} />
+        </View>
+      ) : isError || !gathering ? (
+        <View style={styles.centerContainer}>
+          <FontAwesome6 name="triangle-exclamation" size={40} color="#ff6b6b" />
+          <Text style={[styles.stateText, { color: theme.colors.text.secondary }]}>
+            {error instanceof Error ? error.message : 'Gathering not found.'}
+          </Text>
+          <TouchableOpacity
+            onPress={() => refetch()}
+            style={[styles.button, { backgroundColor: theme.colors.accent }]}
+          >
+            <Text style={styles.buttonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlashList
+          data={slots}
+          keyExtractor={(slot) => slot.key}
+          renderItem={({ item }) => (
+            <SlotRow gathering={gathering} slot={item} participant={participant} />
+          )}
+          ListHeaderComponent={<GatheringHeader gathering={gathering} />}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// HEADER
+// ============================================================================
+
+const GatheringHeader: React.FC<{ gathering: TahlilGathering }> = ({ gathering }) => {
+  const { theme } = useTheme();
+  const progress = getGatheringProgress(gathering);
+  const percent = progress.total > 0 ? progress.completed / progress.total : 0;
+
+  const handleShare = async () => {
+    try {
+      await Share.share({
+        message:
+          `Join the tahlil for ${gathering.deceasedName}. Claim a Yasin recitation in Rihlah ` +
+          `with code ${gathering.id}: ${buildGatheringLink(gathering.id)}`,
+      });
+    } catch (error: any) {
+      logger.warn('Share failed', { error: error.message });
+    }
+  };
+
+  return (
+    <View style={styles.header}>
+      <Text style={[styles.caption, { color: theme.colors.text.muted }]}>Tahlil for</Text>
+      <Text style={[styles.title, { color: theme.colors.text.primary }]}>{gathering.deceasedName}</Text>
+      {!!gathering.note && (
+        <Text style={[styles.note, { color: theme.colors.text.secondary }]}>{gathering.note}</Text>
+      )}
+      <Text style={[styles.caption, { color: theme.colors.text.muted }]}>Hosted by {gathering.hostName}</Text>
+
+      <View style={[styles.progressTrack, { backgroundColor: theme.colors.accent + '20' }]}>
+        <View style={[styles.progressFill, { backgroundColor: theme.colors.accent, width: `${percent * 100}%` }]} />
+      </View>
+      <Text style={[styles.note, { color: theme.colors.text.secondary }]}>
+        {progress.completed} of {progress.total} recited · {progress.claimed} claimed
+      </Text>
+
+      <TouchableOpacity
+        onPress={handleShare}
+        style={[styles.shareButton, { backgroundColor: theme.colors.accent + '15' }]}
+      >
+        <FontAwesome6 name="share-nodes" size={14} color={theme.colors.accent} />
+        <Text style={[styles.shareText, { color: theme.colors.accent }]}>Share code {gathering.id}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+// ============================================================================
+// SLOT ROW
+// ============================================================================
+
+interface SlotRowProps {
+  gathering: TahlilGathering;
+  slot: TahlilSlot;
+  participant: TahlilParticipant | null;
+}
+
+const SlotRow: React.FC<SlotRowProps> = ({ gathering, slot, participant }) => {
+  const { theme } = useTheme();
+  const router = useRouter();
+  const claimSlot = useClaimTahlilSlot();
+  const releaseSlot = useReleaseTahlilSlot();
+  const completeSlot = useCompleteTahlilSlot();
+
+  const claim = gathering.claims[slot.key];
+  const isMine = !!participant && claim?.userId === participant.userId;
+  const isHost = !!participant && gathering.hostId === participant.userId;
+  const isDone = claim?.completedAt != null;
+  const busy = claimSlot.isPending || releaseSlot.isPending || completeSlot.isPending;
+
+  const onError = (error: Error) => Alert.alert('Tahlil', error.message);
+
+  const handleClaim = () => {
+    if (!participant) {
+      Alert.alert('Sign in required', 'Sign in to claim a recitation.');
+      return;
+    }
+    claimSlot.mutate({ gatheringId: gathering.id, slotKey: slot.key, participant }, { onError });
+  };
+
+  const handleRelease = () => {
+    if (!participant) return;
+    releaseSlot.mutate({ gatheringId: gathering.id, slotKey: slot.key, participant }, { onError });
+  };
+
+  const handleComplete = () => {
+    if (!participant) return;
+    completeSlot.mutate(
+      { gatheringId: gathering.id, slotKey: slot.key, completed: !isDone, participant },
+      { onError }
+    );
+  };
+
+  const openReader = () => {
+    router.push({ pathname: `/surahs/${slot.surah}` as any, params: { ayahIndex: slot.ayah } });
+  };
+
+  return (
+    <View style={[styles.slot, { backgroundColor: theme.colors.secondary }]}>
+      <FontAwesome6
+        name={isDone ? 'circle-check' : claim ? 'user-clock' : 'circle'}
+        size={18}
+        color={isDone || claim ? theme.colors.accent : theme.colors.text.muted}
+      />
+      <View style={styles.slotBody}>
+        <Text style={[styles.slotTitle, { color: theme.colors.text.primary }]}>{slot.label}</Text>
+        <Text style={[styles.slotSubtitle, { color: theme.colors.text.muted }]}>
+          {claim ? `${isMine ? 'You' : claim.name}${isDone ? ' · recited' : ''}` : 'Open'}
+        </Text>
+      </View>
+
+      {busy ? (
+        <ActivityIndicator color={theme.colors.accent} />
+      ) : !claim ? (
+        <SlotButton label="Claim" onPress={handleClaim} filled />
+      ) : isMine ? (
+        <View style={styles.slotActions}>
+          {!isDone && <SlotButton label="Read" onPress={openReader} />}
+          <SlotButton label={isDone ? 'Undo' : 'Done'} onPress={handleComplete} filled={!isDone} />
+          {!isDone && <SlotButton label="Release" onPress={handleRelease} />}
+        </View>
+      ) : isHost ? (
+        <SlotButton label="Release" onPress={handleRelease} />
+      ) : null}
+    </View>
+  );
+};
+
+const SlotButton: React.FC<{ label: string; onPress: () => void; filled?: boolean }> = ({
+  label,
+  onPress,
+  filled,
+}) => {
+  const { theme } = useTheme();
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      style={[styles.slotButton, { backgroundColor: filled ? theme.colors.accent : theme.colors.accent + '15' }]}
+    >
+      <Text style={[styles.slotButtonText, { color: filled ? '#fff' : theme.colors.accent }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    gap: 16,
+  },
+  stateText: {
+    fontSize: 15,
+    fontFamily: 'Outfit_400Regular',
+    textAlign: 'center',
+  },
+
+  // Header
+  header: {
+    gap: 6,
+    marginBottom: 20,
+  },
+  caption: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+  },
+  title: {
+    fontSize: 26,
+    fontFamily: 'Outfit_700Bold',
+  },
+  note: {
+    fontSize: 14,
+    fontFamily: 'Outfit_400Regular',
+    lineHeight: 20,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginTop: 8,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    alignSelf: 'flex-start',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    marginTop: 8,
+  },
+  shareText: {
+    fontSize: 14,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+
+  // Slots
+  slot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    marginBottom: 10,
+  },
+  slotBody: {
+    flex: 1,
+    gap: 2,
+  },
+  slotTitle: {
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  slotSubtitle: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+  },
+  slotActions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  slotButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 10,
+  },
+  slotButtonText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  button: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+});
+
+export default TahlilGatheringScreen;
@@ -0,0 +1,523 @@
+/**
+ * Tahlil & Janazah Guide
+ *
+ * Three sections:
+ * - Janazah: the rites in order, each with matching du'as from the du'a dataset
+ * - Tahlil: the recitation sequence; Quran portions open in the reader and the
+ *   adhkar run in the tasbih counter (tahlil mode)
+ * - Gathering: create or join a shared gathering where attendees claim Yasin
+ *   recitations or juz for the deceased
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { MotiView } from 'moti';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import { useTheme } from '../../../../context/ThemeContext';
+import { useDoas } from '../../../../api/services/duas';
+import {
+  JANAZAH_STEPS,
+  TAHLIL_SEQUENCE,
+  YASIN_COUNT_PRESETS,
+  getDoasForJanazahStep,
+  getGatheringProgress,
+  normalizeGatheringCode,
+  useCreateTahlilGathering,
+  useRecentTahlilGatherings,
+  type TahlilStep,
+} from '../../../../api/services/tahlil';
+import { useTasbihStore } from '../../../../stores/useTasbihStore';
+import { useAuthStore } from '../../../../stores/useAuthStore';
+import { enter } from '../../../../utils';
+
+type Section = 'janazah' | 'tahlil' | 'gathering';
+
+const SECTIONS: { value: Section; label: string }[] = [
+  { value: 'janazah', label: 'Janazah' },
+  { value: 'tahlil', label: 'Tahlil' },
+  { value: 'gathering', label: 'Gathering' },
+];
+
+const TahlilScreen: React.FC = () => {
+  const { theme, isDarkMode } = useTheme();
+  const [section, setSection] = useState<Section>('janazah');
+
+  const gradientColors = isDarkMode
+    ? (['#060B18', '#0C1428', '#080F1E'] as const)
+    : (['#EEF2FF', '#F0F4FF', '#E8EFFF'] as const);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={gradientColors} style={StyleSheet.absoluteFill} />
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+          style={styles.headerContainer}
+        >
+          <View style={[styles.iconBadge, { backgroundColor: theme.colors.accent + '15' }]}>
+            <FontAwesome6 name="book-quran" size={32} color={theme.colors.accent} />
+          </View>
+          <Text style={[styles.headerTitle, { color: theme.colors.text.primary }]}>Tahlil & Janazah</Text>
+          <Text style={[styles.headerSubtitle, { color: theme.colors.text.secondary }]}>
+            Rites, du'as and shared recitations for the deceased
+          </Text>
+        </MotiView>
+
+        <View style={[styles.segments, { backgroundColor: theme.colors.secondary }]}>
+          {SECTIONS.map(({ value, label }) => {
+            const active = section === value;
+            return (
+              <TouchableOpacity
+                key={value}
+                onPress={() => setSection(value)}
+                style={[styles.segment, active && { backgroundColor: theme.colors.accent }]}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.segmentText, { color: active ? '#fff' : theme.colors.text.secondary }]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {section === 'janazah' && <JanazahSection />}
+        {section === 'tahlil' && <TahlilSection />}
+        {section === 'gathering' && <GatheringSection />}
+      </ScrollView>
+    </View>
+  );
+};
+
+// ============================================================================
+// JANAZAH
+// ============================================================================
+
+const JanazahSection: React.FC = () => {
+  const { theme } = useTheme();
+  const router = useRouter();
+  const { data: doas = [] } = useDoas();
+
+  return (
+    <View style={styles.section}>
+      {JANAZAH_STEPS.map((step, index) => {
+        const related = getDoasForJanazahStep(doas, step);
+        return (
+          <View key={step.id} style={[styles.card, { backgroundColor: theme.colors.secondary }]}>
+            <View style={styles.cardHeader}>
+              <View style={[styles.stepNumber, { backgroundColor: theme.colors.accent + '20' }]}>
+                <Text style={[styles.stepNumberText, { color: theme.colors.accent }]}>{index + 1}</Text>
+              </View>
+              <Text style={[styles.cardTitle, { color: theme.colors.text.primary }]}>{step.title}</Text>
+            </View>
+
+            {step.points.map((point) => (
+              <Text key={point} style={[styles.point, { color: theme.colors.text.secondary }]}>
+                • {point}
+              </Text>
+            ))}
+
+            {related.length > 0 && (
+              <View style={styles.chips}>
+                {related.map((doa) => (
+                  <TouchableOpacity
+                    key={doa.number}
+                    onPress={() => router.push(`/doas/${doa.number}` as any)}
+                    style={[styles.chip, { backgroundColor: theme.colors.accent + '15' }]}
+                  >
+                    <FontAwesome6 name="hands-praying" size={11} color={theme.colors.accent} />
+                    <Text style={[styles.chipText, { color: theme.colors.accent }]} numberOfLines={1}>
+                      {doa.title}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+// ============================================================================
+// TAHLIL
+// ============================================================================
+
+const STEP_ICONS: Record<TahlilStep['kind'], string> = {
+  quran: 'book-quran',
+  adhkar: 'circle-dot',
+  doa: 'hands-praying',
+};
+
+const TahlilSection: React.FC = () => {
+  const { theme } = useTheme();
+  const router = useRouter();
+  const setMode = useTasbihStore((state) => state.setMode);
+
+  const openStep = (step: TahlilStep) => {
+    if (step.kind === 'quran' && step.surah) {
+      router.push({ pathname: `/surahs/${step.surah}` as any, params: { ayahIndex: step.ayah ?? 1 } });
+    } else if (step.kind === 'adhkar') {
+      setMode('tahlil');
+      router.push('/tasbih');
+    } else {
+      router.push('/doa');
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      {TAHLIL_SEQUENCE.map((step, index) => (
+        <TouchableOpacity
+          key={step.id}
+          onPress={() => openStep(step)}
+          activeOpacity={0.8}
+          style={[styles.card, styles.row, { backgroundColor: theme.colors.secondary }]}
+        >
+          <View style={[styles.stepNumber, { backgroundColor: theme.colors.accent + '20' }]}>
+            <Text style={[styles.stepNumberText, { color: theme.colors.accent }]}>{index + 1}</Text>
+          </View>
+          <View style={styles.rowBody}>
+            <Text style={[styles.cardTitle, { color: theme.colors.text.primary }]}>
+              {step.title}
+              {step.repeat ? ` ×${step.repeat}` : ''}
+            </Text>
+            <Text style={[styles.point, { color: theme.colors.text.secondary }]}>{step.description}</Text>
+          </View>
+          <FontAwesome6 name={STEP_ICONS[step.kind]} size={16} color={theme.colors.accent} />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+// ============================================================================
+// GATHERING
+// ============================================================================
+
+const GatheringSection: React.FC = () => {
+  const { theme } = useTheme();
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+  const createGathering = useCreateTahlilGathering();
+  const { data: recent = [], isLoading: loadingRecent } = useRecentTahlilGatherings();
+
+  const [deceasedName, setDeceasedName] = useState('');
+  const [note, setNote] = useState('');
+  const [yasinCount, setYasinCount] = useState<number>(YASIN_COUNT_PRESETS[0]);
+  const [includeJuz, setIncludeJuz] = useState(false);
+  const [code, setCode] = useState('');
+
+  const joinCode = useMemo(() => normalizeGatheringCode(code), [code]);
+
+  const handleCreate = () => {
+    if (!user) {
+      Alert.alert('Sign in required', 'Sign in to host a gathering.');
+      return;
+    }
+    if (!deceasedName.trim()) {
+      Alert.alert('Name required', 'Enter the name of the deceased.');
+      return;
+    }
+    createGathering.mutate(
+      {
+        input: { deceasedName, note, yasinCount, includeJuz, date: null },
+        host: { userId: user.uid, name: user.displayName || 'Host' },
+      },
+      {
+        onSuccess: (gathering) => {
+          setDeceasedName('');
+          setNote('');
+          router.push(`/tahlil/${gathering.id}` as any);
+        },
+        onError: (error) => Alert.alert('Could not create gathering', error.message),
+      }
+    );
+  };
+
+  const inputStyle = [styles.input, { color: theme.colors.text.primary, borderColor: theme.colors.text.muted + '40' }];
+
+  return (
+    <View style={styles.section}>
+      {/* Join */}
+      <View style={[styles.card, { backgroundColor: theme.colors.secondary }]}>
+        <Text style={[styles.cardTitle, { color: theme.colors.text.primary }]}>Join a gathering</Text>
+        <View style={styles.joinRow}>
+          <TextInput
+            value={code}
+            onChangeText={setCode}
+            placeholder="Code"
+            placeholderTextColor={theme.colors.text.muted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            style={[inputStyle, styles.joinInput]}
+          />
+          <TouchableOpacity
+            disabled={joinCode.length === 0}
+            onPress={() => router.push(`/tahlil/${joinCode}` as any)}
+            style={[styles.button, { backgroundColor: theme.colors.accent, opacity: joinCode ? 1 : 0.5 }]}
+          >
+            <Text style={styles.buttonText}>Join</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Create */}
+      <View style={[styles.card, { backgroundColor: theme.colors.secondary }]}>
+        <Text style={[styles.cardTitle, { color: theme.colors.text.primary }]}>Host a gathering</Text>
+        <TextInput
+          value={deceasedName}
+          onChangeText={setDeceasedName}
+          placeholder="Name of the deceased"
+          placeholderTextColor={theme.colors.text.muted}
+          style={inputStyle}
+        />
+        <TextInput
+          value={note}
+          onChangeText={setNote}
+          placeholder="Note (time, place…)"
+          placeholderTextColor={theme.colors.text.muted}
+          style={inputStyle}
+        />
+
+        <Text style={[styles.label, { color: theme.colors.text.secondary }]}>Yasin recitations</Text>
+        <View style={styles.chips}>
+          {YASIN_COUNT_PRESETS.map((count) => {
+            const active = yasinCount === count;
+            return (
+              <TouchableOpacity
+                key={count}
+                onPress={() => setYasinCount(count)}
+                style={[styles.chip, { backgroundColor: active ? theme.colors.accent : theme.colors.accent + '15' }]}
+              >
+                <Text style={[styles.chipText, { color: active ? '#fff' : theme.colors.accent }]}>{count}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.switchRow}>
+          <Text style={[styles.label, { color: theme.colors.text.secondary }]}>Also share a 30-juz khatam</Text>
+          <Switch value={includeJuz} onValueChange={setIncludeJuz} trackColor={{ true: theme.colors.accent }} />
+        </View>
+
+        <TouchableOpacity
+          onPress={handleCreate}
+          disabled={createGathering.isPending}
+          style={[styles.button, { backgroundColor: theme.colors.accent }]}
+        >
+          {createGathering.isPending ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Create & share</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Recent */}
+      {loadingRecent ? (
+        <ActivityIndicator color={theme.colors.accent} />
+      ) : (
+        recent.map((gathering) => {
+          const progress = getGatheringProgress(gathering);
+          return (
+            <TouchableOpacity
+              key={gathering.id}
+              onPress={() => router.push(`/tahlil/${gathering.id}` as any)}
+              style={[styles.card, styles.row, { backgroundColor: theme.colors.secondary }]}
+            >
+              <View style={styles.rowBody}>
+                <Text style={[styles.cardTitle, { color: theme.colors.text.primary }]}>
+                  {gathering.deceasedName}
+                </Text>
+                <Text style={[styles.point, { color: theme.colors.text.secondary }]}>
+                  {gathering.id} · {progress.completed}/{progress.total} recited
+                </Text>
+              </View>
+              <FontAwesome6 name="chevron-right" size={14} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+
+  // Header
+  headerContainer: {
+    marginBottom: 20,
+    gap: 8,
+  },
+  iconBadge: {
+    width: 70,
+    height: 70,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontFamily: 'Outfit_700Bold',
+  },
+  headerSubtitle: {
+    fontSize: 15,
+    fontFamily: 'Outfit_400Regular',
+  },
+
+  // Segments
+  segments: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+
+  // Cards
+  section: {
+    gap: 12,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  stepNumber: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepNumberText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_700Bold',
+  },
+  point: {
+    fontSize: 14,
+    fontFamily: 'Outfit_400Regular',
+    lineHeight: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowBody: {
+    flex: 1,
+    gap: 2,
+  },
+
+  // Chips
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 10,
+    maxWidth: '100%',
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+
+  // Form
+  label: {
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    fontFamily: 'Outfit_400Regular',
+  },
+  joinRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  joinInput: {
+    flex: 1,
+    letterSpacing: 2,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+});
+
+export default TahlilScreen;
@@ -1,8 +1,8 @@
 /**
  * TasbihSettingsSheet
  *
- * Customize the tasbih: post-salah set vs a single dhikr, which dhikr (library
- * or your own), and the target (33 / 99 / 100 / free).
+ * Customize the tasbih: post-salah set, tahlil adhkar or a single dhikr, which
+ * dhikr (library or your own), and the target (33 / 99 / 100 / free).
  */
 
 import React, { useState } from 'react';
@@ -23,6 +23,7 @@ import { useTheme } from '../../../context/ThemeContext';
 import { useAccent } from '../../../hooks/useAccent';
 import {
   useTasbihStore,
+  type TasbihMode,
   ADHKAR_LIBRARY,
   TARGET_PRESETS,
   CUSTOM_DHIKR_ID,
@@ -71,7 +72,7 @@ const TasbihSettingsSheet: React.FC<Props> = ({ visible, onClose }) => {
     });
   };
 
-  const ModeOption = ({ value, title, subtitle }: { value: 'postSalah' | 'single'; title: string; subtitle: string }) => {
+  const ModeOption = ({ value, title, subtitle }: { value: TasbihMode; title: string; subtitle: string }) => {
     const selected = mode === value;
     return (
       <TouchableOpacity
@@ -100,6 +101,7 @@ const TasbihSettingsSheet: React.FC<Props> = ({ visible, onClose }) => {
             <Text style={[styles.section, { color: theme.colors.text.muted }]}>MODE</Text>
             <View style={styles.modeRow}>
               <ModeOption value="postSalah" title="Post-salah" subtitle="33 · 33 · 34" />
+              <ModeOption value="tahlil" title="Tahlil" subtitle="3 · 100 · 33 · 10" />
               <ModeOption value="single" title="Single dhikr" subtitle="Your choice" />
             </View>
 
@@ -2,7 +2,8 @@
  * Progress — unified "spiritual progress" surface.
  *
  * A calm, glanceable overview of prayer consistency, Quran reading, the Khatam
- * plan, and community. Pure aggregation over existing hooks — no new backend.
+ * plan, hifz reviews, the Iqra course, and community. Pure aggregation over existing hooks —
+ * no new backend.
  * Tasteful encouragement, never guilt.
  */
 
@@ -18,7 +19,7 @@ import { format, subDays } from 'date-fns';
 import { useTheme } from '../../../context/ThemeContext';
 import { useAccent } from '../../../hooks/useAccent';
 import { useAuthStore } from '../../../stores/useAuthStore';
-import { LOGGABLE_PRAYERS } from '../../../api/services/prayer';
+import { LOGGABLE_PRAYERS, getCompletedPrayersCount, isPrayerPrayed } from '../../../api/services/prayer';
 import {
   usePrayerStats,
   useTodayPrayerLog,
@@ -30,6 +31,8 @@ import {
   calculateRecitationProgress,
 } from '../../../stores/useQuranStore';
 import { useTasbihToday } from '../../../stores/useTasbihStore';
+import { useIqraProgress } from '../../../stores/useIqraStore';
+import { useHifzStats } from '../../../stores/useHifzStore';
 import SignInModal from '../../../components/SignInModal';
 import { enter } from '../../../utils';
 
@@ -117,11 +120,11 @@ export default function ProgressScreen() {
 
   const todayPrayers = todayLog?.prayers;
   const todayLogged = useMemo(
-    () => LOGGABLE_PRAYERS.filter((p) => todayPrayers?.[p] === true).length,
+    () => (todayPrayers ? getCompletedPrayersCount(todayPrayers) : 0),
     [todayPrayers]
   );
   const nextUnlogged = useMemo(
-    () => LOGGABLE_PRAYERS.find((p) => !todayPrayers?.[p]),
+    () => LOGGABLE_PRAYERS.find((p) => (todayPrayers?.[p]?.status ?? 'missed') === 'missed'),
     [todayPrayers]
   );
 
@@ -131,7 +134,7 @@ export default function ProgressScreen() {
       const d = subDays(new Date(), i);
       const key = format(d, 'yyyy-MM-dd');
       const prayers = weeklyLogs?.[key];
-      const logged = prayers ? LOGGABLE_PRAYERS.filter((p) => prayers[p] === true).length : 0;
+      const logged = prayers ? getCompletedPrayersCount(prayers) : 0;
       out.push({ key, label: format(d, 'EEEEE'), logged });
     }
     return out;
@@ -145,13 +148,18 @@ export default function ProgressScreen() {
   // ---- Dhikr (tasbih) ----
   const dhikrToday = useTasbihToday();
 
+  // ---- Hifz (memorisation) ----
+  const hifz = useHifzStats();
+
+  // ---- Iqra course ----
+  const iqra = useIqraProgress();
+
   // ---- Gentle nudge ----
   const nudge = useMemo(() => {
-    if (!userId) return "Sign in to track your prayers and build a streak.";
     if (todayLogged >= 5) return "All five prayers logged today — masha'Allah.";
     if (nextUnlogged) return `Next up: ${nextUnlogged}. Log it once you've prayed.`;
     return "Log today's prayers to start your streak.";
-  }, [userId, todayLogged, nextUnlogged]);
+  }, [todayLogged, nextUnlogged]);
 
   const gradientColors = isDarkMode
     ? (['#060B18', '#0C1428', '#080F1E'] as const)
@@ -169,8 +177,8 @@ export default function ProgressScreen() {
 
           <View style={styles.todayHeader}>
             <Text style={[styles.todayCount, { color: textPrimary }]}>
-              {userId ? `${todayLogged}` : '—'}
-              <Text style={[styles.todayCountTotal, { color: textMuted }]}>{userId ? ' / 5' : ''}</Text>
+              {todayLogged}
+              <Text style={[styles.todayCountTotal, { color: textMuted }]}> / 5</Text>
             </Text>
             <Text style={[styles.todayCaption, { color: textSecondary }]}>prayers logged</Text>
           </View>
@@ -178,7 +186,7 @@ export default function ProgressScreen() {
           {/* Five prayer dots */}
           <View style={styles.prayerDots}>
             {LOGGABLE_PRAYERS.map((p) => {
-              const done = todayPrayers?.[p] === true;
+              const done = isPrayerPrayed(todayPrayers?.[p]);
               return (
                 <View key={p} style={styles.prayerDot}>
                   <View
@@ -204,19 +212,20 @@ export default function ProgressScreen() {
             <Text style={[styles.nudgeText, { color: textSecondary }]}>{nudge}</Text>
           </View>
 
-          {!userId ? (
+          <TouchableOpacity style={styles.linkRow} activeOpacity={0.7} onPress={() => router.push('/prayerDashboard')}>
+            <Text style={[styles.linkText, { color: accent }]}>Open prayer log</Text>
+            <FontAwesome6 name="chevron-right" size={11} color={accent} />
+          </TouchableOpacity>
+
+          {/* Guests log on this device; signing in backs the history up */}
+          {!userId && (
             <TouchableOpacity
               style={[styles.primaryButton, { backgroundColor: accent }]}
               activeOpacity={0.85}
               onPress={() => setShowSignIn(true)}
             >
               <FontAwesome6 name="right-to-bracket" size={14} color="#fff" />
-              <Text style={styles.primaryButtonText}>Sign in</Text>
-            </TouchableOpacity>
-          ) : (
-            <TouchableOpacity style={styles.linkRow} activeOpacity={0.7} onPress={() => router.push('/prayerDashboard')}>
-              <Text style={[styles.linkText, { color: accent }]}>Open prayer log</Text>
-              <FontAwesome6 name="chevron-right" size={11} color={accent} />
+              <Text style={styles.primaryButtonText}>Sign in to back up</Text>
             </TouchableOpacity>
           )}
         </Card>
@@ -306,6 +315,47 @@ export default function ProgressScreen() {
           )}
         </Card>
 
+        {/* ---- Hifz (memorisation) ---- */}
+        <Card isDarkMode={isDarkMode} delay={150} onPress={() => router.push('/hifz')}>
+          <SectionLabel icon="brain" label="HIFZ" accent={accent} muted={textMuted} />
+
+          {hifz.rangeCount > 0 ? (
+            <>
+              <View style={styles.quranRow}>
+                <View style={styles.streakStat}>
+                  <Text style={[styles.streakValue, { color: textPrimary }]}>{hifz.memorisedAyahs}</Text>
+                  <Text style={[styles.streakLabel, { color: textMuted }]}>ayahs memorised</Text>
+                </View>
+                <View style={[styles.streakDivider, { backgroundColor: textMuted + '33' }]} />
+                <View style={styles.streakStat}>
+                  <Text style={[styles.streakValue, { color: textPrimary }]}>
+                    {hifz.retention === null ? '—' : `${Math.round(hifz.retention * 100)}%`}
+                  </Text>
+                  <Text style={[styles.streakLabel, { color: textMuted }]}>retention</Text>
+                </View>
+                <View style={[styles.streakDivider, { backgroundColor: textMuted + '33' }]} />
+                <View style={styles.streakStat}>
+                  <Text style={[styles.streakValue, { color: textPrimary }]}>{hifz.matureRanges}</Text>
+                  <Text style={[styles.streakLabel, { color: textMuted }]}>long-term</Text>
+                </View>
+              </View>
+              <View style={styles.linkRow}>
+                <Text style={[styles.linkText, { color: accent }]}>
+                  {hifz.dueToday > 0
+                    ? `${hifz.dueToday} ${hifz.dueToday === 1 ? 'review' : 'reviews'} due today`
+                    : 'All reviews done for today'}
+                </Text>
+                <FontAwesome6 name="chevron-right" size={11} color={accent} />
+              </View>
+            </>
+          ) : (
+            <View style={styles.linkRow}>
+              <Text style={[styles.linkText, { color: accent }]}>Track what you memorise</Text>
+              <FontAwesome6 name="chevron-right" size={11} color={accent} />
+            </View>
+          )}
+        </Card>
+
         {/* ---- Dhikr / Tasbih ---- */}
         <Card isDarkMode={isDarkMode} delay={180} onPress={() => router.push('/tasbih')}>
           <View style={styles.navRow}>
@@ -322,6 +372,26 @@ export default function ProgressScreen() {
           </View>
         </Card>
 
+        {/* ---- Iqra (learn to read) ---- */}
+        <Card isDarkMode={isDarkMode} delay={210} onPress={() => router.push('/iqra')}>
+          <View style={styles.navRow}>
+            <View style={[styles.navIcon, { backgroundColor: accent + '15' }]}>
+              <FontAwesome6 name="spell-check" size={18} color={accent} />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.navTitle, { color: textPrimary }]}>Learn to Read</Text>
+              <Text style={[styles.navSub, { color: textMuted }]}>
+                {iqra.next
+                  ? iqra.completed > 0
+                    ? `${iqra.completed}/${iqra.total} lessons · next: ${iqra.next.title}`
+                    : 'Iqra course from the first letter'
+                  : 'Iqra course complete'}
+              </Text>
+            </View>
+            <FontAwesome6 name="chevron-right" size={14} color={textMuted} />
+          </View>
+        </Card>
+
         <View style={{ height: 80 }} />
       </ScrollView>
 
@@ -10,7 +10,7 @@
  */
 
 import React, { useCallback, useRef, useMemo } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Animated, Alert } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Animated } from 'react-native';
 import { FontAwesome6 } from '@expo/vector-icons';
 import { format, subDays, addDays, startOfWeek } from 'date-fns';
 import { Skeleton } from 'moti/skeleton';
@@ -27,7 +27,17 @@ import { useTheme } from '../../../../context/ThemeContext';
 import { useAccent } from '../../../../hooks/useAccent';
 import { useAuth } from '../../../../stores/useAuthStore';
 import { useLocationStore } from '../../../../stores/useLocationStore';
-import { LOGGABLE_PRAYERS, useTodayPrayerTimes } from '../../../../api/services/prayer';
+import { useCalculationProfile } from '../../../../stores/userPreferencesStore';
+import {
+  GUEST_USER_ID,
+  LOGGABLE_PRAYERS,
+  PRAYER_STATUS_LABELS,
+  createEmptyPrayerLogPrayers,
+  createPrayerLogEntry,
+  getCompletedPrayersCount,
+  isPrayerPrayed,
+  useTodayPrayerTimes,
+} from '../../../../api/services/prayer';
 import { usePrayerLog, useWeeklyPrayerLogs, useSavePrayerLog } from '../../../../api/services/prayer/queries/prayer-logs';
 import { prayerQueryKeys } from '../../../../api/services/prayer/queries/query-keys'; // ✅ ADDED
 import { usePrayerStreakManager } from '../../../../hooks/prayer/usePrayerStreakManager';
@@ -37,11 +47,14 @@ import { usePrayerDateNavigation } from '../../../../hooks/prayer/usePrayerDateN
 import type { PrayerLog } from '../../../../api/services/prayer';
 import { type LocalPrayerName } from '../../../../api/services/prayer/types';
 
-// Weekly logs type - maps dates to prayer completion objects
+// Weekly logs type - maps dates to prayer status entries
 type WeeklyLogs = Record<string, PrayerLog['prayers']>;
 
 // Components
 import SignInModal from '../../../../components/SignInModal';
+import QadhaLedgerCard from '../../../../components/prayer/QadhaLedgerCard';
+import GuestSyncCard from '../../../../components/prayer/GuestSyncCard';
+import PrayerAnalyticsCard from '../../../../components/prayer/PrayerAnalyticsCard';
 
 // Utils
 import { enter, shakeButton } from '../../../../utils';
@@ -169,7 +182,8 @@ const PrayersDashboard: React.FC = () => {
   const isToday = isSameDate(selectedDate, new Date());
 
   // Prayer times (for availability checking)
-  const { data: todayPrayerData } = useTodayPrayerTimes(location);
+  const calculationProfile = useCalculationProfile();
+  const { data: todayPrayerData } = useTodayPrayerTimes(location, calculationProfile);
 
   // Prayer log for selected date
   const { data: prayerLog, isLoading: isLoadingLog } = usePrayerLog(userId, dateStr);
@@ -179,7 +193,7 @@ const PrayersDashboard: React.FC = () => {
   const endDate = format(addDays(new Date(), 3), 'yyyy-MM-dd');
   const { data: weeklyLogs, isLoading: isLoadingWeekly } = useWeeklyPrayerLogs(userId, startDate, endDate);
 
-  const streakInfo = usePrayerStreakManager(weeklyLogs, userId);
+  const streakInfo = usePrayerStreakManager(weeklyLogs, userId ?? GUEST_USER_ID);
 
   const { mutate: savePrayerLog } = useSavePrayerLog();
 
@@ -188,7 +202,7 @@ const PrayersDashboard: React.FC = () => {
     if (!todayPrayerData) return undefined;
 
     return LOGGABLE_PRAYERS.map(prayer => {
-      const prayerTime = todayPrayerData[prayer.toLowerCase() as keyof typeof todayPrayerData];
+      const prayerTime = todayPrayerData[prayer.toLowerCase() as Lowercase<typeof prayer>];
       return {
         prayer,
         isAvailable: isPrayerLoggable(prayerTime, selectedDate),
@@ -203,8 +217,7 @@ const PrayersDashboard: React.FC = () => {
   const isLogged = useCallback(
     (dayIndex: number, session: LocalPrayerName) => {
       const date = format(addDays(weekStart, dayIndex), 'yyyy-MM-dd');
-      const logged = weeklyLogs?.[date]?.[session as keyof PrayerLog['prayers']] ?? false;
-      return logged;
+      return isPrayerPrayed(weeklyLogs?.[date]?.[session as keyof PrayerLog['prayers']]);
     },
     [weekStart, weeklyLogs]
   );
@@ -212,19 +225,6 @@ const PrayersDashboard: React.FC = () => {
   // ✅ FIXED: Handle prayer toggle with proper query keys
   const handleTogglePrayer = useCallback(
     async (prayer: LocalPrayerName) => {
-      if (!userId) {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-        Alert.alert(
-          'Authentication Required',
-          'Please create an account to log your prayers.',
-          [
-            { text: 'Cancel', style: 'cancel' },
-            { text: 'Sign Up', onPress: () => setIsAuthModalVisible(true) },
-          ]
-        );
-        return;
-      }
-
       // Check if prayer time has passed (only for today)
       const prayerAvailability = toggablePrayers?.find((p) => p.prayer === prayer);
       const isAvailable = prayerAvailability?.isAvailable ?? false;
@@ -242,7 +242,7 @@ const PrayersDashboard: React.FC = () => {
       }
 
       // ✅ CRITICAL FIX: Use the SAME query key as the mutation
-      const queryKey = prayerQueryKeys.logs.daily(userId, dateStr);
+      const queryKey = prayerQueryKeys.logs.daily(userId ?? GUEST_USER_ID, dateStr);
 
       // ✅ Cancel any pending mutations
       await queryClient.cancelQueries({ queryKey });
@@ -250,19 +250,13 @@ const PrayersDashboard: React.FC = () => {
       // ✅ Read FRESH data from React Query cache
       const currentLog = queryClient.getQueryData<PrayerLog>(queryKey);
 
-      const currentPrayers = currentLog?.prayers || {
-        Subuh: false,
-        Zohor: false,
-        Asar: false,
-        Maghrib: false,
-        Isyak: false,
-      };
+      const currentPrayers = currentLog?.prayers ?? createEmptyPrayerLogPrayers();
 
-      const isCurrentlyLogged = currentPrayers[prayer as keyof PrayerLog['prayers']];
+      const isCurrentlyLogged = isPrayerPrayed(currentPrayers[prayer as keyof PrayerLog['prayers']]);
 
       const updatedPrayers = {
         ...currentPrayers,
-        [prayer]: !isCurrentlyLogged,
+        [prayer]: createPrayerLogEntry(isCurrentlyLogged ? 'missed' : 'on_time'),
       };
 
       logger.debug('Dashboard toggle', { prayer, dateStr, before: isCurrentlyLogged, after: !isCurrentlyLogged });
@@ -300,7 +294,7 @@ const PrayersDashboard: React.FC = () => {
   // Calculate completion stats
   const completionStats = useMemo(() => {
     if (!prayerLog?.prayers) return { completed: 0, total: 5, percentage: 0 };
-    const completed = Object.values(prayerLog.prayers).filter(Boolean).length;
+    const completed = getCompletedPrayersCount(prayerLog.prayers);
     return {
       completed,
       total: 5,
@@ -429,7 +423,9 @@ const PrayersDashboard: React.FC = () => {
           {LOGGABLE_PRAYERS.map((prayer, index) => {
             const config = PRAYER_CONFIG[prayer];
             const isAvailable = toggablePrayers?.find((p) => p.prayer === prayer)?.isAvailable ?? false;
-            const isCompleted = prayerLog?.prayers?.[prayer as keyof PrayerLog['prayers']] ?? false;
+            const entry = prayerLog?.prayers?.[prayer as keyof PrayerLog['prayers']];
+            const isCompleted = isPrayerPrayed(entry);
+            const showStatus = !!entry && entry.status !== 'on_time' && entry.status !== 'missed';
 
             return (
               <MotiView key={prayer} {...enter(index + 2)}>
@@ -448,7 +444,14 @@ const PrayersDashboard: React.FC = () => {
                     <FontAwesome6 name={config.icon} size={20} color={config.color} />
                   </View>
 
-                  <Text style={[styles.prayerName, { color: theme.colors.text.primary }]}>{prayer}</Text>
+                  <View style={styles.prayerInfo}>
+                    <Text style={[styles.prayerName, { color: theme.colors.text.primary }]}>{prayer}</Text>
+                    {showStatus && (
+                      <Text style={[styles.prayerStatus, { color: theme.colors.text.muted }]}>
+                        {PRAYER_STATUS_LABELS[entry.status]}
+                      </Text>
+                    )}
+                  </View>
 
                   {!isAvailable ? (
                     <View style={[styles.toggleButton, { backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}>
@@ -546,6 +549,27 @@ const PrayersDashboard: React.FC = () => {
           </BlurView>
         </MotiView>
 
+        {/* Monthly / yearly analytics */}
+        <MotiView {...enter(8)}>
+          <PrayerAnalyticsCard userId={userId} accent={accent} />
+        </MotiView>
+
+        {/* Guest backup / import report */}
+        <MotiView {...enter(9)}>
+          <GuestSyncCard
+            isGuest={!userId}
+            accent={accent}
+            onSignIn={() => setIsAuthModalVisible(true)}
+          />
+        </MotiView>
+
+        {/* Qadha Ledger */}
+        {userId && (
+          <MotiView {...enter(10)}>
+            <QadhaLedgerCard userId={userId} accent={accent} />
+          </MotiView>
+        )}
+
       </ScrollView>
 
       {/* Auth Modal */}
@@ -674,11 +698,18 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-  prayerName: {
+  prayerInfo: {
     flex: 1,
+  },
+  prayerName: {
     fontSize: 16,
     fontFamily: 'Outfit_600SemiBold',
   },
+  prayerStatus: {
+    fontSize: 12,
+    fontFamily: 'Outfit_400Regular',
+    marginTop: 2,
+  },
   toggleButton: {
     width: 44,
     height: 44,
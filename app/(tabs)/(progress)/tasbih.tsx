@@ -72,7 +72,7 @@ export default function TasbihScreen() {
     : (['#EEF2FF', '#F0F4FF', '#E8EFFF'] as const);
 
   const trackColor = isDarkMode ? 'rgba(255,255,255,0.10)' : 'rgba(0,0,0,0.07)';
-  const roundsLabel = mode === 'postSalah' ? 'sets of 100' : 'rounds';
+  const roundsLabel = mode === 'postSalah' ? 'sets of 100' : mode === 'tahlil' ? 'tahlil rounds' : 'rounds';
 
   return (
     <LinearGradient colors={gradientColors} style={styles.container}>
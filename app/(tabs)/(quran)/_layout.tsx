@@ -219,6 +219,65 @@ const QuranLayout = () => {
           headerLeft: () => <BackButton />,
         }}
       />
+
+      {/* Iqra reading course */}
+      <Stack.Screen
+        name="iqra/index"
+        options={{
+          headerShown: true,
+          headerTitle: 'Learn to Read',
+          headerTitleStyle: {
+            fontFamily: 'Outfit_700Bold',
+            fontSize: 20,
+            color: theme.colors.text.primary,
+          },
+          headerStyle: {
+            backgroundColor: isDarkMode ? '#060B18' : '#EEF2FF',
+          },
+          headerShadowVisible: false,
+          headerBackground: () => <AccentHeaderBackground backgroundColor={headerBg} />,
+          headerLeft: () => <BackButton />,
+        }}
+      />
+
+      <Stack.Screen
+        name="iqra/[lessonId]"
+        options={{
+          headerShown: true,
+          headerTitle: 'Iqra',
+          headerTitleStyle: {
+            fontFamily: 'Outfit_700Bold',
+            fontSize: 20,
+            color: theme.colors.text.primary,
+          },
+          headerStyle: {
+            backgroundColor: isDarkMode ? '#060B18' : '#EEF2FF',
+          },
+          headerShadowVisible: false,
+          headerBackground: () => <AccentHeaderBackground backgroundColor={headerBg} />,
+          headerLeft: () => <BackButton />,
+        }}
+      />
+
+      {/* Hifz (memorisation) tracker */}
+      <Stack.Screen
+        name="hifz/index"
+        options={{
+          headerShown: true,
+          headerTitle: 'Hifz Tracker',
+          headerTitleStyle: {
+            fontFamily: 'Outfit_700Bold',
+            fontSize: 20,
+            color: theme.colors.text.primary,
+          },
+          headerStyle: {
+            backgroundColor: isDarkMode ? '#060B18' : '#EEF2FF',
+          },
+          headerShadowVisible: false,
+          headerBackground: () => <AccentHeaderBackground backgroundColor={headerBg} />,
+          headerLeft: () => <BackButton />,
+        }}
+      />
     </Stack>
     {showMiniPlayer && <FloatingPlayer />}
     </View>
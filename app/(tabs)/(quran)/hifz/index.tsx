@@ -0,0 +1,321 @@
+/**
+ * Hifz Tracker
+ *
+ * Memorised ayah ranges and their spaced-repetition reviews: retention stats,
+ * today's review queue (each review opens the reader in test mode, where the
+ * recall is graded), every tracked range with its next review, and the
+ * optional sync to the user's profile. Ranges are marked from the
+ * memorisation sheet in the reader.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Switch, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { MotiView } from 'moti';
+import { LinearGradient } from 'expo-linear-gradient';
+import { formatDistanceToNow } from 'date-fns';
+import * as Haptics from 'expo-haptics';
+
+import { useTheme } from '../../../../context/ThemeContext';
+import { useAccent } from '../../../../hooks/useAccent';
+import { useHifzSync } from '../../../../hooks/quran/useHifzSync';
+import {
+  formatHifzRange,
+  useHifzDueQueue,
+  useHifzRanges,
+  useHifzStats,
+  useHifzStore,
+  type HifzRange,
+} from '../../../../stores/useHifzStore';
+import { formatDue } from '../../../../utils/quran/spacedRepetition';
+import SignInModal from '../../../../components/SignInModal';
+import { enter } from '../../../../utils';
+
+const HifzTrackerScreen: React.FC = () => {
+  const { theme, isDarkMode } = useTheme();
+  const { accent } = useAccent();
+  const router = useRouter();
+
+  const ranges = useHifzRanges();
+  const dueQueue = useHifzDueQueue();
+  const stats = useHifzStats();
+  const removeRange = useHifzStore((s) => s.removeRange);
+  const syncEnabled = useHifzStore((s) => s.syncEnabled);
+  const setSyncEnabled = useHifzStore((s) => s.setSyncEnabled);
+  const sync = useHifzSync();
+  const [showSignIn, setShowSignIn] = useState(false);
+
+  const textPrimary = isDarkMode ? 'rgba(255,255,255,0.90)' : theme.colors.text.primary;
+  const textMuted = isDarkMode ? 'rgba(255,255,255,0.45)' : theme.colors.text.muted;
+  const cardStyle = {
+    backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.88)',
+    borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+  };
+
+  const startReview = (range: HifzRange) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({
+      pathname: `/surahs/${range.surah}` as any,
+      params: { ayahIndex: range.startAyah, hifz: range.id },
+    });
+  };
+
+  const confirmRemove = (range: HifzRange) => {
+    Alert.alert('Stop tracking?', `${formatHifzRange(range)} and its review schedule will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => removeRange(range.id) },
+    ]);
+  };
+
+  const handleSyncToggle = (on: boolean) => {
+    Haptics.selectionAsync();
+    if (on && !sync.isSignedIn) {
+      setShowSignIn(true);
+      return;
+    }
+    setSyncEnabled(on);
+  };
+
+  const retention = stats.retention === null ? '—' : `${Math.round(stats.retention * 100)}%`;
+  const statTiles = [
+    { label: 'Ayahs memorised', value: String(stats.memorisedAyahs) },
+    { label: 'Due today', value: String(stats.dueToday) },
+    { label: 'Retention (30 days)', value: retention },
+    { label: 'Long-term', value: `${stats.matureRanges}/${stats.rangeCount}` },
+  ];
+
+  return (
+    <LinearGradient
+      colors={isDarkMode ? ['#060B18', '#0C1428', '#080F1E'] as const : ['#EEF2FF', '#F0F4FF', '#E8EFFF'] as const}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Stats */}
+        <MotiView from={{ opacity: 0, translateY: -16 }} animate={{ opacity: 1, translateY: 0 }} transition={enter(0)}>
+          <View style={styles.statsGrid}>
+            {statTiles.map((tile) => (
+              <BlurView
+                key={tile.label}
+                intensity={20}
+                tint={isDarkMode ? 'dark' : 'light'}
+                style={[styles.card, styles.statTile, cardStyle]}
+              >
+                <Text style={[styles.statValue, { color: accent }]}>{tile.value}</Text>
+                <Text style={[styles.caption, { color: textMuted }]}>{tile.label}</Text>
+              </BlurView>
+            ))}
+          </View>
+        </MotiView>
+
+        {/* Today's reviews */}
+        <MotiView from={{ opacity: 0, translateY: 16 }} animate={{ opacity: 1, translateY: 0 }} transition={enter(1)}>
+          <Text style={[styles.sectionTitle, { color: textPrimary }]}>Today's reviews</Text>
+          <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, cardStyle]}>
+            {ranges.length === 0 ? (
+              <Text style={[styles.caption, { color: textMuted }]}>
+                Open a surah, tap the brain icon and mark the ayahs you have memorised. They will show up
+                here when it is time to review them.
+              </Text>
+            ) : dueQueue.length === 0 ? (
+              <View style={styles.emptyRow}>
+                <FontAwesome6 name="circle-check" size={16} color={accent} solid />
+                <Text style={[styles.caption, { color: textMuted, flex: 1 }]}>
+                  All caught up — next review {formatDue(ranges[0].due).toLowerCase()}.
+                </Text>
+              </View>
+            ) : (
+              <>
+                {dueQueue.map((range, index) => (
+                  <TouchableOpacity
+                    key={range.id}
+                    onPress={() => startReview(range)}
+                    style={[
+                      styles.rangeRow,
+                      index > 0 && { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: cardStyle.borderColor },
+                    ]}
+                  >
+                    <FontAwesome6 name="eye-slash" size={15} color={accent} />
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.rangeTitle, { color: textPrimary }]}>{formatHifzRange(range)}</Text>
+                      <Text style={[styles.caption, { color: textMuted }]}>{formatDue(range.due)}</Text>
+                    </View>
+                    <FontAwesome6 name="chevron-right" size={12} color={textMuted} />
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  onPress={() => startReview(dueQueue[0])}
+                  style={[styles.reviewButton, { backgroundColor: accent }]}
+                  activeOpacity={0.85}
+                >
+                  <FontAwesome6 name="play" size={14} color="#fff" />
+                  <Text style={styles.reviewText}>Start review</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </BlurView>
+        </MotiView>
+
+        {/* All ranges */}
+        {ranges.length > 0 && (
+          <MotiView from={{ opacity: 0, translateY: 16 }} animate={{ opacity: 1, translateY: 0 }} transition={enter(2)}>
+            <Text style={[styles.sectionTitle, { color: textPrimary }]}>Memorised</Text>
+            <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, styles.list, cardStyle]}>
+              {ranges.map((range, index) => (
+                <View
+                  key={range.id}
+                  style={[
+                    styles.rangeRow,
+                    index > 0 && { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: cardStyle.borderColor },
+                  ]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.rangeTitle, { color: textPrimary }]}>{formatHifzRange(range)}</Text>
+                    <Text style={[styles.caption, { color: textMuted }]}>
+                      Next review: {formatDue(range.due)}
+                      {range.interval > 0 ? ` · every ${range.interval} ${range.interval === 1 ? 'day' : 'days'}` : ''}
+                      {range.lapses > 0 ? ` · ${range.lapses} forgotten` : ''}
+                    </Text>
+                  </View>
+                  <TouchableOpacity hitSlop={10} onPress={() => confirmRemove(range)}>
+                    <FontAwesome6 name="trash-can" size={14} color={textMuted} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </BlurView>
+          </MotiView>
+        )}
+
+        {/* Sync */}
+        <MotiView from={{ opacity: 0, translateY: 16 }} animate={{ opacity: 1, translateY: 0 }} transition={enter(3)}>
+          <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, cardStyle]}>
+            <View style={styles.syncRow}>
+              <View style={[styles.syncIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name="cloud-arrow-up" size={15} color={accent} />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.rangeTitle, { color: textPrimary }]}>Sync to my profile</Text>
+                <Text style={[styles.caption, { color: textMuted }]}>
+                  {!sync.isSignedIn
+                    ? 'Sign in to keep your hifz progress across devices'
+                    : sync.error
+                      ? sync.error
+                      : sync.lastSyncedAt && syncEnabled
+                        ? `Synced ${formatDistanceToNow(sync.lastSyncedAt, { addSuffix: true })}`
+                        : 'Keep your hifz progress across devices'}
+                </Text>
+              </View>
+              {sync.isSyncing ? (
+                <ActivityIndicator size="small" color={accent} />
+              ) : (
+                <Switch
+                  value={syncEnabled && sync.isSignedIn}
+                  onValueChange={handleSyncToggle}
+                  trackColor={{ false: theme.colors.muted, true: accent }}
+                  thumbColor="#fff"
+                />
+              )}
+            </View>
+          </BlurView>
+        </MotiView>
+      </ScrollView>
+
+      <SignInModal visible={showSignIn} onClose={() => setShowSignIn(false)} />
+    </LinearGradient>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 48,
+    gap: 20,
+  },
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 16,
+    gap: 12,
+    overflow: 'hidden',
+  },
+  caption: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  statTile: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    gap: 4,
+  },
+  statValue: {
+    fontSize: 24,
+    fontFamily: 'Outfit_700Bold',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontFamily: 'Outfit_600SemiBold',
+    marginBottom: 10,
+  },
+  emptyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  list: {
+    paddingVertical: 4,
+    gap: 0,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  rangeTitle: {
+    fontSize: 15,
+    fontFamily: 'Outfit_500Medium',
+  },
+  reviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    paddingVertical: 14,
+    borderRadius: 14,
+  },
+  reviewText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  syncIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default HifzTrackerScreen;
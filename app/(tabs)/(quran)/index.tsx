@@ -9,8 +9,10 @@
  * - Better visual hierarchy and spacing
  * - Enhanced Last Read/Listened cards
  * - Quick stats and progress indicators
+ * - Learn to Read entry into the Iqra course
+ * - Hifz tracker entry with today's reviews
  * 
- * @version 2.0
+ * @version 2.2
  * @lastUpdated December 2025
  */
 
@@ -29,6 +31,8 @@ import { useTheme } from '../../../context/ThemeContext';
 import { useAccent } from '../../../hooks/useAccent';
 import { getLastReadAyah, getLastListenedAyah } from '../../../utils/quran/storage';
 import { useQuranStore, useReadingStreak } from '../../../stores/useQuranStore';
+import { useIqraProgress } from '../../../stores/useIqraStore';
+import { useHifzStats } from '../../../stores/useHifzStore';
 import { useSurahs } from '../../../api/services/quran';
 import { enter } from '../../../utils';
 
@@ -122,6 +126,10 @@ const QuranDashboard = () => {
   // Get bookmarks count from store
   const bookmarks = useQuranStore((state) => state.bookmarks);
 
+  // Reading course progress for the Learn to Read card
+  const iqraProgress = useIqraProgress();
+  const hifzStats = useHifzStats();
+
   // Surah list for name lookup
   const { data: surahs = [] } = useSurahs();
   const getSurahName = useCallback((number: number) => {
@@ -500,6 +508,116 @@ const QuranDashboard = () => {
           </TouchableOpacity>
         </MotiView>
 
+        {/* Iqra Course Quick Access */}
+        <MotiView
+          from={{ opacity: 0, translateY: 20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <TouchableOpacity
+            onPress={() => handleNavigate('/iqra')}
+            activeOpacity={0.8}
+          >
+            <BlurView
+              intensity={20}
+              tint={isDarkMode ? 'dark' : 'light'}
+              style={[
+                styles.recitationPlanCard,
+                {
+                  backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.88)',
+                  borderWidth: 1,
+                  borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+                },
+              ]}
+            >
+              <View style={styles.recitationPlanContent}>
+                <View
+                  style={[
+                    styles.recitationPlanIcon,
+                    { backgroundColor: accent + '15' },
+                  ]}
+                >
+                  <FontAwesome6
+                    name="spell-check"
+                    size={24}
+                    color={accent}
+                  />
+                </View>
+                <View style={styles.recitationPlanText}>
+                  <Text style={[styles.recitationPlanTitle, { color: isDarkMode ? 'rgba(255,255,255,0.90)' : theme.colors.text.primary }]}>
+                    Learn to Read
+                  </Text>
+                  <Text style={[styles.recitationPlanSubtitle, { color: isDarkMode ? 'rgba(255,255,255,0.55)' : theme.colors.text.secondary }]}>
+                    {iqraProgress.next
+                      ? `Iqra course · ${iqraProgress.completed}/${iqraProgress.total} lessons`
+                      : 'Iqra course complete'}
+                  </Text>
+                </View>
+                <FontAwesome6
+                  name="chevron-right"
+                  size={20}
+                  color={accent}
+                />
+              </View>
+            </BlurView>
+          </TouchableOpacity>
+        </MotiView>
+
+        {/* Hifz Tracker Quick Access */}
+        <MotiView
+          from={{ opacity: 0, translateY: 20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <TouchableOpacity
+            onPress={() => handleNavigate('/hifz')}
+            activeOpacity={0.8}
+          >
+            <BlurView
+              intensity={20}
+              tint={isDarkMode ? 'dark' : 'light'}
+              style={[
+                styles.recitationPlanCard,
+                {
+                  backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.88)',
+                  borderWidth: 1,
+                  borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+                },
+              ]}
+            >
+              <View style={styles.recitationPlanContent}>
+                <View
+                  style={[
+                    styles.recitationPlanIcon,
+                    { backgroundColor: accent + '15' },
+                  ]}
+                >
+                  <FontAwesome6
+                    name="brain"
+                    size={24}
+                    color={accent}
+                  />
+                </View>
+                <View style={styles.recitationPlanText}>
+                  <Text style={[styles.recitationPlanTitle, { color: isDarkMode ? 'rgba(255,255,255,0.90)' : theme.colors.text.primary }]}>
+                    Hifz Tracker
+                  </Text>
+                  <Text style={[styles.recitationPlanSubtitle, { color: isDarkMode ? 'rgba(255,255,255,0.55)' : theme.colors.text.secondary }]}>
+                    {hifzStats.rangeCount === 0
+                      ? 'Track and review what you memorise'
+                      : `${hifzStats.memorisedAyahs} ayahs · ${hifzStats.dueToday} due today`}
+                  </Text>
+                </View>
+                <FontAwesome6
+                  name="chevron-right"
+                  size={20}
+                  color={accent}
+                />
+              </View>
+            </BlurView>
+          </TouchableOpacity>
+        </MotiView>
+
         {/* Bottom Padding */}
         <View style={{ height: 32 }} />
       </ScrollView>
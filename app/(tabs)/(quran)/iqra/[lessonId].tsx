@@ -0,0 +1,412 @@
+/**
+ * Iqra Lesson
+ *
+ * One lesson of the Iqra course: notes, a tap-to-hear drill, then a short
+ * self-check. Reading lessons list the surah's ayat to listen to and open the
+ * Quran reader, where the lesson is marked done.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import { useTheme } from '../../../../context/ThemeContext';
+import { useAccent } from '../../../../hooks/useAccent';
+import { useIqraPlayer } from '../../../../hooks/quran/useIqraPlayer';
+import { useSurah } from '../../../../api/services/quran';
+import {
+  IQRA_LESSONS,
+  IQRA_PASS_SCORE,
+  getIqraLesson,
+  getIqraLevel,
+  iqraAudioKey,
+  type IqraLesson,
+} from '../../../../data/iqraCourse';
+import { useIqraStore } from '../../../../stores/useIqraStore';
+import IqraSelfCheck from '../../../../components/quran/IqraSelfCheck';
+
+type Stage = 'learn' | 'check' | 'result';
+
+const IqraLessonScreen: React.FC = () => {
+  const { theme, isDarkMode } = useTheme();
+  const { accent } = useAccent();
+  const router = useRouter();
+  const navigation = useNavigation();
+  const { lessonId } = useLocalSearchParams<{ lessonId: string }>();
+  const lesson = lessonId ? getIqraLesson(lessonId) : undefined;
+
+  const completeLesson = useIqraStore((s) => s.completeLesson);
+  const openLesson = useIqraStore((s) => s.openLesson);
+  const result = useIqraStore((s) => (lessonId ? s.completed[lessonId] : undefined));
+  const { play, playingKey, loadingKey, error } = useIqraPlayer();
+
+  const [stage, setStage] = useState<Stage>('learn');
+  const [score, setScore] = useState(0);
+
+  const textPrimary = isDarkMode ? 'rgba(255,255,255,0.90)' : theme.colors.text.primary;
+  const textSecondary = isDarkMode ? 'rgba(255,255,255,0.60)' : theme.colors.text.secondary;
+  const textMuted = isDarkMode ? 'rgba(255,255,255,0.45)' : theme.colors.text.muted;
+  const cardStyle = {
+    backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.88)',
+    borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+  };
+
+  useEffect(() => {
+    if (!lesson) return;
+    openLesson(lesson.id);
+    navigation.setOptions({ headerTitle: getIqraLevel(lesson.levelId)?.title ?? 'Iqra' });
+  }, [lesson, navigation, openLesson]);
+
+  if (!lesson) {
+    return (
+      <View style={[styles.center, { backgroundColor: isDarkMode ? '#060B18' : '#EEF2FF' }]}>
+        <Text style={[styles.body, { color: textSecondary }]}>Lesson not found.</Text>
+      </View>
+    );
+  }
+
+  const nextLesson: IqraLesson | undefined = IQRA_LESSONS[IQRA_LESSONS.indexOf(lesson) + 1];
+  const passed = score >= IQRA_PASS_SCORE;
+
+  const handleFinish = (finalScore: number) => {
+    setScore(finalScore);
+    if (finalScore >= IQRA_PASS_SCORE) completeLesson(lesson.id, finalScore);
+    setStage('result');
+  };
+
+  return (
+    <LinearGradient
+      colors={isDarkMode ? ['#060B18', '#0C1428', '#080F1E'] as const : ['#EEF2FF', '#F0F4FF', '#E8EFFF'] as const}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: textPrimary }]}>{lesson.title}</Text>
+          {result && (
+            <View style={[styles.badge, { backgroundColor: accent + '15' }]}>
+              <FontAwesome6 name="check" size={11} color={accent} />
+              <Text style={[styles.badgeText, { color: accent }]}>Done</Text>
+            </View>
+          )}
+        </View>
+        {lesson.notes.map((note) => (
+          <Text key={note} style={[styles.body, { color: textSecondary }]}>
+            {note}
+          </Text>
+        ))}
+        {!!error && <Text style={[styles.body, { color: '#ff6b6b' }]}>{error}</Text>}
+
+        {stage === 'learn' && (
+          <>
+            {lesson.check === 'read' && lesson.surah ? (
+              <ReadingDrill
+                surah={lesson.surah}
+                lessonId={lesson.id}
+                accent={accent}
+                textPrimary={textPrimary}
+                textMuted={textMuted}
+                cardStyle={cardStyle}
+                isDarkMode={isDarkMode}
+                playingKey={playingKey}
+                loadingKey={loadingKey}
+                onPlay={(ayah) => play({ type: 'ayah', surah: lesson.surah!, ayah })}
+                onOpenReader={() =>
+                  router.push({
+                    pathname: `/surahs/${lesson.surah}` as any,
+                    params: { ayahIndex: 1, iqra: lesson.id },
+                  })
+                }
+              />
+            ) : (
+              <>
+                <View style={styles.grid}>
+                  {lesson.items.map((item) => {
+                    const key = iqraAudioKey(item.audio);
+                    const active = playingKey === key;
+                    return (
+                      <TouchableOpacity
+                        key={item.id}
+                        onPress={() => play(item.audio)}
+                        activeOpacity={0.8}
+                        style={[
+                          styles.tile,
+                          lesson.levelId === 'tajweed' && styles.tileWide,
+                          cardStyle,
+                          active && { borderColor: accent },
+                        ]}
+                      >
+                        <Text style={[styles.tileArabic, { color: active ? accent : textPrimary }]}>{item.arabic}</Text>
+                        <Text style={[styles.tileLabel, { color: textMuted }]}>{item.transliteration}</Text>
+                        {!!item.hint && <Text style={[styles.tileHint, { color: textMuted }]}>{item.hint}</Text>}
+                        {loadingKey === key && <ActivityIndicator size="small" color={accent} style={styles.tileSpinner} />}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <TouchableOpacity onPress={() => setStage('check')} style={[styles.primary, { backgroundColor: accent }]}>
+                  <FontAwesome6 name="clipboard-check" size={15} color="#fff" />
+                  <Text style={styles.primaryText}>Check yourself</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </>
+        )}
+
+        {stage === 'check' && (
+          <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, cardStyle]}>
+            <IqraSelfCheck
+              lesson={lesson}
+              accent={accent}
+              textPrimary={textPrimary}
+              textMuted={textMuted}
+              onPlay={play}
+              onFinish={handleFinish}
+            />
+          </BlurView>
+        )}
+
+        {stage === 'result' && (
+          <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, styles.result, cardStyle]}>
+            <FontAwesome6 name={passed ? 'star' : 'rotate-right'} size={32} color={passed ? accent : textMuted} solid />
+            <Text style={[styles.resultScore, { color: textPrimary }]}>{Math.round(score * 100)}%</Text>
+            <Text style={[styles.body, styles.centerText, { color: textSecondary }]}>
+              {passed
+                ? 'Well done — lesson complete.'
+                : `You need ${Math.round(IQRA_PASS_SCORE * 100)}% to continue. Listen to the drill again, then retry.`}
+            </Text>
+            {passed && nextLesson ? (
+              <TouchableOpacity
+                onPress={() => router.replace(`/iqra/${nextLesson.id}` as any)}
+                style={[styles.primary, { backgroundColor: accent }]}
+              >
+                <Text style={styles.primaryText}>Next: {nextLesson.title}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={() => setStage('learn')} style={[styles.primary, { backgroundColor: accent }]}>
+                <Text style={styles.primaryText}>{passed ? 'Back to the drill' : 'Practise again'}</Text>
+              </TouchableOpacity>
+            )}
+          </BlurView>
+        )}
+      </ScrollView>
+    </LinearGradient>
+  );
+};
+
+// ============================================================================
+// READING DRILL
+// ============================================================================
+
+interface ReadingDrillProps {
+  surah: number;
+  lessonId: string;
+  accent: string;
+  textPrimary: string;
+  textMuted: string;
+  cardStyle: { backgroundColor: string; borderColor: string };
+  isDarkMode: boolean;
+  playingKey: string | null;
+  loadingKey: string | null;
+  onPlay: (ayah: number) => void;
+  onOpenReader: () => void;
+}
+
+const ReadingDrill: React.FC<ReadingDrillProps> = ({
+  surah,
+  lessonId,
+  accent,
+  textPrimary,
+  textMuted,
+  cardStyle,
+  isDarkMode,
+  playingKey,
+  loadingKey,
+  onPlay,
+  onOpenReader,
+}) => {
+  const { data, isLoading } = useSurah(surah);
+  const done = useIqraStore((s) => !!s.completed[lessonId]);
+
+  return (
+    <>
+      <TouchableOpacity onPress={onOpenReader} style={[styles.primary, { backgroundColor: accent }]}>
+        <FontAwesome6 name="book-open" size={15} color="#fff" />
+        <Text style={styles.primaryText}>{done ? 'Read again in the reader' : 'Read in the reader'}</Text>
+      </TouchableOpacity>
+
+      {isLoading ? (
+        <ActivityIndicator color={accent} />
+      ) : (
+        <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, cardStyle]}>
+          {data?.ayahs.map((ayah) => {
+            const key = `ayah:${surah}:${ayah.numberInSurah}`;
+            const active = playingKey === key;
+            return (
+              <TouchableOpacity key={key} onPress={() => onPlay(ayah.numberInSurah)} style={styles.ayahRow}>
+                <View style={[styles.ayahNumber, { backgroundColor: accent + '15' }]}>
+                  {loadingKey === key ? (
+                    <ActivityIndicator size="small" color={accent} />
+                  ) : (
+                    <FontAwesome6 name={active ? 'volume-high' : 'play'} size={11} color={accent} />
+                  )}
+                </View>
+                <Text style={[styles.ayahText, { color: active ? accent : textPrimary }]}>{ayah.text}</Text>
+              </TouchableOpacity>
+            );
+          })}
+          <Text style={[styles.tileHint, { color: textMuted }]}>Tap an ayah to hear it.</Text>
+        </BlurView>
+      )}
+    </>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 48,
+    gap: 14,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 24,
+    fontFamily: 'Outfit_700Bold',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 5,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  body: {
+    fontSize: 14,
+    fontFamily: 'Outfit_400Regular',
+    lineHeight: 20,
+  },
+  centerText: {
+    textAlign: 'center',
+  },
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 16,
+    gap: 12,
+    overflow: 'hidden',
+  },
+
+  // Drill
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  tile: {
+    width: '30%',
+    flexGrow: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    gap: 4,
+  },
+  tileWide: {
+    width: '100%',
+  },
+  tileArabic: {
+    fontSize: 32,
+    writingDirection: 'rtl',
+    textAlign: 'center',
+  },
+  tileLabel: {
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+    textAlign: 'center',
+  },
+  tileHint: {
+    fontSize: 11,
+    fontFamily: 'Outfit_400Regular',
+    textAlign: 'center',
+  },
+  tileSpinner: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+  },
+
+  // Reading
+  ayahRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  ayahNumber: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  ayahText: {
+    flex: 1,
+    fontSize: 22,
+    lineHeight: 40,
+    writingDirection: 'rtl',
+    textAlign: 'right',
+  },
+
+  // Buttons / result
+  primary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 14,
+  },
+  primaryText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  result: {
+    alignItems: 'center',
+  },
+  resultScore: {
+    fontSize: 36,
+    fontFamily: 'Outfit_700Bold',
+  },
+});
+
+export default IqraLessonScreen;
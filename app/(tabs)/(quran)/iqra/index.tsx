@@ -0,0 +1,236 @@
+/**
+ * Iqra — Learn to Read
+ *
+ * Course map for the Iqra reading course: a "continue" card for the next
+ * lesson, then every level with its lessons (done, open or locked). Lessons
+ * unlock in order and the course ends with reading Juz 'Amma in the reader.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { MotiView } from 'moti';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as Haptics from 'expo-haptics';
+
+import { useTheme } from '../../../../context/ThemeContext';
+import { useAccent } from '../../../../hooks/useAccent';
+import { IQRA_LEVELS, isIqraLessonUnlocked, type IqraLesson } from '../../../../data/iqraCourse';
+import { useIqraProgress, useIqraStore } from '../../../../stores/useIqraStore';
+import { enter } from '../../../../utils';
+
+const IqraCourseScreen: React.FC = () => {
+  const { theme, isDarkMode } = useTheme();
+  const { accent } = useAccent();
+  const router = useRouter();
+  const completed = useIqraStore((s) => s.completed);
+  const resetCourse = useIqraStore((s) => s.resetCourse);
+  const progress = useIqraProgress();
+
+  const textPrimary = isDarkMode ? 'rgba(255,255,255,0.90)' : theme.colors.text.primary;
+  const textMuted = isDarkMode ? 'rgba(255,255,255,0.45)' : theme.colors.text.muted;
+  const cardStyle = {
+    backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.88)',
+    borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+  };
+
+  const openLesson = (lesson: IqraLesson) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push(`/iqra/${lesson.id}` as any);
+  };
+
+  const confirmReset = () => {
+    Alert.alert('Start over?', 'This clears your progress through the course.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Start over', style: 'destructive', onPress: resetCourse },
+    ]);
+  };
+
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <LinearGradient
+      colors={isDarkMode ? ['#060B18', '#0C1428', '#080F1E'] as const : ['#EEF2FF', '#F0F4FF', '#E8EFFF'] as const}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Continue */}
+        <MotiView from={{ opacity: 0, translateY: -16 }} animate={{ opacity: 1, translateY: 0 }} transition={enter(0)}>
+          <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, cardStyle]}>
+            <Text style={[styles.caption, { color: textMuted }]}>
+              {progress.completed} of {progress.total} lessons · {percent}%
+            </Text>
+            <View style={[styles.progressTrack, { backgroundColor: accent + '20' }]}>
+              <View style={[styles.progressFill, { backgroundColor: accent, width: `${percent}%` }]} />
+            </View>
+            {progress.next ? (
+              <TouchableOpacity
+                onPress={() => openLesson(progress.next!)}
+                style={[styles.continueButton, { backgroundColor: accent }]}
+                activeOpacity={0.85}
+              >
+                <FontAwesome6 name="play" size={14} color="#fff" />
+                <Text style={styles.continueText}>
+                  {progress.completed === 0 ? 'Start' : 'Continue'}: {progress.next.title}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={[styles.doneText, { color: textPrimary }]}>
+                Course complete — keep reading Juz 'Amma daily.
+              </Text>
+            )}
+          </BlurView>
+        </MotiView>
+
+        {/* Levels */}
+        {IQRA_LEVELS.map((level) => (
+          <View key={level.id} style={styles.level}>
+            <View style={styles.levelHeader}>
+              <View style={[styles.levelIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name={level.icon} size={16} color={accent} />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.levelTitle, { color: textPrimary }]}>
+                  {level.number}. {level.title}
+                </Text>
+                <Text style={[styles.caption, { color: textMuted }]}>{level.description}</Text>
+              </View>
+            </View>
+
+            <BlurView intensity={20} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, styles.lessonList, cardStyle]}>
+              {level.lessons.map((lesson, index) => {
+                const done = !!completed[lesson.id];
+                const unlocked = isIqraLessonUnlocked(lesson.id, completed);
+                return (
+                  <TouchableOpacity
+                    key={lesson.id}
+                    disabled={!unlocked}
+                    onPress={() => openLesson(lesson)}
+                    style={[
+                      styles.lessonRow,
+                      index > 0 && { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: cardStyle.borderColor },
+                    ]}
+                  >
+                    <FontAwesome6
+                      name={done ? 'circle-check' : unlocked ? 'circle-play' : 'lock'}
+                      size={16}
+                      color={done || unlocked ? accent : textMuted}
+                      solid={done}
+                    />
+                    <Text style={[styles.lessonTitle, { color: unlocked ? textPrimary : textMuted }]}>
+                      {lesson.title}
+                    </Text>
+                    {unlocked && <FontAwesome6 name="chevron-right" size={12} color={textMuted} />}
+                  </TouchableOpacity>
+                );
+              })}
+            </BlurView>
+          </View>
+        ))}
+
+        {progress.completed > 0 && (
+          <TouchableOpacity onPress={confirmReset} style={styles.resetButton}>
+            <Text style={[styles.caption, { color: textMuted }]}>Start the course over</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </LinearGradient>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 48,
+    gap: 20,
+  },
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 16,
+    gap: 12,
+    overflow: 'hidden',
+  },
+  caption: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  continueButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    paddingVertical: 14,
+    borderRadius: 14,
+  },
+  continueText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  doneText: {
+    fontSize: 15,
+    fontFamily: 'Outfit_500Medium',
+  },
+  level: {
+    gap: 10,
+  },
+  levelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  levelIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  levelTitle: {
+    fontSize: 17,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  lessonList: {
+    paddingVertical: 4,
+    gap: 0,
+  },
+  lessonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  lessonTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Outfit_500Medium',
+  },
+  resetButton: {
+    alignSelf: 'center',
+    padding: 8,
+  },
+});
+
+export default IqraCourseScreen;
@@ -5,9 +5,10 @@
  * around the recitation. Big surah/reciter header, the current ayah following
  * along (Arabic + translation), a seek bar, prominent transport + hifz controls
  * (speed, repeat-each-ayah), and an "Up next" queue that plays surah-after-surah
- * continuously.
+ * continuously. The surah (or its juz) can be downloaded for the reciter to
+ * play offline.
  *
- * @version 1.0
+ * @version 1.1
  */
 
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
@@ -19,6 +20,7 @@ import {
   ActivityIndicator,
   ScrollView,
   Pressable,
+  Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
@@ -32,6 +34,14 @@ import { useAccent } from '../../../../hooks/useAccent';
 import { useSurahWithTranslation, useSurahs, TOTAL_SURAHS } from '../../../../api/services/quran';
 import { useQuranAudioPlayer } from '../../../../hooks/quran/useQuranAudioPlayer';
 import { useTrackPlayerSetup } from '../../../../hooks/quran/useTrackPlayerSetup';
+import { useSurahAudioDownload } from '../../../../hooks/quran/useAudioDownloads';
+import {
+  cancelAudioDownload,
+  deleteSurahAudio,
+  getJuzForAyah,
+  queueAudioDownload,
+  retryAudioDownload,
+} from '../../../../services/offline/quranAudioDownloadService';
 import { useHifzStore, REPEAT_OFF, REPEAT_INFINITE } from '../../../../stores/useHifzStore';
 import SettingsModal from '../../../../components/quran/SettingsModal';
 import { reciterOptions } from '../../../../utils/constants';
@@ -192,6 +202,64 @@ const ListenScreen = () => {
 
   const pct = progress.duration > 0 ? Math.min(1, progress.position / progress.duration) : 0;
 
+  // --- offline download (surah, or the juz of the current ayah)
+  const audioDownload = useSurahAudioDownload(activeSurah);
+  const juzNumber = getJuzForAyah(activeSurah, ayahNumber);
+
+  const downloadChip = (() => {
+    switch (audioDownload.status) {
+      case 'downloaded':
+        return { icon: 'circle-check', label: 'Downloaded' };
+      case 'queued':
+        return { icon: 'clock', label: 'Queued' };
+      case 'downloading':
+        return { icon: 'arrow-down', label: `Downloading ${Math.round(audioDownload.progress * 100)}%` };
+      case 'waiting':
+        return { icon: 'wifi', label: audioDownload.job?.error ?? 'Waiting' };
+      case 'failed':
+        return { icon: 'triangle-exclamation', label: 'Download failed' };
+      case 'partial':
+        return { icon: 'download', label: 'Finish download' };
+      default:
+        return { icon: 'download', label: 'Download' };
+    }
+  })();
+
+  const handleDownloadPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const { status, job } = audioDownload;
+
+    if (status === 'downloaded') {
+      Alert.alert('Remove Download', `${englishName} will stream again for ${reciterLabel}.`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => deleteSurahAudio(reciter, activeSurah) },
+      ]);
+      return;
+    }
+
+    if (job && status === 'failed') {
+      Alert.alert('Download Failed', job.error ?? 'The download could not finish.', [
+        { text: 'Cancel Download', style: 'destructive', onPress: () => cancelAudioDownload(job.id) },
+        { text: 'Retry', onPress: () => retryAudioDownload(job.id) },
+      ]);
+      return;
+    }
+
+    if (job) {
+      Alert.alert('Cancel Download', 'Ayahs already downloaded are kept.', [
+        { text: 'Keep Downloading', style: 'cancel' },
+        { text: 'Cancel Download', style: 'destructive', onPress: () => cancelAudioDownload(job.id) },
+      ]);
+      return;
+    }
+
+    Alert.alert('Download Recitation', `Save ${reciterLabel}'s recitation to listen without a connection.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: `Juz ${juzNumber}`, onPress: () => queueAudioDownload(reciter, 'juz', juzNumber) },
+      { text: 'This Surah', onPress: () => queueAudioDownload(reciter, 'surah', activeSurah) },
+    ]);
+  };
+
   if (isLoading && !data) {
     return (
       <LinearGradient
@@ -228,6 +296,26 @@ const ListenScreen = () => {
             <FontAwesome6 name="microphone-lines" size={12} color={theme.colors.text.secondary} />
             <Text style={[styles.reciterName, { color: theme.colors.text.secondary }]}>{reciterLabel}</Text>
           </View>
+          <TouchableOpacity
+            onPress={handleDownloadPress}
+            style={[styles.downloadChip, {
+              backgroundColor: audioDownload.status === 'downloaded' ? theme.colors.text.success + '15' : accent + '14',
+            }]}
+            activeOpacity={0.7}
+          >
+            <FontAwesome6
+              name={downloadChip.icon}
+              size={11}
+              color={audioDownload.status === 'downloaded' ? theme.colors.text.success : accent}
+            />
+            <Text
+              style={[styles.downloadChipText, {
+                color: audioDownload.status === 'downloaded' ? theme.colors.text.success : accent,
+              }]}
+            >
+              {downloadChip.label}
+            </Text>
+          </TouchableOpacity>
         </MotiView>
 
         {/* Current ayah (follow-along) */}
@@ -383,6 +471,16 @@ const styles = StyleSheet.create({
   surahName: { fontFamily: 'Outfit_700Bold', fontSize: 22 },
   reciterRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 4 },
   reciterName: { fontFamily: 'Outfit_400Regular', fontSize: 14 },
+  downloadChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  downloadChipText: { fontFamily: 'Outfit_600SemiBold', fontSize: 12 },
 
   // Ayah card
   ayahCard: {
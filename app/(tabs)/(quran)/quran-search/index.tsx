@@ -1,9 +1,10 @@
 /**
  * Quran Search Screen
  *
- * Full-text search across all 6236 ayahs (English translation + surah names).
- * Builds a search index in the background on first open; instant on subsequent opens
- * thanks to MMKV permanent caching.
+ * Full-text search across all 6236 ayahs (Arabic, English translation, the
+ * selected translations and transliteration). Builds a persistent search index
+ * on first open; later opens load it from disk. Ayah references ("2:255",
+ * "al-baqarah 255") offer a jump straight to the ayah.
  */
 
 import React, { useCallback, useEffect, useRef } from 'react';
@@ -26,6 +27,9 @@ import * as Haptics from 'expo-haptics';
 import { useTheme } from '../../../../context/ThemeContext';
 import { useQuranSearch, SearchResult } from '../../../../hooks/quran/useQuranSearch';
 import { enter } from '../../../../utils';
+import { EDITIONS } from '../../../../api/services/quran';
+import { surahMeta } from '../../../../data/surahMeta';
+import { getEditionLabel } from '../../../../api/services/quran/translations';
 
 // ============================================================================
 // HELPERS
@@ -103,7 +107,8 @@ const ResultCard = React.memo(
     accentColor: string;
     onPress: (result: SearchResult) => void;
   }) => {
-    const snippet = getSnippet(result.translation, query);
+    const isArabicMatch = result.match.edition === EDITIONS.ARABIC;
+    const snippet = getSnippet(result.match.text, query);
 
     return (
       <TouchableOpacity onPress={() => onPress(result)} activeOpacity={0.75}>
@@ -153,20 +158,40 @@ const ResultCard = React.memo(
             />
           </View>
 
+          {/* Arabic match (normalised, so not highlighted) */}
+          {isArabicMatch && (
+            <Text
+              style={[
+                styles.arabicSnippet,
+                { color: isDarkMode ? 'rgba(255,255,255,0.88)' : 'rgba(0,0,0,0.80)' },
+              ]}
+              numberOfLines={3}
+            >
+              {result.arabic}
+            </Text>
+          )}
+
           {/* Translation snippet */}
-          <HighlightedText
-            text={snippet}
-            query={query}
-            accentColor={accentColor}
-            style={[
-              styles.snippet,
-              {
-                color: isDarkMode
-                  ? 'rgba(255,255,255,0.80)'
-                  : 'rgba(0,0,0,0.75)',
-              },
-            ]}
-          />
+          {!isArabicMatch && result.match.edition !== EDITIONS.ENGLISH && (
+            <Text style={[styles.editionLabel, { color: accentColor }]}>
+              {getEditionLabel(result.match.edition)}
+            </Text>
+          )}
+          {!isArabicMatch && (
+            <HighlightedText
+              text={snippet}
+              query={query}
+              accentColor={accentColor}
+              style={[
+                styles.snippet,
+                {
+                  color: isDarkMode
+                    ? 'rgba(255,255,255,0.80)'
+                    : 'rgba(0,0,0,0.75)',
+                },
+              ]}
+            />
+          )}
         </BlurView>
       </TouchableOpacity>
     );
@@ -182,8 +207,21 @@ export default function QuranSearchScreen() {
   const router = useRouter();
   const inputRef = useRef<TextInput>(null);
 
-  const { query, setQuery, results, isIndexing, indexProgress, loadedCount } =
-    useQuranSearch();
+  const {
+    query,
+    setQuery,
+    results,
+    totalResults,
+    loadMore,
+    reference,
+    rootMatch,
+    setRootMatch,
+    isIndexing,
+    indexProgress,
+    indexError,
+    retryIndex,
+  } = useQuranSearch();
+  const indexPercent = Math.round(indexProgress * 100);
 
   // Auto-focus the search input
   useEffect(() => {
@@ -202,6 +240,35 @@ export default function QuranSearchScreen() {
     [router]
   );
 
+  const handleJump = useCallback(() => {
+    if (!reference) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({
+      pathname: `/surahs/${reference.surahNumber}`,
+      params: { ayahIndex: reference.ayahNumber },
+    });
+  }, [reference, router]);
+
+  const handleRootMatchToggle = useCallback(() => {
+    Haptics.selectionAsync();
+    setRootMatch(!rootMatch);
+  }, [rootMatch, setRootMatch]);
+
+  const renderJumpCard = useCallback(() => {
+    if (!reference) return null;
+    return (
+      <TouchableOpacity onPress={handleJump} activeOpacity={0.75} style={{ marginBottom: 10 }}>
+        <View style={[styles.jumpCard, { backgroundColor: theme.colors.accent + '18', borderColor: theme.colors.accent + '40' }]}>
+          <FontAwesome6 name="location-arrow" size={14} color={theme.colors.accent} />
+          <Text style={[styles.jumpText, { color: theme.colors.accent }]}>
+            {`Go to ${surahMeta[reference.surahNumber - 1].name} ${reference.surahNumber}:${reference.ayahNumber}`}
+          </Text>
+          <FontAwesome6 name="chevron-right" size={12} color={theme.colors.accent} />
+        </View>
+      </TouchableOpacity>
+    );
+  }, [reference, handleJump, theme.colors.accent]);
+
   const renderItem = useCallback(
     ({ item }: { item: SearchResult }) => (
       <MotiView
@@ -261,8 +328,8 @@ export default function QuranSearchScreen() {
             ]}
           >
             {isIndexing
-              ? `Loading ${loadedCount}/114 surahs...`
-              : 'Search by keyword, surah name, or translation'}
+              ? `Building search index... ${indexPercent}%`
+              : 'Search in Arabic or any selected translation, or type a reference like 2:255'}
           </Text>
         </View>
       );
@@ -304,11 +371,13 @@ export default function QuranSearchScreen() {
             },
           ]}
         >
-          {`No ayahs found for "${query}"`}
+          {isIndexing
+            ? `Building search index... ${indexPercent}%`
+            : `No ayahs found for "${query}"`}
         </Text>
       </View>
     );
-  }, [query, isIndexing, loadedCount, isDarkMode, theme]);
+  }, [query, isIndexing, indexPercent, isDarkMode, theme]);
 
   return (
     <LinearGradient
@@ -348,7 +417,7 @@ export default function QuranSearchScreen() {
             ref={inputRef}
             value={query}
             onChangeText={setQuery}
-            placeholder="Search by keyword or surah name..."
+            placeholder="Search ayahs, or go to 2:255..."
             placeholderTextColor={
               isDarkMode ? 'rgba(255,255,255,0.30)' : 'rgba(0,0,0,0.30)'
             }
@@ -361,6 +430,7 @@ export default function QuranSearchScreen() {
               },
             ]}
             returnKeyType="search"
+            onSubmitEditing={handleJump}
             autoCapitalize="none"
             autoCorrect={false}
           />
@@ -385,6 +455,53 @@ export default function QuranSearchScreen() {
         </BlurView>
       </View>
 
+      {/* Arabic root matching */}
+      <View style={styles.optionsRow}>
+        <TouchableOpacity
+          onPress={handleRootMatchToggle}
+          activeOpacity={0.75}
+          style={[
+            styles.optionChip,
+            {
+              backgroundColor: rootMatch
+                ? theme.colors.accent
+                : isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(255,255,255,0.90)',
+            },
+          ]}
+        >
+          <FontAwesome6
+            name="seedling"
+            size={11}
+            color={rootMatch ? '#fff' : isDarkMode ? 'rgba(255,255,255,0.55)' : 'rgba(0,0,0,0.45)'}
+          />
+          <Text
+            style={[
+              styles.optionChipText,
+              { color: rootMatch ? '#fff' : isDarkMode ? 'rgba(255,255,255,0.55)' : 'rgba(0,0,0,0.45)' },
+            ]}
+          >
+            Arabic root matching
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Index build failed (e.g. offline before the surahs were cached) */}
+      {indexError && (
+        <View style={styles.progressWrapper}>
+          <Text
+            style={[
+              styles.progressLabel,
+              { color: isDarkMode ? 'rgba(255,255,255,0.45)' : theme.colors.text.secondary },
+            ]}
+          >
+            {`Couldn't build the search index: ${indexError}`}
+          </Text>
+          <TouchableOpacity onPress={retryIndex} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Text style={[styles.retryText, { color: theme.colors.accent }]}>Try again</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Index progress (shown only while indexing and no query yet) */}
       {isIndexing && query.length === 0 && (
         <MotiView
@@ -405,7 +522,7 @@ export default function QuranSearchScreen() {
                 },
               ]}
             >
-              {`Building index... ${loadedCount}/114`}
+              {`Building search index... ${indexPercent}%`}
             </Text>
           </View>
           <View
@@ -422,7 +539,7 @@ export default function QuranSearchScreen() {
               style={[
                 styles.progressFill,
                 {
-                  width: `${Math.round(indexProgress * 100)}%`,
+                  width: `${indexPercent}%`,
                   backgroundColor: theme.colors.accent,
                 },
               ]}
@@ -443,9 +560,7 @@ export default function QuranSearchScreen() {
             },
           ]}
         >
-          {results.length === 50
-            ? 'Showing first 50 results'
-            : `${results.length} ${results.length === 1 ? 'ayah' : 'ayahs'} found`}
+          {`${totalResults} ${totalResults === 1 ? 'ayah' : 'ayahs'} found`}
         </Text>
       )}
 
@@ -456,6 +571,9 @@ export default function QuranSearchScreen() {
         keyExtractor={(item) => `${item.surahNumber}:${item.ayahNumber}`}
         contentContainerStyle={styles.listContent}
         ListEmptyComponent={renderEmpty}
+        ListHeaderComponent={renderJumpCard}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
         showsVerticalScrollIndicator={false}
         keyboardShouldPersistTaps="handled"
         keyboardDismissMode="on-drag"
@@ -519,6 +637,45 @@ const styles = StyleSheet.create({
     borderRadius: 2,
   },
 
+  // Options
+  optionsRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  optionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  optionChipText: {
+    fontSize: 12,
+    fontFamily: 'Outfit_500Medium',
+  },
+  retryText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+
+  // Jump to reference
+  jumpCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  jumpText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+
   // Results count
   resultsCount: {
     fontSize: 12,
@@ -564,6 +721,20 @@ const styles = StyleSheet.create({
     fontFamily: 'Outfit_400Regular',
     lineHeight: 20,
   },
+  arabicSnippet: {
+    fontSize: 20,
+    fontFamily: 'Amiri_400Regular',
+    lineHeight: 36,
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+  editionLabel: {
+    fontSize: 10,
+    fontFamily: 'Outfit_600SemiBold',
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
 
   // Empty state
   emptyContainer: {
@@ -3,9 +3,13 @@
  *
  * Opens at the standard Mushaf page for the selected surah.
  * Swipe left/right to navigate pages exactly as they appear in
- * the physical Uthmani Quran (604 pages).
+ * the physical Uthmani Quran (604 pages). Opened from an Iqra reading
+ * lesson (`iqra` param), the progress card lets the reader mark it done.
+ * Opened for a hifz review (`hifz` param, a tracked range id), the text is
+ * hidden in test mode and the progress card grades the recall.
+ * The selected translations and transliteration are listed under each ayah.
  *
- * @version 3.0
+ * @version 3.3
  */
 
 import React, {
@@ -45,6 +49,11 @@ import { useMushafPage } from '../../../../hooks/quran/useMushafPage';
 import { enter } from '../../../../utils';
 import { defaultStorage } from '../../../../api/client/storage';
 import { SURAH_START_PAGES, TOTAL_MUSHAF_PAGES } from '../../../../constants/quranPages';
+import { getIqraLesson } from '../../../../data/iqraCourse';
+import { useIqraStore } from '../../../../stores/useIqraStore';
+import { formatHifzRange, useHifzDueQueue, useHifzStore } from '../../../../stores/useHifzStore';
+import { PASSING_GRADE, RECALL_GRADES, formatDue, type RecallGrade } from '../../../../utils/quran/spacedRepetition';
+import { usePreferencesStore } from '../../../../stores/userPreferencesStore';
 
 // ============================================================================
 // MAIN COMPONENT
@@ -54,10 +63,12 @@ const SurahDetailScreen = () => {
   const navigation = useNavigation();
   const router = useRouter();
 
-  const { id, ayahIndex, autoplay } = useLocalSearchParams<{
+  const { id, ayahIndex, autoplay, iqra, hifz } = useLocalSearchParams<{
     id: string;
     ayahIndex?: string;
     autoplay?: string;
+    iqra?: string;
+    hifz?: string;
   }>();
 
   // surahNumber from route = where we entered; used only for the initial page
@@ -66,6 +77,10 @@ const SurahDetailScreen = () => {
 
   const { theme, isDarkMode, toggleDarkMode, textSize, setTextSize, reciter, setReciter } = useTheme();
   const { data: surahs = [] } = useSurahs();
+  const quranTranslations = usePreferencesStore((s) => s.quranTranslations);
+  const setQuranTranslations = usePreferencesStore((s) => s.setQuranTranslations);
+  const showTransliteration = usePreferencesStore((s) => s.showTransliteration);
+  const setShowTransliteration = usePreferencesStore((s) => s.setShowTransliteration);
 
   // --- pager state (must be declared before useSurahDetailPage so activeSurahNum is available)
   const pagerRef = useRef<PagerView>(null);
@@ -216,6 +231,66 @@ const SurahDetailScreen = () => {
     setHifzVisible((v) => !v);
   }, []);
 
+  // Range offered in the sheet starts at the playing ayah, else the top of the page
+  const hifzStartAyah = currentAyahIndex >= 0
+    ? currentAyahIndex + 1
+    : currentPageData?.ayahs.find(a => a.surahNumber === activeSurahNum)?.ayahNumber ?? 1;
+
+  const openHifzTracker = useCallback(() => {
+    setHifzVisible(false);
+    router.push('/hifz');
+  }, [router]);
+
+  // --- Iqra reading lesson this surah was opened from (if any)
+  const iqraLesson = iqra ? getIqraLesson(iqra) : undefined;
+  const iqraDone = useIqraStore((s) => (iqra ? !!s.completed[iqra] : false));
+  const completeIqraLesson = useIqraStore((s) => s.completeLesson);
+  const handleIqraRead = useCallback(() => {
+    if (!iqraLesson) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    completeIqraLesson(iqraLesson.id, 1);
+  }, [iqraLesson, completeIqraLesson]);
+
+  // --- hifz review this surah was opened for (if any): recite with the text
+  // hidden, then grade the recall to schedule the next review
+  const hifzRange = useHifzStore((s) => (hifz ? s.ranges[hifz] : undefined));
+  const gradeHifzRange = useHifzStore((s) => s.gradeRange);
+  const setTestMode = useHifzStore((s) => s.setTestMode);
+  const hifzDueQueue = useHifzDueQueue();
+  const [hifzGraded, setHifzGraded] = useState(false);
+
+  useEffect(() => {
+    if (!hifz) return;
+    setHifzGraded(false);
+    setTestMode(true);
+    return () => setTestMode(false);
+  }, [hifz, setTestMode]);
+
+  const nextHifzReview = hifzDueQueue.find((range) => range.id !== hifz);
+
+  const handleHifzGrade = useCallback((grade: RecallGrade) => {
+    if (!hifzRange) return;
+    Haptics.notificationAsync(
+      grade >= PASSING_GRADE ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+    );
+    gradeHifzRange(hifzRange.id, grade);
+    setHifzGraded(true);
+  }, [hifzRange, gradeHifzRange]);
+
+  const handleNextHifzReview = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (!nextHifzReview) {
+      router.back();
+      return;
+    }
+    // Same screen instance, so test mode stays on between reviews
+    router.setParams({
+      id: String(nextHifzReview.surah),
+      ayahIndex: String(nextHifzReview.startAyah),
+      hifz: nextHifzReview.id,
+    });
+  }, [nextHifzReview, router]);
+
   // --- mark all ayahs in the current surah as read
   const handleMarkAllRead = useCallback(() => {
     if (!surah) return;
@@ -348,9 +423,72 @@ const SurahDetailScreen = () => {
             {pct}%
           </Text>
         </View>
+
+        {iqraLesson?.surah === surah.number && (
+          <View style={styles.iqraRow}>
+            <Text style={[styles.iqraText, { color: theme.colors.text.secondary }]}>
+              {iqraDone ? 'Iqra lesson complete' : `Can you read ${surah.englishName} on your own?`}
+            </Text>
+            {iqraDone ? (
+              <FontAwesome6 name="circle-check" size={16} color={theme.colors.text.success} solid />
+            ) : (
+              <TouchableOpacity
+                onPress={handleIqraRead}
+                style={[styles.markAllBtn, { backgroundColor: theme.colors.accent + '18' }]}
+              >
+                <FontAwesome6 name="spell-check" size={12} color={theme.colors.accent} />
+                <Text style={[styles.markAllText, { color: theme.colors.accent }]}>
+                  I can read it
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {hifzRange?.surah === surah.number && (
+          <View style={styles.hifzSection}>
+            <Text style={[styles.iqraText, { color: theme.colors.text.secondary }]}>
+              {hifzGraded
+                ? `${formatHifzRange(hifzRange)} · next review ${formatDue(hifzRange.due).toLowerCase()}`
+                : `Recite ${formatHifzRange(hifzRange)}, then tap the page to check. How did it go?`}
+            </Text>
+            {hifzGraded ? (
+              <TouchableOpacity
+                onPress={handleNextHifzReview}
+                style={[styles.markAllBtn, styles.hifzNextBtn, { backgroundColor: theme.colors.accent + '18' }]}
+              >
+                <FontAwesome6 name={nextHifzReview ? 'forward' : 'check'} size={12} color={theme.colors.accent} />
+                <Text style={[styles.markAllText, { color: theme.colors.accent }]}>
+                  {nextHifzReview ? `Next: ${formatHifzRange(nextHifzReview)}` : 'Done for today'}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.hifzGrades}>
+                {RECALL_GRADES.map(({ grade, label }) => (
+                  <TouchableOpacity
+                    key={grade}
+                    onPress={() => handleHifzGrade(grade)}
+                    style={[styles.hifzGradeBtn, {
+                      backgroundColor: grade < PASSING_GRADE ? theme.colors.text.error + '18' : theme.colors.accent + '18',
+                    }]}
+                  >
+                    <Text style={[styles.markAllText, {
+                      color: grade < PASSING_GRADE ? theme.colors.text.error : theme.colors.accent,
+                    }]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
       </BlurView>
     );
-  }, [surah, readAyahsCount, theme, isDarkMode, handleMarkAllRead]);
+  }, [
+    surah, readAyahsCount, theme, isDarkMode, handleMarkAllRead, iqraLesson, iqraDone, handleIqraRead,
+    hifzRange, hifzGraded, nextHifzReview, handleHifzGrade, handleNextHifzReview,
+  ]);
 
   // --- playing state for context (updates on every ayah advance — cheap, only 1-3 pages rendered)
   const playingState = useMemo(() => ({
@@ -373,6 +511,8 @@ const SurahDetailScreen = () => {
             <MushafPage
               pageNumber={pageNum}
               showTranslation={showTranslation}
+              translationEditions={quranTranslations}
+              showTransliteration={showTransliteration}
               accentColor={theme.colors.accent}
               textPrimary={theme.colors.text.primary}
               textSecondary={theme.colors.text.secondary}
@@ -383,7 +523,7 @@ const SurahDetailScreen = () => {
         </View>
       );
     }),
-    [currentPage, showTranslation, theme.colors.accent, theme.colors.text.primary, theme.colors.text.secondary, isDarkMode, textSize]
+    [currentPage, showTranslation, quranTranslations, showTransliteration, theme.colors.accent, theme.colors.text.primary, theme.colors.text.secondary, isDarkMode, textSize]
   );
 
   // ---- LOADING
@@ -503,10 +643,21 @@ const SurahDetailScreen = () => {
         onReciterChange={setReciter}
         activeTheme={theme}
         showReciter={true}
+        translations={quranTranslations}
+        onTranslationsChange={setQuranTranslations}
+        showTransliteration={showTransliteration}
+        onShowTransliterationChange={setShowTransliteration}
       />
 
       {/* Memorization (hifz) controls */}
-      <HifzSheet visible={isHifzVisible} onClose={toggleHifz} />
+      <HifzSheet
+        visible={isHifzVisible}
+        onClose={toggleHifz}
+        surahNumber={surah?.number}
+        ayahCount={surah?.numberOfAyahs}
+        initialAyah={hifzStartAyah}
+        onOpenTracker={openHifzTracker}
+      />
     </LinearGradient>
   );
 };
@@ -595,6 +746,35 @@ const styles = StyleSheet.create({
     fontFamily: 'Outfit_600SemiBold',
     fontSize: 12,
   },
+  iqraRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginTop: 10,
+  },
+  hifzSection: {
+    gap: 8,
+    marginTop: 10,
+  },
+  hifzGrades: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  hifzGradeBtn: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 7,
+    borderRadius: 20,
+  },
+  hifzNextBtn: {
+    alignSelf: 'flex-start',
+  },
+  iqraText: {
+    flex: 1,
+    fontFamily: 'Outfit_400Regular',
+    fontSize: 13,
+  },
   completeBadge: {
     flexDirection: 'row',
     alignItems: 'center',
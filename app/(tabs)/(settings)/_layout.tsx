@@ -97,6 +97,8 @@ const SettingsLayout = () => {
     { name: 'account/index', title: 'Account Information' },
     { name: 'prayers/index', title: 'Prayer Settings' },
     { name: 'prayers/adhanSelection', title: 'Adhan' },
+    { name: 'backup/index', title: 'Backup & Restore' },
+    { name: 'offline-quran/index', title: 'Offline Quran' },
     { name: 'support/index', title: 'Support & Feedback' },
     { name: 'appearance/index', title: 'Appearance' },
     { name: 'food-additives/index', title: 'Food Additives' },
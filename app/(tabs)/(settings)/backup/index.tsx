@@ -0,0 +1,356 @@
+/**
+ * Backup & Restore Page
+ *
+ * Export prayer history and Quran progress (JSON backup or CSV) and restore
+ * a JSON backup
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import React, { useState } from 'react';
+import { View, Text, Alert, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { MotiView } from 'moti';
+import * as Haptics from 'expo-haptics';
+import { useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../../../../context/ThemeContext';
+import { useAccent } from '../../../../hooks/useAccent';
+import { useAuth } from '../../../../stores/useAuthStore';
+import { prayerQueryKeys } from '../../../../api/services/prayer';
+import {
+  BackupError,
+  BackupImportSummary,
+  exportBackup,
+  exportBackupCsv,
+  importBackup,
+} from '../../../../services/backup/backupService';
+import { enter } from '../../../../utils';
+import { createLogger } from '../../../../services/logging/logger';
+
+const logger = createLogger('Backup Settings');
+
+type BackupAction = 'json' | 'prayerCsv' | 'quranCsv' | 'import';
+
+const EXPORT_ACTIONS: { action: BackupAction; icon: string; label: string; description: string }[] = [
+  {
+    action: 'json',
+    icon: 'file-code',
+    label: 'Full Backup (JSON)',
+    description: 'Prayer logs, Quran progress, bookmarks and dhikr totals',
+  },
+  {
+    action: 'prayerCsv',
+    icon: 'table-list',
+    label: 'Prayer Log (CSV)',
+    description: 'One row per day, for spreadsheets',
+  },
+  {
+    action: 'quranCsv',
+    icon: 'book-quran',
+    label: 'Quran Progress (CSV)',
+    description: 'Read and bookmarked ayahs',
+  },
+];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const BackupPage = () => {
+  const { theme, isDarkMode } = useTheme();
+  const { accent } = useAccent();
+  const { userId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const [busyAction, setBusyAction] = useState<BackupAction | null>(null);
+  const [summary, setSummary] = useState<BackupImportSummary | null>(null);
+
+  const runExport = async (action: BackupAction) => {
+    setBusyAction(action);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      if (action === 'json') await exportBackup(userId);
+      if (action === 'prayerCsv') await exportBackupCsv(userId, 'prayer');
+      if (action === 'quranCsv') await exportBackupCsv(userId, 'quran');
+    } catch (error) {
+      logger.error('Export failed', { action, error: error instanceof Error ? error.message : 'Unknown error' });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(
+        'Export Failed',
+        error instanceof BackupError ? error.message : 'Could not create the export. Please try again.'
+      );
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const runImport = async () => {
+    setBusyAction('import');
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      const result = await importBackup(userId);
+      if (!result) return;
+
+      queryClient.invalidateQueries({ queryKey: prayerQueryKeys.logs.all });
+      queryClient.invalidateQueries({ queryKey: prayerQueryKeys.stats.all });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setSummary(result);
+    } catch (error) {
+      logger.error('Import failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(
+        'Restore Failed',
+        error instanceof BackupError ? error.message : 'Could not restore the backup. Please try again.'
+      );
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const confirmImport = () => {
+    Alert.alert(
+      'Restore Backup',
+      'The backup is merged with what is already here. Nothing is deleted; where a prayer was logged differently, the most recent change is kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Choose File', onPress: runImport },
+      ]
+    );
+  };
+
+  const renderAction = (
+    action: BackupAction,
+    icon: string,
+    label: string,
+    description: string,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={action}
+      style={[styles.actionRow, { backgroundColor: theme.colors.primary + '30' }]}
+      onPress={onPress}
+      disabled={busyAction !== null}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.actionIcon, { backgroundColor: accent + '15' }]}>
+        <FontAwesome6 name={icon} size={16} color={accent} />
+      </View>
+      <View style={styles.actionText}>
+        <Text style={[styles.actionLabel, { color: theme.colors.text.primary }]}>{label}</Text>
+        <Text style={[styles.actionDescription, { color: theme.colors.text.secondary }]}>
+          {description}
+        </Text>
+      </View>
+      {busyAction === action ? (
+        <ActivityIndicator size="small" color={accent} />
+      ) : (
+        <FontAwesome6 name="chevron-right" size={14} color={theme.colors.text.muted} />
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.primary }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <View style={styles.header}>
+            <View style={[styles.headerIcon, { backgroundColor: accent + '15' }]}>
+              <FontAwesome6 name="box-archive" size={28} color={accent} />
+            </View>
+            <View style={styles.headerContent}>
+              <Text style={[styles.headerTitle, { color: theme.colors.text.primary }]}>
+                Backup & Restore
+              </Text>
+              <Text style={[styles.headerSubtitle, { color: theme.colors.text.secondary }]}>
+                {userId ? 'Your account history and device progress' : 'History saved on this device'}
+              </Text>
+            </View>
+          </View>
+        </MotiView>
+
+        {/* Export */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(1)}
+        >
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.card, { backgroundColor: theme.colors.secondary }]}
+          >
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>Export</Text>
+            {EXPORT_ACTIONS.map(({ action, icon, label, description }) =>
+              renderAction(action, icon, label, description, () => runExport(action))
+            )}
+          </BlurView>
+        </MotiView>
+
+        {/* Restore */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(2)}
+        >
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.card, { backgroundColor: theme.colors.secondary }]}
+          >
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>Restore</Text>
+            {renderAction(
+              'import',
+              'file-import',
+              'Restore from Backup',
+              'Merge a JSON backup into this device',
+              confirmImport
+            )}
+
+            {summary && (
+              <MotiView
+                from={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={enter(0)}
+                style={[styles.summary, { backgroundColor: theme.colors.text.success + '15' }]}
+              >
+                <Text style={[styles.summaryTitle, { color: theme.colors.text.success }]}>
+                  Backup restored
+                </Text>
+                <Text style={[styles.summaryText, { color: theme.colors.text.secondary }]}>
+                  {summary.prayer.addedDates.length} prayer days added, {summary.prayer.mergedDates.length} merged
+                  {summary.prayer.conflicts.length > 0 &&
+                    ` (${summary.prayer.conflicts.length} prayers logged differently, newest kept)`}
+                </Text>
+                <Text style={[styles.summaryText, { color: theme.colors.text.secondary }]}>
+                  {summary.readAyahs} ayahs read, {summary.quranBookmarks} Quran bookmarks, {summary.doaBookmarks} doa bookmarks added
+                </Text>
+              </MotiView>
+            )}
+          </BlurView>
+        </MotiView>
+      </ScrollView>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 24,
+  },
+  headerIcon: {
+    width: 64,
+    height: 64,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontFamily: 'Outfit_700Bold',
+  },
+  headerSubtitle: {
+    fontSize: 15,
+    fontFamily: 'Outfit_400Regular',
+  },
+
+  // Card
+  card: {
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    gap: 12,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+
+  // Action Row
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+  },
+  actionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionText: {
+    flex: 1,
+    gap: 2,
+  },
+  actionLabel: {
+    fontSize: 16,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  actionDescription: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+  },
+
+  // Summary
+  summary: {
+    padding: 14,
+    borderRadius: 12,
+    gap: 6,
+  },
+  summaryTitle: {
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  summaryText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+    lineHeight: 18,
+  },
+});
+
+export default BackupPage;
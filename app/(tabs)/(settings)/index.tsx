@@ -27,6 +27,8 @@ const SETTINGS_ITEMS = [
   { icon: 'user', label: 'Account', route: '/account' },
   { icon: 'person-praying', label: 'Prayers', route: '/prayers' },
   { icon: 'palette', label: 'Appearance', route: '/appearance' },
+  { icon: 'box-archive', label: 'Backup & Restore', route: '/backup' },
+  { icon: 'cloud-arrow-down', label: 'Offline Quran', route: '/offline-quran' },
   { icon: 'envelope', label: 'Support', route: '/support' },
 ];
 
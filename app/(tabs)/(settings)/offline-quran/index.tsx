@@ -0,0 +1,586 @@
+/**
+ * Offline Quran Page
+ *
+ * Download the full Quran (Arabic text, English translation and all 604
+ * mushaf pages) so reading, search and the mushaf view work without a
+ * connection. Shows progress and storage used, and deletes the download.
+ * Also manages recitation audio downloads: the queue, Wi-Fi only, the
+ * storage limit and deleting a reciter's audio.
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import React, { useEffect } from 'react';
+import { View, Text, Alert, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Switch } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { MotiView } from 'moti';
+import * as Haptics from 'expo-haptics';
+
+import { useTheme } from '../../../../context/ThemeContext';
+import { useAccent } from '../../../../hooks/useAccent';
+import { useQuranDownloadStore } from '../../../../stores/useQuranDownloadStore';
+import { AUDIO_QUOTA_OPTIONS_MB, useAudioDownloadStore } from '../../../../stores/useAudioDownloadStore';
+import { usePreferencesStore } from '../../../../stores/userPreferencesStore';
+import { TOTAL_SURAHS } from '../../../../api/services/quran';
+import { TOTAL_MUSHAF_PAGES } from '../../../../constants/quranPages';
+import {
+  deleteQuranDownload,
+  formatStorageSize,
+  pauseQuranDownload,
+  refreshQuranDownloadState,
+  startQuranDownload,
+} from '../../../../services/offline/quranDownloadService';
+import {
+  cancelAudioDownload,
+  deleteReciterAudio,
+  getAudioDownloadLabel,
+  processAudioDownloadQueue,
+  retryAudioDownload,
+} from '../../../../services/offline/quranAudioDownloadService';
+import { reciterOptions } from '../../../../utils/constants';
+import { calculateContrastColor, enter } from '../../../../utils';
+
+const AUDIO_STATUS_LABELS = {
+  queued: 'Queued',
+  downloading: 'Downloading',
+  waiting: 'Waiting',
+  failed: 'Failed',
+} as const;
+
+const reciterName = (reciter: string) =>
+  reciterOptions.find((option) => option.value === reciter)?.label ?? reciter;
+
+const formatQuota = (mb: number) => (mb === 0 ? 'No limit' : mb >= 1000 ? `${mb / 1000} GB` : `${mb} MB`);
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const OfflineQuranPage = () => {
+  const { theme, isDarkMode } = useTheme();
+  const { accent } = useAccent();
+  const { status, error, surahsCached, pagesCached, bytes } = useQuranDownloadStore();
+
+  const reciter = usePreferencesStore((s) => s.reciter);
+  const audioJobs = useAudioDownloadStore((s) => s.jobs);
+  const audioUsedBytes = useAudioDownloadStore((s) => s.usedBytes);
+  const wifiOnly = useAudioDownloadStore((s) => s.wifiOnly);
+  const quotaMB = useAudioDownloadStore((s) => s.quotaMB);
+  const setWifiOnly = useAudioDownloadStore((s) => s.setWifiOnly);
+  const setQuotaMB = useAudioDownloadStore((s) => s.setQuotaMB);
+
+  const reciterBytes = audioUsedBytes[reciter] ?? 0;
+  const totalAudioBytes = Object.values(audioUsedBytes).reduce((total, b) => total + b, 0);
+
+  useEffect(() => {
+    refreshQuranDownloadState();
+  }, []);
+
+  const isDownloading = status === 'downloading';
+  const hasDownload = surahsCached > 0 || pagesCached > 0;
+
+  const handleDownload = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    startQuranDownload().then(() => {
+      const { status: finalStatus } = useQuranDownloadStore.getState();
+      if (finalStatus === 'complete') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (finalStatus === 'error') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    });
+  };
+
+  const handlePause = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    pauseQuranDownload();
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      'Delete Offline Quran',
+      `This frees ${formatStorageSize(bytes)}. Surahs and pages you open afterwards are saved again as you read.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteQuranDownload();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleWifiOnlyToggle = (value: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setWifiOnly(value);
+    // Waiting jobs may be allowed to run now
+    processAudioDownloadQueue();
+  };
+
+  const confirmDeleteAudio = () => {
+    Alert.alert(
+      'Delete Recitation Audio',
+      `Delete all downloaded audio for ${reciterName(reciter)} and free ${formatStorageSize(reciterBytes)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteReciterAudio(reciter);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ]
+    );
+  };
+
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    { backgroundColor: active ? accent : (isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(0,0,0,0.05)') },
+  ];
+  const chipTextStyle = (active: boolean) => [
+    styles.chipText,
+    { color: active ? calculateContrastColor(accent) : theme.colors.text.secondary },
+  ];
+
+  const statusText = (() => {
+    switch (status) {
+      case 'downloading':
+        return 'Downloading…';
+      case 'paused':
+        return 'Paused';
+      case 'complete':
+        return 'Available offline';
+      case 'error':
+        return 'Download interrupted';
+      default:
+        return hasDownload ? 'Partially downloaded' : 'Not downloaded';
+    }
+  })();
+
+  const renderProgress = (icon: string, label: string, done: number, total: number) => (
+    <View style={styles.progressRow}>
+      <View style={styles.progressHeader}>
+        <FontAwesome6 name={icon} size={14} color={accent} />
+        <Text style={[styles.progressLabel, { color: theme.colors.text.primary }]}>{label}</Text>
+        <Text style={[styles.progressCount, { color: theme.colors.text.secondary }]}>
+          {done} / {total}
+        </Text>
+      </View>
+      <View style={[styles.progressTrack, { backgroundColor: theme.colors.primary + '60' }]}>
+        <View style={[styles.progressFill, { width: `${(done / total) * 100}%`, backgroundColor: accent }]} />
+      </View>
+    </View>
+  );
+
+  const renderAction = (
+    icon: string,
+    label: string,
+    description: string,
+    onPress: () => void,
+    options: { busy?: boolean; destructive?: boolean } = {}
+  ) => {
+    const color = options.destructive ? theme.colors.text.error : accent;
+    return (
+      <TouchableOpacity
+        style={[styles.actionRow, { backgroundColor: theme.colors.primary + '30' }]}
+        onPress={onPress}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.actionIcon, { backgroundColor: color + '15' }]}>
+          <FontAwesome6 name={icon} size={16} color={color} />
+        </View>
+        <View style={styles.actionText}>
+          <Text style={[styles.actionLabel, { color: options.destructive ? color : theme.colors.text.primary }]}>
+            {label}
+          </Text>
+          <Text style={[styles.actionDescription, { color: theme.colors.text.secondary }]}>
+            {description}
+          </Text>
+        </View>
+        {options.busy && <ActivityIndicator size="small" color={accent} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.primary }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <View style={styles.header}>
+            <View style={[styles.headerIcon, { backgroundColor: accent + '15' }]}>
+              <FontAwesome6 name="cloud-arrow-down" size={28} color={accent} />
+            </View>
+            <View style={styles.headerContent}>
+              <Text style={[styles.headerTitle, { color: theme.colors.text.primary }]}>Offline Quran</Text>
+              <Text style={[styles.headerSubtitle, { color: theme.colors.text.secondary }]}>
+                Read, search and listen without a connection
+              </Text>
+            </View>
+          </View>
+        </MotiView>
+
+        {/* Progress */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(1)}
+        >
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.card, { backgroundColor: theme.colors.secondary }]}
+          >
+            <View style={styles.statusRow}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>{statusText}</Text>
+              <Text style={[styles.sizeText, { color: theme.colors.text.secondary }]}>
+                {formatStorageSize(bytes)} used
+              </Text>
+            </View>
+
+            {renderProgress('book-quran', 'Surahs (Arabic & English)', surahsCached, TOTAL_SURAHS)}
+            {renderProgress('book-open', 'Mushaf pages', pagesCached, TOTAL_MUSHAF_PAGES)}
+
+            {status === 'error' && error && (
+              <View style={[styles.errorBox, { backgroundColor: theme.colors.text.error + '15' }]}>
+                <Text style={[styles.errorText, { color: theme.colors.text.error }]}>{error}</Text>
+              </View>
+            )}
+          </BlurView>
+        </MotiView>
+
+        {/* Actions */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(2)}
+        >
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.card, { backgroundColor: theme.colors.secondary }]}
+          >
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>Download</Text>
+
+            {isDownloading
+              ? renderAction('pause', 'Pause', 'Stops after the current batch', handlePause, { busy: true })
+              : status !== 'complete' &&
+                renderAction(
+                  hasDownload ? 'play' : 'download',
+                  hasDownload ? 'Resume Download' : 'Download Full Quran',
+                  hasDownload ? 'Continues where it stopped' : 'Text, translation and mushaf. Wi-Fi recommended',
+                  handleDownload
+                )}
+
+            {!isDownloading &&
+              hasDownload &&
+              renderAction('trash', 'Delete Download', 'Free up storage on this device', confirmDelete, {
+                destructive: true,
+              })}
+
+            <Text style={[styles.hint, { color: theme.colors.text.muted }]}>
+              The download carries on while you use the app. If the app is closed, tap Resume to pick up where it stopped.
+            </Text>
+          </BlurView>
+        </MotiView>
+
+        {/* Recitation audio */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(3)}
+        >
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.card, { backgroundColor: theme.colors.secondary }]}
+          >
+            <View style={styles.statusRow}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>Recitation Audio</Text>
+              <Text style={[styles.sizeText, { color: theme.colors.text.secondary }]}>
+                {formatStorageSize(totalAudioBytes)} used
+              </Text>
+            </View>
+
+            <View style={styles.settingRow}>
+              <View style={[styles.actionIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name="wifi" size={16} color={accent} />
+              </View>
+              <View style={styles.actionText}>
+                <Text style={[styles.actionLabel, { color: theme.colors.text.primary }]}>Wi-Fi Only</Text>
+                <Text style={[styles.actionDescription, { color: theme.colors.text.secondary }]}>
+                  {wifiOnly ? 'Downloads wait for Wi-Fi' : 'Also download on mobile data'}
+                </Text>
+              </View>
+              <Switch
+                value={wifiOnly}
+                onValueChange={handleWifiOnlyToggle}
+                trackColor={{ false: theme.colors.muted, true: accent + '80' }}
+                thumbColor={theme.colors.primary}
+                ios_backgroundColor={theme.colors.muted}
+              />
+            </View>
+
+            <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>STORAGE LIMIT</Text>
+            <View style={styles.chipRow}>
+              {AUDIO_QUOTA_OPTIONS_MB.map((mb) => (
+                <TouchableOpacity
+                  key={mb}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setQuotaMB(mb);
+                  }}
+                  style={chipStyle(quotaMB === mb)}
+                >
+                  <Text style={chipTextStyle(quotaMB === mb)}>{formatQuota(mb)}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {audioJobs.length > 0 && (
+              <>
+                <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>QUEUE</Text>
+                {audioJobs.map((job) => (
+                  <View key={job.id} style={[styles.jobRow, { backgroundColor: theme.colors.primary + '30' }]}>
+                    <View style={styles.actionText}>
+                      <Text style={[styles.jobLabel, { color: theme.colors.text.primary }]}>
+                        {getAudioDownloadLabel(job.kind, job.number)}
+                      </Text>
+                      <Text
+                        style={[styles.actionDescription, {
+                          color: job.status === 'failed' ? theme.colors.text.error : theme.colors.text.secondary,
+                        }]}
+                      >
+                        {reciterName(job.reciter)} · {job.error ?? AUDIO_STATUS_LABELS[job.status]} · {job.done}/{job.total}
+                      </Text>
+                      <View style={[styles.progressTrack, { backgroundColor: theme.colors.primary + '60' }]}>
+                        <View
+                          style={[styles.progressFill, {
+                            width: `${job.total > 0 ? (job.done / job.total) * 100 : 0}%`,
+                            backgroundColor: accent,
+                          }]}
+                        />
+                      </View>
+                    </View>
+                    {job.status === 'failed' && (
+                      <TouchableOpacity onPress={() => retryAudioDownload(job.id)} hitSlop={8}>
+                        <FontAwesome6 name="rotate-right" size={16} color={accent} />
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity onPress={() => cancelAudioDownload(job.id)} hitSlop={8}>
+                      <FontAwesome6 name="xmark" size={16} color={theme.colors.text.muted} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </>
+            )}
+
+            {reciterBytes > 0 &&
+              renderAction(
+                'trash',
+                `Delete ${reciterName(reciter)}`,
+                `${formatStorageSize(reciterBytes)} of audio for the selected reciter`,
+                confirmDeleteAudio,
+                { destructive: true }
+              )}
+
+            <Text style={[styles.hint, { color: theme.colors.text.muted }]}>
+              Download a surah or juz from the Listen player. Downloaded ayahs play from this device, the rest stream.
+            </Text>
+          </BlurView>
+        </MotiView>
+      </ScrollView>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 24,
+  },
+  headerIcon: {
+    width: 64,
+    height: 64,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontFamily: 'Outfit_700Bold',
+  },
+  headerSubtitle: {
+    fontSize: 15,
+    fontFamily: 'Outfit_400Regular',
+  },
+
+  // Card
+  card: {
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    gap: 12,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sizeText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+  },
+
+  // Progress
+  progressRow: {
+    gap: 6,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  progressLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Outfit_500Medium',
+  },
+  progressCount: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  errorBox: {
+    padding: 12,
+    borderRadius: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+    lineHeight: 18,
+  },
+
+  // Action Row
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+  },
+  actionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionText: {
+    flex: 1,
+    gap: 2,
+  },
+  actionLabel: {
+    fontSize: 16,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  actionDescription: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  configLabel: {
+    fontSize: 11,
+    fontFamily: 'Outfit_600SemiBold',
+    letterSpacing: 0.6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    padding: 14,
+    borderRadius: 12,
+  },
+  jobLabel: {
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Outfit_400Regular',
+    lineHeight: 17,
+  },
+});
+
+export default OfflineQuranPage;
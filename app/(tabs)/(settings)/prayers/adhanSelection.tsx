@@ -1,13 +1,23 @@
 /**
  * Adhan Selection - Modern Design
  * 
- * Select and preview adhan audio
+ * Select and preview adhan audio, per prayer, and import custom sounds (iOS;
+ * Android explains why it cannot)
  * 
- * @version 2.0
+ * @version 2.2
  */
 
 import React from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
 import { FontAwesome6 } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
 import { MotiView } from 'moti';
@@ -15,9 +25,22 @@ import * as Haptics from 'expo-haptics';
 
 import { useTheme } from '../../../../context/ThemeContext';
 import { useAccent } from '../../../../hooks/useAccent';
-import { usePrayerSettings } from '../../../../hooks/settings/usePrayerSettings';
+import { usePrayerSettings, type AdhanTarget } from '../../../../hooks/settings/usePrayerSettings';
+import {
+  CUSTOM_ADHAN_SUPPORTED,
+  CUSTOM_ADHAN_UNSUPPORTED_MESSAGE,
+  CustomAdhanError,
+  MAX_ADHAN_SECONDS,
+} from '../../../../services/notifications/customAdhanSounds';
+import { LOGGABLE_PRAYERS } from '../../../../api/services/prayer/types/constants';
+import type { CustomAdhan } from '../../../../stores/userPreferencesStore';
 import { calculateContrastColor, enter } from '../../../../utils';
 
+const ADHAN_TARGETS: { target: AdhanTarget; label: string }[] = [
+  { target: 'default', label: 'All prayers' },
+  ...LOGGABLE_PRAYERS.map((prayer) => ({ target: prayer, label: prayer })),
+];
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -28,11 +51,44 @@ const AdhanSelectionScreen = () => {
 
   const {
     adhanOptions,
-    selectedAdhan,
+    adhanTarget,
+    targetAdhan,
+    prayerAdhans,
+    selectedAdhanLabel,
     isPlayingAdhan,
+    isImportingAdhan,
     handleAdhanSelect,
+    setAdhanTarget,
+    clearPrayerAdhan,
+    handleImportAdhan,
+    handleDeleteCustomAdhan,
   } = usePrayerSettings();
 
+  const handleImport = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      const result = await handleImportAdhan();
+      if (result?.trimmed) {
+        Alert.alert(
+          'Adhan Trimmed',
+          `Notification sounds are limited to ${MAX_ADHAN_SECONDS} seconds, so only the start of the clip was kept.`
+        );
+      }
+    } catch (error) {
+      Alert.alert(
+        'Import Failed',
+        error instanceof CustomAdhanError ? error.message : 'This file could not be imported.'
+      );
+    }
+  };
+
+  const confirmDelete = (custom: CustomAdhan) => {
+    Alert.alert('Delete Adhan', `Remove "${custom.name}"? Prayers using it go back to the default adhan.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => handleDeleteCustomAdhan(custom) },
+    ]);
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.primary }]}>
       <View style={styles.content}>
@@ -51,19 +107,141 @@ const AdhanSelectionScreen = () => {
               <FontAwesome6 name="circle-info" size={18} color={theme.colors.text.muted} />
             </View>
             <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
-              Select the adhan audio you want to hear for prayer times. Tap to preview.
+              Select the adhan for all prayers, or pick a prayer to give it its own. Tap to preview.
             </Text>
           </BlurView>
         </MotiView>
 
+        {/* Prayer Targets */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.targetRow}
+          style={styles.targetScroll}
+        >
+          {ADHAN_TARGETS.map(({ target, label }) => {
+            const isActive = adhanTarget === target;
+            const hasOverride = target !== 'default' && !!prayerAdhans[target];
+            return (
+              <TouchableOpacity
+                key={target}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setAdhanTarget(target);
+                }}
+                activeOpacity={0.7}
+                style={[
+                  styles.targetChip,
+                  { backgroundColor: isActive ? accent : theme.colors.secondary },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.targetLabel,
+                    { color: isActive ? calculateContrastColor(accent) : theme.colors.text.primary },
+                  ]}
+                >
+                  {label}
+                </Text>
+                {hasOverride && (
+                  <View
+                    style={[
+                      styles.targetDot,
+                      { backgroundColor: isActive ? calculateContrastColor(accent) : accent },
+                    ]}
+                  />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
         {/* Adhan Options */}
         <FlatList
           data={adhanOptions}
           keyExtractor={(item) => item.id.toString()}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            adhanTarget !== 'default' ? (
+              <TouchableOpacity
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  clearPrayerAdhan();
+                }}
+                activeOpacity={0.7}
+              >
+                <BlurView
+                  intensity={20}
+                  tint={isDarkMode ? 'dark' : 'light'}
+                  style={[
+                    styles.adhanOption,
+                    { backgroundColor: theme.colors.secondary },
+                    !targetAdhan && [styles.selectedOption, { backgroundColor: accent + '20' }],
+                  ]}
+                >
+                  <View style={[styles.optionIcon, { backgroundColor: !targetAdhan ? accent : accent + '15' }]}>
+                    <FontAwesome6
+                      name={!targetAdhan ? 'check' : 'rotate-left'}
+                      size={16}
+                      color={!targetAdhan ? calculateContrastColor(accent) : accent}
+                    />
+                  </View>
+                  <View style={styles.optionContent}>
+                    <Text
+                      style={[
+                        styles.adhanLabel,
+                        { color: theme.colors.text.primary },
+                        !targetAdhan && [styles.selectedLabel, { color: accent }],
+                      ]}
+                    >
+                      Same as all prayers
+                    </Text>
+                    <Text style={[styles.adhanMeta, { color: theme.colors.text.secondary }]}>
+                      {selectedAdhanLabel}
+                    </Text>
+                  </View>
+                </BlurView>
+              </TouchableOpacity>
+            ) : null
+          }
+          ListFooterComponent={
+            !CUSTOM_ADHAN_SUPPORTED ? (
+              <View style={[styles.importButton, { borderColor: theme.colors.text.secondary + '40' }]}>
+                <FontAwesome6 name="circle-info" size={16} color={theme.colors.text.secondary} />
+                <View style={styles.optionContent}>
+                  <Text style={[styles.importLabel, { color: theme.colors.text.secondary }]}>
+                    Import Adhan
+                  </Text>
+                  <Text style={[styles.adhanMeta, { color: theme.colors.text.secondary }]}>
+                    {CUSTOM_ADHAN_UNSUPPORTED_MESSAGE}
+                  </Text>
+                </View>
+              </View>
+            ) : (
+              <TouchableOpacity
+                onPress={handleImport}
+                disabled={isImportingAdhan}
+                activeOpacity={0.7}
+              >
+                <View style={[styles.importButton, { borderColor: accent + '60' }]}>
+                  {isImportingAdhan ? (
+                    <ActivityIndicator size="small" color={accent} />
+                  ) : (
+                    <FontAwesome6 name="file-import" size={16} color={accent} />
+                  )}
+                  <View style={styles.optionContent}>
+                    <Text style={[styles.importLabel, { color: accent }]}>Import Adhan</Text>
+                    <Text style={[styles.adhanMeta, { color: theme.colors.text.secondary }]}>
+                      WAV file, first {MAX_ADHAN_SECONDS} seconds are used
+                    </Text>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            )
+          }
           renderItem={({ item, index }) => {
-            const isSelected = item.label === selectedAdhan;
+            const isSelected = item.selection === targetAdhan;
             const accentBg = accent;
             const accentText = calculateContrastColor(accentBg);
 
@@ -110,15 +288,35 @@ const AdhanSelectionScreen = () => {
                     </View>
 
                     {/* Label */}
-                    <Text
-                      style={[
-                        styles.adhanLabel,
-                        { color: theme.colors.text.primary },
-                        isSelected && [styles.selectedLabel, { color: accent }],
-                      ]}
-                    >
-                      {item.label}
-                    </Text>
+                    <View style={styles.optionContent}>
+                      <Text
+                        style={[
+                          styles.adhanLabel,
+                          { color: theme.colors.text.primary },
+                          isSelected && [styles.selectedLabel, { color: accent }],
+                        ]}
+                        numberOfLines={1}
+                      >
+                        {item.label}
+                      </Text>
+                      {item.custom && (
+                        <Text style={[styles.adhanMeta, { color: theme.colors.text.secondary }]}>
+                          Imported · {item.custom.durationSeconds}s
+                        </Text>
+                      )}
+                    </View>
+
+                    {/* Delete (imported sounds) */}
+                    {item.custom && (
+                      <TouchableOpacity
+                        onPress={() => confirmDelete(item.custom!)}
+                        hitSlop={8}
+                        style={[styles.playIcon, { backgroundColor: theme.colors.text.muted + '15' }]}
+                        accessibilityLabel={`Delete ${item.label}`}
+                      >
+                        <FontAwesome6 name="trash" size={12} color={theme.colors.text.muted} />
+                      </TouchableOpacity>
+                    )}
 
                     {/* Play Icon */}
                     {item.file && (
@@ -217,6 +415,32 @@ const styles = StyleSheet.create({
     lineHeight: 20,
   },
 
+  // Prayer Targets
+  targetScroll: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  targetRow: {
+    gap: 8,
+  },
+  targetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  targetLabel: {
+    fontSize: 14,
+    fontFamily: 'Outfit_500Medium',
+  },
+  targetDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+
   // List
   listContent: {
     gap: 12,
@@ -251,11 +475,18 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-  adhanLabel: {
+  optionContent: {
     flex: 1,
+    gap: 2,
+  },
+  adhanLabel: {
     fontSize: 16,
     fontFamily: 'Outfit_500Medium',
   },
+  adhanMeta: {
+    fontSize: 12,
+    fontFamily: 'Outfit_400Regular',
+  },
   selectedLabel: {
     fontFamily: 'Outfit_700Bold',
   },
@@ -267,6 +498,21 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
 
+  // Import
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  importLabel: {
+    fontSize: 16,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+
   // Playing Indicator
   playingContainer: {
     position: 'absolute',
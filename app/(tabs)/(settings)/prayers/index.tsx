@@ -1,9 +1,10 @@
 /**
  * Prayer Settings - Modern Design (FIXED SCROLLING)
  * 
- * Configure prayer times, notifications, and adhan
+ * Configure prayer times, calculation method, notifications, Jumaat alerts,
+ * daily Quran and dhikr reminders and adhan
  * 
- * @version 2.0
+ * @version 2.4
  */
 
 import React from 'react';
@@ -17,15 +18,58 @@ import * as Haptics from 'expo-haptics';
 import { useTheme } from '../../../../context/ThemeContext';
 import { useAccent } from '../../../../hooks/useAccent';
 import { usePrayerSettings } from '../../../../hooks/settings/usePrayerSettings';
+import ReminderRulesEditor from '../../../../components/prayer/ReminderRulesEditor';
 import { calculateContrastColor, enter } from '../../../../utils';
+import {
+  CALCULATION_METHODS,
+  DEFAULT_CALCULATION_PROFILE,
+  JUMAAT_ARRIVAL_OFFSETS,
+  JUMAAT_PREVIEW_TIMES,
+  JUMAAT_TRAVEL_MODES,
+  School,
+  formatReminderRule,
+  getCalculationMethodName,
+  type HighLatitudeRule,
+  type JumaatTravelMode,
+  type PrayerTimeOffsets,
+} from '../../../../api/services/prayer';
+import { KHUTBAH_LANGUAGES } from '../../../../api/services/khutbah';
+import { DAILY_REMINDER_TIMES } from '../../../../services/notifications/dailyReminderService';
+import type { DailyReminderKind } from '../../../../stores/userPreferencesStore';
 
 // Only the 5 obligatory prayers are notifiable (Syuruk/sunrise is not a prayer
 // and was never scheduled — listing it here was misleading).
 const PRAYER_SESSIONS = ['Subuh', 'Zohor', 'Asar', 'Maghrib', 'Isyak'];
 const REMINDER_INTERVALS = [5, 10, 15, 20, 25, 30];
-const PER_PRAYER_OFFSETS = [0, 5, 10, 15, 30]; // 0 = no reminder
 const QUIET_TIME_SLOTS = Array.from({ length: 48 }, (_, i) => i * 30); // 30-min slots
 
+const METHOD_OPTIONS = Object.entries(CALCULATION_METHODS)
+  .map(([id, info]) => ({ value: Number(id), label: info.name }))
+  .sort((a, b) => a.label.localeCompare(b.label));
+const ASR_SCHOOLS = [
+  { value: School.SHAFI, label: 'Shafi' },
+  { value: School.HANAFI, label: 'Hanafi' },
+] as const;
+const HIGH_LATITUDE_RULES: { value: HighLatitudeRule; label: string }[] = [
+  { value: 'middleOfTheNight', label: 'Middle of night' },
+  { value: 'seventhOfTheNight', label: '1/7 of night' },
+  { value: 'twilightAngle', label: 'Angle based' },
+  { value: 'none', label: 'None' },
+];
+// Syuruk is adjustable too: some local timetables shift sunrise by a minute or two.
+const ADJUSTABLE_PRAYERS: { key: keyof PrayerTimeOffsets; label: string }[] = [
+  { key: 'subuh', label: 'Subuh' },
+  { key: 'syuruk', label: 'Syuruk' },
+  { key: 'zohor', label: 'Zohor' },
+  { key: 'asar', label: 'Asar' },
+  { key: 'maghrib', label: 'Maghrib' },
+  { key: 'isyak', label: 'Isyak' },
+];
+const DAILY_REMINDERS: { kind: DailyReminderKind; icon: string; label: string; description: string }[] = [
+  { kind: 'quranGoal', icon: 'book-quran', label: 'Quran Reading', description: 'Skipped once you have read today' },
+  { kind: 'tasbih', icon: 'hand-sparkles', label: 'Daily Dhikr', description: 'Skipped once you have counted today' },
+];
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -37,26 +81,46 @@ const PrayersSettings = () => {
   const {
     timeFormat,
     reminderInterval,
-    selectedAdhan,
+    selectedAdhanLabel,
     mutedNotifications,
     notificationsEnabled,
-    prayerReminders,
+    prayerReminderRules,
     silentPrayers,
     quietHoursEnabled,
     quietStartMinutes,
     quietEndMinutes,
+    ramadanRemindersEnabled,
+    missedPrayerNudgeEnabled,
+    jumaatSettings,
+    jumaatMosques,
+    dailyReminders,
     isReminderPickerVisible,
     handleTimeFormatToggle,
     handleReminderIntervalChange,
     handleToggleNotification,
     handleToggleNotificationsEnabled,
-    setPrayerReminder,
+    addPrayerReminderRule,
+    removePrayerReminderRule,
+    resetPrayerReminderRules,
     togglePrayerSilent,
     setQuietHoursEnabled,
     setQuietHours,
+    setRamadanRemindersEnabled,
+    setMissedPrayerNudgeEnabled,
+    setJumaatSettings,
+    setDailyReminder,
     navigateToAdhanSelection,
     openReminderPicker,
     closeReminderPicker,
+    calculationProfile,
+    isMethodPickerVisible,
+    handleCalculationMethodChange,
+    handleSchoolChange,
+    handleHighLatitudeRuleChange,
+    adjustPrayerTime,
+    resetCalculationProfile,
+    openMethodPicker,
+    closeMethodPicker,
   } = usePrayerSettings();
 
   // Which prayer's per-prayer config is expanded, and which quiet-hours field
@@ -74,11 +138,40 @@ const PrayersSettings = () => {
     return `${h12}:${mm} ${ampm}`;
   };
 
+  const isDefaultProfile =
+    JSON.stringify(calculationProfile) === JSON.stringify(DEFAULT_CALCULATION_PROFILE);
+
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    { backgroundColor: active ? accent : (isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(0,0,0,0.05)') },
+  ];
+  const chipTextStyle = (active: boolean) => [
+    styles.chipText,
+    { color: active ? calculateContrastColor(accent) : theme.colors.text.secondary },
+  ];
+
   const handleSwitchToggle = (handler: () => void) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     handler();
   };
 
+  const selectJumaat = (settings: Parameters<typeof setJumaatSettings>[0]) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setJumaatSettings(settings);
+  };
+
+  const selectDailyReminderTime = (kind: DailyReminderKind, minutes: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDailyReminder(kind, { minutes });
+  };
+
+  const jumaatMosque = jumaatMosques.find((m) => m.mosque.id === jumaatSettings.mosqueId);
+  const leaveDescription = !jumaatSettings.leaveReminder
+    ? 'Off'
+    : jumaatMosque
+      ? `${jumaatMosque.travelMinutes + jumaatSettings.arriveMinutesBefore} min before Jumaat · ${jumaatMosque.mosque.building}`
+      : 'Pick a favourite mosque';
+
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.primary }]}>
       <ScrollView
@@ -182,7 +275,7 @@ const PrayersSettings = () => {
               </View>
               <View style={styles.settingAction}>
                 <Text style={[styles.settingValue, { color: accent }]}>
-                  {selectedAdhan}
+                  {selectedAdhanLabel}
                 </Text>
                 <FontAwesome6
                   name="chevron-right"
@@ -194,6 +287,152 @@ const PrayersSettings = () => {
           </BlurView>
         </MotiView>
 
+        {/* Calculation */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <SectionHeader icon="calculator" label="Calculation" theme={theme} />
+          <Text style={[styles.sectionDescription, { color: theme.colors.text.secondary }]}>
+            Official MUIS times are used in Singapore with the MUIS method and Shafi Asr
+          </Text>
+
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.settingsCard, { backgroundColor: theme.colors.secondary }]}
+          >
+            {/* Method */}
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                openMethodPicker();
+              }}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.settingIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name="globe" size={18} color={accent} />
+              </View>
+              <View style={styles.settingContent}>
+                <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                  Method
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.colors.text.secondary }]}>
+                  {getCalculationMethodName(calculationProfile.method)}
+                </Text>
+              </View>
+              <FontAwesome6 name="chevron-right" size={16} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+
+            <View style={[styles.divider, { backgroundColor: theme.colors.muted }]} />
+
+            {/* Asr school */}
+            <View style={styles.prayerConfig}>
+              <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>ASR</Text>
+              <View style={styles.chipRow}>
+                {ASR_SCHOOLS.map(({ value, label }) => {
+                  const active = calculationProfile.school === value;
+                  return (
+                    <TouchableOpacity
+                      key={value}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        handleSchoolChange(value);
+                      }}
+                      style={chipStyle(active)}
+                    >
+                      <Text style={chipTextStyle(active)}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* High latitude rule */}
+            <View style={styles.prayerConfig}>
+              <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>HIGH LATITUDES</Text>
+              <View style={styles.chipRow}>
+                {HIGH_LATITUDE_RULES.map(({ value, label }) => {
+                  const active = calculationProfile.highLatitudeRule === value;
+                  return (
+                    <TouchableOpacity
+                      key={value}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        handleHighLatitudeRuleChange(value);
+                      }}
+                      style={chipStyle(active)}
+                    >
+                      <Text style={chipTextStyle(active)}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Per-prayer adjustments */}
+            <View style={styles.prayerConfig}>
+              <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>ADJUSTMENTS (MINUTES)</Text>
+              {ADJUSTABLE_PRAYERS.map(({ key, label }) => {
+                const minutes = calculationProfile.adjustments[key] ?? 0;
+                return (
+                  <View key={key} style={styles.configRow}>
+                    <Text style={[styles.configRowLabel, { flex: 1, color: theme.colors.text.primary }]}>
+                      {label}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        adjustPrayerTime(key, -1);
+                      }}
+                      style={chipStyle(false)}
+                    >
+                      <FontAwesome6 name="minus" size={12} color={theme.colors.text.secondary} />
+                    </TouchableOpacity>
+                    <Text style={[styles.adjustmentValue, { color: minutes === 0 ? theme.colors.text.secondary : accent }]}>
+                      {minutes > 0 ? `+${minutes}` : minutes}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        adjustPrayerTime(key, 1);
+                      }}
+                      style={chipStyle(false)}
+                    >
+                      <FontAwesome6 name="plus" size={12} color={theme.colors.text.secondary} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+
+            {!isDefaultProfile && (
+              <>
+                <View style={[styles.divider, { backgroundColor: theme.colors.muted }]} />
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  activeOpacity={0.7}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                    resetCalculationProfile();
+                  }}
+                >
+                  <View style={[styles.settingIcon, { backgroundColor: accent + '15' }]}>
+                    <FontAwesome6 name="rotate-left" size={16} color={accent} />
+                  </View>
+                  <View style={styles.settingContent}>
+                    <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                      Reset to MUIS Singapore
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              </>
+            )}
+          </BlurView>
+        </MotiView>
+
         {/* Prayer Notifications */}
         <MotiView
           from={{ opacity: 0, translateY: -20 }}
@@ -233,15 +472,52 @@ const PrayersSettings = () => {
             </View>
 
             {notificationsEnabled && (
-              <View style={[styles.divider, { backgroundColor: theme.colors.muted }]} />
+              <>
+                <View style={[styles.divider, { backgroundColor: theme.colors.muted }]} />
+
+                {/* Missed prayer nudge */}
+                <View style={styles.settingRow}>
+                  <View style={[styles.settingIcon, { backgroundColor: accent + '15' }]}>
+                    <FontAwesome6 name="hourglass-half" size={18} color={accent} />
+                  </View>
+                  <View style={styles.settingContent}>
+                    <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                      Missed Prayer Nudge
+                    </Text>
+                    <Text style={[styles.settingDescription, { color: theme.colors.text.secondary }]}>
+                      {missedPrayerNudgeEnabled
+                        ? 'Before the next prayer, if not logged yet'
+                        : 'Off'}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={missedPrayerNudgeEnabled}
+                    onValueChange={() =>
+                      handleSwitchToggle(() => setMissedPrayerNudgeEnabled(!missedPrayerNudgeEnabled))
+                    }
+                    trackColor={{ false: theme.colors.muted, true: accent + '80' }}
+                    thumbColor={theme.colors.primary}
+                    ios_backgroundColor={theme.colors.muted}
+                  />
+                </View>
+
+                <View style={[styles.divider, { backgroundColor: theme.colors.muted }]} />
+              </>
             )}
 
             {notificationsEnabled && PRAYER_SESSIONS.map((prayer, index) => {
               const enabled = !mutedNotifications.includes(prayer);
               const expanded = expandedPrayer === prayer;
-              const effectiveReminder = prayerReminders[prayer] ?? reminderInterval;
+              const rules = prayerReminderRules[prayer];
+              const reminderSummary = !rules
+                ? reminderInterval === 0 ? 'No reminder' : `${reminderInterval} min before`
+                : rules.length === 0
+                  ? 'No reminder'
+                  : rules.length === 1
+                    ? formatReminderRule(rules[0])
+                    : `${rules.length} reminders`;
               const isSilent = silentPrayers.includes(prayer);
-              const summary = `${effectiveReminder === 0 ? 'No reminder' : `${effectiveReminder} min before`} · ${isSilent ? 'Silent' : 'Adhan'}`;
+              const summary = `${reminderSummary} · ${isSilent ? 'Silent' : 'Adhan'}`;
               return (
                 <React.Fragment key={prayer}>
                   <MotiView
@@ -292,31 +568,14 @@ const PrayersSettings = () => {
 
                     {enabled && expanded && (
                       <View style={styles.prayerConfig}>
-                        <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>REMINDER</Text>
-                        <View style={styles.chipRow}>
-                          {PER_PRAYER_OFFSETS.map((min) => {
-                            const active = effectiveReminder === min;
-                            return (
-                              <TouchableOpacity
-                                key={min}
-                                onPress={() => {
-                                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                                  setPrayerReminder(prayer, min);
-                                }}
-                                style={[
-                                  styles.chip,
-                                  {
-                                    backgroundColor: active ? accent : (isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(0,0,0,0.05)'),
-                                  },
-                                ]}
-                              >
-                                <Text style={[styles.chipText, { color: active ? calculateContrastColor(accent) : theme.colors.text.secondary }]}>
-                                  {min === 0 ? 'Off' : `${min}m`}
-                                </Text>
-                              </TouchableOpacity>
-                            );
-                          })}
-                        </View>
+                        <ReminderRulesEditor
+                          prayer={prayer}
+                          rules={rules}
+                          defaultMinutes={reminderInterval}
+                          onAdd={(rule) => addPrayerReminderRule(prayer, rule)}
+                          onRemove={(ruleId) => removePrayerReminderRule(prayer, ruleId)}
+                          onReset={() => resetPrayerReminderRules(prayer)}
+                        />
 
                         <View style={styles.configRow}>
                           <View style={{ flex: 1 }}>
@@ -431,6 +690,299 @@ const PrayersSettings = () => {
             )}
           </BlurView>
         </MotiView>
+
+        {/* Jumaat */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <SectionHeader icon="mosque" label="Jumaat" theme={theme} />
+          <Text style={[styles.sectionDescription, { color: theme.colors.text.secondary }]}>
+            Friday alerts, on top of the Zohor reminders
+          </Text>
+
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.settingsCard, { backgroundColor: theme.colors.secondary }]}
+          >
+            {/* Khutbah preview */}
+            <View style={styles.settingRow}>
+              <View style={[styles.settingIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name="book-open" size={18} color={accent} />
+              </View>
+              <View style={styles.settingContent}>
+                <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                  Khutbah Preview
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.colors.text.secondary }]}>
+                  {jumaatSettings.khutbahPreview
+                    ? `Fridays at ${formatMinutes(jumaatSettings.previewMinutes)} · ${jumaatSettings.khutbahLanguage}`
+                    : 'Off'}
+                </Text>
+              </View>
+              <Switch
+                value={jumaatSettings.khutbahPreview}
+                onValueChange={() =>
+                  handleSwitchToggle(() => setJumaatSettings({ khutbahPreview: !jumaatSettings.khutbahPreview }))
+                }
+                trackColor={{ false: theme.colors.muted, true: accent + '80' }}
+                thumbColor={theme.colors.primary}
+                ios_backgroundColor={theme.colors.muted}
+              />
+            </View>
+
+            {jumaatSettings.khutbahPreview && (
+              <>
+                <View style={styles.prayerConfig}>
+                  <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>TIME</Text>
+                  <View style={styles.chipRow}>
+                    {JUMAAT_PREVIEW_TIMES.map((minutes) => {
+                      const active = jumaatSettings.previewMinutes === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          onPress={() => selectJumaat({ previewMinutes: minutes })}
+                          style={chipStyle(active)}
+                        >
+                          <Text style={chipTextStyle(active)}>{formatMinutes(minutes)}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+
+                <View style={styles.prayerConfig}>
+                  <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>LANGUAGE</Text>
+                  <View style={styles.chipRow}>
+                    {KHUTBAH_LANGUAGES.map((language) => {
+                      const active = jumaatSettings.khutbahLanguage === language;
+                      return (
+                        <TouchableOpacity
+                          key={language}
+                          onPress={() => selectJumaat({ khutbahLanguage: language })}
+                          style={chipStyle(active)}
+                        >
+                          <Text style={chipTextStyle(active)}>{language}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              </>
+            )}
+
+            <View style={[styles.divider, { backgroundColor: theme.colors.muted }]} />
+
+            {/* Leave for the mosque */}
+            <View style={styles.settingRow}>
+              <View style={[styles.settingIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name="person-walking" size={18} color={accent} />
+              </View>
+              <View style={styles.settingContent}>
+                <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                  Leave for the Mosque
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.colors.text.secondary }]}>
+                  {leaveDescription}
+                </Text>
+              </View>
+              <Switch
+                value={jumaatSettings.leaveReminder}
+                onValueChange={() =>
+                  handleSwitchToggle(() =>
+                    setJumaatSettings({
+                      leaveReminder: !jumaatSettings.leaveReminder,
+                      // Default to the nearest favourite
+                      mosqueId: jumaatSettings.mosqueId ?? jumaatMosques[0]?.mosque.id ?? null,
+                    })
+                  )
+                }
+                trackColor={{ false: theme.colors.muted, true: accent + '80' }}
+                thumbColor={theme.colors.primary}
+                ios_backgroundColor={theme.colors.muted}
+              />
+            </View>
+
+            {jumaatSettings.leaveReminder && (
+              <>
+                <View style={styles.prayerConfig}>
+                  <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>MOSQUE</Text>
+                  {jumaatMosques.length === 0 ? (
+                    <Text style={[styles.configRowDesc, { color: theme.colors.text.secondary }]}>
+                      Favourite a mosque on the Nearby map to pick it here.
+                    </Text>
+                  ) : (
+                    <View style={styles.chipRow}>
+                      {jumaatMosques.map(({ mosque, travelMinutes }) => {
+                        const active = jumaatSettings.mosqueId === mosque.id;
+                        return (
+                          <TouchableOpacity
+                            key={mosque.id}
+                            onPress={() => selectJumaat({ mosqueId: mosque.id })}
+                            style={chipStyle(active)}
+                          >
+                            <Text style={chipTextStyle(active)}>
+                              {mosque.building} · {travelMinutes} min
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                </View>
+
+                <View style={styles.prayerConfig}>
+                  <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>TRAVEL</Text>
+                  <View style={styles.chipRow}>
+                    {(Object.keys(JUMAAT_TRAVEL_MODES) as JumaatTravelMode[]).map((mode) => {
+                      const active = jumaatSettings.travelMode === mode;
+                      return (
+                        <TouchableOpacity
+                          key={mode}
+                          onPress={() => selectJumaat({ travelMode: mode })}
+                          style={chipStyle(active)}
+                        >
+                          <Text style={chipTextStyle(active)}>{JUMAAT_TRAVEL_MODES[mode].label}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+
+                <View style={styles.prayerConfig}>
+                  <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>ARRIVE BEFORE ZOHOR</Text>
+                  <View style={styles.chipRow}>
+                    {JUMAAT_ARRIVAL_OFFSETS.map((minutes) => {
+                      const active = jumaatSettings.arriveMinutesBefore === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          onPress={() => selectJumaat({ arriveMinutesBefore: minutes })}
+                          style={chipStyle(active)}
+                        >
+                          <Text style={chipTextStyle(active)}>{minutes} min</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              </>
+            )}
+          </BlurView>
+        </MotiView>
+
+        {/* Ramadan */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <SectionHeader icon="moon" label="Ramadan" theme={theme} />
+          <Text style={[styles.sectionDescription, { color: theme.colors.text.secondary }]}>
+            Only used during Ramadan
+          </Text>
+
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.settingsCard, { backgroundColor: theme.colors.secondary }]}
+          >
+            <View style={styles.settingRow}>
+              <View style={[styles.settingIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name="utensils" size={18} color={accent} />
+              </View>
+              <View style={styles.settingContent}>
+                <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                  Sahur & Iftar Alerts
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.colors.text.secondary }]}>
+                  {ramadanRemindersEnabled ? 'Before imsak and at iftar' : 'Off'}
+                </Text>
+              </View>
+              <Switch
+                value={ramadanRemindersEnabled}
+                onValueChange={() =>
+                  handleSwitchToggle(() => setRamadanRemindersEnabled(!ramadanRemindersEnabled))
+                }
+                trackColor={{ false: theme.colors.muted, true: accent + '80' }}
+                thumbColor={theme.colors.primary}
+                ios_backgroundColor={theme.colors.muted}
+              />
+            </View>
+          </BlurView>
+        </MotiView>
+
+        {/* Daily reminders */}
+        <MotiView
+          from={{ opacity: 0, translateY: -20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={enter(0)}
+        >
+          <SectionHeader icon="calendar-check" label="Daily Reminders" theme={theme} />
+          <Text style={[styles.sectionDescription, { color: theme.colors.text.secondary }]}>
+            Once a day, at a time you pick
+          </Text>
+
+          <BlurView
+            intensity={20}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.settingsCard, { backgroundColor: theme.colors.secondary }]}
+          >
+            {DAILY_REMINDERS.map(({ kind, icon, label, description }, index) => {
+              const reminder = dailyReminders[kind];
+              return (
+                <React.Fragment key={kind}>
+                  {index > 0 && <View style={[styles.divider, { backgroundColor: theme.colors.muted }]} />}
+
+                  <View style={styles.settingRow}>
+                    <View style={[styles.settingIcon, { backgroundColor: accent + '15' }]}>
+                      <FontAwesome6 name={icon} size={18} color={accent} />
+                    </View>
+                    <View style={styles.settingContent}>
+                      <Text style={[styles.settingLabel, { color: theme.colors.text.primary }]}>
+                        {label}
+                      </Text>
+                      <Text style={[styles.settingDescription, { color: theme.colors.text.secondary }]}>
+                        {reminder.enabled ? `Daily at ${formatMinutes(reminder.minutes)} · ${description}` : 'Off'}
+                      </Text>
+                    </View>
+                    <Switch
+                      value={reminder.enabled}
+                      onValueChange={() =>
+                        handleSwitchToggle(() => setDailyReminder(kind, { enabled: !reminder.enabled }))
+                      }
+                      trackColor={{ false: theme.colors.muted, true: accent + '80' }}
+                      thumbColor={theme.colors.primary}
+                      ios_backgroundColor={theme.colors.muted}
+                    />
+                  </View>
+
+                  {reminder.enabled && (
+                    <View style={styles.prayerConfig}>
+                      <Text style={[styles.configLabel, { color: theme.colors.text.muted }]}>TIME</Text>
+                      <View style={styles.chipRow}>
+                        {DAILY_REMINDER_TIMES.map((minutes) => {
+                          const active = reminder.minutes === minutes;
+                          return (
+                            <TouchableOpacity
+                              key={minutes}
+                              onPress={() => selectDailyReminderTime(kind, minutes)}
+                              style={chipStyle(active)}
+                            >
+                              <Text style={chipTextStyle(active)}>{formatMinutes(minutes)}</Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </View>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </BlurView>
+        </MotiView>
       </ScrollView>
 
       {/* Reminder Interval Picker Modal */}
@@ -512,6 +1064,62 @@ const PrayersSettings = () => {
         </TouchableOpacity>
       </Modal>
 
+      {/* Calculation method picker */}
+      <Modal
+        visible={isMethodPickerVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={closeMethodPicker}
+      >
+        <TouchableOpacity
+          style={styles.modalBackground}
+          activeOpacity={1}
+          onPress={closeMethodPicker}
+        >
+          <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+            <BlurView
+              intensity={30}
+              tint={isDarkMode ? 'dark' : 'light'}
+              style={[styles.modalContainer, { backgroundColor: theme.colors.secondary }]}
+            >
+              <View style={[styles.modalIcon, { backgroundColor: accent + '15' }]}>
+                <FontAwesome6 name="globe" size={32} color={accent} />
+              </View>
+              <Text style={[styles.modalTitle, { color: theme.colors.text.primary }]}>
+                Calculation Method
+              </Text>
+
+              <Picker
+                selectedValue={calculationProfile.method}
+                style={[styles.picker, { color: theme.colors.text.primary }]}
+                onValueChange={(value) => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  handleCalculationMethodChange(value as number);
+                }}
+              >
+                {METHOD_OPTIONS.map((option) => (
+                  <Picker.Item key={option.value} label={option.label} value={option.value} />
+                ))}
+              </Picker>
+
+              <TouchableOpacity
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                  closeMethodPicker();
+                }}
+                style={[styles.doneButton, { backgroundColor: accent }]}
+                activeOpacity={0.8}
+              >
+                <FontAwesome6 name="check" size={16} color={calculateContrastColor(accent)} />
+                <Text style={[styles.doneButtonText, { color: calculateContrastColor(accent) }]}>
+                  Done
+                </Text>
+              </TouchableOpacity>
+            </BlurView>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+
       {/* Quiet Hours time picker */}
       <Modal
         visible={quietField !== null}
@@ -753,6 +1361,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Outfit_500Medium',
   },
+  adjustmentValue: {
+    width: 40,
+    textAlign: 'center',
+    fontSize: 14,
+    fontFamily: 'Outfit_600SemiBold',
+  },
   configRowDesc: {
     fontSize: 12,
     fontFamily: 'Outfit_400Regular',
@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, Text, TextInput, StyleSheet, ScrollView } from 'react-native';
+import { View, Text, TextInput, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { FontAwesome6 } from '@expo/vector-icons';
 import { useTheme } from '../../../../../context/ThemeContext';
 import { useAccent } from '../../../../../hooks/useAccent';
@@ -28,6 +28,8 @@ const FidyahCalculator = () => {
     setDaysHaidOther,
     setDaysIllnessOldAge,
     setDaysPregnancyFeeding,
+    loggedDays,
+    applyFastingLog,
   } = useFidyahCalculator();
 
   const categories: FidyahCategoryConfig[] = [
@@ -77,6 +79,20 @@ const FidyahCalculator = () => {
           <Text style={styles.rateText}>Daily Rate: ${ratePerDay.toFixed(2)}</Text>
         </View>
 
+        {/* Fasting log */}
+        {loggedDays.total > 0 && (
+          <TouchableOpacity style={styles.logContainer} onPress={applyFastingLog} activeOpacity={0.7}>
+            <FontAwesome6 name="moon" size={18} color={accent} />
+            <View style={styles.logText}>
+              <Text style={styles.logTitle}>Use Fasting Log</Text>
+              <Text style={styles.logDescription}>
+                {loggedDays.total} unfasted {loggedDays.total === 1 ? 'day' : 'days'} logged in Ramadan
+              </Text>
+            </View>
+            <FontAwesome6 name="arrow-down" size={14} color={theme.colors.text.muted} />
+          </TouchableOpacity>
+        )}
+
         {/* Categories */}
         {categories.map((category, index) => (
           <View key={index} style={styles.card}>
@@ -165,6 +181,30 @@ const createStyles = (theme: any) =>
       fontFamily: 'Outfit_500Medium',
       color: theme.colors.text.secondary,
     },
+    logContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.medium,
+      marginBottom: theme.spacing.medium,
+      padding: theme.spacing.medium,
+      backgroundColor: theme.colors.secondary,
+      borderRadius: theme.borderRadius.medium,
+      ...theme.shadows.default,
+    },
+    logText: {
+      flex: 1,
+      gap: 2,
+    },
+    logTitle: {
+      fontSize: theme.fontSizes.medium,
+      fontFamily: 'Outfit_600SemiBold',
+      color: theme.colors.text.primary,
+    },
+    logDescription: {
+      fontSize: theme.fontSizes.small,
+      fontFamily: 'Outfit_400Regular',
+      color: theme.colors.text.muted,
+    },
     card: {
       backgroundColor: theme.colors.secondary,
       borderRadius: theme.borderRadius.medium,
@@ -7,6 +7,7 @@ import * as SplashScreen from 'expo-splash-screen';
 import { toastConfig } from '../utils/toastConfig';
 import { useAppInit } from '../hooks/initialization/useAppInitialization';
 import { useLazyInit } from '../hooks/initialization/useLazyInit';
+import { useNotificationLinks } from '../hooks/initialization/useNotificationLinks';
 import { ModernSplash } from '../components/ModernSplash';
 
 // Hold the native splash until ModernSplash mounts and calls hideAsync itself.
@@ -17,6 +18,7 @@ export default function AppShell() {
   const [splashAnimationComplete, setSplashAnimationComplete] = useState(false);
 
   useLazyInit(isReady);
+  useNotificationLinks(isReady);
 
   // SplashScreen.hideAsync() is called inside ModernSplash at mount time so the
   // native → JS transition is seamless (same background colour).
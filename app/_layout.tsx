@@ -6,6 +6,8 @@ import { AuthProvider } from '../context/AuthContext';
 import { ThemeProvider } from '../context/ThemeContext';
 import { NotificationProvider } from '../context/NotificationContext';
 import AppShell from './_app-shell';
+// Defines the background re-plan task; must load before a headless launch looks it up
+import '../services/notifications/backgroundReplanTask';
 
 const queryClient = new QueryClient({
   defaultOptions: {
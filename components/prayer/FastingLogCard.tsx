@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../context/ThemeContext';
+import { useFastingEntry, useFastingStore } from '../../stores/useFastingStore';
+import {
+  FASTING_EXCUSE_LABELS,
+  FASTING_STATUS_LABELS,
+} from '../../api/services/prayer/types/constants';
+import type { FastingExcuseReason, FastingStatus } from '../../api/services/prayer/types/index';
+
+interface Props {
+  date: string; // YYYY-MM-DD
+  ramadanDay: number;
+  hijriYear: string;
+}
+
+const STATUS_ACTIONS: { status: FastingStatus; icon: string }[] = [
+  { status: 'fasted', icon: 'check' },
+  { status: 'missed', icon: 'xmark' },
+  { status: 'excused', icon: 'hand' },
+];
+
+const EXCUSE_REASONS = Object.keys(FASTING_EXCUSE_LABELS) as FastingExcuseReason[];
+
+/**
+ * Daily fast log shown above the prayer list during Ramadan.
+ *
+ * Tapping the selected status again clears it. Excused days ask for a
+ * reason, which decides how the day is counted for fidyah/qadha.
+ */
+const FastingLogCard = ({ date, ramadanDay, hijriYear }: Props) => {
+  const { theme, isDarkMode } = useTheme();
+  const entry = useFastingEntry(date);
+  const [pickingReason, setPickingReason] = useState(false);
+
+  const handleStatus = (status: FastingStatus) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const { logFast, clearFast } = useFastingStore.getState();
+
+    if (status === 'excused') {
+      setPickingReason((picking) => !picking);
+      return;
+    }
+
+    setPickingReason(false);
+    if (entry?.status === status) {
+      clearFast(date);
+    } else {
+      logFast(date, status, hijriYear);
+    }
+  };
+
+  const handleReason = (reason: FastingExcuseReason) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    useFastingStore.getState().logFast(date, 'excused', hijriYear, reason);
+    setPickingReason(false);
+  };
+
+  const textPrimary = isDarkMode ? 'rgba(255,255,255,0.92)' : theme.colors.text.primary;
+  const textSecondary = isDarkMode ? 'rgba(255,255,255,0.45)' : theme.colors.text.secondary;
+  const glassBg = isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.88)';
+  const glassBorder = isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)';
+  const chipBg = isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(0,0,0,0.04)';
+  const chipBorder = isDarkMode ? 'rgba(255,255,255,0.11)' : 'rgba(0,0,0,0.07)';
+
+  const subtitle = entry
+    ? entry.status === 'excused' && entry.reason
+      ? `${FASTING_STATUS_LABELS.excused} · ${FASTING_EXCUSE_LABELS[entry.reason]}`
+      : FASTING_STATUS_LABELS[entry.status]
+    : 'How was your fast?';
+
+  return (
+    <BlurView
+      intensity={20}
+      tint={isDarkMode ? 'dark' : 'light'}
+      style={[styles.card, { backgroundColor: glassBg, borderColor: glassBorder }]}
+    >
+      <View style={styles.headerRow}>
+        <View style={[styles.iconBadge, { backgroundColor: theme.colors.accent + '15' }]}>
+          <FontAwesome6 name="moon" size={14} color={theme.colors.accent} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.title, { color: textPrimary }]}>Ramadan · Day {ramadanDay}</Text>
+          <Text style={[styles.subtitle, { color: textSecondary }]}>{subtitle}</Text>
+        </View>
+      </View>
+
+      <View style={styles.actionRow}>
+        {STATUS_ACTIONS.map(({ status, icon }) => {
+          const isSelected = entry?.status === status;
+          return (
+            <TouchableOpacity
+              key={status}
+              style={[
+                styles.actionChip,
+                { backgroundColor: chipBg, borderColor: chipBorder },
+                isSelected && { backgroundColor: theme.colors.accent + '25', borderColor: theme.colors.accent },
+              ]}
+              onPress={() => handleStatus(status)}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <FontAwesome6 name={icon} size={12} color={theme.colors.accent} />
+              <Text style={[styles.actionChipText, { color: textPrimary }]}>
+                {FASTING_STATUS_LABELS[status]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {pickingReason && (
+        <View style={styles.reasonRow}>
+          {EXCUSE_REASONS.map((reason) => {
+            const isSelected = entry?.status === 'excused' && entry.reason === reason;
+            return (
+              <TouchableOpacity
+                key={reason}
+                style={[
+                  styles.reasonChip,
+                  { backgroundColor: chipBg, borderColor: chipBorder },
+                  isSelected && { borderColor: theme.colors.accent },
+                ]}
+                onPress={() => handleReason(reason)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.reasonText, { color: textPrimary }]}>
+                  {FASTING_EXCUSE_LABELS[reason]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </BlurView>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.10,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  iconBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'Outfit_600SemiBold',
+    fontSize: 16,
+  },
+  subtitle: {
+    fontFamily: 'Outfit_400Regular',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  actionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  actionChipText: {
+    fontFamily: 'Outfit_500Medium',
+    fontSize: 13,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  reasonChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  reasonText: {
+    fontFamily: 'Outfit_400Regular',
+    fontSize: 12,
+  },
+});
+
+export default FastingLogCard;
@@ -0,0 +1,161 @@
+/**
+ * Guest Sync Card
+ *
+ * Prayer dashboard card for on-device (guest) logging: prompts guests to
+ * sign in to back up their history, and shows the merge report after the
+ * guest history has been moved into an account.
+ *
+ * @version 1.0
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { format, parseISO } from 'date-fns';
+
+import { useTheme } from '../../context/ThemeContext';
+import { useAuthStore } from '../../stores/useAuthStore';
+import { PRAYER_STATUS_LABELS } from '../../api/services/prayer/types/constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface GuestSyncCardProps {
+  isGuest: boolean;
+  accent: string;
+  onSignIn: () => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const GuestSyncCard: React.FC<GuestSyncCardProps> = ({ isGuest, accent, onSignIn }) => {
+  const { theme, isDarkMode } = useTheme();
+  const report = useAuthStore((state) => state.guestMigrationReport);
+  const clearReport = useAuthStore((state) => state.clearGuestMigrationReport);
+
+  if (!isGuest && !report) return null;
+
+  const glass = {
+    backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.9)',
+    borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+  };
+  const chipBg = isDarkMode ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)';
+
+  if (isGuest) {
+    return (
+      <BlurView intensity={isDarkMode ? 18 : 22} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, glass]}>
+        <View style={styles.header}>
+          <FontAwesome6 name="mobile-screen" size={16} color={accent} />
+          <Text style={[styles.title, { color: theme.colors.text.primary }]}>Saved on this device</Text>
+          <TouchableOpacity onPress={onSignIn} style={[styles.button, { backgroundColor: accent + '20' }]}>
+            <Text style={[styles.buttonText, { color: accent }]}>Sign in</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={[styles.body, { color: theme.colors.text.secondary }]}>
+          Sign in to back up your prayer history. Logs made here are merged into your account.
+        </Text>
+      </BlurView>
+    );
+  }
+
+  const importedDays = report!.addedDates.length + report!.mergedDates.length;
+
+  return (
+    <BlurView intensity={isDarkMode ? 18 : 22} tint={isDarkMode ? 'dark' : 'light'} style={[styles.card, glass]}>
+      <View style={styles.header}>
+        <FontAwesome6 name="cloud-arrow-up" size={16} color={accent} />
+        <Text style={[styles.title, { color: theme.colors.text.primary }]}>Device history imported</Text>
+        <TouchableOpacity onPress={clearReport} style={[styles.button, { backgroundColor: chipBg }]}>
+          <Text style={[styles.buttonText, { color: theme.colors.text.primary }]}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={[styles.body, { color: theme.colors.text.secondary }]}>
+        {importedDays} {importedDays === 1 ? 'day' : 'days'} merged into your account
+        {report!.conflicts.length > 0
+          ? `, ${report!.conflicts.length} logged differently on both. The most recent log was kept:`
+          : '.'}
+      </Text>
+
+      {report!.conflicts.map((conflict) => {
+        const kept = conflict.kept === 'local' ? conflict.local : conflict.remote;
+        const dropped = conflict.kept === 'local' ? conflict.remote : conflict.local;
+
+        return (
+          <View key={`${conflict.date}-${conflict.prayer}`} style={styles.row}>
+            <Text style={[styles.rowLabel, { color: theme.colors.text.secondary }]}>
+              {format(parseISO(conflict.date), 'MMM d')} · {conflict.prayer}
+            </Text>
+            <Text style={[styles.rowValue, { color: theme.colors.text.primary }]}>
+              {PRAYER_STATUS_LABELS[kept.status]}
+              <Text style={{ color: theme.colors.text.muted }}> over {PRAYER_STATUS_LABELS[dropped.status]}</Text>
+            </Text>
+          </View>
+        );
+      })}
+    </BlurView>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 18,
+    marginTop: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.08,
+    shadowRadius: 10,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+  },
+  body: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+    lineHeight: 19,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+  },
+  rowValue: {
+    fontSize: 13,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+});
+
+export default GuestSyncCard;
@@ -5,20 +5,24 @@ import { BlurView } from 'expo-blur';
 import { useTheme } from '../../context/ThemeContext';
 import { useTypewriterParagraphs } from '../../hooks/prayer/khutbah/useTypewriterParagraphs';
 import * as Clipboard from 'expo-clipboard';
-import { Khutbah } from '../../api/services/khutbah';
+import { Khutbah, type Language } from '../../api/services/khutbah';
 import { createLogger } from '../../services/logging/logger';
 
 const logger = createLogger('Khutbah');
 
 interface Props {
   khutbah: Khutbah;
+  /** Listed first and highlighted among the download links. */
+  preferredLanguage?: Language;
+  /** Open with the summary showing (e.g. when opened from a notification). */
+  initiallyExpanded?: boolean;
 }
 
-const KhutbahCard = ({ khutbah }: Props) => {
+const KhutbahCard = ({ khutbah, preferredLanguage, initiallyExpanded = false }: Props) => {
   const { theme, isDarkMode } = useTheme();
 
-  const [expanded, setExpanded] = useState(false);
-  const [showSummary, setShowSummary] = useState(false);
+  const [expanded, setExpanded] = useState(initiallyExpanded);
+  const [showSummary, setShowSummary] = useState(initiallyExpanded);
   const [paragraphs, isTyping] = useTypewriterParagraphs(showSummary ? khutbah.summary || '' : '');
 
   const handleDownload = (url: string) => {
@@ -73,21 +77,26 @@ const KhutbahCard = ({ khutbah }: Props) => {
 
           {/* Download links */}
           <View style={styles.languageRow}>
-            {Object.entries(khutbah.links).map(([lang, url]) => (
-              <TouchableOpacity
-                key={lang}
-                style={[styles.downloadChip, { backgroundColor: chipBg, borderColor: chipBorder }]}
-                onPress={() => handleDownload(url!)}
-                activeOpacity={0.7}
-              >
-                <FontAwesome6 name="file-arrow-down" size={13} color={theme.colors.accent} />
-                <Text style={[styles.languageText, {
-                  color: isDarkMode ? 'rgba(255,255,255,0.75)' : theme.colors.text.primary,
-                }]}>
-                  {lang}
-                </Text>
-              </TouchableOpacity>
-            ))}
+            {Object.entries(khutbah.links)
+              .sort(([a], [b]) => Number(b === preferredLanguage) - Number(a === preferredLanguage))
+              .map(([lang, url]) => (
+                <TouchableOpacity
+                  key={lang}
+                  style={[
+                    styles.downloadChip,
+                    { backgroundColor: chipBg, borderColor: lang === preferredLanguage ? theme.colors.accent : chipBorder },
+                  ]}
+                  onPress={() => handleDownload(url!)}
+                  activeOpacity={0.7}
+                >
+                  <FontAwesome6 name="file-arrow-down" size={13} color={theme.colors.accent} />
+                  <Text style={[styles.languageText, {
+                    color: isDarkMode ? 'rgba(255,255,255,0.75)' : theme.colors.text.primary,
+                  }]}>
+                    {lang}
+                  </Text>
+                </TouchableOpacity>
+              ))}
           </View>
 
           {/* Summary section */}
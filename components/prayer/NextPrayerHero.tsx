@@ -14,12 +14,15 @@ import { MotiView } from 'moti';
 import { SkyPrayerTimes } from '../../hooks/prayer/useSkyPhase';
 import { useAccent } from '../../hooks/useAccent';
 import { usePreferencesStore } from '../../stores/userPreferencesStore';
+import type { FastingCountdown } from '../../api/services/prayer/types';
 
 interface NextPrayerHeroProps {
   /** Full day's normalized times — used for the phase accent + the prayer's clock time. */
   prayerData: SkyPrayerTimes | null;
   nextPrayer: string;
   timeUntil: string;
+  /** Imsak/iftar countdown — only passed during Ramadan. */
+  fasting?: FastingCountdown | null;
 }
 
 /** Format an "HH:MM" (24h) string to the user's clock preference. */
@@ -35,7 +38,7 @@ function formatClock(hhmm: string | undefined, timeFormat: string): string | nul
   return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
 }
 
-export function NextPrayerHero({ prayerData, nextPrayer, timeUntil }: NextPrayerHeroProps) {
+export function NextPrayerHero({ prayerData, nextPrayer, timeUntil, fasting }: NextPrayerHeroProps) {
   const { accent, label: phaseLabel } = useAccent(prayerData);
   const timeFormat = usePreferencesStore((s) => s.timeFormat);
 
@@ -43,6 +46,7 @@ export function NextPrayerHero({ prayerData, nextPrayer, timeUntil }: NextPrayer
     prayerData ? prayerData[nextPrayer.toLowerCase() as keyof SkyPrayerTimes] : undefined,
     timeFormat
   );
+  const fastingTime = fasting ? formatClock(fasting.time, timeFormat) : null;
 
   // Urgent when only minutes remain and within 30.
   const onlyMinutes = /^\d+m$/.test(timeUntil.trim());
@@ -88,6 +92,21 @@ export function NextPrayerHero({ prayerData, nextPrayer, timeUntil }: NextPrayer
             </>
           )}
         </View>
+
+        {fasting && (
+          <View style={[styles.fastingRow, { borderTopColor: accent + '40' }]}>
+            <Text style={[styles.fastingLabel, { color: accent }]}>
+              {fasting.event === 'iftar' ? 'IFTAR' : 'IMSAK'}
+            </Text>
+            <Text style={styles.fastingCountdown}>in {fasting.timeUntil}</Text>
+            {fastingTime && (
+              <>
+                <Text style={styles.bullet}>·</Text>
+                <Text style={styles.clockTime}>{fastingTime}</Text>
+              </>
+            )}
+          </View>
+        )}
       </BlurView>
     </MotiView>
   );
@@ -177,4 +196,22 @@ const styles = StyleSheet.create({
     color: 'rgba(255,255,255,0.62)',
     letterSpacing: 0.2,
   },
+  fastingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  fastingLabel: {
+    fontFamily: 'Outfit_600SemiBold',
+    fontSize: 11,
+    letterSpacing: 1.4,
+  },
+  fastingCountdown: {
+    fontFamily: 'Outfit_500Medium',
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.85)',
+  },
 });
@@ -6,18 +6,49 @@ import { useTheme } from '../../context/ThemeContext';
 
 interface OfflineIndicatorProps {
   usingStaleData?: boolean;
+  /** Prayer logs waiting in the outbox */
+  pendingSyncCount?: number;
+  /** Outbox is replaying right now */
+  isSyncing?: boolean;
+  /** Queued logs whose last sync attempt failed (still queued, retried later) */
+  failingSyncCount?: number;
 }
 
 /**
  * Offline indicator component
- * Shows when user is offline or using cached data
+ * Shows when user is offline, using cached data or has prayer logs waiting to
+ * sync — including logs that failed to sync and are being retried
  */
 export const OfflineIndicator: React.FC<OfflineIndicatorProps> = memo(({ 
-  usingStaleData = false 
+  usingStaleData = false,
+  pendingSyncCount = 0,
+  isSyncing = false,
+  failingSyncCount = 0,
 }) => {
   const { theme } = useTheme();
   const styles = createStyles(theme);
 
+  const pendingText = pendingSyncCount === 1 ? '1 log' : `${pendingSyncCount} logs`;
+  const failingText = failingSyncCount === 1 ? '1 log' : `${failingSyncCount} logs`;
+  const icon = isSyncing
+    ? 'arrows-rotate'
+    : usingStaleData
+      ? 'clock-rotate-left'
+      : failingSyncCount > 0
+        ? 'triangle-exclamation'
+        : pendingSyncCount > 0
+          ? 'cloud-arrow-up'
+          : 'wifi-slash';
+  const label = isSyncing
+    ? `Syncing ${pendingText}`
+    : usingStaleData
+      ? 'Using Cached Data'
+      : failingSyncCount > 0
+        ? `${failingText} failed to sync · retrying`
+        : pendingSyncCount > 0
+          ? `${pendingText} waiting to sync`
+          : 'Offline Mode';
+
   return (
     <MotiView
       from={{ opacity: 0, translateY: -10 }}
@@ -27,12 +58,12 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = memo(({
       style={styles.container}
     >
       <FontAwesome6 
-        name={usingStaleData ? 'clock-rotate-left' : 'wifi-slash'} 
+        name={icon} 
         size={14} 
         color={theme.colors.text.muted} 
       />
       <Text style={styles.text}>
-        {usingStaleData ? 'Using Cached Data' : 'Offline Mode'}
+        {label}
       </Text>
     </MotiView>
   );
@@ -24,9 +24,13 @@ interface PrayerActionsModalProps {
   visible: boolean;
   onClose: () => void;
   actions: PrayerAction[];
+  /** Optional heading above the grid (e.g. "Log Subuh") */
+  title?: string;
+  /** Label of the action to highlight as the current choice */
+  selectedLabel?: string;
 }
 
-const PrayerActionsModal = ({ visible, onClose, actions }: PrayerActionsModalProps) => {
+const PrayerActionsModal = ({ visible, onClose, actions, title, selectedLabel }: PrayerActionsModalProps) => {
   const { theme, isDarkMode } = useTheme();
   const styles = createStyles(theme, isDarkMode);
   
@@ -34,7 +38,7 @@ const PrayerActionsModal = ({ visible, onClose, actions }: PrayerActionsModalPro
   const pendingAction = useRef<(() => void) | null>(null);
 
   const numRows = Math.ceil(actions.length / 3);
-  const estimatedHeight = 100 + numRows * 100;
+  const estimatedHeight = 100 + numRows * 100 + (title ? 32 : 0);
 
   // ✅ Handle action press - store action and close modal
   const handleActionPress = useCallback((action: PrayerAction) => {
@@ -71,24 +75,35 @@ const PrayerActionsModal = ({ visible, onClose, actions }: PrayerActionsModalPro
     >
       <View style={[styles.container, { height: Math.min(estimatedHeight, screenHeight * 0.5) }]}>
         <View style={styles.handle} />
+        {title && (
+          <Text style={[styles.title, { color: theme.colors.text.primary }]}>{title}</Text>
+        )}
         <FlatList
           data={actions}
           keyExtractor={(item) => item.label}
           numColumns={3}
           contentContainerStyle={styles.grid}
           scrollEnabled={false}
-          renderItem={({ item }) => (
-            <TouchableOpacity 
-              onPress={handleActionPress(item)} 
-              style={styles.card}
-              activeOpacity={0.7}
-            >
-              <View style={styles.iconContainer}>
-                <FontAwesome6 name={item.icon} size={20} color={theme.colors.accent} />
-              </View>
-              <Text style={[styles.label, { color: theme.colors.text.primary }]}>{item.label}</Text>
-            </TouchableOpacity>
-          )}
+          renderItem={({ item }) => {
+            const isSelected = item.label === selectedLabel;
+            return (
+              <TouchableOpacity 
+                onPress={handleActionPress(item)} 
+                style={styles.card}
+                activeOpacity={0.7}
+                accessibilityState={{ selected: isSelected }}
+              >
+                <View style={[styles.iconContainer, isSelected && styles.iconContainerSelected]}>
+                  <FontAwesome6
+                    name={item.icon}
+                    size={20}
+                    color={isSelected ? '#fff' : theme.colors.accent}
+                  />
+                </View>
+                <Text style={[styles.label, { color: theme.colors.text.primary }]}>{item.label}</Text>
+              </TouchableOpacity>
+            );
+          }}
         />
       </View>
     </Modal>
@@ -117,6 +132,12 @@ const createStyles = (theme: any, isDarkMode: boolean) =>
       alignSelf: 'center',
       marginBottom: 16,
     },
+    title: {
+      fontFamily: 'Outfit_600SemiBold',
+      fontSize: 16,
+      textAlign: 'center',
+      marginBottom: 8,
+    },
     grid: {
       justifyContent: 'space-between',
       gap: 20,
@@ -137,6 +158,10 @@ const createStyles = (theme: any, isDarkMode: boolean) =>
       borderWidth: 1,
       borderColor: theme.colors.accent + '30',
     },
+    iconContainerSelected: {
+      backgroundColor: theme.colors.accent,
+      borderColor: theme.colors.accent,
+    },
     label: {
       fontFamily: 'Outfit_500Medium',
       fontSize: 13,
@@ -0,0 +1,377 @@
+/**
+ * Prayer Analytics Card
+ *
+ * Monthly/yearly prayer analytics for the prayer dashboard: calendar
+ * heatmap, per-prayer completion, most missed prayer and day-of-week
+ * pattern.
+ *
+ * @version 1.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import {
+  addMonths,
+  addYears,
+  format,
+  getDay,
+  isAfter,
+  parseISO,
+  startOfMonth,
+  startOfYear,
+} from 'date-fns';
+
+import { useTheme } from '../../context/ThemeContext';
+import { usePrayerAnalytics } from '../../api/services/prayer/queries/analytics';
+import { LOGGABLE_PRAYERS } from '../../api/services/prayer/types/constants';
+import type { PrayerHeatmapCell } from '../../api/services/prayer/types/index';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PrayerAnalyticsCardProps {
+  userId: string | null;
+  accent: string;
+}
+
+type Period = 'month' | 'year';
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const LEVEL_ALPHA = ['', '40', '70', 'A8', 'FF'];
+
+/**
+ * Split heatmap cells into week columns (Sunday first), padding the first week
+ */
+function toWeekColumns(cells: PrayerHeatmapCell[]): (PrayerHeatmapCell | null)[][] {
+  if (cells.length === 0) return [];
+
+  const padded: (PrayerHeatmapCell | null)[] = [
+    ...Array.from({ length: getDay(parseISO(cells[0].date)) }, () => null),
+    ...cells,
+  ];
+  const columns: (PrayerHeatmapCell | null)[][] = [];
+  for (let i = 0; i < padded.length; i += 7) {
+    columns.push(padded.slice(i, i + 7));
+  }
+  return columns;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const PrayerAnalyticsCard: React.FC<PrayerAnalyticsCardProps> = ({ userId, accent }) => {
+  const { theme, isDarkMode } = useTheme();
+  const [period, setPeriod] = useState<Period>('month');
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+
+  const { analytics, isLoading } = usePrayerAnalytics(userId, period, anchorDate);
+  const columns = useMemo(() => toWeekColumns(analytics?.heatmap ?? []), [analytics?.heatmap]);
+
+  const glass = {
+    backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.9)',
+    borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+  };
+  const emptyCell = isDarkMode ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)';
+  const chipBg = isDarkMode ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)';
+  const cellSize = period === 'year' ? 10 : 22;
+
+  const shift = (direction: 1 | -1) => {
+    setAnchorDate((current) =>
+      period === 'year' ? addYears(current, direction) : addMonths(current, direction)
+    );
+  };
+  const nextStart = period === 'year' ? startOfYear(addYears(anchorDate, 1)) : startOfMonth(addMonths(anchorDate, 1));
+  const canGoNext = !isAfter(nextStart, new Date());
+
+  const cellColor = (cell: PrayerHeatmapCell | null) => {
+    if (!cell) return 'transparent';
+    if (cell.level === 0) return emptyCell;
+    return accent + LEVEL_ALPHA[cell.level];
+  };
+
+  return (
+    <BlurView
+      intensity={isDarkMode ? 18 : 22}
+      tint={isDarkMode ? 'dark' : 'light'}
+      style={[styles.card, glass]}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <FontAwesome6 name="chart-simple" size={16} color={accent} />
+        <Text style={[styles.title, { color: theme.colors.text.primary }]}>Analytics</Text>
+        <View style={[styles.toggle, { backgroundColor: chipBg }]}>
+          {(['month', 'year'] as Period[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              onPress={() => setPeriod(option)}
+              style={[styles.toggleOption, period === option && { backgroundColor: accent }]}
+            >
+              <Text style={[styles.toggleText, { color: period === option ? '#fff' : theme.colors.text.secondary }]}>
+                {option === 'month' ? 'Month' : 'Year'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Period navigation */}
+      <View style={styles.navRow}>
+        <TouchableOpacity onPress={() => shift(-1)} hitSlop={10}>
+          <FontAwesome6 name="chevron-left" size={14} color={theme.colors.text.secondary} />
+        </TouchableOpacity>
+        <Text style={[styles.periodLabel, { color: theme.colors.text.primary }]}>
+          {format(anchorDate, period === 'year' ? 'yyyy' : 'MMMM yyyy')}
+        </Text>
+        <TouchableOpacity onPress={() => canGoNext && shift(1)} hitSlop={10} disabled={!canGoNext}>
+          <FontAwesome6
+            name="chevron-right"
+            size={14}
+            color={canGoNext ? theme.colors.text.secondary : theme.colors.text.muted + '55'}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {/* Summary */}
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryStat}>
+          <Text style={[styles.summaryValue, { color: theme.colors.text.primary }]}>
+            {isLoading ? '—' : `${analytics?.completionRate ?? 0}%`}
+          </Text>
+          <Text style={[styles.summaryLabel, { color: theme.colors.text.muted }]}>completion</Text>
+        </View>
+        <View style={styles.summaryStat}>
+          <Text style={[styles.summaryValue, { color: theme.colors.text.primary }]}>
+            {analytics?.daysLogged ?? 0}
+          </Text>
+          <Text style={[styles.summaryLabel, { color: theme.colors.text.muted }]}>days logged</Text>
+        </View>
+        <View style={styles.summaryStat}>
+          <Text style={[styles.summaryValue, { color: theme.colors.text.primary }]}>
+            {analytics?.mostMissedPrayer ?? '—'}
+          </Text>
+          <Text style={[styles.summaryLabel, { color: theme.colors.text.muted }]}>most missed</Text>
+        </View>
+      </View>
+
+      {/* Heatmap */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.heatmap}>
+        {columns.map((week, weekIndex) => (
+          <View key={weekIndex} style={styles.heatmapColumn}>
+            {week.map((cell, dayIndex) => (
+              <View
+                key={cell?.date ?? `pad-${dayIndex}`}
+                style={{
+                  width: cellSize,
+                  height: cellSize,
+                  borderRadius: cellSize / 4,
+                  backgroundColor: cellColor(cell),
+                  opacity: cell?.rate === null ? 0.5 : 1,
+                }}
+              />
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+      <View style={styles.legend}>
+        <Text style={[styles.legendText, { color: theme.colors.text.muted }]}>Less</Text>
+        {LEVEL_ALPHA.map((alpha, level) => (
+          <View
+            key={level}
+            style={[styles.legendCell, { backgroundColor: level === 0 ? emptyCell : accent + alpha }]}
+          />
+        ))}
+        <Text style={[styles.legendText, { color: theme.colors.text.muted }]}>More</Text>
+      </View>
+
+      {/* Per prayer */}
+      <Text style={[styles.sectionLabel, { color: theme.colors.text.muted }]}>BY PRAYER</Text>
+      {LOGGABLE_PRAYERS.map((prayer) => {
+        const summary = analytics?.perPrayer[prayer];
+        return (
+          <View key={prayer} style={styles.barRow}>
+            <Text style={[styles.barLabel, { color: theme.colors.text.secondary }]}>{prayer}</Text>
+            <View style={[styles.barTrack, { backgroundColor: emptyCell }]}>
+              <View style={[styles.barFill, { backgroundColor: accent, width: `${summary?.rate ?? 0}%` }]} />
+            </View>
+            <Text style={[styles.barValue, { color: theme.colors.text.primary }]}>{summary?.rate ?? 0}%</Text>
+          </View>
+        );
+      })}
+
+      {/* Day of week */}
+      <Text style={[styles.sectionLabel, { color: theme.colors.text.muted }]}>BY DAY OF WEEK</Text>
+      <View style={styles.weekdayRow}>
+        {WEEKDAY_LABELS.map((label, day) => {
+          const summary = analytics?.dayOfWeek[day];
+          const rate = summary && summary.total > 0 ? summary.rate : 0;
+          return (
+            <View key={day} style={styles.weekdayColumn}>
+              <View style={[styles.weekdayTrack, { backgroundColor: emptyCell }]}>
+                <View style={[styles.weekdayFill, { backgroundColor: accent, height: `${rate}%` }]} />
+              </View>
+              <Text style={[styles.weekdayLabel, { color: theme.colors.text.muted }]}>{label}</Text>
+            </View>
+          );
+        })}
+      </View>
+    </BlurView>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 18,
+    marginTop: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.08,
+    shadowRadius: 10,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  toggle: {
+    flexDirection: 'row',
+    borderRadius: 10,
+    padding: 2,
+  },
+  toggleOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 8,
+  },
+  toggleText: {
+    fontSize: 12,
+    fontFamily: 'Outfit_500Medium',
+  },
+  navRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  periodLabel: {
+    fontSize: 14,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginBottom: 14,
+  },
+  summaryStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontFamily: 'Outfit_700Bold',
+  },
+  summaryLabel: {
+    fontSize: 11,
+    fontFamily: 'Outfit_400Regular',
+    marginTop: 2,
+  },
+  heatmap: {
+    flexDirection: 'row',
+    gap: 3,
+    paddingVertical: 2,
+  },
+  heatmapColumn: {
+    gap: 3,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 4,
+    marginTop: 8,
+  },
+  legendCell: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 11,
+    fontFamily: 'Outfit_400Regular',
+  },
+  sectionLabel: {
+    fontSize: 11,
+    letterSpacing: 1,
+    fontFamily: 'Outfit_600SemiBold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    gap: 10,
+  },
+  barLabel: {
+    width: 64,
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  barValue: {
+    width: 40,
+    textAlign: 'right',
+    fontSize: 13,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekdayColumn: {
+    alignItems: 'center',
+    gap: 6,
+  },
+  weekdayTrack: {
+    width: 14,
+    height: 60,
+    borderRadius: 7,
+    overflow: 'hidden',
+    justifyContent: 'flex-end',
+  },
+  weekdayFill: {
+    width: '100%',
+    borderRadius: 7,
+  },
+  weekdayLabel: {
+    fontSize: 11,
+    fontFamily: 'Outfit_500Medium',
+  },
+});
+
+export default PrayerAnalyticsCard;
@@ -4,7 +4,7 @@
  * Shows detailed progress for location-based prayer time fetching:
  * 1. Request location permission
  * 2. Detect GPS coordinates
- * 3. Reverse geocode to city/country
+ * 3. Reverse geocode to city/country (and offer the country's calculation method)
  * 4. Fetch prayer times from API
  * 5. Schedule notifications
  * 6. Success confirmation
@@ -13,7 +13,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { View, Text, TouchableOpacity, Modal, StyleSheet, ScrollView } from 'react-native';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, ScrollView, Alert } from 'react-native';
 import { FontAwesome6 } from '@expo/vector-icons';
 import { MotiView } from 'moti';
 import { BlurView } from 'expo-blur';
@@ -24,7 +24,15 @@ import Toast from 'react-native-toast-message';
 import { useTheme } from '../../context/ThemeContext';
 import { createLogger } from '../../services/logging/logger';
 import { useLocationStore } from '../../stores/useLocationStore';
-import { useInvalidatePrayerTimes } from '../../api/services/prayer';
+import { usePreferencesStore } from '../../stores/userPreferencesStore';
+import {
+  DEFAULT_CALCULATION_PROFILE,
+  School,
+  getCalculationMethodName,
+  suggestCalculationMethod,
+  useInvalidatePrayerTimes,
+  type PrayerCalculationProfile,
+} from '../../api/services/prayer';
 
 // ============================================================================
 // TYPES
@@ -134,7 +142,7 @@ const PrayerLocationModal: React.FC<PrayerLocationModalProps> = ({
         throw new Error('Unable to identify your city. Please try again.');
       }
 
-      const { city, country } = reverseGeocode[0];
+      const { city, country, isoCountryCode } = reverseGeocode[0];
       const detectedCity = city || 'Unknown';
       const detectedCountry = country || 'Unknown';
       
@@ -143,6 +151,9 @@ const PrayerLocationModal: React.FC<PrayerLocationModalProps> = ({
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       await delay(300);
 
+      // Offer the country's usual method (e.g. JAKIM in Malaysia) before fetching
+      await offerCalculationMethod(suggestCalculationMethod(isoCountryCode), detectedCountry);
+
       // STEP 4: Fetch Prayer Times
       updateStep(4, 'loading');
 
@@ -213,6 +224,54 @@ const PrayerLocationModal: React.FC<PrayerLocationModalProps> = ({
     });
     
     onClose();
+
+    offerCalculationMethod(
+      { method: DEFAULT_CALCULATION_PROFILE.method, school: DEFAULT_CALCULATION_PROFILE.school },
+      'Singapore'
+    );
+  };
+
+  /**
+   * Ask before switching to the suggested method/school for a country.
+   * Resolves immediately when the profile already matches.
+   */
+  const offerCalculationMethod = (
+    suggestion: Pick<PrayerCalculationProfile, 'method' | 'school'>,
+    countryName: string
+  ): Promise<void> => {
+    const { calculationProfile, setCalculationProfile } = usePreferencesStore.getState();
+    if (
+      calculationProfile.method === suggestion.method &&
+      calculationProfile.school === suggestion.school
+    ) {
+      return Promise.resolve();
+    }
+
+    const methodName = getCalculationMethodName(suggestion.method);
+    const schoolName = suggestion.school === School.HANAFI ? 'Hanafi' : 'Shafi';
+    logger.info('Suggesting calculation method for country', {
+      country: countryName,
+      current: { method: calculationProfile.method, school: calculationProfile.school },
+      suggested: suggestion,
+    });
+
+    return new Promise((resolve) => {
+      Alert.alert(
+        'Calculation Method',
+        `${methodName} (${schoolName} Asr) is commonly used in ${countryName}. Switch to it?`,
+        [
+          { text: 'Keep Current', style: 'cancel', onPress: () => resolve() },
+          {
+            text: 'Switch',
+            onPress: () => {
+              setCalculationProfile(suggestion);
+              resolve();
+            },
+          },
+        ],
+        { cancelable: false }
+      );
+    });
   };
 
   const handleClose = () => {
@@ -30,6 +30,10 @@ interface PrayerTimeItemProps {
   style?: TextStyle;
   isLogged?: boolean;
   onToggle?: () => void;
+  /** Opens the status picker (congregation, late, excused, ...) */
+  onLongPress?: () => void;
+  /** Status shown under the name when it is not a plain on-time log */
+  statusLabel?: string;
   isLoggable?: boolean;
   showCheckbox?: boolean;
   isCurrent?: boolean;
@@ -97,6 +101,8 @@ const PrayerTimeItem: React.FC<PrayerTimeItemProps> = memo(
     style,
     isLogged = false,
     onToggle,
+    onLongPress,
+    statusLabel,
     isLoggable = true,
     showCheckbox = false,
     isCurrent = false,
@@ -233,6 +239,7 @@ const PrayerTimeItem: React.FC<PrayerTimeItemProps> = memo(
       return (
         <TouchableOpacity
           onPress={isLoggable ? onToggle : undefined}
+          onLongPress={isLoggable ? onLongPress : undefined}
           disabled={!isLoggable}
           style={styles.checkButton}
           accessibilityLabel={`Mark ${name} as ${
@@ -302,6 +309,12 @@ const PrayerTimeItem: React.FC<PrayerTimeItemProps> = memo(
               in {countdown}
             </Text>
           )}
+
+          {!countdown && !!statusLabel && (
+            <Text style={[styles.countdownText, { color: countdownColor }]}>
+              {statusLabel}
+            </Text>
+          )}
         </View>
 
         {/* Prayer Time */}
@@ -7,11 +7,33 @@ import { useQueryClient } from '@tanstack/react-query';
 import { useTheme } from '../../context/ThemeContext';
 import { createLogger } from '../../services/logging/logger';
 import { useAuth } from '../../stores/useAuthStore';
+import { useTravelSessionForDate } from '../../stores/useTravelStore';
+import { useLocationStore } from '../../stores/useLocationStore';
 import { useTodayPrayerLog, usePrayerLog, useSavePrayerLog } from '../../api/services/prayer/queries/prayer-logs';
-import { type PrayerLog, LocalPrayerName } from '../../api/services/prayer/types/index';
-import { LOGGABLE_PRAYERS, PRAYER_ORDER } from '../../api/services/prayer/types/constants';
+import {
+  type PrayerLog,
+  type PrayerLogStatus,
+  LocalPrayerName,
+  LoggablePrayerName,
+} from '../../api/services/prayer/types/index';
+import {
+  CONGREGATION_MOSQUE_RADIUS_KM,
+  GUEST_USER_ID,
+  LOGGABLE_PRAYERS,
+  PRAYER_ORDER,
+  PRAYER_STATUS_LABELS,
+} from '../../api/services/prayer/types/constants';
+import {
+  createEmptyPrayerLogPrayers,
+  createPrayerLogEntry,
+  isPrayerPrayed,
+} from '../../api/services/prayer/utils/prayer';
+import { buildTravelTag, type TravelLogChoice } from '../../api/services/prayer/utils/travel';
+import { JAMAK_PAIRS, QASAR_PRAYERS } from '../../api/services/prayer/types/constants';
+import { useMosqueLocations } from '../../api/services/musollah';
 import PrayerTimeItem from './PrayerTimeItem';
-import SignInModal from '../SignInModal';
+import PrayerActionsModal from './PrayerActionsModal';
+import TravelModeCard from './TravelModeCard';
 import { prayerQueryKeys } from '../../api/services/prayer/queries/query-keys';
 import { useAccent } from '../../hooks/useAccent';
 
@@ -28,21 +50,17 @@ interface PrayerTimesListProps {
 const logger = createLogger('Prayer Times');
 
 /** Fixed-shape expected by savePrayerLog */
-type PrayersPayload = {
-  Subuh: boolean;
-  Zohor: boolean;
-  Asar: boolean;
-  Maghrib: boolean;
-  Isyak: boolean;
-};
-
-const EMPTY_PRAYERS: PrayersPayload = {
-  Subuh: false,
-  Zohor: false,
-  Asar: false,
-  Maghrib: false,
-  Isyak: false,
-};
+type PrayersPayload = PrayerLog['prayers'];
+
+/** Status picker options, in display order */
+const STATUS_ACTIONS: { status: PrayerLogStatus; icon: string }[] = [
+  { status: 'on_time', icon: 'clock' },
+  { status: 'congregation', icon: 'people-group' },
+  { status: 'late', icon: 'hourglass-half' },
+  { status: 'qadha', icon: 'rotate-left' },
+  { status: 'excused', icon: 'hand' },
+  { status: 'missed', icon: 'xmark' },
+];
 
 /**
  * ✅ IMPROVED: Check if a specific prayer can be logged
@@ -94,6 +112,8 @@ function isPrayerLoggable(
  * - Optimistic updates
  * - ✅ Proper validation: only past prayers can be logged
  * - ✅ Always shows checkboxes (prompts sign-in if needed)
+ * - Travel mode: qasar/jamak guidance, logs tagged with the travel session and
+ *   the qasar/jamak choices made in the status picker
  */
 const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({ 
   prayerTimes, 
@@ -105,10 +125,13 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
   const styles = createStyles(theme);
   const { userId } = useAuth();
   
-  const [showSignInModal, setShowSignInModal] = useState(false);
+  // Kept after closing so the picker does not empty out while animating away
+  const [statusPrayer, setStatusPrayer] = useState<LoggablePrayerName | null>(null);
+  const [showStatusPicker, setShowStatusPicker] = useState(false);
   
   const dateStr = format(selectedDate, 'yyyy-MM-dd');
   const isToday = format(selectedDate, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
+  const travelSession = useTravelSessionForDate(dateStr);
 
   // Fetch prayer log for selected date
   const { data: prayerLog } = isToday 
@@ -119,6 +142,15 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
   const { mutate: savePrayerLog } = useSavePrayerLog();
   const queryClient = useQueryClient();
 
+  // Nearby mosques, used to tag congregation logs
+  const userLocation = useLocationStore((state) => state.userLocation);
+  const { data: mosques } = useMosqueLocations(userLocation);
+  const nearbyMosqueId = useMemo(() => {
+    if (!userLocation) return undefined;
+    const nearest = mosques?.[0];
+    return nearest && nearest.distance <= CONGREGATION_MOSQUE_RADIUS_KM ? nearest.id : undefined;
+  }, [userLocation, mosques]);
+
   // Live sky-phase accent so the current/next-prayer highlight tracks the time of
   // day, matching SkyBackground + NextPrayerHero (one cohesive accent that shifts
   // through the day instead of the static theme green).
@@ -172,17 +204,11 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
     }, {} as Record<LocalPrayerName, boolean>);
   }, [prayerTimes, selectedDate]);
 
-  // Handle prayer toggle
-  const handlePrayerToggle = useCallback(async (prayerName: LocalPrayerName) => {
-    // Check authentication
-    if (!userId) {
-      setShowSignInModal(true);
-      return;
-    }
-
+  // Check the prayer can be logged; explains why not (guests log on-device)
+  const canLog = useCallback((prayerName: LocalPrayerName): prayerName is LoggablePrayerName => {
     // Skip Syuruk (sunrise)
     if (prayerName === 'Syuruk') {
-      return;
+      return false;
     }
 
     // Check if prayer is loggable
@@ -193,32 +219,42 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
         text2: `You can log ${prayerName} after its prayer time`,
         position: 'bottom',
       });
-      return;
+      return false;
     }
 
+    return true;
+  }, [loggableStatus]);
+
+  // Save a status for one prayer (plus a qasar/jamak choice while travelling)
+  const handleSetStatus = useCallback(async (
+    prayerName: LoggablePrayerName,
+    getStatus: (current: PrayersPayload[LoggablePrayerName]) => PrayerLogStatus,
+    travelChoice?: Omit<TravelLogChoice, 'prayer'>
+  ) => {
     // ✅ CRITICAL FIX: Use the SAME query key as the mutation
-    const queryKey = prayerQueryKeys.logs.daily(userId, dateStr);
+    const queryKey = prayerQueryKeys.logs.daily(userId ?? GUEST_USER_ID, dateStr);
     
     // Cancel any pending mutations
     await queryClient.cancelQueries({ queryKey });
     
     // Read FRESH state from cache
     const currentLog = queryClient.getQueryData<PrayerLog>(queryKey);
-    const currentPrayers: PrayersPayload = currentLog?.prayers ?? EMPTY_PRAYERS;
+    const currentPrayers: PrayersPayload = currentLog?.prayers ?? createEmptyPrayerLogPrayers();
 
-    const key = prayerName as keyof PrayersPayload;
+    const status = getStatus(currentPrayers[prayerName]);
     const updatedPrayers: PrayersPayload = {
       ...currentPrayers,
-      [key]: !currentPrayers[key],
+      [prayerName]: createPrayerLogEntry(status, {
+        mosqueId: status === 'congregation' ? nearbyMosqueId : undefined,
+      }),
     };
 
-    logger.debug('Toggle prayer:', {
+    logger.debug('Set prayer status:', {
       prayer: prayerName,
       dateStr,
       queryKey,
-      before: currentPrayers,
-      after: updatedPrayers,
-      toggling: key,
+      before: currentPrayers[prayerName],
+      after: updatedPrayers[prayerName],
     });
 
     // Call mutation with COMPLETE prayer state
@@ -226,8 +262,65 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
       userId,
       date: dateStr,
       prayers: updatedPrayers,
+      travel: travelSession
+        ? buildTravelTag(
+            updatedPrayers,
+            travelSession.id,
+            travelSession.destination.name,
+            currentLog?.travel,
+            travelChoice && { prayer: prayerName, ...travelChoice }
+          )
+        : undefined,
     });
-  }, [userId, dateStr, queryClient, loggableStatus, savePrayerLog]);
+  }, [userId, dateStr, queryClient, savePrayerLog, travelSession, nearbyMosqueId]);
+
+  // Tap: toggle between on time and missed
+  const handlePrayerToggle = useCallback((prayerName: LocalPrayerName) => {
+    if (!canLog(prayerName)) return;
+    handleSetStatus(prayerName, (current) => (isPrayerPrayed(current) ? 'missed' : 'on_time'));
+  }, [canLog, handleSetStatus]);
+
+  // Long press: pick a specific status
+  const handlePrayerLongPress = useCallback((prayerName: LocalPrayerName) => {
+    if (!canLog(prayerName)) return;
+    setStatusPrayer(prayerName);
+    setShowStatusPicker(true);
+  }, [canLog]);
+
+  const statusActions = useMemo(() => {
+    if (!statusPrayer) return [];
+
+    const actions = STATUS_ACTIONS.map(({ status, icon }) => ({
+      icon,
+      label: PRAYER_STATUS_LABELS[status],
+      onPress: () => handleSetStatus(statusPrayer, () => status),
+    }));
+    if (!travelSession) return actions;
+
+    // Qasar / jamak are only recorded when the user says so; picking one also
+    // logs the prayer (keeping a prayed status as it is)
+    const keepPrayed = (current: PrayersPayload[LoggablePrayerName]): PrayerLogStatus =>
+      isPrayerPrayed(current) ? current.status : 'on_time';
+    const travel = prayerLog?.travel;
+
+    if ((QASAR_PRAYERS as readonly string[]).includes(statusPrayer)) {
+      const shortened = (travel?.shortened as readonly string[] | undefined)?.includes(statusPrayer) ?? false;
+      actions.push({
+        icon: 'compress',
+        label: shortened ? 'Not qasar' : 'Qasar',
+        onPress: () => handleSetStatus(statusPrayer, keepPrayed, { shortened: !shortened }),
+      });
+    }
+    if (JAMAK_PAIRS.some((pair) => (pair as readonly string[]).includes(statusPrayer))) {
+      const combined = (travel?.combined as readonly string[] | undefined)?.includes(statusPrayer) ?? false;
+      actions.push({
+        icon: 'link',
+        label: combined ? 'Not jamak' : 'Jamak',
+        onPress: () => handleSetStatus(statusPrayer, keepPrayed, { combined: !combined }),
+      });
+    }
+    return actions;
+  }, [statusPrayer, handleSetStatus, travelSession, prayerLog?.travel]);
 
   // Empty state
   if (!prayerTimes) {
@@ -240,13 +333,22 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
 
   return (
     <>
+      {travelSession && skyTimes && (
+        <TravelModeCard session={travelSession} prayerTimes={{ date: dateStr, ...skyTimes }} />
+      )}
+
       <View style={styles.container}>
         {PRAYER_ORDER.map((prayerName, index) => {
           // ✅ FIXED: Use pre-calculated loggable status
           const isLoggable = loggableStatus[prayerName] ?? false;
           
-          const loggedMap = prayerLog?.prayers as PrayersPayload | undefined;
-          const isLogged = isLoggable ? (loggedMap?.[prayerName as keyof PrayersPayload] ?? false) : false;
+          const entry = isLoggable && prayerName !== 'Syuruk'
+            ? prayerLog?.prayers[prayerName]
+            : undefined;
+          const isLogged = isPrayerPrayed(entry);
+          const statusLabel = entry && entry.status !== 'on_time' && entry.status !== 'missed'
+            ? PRAYER_STATUS_LABELS[entry.status]
+            : undefined;
           
           const isCurrent = currentPrayer === prayerName;
           const isNext = nextPrayerInfo?.nextPrayer === prayerName;
@@ -265,6 +367,8 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
                 time={prayerTimes[prayerName]}
                 isLogged={isLogged}
                 onToggle={() => handlePrayerToggle(prayerName)}
+                onLongPress={() => handlePrayerLongPress(prayerName)}
+                statusLabel={statusLabel}
                 isLoggable={isLoggable}
                 showCheckbox={true}
                 isCurrent={isCurrent}
@@ -277,9 +381,16 @@ const PrayerTimesList: React.FC<PrayerTimesListProps> = memo(({
         })}
       </View>
 
-      <SignInModal 
-        visible={showSignInModal}
-        onClose={() => setShowSignInModal(false)}
+      <PrayerActionsModal
+        visible={showStatusPicker}
+        onClose={() => setShowStatusPicker(false)}
+        actions={statusActions}
+        title={statusPrayer ? `Log ${statusPrayer}` : undefined}
+        selectedLabel={
+          statusPrayer && prayerLog
+            ? PRAYER_STATUS_LABELS[prayerLog.prayers[statusPrayer].status]
+            : undefined
+        }
       />
     </>
   );
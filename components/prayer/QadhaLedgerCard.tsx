@@ -0,0 +1,369 @@
+/**
+ * Qadha Ledger Card
+ *
+ * Outstanding qadha per prayer, quick "made up" logging, bulk backlog
+ * declaration and a payoff projection for the prayer dashboard.
+ *
+ * @version 1.0
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { format, parseISO } from 'date-fns';
+import Toast from 'react-native-toast-message';
+import * as Haptics from 'expo-haptics';
+
+import { useTheme } from '../../context/ThemeContext';
+import {
+  useQadhaProjection,
+  useDeclareQadhaBacklog,
+  useLogQadhaMakeup,
+} from '../../api/services/prayer/queries/qadha';
+import { estimateQadhaBacklog, type QadhaBacklogUnit } from '../../api/services/prayer/utils/qadha';
+import { LOGGABLE_PRAYERS, QADHA_BACKLOG_UNIT_DAYS } from '../../api/services/prayer/types/constants';
+import type { LoggablePrayerName } from '../../api/services/prayer/types/index';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface QadhaLedgerCardProps {
+  userId: string;
+  accent: string;
+}
+
+const BACKLOG_UNITS = Object.keys(QADHA_BACKLOG_UNIT_DAYS) as QadhaBacklogUnit[];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const QadhaLedgerCard: React.FC<QadhaLedgerCardProps> = ({ userId, accent }) => {
+  const { theme, isDarkMode } = useTheme();
+  const { projection } = useQadhaProjection(userId);
+  const { mutate: logMakeup } = useLogQadhaMakeup();
+  const { mutate: declareBacklog } = useDeclareQadhaBacklog();
+
+  const [isDeclaring, setIsDeclaring] = useState(false);
+  const [selectedPrayers, setSelectedPrayers] = useState<LoggablePrayerName[]>([...LOGGABLE_PRAYERS]);
+  const [amount, setAmount] = useState('');
+  const [unit, setUnit] = useState<QadhaBacklogUnit>('years');
+
+  const glass = {
+    backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.9)',
+    borderColor: isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)',
+  };
+  const chipBg = isDarkMode ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)';
+
+  const handleMakeup = (prayer: LoggablePrayerName) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    logMakeup(
+      { userId, prayer },
+      {
+        onError: () =>
+          Toast.show({
+            type: 'error',
+            text1: `Couldn't log qadha ${prayer}`,
+            text2: 'Please try again shortly.',
+            position: 'bottom',
+          }),
+      }
+    );
+  };
+
+  const togglePrayer = (prayer: LoggablePrayerName) => {
+    setSelectedPrayers((current) =>
+      current.includes(prayer) ? current.filter((p) => p !== prayer) : [...current, prayer]
+    );
+  };
+
+  const handleDeclare = () => {
+    const count = estimateQadhaBacklog(parseFloat(amount), unit);
+    if (count === 0 || selectedPrayers.length === 0) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    declareBacklog(
+      {
+        userId,
+        counts: Object.fromEntries(selectedPrayers.map((prayer) => [prayer, count])),
+      },
+      {
+        onSuccess: () =>
+          Toast.show({
+            type: 'success',
+            text1: 'Backlog declared',
+            text2: `${count} × ${selectedPrayers.join(', ')}`,
+            position: 'bottom',
+          }),
+      }
+    );
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setAmount('');
+    setIsDeclaring(false);
+  };
+
+  const projectionText = (() => {
+    if (!projection) return 'Loading…';
+    if (projection.totalOutstanding === 0) return 'No qadha outstanding';
+    if (projection.projectedDate === null) return 'Log makeups to see a payoff date';
+    return `At ${projection.dailyRate.toFixed(1)}/day, done by ${format(
+      parseISO(projection.projectedDate),
+      'MMM d, yyyy'
+    )}`;
+  })();
+
+  return (
+    <>
+      <BlurView
+        intensity={isDarkMode ? 18 : 22}
+        tint={isDarkMode ? 'dark' : 'light'}
+        style={[styles.card, glass]}
+      >
+        <View style={styles.header}>
+          <FontAwesome6 name="book-bookmark" size={16} color={accent} />
+          <Text style={[styles.title, { color: theme.colors.text.primary }]}>Qadha Ledger</Text>
+          <TouchableOpacity
+            onPress={() => setIsDeclaring(true)}
+            style={[styles.declareButton, { backgroundColor: accent + '20' }]}
+          >
+            <FontAwesome6 name="plus" size={12} color={accent} />
+            <Text style={[styles.declareText, { color: accent }]}>Declare</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={[styles.total, { color: theme.colors.text.primary }]}>
+          {projection?.totalOutstanding ?? 0}
+          <Text style={[styles.totalLabel, { color: theme.colors.text.secondary }]}> outstanding</Text>
+        </Text>
+        <Text style={[styles.projection, { color: theme.colors.text.muted }]}>{projectionText}</Text>
+
+        {LOGGABLE_PRAYERS.map((prayer) => (
+          <View key={prayer} style={styles.row}>
+            <Text style={[styles.prayerName, { color: theme.colors.text.secondary }]}>{prayer}</Text>
+            <Text style={[styles.count, { color: theme.colors.text.primary }]}>
+              {projection?.outstanding[prayer] ?? 0}
+            </Text>
+            <TouchableOpacity
+              onPress={() => handleMakeup(prayer)}
+              style={[styles.makeupButton, { backgroundColor: chipBg }]}
+            >
+              <FontAwesome6 name="check" size={12} color={accent} />
+              <Text style={[styles.makeupText, { color: theme.colors.text.primary }]}>Made up</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </BlurView>
+
+      <Modal
+        visible={isDeclaring}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsDeclaring(false)}
+      >
+        <View style={[styles.modalBackground, { backgroundColor: theme.colors.modalBackground }]}>
+          <BlurView
+            intensity={30}
+            tint={isDarkMode ? 'dark' : 'light'}
+            style={[styles.modalContainer, { backgroundColor: theme.colors.primary }]}
+          >
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>Declare Backlog</Text>
+            <Text style={[styles.projection, { color: theme.colors.text.secondary }]}>
+              Estimate prayers missed before you started logging.
+            </Text>
+
+            <View style={styles.chipRow}>
+              {LOGGABLE_PRAYERS.map((prayer) => {
+                const selected = selectedPrayers.includes(prayer);
+                return (
+                  <TouchableOpacity
+                    key={prayer}
+                    onPress={() => togglePrayer(prayer)}
+                    style={[styles.chip, { backgroundColor: selected ? accent + '25' : chipBg }]}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? accent : theme.colors.text.secondary }]}>
+                      {prayer}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TextInput
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+              placeholder="e.g. 3"
+              placeholderTextColor={theme.colors.text.muted}
+              style={[styles.input, { color: theme.colors.text.primary, backgroundColor: chipBg }]}
+            />
+
+            <View style={styles.chipRow}>
+              {BACKLOG_UNITS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setUnit(option)}
+                  style={[styles.chip, { backgroundColor: unit === option ? accent + '25' : chipBg }]}
+                >
+                  <Text style={[styles.chipText, { color: unit === option ? accent : theme.colors.text.secondary }]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                onPress={() => setIsDeclaring(false)}
+                style={[styles.modalButton, { backgroundColor: chipBg }]}
+              >
+                <Text style={[styles.chipText, { color: theme.colors.text.primary }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleDeclare}
+                style={[styles.modalButton, { backgroundColor: accent }]}
+              >
+                <Text style={[styles.chipText, { color: '#fff' }]}>
+                  Add {estimateQadhaBacklog(parseFloat(amount), unit)} each
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </BlurView>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 18,
+    marginTop: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.08,
+    shadowRadius: 10,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  declareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  declareText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+  },
+  total: {
+    fontSize: 28,
+    fontFamily: 'Outfit_700Bold',
+  },
+  totalLabel: {
+    fontSize: 14,
+    fontFamily: 'Outfit_400Regular',
+  },
+  projection: {
+    fontSize: 13,
+    fontFamily: 'Outfit_400Regular',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  prayerName: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Outfit_500Medium',
+  },
+  count: {
+    width: 60,
+    textAlign: 'right',
+    marginRight: 12,
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  makeupButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  makeupText: {
+    fontSize: 12,
+    fontFamily: 'Outfit_500Medium',
+  },
+  modalBackground: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContainer: {
+    borderRadius: 20,
+    padding: 20,
+    overflow: 'hidden',
+    gap: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_500Medium',
+    textTransform: 'capitalize',
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Outfit_400Regular',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+});
+
+export default QadhaLedgerCard;
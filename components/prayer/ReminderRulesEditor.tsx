@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../context/ThemeContext';
+import { useAccent } from '../../hooks/useAccent';
+import { calculateContrastColor } from '../../utils';
+import {
+  JUMAAT_REMINDER_PRESET,
+  REMINDER_RULE_OFFSETS,
+  WEEKDAY_LABELS,
+} from '../../api/services/prayer/types/constants';
+import { formatReminderRule } from '../../api/services/prayer/utils/reminders';
+import type { PrayerReminderRule } from '../../api/services/prayer/types/index';
+
+interface Props {
+  prayer: string;
+  rules: PrayerReminderRule[] | undefined; // undefined = follows the default reminder
+  defaultMinutes: number;
+  onAdd: (rule: Omit<PrayerReminderRule, 'id'>) => void;
+  onRemove: (ruleId: string) => void;
+  onReset: () => void;
+}
+
+/**
+ * Reminder list for one prayer in the prayer settings.
+ *
+ * Each rule is an offset before the prayer plus the weekdays it applies to
+ * (none selected = every day). Zohor gets a one-tap Jumaat preset.
+ */
+const ReminderRulesEditor = ({ prayer, rules, defaultMinutes, onAdd, onRemove, onReset }: Props) => {
+  const { theme, isDarkMode } = useTheme();
+  const { accent } = useAccent();
+  const [draftMinutes, setDraftMinutes] = useState<number>(REMINDER_RULE_OFFSETS[1]);
+  const [draftWeekdays, setDraftWeekdays] = useState<number[]>([]);
+
+  const chipBg = isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(0,0,0,0.05)';
+  const activeText = calculateContrastColor(accent);
+  const hasJumaatPreset = rules?.some(
+    (rule) =>
+      rule.minutesBefore === JUMAAT_REMINDER_PRESET.minutesBefore &&
+      rule.weekdays.join() === JUMAAT_REMINDER_PRESET.weekdays.join()
+  );
+
+  const toggleWeekday = (day: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraftWeekdays((days) =>
+      days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort()
+    );
+  };
+
+  const handleAdd = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onAdd({ minutesBefore: draftMinutes, weekdays: draftWeekdays });
+    setDraftWeekdays([]);
+  };
+
+  const handleAddJumaat = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onAdd({ ...JUMAAT_REMINDER_PRESET, weekdays: [...JUMAAT_REMINDER_PRESET.weekdays] });
+  };
+
+  const renderChip = (key: string | number, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, { backgroundColor: active ? accent : chipBg }]}
+    >
+      <Text style={[styles.chipText, { color: active ? activeText : theme.colors.text.secondary }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: theme.colors.text.muted }]}>REMINDERS</Text>
+
+      {/* Current rules */}
+      {!rules ? (
+        <Text style={[styles.hint, { color: theme.colors.text.secondary }]}>
+          {defaultMinutes > 0
+            ? `Default: ${defaultMinutes} min before, every day`
+            : 'Default: no reminder'}
+        </Text>
+      ) : rules.length === 0 ? (
+        <Text style={[styles.hint, { color: theme.colors.text.secondary }]}>No reminders for {prayer}</Text>
+      ) : (
+        rules.map((rule) => (
+          <View key={rule.id} style={styles.ruleRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.ruleText, { color: theme.colors.text.primary }]}>
+                {formatReminderRule(rule)}
+              </Text>
+              {!!rule.note && (
+                <Text style={[styles.ruleNote, { color: theme.colors.text.secondary }]} numberOfLines={1}>
+                  {rule.note}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                onRemove(rule.id);
+              }}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <FontAwesome6 name="xmark" size={14} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {/* New rule */}
+      <View style={styles.chipRow}>
+        {REMINDER_RULE_OFFSETS.map((min) =>
+          renderChip(min, `${min}m`, draftMinutes === min, () => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            setDraftMinutes(min);
+          })
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {WEEKDAY_LABELS.map((label, day) =>
+          renderChip(label, label, draftWeekdays.includes(day), () => toggleWeekday(day))
+        )}
+      </View>
+      <Text style={[styles.hint, { color: theme.colors.text.muted }]}>No days selected = every day</Text>
+
+      <View style={styles.actionRow}>
+        <TouchableOpacity onPress={handleAdd} style={[styles.actionButton, { borderColor: accent }]}>
+          <FontAwesome6 name="plus" size={12} color={accent} />
+          <Text style={[styles.actionText, { color: accent }]}>Add reminder</Text>
+        </TouchableOpacity>
+
+        {prayer === 'Zohor' && !hasJumaatPreset && (
+          <TouchableOpacity onPress={handleAddJumaat} style={[styles.actionButton, { borderColor: accent }]}>
+            <FontAwesome6 name="mosque" size={12} color={accent} />
+            <Text style={[styles.actionText, { color: accent }]}>Jumaat reminder</Text>
+          </TouchableOpacity>
+        )}
+
+        {rules && (
+          <TouchableOpacity
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onReset();
+            }}
+            style={[styles.actionButton, { borderColor: theme.colors.text.muted }]}
+          >
+            <Text style={[styles.actionText, { color: theme.colors.text.secondary }]}>Use default</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  label: {
+    fontSize: 11,
+    fontFamily: 'Outfit_600SemiBold',
+    letterSpacing: 0.6,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Outfit_400Regular',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  ruleText: {
+    fontSize: 14,
+    fontFamily: 'Outfit_500Medium',
+  },
+  ruleNote: {
+    fontSize: 12,
+    fontFamily: 'Outfit_400Regular',
+    marginTop: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 13,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+});
+
+export default ReminderRulesEditor;
@@ -0,0 +1,213 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { format, parse } from 'date-fns';
+import { useTheme } from '../../context/ThemeContext';
+import { usePreferencesStore } from '../../stores/userPreferencesStore';
+import { useLocationStore } from '../../stores/useLocationStore';
+import { useTravelStore, type TravelSession } from '../../stores/useTravelStore';
+import { getJamakWindows } from '../../api/services/prayer/utils/travel';
+import { QASAR_PRAYERS } from '../../api/services/prayer/types/constants';
+import type { NormalizedPrayerTimes } from '../../api/services/prayer/types/index';
+
+interface Props {
+  session: TravelSession;
+  prayerTimes: NormalizedPrayerTimes;
+}
+
+/**
+ * Travel (safar) guidance shown above the prayer list while travelling.
+ *
+ * Shows the destination, which prayers may be shortened (qasar) and the
+ * windows in which pairs may be combined (jamak). Actions are only offered
+ * for the ongoing session, not for past travel days.
+ */
+const TravelModeCard = ({ session, prayerTimes }: Props) => {
+  const { theme, isDarkMode } = useTheme();
+  const timeFormat = usePreferencesStore((state) => state.timeFormat);
+
+  const isActive = session.endedAt === null;
+  const windows = useMemo(() => getJamakWindows(prayerTimes), [prayerTimes]);
+
+  const formatTime = (time: string) => {
+    try {
+      return format(parse(time, 'HH:mm', new Date()), timeFormat === '12-hour' ? 'hh:mm a' : 'HH:mm');
+    } catch {
+      return time;
+    }
+  };
+
+  const handleEndTravel = () => {
+    Alert.alert('End Travel Mode', 'Stop showing qasar and jamak guidance?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'End', style: 'destructive', onPress: () => useTravelStore.getState().endSession() },
+    ]);
+  };
+
+  const handleSetHome = () => {
+    const { latitude, longitude, name } = session.destination;
+    Alert.alert(
+      'Set as Home',
+      `Treat ${name ?? 'this location'} as your home? Travel mode will end.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Set Home', onPress: () => useLocationStore.getState().setHomeLocation({ latitude, longitude }) },
+      ]
+    );
+  };
+
+  const textPrimary = isDarkMode ? 'rgba(255,255,255,0.92)' : theme.colors.text.primary;
+  const textSecondary = isDarkMode ? 'rgba(255,255,255,0.45)' : theme.colors.text.secondary;
+  const glassBg = isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.88)';
+  const glassBorder = isDarkMode ? 'rgba(255,255,255,0.09)' : 'rgba(0,0,0,0.06)';
+  const chipBg = isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(0,0,0,0.04)';
+  const chipBorder = isDarkMode ? 'rgba(255,255,255,0.11)' : 'rgba(0,0,0,0.07)';
+
+  return (
+    <BlurView
+      intensity={20}
+      tint={isDarkMode ? 'dark' : 'light'}
+      style={[styles.card, { backgroundColor: glassBg, borderColor: glassBorder }]}
+    >
+      <View style={styles.headerRow}>
+        <View style={[styles.iconBadge, { backgroundColor: theme.colors.accent + '15' }]}>
+          <FontAwesome6 name="plane" size={14} color={theme.colors.accent} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.title, { color: textPrimary }]}>Travel Mode</Text>
+          <Text style={[styles.subtitle, { color: textSecondary }]}>
+            {session.destination.name ?? 'Away from home'} · {session.distanceKm} km
+          </Text>
+        </View>
+      </View>
+
+      <View style={[styles.divider, { backgroundColor: isDarkMode ? 'rgba(255,255,255,0.07)' : 'rgba(0,0,0,0.06)' }]} />
+
+      <View style={styles.body}>
+        <Text style={[styles.label, { color: textSecondary }]}>Qasar (2 rakaat)</Text>
+        <Text style={[styles.value, { color: textPrimary }]}>{QASAR_PRAYERS.join(', ')}</Text>
+
+        <Text style={[styles.label, { color: textSecondary }]}>Jamak windows</Text>
+        {windows.map((window) => (
+          <View key={window.prayers.join('-')} style={styles.windowRow}>
+            <Text style={[styles.value, { color: textPrimary }]}>{window.prayers.join(' + ')}</Text>
+            <Text style={[styles.value, { color: textSecondary }]}>
+              {formatTime(window.start)} – {formatTime(window.end)}
+              {window.endsNextDay ? ' (next day)' : ''}
+            </Text>
+          </View>
+        ))}
+
+        <Text style={[styles.hint, { color: textSecondary }]}>
+          Long-press a prayer to record it as qasar or jamak.
+        </Text>
+      </View>
+
+      {isActive && (
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[styles.actionChip, { backgroundColor: chipBg, borderColor: chipBorder }]}
+            onPress={handleSetHome}
+            activeOpacity={0.7}
+          >
+            <FontAwesome6 name="house" size={12} color={theme.colors.accent} />
+            <Text style={[styles.actionChipText, { color: textPrimary }]}>Set as Home</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionChip, { backgroundColor: chipBg, borderColor: chipBorder }]}
+            onPress={handleEndTravel}
+            activeOpacity={0.7}
+          >
+            <FontAwesome6 name="xmark" size={12} color={theme.colors.accent} />
+            <Text style={[styles.actionChipText, { color: textPrimary }]}>End Travel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </BlurView>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.10,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  iconBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'Outfit_600SemiBold',
+    fontSize: 16,
+  },
+  subtitle: {
+    fontFamily: 'Outfit_400Regular',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 16,
+  },
+  body: {
+    padding: 16,
+    gap: 4,
+  },
+  label: {
+    fontFamily: 'Outfit_500Medium',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  value: {
+    fontFamily: 'Outfit_400Regular',
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Outfit_400Regular',
+    marginTop: 8,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  actionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  actionChipText: {
+    fontFamily: 'Outfit_500Medium',
+    fontSize: 13,
+  },
+});
+
+export default TravelModeCard;
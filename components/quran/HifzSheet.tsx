@@ -2,17 +2,28 @@
  * HifzSheet — Quran memorization controls
  *
  * Playback speed, repeat-each-ayah, and a hide-text "test" mode. Writes to
- * useHifzStore, which the audio player and Mushaf reader read.
+ * useHifzStore, which the audio player and Mushaf reader read. Opened from a
+ * surah, it also marks an ayah range as memorised for the review tracker.
+ *
+ * @version 1.1
+ * @since 2026-10-18
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Modal, View, Text, TouchableOpacity, StyleSheet, Switch } from 'react-native';
 import { FontAwesome6 } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 
 import { useTheme } from '../../context/ThemeContext';
 import { useAccent } from '../../hooks/useAccent';
-import { useHifzStore, REPEAT_OFF, REPEAT_INFINITE } from '../../stores/useHifzStore';
+import {
+  useHifzStore,
+  useHifzDueQueue,
+  formatHifzRange,
+  hifzRangeId,
+  REPEAT_OFF,
+  REPEAT_INFINITE,
+} from '../../stores/useHifzStore';
 
 const SPACING = { xs: 4, sm: 8, md: 12, lg: 16, xl: 20, xxl: 24 };
 
@@ -24,12 +35,29 @@ const REPEATS: { label: string; value: number }[] = [
   { label: '∞', value: REPEAT_INFINITE },
 ];
 
+/** Ayahs offered by default when marking from the current ayah */
+const DEFAULT_RANGE_LENGTH = 5;
+
 interface Props {
   visible: boolean;
   onClose: () => void;
+  /** Surah being read — enables marking a range of it as memorised */
+  surahNumber?: number;
+  ayahCount?: number;
+  /** 1-based ayah the range starts at when the sheet opens */
+  initialAyah?: number;
+  /** Opens the hifz tracker screen */
+  onOpenTracker?: () => void;
 }
 
-const HifzSheet: React.FC<Props> = ({ visible, onClose }) => {
+const HifzSheet: React.FC<Props> = ({
+  visible,
+  onClose,
+  surahNumber,
+  ayahCount,
+  initialAyah = 1,
+  onOpenTracker,
+}) => {
   const { theme, isDarkMode } = useTheme();
   const { accent } = useAccent();
 
@@ -39,6 +67,33 @@ const HifzSheet: React.FC<Props> = ({ visible, onClose }) => {
   const setPlaybackRate = useHifzStore((s) => s.setPlaybackRate);
   const setRepeatEachAyah = useHifzStore((s) => s.setRepeatEachAyah);
   const setTestMode = useHifzStore((s) => s.setTestMode);
+  const ranges = useHifzStore((s) => s.ranges);
+  const addRange = useHifzStore((s) => s.addRange);
+  const dueCount = useHifzDueQueue().length;
+
+  // Range to mark, reset to the current ayah each time the sheet opens
+  const [startAyah, setStartAyah] = useState(1);
+  const [endAyah, setEndAyah] = useState(1);
+  useEffect(() => {
+    if (!visible || !ayahCount) return;
+    const start = Math.min(Math.max(initialAyah, 1), ayahCount);
+    setStartAyah(start);
+    setEndAyah(Math.min(start + DEFAULT_RANGE_LENGTH - 1, ayahCount));
+    // Not on initialAyah: audio advancing while the sheet is open must not reset the steppers
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, ayahCount]);
+
+  const canMark = !!surahNumber && !!ayahCount;
+  const isTracked = canMark && !!ranges[hifzRangeId(surahNumber, startAyah, endAyah)];
+  const trackedInSurah = canMark
+    ? Object.values(ranges).filter((range) => range.surah === surahNumber).length
+    : 0;
+
+  const handleMark = () => {
+    if (!canMark || isTracked) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    addRange(surahNumber, startAyah, endAyah);
+  };
 
   const tap = () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
@@ -58,6 +113,33 @@ const HifzSheet: React.FC<Props> = ({ visible, onClose }) => {
     </TouchableOpacity>
   );
 
+  const Stepper = ({ label, value, min, max, onChange }: {
+    label: string; value: number; min: number; max: number; onChange: (n: number) => void;
+  }) => (
+    <View style={[styles.stepper, { backgroundColor: cardBg, borderColor: cardBorder }]}>
+      <Text style={[styles.stepperLabel, { color: theme.colors.text.muted }]}>{label}</Text>
+      <View style={styles.stepperControls}>
+        <TouchableOpacity
+          hitSlop={8}
+          disabled={value <= min}
+          onPress={() => { tap(); onChange(value - 1); }}
+          style={{ opacity: value <= min ? 0.3 : 1 }}
+        >
+          <FontAwesome6 name="minus" size={13} color={accent} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, { color: theme.colors.text.primary }]}>{value}</Text>
+        <TouchableOpacity
+          hitSlop={8}
+          disabled={value >= max}
+          onPress={() => { tap(); onChange(value + 1); }}
+          style={{ opacity: value >= max ? 0.3 : 1 }}
+        >
+          <FontAwesome6 name="plus" size={13} color={accent} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
   return (
     <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
       <View style={styles.overlay}>
@@ -106,6 +188,55 @@ const HifzSheet: React.FC<Props> = ({ visible, onClose }) => {
             />
           </View>
 
+          {/* Mark as memorised */}
+          {canMark && (
+            <>
+              <Text style={[styles.section, { color: theme.colors.text.muted }]}>MEMORISED</Text>
+              <View style={styles.chipsRow}>
+                <Stepper label="From ayah" value={startAyah} min={1} max={endAyah} onChange={setStartAyah} />
+                <Stepper label="To ayah" value={endAyah} min={startAyah} max={ayahCount} onChange={setEndAyah} />
+              </View>
+              <TouchableOpacity
+                activeOpacity={0.8}
+                disabled={isTracked}
+                onPress={handleMark}
+                style={[styles.markButton, { borderColor: accent, backgroundColor: isTracked ? accent + '18' : 'transparent' }]}
+              >
+                <FontAwesome6 name={isTracked ? 'circle-check' : 'bookmark'} size={14} color={accent} />
+                <Text style={[styles.markText, { color: accent }]}>
+                  {isTracked
+                    ? `${formatHifzRange({ surah: surahNumber, startAyah, endAyah })} is tracked`
+                    : `Mark ${formatHifzRange({ surah: surahNumber, startAyah, endAyah })} as memorised`}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {onOpenTracker && (
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onPress={() => { tap(); onOpenTracker(); }}
+              style={[styles.testRow, { backgroundColor: cardBg, borderColor: cardBorder, marginTop: SPACING.md }]}
+            >
+              <View style={styles.testLeft}>
+                <View style={[styles.testIcon, { backgroundColor: accent + '18' }]}>
+                  <FontAwesome6 name="calendar-check" size={15} color={accent} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.testTitle, { color: theme.colors.text.primary }]}>
+                    {dueCount > 0 ? `${dueCount} ${dueCount === 1 ? 'review' : 'reviews'} due today` : 'Hifz tracker'}
+                  </Text>
+                  <Text style={[styles.testSub, { color: theme.colors.text.muted }]}>
+                    {trackedInSurah > 0
+                      ? `${trackedInSurah} ${trackedInSurah === 1 ? 'range' : 'ranges'} tracked in this surah`
+                      : 'Review what you have memorised'}
+                  </Text>
+                </View>
+              </View>
+              <FontAwesome6 name="chevron-right" size={13} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity activeOpacity={0.85} onPress={onClose} style={[styles.doneButton, { backgroundColor: accent }]}>
             <Text style={styles.doneText}>Done</Text>
           </TouchableOpacity>
@@ -147,6 +278,18 @@ const styles = StyleSheet.create({
   testIcon: { width: 36, height: 36, borderRadius: 10, justifyContent: 'center', alignItems: 'center' },
   testTitle: { fontSize: 15, fontFamily: 'Outfit_600SemiBold' },
   testSub: { fontSize: 12, fontFamily: 'Outfit_400Regular', marginTop: 1 },
+  stepper: {
+    flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    borderRadius: 10, borderWidth: 1, paddingHorizontal: SPACING.md, paddingVertical: SPACING.sm,
+  },
+  stepperLabel: { fontSize: 12, fontFamily: 'Outfit_400Regular' },
+  stepperControls: { flexDirection: 'row', alignItems: 'center', gap: SPACING.md },
+  stepperValue: { fontSize: 15, fontFamily: 'Outfit_600SemiBold', minWidth: 24, textAlign: 'center' },
+  markButton: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: SPACING.sm,
+    borderRadius: 12, borderWidth: 1.5, paddingVertical: SPACING.md, marginTop: SPACING.sm,
+  },
+  markText: { fontSize: 14, fontFamily: 'Outfit_600SemiBold' },
   doneButton: {
     alignItems: 'center', justifyContent: 'center', height: 52, borderRadius: 14, marginTop: SPACING.xl,
   },
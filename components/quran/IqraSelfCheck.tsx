@@ -0,0 +1,214 @@
+/**
+ * IqraSelfCheck
+ *
+ * Short self-check at the end of an Iqra lesson:
+ * - listen: hear an item, pick what you heard from four choices
+ * - quiz: the lesson's own multiple-choice questions
+ * Reports the score when done; the lesson screen decides pass/fail.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { FontAwesome6 } from '@expo/vector-icons';
+
+import type { IqraAudio, IqraItem, IqraLesson } from '../../data/iqraCourse';
+
+const LISTEN_ROUNDS = 5;
+const LISTEN_CHOICES = 4;
+
+interface Round {
+  prompt: string;
+  arabic?: string;
+  audio?: IqraAudio;
+  options: { label: string; arabic: boolean }[];
+  answer: number;
+}
+
+function shuffle<T>(list: T[]): T[] {
+  const copy = [...list];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/** Rounds for a lesson; listen rounds are drawn at random from its items. */
+function buildRounds(lesson: IqraLesson): Round[] {
+  if (lesson.check === 'quiz') {
+    return (lesson.questions ?? []).map((q) => ({
+      prompt: q.prompt,
+      arabic: q.arabic,
+      options: q.options.map((label) => ({ label, arabic: /[\u0600-\u06FF]/.test(label) })),
+      answer: q.answer,
+    }));
+  }
+
+  const targets = shuffle(lesson.items).slice(0, Math.min(LISTEN_ROUNDS, lesson.items.length));
+  return targets.map((target) => {
+    const others = shuffle(lesson.items.filter((item) => item.id !== target.id)).slice(0, LISTEN_CHOICES - 1);
+    const choices: IqraItem[] = shuffle([target, ...others]);
+    return {
+      prompt: 'Which one did you hear?',
+      audio: target.audio,
+      options: choices.map((item) => ({ label: item.arabic, arabic: true })),
+      answer: choices.indexOf(target),
+    };
+  });
+}
+
+interface IqraSelfCheckProps {
+  lesson: IqraLesson;
+  accent: string;
+  textPrimary: string;
+  textMuted: string;
+  onPlay: (audio: IqraAudio) => void;
+  onFinish: (score: number) => void;
+}
+
+const IqraSelfCheck: React.FC<IqraSelfCheckProps> = ({ lesson, accent, textPrimary, textMuted, onPlay, onFinish }) => {
+  const rounds = useMemo(() => buildRounds(lesson), [lesson]);
+  const [index, setIndex] = useState(0);
+  const [correct, setCorrect] = useState(0);
+  const [picked, setPicked] = useState<number | null>(null);
+
+  const round = rounds[index];
+
+  // Play each listening round as it appears
+  useEffect(() => {
+    if (round?.audio) onPlay(round.audio);
+  }, [round, onPlay]);
+
+  if (!round) return null;
+
+  const handlePick = (option: number) => {
+    if (picked !== null) return;
+    setPicked(option);
+    if (option === round.answer) setCorrect((c) => c + 1);
+  };
+
+  const handleNext = () => {
+    if (index + 1 >= rounds.length) {
+      onFinish(correct / rounds.length);
+      return;
+    }
+    setIndex(index + 1);
+    setPicked(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.counter, { color: textMuted }]}>
+        {index + 1} / {rounds.length}
+      </Text>
+      <Text style={[styles.prompt, { color: textPrimary }]}>{round.prompt}</Text>
+      {!!round.arabic && <Text style={[styles.arabic, { color: textPrimary }]}>{round.arabic}</Text>}
+      {round.audio && (
+        <TouchableOpacity
+          onPress={() => onPlay(round.audio!)}
+          style={[styles.replay, { backgroundColor: accent + '15' }]}
+        >
+          <FontAwesome6 name="volume-high" size={16} color={accent} />
+          <Text style={[styles.replayText, { color: accent }]}>Play again</Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.options}>
+        {round.options.map((option, i) => {
+          const isAnswer = picked !== null && i === round.answer;
+          const isWrong = picked === i && i !== round.answer;
+          return (
+            <TouchableOpacity
+              key={`${round.prompt}-${i}`}
+              onPress={() => handlePick(i)}
+              style={[
+                styles.option,
+                { borderColor: isAnswer ? accent : isWrong ? '#ff6b6b' : textMuted + '40' },
+                isAnswer && { backgroundColor: accent + '15' },
+              ]}
+            >
+              <Text style={[option.arabic ? styles.optionArabic : styles.optionText, { color: textPrimary }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {picked !== null && (
+        <TouchableOpacity onPress={handleNext} style={[styles.next, { backgroundColor: accent }]}>
+          <Text style={styles.nextText}>{index + 1 >= rounds.length ? 'See result' : 'Next'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  counter: {
+    fontSize: 12,
+    fontFamily: 'Outfit_500Medium',
+  },
+  prompt: {
+    fontSize: 17,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  arabic: {
+    fontSize: 36,
+    textAlign: 'center',
+    writingDirection: 'rtl',
+    marginVertical: 4,
+  },
+  replay: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    alignSelf: 'flex-start',
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+  },
+  replayText: {
+    fontSize: 14,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  option: {
+    flexGrow: 1,
+    minWidth: '45%',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1.5,
+  },
+  optionArabic: {
+    fontSize: 28,
+    writingDirection: 'rtl',
+  },
+  optionText: {
+    fontSize: 15,
+    fontFamily: 'Outfit_500Medium',
+    textAlign: 'center',
+  },
+  next: {
+    alignItems: 'center',
+    paddingVertical: 13,
+    borderRadius: 12,
+  },
+  nextText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Outfit_600SemiBold',
+  },
+});
+
+export default IqraSelfCheck;
@@ -4,6 +4,8 @@
  * Renders a single Quran page as flowing Arabic text, matching the standard
  * Uthmani Mushaf page layout. Ayahs from multiple surahs on one page are
  * handled naturally — a surah header is shown whenever a new surah begins.
+ * The optional translation block lists the transliteration and each selected
+ * translation edition under every ayah.
  */
 
 import React, { useMemo, useState, useEffect } from 'react';
@@ -20,6 +22,9 @@ import { FontAwesome6 } from '@expo/vector-icons';
 import { useMushafPage } from '../../hooks/quran/useMushafPage';
 import { useMushafPlaying } from '../../context/MushafPlayingContext';
 import { useHifzStore } from '../../stores/useHifzStore';
+import { useSurahEditions } from '../../hooks/quran/useSurahEditions';
+import { EDITIONS } from '../../api/services/quran';
+import { getEditionLabel } from '../../api/services/quran/translations';
 import type { MushafAyah } from '../../api/services/quran/mushafPage';
 
 // ============================================================================
@@ -136,15 +141,32 @@ const ArabicBlock = React.memo(({
   );
 });
 
-// Translation block — numbered list below each surah's arabic block
+// Translation block — numbered list below each surah's arabic block.
+// Sahih International comes with the page; other editions load per surah.
 const TranslationBlock = React.memo(({
   ayahs,
   theme,
+  translationEditions,
+  showTransliteration,
 }: {
   ayahs: MushafAyah[];
   theme: Theme;
+  translationEditions: string[];
+  showTransliteration: boolean;
 }) => {
   const { surahNum: playingSurah, ayahNum: playingAyah } = useMushafPlaying();
+  const fetchedEditions = useMemo(
+    () => [
+      ...(showTransliteration ? [EDITIONS.TRANSLITERATION] : []),
+      ...translationEditions.filter((edition) => edition !== EDITIONS.ENGLISH),
+    ],
+    [translationEditions, showTransliteration]
+  );
+  const editionTexts = useSurahEditions(ayahs[0].surahNumber, fetchedEditions);
+  const showLabels = translationEditions.length > 1;
+
+  if (!showTransliteration && translationEditions.length === 0) return null;
+
   return (
     <View style={[translationStyles.container, { borderTopColor: theme.isDarkMode ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.07)' }]}>
       {ayahs.map((ayah) => {
@@ -156,9 +178,27 @@ const TranslationBlock = React.memo(({
             <Text style={[translationStyles.number, { color: theme.accent }]}>
               {ayah.ayahNumber}
             </Text>
-            <Text style={[translationStyles.text, { color: isActive ? theme.accent : theme.textSecondary }]}>
-              {ayah.translation}
-            </Text>
+            <View style={translationStyles.lines}>
+              {showTransliteration && (
+                <Text style={[translationStyles.transliteration, { color: theme.textSecondary }]}>
+                  {editionTexts[EDITIONS.TRANSLITERATION]?.[ayah.ayahNumber - 1] ?? ''}
+                </Text>
+              )}
+              {translationEditions.map((edition) => (
+                <View key={edition}>
+                  {showLabels && (
+                    <Text style={[translationStyles.label, { color: theme.accent }]}>
+                      {getEditionLabel(edition)}
+                    </Text>
+                  )}
+                  <Text style={[translationStyles.text, { color: isActive ? theme.accent : theme.textSecondary }]}>
+                    {edition === EDITIONS.ENGLISH
+                      ? ayah.translation
+                      : editionTexts[edition]?.[ayah.ayahNumber - 1] ?? '…'}
+                  </Text>
+                </View>
+              ))}
+            </View>
           </View>
         );
       })}
@@ -173,6 +213,9 @@ const TranslationBlock = React.memo(({
 export interface MushafPageProps {
   pageNumber: number;
   showTranslation: boolean;
+  /** Translation editions listed under each ayah (see TRANSLATION_EDITIONS) */
+  translationEditions: string[];
+  showTransliteration: boolean;
   accentColor: string;
   textPrimary: string;
   textSecondary: string;
@@ -183,6 +226,8 @@ export interface MushafPageProps {
 const MushafPage = ({
   pageNumber,
   showTranslation,
+  translationEditions,
+  showTransliteration,
   accentColor,
   textPrimary,
   textSecondary,
@@ -265,7 +310,12 @@ const MushafPage = ({
 
             {/* Translation (optional) */}
             {showTranslation && (
-              <TranslationBlock ayahs={group.ayahs} theme={theme} />
+              <TranslationBlock
+                ayahs={group.ayahs}
+                theme={theme}
+                translationEditions={translationEditions}
+                showTransliteration={showTransliteration}
+              />
             )}
           </View>
         );
@@ -452,8 +502,24 @@ const translationStyles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 3,
   },
-  text: {
+  lines: {
     flex: 1,
+    gap: 6,
+  },
+  transliteration: {
+    fontFamily: 'Outfit_400Regular',
+    fontStyle: 'italic',
+    fontSize: 13,
+    lineHeight: 20,
+  },
+  label: {
+    fontFamily: 'Outfit_600SemiBold',
+    fontSize: 10,
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  text: {
     fontFamily: 'Outfit_400Regular',
     fontSize: 14,
     lineHeight: 22,
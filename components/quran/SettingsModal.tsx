@@ -3,7 +3,7 @@
  * 
  * Quran reading settings with glassmorphism and smooth animations
  * 
- * @version 2.0
+ * @version 2.1 - Translation editions and transliteration
  */
 
 import React, { useEffect } from 'react';
@@ -14,6 +14,7 @@ import { FontAwesome6 } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import Slider from '@react-native-community/slider';
 import { reciterOptions } from '../../utils/constants';
+import { TRANSLATION_EDITIONS } from '../../api/services/quran/translations';
 import { enter } from '../../utils';
 
 interface SettingsModalProps {
@@ -28,6 +29,11 @@ interface SettingsModalProps {
   onReciterChange: (value: string) => void;
   activeTheme: any;
   showReciter?: boolean;
+  /** Selected translation editions; the section is shown when onTranslationsChange is set */
+  translations?: string[];
+  onTranslationsChange?: (editions: string[]) => void;
+  showTransliteration?: boolean;
+  onShowTransliterationChange?: (value: boolean) => void;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -42,6 +48,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   onReciterChange,
   activeTheme,
   showReciter = true,
+  translations = [],
+  onTranslationsChange,
+  showTransliteration = false,
+  onShowTransliterationChange,
 }) => {
   const styles = createStyles(activeTheme);
   const handleToggleDarkMode = toggleDarkModeAnimated ?? toggleDarkMode;
@@ -56,6 +66,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     onReciterChange(value);
   };
 
+  // Keeps the selection in the order of TRANSLATION_EDITIONS
+  const handleTranslationToggle = (edition: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const selected = translations.includes(edition)
+      ? translations.filter((id) => id !== edition)
+      : [...translations, edition];
+    onTranslationsChange?.(
+      TRANSLATION_EDITIONS.map((e) => e.id).filter((id) => selected.includes(id))
+    );
+  };
+
+  const handleTransliterationToggle = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onShowTransliterationChange?.(!showTransliteration);
+  };
+
   return (
     <Modal
       transparent
@@ -181,6 +207,55 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 </View>
               </View>
 
+              {/* Translations Section */}
+              {onTranslationsChange && (
+                <View style={styles.section}>
+                  <View style={styles.sectionHeader}>
+                    <FontAwesome6 name="language" size={16} color={activeTheme.colors.accent} />
+                    <Text style={styles.sectionTitle}>Translations</Text>
+                  </View>
+                  <View style={styles.optionList}>
+                    <TouchableOpacity
+                      style={[styles.optionRow, showTransliteration && { borderColor: activeTheme.colors.accent }]}
+                      onPress={handleTransliterationToggle}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.optionInfo}>
+                        <Text style={styles.optionName}>Transliteration</Text>
+                        <Text style={styles.optionMeta}>Arabic in Latin letters</Text>
+                      </View>
+                      <FontAwesome6
+                        name={showTransliteration ? 'toggle-on' : 'toggle-off'}
+                        size={22}
+                        color={showTransliteration ? activeTheme.colors.accent : activeTheme.colors.text.secondary}
+                      />
+                    </TouchableOpacity>
+                    {TRANSLATION_EDITIONS.map((edition) => {
+                      const isSelected = translations.includes(edition.id);
+                      return (
+                        <TouchableOpacity
+                          key={edition.id}
+                          style={[styles.optionRow, isSelected && { borderColor: activeTheme.colors.accent }]}
+                          onPress={() => handleTranslationToggle(edition.id)}
+                          activeOpacity={0.7}
+                        >
+                          <View style={styles.optionInfo}>
+                            <Text style={styles.optionName}>{edition.name}</Text>
+                            <Text style={styles.optionMeta}>{edition.language}</Text>
+                          </View>
+                          <FontAwesome6
+                            name={isSelected ? 'square-check' : 'square'}
+                            size={20}
+                            color={isSelected ? activeTheme.colors.accent : activeTheme.colors.text.secondary}
+                            solid={isSelected}
+                          />
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
               {/* Reciter Section */}
               {showReciter && (
                 <View style={[styles.section, styles.reciterSection]}>
@@ -370,6 +445,36 @@ const createStyles = (theme: any) =>
       fontFamily: 'Outfit_600SemiBold',
     },
 
+    // Translation Options
+    optionList: {
+      gap: 8,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 12,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      backgroundColor: theme.colors.muted,
+      borderWidth: 1.5,
+      borderColor: 'transparent',
+    },
+    optionInfo: {
+      flex: 1,
+      gap: 2,
+    },
+    optionName: {
+      fontSize: 14,
+      fontFamily: 'Outfit_600SemiBold',
+      color: theme.colors.text.primary,
+    },
+    optionMeta: {
+      fontSize: 12,
+      fontFamily: 'Outfit_400Regular',
+      color: theme.colors.text.secondary,
+    },
+
     // Reciter Cards
     reciterScroll: {
       marginBottom: 20
@@ -1,9 +1,10 @@
 /**
  * SurahItem - Modern Design
  * 
- * Individual surah card with glassmorphism and progress tracking
+ * Individual surah card with glassmorphism and progress tracking, plus the
+ * recitation download state for the selected reciter
  * 
- * @version 2.0
+ * @version 2.1
  */
 
 import React from 'react';
@@ -14,6 +15,7 @@ import { FontAwesome6 } from '@expo/vector-icons';
 import { Surah } from '../../utils/types';
 import { useTheme } from '../../context/ThemeContext';
 import { enter } from '../../utils';
+import { useSurahAudioDownload } from '../../hooks/quran/useAudioDownloads';
 
 interface SurahProps {
   surah: Surah;
@@ -30,6 +32,32 @@ const SurahItem = ({ surah, onPress, readCount = 0, index }: SurahProps) => {
   const progressPercentage = Math.round(progress * 100);
   const isComplete = progressPercentage === 100;
 
+  const audio = useSurahAudioDownload(surah.number);
+
+  const renderAudioBadge = () => {
+    switch (audio.status) {
+      case 'downloaded':
+        return <FontAwesome6 name="circle-down" size={12} color={theme.colors.text.success} solid />;
+      case 'queued':
+      case 'downloading':
+        return (
+          <View style={styles.audioBadge}>
+            <FontAwesome6 name="arrow-down" size={10} color={theme.colors.accent} />
+            <Text style={[styles.audioBadgeText, { color: theme.colors.accent }]}>
+              {Math.round(audio.progress * 100)}%
+            </Text>
+          </View>
+        );
+      case 'waiting':
+        return <FontAwesome6 name="wifi" size={11} color={theme.colors.text.muted} />;
+      case 'failed':
+        return <FontAwesome6 name="triangle-exclamation" size={11} color={theme.colors.text.error} />;
+      default:
+        return null;
+    }
+  };
+  const audioBadge = renderAudioBadge();
+
   return (
     <Pressable onPress={() => onPress(surah)}>
       {({ pressed }) => (
@@ -65,6 +93,12 @@ const SurahItem = ({ surah, onPress, readCount = 0, index }: SurahProps) => {
                   <Text style={styles.metaText}>{surah.englishNameTranslation}</Text>
                   <View style={styles.separator} />
                   <Text style={styles.metaText}>{surah.numberOfAyahs} Ayahs</Text>
+                  {audioBadge && (
+                    <>
+                      <View style={styles.separator} />
+                      {audioBadge}
+                    </>
+                  )}
                 </View>
               </View>
             </View>
@@ -178,6 +212,15 @@ const createStyles = (theme: any, textSize: number, isDarkMode: boolean) =>
       borderRadius: 1.5,
       backgroundColor: theme.colors.text.muted,
     },
+    audioBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 3,
+    },
+    audioBadgeText: {
+      fontSize: 11,
+      fontFamily: 'Outfit_600SemiBold',
+    },
 
     // Right Section
     rightSection: {
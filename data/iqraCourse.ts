@@ -0,0 +1,541 @@
+/**
+ * Iqra Course
+ *
+ * Beginner Arabic reading course, in order: letters, letter forms, harakat,
+ * joining, tajweed basics, then reading Juz 'Amma in the Quran reader.
+ * Lessons unlock one after another.
+ *
+ * Audio is referenced, not bundled:
+ * - `clip`: short recordings at `iqra/<clip>.mp3` in Firebase Storage. The
+ *   expected clips are listed in scripts/iqra/clips.json (from `getIqraClips`)
+ *   and uploaded by scripts/iqra/seed-iqra-clips.mjs
+ * - `ayah`: the reader's own recitation audio for that ayah
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type IqraAudio =
+  | { type: 'clip'; clip: string }
+  | { type: 'ayah'; surah: number; ayah: number };
+
+export interface IqraItem {
+  id: string;
+  arabic: string;
+  transliteration: string;
+  audio: IqraAudio;
+  hint?: string;
+}
+
+export interface IqraQuestion {
+  prompt: string;
+  arabic?: string;
+  options: string[];
+  answer: number; // index into options
+}
+
+/**
+ * How a lesson is checked:
+ * - listen: hear an item, pick it from the drill (generated from items)
+ * - quiz: the lesson's own questions
+ * - read: read the surah in the reader, then confirm
+ */
+export type IqraCheck = 'listen' | 'quiz' | 'read';
+
+export interface IqraLesson {
+  id: string;
+  levelId: string;
+  title: string;
+  notes: string[];
+  items: IqraItem[];
+  check: IqraCheck;
+  questions?: IqraQuestion[];
+  surah?: number; // read lessons
+}
+
+export interface IqraLevel {
+  id: string;
+  number: number;
+  title: string;
+  description: string;
+  icon: string;
+  lessons: IqraLesson[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Share of self-check answers needed to complete a lesson. */
+export const IQRA_PASS_SCORE = 0.8;
+
+const FATHAH = '\u064E';
+const KASRAH = '\u0650';
+const DAMMAH = '\u064F';
+const SUKUN = '\u0652';
+const TANWIN_FATH = '\u064B';
+const TANWIN_KASR = '\u064D';
+const TANWIN_DAMM = '\u064C';
+
+interface Letter {
+  id: string;
+  char: string;
+  name: string;
+  sound: string; // consonant used in transliteration
+  joins: boolean; // joins to the letter after it
+}
+
+const LETTERS: Letter[] = [
+  { id: 'alif', char: 'ا', name: 'Alif', sound: 'a', joins: false },
+  { id: 'ba', char: 'ب', name: 'Ba', sound: 'b', joins: true },
+  { id: 'ta', char: 'ت', name: 'Ta', sound: 't', joins: true },
+  { id: 'tha', char: 'ث', name: 'Tha', sound: 'th', joins: true },
+  { id: 'jim', char: 'ج', name: 'Jim', sound: 'j', joins: true },
+  { id: 'hha', char: 'ح', name: 'Ḥa', sound: 'ḥ', joins: true },
+  { id: 'kha', char: 'خ', name: 'Kha', sound: 'kh', joins: true },
+  { id: 'dal', char: 'د', name: 'Dal', sound: 'd', joins: false },
+  { id: 'dhal', char: 'ذ', name: 'Dhal', sound: 'dh', joins: false },
+  { id: 'ra', char: 'ر', name: 'Ra', sound: 'r', joins: false },
+  { id: 'zay', char: 'ز', name: 'Zay', sound: 'z', joins: false },
+  { id: 'sin', char: 'س', name: 'Sin', sound: 's', joins: true },
+  { id: 'shin', char: 'ش', name: 'Shin', sound: 'sh', joins: true },
+  { id: 'sad', char: 'ص', name: 'Ṣad', sound: 'ṣ', joins: true },
+  { id: 'dad', char: 'ض', name: 'Ḍad', sound: 'ḍ', joins: true },
+  { id: 'tta', char: 'ط', name: 'Ṭa', sound: 'ṭ', joins: true },
+  { id: 'zza', char: 'ظ', name: 'Ẓa', sound: 'ẓ', joins: true },
+  { id: 'ayn', char: 'ع', name: '\'Ayn', sound: '\'', joins: true },
+  { id: 'ghayn', char: 'غ', name: 'Ghayn', sound: 'gh', joins: true },
+  { id: 'fa', char: 'ف', name: 'Fa', sound: 'f', joins: true },
+  { id: 'qaf', char: 'ق', name: 'Qaf', sound: 'q', joins: true },
+  { id: 'kaf', char: 'ك', name: 'Kaf', sound: 'k', joins: true },
+  { id: 'lam', char: 'ل', name: 'Lam', sound: 'l', joins: true },
+  { id: 'mim', char: 'م', name: 'Mim', sound: 'm', joins: true },
+  { id: 'nun', char: 'ن', name: 'Nun', sound: 'n', joins: true },
+  { id: 'waw', char: 'و', name: 'Waw', sound: 'w', joins: false },
+  { id: 'hha2', char: 'ه', name: 'Ha', sound: 'h', joins: true },
+  { id: 'ya', char: 'ي', name: 'Ya', sound: 'y', joins: true },
+];
+
+// ============================================================================
+// BUILDERS
+// ============================================================================
+
+function letters(...ids: string[]): Letter[] {
+  return ids.map((id) => {
+    const letter = LETTERS.find((l) => l.id === id);
+    if (!letter) throw new Error(`Unknown Iqra letter: ${id}`);
+    return letter;
+  });
+}
+
+const clip = (name: string): IqraAudio => ({ type: 'clip', clip: name });
+const ayah = (surah: number, ayahNumber: number): IqraAudio => ({ type: 'ayah', surah, ayah: ayahNumber });
+
+function letterItems(group: Letter[]): IqraItem[] {
+  return group.map((l) => ({
+    id: `letter-${l.id}`,
+    arabic: l.char,
+    transliteration: l.name,
+    audio: clip(`letter-${l.id}`),
+  }));
+}
+
+/** Isolated, initial, medial and final forms (non-joiners have two). */
+function formItems(group: Letter[]): IqraItem[] {
+  const tatweel = 'ـ';
+  return group.map((l) => ({
+    id: `form-${l.id}`,
+    arabic: l.joins
+      ? [l.char, `${l.char}${tatweel}`, `${tatweel}${l.char}${tatweel}`, `${tatweel}${l.char}`].join('  ')
+      : [l.char, `${tatweel}${l.char}`].join('  '),
+    transliteration: l.name,
+    audio: clip(`letter-${l.id}`),
+    hint: l.joins ? undefined : 'Does not join to the next letter',
+  }));
+}
+
+function harakahItems(group: Letter[], mark: string, vowel: string, suffix: string): IqraItem[] {
+  return group
+    .filter((l) => l.id !== 'alif')
+    .map((l) => ({
+      id: `${l.id}-${suffix}`,
+      arabic: `${l.char}${mark}`,
+      transliteration: `${l.sound}${vowel}`,
+      audio: clip(`${l.id}-${suffix}`),
+    }));
+}
+
+function word(id: string, arabic: string, transliteration: string, hint?: string): IqraItem {
+  return { id, arabic, transliteration, audio: clip(`word-${id}`), hint };
+}
+
+function ayahItem(id: string, arabic: string, transliteration: string, ref: IqraAudio, hint: string): IqraItem {
+  return { id, arabic, transliteration, audio: ref, hint };
+}
+
+const ALL_HARAKAH_LETTERS = letters('ba', 'ta', 'jim', 'dal', 'ra', 'sin', 'ayn', 'qaf', 'lam', 'mim', 'nun', 'ya');
+
+// ============================================================================
+// COURSE
+// ============================================================================
+
+export const IQRA_LEVELS: IqraLevel[] = [
+  {
+    id: 'letters',
+    number: 1,
+    title: 'Letters',
+    description: 'The 28 letters of the alphabet, right to left',
+    icon: 'font',
+    lessons: [
+      ['letters-1', 'Alif to Tha', ['alif', 'ba', 'ta', 'tha']],
+      ['letters-2', 'Jim, Ḥa, Kha', ['jim', 'hha', 'kha']],
+      ['letters-3', 'Dal to Zay', ['dal', 'dhal', 'ra', 'zay']],
+      ['letters-4', 'Sin to Ḍad', ['sin', 'shin', 'sad', 'dad']],
+      ['letters-5', 'Ṭa to Ghayn', ['tta', 'zza', 'ayn', 'ghayn']],
+      ['letters-6', 'Fa to Lam', ['fa', 'qaf', 'kaf', 'lam']],
+      ['letters-7', 'Mim to Ya', ['mim', 'nun', 'waw', 'hha2', 'ya']],
+    ].map(([id, title, ids]) => ({
+      id: id as string,
+      levelId: 'letters',
+      title: title as string,
+      notes: ['Arabic is read from right to left.', 'Tap each letter to hear it, then repeat it aloud.'],
+      items: letterItems(letters(...(ids as string[]))),
+      check: 'listen' as const,
+    })),
+  },
+  {
+    id: 'forms',
+    number: 2,
+    title: 'Letter forms',
+    description: 'How letters change at the start, middle and end of a word',
+    icon: 'shapes',
+    lessons: [
+      {
+        id: 'forms-1',
+        levelId: 'forms',
+        title: 'Letters that join',
+        notes: [
+          'Most letters have four forms: alone, at the start, in the middle and at the end.',
+          'Letters of the same family share a shape and differ only in their dots.',
+        ],
+        items: formItems(letters('ba', 'ta', 'jim', 'sin', 'ayn', 'fa', 'kaf', 'mim', 'hha2', 'ya')),
+        check: 'listen',
+      },
+      {
+        id: 'forms-2',
+        levelId: 'forms',
+        title: 'Letters that do not join',
+        notes: [
+          'Six letters never join to the letter after them: ا د ذ ر ز و.',
+          'After one of them, the next letter starts a new shape.',
+        ],
+        items: formItems(letters('alif', 'dal', 'dhal', 'ra', 'zay', 'waw')),
+        check: 'listen',
+      },
+    ],
+  },
+  {
+    id: 'harakat',
+    number: 3,
+    title: 'Harakat',
+    description: 'Short vowels, sukun, shaddah, tanwin and long vowels',
+    icon: 'wave-square',
+    lessons: [
+      {
+        id: 'harakat-fathah',
+        levelId: 'harakat',
+        title: 'Fathah (a)',
+        notes: ['Fathah is a small stroke above the letter, read with a short "a".'],
+        items: harakahItems(ALL_HARAKAH_LETTERS, FATHAH, 'a', 'fathah'),
+        check: 'listen',
+      },
+      {
+        id: 'harakat-kasrah',
+        levelId: 'harakat',
+        title: 'Kasrah (i)',
+        notes: ['Kasrah is a small stroke below the letter, read with a short "i".'],
+        items: harakahItems(ALL_HARAKAH_LETTERS, KASRAH, 'i', 'kasrah'),
+        check: 'listen',
+      },
+      {
+        id: 'harakat-dammah',
+        levelId: 'harakat',
+        title: 'Dammah (u)',
+        notes: ['Dammah is a small waw above the letter, read with a short "u".'],
+        items: harakahItems(ALL_HARAKAH_LETTERS, DAMMAH, 'u', 'dammah'),
+        check: 'listen',
+      },
+      {
+        id: 'harakat-tanwin',
+        levelId: 'harakat',
+        title: 'Tanwin (an, in, un)',
+        notes: ['A doubled harakah adds an "n" sound at the end of a word.'],
+        items: [
+          ...harakahItems(letters('ba', 'dal', 'mim'), TANWIN_FATH, 'an', 'tanwin-fath'),
+          ...harakahItems(letters('ba', 'dal', 'mim'), TANWIN_KASR, 'in', 'tanwin-kasr'),
+          ...harakahItems(letters('ba', 'dal', 'mim'), TANWIN_DAMM, 'un', 'tanwin-damm'),
+        ],
+        check: 'listen',
+      },
+      {
+        id: 'harakat-sukun',
+        levelId: 'harakat',
+        title: 'Sukun',
+        notes: ['Sukun (a small circle) means the letter has no vowel; join it to the letter before.'],
+        items: letters('ba', 'ta', 'dal', 'sin', 'qaf', 'lam', 'mim', 'nun').map((l) => ({
+          id: `${l.id}-sukun`,
+          arabic: `أَ${l.char}${SUKUN}`,
+          transliteration: `a${l.sound}`,
+          audio: clip(`${l.id}-sukun`),
+        })),
+        check: 'listen',
+      },
+      {
+        id: 'harakat-shaddah',
+        levelId: 'harakat',
+        title: 'Shaddah',
+        notes: ['Shaddah doubles the letter: stop on it once, then read it again with its vowel.'],
+        items: [
+          word('rabba', `رَبَّ`, 'rabba'),
+          word('ummi', `أُمِّ`, 'ummi'),
+          word('inna', `إِنَّ`, 'inna', 'Hold the nun with ghunnah'),
+          word('thumma', `ثُمَّ`, 'thumma', 'Hold the mim with ghunnah'),
+          word('kalla', `كَلَّا`, 'kallā'),
+          word('haqqa', `حَقَّ`, 'ḥaqqa'),
+        ],
+        check: 'listen',
+      },
+      {
+        id: 'harakat-mad',
+        levelId: 'harakat',
+        title: 'Long vowels',
+        notes: [
+          'Alif after fathah, ya after kasrah and waw after dammah stretch the vowel to two counts.',
+        ],
+        items: letters('ba', 'ta', 'nun', 'qaf').flatMap((l) => [
+          { id: `${l.id}-mad-a`, arabic: `${l.char}${FATHAH}ا`, transliteration: `${l.sound}ā`, audio: clip(`${l.id}-mad-a`) },
+          { id: `${l.id}-mad-i`, arabic: `${l.char}${KASRAH}ي`, transliteration: `${l.sound}ī`, audio: clip(`${l.id}-mad-i`) },
+          { id: `${l.id}-mad-u`, arabic: `${l.char}${DAMMAH}و`, transliteration: `${l.sound}ū`, audio: clip(`${l.id}-mad-u`) },
+        ]),
+        check: 'listen',
+      },
+    ],
+  },
+  {
+    id: 'joining',
+    number: 4,
+    title: 'Joining',
+    description: 'Reading whole words',
+    icon: 'link',
+    lessons: [
+      {
+        id: 'joining-1',
+        levelId: 'joining',
+        title: 'Three-letter words',
+        notes: ['Read letter by letter first, then the whole word in one breath.'],
+        items: [
+          word('kataba', 'كَتَبَ', 'kataba', 'He wrote'),
+          word('dhahaba', 'ذَهَبَ', 'dhahaba', 'He went'),
+          word('jalasa', 'جَلَسَ', 'jalasa', 'He sat'),
+          word('khalaqa', 'خَلَقَ', 'khalaqa', 'He created'),
+          word('fataha', 'فَتَحَ', 'fataḥa', 'He opened'),
+          word('nasara', 'نَصَرَ', 'naṣara', 'He helped'),
+          word('alima', 'عَلِمَ', '\'alima', 'He knew'),
+          word('qaraa', 'قَرَأَ', 'qara\'a', 'He read'),
+        ],
+        check: 'listen',
+      },
+      {
+        id: 'joining-2',
+        levelId: 'joining',
+        title: 'Words from Juz \'Amma',
+        notes: ['These words come up again and again in the short surahs.'],
+        items: [
+          word('qul', 'قُلْ', 'qul', 'Say'),
+          word('huwa', 'هُوَ', 'huwa', 'He'),
+          word('allahu', 'ٱللَّهُ', 'Allāhu'),
+          word('ahad', 'أَحَدٌ', 'aḥad', 'One'),
+          word('rabbi', 'رَبِّ', 'rabbi', 'Lord of'),
+          word('an-nas', 'ٱلنَّاسِ', 'an-nās', 'Mankind'),
+          word('maliki', 'مَلِكِ', 'maliki', 'King of'),
+          word('al-falaq', 'ٱلْفَلَقِ', 'al-falaq', 'The daybreak'),
+        ],
+        check: 'listen',
+      },
+    ],
+  },
+  {
+    id: 'tajweed',
+    number: 5,
+    title: 'Tajweed basics',
+    description: 'The first rules you will meet in Juz \'Amma',
+    icon: 'microphone-lines',
+    lessons: [
+      {
+        id: 'tajweed-lam',
+        levelId: 'tajweed',
+        title: 'Lam shamsiyyah & qamariyyah',
+        notes: [
+          'Before "sun" letters the lam of ٱل is silent and the next letter is doubled: ٱلنَّاس → an-nās.',
+          'Before "moon" letters the lam is read: ٱلْفَلَق → al-falaq.',
+        ],
+        items: [
+          ayahItem('lam-nas', 'قُلْ أَعُوذُ بِرَبِّ ٱلنَّاسِ', 'qul a\'ūdhu bi-rabbi n-nās', ayah(114, 1), 'Lam shamsiyyah'),
+          ayahItem('lam-falaq', 'قُلْ أَعُوذُ بِرَبِّ ٱلْفَلَقِ', 'qul a\'ūdhu bi-rabbi l-falaq', ayah(113, 1), 'Lam qamariyyah'),
+        ],
+        check: 'quiz',
+        questions: [
+          { prompt: 'Is the lam read here?', arabic: 'ٱلنَّاسِ', options: ['Yes', 'No, it is silent'], answer: 1 },
+          { prompt: 'Is the lam read here?', arabic: 'ٱلْفَلَقِ', options: ['Yes', 'No, it is silent'], answer: 0 },
+          { prompt: 'Is the lam read here?', arabic: 'ٱلرَّحْمَٰنِ', options: ['Yes', 'No, it is silent'], answer: 1 },
+          { prompt: 'Is the lam read here?', arabic: 'ٱلْحَمْدُ', options: ['Yes', 'No, it is silent'], answer: 0 },
+          { prompt: 'Is the lam read here?', arabic: 'ٱلصَّمَدُ', options: ['Yes', 'No, it is silent'], answer: 1 },
+        ],
+      },
+      {
+        id: 'tajweed-qalqalah',
+        levelId: 'tajweed',
+        title: 'Qalqalah',
+        notes: [
+          'The letters ق ط ب ج د bounce slightly when they carry sukun, most clearly when you stop on them.',
+        ],
+        items: [
+          ayahItem('qalqalah-ahad', 'قُلْ هُوَ ٱللَّهُ أَحَدٌ', 'qul huwa llāhu aḥad', ayah(112, 1), 'Stop on the dal'),
+          ayahItem('qalqalah-falaq', 'قُلْ أَعُوذُ بِرَبِّ ٱلْفَلَقِ', 'qul a\'ūdhu bi-rabbi l-falaq', ayah(113, 1), 'Stop on the qaf'),
+          ayahItem('qalqalah-tabbat', 'تَبَّتْ يَدَآ أَبِى لَهَبٍ وَتَبَّ', 'tabbat yadā abī lahabin wa-tabb', ayah(111, 1), 'Stop on the ba'),
+        ],
+        check: 'quiz',
+        questions: [
+          { prompt: 'Which of these is a qalqalah letter?', options: ['س', 'د', 'م', 'ل'], answer: 1 },
+          { prompt: 'Which of these is a qalqalah letter?', options: ['ق', 'ن', 'ر', 'ف'], answer: 0 },
+          { prompt: 'When is qalqalah strongest?', options: ['On a fathah', 'When stopping on the letter', 'On a shaddah'], answer: 1 },
+          { prompt: 'Does this word end with qalqalah when you stop?', arabic: 'أَحَدٌ', options: ['Yes', 'No'], answer: 0 },
+          { prompt: 'Does this word end with qalqalah when you stop?', arabic: 'ٱلنَّاسِ', options: ['Yes', 'No'], answer: 1 },
+        ],
+      },
+      {
+        id: 'tajweed-nun',
+        levelId: 'tajweed',
+        title: 'Nun sakinah & tanwin',
+        notes: [
+          'Izhar: read the n clearly before throat letters (ء ه ع ح غ خ).',
+          'Idgham: merge the n into ي ر م ل و ن.',
+          'Iqlab: turn the n into m before ب.',
+          'Ikhfa: hide the n with ghunnah before the remaining letters.',
+        ],
+        items: [
+          ayahItem('nun-izhar', 'وَلَمْ يَكُن لَّهُۥ كُفُوًا أَحَدٌۢ', 'wa-lam yakul-lahū kufuwan aḥad', ayah(112, 4), 'Idgham in "yakul-lahū", izhar in "kufuwan aḥad"'),
+          ayahItem('nun-ikhfa', 'مِن شَرِّ ٱلْوَسْوَاسِ ٱلْخَنَّاسِ', 'min sharri l-waswāsi l-khannās', ayah(114, 4), 'Ikhfa in "min sharri"'),
+          ayahItem('nun-iqlab', 'كَلَّا لَئِن لَّمْ يَنتَهِ لَنَسْفَعًۢا بِٱلنَّاصِيَةِ', 'kallā la\'il-lam yantahi lanasfa\'am bin-nāṣiyah', ayah(96, 15), 'Iqlab in "lanasfa\'am bi"'),
+        ],
+        check: 'quiz',
+        questions: [
+          { prompt: 'Nun sakinah before ب is read as…', options: ['Izhar', 'Iqlab', 'Idgham'], answer: 1 },
+          { prompt: 'Nun sakinah before a throat letter is read with…', options: ['Izhar', 'Ikhfa', 'Iqlab'], answer: 0 },
+          { prompt: 'Which rule applies?', arabic: 'يَكُن لَّهُۥ', options: ['Izhar', 'Idgham', 'Ikhfa'], answer: 1 },
+          { prompt: 'Which rule applies?', arabic: 'مِن شَرِّ', options: ['Ikhfa', 'Izhar', 'Iqlab'], answer: 0 },
+          { prompt: 'Which rule applies?', arabic: 'كُفُوًا أَحَدٌ', options: ['Idgham', 'Izhar', 'Iqlab'], answer: 1 },
+        ],
+      },
+      {
+        id: 'tajweed-mad',
+        levelId: 'tajweed',
+        title: 'Mad (stretching)',
+        notes: [
+          'Natural mad: a long vowel is held for two counts.',
+          'A long vowel before a shaddah or sukun is held longer — up to six counts.',
+        ],
+        items: [
+          ayahItem('mad-malik', 'مَٰلِكِ يَوْمِ ٱلدِّينِ', 'māliki yawmi d-dīn', ayah(1, 4), 'Two counts on "mā"'),
+          ayahItem('mad-dallin', 'غَيْرِ ٱلْمَغْضُوبِ عَلَيْهِمْ وَلَا ٱلضَّآلِّينَ', 'ghayri l-maghḍūbi \'alayhim wa-la ḍ-ḍāllīn', ayah(1, 7), 'Six counts on "ḍāl"'),
+        ],
+        check: 'quiz',
+        questions: [
+          { prompt: 'How long is a natural mad?', options: ['One count', 'Two counts', 'Six counts'], answer: 1 },
+          { prompt: 'How long is the mad in ٱلضَّآلِّينَ?', options: ['Two counts', 'Six counts'], answer: 1 },
+          { prompt: 'Which letter makes a long "ū"?', options: ['ا', 'ي', 'و'], answer: 2 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'juz-amma',
+    number: 6,
+    title: 'Reading Juz \'Amma',
+    description: 'Read the short surahs in the Quran reader',
+    icon: 'book-quran',
+    lessons: [
+      [1, 'Al-Fatihah'],
+      [112, 'Al-Ikhlas'],
+      [113, 'Al-Falaq'],
+      [114, 'An-Nas'],
+      [108, 'Al-Kawthar'],
+      [103, 'Al-\'Asr'],
+      [110, 'An-Nasr'],
+      [111, 'Al-Masad'],
+      [109, 'Al-Kafirun'],
+      [106, 'Quraysh'],
+      [105, 'Al-Fil'],
+      [107, 'Al-Ma\'un'],
+    ].map(([surah, title]) => ({
+      id: `read-${surah}`,
+      levelId: 'juz-amma',
+      title: title as string,
+      notes: [
+        'Listen to each ayah, then read it yourself in the reader.',
+        'Mark the lesson done once you can read the whole surah without help.',
+      ],
+      items: [],
+      check: 'read' as const,
+      surah: surah as number,
+    })),
+  },
+];
+
+/** Every lesson in course order. */
+export const IQRA_LESSONS: IqraLesson[] = IQRA_LEVELS.flatMap((level) => level.lessons);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function getIqraLesson(id: string): IqraLesson | undefined {
+  return IQRA_LESSONS.find((lesson) => lesson.id === id);
+}
+
+export function getIqraLevel(id: string): IqraLevel | undefined {
+  return IQRA_LEVELS.find((level) => level.id === id);
+}
+
+/** First lesson not yet completed, or null when the course is finished. */
+export function getNextIqraLesson(completed: Record<string, unknown>): IqraLesson | null {
+  return IQRA_LESSONS.find((lesson) => !completed[lesson.id]) ?? null;
+}
+
+/** A lesson is open once every lesson before it is complete. */
+export function isIqraLessonUnlocked(lessonId: string, completed: Record<string, unknown>): boolean {
+  const index = IQRA_LESSONS.findIndex((lesson) => lesson.id === lessonId);
+  return index >= 0 && IQRA_LESSONS.slice(0, index).every((lesson) => !!completed[lesson.id]);
+}
+
+/** Stable key for caching resolved audio. */
+export function iqraAudioKey(audio: IqraAudio): string {
+  return audio.type === 'clip' ? `clip:${audio.clip}` : `ayah:${audio.surah}:${audio.ayah}`;
+}
+
+/**
+ * Every drill recording the course plays, once each in course order, with the
+ * text the reciter should read (scripts/iqra builds its clip list from this)
+ */
+export function getIqraClips(): { clip: string; arabic: string; transliteration: string }[] {
+  const clips = new Map<string, { clip: string; arabic: string; transliteration: string }>();
+  IQRA_LESSONS.forEach((lesson) =>
+    lesson.items.forEach(({ audio, arabic, transliteration }) => {
+      if (audio.type === 'clip' && !clips.has(audio.clip)) {
+        clips.set(audio.clip, { clip: audio.clip, arabic, transliteration });
+      }
+    })
+  );
+  return [...clips.values()];
+}
@@ -15,6 +15,9 @@ export {discoverMUISRestaurants} from "./scrapers/muisDiscovery";
 // Restaurant rating backfill (Google Places rating -> restaurant docs)
 export {backfillRestaurantRatings, scheduledRatingBackfill} from "./scrapers/ratingBackfill";
 
+// Prayer-times data health check (prayerTimes{YEAR} collections)
+export {scheduledPrayerTimesHealthCheck, checkPrayerTimesHealth} from "./prayerTimes/healthCheck";
+
 // Utils
 export {migrateRestaurantSchema} from "./utils/migrateRestaurants";
 export {analyzeMUISRestaurants} from "./utils/analyzeMUISRestaurants";
@@ -0,0 +1,131 @@
+/* eslint-disable max-len */
+/**
+ * Astronomical reference for the prayer-times health check
+ *
+ * Server-side copy of the app's on-device calculator
+ * (`api/services/prayer/utils/astronomical.ts`), reduced to the MUIS
+ * parameters for Singapore. Functions cannot import app code, so keep the two
+ * in step when the solar model changes.
+ *
+ * Against the official 2026 MUIS table it is within 2 minutes for every
+ * prayer (`scripts/prayer-times/validate-calculator.mjs`), so a larger
+ * deviation in Firestore points at bad data, not at the model.
+ */
+
+export const PRAYERS = ["subuh", "syuruk", "zohor", "asar", "maghrib", "isyak"] as const;
+export type PrayerKey = typeof PRAYERS[number];
+
+/** Minutes after local midnight for each prayer. */
+export type PrayerMinutes = Record<PrayerKey, number>;
+
+const SINGAPORE = {latitude: 1.3521, longitude: 103.8198};
+const SINGAPORE_UTC_OFFSET = 8;
+
+// MUIS: Fajr 20°, Isha 18°, Shafi Asr, seconds rounded up, +1 min Zohor ihtiyati
+const FAJR_ANGLE = 20;
+const ISHA_ANGLE = 18;
+const ZOHOR_OFFSET_MINUTES = 1;
+
+// Apparent sun altitude at sunrise/sunset (refraction + solar semi-diameter)
+const SUNRISE_ANGLE = 0.833;
+
+const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+const toDeg = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Normalize an angle/hour value into [0, range)
+ * @param {number} value Value to wrap
+ * @param {number} range Upper bound (exclusive)
+ * @return {number} Wrapped value
+ */
+function fix(value: number, range: number): number {
+  const result = value % range;
+  return result < 0 ? result + range : result;
+}
+
+/**
+ * Julian day at 0h UTC for a calendar date
+ * @param {number} year Full year
+ * @param {number} month Month (1-12)
+ * @param {number} day Day of month
+ * @return {number} Julian day
+ */
+function julianDay(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+/**
+ * Sun declination (degrees) and equation of time (hours), low-precision USNO model
+ * @param {number} jd Julian day
+ * @return {{declination: number, equationOfTime: number}} Sun position
+ */
+function sunPosition(jd: number): {declination: number; equationOfTime: number} {
+  const d = jd - 2451545.0;
+  const g = fix(357.529 + 0.98560028 * d, 360);
+  const q = fix(280.459 + 0.98564736 * d, 360);
+  const l = fix(q + 1.915 * Math.sin(toRad(g)) + 0.02 * Math.sin(toRad(2 * g)), 360);
+  const e = 23.439 - 0.00000036 * d;
+
+  const rightAscension = fix(toDeg(Math.atan2(Math.cos(toRad(e)) * Math.sin(toRad(l)), Math.cos(toRad(l)))), 360) / 15;
+  const declination = toDeg(Math.asin(Math.sin(toRad(e)) * Math.sin(toRad(l))));
+  const equationOfTime = fix(q / 15 - rightAscension + 12, 24) - 12;
+
+  return {declination, equationOfTime};
+}
+
+/**
+ * MUIS reference prayer times for Singapore on a calendar date
+ * @param {number} year Full year
+ * @param {number} month Month (1-12)
+ * @param {number} day Day of month
+ * @return {PrayerMinutes} Minutes after local midnight, rounded like MUIS
+ */
+export function referencePrayerMinutes(year: number, month: number, day: number): PrayerMinutes {
+  const {latitude, longitude} = SINGAPORE;
+  const jd = julianDay(year, month, day) - longitude / (15 * 24);
+
+  const position = (hours: number) => sunPosition(jd + hours / 24);
+  const midDay = (hours: number) => fix(12 - position(hours).equationOfTime, 24);
+
+  const sunAngleTime = (angle: number, hours: number, beforeNoon: boolean) => {
+    const {declination} = position(hours);
+    const t = toDeg(Math.acos(
+      (-Math.sin(toRad(angle)) - Math.sin(toRad(declination)) * Math.sin(toRad(latitude))) /
+      (Math.cos(toRad(declination)) * Math.cos(toRad(latitude)))
+    )) / 15;
+    return midDay(hours) + (beforeNoon ? -t : t);
+  };
+
+  const asrTime = (hours: number) => {
+    const {declination} = position(hours);
+    const angle = -toDeg(Math.atan(1 / (1 + Math.tan(toRad(Math.abs(latitude - declination))))));
+    return sunAngleTime(angle, hours, false);
+  };
+
+  let times: Record<PrayerKey, number> = {subuh: 5, syuruk: 6, zohor: 12, asar: 13, maghrib: 18, isyak: 18};
+  for (let i = 0; i < 2; i++) {
+    times = {
+      subuh: sunAngleTime(FAJR_ANGLE, times.subuh, true),
+      syuruk: sunAngleTime(SUNRISE_ANGLE, times.syuruk, true),
+      zohor: midDay(times.zohor),
+      asar: asrTime(times.asar),
+      maghrib: sunAngleTime(SUNRISE_ANGLE, times.maghrib, false),
+      isyak: sunAngleTime(ISHA_ANGLE, times.isyak, false),
+    };
+  }
+
+  const shift = SINGAPORE_UTC_OFFSET - longitude / 15;
+  const result = {} as PrayerMinutes;
+  for (const prayer of PRAYERS) {
+    const offset = prayer === "zohor" ? ZOHOR_OFFSET_MINUTES : 0;
+    // Tolerate floating-point noise so an exact minute isn't rounded up
+    result[prayer] = Math.ceil((times[prayer] + shift) * 60 + offset - 1e-6);
+  }
+  return result;
+}
@@ -0,0 +1,382 @@
+/* eslint-disable max-len */
+/* eslint-disable valid-jsdoc */
+/* eslint-disable require-jsdoc */
+/**
+ * Prayer-times data health check
+ *
+ * The seeder (`scripts/prayer-times/seed-prayer-times.mjs`) validates the MUIS
+ * table once, at write time. This job keeps watching the live
+ * `prayerTimes{YEAR}` collections for the current and next year:
+ *
+ *   - missing, duplicate or malformed days,
+ *   - prayers out of order within a day,
+ *   - day-to-day jumps > 3 min (real Singapore times move ~1 min/day),
+ *   - drift from the astronomical MUIS reference (the old 2026 data was off by
+ *     up to 35 min; the reference itself is within 2 min of MUIS),
+ *   - next year's collection still not seeded from November.
+ *
+ * Each run writes `systemHealth/prayerTimes` (latest) and a dated copy under
+ * its `history` subcollection. Problems are logged at ERROR / WARNING with the
+ * message "Prayer times health check" so a log-based alert can page on them.
+ *
+ * Triggers:
+ *   - scheduledPrayerTimesHealthCheck: daily, 02:30 SGT.
+ *   - checkPrayerTimesHealth: HTTP, for a manual run (?dryRun=true skips the write).
+ */
+
+import * as admin from "firebase-admin";
+import {onRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {logger} from "firebase-functions";
+import {PRAYERS, PrayerKey, referencePrayerMinutes} from "./astronomical";
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const HEALTH_COLLECTION = "systemHealth";
+const HEALTH_DOC = "prayerTimes";
+
+/** Allowed |Firestore - reference| before a day counts as drifted. */
+const DRIFT_TOLERANCE_MINUTES = 3;
+/** Allowed day-to-day change for one prayer (mirrors the seeder). */
+const CONTINUITY_TOLERANCE_MINUTES = 3;
+/** From this month (1-12) on, next year's collection must be seeded. */
+const SEED_DEADLINE_MONTH = 11;
+/** Cap on listed examples per issue, to keep the report doc small. */
+const MAX_EXAMPLES = 20;
+
+const SINGAPORE_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type HealthStatus = "ok" | "warning" | "error";
+
+interface DriftExample {
+  date: string;
+  prayer: PrayerKey;
+  stored: string;
+  reference: string;
+  deviation: number; // minutes, stored - reference
+}
+
+interface ContinuityExample {
+  date: string;
+  prayer: PrayerKey;
+  delta: number;
+}
+
+interface YearHealth {
+  year: number;
+  collection: string;
+  status: HealthStatus;
+  issues: string[];
+  expectedDays: number;
+  docCount: number;
+  missingCount: number;
+  missingDates: string[];
+  duplicateDates: string[];
+  malformed: string[];
+  orderViolations: string[];
+  continuity: ContinuityExample[];
+  driftCount: number;
+  drift: DriftExample[];
+  maxDeviation: Record<PrayerKey, number>; // largest |deviation| per prayer
+}
+
+interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  years: YearHealth[];
+  warnings: string[];
+}
+
+interface ParsedDay {
+  date: string;
+  key: number; // day of year (0-based)
+  minutes: Record<PrayerKey, number>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function daysInYear(year: number): number {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365;
+}
+
+function dayOfYear(year: number, month: number, day: number): number {
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / 86400000);
+}
+
+function dateLabel(year: number, index: number): string {
+  const date = new Date(Date.UTC(year, 0, 1 + index));
+  return `${date.getUTCDate()}/${date.getUTCMonth() + 1}/${year}`;
+}
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+function worst(statuses: HealthStatus[]): HealthStatus {
+  if (statuses.includes("error")) return "error";
+  if (statuses.includes("warning")) return "warning";
+  return "ok";
+}
+
+/** Singapore calendar date for a moment (the collections are SGT days). */
+function singaporeToday(now: Date): {year: number; month: number; day: number} {
+  const sg = new Date(now.getTime() + SINGAPORE_UTC_OFFSET_MS);
+  return {year: sg.getUTCFullYear(), month: sg.getUTCMonth() + 1, day: sg.getUTCDate()};
+}
+
+/**
+ * Parse one `prayerTimes{YEAR}` doc. Returns null when the date or any time is
+ * malformed, or the date belongs to another year.
+ */
+function parseDay(data: FirebaseFirestore.DocumentData, year: number): ParsedDay | null {
+  const match = typeof data.date === "string" ? data.date.match(DATE_PATTERN) : null;
+  if (!match || parseInt(match[3], 10) !== year) return null;
+
+  const month = parseInt(match[2], 10);
+  const day = parseInt(match[1], 10);
+  const key = dayOfYear(year, month, day);
+  if (month < 1 || month > 12 || dateLabel(year, key) !== `${day}/${month}/${year}`) return null;
+
+  const minutes = {} as Record<PrayerKey, number>;
+  for (const prayer of PRAYERS) {
+    const time = data.time?.[prayer];
+    const parts = typeof time === "string" ? time.match(TIME_PATTERN) : null;
+    if (!parts) return null;
+    minutes[prayer] = parseInt(parts[1], 10) * 60 + parseInt(parts[2], 10);
+  }
+
+  return {date: `${day}/${month}/${year}`, key, minutes};
+}
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+/**
+ * Check one year's collection
+ */
+export async function checkPrayerTimesYear(db: admin.firestore.Firestore, year: number): Promise<YearHealth> {
+  const collection = `prayerTimes${year}`;
+  const snapshot = await db.collection(collection).get();
+  const expectedDays = daysInYear(year);
+
+  const health: YearHealth = {
+    year,
+    collection,
+    status: "ok",
+    issues: [],
+    expectedDays,
+    docCount: snapshot.size,
+    missingCount: 0,
+    missingDates: [],
+    duplicateDates: [],
+    malformed: [],
+    orderViolations: [],
+    continuity: [],
+    driftCount: 0,
+    drift: [],
+    maxDeviation: {subuh: 0, syuruk: 0, zohor: 0, asar: 0, maghrib: 0, isyak: 0},
+  };
+
+  const days = new Map<number, ParsedDay>();
+  for (const doc of snapshot.docs) {
+    const parsed = parseDay(doc.data(), year);
+    if (!parsed) {
+      health.malformed.push(doc.data().date ?? doc.id);
+      continue;
+    }
+    if (days.has(parsed.key)) {
+      health.duplicateDates.push(parsed.date);
+      continue;
+    }
+    days.set(parsed.key, parsed);
+  }
+
+  for (let index = 0; index < expectedDays; index++) {
+    const day = days.get(index);
+    if (!day) {
+      health.missingCount++;
+      health.missingDates.push(dateLabel(year, index));
+      continue;
+    }
+
+    // Ordering: subuh < syuruk < zohor < asar < maghrib < isyak
+    const ordered = PRAYERS.every((prayer, i) => i === 0 || day.minutes[prayer] > day.minutes[PRAYERS[i - 1]]);
+    if (!ordered) health.orderViolations.push(day.date);
+
+    // Continuity with the previous day
+    const previous = days.get(index - 1);
+    if (previous) {
+      for (const prayer of PRAYERS) {
+        const delta = Math.abs(day.minutes[prayer] - previous.minutes[prayer]);
+        if (delta > CONTINUITY_TOLERANCE_MINUTES) health.continuity.push({date: day.date, prayer, delta});
+      }
+    }
+
+    // Deviation from the astronomical reference
+    const date = new Date(Date.UTC(year, 0, 1 + index));
+    const reference = referencePrayerMinutes(year, date.getUTCMonth() + 1, date.getUTCDate());
+    let drifted = false;
+    for (const prayer of PRAYERS) {
+      const deviation = day.minutes[prayer] - reference[prayer];
+      health.maxDeviation[prayer] = Math.max(health.maxDeviation[prayer], Math.abs(deviation));
+      if (Math.abs(deviation) > DRIFT_TOLERANCE_MINUTES) {
+        drifted = true;
+        health.drift.push({
+          date: day.date,
+          prayer,
+          stored: formatMinutes(day.minutes[prayer]),
+          reference: formatMinutes(reference[prayer]),
+          deviation,
+        });
+      }
+    }
+    if (drifted) health.driftCount++;
+  }
+
+  // Summaries (errors: data the app would show wrong or not at all)
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (health.docCount === 0) {
+    errors.push(`${collection} is empty`);
+  } else if (health.missingCount > 0) {
+    errors.push(`${health.missingCount} of ${expectedDays} days missing`);
+  }
+  if (health.duplicateDates.length > 0) errors.push(`${health.duplicateDates.length} duplicate days`);
+  if (health.malformed.length > 0) errors.push(`${health.malformed.length} malformed docs`);
+  if (health.orderViolations.length > 0) errors.push(`${health.orderViolations.length} days with prayers out of order`);
+  if (health.driftCount > 0) {
+    const worstPrayer = PRAYERS.reduce((a, b) => (health.maxDeviation[b] > health.maxDeviation[a] ? b : a));
+    errors.push(`${health.driftCount} days drift > ${DRIFT_TOLERANCE_MINUTES} min from the reference (worst: ${worstPrayer} ${health.maxDeviation[worstPrayer]} min)`);
+  }
+  if (health.continuity.length > 0) warnings.push(`${health.continuity.length} day-to-day jumps > ${CONTINUITY_TOLERANCE_MINUTES} min`);
+
+  health.issues = [...errors, ...warnings];
+  health.status = errors.length > 0 ? "error" : warnings.length > 0 ? "warning" : "ok";
+
+  // Keep the stored report small
+  health.missingDates = health.missingDates.slice(0, MAX_EXAMPLES);
+  health.duplicateDates = health.duplicateDates.slice(0, MAX_EXAMPLES);
+  health.malformed = health.malformed.slice(0, MAX_EXAMPLES);
+  health.orderViolations = health.orderViolations.slice(0, MAX_EXAMPLES);
+  health.continuity = health.continuity.slice(0, MAX_EXAMPLES);
+  health.drift = health.drift
+    .sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation))
+    .slice(0, MAX_EXAMPLES);
+
+  return health;
+}
+
+/**
+ * Check the current and next year and build the report.
+ *
+ * An unseeded next year is expected for most of the year; it only becomes a
+ * warning from November (SGT), when the app is weeks from needing it.
+ */
+export async function runPrayerTimesHealthCheck(db: admin.firestore.Firestore, now: Date = new Date()): Promise<HealthReport> {
+  const today = singaporeToday(now);
+  const current = await checkPrayerTimesYear(db, today.year);
+  const next = await checkPrayerTimesYear(db, today.year + 1);
+
+  const warnings: string[] = [];
+  if (next.docCount === 0) {
+    if (today.month >= SEED_DEADLINE_MONTH) {
+      warnings.push(`prayerTimes${today.year + 1} is not seeded yet — run scripts/prayer-times/seed-prayer-times.mjs before 1 January.`);
+      next.status = "warning";
+    } else {
+      // Not due yet: report it without raising the status
+      next.status = "ok";
+      next.issues = [`Not seeded yet (due by ${SEED_DEADLINE_MONTH}/${today.year})`];
+    }
+  }
+
+  return {
+    status: worst([current.status, next.status]),
+    checkedAt: now.toISOString(),
+    years: [current, next],
+    warnings,
+  };
+}
+
+async function writeReport(db: admin.firestore.Firestore, report: HealthReport): Promise<void> {
+  const ref = db.collection(HEALTH_COLLECTION).doc(HEALTH_DOC);
+  const {year, month, day} = singaporeToday(new Date(report.checkedAt));
+  const dateId = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  const data = {...report, updatedAt: admin.firestore.FieldValue.serverTimestamp()};
+
+  await ref.set(data);
+  await ref.collection("history").doc(dateId).set(data);
+}
+
+function logReport(report: HealthReport): void {
+  const summary = {
+    status: report.status,
+    warnings: report.warnings,
+    years: report.years.map((y) => ({year: y.year, status: y.status, issues: y.issues})),
+  };
+  if (report.status === "error") {
+    logger.error("Prayer times health check: data problems found", summary);
+  } else if (report.status === "warning") {
+    logger.warn("Prayer times health check: warnings", summary);
+  } else {
+    logger.info("Prayer times health check: ok", summary);
+  }
+}
+
+// ============================================================================
+// TRIGGERS
+// ============================================================================
+
+/**
+ * Daily health check (02:30 SGT, after the day has rolled over)
+ */
+export const scheduledPrayerTimesHealthCheck = onSchedule(
+  {
+    schedule: "30 2 * * *",
+    timeZone: "Asia/Singapore",
+    timeoutSeconds: 120,
+    memory: "512MiB",
+  },
+  async () => {
+    const db = admin.firestore();
+    const report = await runPrayerTimesHealthCheck(db);
+    await writeReport(db, report);
+    logReport(report);
+  }
+);
+
+/**
+ * Manual run: GET /checkPrayerTimesHealth[?dryRun=true]
+ */
+export const checkPrayerTimesHealth = onRequest(
+  {timeoutSeconds: 120, memory: "512MiB"},
+  async (req, res) => {
+    const db = admin.firestore();
+    const dryRun = req.query.dryRun === "true";
+    try {
+      const report = await runPrayerTimesHealthCheck(db);
+      if (!dryRun) await writeReport(db, report);
+      logReport(report);
+      res.status(200).json({success: true, dryRun, ...report});
+    } catch (err: any) {
+      logger.error("Prayer times health check failed:", err);
+      res.status(500).json({success: false, error: err.message});
+    }
+  }
+);
@@ -17,6 +17,7 @@
 import { useMemo } from 'react';
 import { useRestaurants } from '../../api/services/food';
 import { useLocationStore } from '../../stores/useLocationStore';
+import { useCalculationProfile } from '../../stores/userPreferencesStore';
 
 // ✅ NEW: Import from updated prayer service
 import { useTodayPrayerTimes } from '../../api/services/prayer';
@@ -138,7 +139,8 @@ export const useHeroContent = (): HeroContent => {
   }, [userLocation]);
 
   // ✅ UPDATED: Fetch prayer times using new API
-  const { data: prayerTimes } = useTodayPrayerTimes(locationCoords);
+  const calculationProfile = useCalculationProfile();
+  const { data: prayerTimes } = useTodayPrayerTimes(locationCoords, calculationProfile);
   
   // Generate time-based greeting
   const greeting = useMemo(() => {
@@ -19,8 +19,15 @@ import { Outfit_300Light, Outfit_400Regular, Outfit_500Medium, Outfit_600SemiBol
 import { Amiri_400Regular } from '@expo-google-fonts/amiri';
 import { cache } from '../../api/client/storage';
 import { useLocationStore } from '../../stores/useLocationStore';
+import { usePreferencesStore } from '../../stores/userPreferencesStore';
 import { FontAwesome } from '@expo/vector-icons';
-import { DEFAULT_LOCATION, fetchDailyPrayerTimeFromFirebase, prayerTimeKeys } from '../../api/services/prayer';
+import {
+  DEFAULT_LOCATION,
+  fetchDailyPrayerTimeFromFirebase,
+  hasPrayerTimeAdjustments,
+  prayerTimeKeys,
+  usesOfficialMuisTimes,
+} from '../../api/services/prayer';
 
 // ✅ Import structured logging
 import { createLogger } from '../../services/logging/logger';
@@ -189,12 +196,26 @@ export const useAppInit = (): InitState => {
 
         const today = new Date().toISOString().split('T')[0]; // yyyy-MM-dd
         const location = userLocation?.coords || DEFAULT_LOCATION;
+        const coordinates = { latitude: location.latitude, longitude: location.longitude };
+        const { calculationProfile } = usePreferencesStore.getState();
+
+        // Raw MUIS data only fits the default profile in Singapore; anything
+        // else is resolved by useTodayPrayerTimes on first render.
+        if (
+          !usesOfficialMuisTimes(calculationProfile, coordinates) ||
+          hasPrayerTimeAdjustments(calculationProfile.adjustments)
+        ) {
+          logger.info('Skipping prayer times prefetch - custom calculation profile or location', {
+            method: calculationProfile.method,
+            school: calculationProfile.school,
+          });
+          setPrayerTimesDone(true);
+          logger.timeEnd('prayer-times-prefetch');
+          return;
+        }
         
         // Query key
-        const queryKey = prayerTimeKeys.today({ 
-          latitude: location.latitude, 
-          longitude: location.longitude 
-        });
+        const queryKey = prayerTimeKeys.today(coordinates, calculationProfile);
         
         // Check MMKV cache first
         const cacheKey = `prayer_times_${today}`;
@@ -9,9 +9,12 @@
  * - AdMob initialization
  * - Push notifications
  * - Quran data preloading
- * - iOS widget updates
+ * - Home-screen widget updates (iOS and Android)
+ * - Prayer log outbox replay (offline writes)
+ * - Quran audio download queue (resumes queued downloads)
+ * - Background notification re-plan task
  * 
- * @version 2.1
+ * @version 2.4
  * @since 2025-12-24
  */
 
@@ -31,7 +34,13 @@ import { fetchSurahs } from '../../api/services/quran';
 import { QURAN_QUERY_KEYS } from '../../api/services/quran';
 import { updatePrayerTimesWidget } from '../../utils/widgetBridge';
 import { CACHE_KEYS } from '../../constants/prayer.constants';
-import { fetchMonthlyPrayerTimesFromFirebase } from '../../api/services/prayer';
+import {
+  fetchMonthlyPrayerTimesFromFirebase,
+  prayerQueryKeys,
+  startPrayerLogOutboxSync,
+} from '../../api/services/prayer';
+import { startAudioDownloadQueue } from '../../services/offline/quranAudioDownloadService';
+import { registerNotificationReplanTask } from '../../services/notifications/backgroundReplanTask';
 import { createLogger } from '../../services/logging/logger';
 
 // Category-specific logger
@@ -95,7 +104,10 @@ export const useLazyInit = (isReady: boolean) => {
         initAdMob(),
         initPushNotifications(),
         preloadQuranData(),
-        updateIOSWidget(),
+        updateHomeScreenWidget(),
+        initPrayerLogOutboxSync(),
+        initAudioDownloadQueue(),
+        initNotificationReplanTask(),
       ]);
 
       // Log summary of results
@@ -264,20 +276,20 @@ export const useLazyInit = (isReady: boolean) => {
   };
 
   // ==========================================================================
-  // Task 5: Update iOS Widget
+  // Task 5: Update Home-Screen Widget
   // ==========================================================================
-  const updateIOSWidget = async () => {
-    if (Platform.OS !== 'ios') {
-      logger.debug('Skipping widget update (not iOS)', { 
+  const updateHomeScreenWidget = async () => {
+    if (Platform.OS !== 'ios' && Platform.OS !== 'android') {
+      logger.debug('Skipping widget update (no widget on this platform)', { 
         platform: Platform.OS 
       });
       return;
     }
 
-    logger.time('ios-widget-update');
+    logger.time('widget-update');
     
     try {
-      logger.info('Updating iOS prayer times widget...');
+      logger.info('Updating prayer times widget...', { platform: Platform.OS });
 
       const now = new Date();
       const currentMonth = now.getMonth() + 1; // 1-12
@@ -315,7 +327,7 @@ export const useLazyInit = (isReady: boolean) => {
         
         await updatePrayerTimesWidget(cachedData);
         logger.success('Widget updated successfully (from cache)');
-        logger.timeEnd('ios-widget-update');
+        logger.timeEnd('widget-update');
         return;
       }
 
@@ -342,20 +354,67 @@ export const useLazyInit = (isReady: boolean) => {
         });
         
         logger.success('Widget updated successfully (from network)');
-        logger.timeEnd('ios-widget-update');
+        logger.timeEnd('widget-update');
       } else {
         logger.warn('No monthly data returned from Firebase', {
           year: currentYear,
           month: currentMonth,
         });
-        logger.timeEnd('ios-widget-update');
+        logger.timeEnd('widget-update');
       }
     } catch (err) {
       logger.error('Widget update failed (non-critical)', err, {
         willContinue: 'yes',
-        platform: 'iOS',
+        platform: Platform.OS,
+      });
+      logger.timeEnd('widget-update');
+    }
+  };
+
+  // ==========================================================================
+  // Task 6: Prayer Log Outbox Sync
+  // ==========================================================================
+  const initPrayerLogOutboxSync = async () => {
+    logger.info('Starting prayer log outbox sync...');
+
+    // Runs for the app's lifetime: replays now and on every reconnect
+    startPrayerLogOutboxSync((logs) => {
+      const userIds = new Set(logs.map((log) => log.userId));
+
+      userIds.forEach((userId) => {
+        queryClient.invalidateQueries({ queryKey: prayerQueryKeys.logs.user(userId) });
+        queryClient.invalidateQueries({ queryKey: prayerQueryKeys.stats.user(userId) });
+        queryClient.invalidateQueries({ queryKey: prayerQueryKeys.qadha.ledger(userId) });
+      });
+
+      logger.success('Queued prayer logs synced', {
+        synced: logs.length,
+        users: userIds.size,
+      });
+    });
+  };
+
+  // ==========================================================================
+  // Task 7: Quran Audio Download Queue
+  // ==========================================================================
+  const initAudioDownloadQueue = async () => {
+    logger.info('Resuming Quran audio downloads...');
+
+    // Runs for the app's lifetime: resumes now and whenever the network changes
+    startAudioDownloadQueue();
+  };
+
+  // ==========================================================================
+  // Task 8: Background Notification Re-plan
+  // ==========================================================================
+  const initNotificationReplanTask = async () => {
+    try {
+      logger.info('Registering background notification re-plan...');
+      await registerNotificationReplanTask();
+    } catch (err) {
+      logger.error('Background re-plan registration failed (non-critical)', err, {
+        willContinue: 'yes',
       });
-      logger.timeEnd('ios-widget-update');
     }
   };
 
@@ -0,0 +1,45 @@
+/**
+ * Notification Links Hook
+ *
+ * Opens the in-app route carried in a local notification's `data.url` (e.g.
+ * the Friday khutbah preview) when the user taps it — including the tap that
+ * launched the app. Action buttons (Prayed, Snooze) are handled by the prayer
+ * notification service and never navigate.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { router, type Href } from 'expo-router';
+import { defaultStorage } from '../../api/client/storage';
+import { createLogger } from '../../services/logging/logger';
+
+const logger = createLogger('Notification Links');
+
+// The last tap survives restarts, so remember which one was already opened
+const OPENED_LINK_KEY = 'opened_notification_link';
+
+/**
+ * Navigate to a tapped notification's link
+ *
+ * @param isReady - Wait until the navigator is mounted (app initialised)
+ */
+export function useNotificationLinks(isReady: boolean) {
+  const response = Notifications.useLastNotificationResponse();
+
+  useEffect(() => {
+    if (!isReady || !response) return;
+    if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+
+    const { identifier, content } = response.notification.request;
+    const url = content.data?.url;
+    if (typeof url !== 'string' || !url.startsWith('/')) return;
+    if (defaultStorage.getString(OPENED_LINK_KEY) === identifier) return;
+
+    defaultStorage.setString(OPENED_LINK_KEY, identifier);
+    logger.info('Opening notification link', { url, type: content.data?.type });
+    router.push(url as Href);
+  }, [isReady, response]);
+}
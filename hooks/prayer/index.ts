@@ -16,6 +16,13 @@ export type { PrayerAction } from './usePrayerActions';
 // Prayer times calculation
 export { usePrayerTimesOptimized } from './usePrayerTimesOptimized';
 
+// Ramadan
+export { useFastingCountdown } from './useFastingCountdown';
+
+// Jumaat
+export { useJumaatMosques, useJumaatNotificationConfig } from './useJumaatNotifications';
+export type { JumaatMosque } from './useJumaatNotifications';
+
 // Data fetching
 export {
   usePrayerQuery,
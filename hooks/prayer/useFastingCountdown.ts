@@ -0,0 +1,53 @@
+/**
+ * Fasting Countdown Hook
+ *
+ * Imsak/iftar countdown for Ramadan mode. Returns null outside Ramadan so
+ * callers can render it unconditionally.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { AppState } from 'react-native';
+import type {
+  FastingCountdown,
+  IslamicDateConversion,
+  NormalizedPrayerTimes,
+} from '../../api/services/prayer/types/index';
+import { getFastingCountdown, getRamadanDay } from '../../api/services/prayer/utils/ramadan';
+
+/**
+ * Countdown to imsak (end of sahur) or iftar, refreshed every minute
+ *
+ * @param prayers - Today's prayer times
+ * @param islamicDate - Today's Hijri date (from `useTodayIslamicDate`)
+ * @returns Countdown and the day of Ramadan, or null outside Ramadan
+ */
+export function useFastingCountdown(
+  prayers: NormalizedPrayerTimes | null,
+  islamicDate: IslamicDateConversion | null | undefined
+): (FastingCountdown & { ramadanDay: number }) | null {
+  const [now, setNow] = useState(() => new Date());
+  const ramadanDay = getRamadanDay(islamicDate);
+
+  useEffect(() => {
+    if (!ramadanDay) return;
+
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') setNow(new Date());
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [ramadanDay]);
+
+  return useMemo(() => {
+    if (!prayers || !ramadanDay) return null;
+
+    const countdown = getFastingCountdown(prayers, now);
+    return countdown ? { ...countdown, ramadanDay } : null;
+  }, [prayers, ramadanDay, now]);
+}
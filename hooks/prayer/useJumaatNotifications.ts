@@ -0,0 +1,87 @@
+/**
+ * Jumaat Notification Hooks
+ *
+ * Resolves the Friday notification inputs from the user's Jumaat settings:
+ * the latest khutbah for the morning preview, and the favourite mosque (with a
+ * travel estimate from the user's location) for the leave reminder.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { usePreferencesStore } from '../../stores/userPreferencesStore';
+import { useLocationFavoritesStore, favoriteKey } from '../../stores/useLocationFavoritesStore';
+import { useCoordinates } from '../../stores/useLocationStore';
+import { getMostRecentKhutbah, useKhutbahs } from '../../api/services/khutbah';
+import { calculateDistance, useMosqueLocations, type MosqueLocation } from '../../api/services/musollah';
+import { estimateJumaatTravelMinutes } from '../../api/services/prayer/utils/reminders';
+import type { JumaatNotificationConfig } from '../../services/notifications/prayerNotificationService';
+
+export interface JumaatMosque {
+  mosque: MosqueLocation;
+  distanceKm: number;
+  travelMinutes: number;
+}
+
+/**
+ * The user's favourite mosques with distance and travel time for the chosen
+ * travel mode, nearest first
+ */
+export function useJumaatMosques(): { mosques: JumaatMosque[]; isLoading: boolean } {
+  const favorites = useLocationFavoritesStore((s) => s.favorites);
+  const travelMode = usePreferencesStore((s) => s.jumaatSettings.travelMode);
+  const coordinates = useCoordinates();
+  const { data, isLoading } = useMosqueLocations(null);
+
+  const mosques = useMemo(
+    () =>
+      (data ?? [])
+        .filter((mosque) => favorites.includes(favoriteKey('mosque', mosque.id)))
+        .map((mosque) => {
+          const distanceKm = calculateDistance(coordinates, mosque.coordinates);
+          return { mosque, distanceKm, travelMinutes: estimateJumaatTravelMinutes(distanceKm, travelMode) };
+        })
+        .sort((a, b) => a.distanceKm - b.distanceKm),
+    [data, favorites, coordinates, travelMode]
+  );
+
+  return { mosques, isLoading };
+}
+
+/**
+ * Friday notification config for the prayer scheduler
+ *
+ * @returns Config, or null when both Friday alerts are off
+ */
+export function useJumaatNotificationConfig(): JumaatNotificationConfig | null {
+  const settings = usePreferencesStore((s) => s.jumaatSettings);
+  const { data: khutbahs } = useKhutbahs();
+  const { mosques } = useJumaatMosques();
+
+  return useMemo(() => {
+    const khutbah = khutbahs ? getMostRecentKhutbah(khutbahs) : null;
+    const preview = settings.khutbahPreview
+      ? {
+          atMinutes: settings.previewMinutes,
+          khutbah: khutbah
+            ? { id: khutbah.id, title: khutbah.title, date: khutbah.date, summary: khutbah.summary }
+            : null,
+          language: settings.khutbahLanguage,
+        }
+      : null;
+
+    const target = mosques.find((m) => m.mosque.id === settings.mosqueId);
+    const leave =
+      settings.leaveReminder && target
+        ? {
+            mosqueName: target.mosque.building,
+            travelMode: settings.travelMode,
+            travelMinutes: target.travelMinutes,
+            arriveMinutesBefore: settings.arriveMinutesBefore,
+          }
+        : null;
+
+    return preview || leave ? { preview, leave } : null;
+  }, [settings, khutbahs, mosques]);
+}
@@ -4,10 +4,10 @@
  * ✅ UPDATED: Added structured logging
  * ✅ IMPROVED: Action tracking and navigation monitoring
  * 
- * Provides prayer-related quick actions (Qiblat, Doa, Calendar, etc.)
+ * Provides prayer-related quick actions (Qiblat, Doa, Calendar, Tahlil, etc.)
  * with navigation and callback handling.
  * 
- * @version 2.0
+ * @version 2.1
  * @since 2025-12-24
  */
 
@@ -133,6 +133,11 @@ export const usePrayerActions = ({
         label: 'Khutbah',
         onPress: () => navigateTo('/khutbah', 'Khutbah'),
       },
+      {
+        icon: 'book-quran',
+        label: 'Tahlil',
+        onPress: () => navigateTo('/tahlil', 'Tahlil'),
+      },
     ];
 
     logger.debug('Prayer actions created', {
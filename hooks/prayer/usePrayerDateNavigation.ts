@@ -4,6 +4,7 @@ import { createLogger } from '../../services/logging/logger';
 import { prayerTimeKeys } from '../../api/services/prayer';
 import { useQueryClient } from '@tanstack/react-query';
 import { Coordinates } from '../../api/services/prayer/types/index';
+import { useCalculationProfile } from '../../stores/userPreferencesStore';
 
 interface UsePrayerDateNavigationReturn {
   selectedDate: Date;
@@ -26,6 +27,7 @@ export const usePrayerDateNavigation = (
   const [selectedDate, setSelectedDate] = useState<Date>(initialDate);
 
   const queryClient = useQueryClient();
+  const calculationProfile = useCalculationProfile();
   
   const tomorrow = useMemo(() => {
     const tom = new Date();
@@ -59,12 +61,12 @@ export const usePrayerDateNavigation = (
     
     // ✅ Prefetch using query keys
     queryClient.prefetchQuery({
-      queryKey: prayerTimeKeys.date(location, prevDate),
+      queryKey: prayerTimeKeys.date(location, prevDate, calculationProfile),
     });
     queryClient.prefetchQuery({
-      queryKey: prayerTimeKeys.date(location, nextDate),
+      queryKey: prayerTimeKeys.date(location, nextDate, calculationProfile),
     });
-  }, [formattedDate, queryClient]);
+  }, [formattedDate, queryClient, calculationProfile]);
 
   const goToNextDay = useCallback(() => {
     setSelectedDate(current => {
@@ -1,9 +1,16 @@
-import { useEffect, useRef } from 'react';
-import { AppState, AppStateStatus } from 'react-native';
-import { format } from 'date-fns';
+import { useEffect, useMemo, useRef } from 'react';
+import { format, startOfDay } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
 import { usePreferencesStore } from '../../stores/userPreferencesStore';
+import { useCoordinates } from '../../stores/useLocationStore';
+import { useActiveTravelSession } from '../../stores/useTravelStore';
 import { NormalizedPrayerTimes, LoggablePrayerName } from '../../api/services/prayer/types/index';
+import { getCalculationProfileKey } from '../../api/services/prayer/utils/calculation-profile';
+import { getRamadanDatesAhead, getRamadanDay } from '../../api/services/prayer/utils/ramadan';
+import { useTodayIslamicDate } from '../../api/services/prayer/queries/prayer-times';
+import { prayerQueryKeys } from '../../api/services/prayer/queries/query-keys';
 import { prayerNotificationService } from '../../services/notifications/prayerNotificationService';
+import { useJumaatNotificationConfig } from './useJumaatNotifications';
 import { createLogger } from '../../services/logging/logger';
 
 const logger = createLogger('Prayer Notifications');
@@ -11,6 +18,10 @@ const logger = createLogger('Prayer Notifications');
 /**
  * Hook for scheduling prayer notifications
  * Updated to use new prayer types
+ *
+ * Pushes preference changes to the prayer notification service; the
+ * notification planner re-plans on its own when the app returns to the
+ * foreground.
  */
 export const usePrayerNotifications = (prayerData: NormalizedPrayerTimes | null) => {
   const lastScheduledRef = useRef<string | null>(null);
@@ -18,12 +29,54 @@ export const usePrayerNotifications = (prayerData: NormalizedPrayerTimes | null)
   const mutedNotifications = usePreferencesStore((state) => state.mutedNotifications);
   const reminderInterval = usePreferencesStore((state) => state.reminderInterval);
   const selectedAdhan = usePreferencesStore((state) => state.selectedAdhan);
+  const prayerAdhans = usePreferencesStore((state) => state.prayerAdhans);
+  const customAdhans = usePreferencesStore((state) => state.customAdhans);
   const notificationsEnabled = usePreferencesStore((state) => state.notificationsEnabled);
-  const prayerReminders = usePreferencesStore((state) => state.prayerReminders);
+  const prayerReminderRules = usePreferencesStore((state) => state.prayerReminderRules);
   const silentPrayers = usePreferencesStore((state) => state.silentPrayers);
   const quietHoursEnabled = usePreferencesStore((state) => state.quietHoursEnabled);
   const quietStartMinutes = usePreferencesStore((state) => state.quietStartMinutes);
   const quietEndMinutes = usePreferencesStore((state) => state.quietEndMinutes);
+  const calculationProfile = usePreferencesStore((state) => state.calculationProfile);
+  const ramadanRemindersEnabled = usePreferencesStore((state) => state.ramadanRemindersEnabled);
+  const missedPrayerNudgeEnabled = usePreferencesStore((state) => state.missedPrayerNudgeEnabled);
+  const coordinates = useCoordinates();
+  const travelSessionId = useActiveTravelSession()?.id ?? null;
+
+  // Friday khutbah preview and leave-for-the-mosque reminder
+  const jumaat = useJumaatNotificationConfig();
+  const jumaatKey = jumaat
+    ? [
+        jumaat.preview
+          ? `${jumaat.preview.atMinutes}/${jumaat.preview.language}/${jumaat.preview.khutbah?.id ?? 'none'}`
+          : 'no-preview',
+        jumaat.leave
+          ? `${jumaat.leave.mosqueName}/${jumaat.leave.travelMinutes}/${jumaat.leave.arriveMinutesBefore}`
+          : 'no-leave',
+      ].join('_')
+    : 'no-jumaat';
+
+  // Days in the scheduling window that get sahur/iftar alerts
+  const { data: islamicDate } = useTodayIslamicDate();
+  const ramadanDay = getRamadanDay(islamicDate);
+  const ramadanDatesKey = useMemo(
+    () =>
+      ramadanRemindersEnabled && ramadanDay
+        ? getRamadanDatesAhead(startOfDay(new Date()), ramadanDay, 5).join(',')
+        : '',
+    [ramadanRemindersEnabled, ramadanDay]
+  );
+
+  // Refresh logs when a prayer is marked from the notification's "Prayed" action
+  const queryClient = useQueryClient();
+  useEffect(
+    () =>
+      prayerNotificationService.onPrayerLogged((log) => {
+        queryClient.invalidateQueries({ queryKey: prayerQueryKeys.logs.user(log.userId) });
+        queryClient.invalidateQueries({ queryKey: prayerQueryKeys.stats.user(log.userId) });
+      }),
+    [queryClient]
+  );
 
   useEffect(() => {
     if (!prayerData) {
@@ -61,14 +114,22 @@ export const usePrayerNotifications = (prayerData: NormalizedPrayerTimes | null)
     // Create unique key — include every input that affects scheduling so changes
     // trigger a reschedule.
     const quietKey = quietHoursEnabled ? `${quietStartMinutes}-${quietEndMinutes}` : 'off';
-    const remindersKey = Object.entries(prayerReminders)
+    const remindersKey = Object.entries(prayerReminderRules)
       .sort()
-      .map(([p, m]) => `${p}:${m}`)
+      .map(([p, rules]) => `${p}:${rules.map((r) => `${r.id}/${r.minutesBefore}/${r.weekdays.join('')}/${r.note ?? ''}`).join('+')}`)
       .join(',');
-    const scheduleKey = `${prayerData.date}_${reminderInterval}_${selectedAdhan}_${mutedNotifications
+    const adhansKey = Object.entries(prayerAdhans)
+      .sort()
+      .map(([p, a]) => `${p}:${a}`)
+      .join(',');
+    const customAdhansKey = customAdhans.map((a) => a.id).join(',');
+    const locationKey = `${coordinates.latitude.toFixed(3)},${coordinates.longitude.toFixed(3)}`;
+    const scheduleKey = `${prayerData.date}_${reminderInterval}_${selectedAdhan}_${adhansKey}_${customAdhansKey}_${mutedNotifications
       .slice()
       .sort()
-      .join(',')}_${remindersKey}_${silentPrayers.slice().sort().join(',')}_${quietKey}`;
+      .join(',')}_${remindersKey}_${silentPrayers.slice().sort().join(',')}_${quietKey}_${getCalculationProfileKey(
+      calculationProfile
+    )}_${locationKey}_${travelSessionId ?? 'home'}_${ramadanDatesKey || 'no-ramadan'}_${missedPrayerNudgeEnabled ? 'nudge' : 'no-nudge'}_${jumaatKey}`;
     
     if (lastScheduledRef.current === scheduleKey) {
       logger.debug('Notifications already scheduled');
@@ -89,9 +150,6 @@ export const usePrayerNotifications = (prayerData: NormalizedPrayerTimes | null)
       }
 
       try {
-        logger.debug('Cancelling existing notifications...');
-        await prayerNotificationService.cancelAllNotifications();
-        
         // Validate muted prayers
         const validMutedPrayers = mutedNotifications.filter(
           (name): name is LoggablePrayerName => 
@@ -104,14 +162,20 @@ export const usePrayerNotifications = (prayerData: NormalizedPrayerTimes | null)
           reminderMinutes: reminderInterval,
           mutedPrayers: validMutedPrayers as any,
           selectedAdhan,
-          prayerReminders,
+          prayerAdhans,
+          customAdhans,
+          prayerReminderRules,
           silentPrayers,
           quietHours: {
             enabled: quietHoursEnabled,
             startMinutes: quietStartMinutes,
             endMinutes: quietEndMinutes,
           },
-        });
+          calculationProfile,
+          ramadanDates: ramadanDatesKey ? ramadanDatesKey.split(',') : [],
+          missedPrayerNudge: missedPrayerNudgeEnabled,
+          jumaat,
+        }, coordinates);
 
         if (mounted) {
           logger.success('Notifications scheduled successfully');
@@ -128,32 +192,28 @@ export const usePrayerNotifications = (prayerData: NormalizedPrayerTimes | null)
 
     scheduleNotifications();
 
-    // Re-schedule on app foreground
-    const handleAppStateChange = (nextAppState: AppStateStatus) => {
-      if (mounted && nextAppState === 'active') {
-        const currentToday = format(new Date(), 'yyyy-MM-dd');
-        if (prayerData.date >= currentToday) {
-          logger.info('App resumed, re-scheduling');
-          scheduleNotifications();
-        }
-      }
-    };
-
-    const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => {
       mounted = false;
-      subscription.remove();
     };
   }, [
     prayerData?.date,
     mutedNotifications,
     reminderInterval,
     selectedAdhan,
+    prayerAdhans,
+    customAdhans,
     notificationsEnabled,
-    prayerReminders,
+    prayerReminderRules,
     silentPrayers,
     quietHoursEnabled,
     quietStartMinutes,
     quietEndMinutes,
+    calculationProfile,
+    coordinates.latitude,
+    coordinates.longitude,
+    travelSessionId,
+    ramadanDatesKey,
+    missedPrayerNudgeEnabled,
+    jumaatKey,
   ]);
 };
\ No newline at end of file
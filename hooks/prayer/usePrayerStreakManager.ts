@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import { isYesterday, isToday, differenceInDays, format } from 'date-fns';
-import { PrayerLog } from '../../utils/types/prayer.types';
-import { LOGGABLE_PRAYERS } from '../../constants/prayer.constants';
+import type { PrayerLog } from '../../api/services/prayer/types/index';
+import { keepsPrayerStreak } from '../../api/services/prayer/utils/prayer';
 
 // ============================================================================
 // TYPES
@@ -28,15 +28,11 @@ const DEFAULT_STREAK_INFO: StreakInfo = Object.freeze({
 // ============================================================================
 
 /**
- * Check if prayers object has all prayers completed
+ * Check if a day keeps the streak (all prayed or excused, no qadha/missed)
  * ✅ UPDATED: Now accepts prayers directly, not wrapped in PrayerLog
  */
-const isDayFullyCompleted = (prayers: PrayerLog['prayers'] | undefined): boolean => {
-  if (!prayers) return false;
-  return LOGGABLE_PRAYERS.every(
-    (prayer) => prayers[prayer as keyof PrayerLog['prayers']] === true
-  );
-};
+const isDayFullyCompleted = (prayers: PrayerLog['prayers'] | undefined): boolean =>
+  keepsPrayerStreak(prayers);
 
 /**
  * Get today's date string in YYYY-MM-DD format
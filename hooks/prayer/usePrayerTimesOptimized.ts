@@ -69,7 +69,7 @@ export const usePrayerTimesOptimized = (
       
       // Parse prayer times and find which have passed
       const passedPrayers = prayerOrder.filter(prayer => {
-        const prayerTimeStr = prayers[prayer.toLowerCase() as keyof NormalizedPrayerTimes];
+        const prayerTimeStr = prayers[prayer.toLowerCase() as Lowercase<LocalPrayerName>];
         const [hours, minutes] = prayerTimeStr.split(':').map(Number);
         const prayerTime = new Date();
         prayerTime.setHours(hours, minutes, 0, 0);
@@ -0,0 +1,50 @@
+/**
+ * Audio Download Hooks
+ *
+ * Download state of a surah's recitation for the selected reciter, for the
+ * surah list and the Listen player.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { usePreferencesStore } from '../../stores/userPreferencesStore';
+import {
+  audioDownloadJobId,
+  useAudioDownloadStore,
+  type AudioDownloadJob,
+} from '../../stores/useAudioDownloadStore';
+import { surahMeta } from '../../data/surahMeta';
+
+export type SurahAudioDownloadStatus = 'none' | 'partial' | 'downloaded' | AudioDownloadJob['status'];
+
+export interface SurahAudioDownload {
+  status: SurahAudioDownloadStatus;
+  /** 0–1 */
+  progress: number;
+  job: AudioDownloadJob | null;
+  reciter: string;
+}
+
+/**
+ * Download state of a surah for the selected reciter
+ *
+ * A queued surah download wins; otherwise the state comes from the ayahs
+ * already on disk (including those downloaded as part of a juz).
+ */
+export function useSurahAudioDownload(surahNumber: number): SurahAudioDownload {
+  const reciter = usePreferencesStore((s) => s.reciter);
+  const job = useAudioDownloadStore(
+    (s) => s.jobs.find((j) => j.id === audioDownloadJobId(reciter, 'surah', surahNumber)) ?? null
+  );
+  const downloaded = useAudioDownloadStore((s) => s.downloaded[reciter]?.[surahNumber] ?? 0);
+  const total = surahMeta[surahNumber - 1]?.ayahCount ?? 0;
+
+  if (job) {
+    return { status: job.status, progress: job.total > 0 ? job.done / job.total : 0, job, reciter };
+  }
+
+  const progress = total > 0 ? Math.min(1, downloaded / total) : 0;
+  const status = progress >= 1 ? 'downloaded' : downloaded > 0 ? 'partial' : 'none';
+  return { status, progress, job: null, reciter };
+}
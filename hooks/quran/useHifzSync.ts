@@ -0,0 +1,97 @@
+/**
+ * useHifzSync
+ *
+ * Keeps the hifz tracker in step with the signed-in user's profile when sync
+ * is switched on: merges with the cloud copy on mount, then saves a few
+ * seconds after each change (adding, removing or grading a range). Works
+ * offline — failures are reported and the next change retries.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuthStore } from '../../stores/useAuthStore';
+import { mergeHifzData, useHifzStore, type HifzSyncData } from '../../stores/useHifzStore';
+import { fetchHifzProgress, saveHifzProgress } from '../../api/services/hifz';
+
+const SAVE_DELAY_MS = 3000;
+
+// Shared by every mounted instance, so a sync is never started twice at once.
+let pendingSync: Promise<void> | null = null;
+let lastSynced: HifzSyncData | null = null;
+
+function syncHifz(userId: string): Promise<void> {
+  if (pendingSync) return pendingSync;
+
+  pendingSync = (async () => {
+    const remote = await fetchHifzProgress(userId);
+    const { ranges, removed, reviews, applySyncData } = useHifzStore.getState();
+    const local = { ranges, removed, reviews };
+    const merged = remote ? mergeHifzData(local, remote) : local;
+
+    lastSynced = merged;
+    applySyncData(merged);
+    await saveHifzProgress(userId, merged);
+  })().finally(() => {
+    pendingSync = null;
+  });
+
+  return pendingSync;
+}
+
+export function useHifzSync() {
+  const { user } = useAuthStore();
+  const userId = user?.uid;
+
+  const syncEnabled = useHifzStore((s) => s.syncEnabled);
+  const lastSyncedAt = useHifzStore((s) => s.lastSyncedAt);
+  const ranges = useHifzStore((s) => s.ranges);
+  const removed = useHifzStore((s) => s.removed);
+  const reviews = useHifzStore((s) => s.reviews);
+
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSync = syncEnabled && !!userId;
+
+  const syncNow = useCallback(async () => {
+    if (!userId) return;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      await syncHifz(userId);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not sync your hifz progress.');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userId]);
+
+  // Pull in changes from other devices when the screen opens
+  useEffect(() => {
+    if (canSync) syncNow();
+  }, [canSync, syncNow]);
+
+  // Save local changes, skipping the state a sync just wrote
+  useEffect(() => {
+    if (!canSync) return;
+    if (
+      lastSynced &&
+      lastSynced.ranges === ranges &&
+      lastSynced.removed === removed &&
+      lastSynced.reviews === reviews
+    ) {
+      return;
+    }
+
+    const handler = setTimeout(syncNow, SAVE_DELAY_MS);
+    return () => clearTimeout(handler);
+  }, [canSync, ranges, removed, reviews, syncNow]);
+
+  return {
+    canSync,
+    isSignedIn: !!userId,
+    isSyncing,
+    error,
+    lastSyncedAt,
+    syncNow,
+  };
+}
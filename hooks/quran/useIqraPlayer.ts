@@ -0,0 +1,62 @@
+/**
+ * Iqra Player Hook
+ *
+ * Tap-to-hear playback for Iqra drills: resolves an audio reference and plays
+ * it on a single expo-audio player, so each tap replaces the previous sound.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { setAudioModeAsync, useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
+
+import { useIqraAudioResolver } from '../../api/services/iqra';
+import { iqraAudioKey, type IqraAudio } from '../../data/iqraCourse';
+import { createLogger } from '../../services/logging/logger';
+
+const logger = createLogger('Iqra Player');
+
+export function useIqraPlayer() {
+  const resolve = useIqraAudioResolver();
+  const player = useAudioPlayer(null);
+  const status = useAudioPlayerStatus(player);
+
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [loadingKey, setLoadingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drills should be audible with the ringer off
+  useEffect(() => {
+    setAudioModeAsync({ playsInSilentMode: true, shouldPlayInBackground: false }).catch((e) =>
+      logger.error('Failed to configure audio mode', e as Error)
+    );
+  }, []);
+
+  const play = useCallback(
+    async (audio: IqraAudio) => {
+      const key = iqraAudioKey(audio);
+      setLoadingKey(key);
+      setError(null);
+      try {
+        const uri = await resolve(audio);
+        player.replace({ uri });
+        player.play();
+        setActiveKey(key);
+      } catch (e: any) {
+        logger.warn('Iqra audio failed', { key, error: e.message });
+        setError(e.message);
+      } finally {
+        setLoadingKey(null);
+      }
+    },
+    [player, resolve]
+  );
+
+  return {
+    play,
+    playingKey: status.playing ? activeKey : null,
+    loadingKey,
+    error,
+  };
+}
@@ -6,8 +6,9 @@
  * 
  * Manages Quran audio playback using TrackPlayer.
  * Handles track setup, playback, and ayah progress tracking.
+ * Plays downloaded ayahs from disk and streams the rest.
  * 
- * @version 2.0
+ * @version 2.1
  * @since 2025-12-24
  */
 
@@ -16,6 +17,7 @@ import TrackPlayer, { Event, RepeatMode, Track, type PlaybackTrackChangedEvent }
 import { useQuranStore } from '../../stores/useQuranStore';
 import { useHifzStore, REPEAT_INFINITE } from '../../stores/useHifzStore';
 import { reciterOptions } from '../../utils/constants';
+import { getLocalAyahAudioUri, toReciterAudioUrl } from '../../services/offline/quranAudioDownloadService';
 
 // ✅ Import structured logging
 import { createLogger } from '../../services/logging/logger';
@@ -109,8 +111,11 @@ export function useQuranAudioPlayer({
   const generateTracks = useCallback((): Track[] => {
     logger.time('generate-tracks');
     
+    let localCount = 0;
     const tracks = audioLinks.map((link, index) => {
-      const url = link.replace('ar.alafasy', reciter).trim();
+      const localUri = getLocalAyahAudioUri(reciter, surahNumber, index + 1);
+      if (localUri) localCount++;
+      const url = localUri ?? toReciterAudioUrl(link, reciter);
       const reciterLabel =
         reciterOptions.find(opt => opt.value === reciter)?.label || 'Unknown Reciter';
 
@@ -125,6 +130,7 @@ export function useQuranAudioPlayer({
     logger.timeEnd('generate-tracks');
     logger.debug('Tracks generated', {
       count: tracks.length,
+      localCount,
       reciter: reciterOptions.find(opt => opt.value === reciter)?.label,
       firstTrackUrl: tracks[0]?.url,
     });
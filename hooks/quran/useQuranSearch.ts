@@ -1,22 +1,27 @@
 /**
  * useQuranSearch
  *
- * Builds a full-text search index across all 6236 ayahs by loading all 114 surahs
- * in parallel via TanStack Query's useQueries. Each surah checks MMKV cache first
- * (permanent TTL), so after the first load everything is instant.
+ * Searches the persistent Quran search index (see services/search/quranSearchIndex):
+ * Arabic with normalisation and optional root matching, the English translation
+ * with stemming, and the selected translations and transliteration. The index
+ * is built once from the cached surahs and loaded from disk afterwards.
  *
- * Returns search results ranked by position in the Quran (surah → ayah order).
+ * Results are ranked and paginated; references such as "2:255" or
+ * "al-baqarah 255" are recognised so the screen can jump straight to the ayah.
  */
 
-import { useQueries } from '@tanstack/react-query';
-import { useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { EDITIONS, parseAyahReference, useSurahs } from '../../api/services/quran';
+import { defaultStorage } from '../../api/client/storage';
+import { surahMeta } from '../../data/surahMeta';
+import { usePreferencesStore } from '../../stores/userPreferencesStore';
 import {
-  fetchSurahWithTranslation,
-  QURAN_QUERY_KEYS,
-  useSurahs,
-  SurahWithTranslation,
-  TOTAL_SURAHS,
-} from '../../api/services/quran';
+  getLoadedQuranSearchIndex,
+  getMatchedText,
+  loadQuranSearchIndex,
+  searchQuranIndex,
+  type QuranSearchIndex,
+} from '../../services/search/quranSearchIndex';
 
 export interface SearchResult {
   surahNumber: number;
@@ -25,84 +30,126 @@ export interface SearchResult {
   ayahNumber: number;
   arabic: string;
   translation: string;
+  /** Texts of the other selected editions (incl. transliteration), by edition id */
+  editions: Record<string, string>;
+  /** The text the query matched (the Arabic for Arabic queries) */
+  match: { edition: string; text: string };
 }
 
-const MAX_RESULTS = 50;
+const PAGE_SIZE = 20;
+const ROOT_MATCH_KEY = 'quran-search-root-match';
 
 export function useQuranSearch() {
   const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [rootMatch, setRootMatchState] = useState<boolean>(
+    () => defaultStorage.getBoolean(ROOT_MATCH_KEY) ?? false
+  );
 
   const { data: surahs = [] } = useSurahs();
+  const quranTranslations = usePreferencesStore((s) => s.quranTranslations);
+  const showTransliteration = usePreferencesStore((s) => s.showTransliteration);
 
-  // Load all 114 surahs in parallel.
-  // fetchSurahWithTranslation checks MMKV cache first, then Firestore.
-  // TanStack Query's gcTime: Infinity keeps them in memory for the session.
-  const surahQueries = useQueries({
-    queries: Array.from({ length: TOTAL_SURAHS }, (_, i) => ({
-      queryKey: QURAN_QUERY_KEYS.surahWithTranslation(i + 1),
-      queryFn: (): Promise<SurahWithTranslation> => fetchSurahWithTranslation(i + 1),
-      staleTime: Infinity,
-      gcTime: Infinity,
-    })),
-  });
-
-  const loadedCount = useMemo(
-    () => surahQueries.filter((q) => !!q.data).length,
-    [surahQueries]
+  const extraEditions = useMemo(
+    () => [
+      ...(showTransliteration ? [EDITIONS.TRANSLITERATION] : []),
+      ...quranTranslations.filter((edition) => edition !== EDITIONS.ENGLISH),
+    ],
+    [quranTranslations, showTransliteration]
   );
 
-  const isIndexing = loadedCount < TOTAL_SURAHS;
-
-  // Flat search index — rebuilt only when loadedCount increases
-  const searchIndex = useMemo<SearchResult[]>(() => {
-    const index: SearchResult[] = [];
+  // ---- Index: from memory, disk, or built on first use
+  const [index, setIndex] = useState<QuranSearchIndex | null>(() =>
+    getLoadedQuranSearchIndex(extraEditions)
+  );
+  const [indexProgress, setIndexProgress] = useState(0);
+  const [indexError, setIndexError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
 
-    surahQueries.forEach((q, i) => {
-      if (!q.data) return;
-      const meta = surahs.find((s) => s.number === i + 1);
-      const { arabic, translation } = q.data;
+  useEffect(() => {
+    let cancelled = false;
+    const inMemory = getLoadedQuranSearchIndex(extraEditions);
+    setIndex(inMemory);
+    if (inMemory) return;
 
-      translation.ayahs.forEach((ayah, ayahIdx) => {
-        index.push({
-          surahNumber: i + 1,
-          surahName: meta?.englishName ?? `Surah ${i + 1}`,
-          surahNameTranslation: meta?.englishNameTranslation ?? '',
-          ayahNumber: ayahIdx + 1,
-          arabic: arabic.ayahs[ayahIdx]?.text ?? '',
-          translation: ayah.text,
-        });
+    setIndexError(null);
+    setIndexProgress(0);
+    loadQuranSearchIndex(extraEditions, (progress) => {
+      if (!cancelled) setIndexProgress(progress);
+    })
+      .then((loaded) => {
+        if (!cancelled) setIndex(loaded);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setIndexError(
+            error instanceof Error ? error.message : 'Could not build the search index'
+          );
+        }
       });
-    });
 
-    return index;
+    return () => {
+      cancelled = true;
+    };
+  }, [extraEditions, attempt]);
+
+  const retryIndex = useCallback(() => setAttempt((n) => n + 1), []);
+
+  const setRootMatch = useCallback((value: boolean) => {
+    defaultStorage.setBoolean(ROOT_MATCH_KEY, value);
+    setRootMatchState(value);
+  }, []);
+
+  // ---- Search
+  const reference = useMemo(() => parseAyahReference(query), [query]);
+
+  const hits = useMemo(() => {
+    if (!index || query.trim().length < 2) return [];
+    return searchQuranIndex(index, query, { rootMatch });
+  }, [index, query, rootMatch]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [hits]);
+
+  const results = useMemo<SearchResult[]>(
+    () =>
+      hits.slice(0, page * PAGE_SIZE).map(({ ayah }) => {
+        const meta = surahs.find((s) => s.number === ayah.surahNumber);
+        return {
+          surahNumber: ayah.surahNumber,
+          surahName: meta?.englishName ?? surahMeta[ayah.surahNumber - 1]?.name ?? `Surah ${ayah.surahNumber}`,
+          surahNameTranslation: meta?.englishNameTranslation ?? '',
+          ayahNumber: ayah.ayahNumber,
+          arabic: ayah.arabic,
+          translation: ayah.translation,
+          editions: ayah.editions,
+          match: getMatchedText(ayah, query),
+        };
+      }),
+    // query is only read for the matched text, which follows hits
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [loadedCount, surahs]);
-
-  // Search — keyword match on translation + surah name
-  const results = useMemo<SearchResult[]>(() => {
-    const q = query.trim().toLowerCase();
-    if (q.length < 2) return [];
-
-    const matched: SearchResult[] = [];
-    for (const item of searchIndex) {
-      if (matched.length >= MAX_RESULTS) break;
-      if (
-        item.translation.toLowerCase().includes(q) ||
-        item.surahName.toLowerCase().includes(q) ||
-        item.surahNameTranslation.toLowerCase().includes(q)
-      ) {
-        matched.push(item);
-      }
-    }
-    return matched;
-  }, [query, searchIndex]);
+    [hits, page, surahs]
+  );
+
+  const hasMore = results.length < hits.length;
+  const loadMore = useCallback(() => {
+    if (hasMore) setPage((p) => p + 1);
+  }, [hasMore]);
 
   return {
     query,
     setQuery,
     results,
-    isIndexing,
-    indexProgress: loadedCount / TOTAL_SURAHS,
-    loadedCount,
+    totalResults: hits.length,
+    hasMore,
+    loadMore,
+    reference,
+    rootMatch,
+    setRootMatch,
+    isIndexing: !index && !indexError,
+    indexProgress,
+    indexError,
+    retryIndex,
   };
 }
@@ -0,0 +1,26 @@
+import { useQueries } from '@tanstack/react-query';
+import { QURAN_QUERY_KEYS, isValidSurahNumber } from '../../api/services/quran';
+import { fetchSurahEdition } from '../../api/services/quran/translations';
+
+/**
+ * Ayah texts of a surah in each of the given editions, keyed by edition id.
+ * Editions still loading (or that failed) are missing from the result.
+ */
+export function useSurahEditions(surahNumber: number, editions: string[]): Record<string, string[]> {
+  return useQueries({
+    queries: editions.map((edition) => ({
+      queryKey: QURAN_QUERY_KEYS.surahEdition(surahNumber, edition),
+      queryFn: () => fetchSurahEdition(surahNumber, edition),
+      staleTime: Infinity,
+      gcTime: Infinity,
+      enabled: isValidSurahNumber(surahNumber),
+    })),
+    combine: (results) => {
+      const texts: Record<string, string[]> = {};
+      results.forEach((result, i) => {
+        if (result.data) texts[editions[i]] = result.data;
+      });
+      return texts;
+    },
+  });
+}
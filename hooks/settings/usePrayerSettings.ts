@@ -5,16 +5,39 @@
  * ✅ IMPROVED: Audio preview tracking and settings monitoring
  * 
  * Business logic for prayer settings screen.
- * Handles time format, reminders, adhan selection, and notifications.
+ * Handles time format, reminders (several per prayer, with weekday
+ * filters), adhan selection (per prayer, including
+ * imported sounds), notifications, Friday (Jumaat) alerts, daily Quran and
+ * dhikr reminders and the prayer calculation profile (method, Asr school,
+ * high latitudes, adjustments).
  * 
- * @version 2.0
+ * @version 2.6
  * @since 2025-12-24
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'expo-router';
 import { setAudioModeAsync, useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
-import { usePreferencesStore, type AdhanSelection } from '../../stores/userPreferencesStore';
+import {
+  usePreferencesStore,
+  type AdhanSelection,
+  type CustomAdhan,
+} from '../../stores/userPreferencesStore';
+import {
+  CUSTOM_ADHAN_SUPPORTED,
+  deleteCustomAdhan,
+  findCustomAdhan,
+  getCustomAdhanFile,
+  importCustomAdhan,
+  toCustomAdhanSelection,
+} from '../../services/notifications/customAdhanSounds';
+import { useJumaatMosques } from '../prayer/useJumaatNotifications';
+import { PRAYER_ADJUSTMENT_LIMIT } from '../../api/services/prayer/types/constants';
+import type {
+  LoggablePrayerName,
+  PrayerCalculationProfile,
+  PrayerTimeOffsets,
+} from '../../api/services/prayer/types/index';
 
 // ✅ Import structured logging
 import { createLogger } from '../../services/logging/logger';
@@ -27,23 +50,41 @@ const logger = createLogger('Prayer Settings');
 // ============================================================================
 
 export type AdhanOption = {
-  id: number;
-  label: 'None' | 'Ahmad Al-Nafees' | 'Mishary Rashid Alafasy';
+  id: string;
+  label: string;
+  selection: AdhanSelection;
   file: any; // AudioSource-compatible (require(...) or { uri })
+  custom?: CustomAdhan; // set for sounds imported by the user
 };
 
 export const ADHAN_OPTIONS: AdhanOption[] = [
-  { id: 1, label: 'None', file: null },
-  { id: 2, label: 'Ahmad Al-Nafees', file: require('../../assets/adhans/ahmadAlNafees.mp3') },
-  { id: 3, label: 'Mishary Rashid Alafasy', file: require('../../assets/adhans/mishary.mp3') },
+  { id: 'none', label: 'None', selection: 'None', file: null },
+  {
+    id: 'ahmad',
+    label: 'Ahmad Al-Nafees',
+    selection: 'Ahmad Al-Nafees',
+    file: require('../../assets/adhans/ahmadAlNafees.mp3'),
+  },
+  {
+    id: 'mishary',
+    label: 'Mishary Rashid Alafasy',
+    selection: 'Mishary Rashid Alafasy',
+    file: require('../../assets/adhans/mishary.mp3'),
+  },
 ];
 
-// Map UI label -> store enum
-const labelToSelection: Record<AdhanOption['label'], AdhanSelection> = {
-  None: 'None',
-  'Ahmad Al-Nafees': 'Ahmad Al-Nafees',
-  'Mishary Rashid Alafasy': 'Mishary Rashid Alafasy',
-};
+/** Which adhan is being edited: the default, or one prayer's override. */
+export type AdhanTarget = 'default' | LoggablePrayerName;
+
+/**
+ * Display name for an adhan selection (imported sounds show their name, or
+ * the default sound they play on Android)
+ */
+export function getAdhanLabel(selection: AdhanSelection, customAdhans: CustomAdhan[]): string {
+  const custom = findCustomAdhan(selection, customAdhans);
+  if (custom && !CUSTOM_ADHAN_SUPPORTED) return 'None';
+  return custom?.name ?? selection;
+}
 
 // ============================================================================
 // HOOK
@@ -60,10 +101,15 @@ export function usePrayerSettings() {
 
   // Modal state
   const [isReminderPickerVisible, setIsReminderPickerVisible] = useState(false);
+  const [isMethodPickerVisible, setIsMethodPickerVisible] = useState(false);
 
   // Audio state (expo-audio)
   const [previewSource, setPreviewSource] = useState<any | null>(null);
-  const [previewOptionId, setPreviewOptionId] = useState<number | null>(null);
+  const [previewOptionId, setPreviewOptionId] = useState<string | null>(null);
+
+  // Adhan being edited and import progress
+  const [adhanTarget, setAdhanTarget] = useState<AdhanTarget>('default');
+  const [isImportingAdhan, setIsImportingAdhan] = useState(false);
 
   // Create a player that rebinds when source changes
   const player = useAudioPlayer(previewSource);
@@ -76,24 +122,46 @@ export function usePrayerSettings() {
     timeFormat,
     reminderInterval,
     selectedAdhan,
+    prayerAdhans,
+    customAdhans,
     mutedNotifications,
     notificationsEnabled,
-    prayerReminders,
+    prayerReminderRules,
     silentPrayers,
     quietHoursEnabled,
     quietStartMinutes,
     quietEndMinutes,
+    ramadanRemindersEnabled,
+    missedPrayerNudgeEnabled,
+    calculationProfile,
+    jumaatSettings,
+    dailyReminders,
     toggleTimeFormat,
     setReminderInterval,
     setSelectedAdhan,
+    setPrayerAdhan,
+    addCustomAdhan,
+    removeCustomAdhan,
     toggleNotificationForPrayer,
     setNotificationsEnabled,
-    setPrayerReminder,
+    addPrayerReminderRule,
+    removePrayerReminderRule,
+    resetPrayerReminderRules,
     togglePrayerSilent,
     setQuietHoursEnabled,
     setQuietHours,
+    setRamadanRemindersEnabled,
+    setMissedPrayerNudgeEnabled,
+    setJumaatSettings,
+    setDailyReminder,
+    setCalculationProfile,
+    setPrayerAdjustment,
+    resetCalculationProfile,
   } = usePreferencesStore();
 
+  // Favourite mosques for the Jumaat leave reminder
+  const { mosques: jumaatMosques } = useJumaatMosques();
+
   // ✅ Log hook initialization
   useEffect(() => {
     logger.info('Prayer settings hook mounted', {
@@ -225,6 +293,66 @@ export function usePrayerSettings() {
     setNotificationsEnabled(!notificationsEnabled);
   }, [notificationsEnabled, setNotificationsEnabled]);
 
+  // ============================================================================
+  // CALCULATION PROFILE
+  // ============================================================================
+
+  const handleCalculationMethodChange = useCallback(
+    (method: number) => {
+      logger.info('Calculation method changed', {
+        from: calculationProfile.method,
+        to: method,
+      });
+      setCalculationProfile({ method });
+    },
+    [setCalculationProfile, calculationProfile.method]
+  );
+
+  const handleSchoolChange = useCallback(
+    (school: PrayerCalculationProfile['school']) => {
+      logger.info('Asr school changed', { from: calculationProfile.school, to: school });
+      setCalculationProfile({ school });
+    },
+    [setCalculationProfile, calculationProfile.school]
+  );
+
+  const handleHighLatitudeRuleChange = useCallback(
+    (highLatitudeRule: PrayerCalculationProfile['highLatitudeRule']) => {
+      logger.info('High latitude rule changed', {
+        from: calculationProfile.highLatitudeRule,
+        to: highLatitudeRule,
+      });
+      setCalculationProfile({ highLatitudeRule });
+    },
+    [setCalculationProfile, calculationProfile.highLatitudeRule]
+  );
+
+  /** Nudge one prayer's adjustment by `delta` minutes, clamped to ±PRAYER_ADJUSTMENT_LIMIT. */
+  const adjustPrayerTime = useCallback(
+    (prayer: keyof PrayerTimeOffsets, delta: number) => {
+      const current = calculationProfile.adjustments[prayer] ?? 0;
+      const next = Math.max(
+        -PRAYER_ADJUSTMENT_LIMIT,
+        Math.min(PRAYER_ADJUSTMENT_LIMIT, current + delta)
+      );
+      if (next === current) return;
+      setPrayerAdjustment(prayer, next);
+    },
+    [calculationProfile.adjustments, setPrayerAdjustment]
+  );
+
+  const openMethodPicker = useCallback(() => {
+    logger.debug('Opening calculation method picker', {
+      currentMethod: calculationProfile.method,
+    });
+    setIsMethodPickerVisible(true);
+  }, [calculationProfile.method]);
+
+  const closeMethodPicker = useCallback(() => {
+    logger.debug('Closing calculation method picker');
+    setIsMethodPickerVisible(false);
+  }, []);
+
   // ============================================================================
   // ADHAN SELECTION
   // ============================================================================
@@ -249,7 +377,7 @@ export function usePrayerSettings() {
   }, [player, previewOptionId]);
 
   const playAdhanPreview = useCallback(
-    (file: any, optionId: number) => {
+    (file: any, optionId: string) => {
       // None selected
       if (!file) {
         logger.debug('Adhan set to None (no preview)');
@@ -291,20 +419,88 @@ export function usePrayerSettings() {
     [player, previewOptionId, stopCurrentSound]
   );
 
+  // Imported sounds cannot play on Android, so they are not offered there
+  const adhanOptions = useMemo(
+    (): AdhanOption[] => [
+      ...ADHAN_OPTIONS,
+      ...(CUSTOM_ADHAN_SUPPORTED ? customAdhans : []).map((custom) => ({
+        id: `custom-${custom.id}`,
+        label: custom.name,
+        selection: toCustomAdhanSelection(custom.id),
+        file: { uri: getCustomAdhanFile(custom).uri },
+        custom,
+      })),
+    ],
+    [customAdhans]
+  );
+
+  // Selection for the adhan being edited (null = prayer follows the default)
+  const targetAdhan: AdhanSelection | null =
+    adhanTarget === 'default' ? selectedAdhan : prayerAdhans[adhanTarget] ?? null;
+
   const handleAdhanSelect = useCallback(
     (option: AdhanOption) => {
-      const selection = labelToSelection[option.label];
-      
       logger.info('Adhan selected', {
         optionId: option.id,
         label: option.label,
-        selection,
+        selection: option.selection,
+        target: adhanTarget,
       });
       
-      setSelectedAdhan(selection);
+      if (adhanTarget === 'default') {
+        setSelectedAdhan(option.selection);
+      } else {
+        setPrayerAdhan(adhanTarget, option.selection);
+      }
       playAdhanPreview(option.file, option.id);
     },
-    [setSelectedAdhan, playAdhanPreview]
+    [adhanTarget, setSelectedAdhan, setPrayerAdhan, playAdhanPreview]
+  );
+
+  /** Make the prayer being edited follow the default adhan again. */
+  const clearPrayerAdhan = useCallback(() => {
+    if (adhanTarget === 'default') return;
+    logger.info('Per-prayer adhan cleared', { prayer: adhanTarget });
+    setPrayerAdhan(adhanTarget, null);
+    stopCurrentSound();
+  }, [adhanTarget, setPrayerAdhan, stopCurrentSound]);
+
+  /**
+   * Import a WAV and select it for the adhan being edited
+   *
+   * @returns Whether the clip was trimmed, or null if the picker was dismissed
+   * @throws {CustomAdhanError} When the file cannot be used as an adhan
+   */
+  const handleImportAdhan = useCallback(async (): Promise<{ trimmed: boolean } | null> => {
+    setIsImportingAdhan(true);
+    try {
+      const result = await importCustomAdhan();
+      if (!result) return null;
+
+      addCustomAdhan(result.adhan);
+      const selection = toCustomAdhanSelection(result.adhan.id);
+      if (adhanTarget === 'default') {
+        setSelectedAdhan(selection);
+      } else {
+        setPrayerAdhan(adhanTarget, selection);
+      }
+      return { trimmed: result.trimmed };
+    } finally {
+      setIsImportingAdhan(false);
+    }
+  }, [adhanTarget, addCustomAdhan, setSelectedAdhan, setPrayerAdhan]);
+
+  const handleDeleteCustomAdhan = useCallback(
+    (custom: CustomAdhan) => {
+      if (previewOptionId === `custom-${custom.id}`) stopCurrentSound();
+      removeCustomAdhan(custom.id);
+      try {
+        deleteCustomAdhan(custom);
+      } catch (e) {
+        logger.error('Failed to delete custom adhan file', e as Error, { id: custom.id });
+      }
+    },
+    [previewOptionId, stopCurrentSound, removeCustomAdhan]
   );
 
   // ============================================================================
@@ -327,32 +523,73 @@ export function usePrayerSettings() {
     selectedAdhan,
     mutedNotifications,
     notificationsEnabled,
-    prayerReminders,
+    prayerReminderRules,
     silentPrayers,
     quietHoursEnabled,
     quietStartMinutes,
     quietEndMinutes,
+    ramadanRemindersEnabled,
+    missedPrayerNudgeEnabled,
     isReminderPickerVisible,
 
+    // State - Jumaat
+    jumaatSettings,
+    jumaatMosques,
+
+    // State - Daily reminders
+    dailyReminders,
+
+    // State - Calculation
+    calculationProfile,
+    isMethodPickerVisible,
+
     // State - Adhan
-    adhanOptions: ADHAN_OPTIONS,
+    adhanOptions,
+    adhanTarget,
+    targetAdhan,
+    prayerAdhans,
+    selectedAdhanLabel: getAdhanLabel(selectedAdhan, customAdhans),
     isPlayingAdhan,
+    isImportingAdhan,
 
     // Actions - General
     handleTimeFormatToggle,
     handleReminderIntervalChange,
     handleToggleNotification,
     handleToggleNotificationsEnabled,
-    setPrayerReminder,
+    addPrayerReminderRule,
+    removePrayerReminderRule,
+    resetPrayerReminderRules,
     togglePrayerSilent,
     setQuietHoursEnabled,
     setQuietHours,
+    setRamadanRemindersEnabled,
+    setMissedPrayerNudgeEnabled,
     navigateToAdhanSelection,
     openReminderPicker,
     closeReminderPicker,
 
+    // Actions - Jumaat
+    setJumaatSettings,
+
+    // Actions - Daily reminders
+    setDailyReminder,
+
+    // Actions - Calculation
+    handleCalculationMethodChange,
+    handleSchoolChange,
+    handleHighLatitudeRuleChange,
+    adjustPrayerTime,
+    resetCalculationProfile,
+    openMethodPicker,
+    closeMethodPicker,
+
     // Actions - Adhan
     handleAdhanSelect,
+    setAdhanTarget,
+    clearPrayerAdhan,
+    handleImportAdhan,
+    handleDeleteCustomAdhan,
     stopCurrentSound,
   };
 }
\ No newline at end of file
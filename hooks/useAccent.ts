@@ -15,7 +15,7 @@
 
 import { useMemo } from 'react';
 import { useTheme } from '../context/ThemeContext';
-import { useSkyAccentEnabled } from '../stores/userPreferencesStore';
+import { useCalculationProfile, useSkyAccentEnabled } from '../stores/userPreferencesStore';
 import { useCoordinates } from '../stores/useLocationStore';
 import { useTodayPrayerTimes } from '../api/services/prayer';
 import { useSkyPhase, SkyPrayerTimes } from './prayer/useSkyPhase';
@@ -33,8 +33,9 @@ export function useAccent(skyTimesOverride?: SkyPrayerTimes | null): AccentInfo
   const { theme } = useTheme();
   const useSky = useSkyAccentEnabled();
   const coordinates = useCoordinates();
+  const calculationProfile = useCalculationProfile();
   // Shared/cached query — multiple callers (tab bar, screens) dedupe on the key.
-  const { data: today } = useTodayPrayerTimes(coordinates);
+  const { data: today } = useTodayPrayerTimes(coordinates, calculationProfile);
 
   const skyTimes = useMemo<SkyPrayerTimes | null>(() => {
     // An explicit override (incl. null) wins — keeps the prayer home in sync with
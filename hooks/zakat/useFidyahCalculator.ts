@@ -6,12 +6,15 @@
  * 
  * Business logic for Fidyah (missed fasts) calculator.
  * Calculates payment based on $1.40 per day rate.
+ * Day counts can be pre-filled from the Ramadan fasting log.
  * 
- * @version 2.0
+ * @version 2.1
  * @since 2025-12-24
  */
 
 import { useState, useMemo, useEffect } from 'react';
+import { useFastingStore } from '../../stores/useFastingStore';
+import { summarizeFastingLog } from '../../api/services/prayer/utils/ramadan';
 
 // ✅ Import structured logging
 import { createLogger } from '../../services/logging/logger';
@@ -30,6 +33,11 @@ export interface FidyahCalculation {
   grandTotal: number;
 }
 
+/**
+ * Missed fasts from the fasting log, grouped into fidyah categories
+ */
+export type FidyahLoggedDays = Record<FidyahCategory, number> & { total: number };
+
 /**
  * Hook for Fidyah calculator
  * Calculates payment for missed fasts across 3 categories
@@ -40,6 +48,22 @@ export function useFidyahCalculator() {
   const [daysHaidOther, setDaysHaidOther] = useState<string>('');
   const [daysIllnessOldAge, setDaysIllnessOldAge] = useState<string>('');
   const [daysPregnancyFeeding, setDaysPregnancyFeeding] = useState<string>('');
+  const fastingLog = useFastingStore((state) => state.log);
+
+  // Unfasted days from the Ramadan log (unexcused misses count with haid/other)
+  const loggedDays = useMemo((): FidyahLoggedDays => {
+    const { missed, excused } = summarizeFastingLog(fastingLog);
+    const haidOther = excused.haid + excused.travel + excused.other + missed;
+    const illnessOldAge = excused.illness + excused.old_age;
+    const pregnancyFeeding = excused.pregnancy + excused.nursing;
+
+    return {
+      haidOther,
+      illnessOldAge,
+      pregnancyFeeding,
+      total: haidOther + illnessOldAge + pregnancyFeeding,
+    };
+  }, [fastingLog]);
 
   // ✅ Log hook initialization
   useEffect(() => {
@@ -147,6 +171,15 @@ export function useFidyahCalculator() {
     logger.success('Fidyah calculator cleared');
   };
 
+  // Pre-fill day counts from the fasting log
+  const applyFastingLog = () => {
+    logger.info('Fidyah days filled from fasting log', { ...loggedDays });
+
+    setDaysHaidOther(loggedDays.haidOther ? String(loggedDays.haidOther) : '');
+    setDaysIllnessOldAge(loggedDays.illnessOldAge ? String(loggedDays.illnessOldAge) : '');
+    setDaysPregnancyFeeding(loggedDays.pregnancyFeeding ? String(loggedDays.pregnancyFeeding) : '');
+  };
+
   return {
     // State
     daysHaidOther,
@@ -154,11 +187,13 @@ export function useFidyahCalculator() {
     daysPregnancyFeeding,
     ratePerDay: RATE_PER_DAY,
     calculation,
+    loggedDays,
 
     // Actions
     setDaysHaidOther: handleSetDaysHaidOther,
     setDaysIllnessOldAge: handleSetDaysIllnessOldAge,
     setDaysPregnancyFeeding: handleSetDaysPregnancyFeeding,
     resetCalculator,
+    applyFastingLog,
   };
 }
\ No newline at end of file
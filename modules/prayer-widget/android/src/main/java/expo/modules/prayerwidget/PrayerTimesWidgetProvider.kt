@@ -0,0 +1,139 @@
+package expo.modules.prayerwidget
+
+import android.app.AlarmManager
+import android.app.PendingIntent
+import android.appwidget.AppWidgetManager
+import android.appwidget.AppWidgetProvider
+import android.content.ComponentName
+import android.content.Context
+import android.content.Intent
+import android.os.SystemClock
+import android.view.View
+import android.widget.RemoteViews
+
+/**
+ * Android home-screen prayer widget
+ *
+ * Shows the next prayer with an on-device countdown and today's six times.
+ * The countdown is a Chronometer, so nothing runs between redraws; the widget
+ * redraws itself at each prayer boundary (and midnight) with an alarm, when
+ * the app writes new data (`PrayerWidgetModule.reload`), and when the clock or
+ * time zone changes.
+ */
+class PrayerTimesWidgetProvider : AppWidgetProvider() {
+
+  override fun onUpdate(context: Context, appWidgetManager: AppWidgetManager, appWidgetIds: IntArray) {
+    render(context, appWidgetManager, appWidgetIds)
+  }
+
+  override fun onReceive(context: Context, intent: Intent) {
+    super.onReceive(context, intent)
+    when (intent.action) {
+      ACTION_REFRESH, Intent.ACTION_TIME_CHANGED, Intent.ACTION_TIMEZONE_CHANGED -> updateAll(context)
+    }
+  }
+
+  override fun onDisabled(context: Context) {
+    // Last widget removed: stop waking up at prayer boundaries
+    context.getSystemService(AlarmManager::class.java)?.cancel(refreshIntent(context))
+  }
+
+  companion object {
+    private const val ACTION_REFRESH = "expo.modules.prayerwidget.REFRESH"
+
+    // Refreshing up to a minute late is fine and needs no exact-alarm permission
+    private const val REFRESH_WINDOW_MILLIS = 60_000L
+
+    private val ROWS = mapOf(
+      "Subuh" to Pair(R.id.prayer_widget_subuh_name, R.id.prayer_widget_subuh_time),
+      "Syuruk" to Pair(R.id.prayer_widget_syuruk_name, R.id.prayer_widget_syuruk_time),
+      "Zohor" to Pair(R.id.prayer_widget_zohor_name, R.id.prayer_widget_zohor_time),
+      "Asar" to Pair(R.id.prayer_widget_asar_name, R.id.prayer_widget_asar_time),
+      "Maghrib" to Pair(R.id.prayer_widget_maghrib_name, R.id.prayer_widget_maghrib_time),
+      "Isyak" to Pair(R.id.prayer_widget_isyak_name, R.id.prayer_widget_isyak_time),
+    )
+
+    private const val COLOR_UPCOMING = 0xFFFFFFFF.toInt()
+    private const val COLOR_PASSED = 0x73FFFFFF
+    private const val COLOR_NEXT = 0xFFBFE1DB.toInt()
+
+    /** Redraw every placed widget. Returns how many were updated. */
+    fun updateAll(context: Context): Int {
+      val manager = AppWidgetManager.getInstance(context)
+      val ids = manager.getAppWidgetIds(ComponentName(context, PrayerTimesWidgetProvider::class.java))
+      if (ids.isNotEmpty()) render(context, manager, ids)
+      return ids.size
+    }
+
+    private fun render(context: Context, manager: AppWidgetManager, ids: IntArray) {
+      val now = System.currentTimeMillis()
+      val state = PrayerWidgetData.load(context, now)
+      val views = buildViews(context, state, now)
+      ids.forEach { manager.updateAppWidget(it, views) }
+      scheduleRefresh(context, PrayerWidgetData.nextBoundaryMillis(state, now))
+    }
+
+    private fun buildViews(context: Context, state: PrayerWidgetState, now: Long): RemoteViews {
+      val views = RemoteViews(context.packageName, R.layout.prayer_times_widget)
+
+      val next = state.next
+      if (next != null) {
+        views.setTextViewText(R.id.prayer_widget_next_name, next.name)
+        views.setTextViewText(R.id.prayer_widget_next_time, next.label)
+        // Chronometer bases are on the elapsed-realtime clock
+        val base = SystemClock.elapsedRealtime() + (next.atMillis - now)
+        views.setChronometer(R.id.prayer_widget_countdown, base, null, true)
+        views.setChronometerCountDown(R.id.prayer_widget_countdown, true)
+        views.setViewVisibility(R.id.prayer_widget_countdown, View.VISIBLE)
+      } else {
+        views.setTextViewText(R.id.prayer_widget_next_name, context.getString(R.string.prayer_widget_open_app))
+        views.setTextViewText(R.id.prayer_widget_next_time, "")
+        views.setViewVisibility(R.id.prayer_widget_countdown, View.GONE)
+      }
+
+      ROWS.forEach { (name, ids) ->
+        val prayer = state.today.firstOrNull { it.name == name }
+        val color = when {
+          prayer == null -> COLOR_PASSED
+          prayer == next -> COLOR_NEXT
+          prayer.atMillis <= now -> COLOR_PASSED
+          else -> COLOR_UPCOMING
+        }
+        views.setTextViewText(ids.second, prayer?.label ?: "--:--")
+        views.setTextColor(ids.first, color)
+        views.setTextColor(ids.second, color)
+      }
+
+      views.setViewVisibility(R.id.prayer_widget_sample_badge, if (state.isSample) View.VISIBLE else View.GONE)
+
+      context.packageManager.getLaunchIntentForPackage(context.packageName)?.let { launch ->
+        val openApp = PendingIntent.getActivity(
+          context,
+          0,
+          launch,
+          PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+        views.setOnClickPendingIntent(R.id.prayer_widget_root, openApp)
+      }
+
+      return views
+    }
+
+    private fun refreshIntent(context: Context): PendingIntent {
+      val intent = Intent(context, PrayerTimesWidgetProvider::class.java).setAction(ACTION_REFRESH)
+      return PendingIntent.getBroadcast(
+        context,
+        0,
+        intent,
+        PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+      )
+    }
+
+    /** Replace the pending refresh with one at `atMillis`. */
+    private fun scheduleRefresh(context: Context, atMillis: Long) {
+      val alarmManager = context.getSystemService(AlarmManager::class.java) ?: return
+      // RTC (not _WAKEUP): a sleeping device catches up when the screen turns on
+      alarmManager.setWindow(AlarmManager.RTC, atMillis, REFRESH_WINDOW_MILLIS, refreshIntent(context))
+    }
+  }
+}
@@ -0,0 +1,114 @@
+package expo.modules.prayerwidget
+
+import android.content.Context
+import org.json.JSONArray
+import org.json.JSONException
+import java.util.Calendar
+
+// MARK: - Models
+
+/** One prayer time on a specific day. */
+data class PrayerTime(val name: String, val label: String, val atMillis: Long)
+
+/** What the widget shows at a given moment. */
+data class PrayerWidgetState(
+  val today: List<PrayerTime>,
+  val next: PrayerTime?,
+  val isSample: Boolean,
+)
+
+// MARK: - Loading
+
+/**
+ * Reads the payload written by `utils/widgetBridge.ts`:
+ * `[{ "date": "D/M/YYYY", "time": { "subuh": "HH:mm", ... } }, ...]`
+ * stored under `prayerTimesData` in the SharedPreferences file named after
+ * the iOS app group.
+ */
+object PrayerWidgetData {
+  const val PREFS_NAME = "group.com.rihlah.prayerTimesWidget"
+  const val DATA_KEY = "prayerTimesData"
+
+  // Same order and names as the iOS widget and getNextPrayer in the app
+  val PRAYERS = listOf("Subuh", "Syuruk", "Zohor", "Asar", "Maghrib", "Isyak")
+
+  private val SAMPLE_TIMES = mapOf(
+    "Subuh" to "05:45",
+    "Syuruk" to "07:03",
+    "Zohor" to "13:03",
+    "Asar" to "16:27",
+    "Maghrib" to "19:06",
+    "Isyak" to "20:20",
+  )
+
+  fun load(context: Context, nowMillis: Long = System.currentTimeMillis()): PrayerWidgetState {
+    val days = readDays(context)
+    val today = Calendar.getInstance().apply { timeInMillis = nowMillis }
+    val todayTimes = days?.get(dateKey(today))?.let { toPrayerTimes(today, it) }
+
+    if (todayTimes.isNullOrEmpty()) {
+      return PrayerWidgetState(toPrayerTimes(today, SAMPLE_TIMES), next = null, isSample = true)
+    }
+
+    // After Isyak the next prayer is tomorrow's Subuh; if tomorrow is not in
+    // the payload (last day of the month), assume today's Subuh time.
+    val next = todayTimes.firstOrNull { it.atMillis > nowMillis } ?: run {
+      val tomorrow = (today.clone() as Calendar).apply { add(Calendar.DAY_OF_MONTH, 1) }
+      val times = days[dateKey(tomorrow)] ?: todayTimes.associate { it.name.lowercase() to it.label }
+      toPrayerTimes(tomorrow, times).firstOrNull()
+    }
+
+    return PrayerWidgetState(todayTimes, next, isSample = false)
+  }
+
+  /** Next moment the widget needs redrawing: the next prayer, else midnight. */
+  fun nextBoundaryMillis(state: PrayerWidgetState, nowMillis: Long = System.currentTimeMillis()): Long {
+    val midnight = Calendar.getInstance().apply {
+      timeInMillis = nowMillis
+      add(Calendar.DAY_OF_MONTH, 1)
+      set(Calendar.HOUR_OF_DAY, 0)
+      set(Calendar.MINUTE, 0)
+      set(Calendar.SECOND, 0)
+      set(Calendar.MILLISECOND, 0)
+    }.timeInMillis
+    val next = state.today.firstOrNull { it.atMillis > nowMillis }?.atMillis
+    return minOf(next ?: midnight, midnight)
+  }
+
+  // MARK: - Helpers
+
+  /** Days keyed by "D/M/YYYY", each a map of lowercase prayer name to "HH:mm". */
+  private fun readDays(context: Context): Map<String, Map<String, String>>? {
+    val prefs = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+    val json = prefs.getString(DATA_KEY, null) ?: return null
+
+    return try {
+      val array = JSONArray(json)
+      (0 until array.length()).associate { index ->
+        val day = array.getJSONObject(index)
+        val time = day.getJSONObject("time")
+        day.getString("date") to time.keys().asSequence().associateWith { time.optString(it) }
+      }
+    } catch (error: JSONException) {
+      null
+    }
+  }
+
+  private fun dateKey(day: Calendar): String =
+    "${day.get(Calendar.DAY_OF_MONTH)}/${day.get(Calendar.MONTH) + 1}/${day.get(Calendar.YEAR)}"
+
+  private fun toPrayerTimes(day: Calendar, times: Map<String, String>): List<PrayerTime> =
+    PRAYERS.mapNotNull { name ->
+      val label = times[name.lowercase()] ?: times[name] ?: return@mapNotNull null
+      val parts = label.split(":").mapNotNull { it.trim().toIntOrNull() }
+      if (parts.size < 2) return@mapNotNull null
+
+      val at = (day.clone() as Calendar).apply {
+        set(Calendar.HOUR_OF_DAY, parts[0])
+        set(Calendar.MINUTE, parts[1])
+        set(Calendar.SECOND, 0)
+        set(Calendar.MILLISECOND, 0)
+      }
+      PrayerTime(name, label, at.timeInMillis)
+    }
+}
@@ -0,0 +1,17 @@
+package expo.modules.prayerwidget
+
+import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+
+class PrayerWidgetModule : Module() {
+  override fun definition() = ModuleDefinition {
+    Name("PrayerWidget")
+
+    // Redraw placed widgets after the app writes new prayer times.
+    AsyncFunction("reload") {
+      val context = appContext.reactContext ?: throw Exceptions.ReactContextLost()
+      PrayerTimesWidgetProvider.updateAll(context)
+    }
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * prayer-widget — local Expo module
+ *
+ * JS side of the Android home-screen prayer widget. The widget reads the
+ * payload `utils/widgetBridge.ts` writes to SharedPreferences; `reload` asks
+ * it to redraw after a write. Safe to call on any platform: on iOS, in Expo
+ * Go, or before the native module is built, it no-ops.
+ */
+
+import { requireOptionalNativeModule } from 'expo-modules-core';
+
+interface NativePrayerWidget {
+  reload(): Promise<number>;
+}
+
+const native = requireOptionalNativeModule<NativePrayerWidget>('PrayerWidget');
+
+export const PrayerWidget = {
+  /** Redraw every placed widget. Resolves with how many were updated. */
+  async reload(): Promise<number> {
+    return (await native?.reload()) ?? 0;
+  },
+};
@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+/**
+ * Upload the Iqra course's drill recordings to Firebase Storage.
+ *
+ * The course (data/iqraCourse.ts) plays short clips from `iqra/<clip>.mp3` in
+ * the app's Storage bucket; nothing is bundled with the app. This script is
+ * the single place that knows which clips must exist:
+ *   - builds the clip list from the course itself (`getIqraClips`)
+ *   - keeps scripts/iqra/clips.json — the recording checklist — in step
+ *   - checks a folder of recordings and the live bucket against that list
+ *   - uploads what is missing
+ *
+ * RECORDINGS:
+ *   One MP3 per clip, named `<clip>.mp3` (e.g. `letter-ba.mp3`, `ba-fathah.mp3`),
+ *   in scripts/iqra/clips/ (git-ignored) or the folder given by --dir. Have
+ *   them recorded — and checked — by a qualified teacher; see README.md.
+ *
+ * USAGE:
+ *   node scripts/iqra/seed-iqra-clips.mjs --manifest            # rewrite clips.json from the course
+ *   node scripts/iqra/seed-iqra-clips.mjs                       # dry run: audit recordings (+ bucket with a key)
+ *   node scripts/iqra/seed-iqra-clips.mjs --apply               # upload clips missing from the bucket
+ *   node scripts/iqra/seed-iqra-clips.mjs --apply --replace     # re-upload every clip
+ *   node scripts/iqra/seed-iqra-clips.mjs --dir=<path> --bucket=<name> --apply
+ *
+ * AUTH (same as the other seeders — no in-repo keys):
+ *   --key=<path>  or  $GOOGLE_APPLICATION_CREDENTIALS  (store OUTSIDE the repo)
+ *   The bucket defaults to `storage_bucket` in google-services.json.
+ *
+ * Reads the course with the repo's `typescript` dev dependency; otherwise no
+ * npm deps — signs a JWT and calls the Cloud Storage JSON API directly.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import crypto from 'crypto';
+import https from 'https';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, '..', '..');
+const COURSE_PATH = join(ROOT, 'data', 'iqraCourse.ts');
+const MANIFEST_PATH = join(__dirname, 'clips.json');
+const CLIP_FOLDER = 'iqra'; // must match api/services/iqra
+
+// ---------------------------------------------------------------- args
+function parseArgs() {
+  const out = {};
+  for (const a of process.argv.slice(2)) {
+    const m = a.match(/^--([^=]+)(?:=(.*))?$/);
+    if (!m) continue;
+    out[m[1]] = m[2] === undefined ? true : m[2];
+  }
+  for (const flag of ['apply', 'replace', 'manifest']) {
+    out[flag] = out[flag] === true || out[flag] === 'true';
+  }
+  out.dir = out.dir || join(__dirname, 'clips');
+  return out;
+}
+
+// ---------------------------------------------------------------- course
+// data/iqraCourse.ts has no imports, so transpiling that one file is enough.
+async function loadCourseClips() {
+  const ts = createRequire(import.meta.url)('typescript');
+  const { outputText } = ts.transpileModule(readFileSync(COURSE_PATH, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const course = await import(`data:text/javascript;base64,${Buffer.from(outputText).toString('base64')}`);
+  return course.getIqraClips();
+}
+
+function readManifest() {
+  return existsSync(MANIFEST_PATH) ? JSON.parse(readFileSync(MANIFEST_PATH, 'utf8')) : [];
+}
+
+const sameClips = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// ---------------------------------------------------------------- http
+function httpsRequest(options, body) {
+  return new Promise((resolve, reject) => {
+    const r = https.request(options, (resp) => {
+      let data = '';
+      resp.on('data', (c) => (data += c));
+      resp.on('end', () => resolve({ status: resp.statusCode, body: data }));
+    });
+    r.on('error', reject);
+    if (body) r.write(body);
+    r.end();
+  });
+}
+
+// ---------------------------------------------------------------- storage (JWT + REST, no deps)
+function findServiceAccountPath(keyArg) {
+  const path = keyArg || process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  return path && existsSync(path) ? path : null;
+}
+
+function loadServiceAccount(keyArg) {
+  const path = findServiceAccountPath(keyArg);
+  if (path) return JSON.parse(readFileSync(path, 'utf8'));
+  throw new Error(
+    'No service-account key found. Pass --key=<path> or set GOOGLE_APPLICATION_CREDENTIALS ' +
+    'to a key stored OUTSIDE the repo. Do not commit service-account keys.'
+  );
+}
+
+function resolveBucket(bucketArg) {
+  if (bucketArg) return bucketArg;
+  const config = join(ROOT, 'google-services.json');
+  const bucket = existsSync(config) && JSON.parse(readFileSync(config, 'utf8')).project_info?.storage_bucket;
+  if (!bucket) throw new Error('No bucket found. Pass --bucket=<name> (e.g. <project>.appspot.com).');
+  return bucket;
+}
+
+const b64url = (i) => Buffer.from(i).toString('base64').replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+async function getAccessToken(sa) {
+  const now = Math.floor(Date.now() / 1000);
+  const si = `${b64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${b64url(JSON.stringify({
+    iss: sa.client_email,
+    scope: 'https://www.googleapis.com/auth/devstorage.read_write',
+    aud: 'https://oauth2.googleapis.com/token',
+    iat: now,
+    exp: now + 3600,
+  }))}`;
+  const sig = b64url(crypto.createSign('RSA-SHA256').update(si).sign(sa.private_key));
+  const body = `grant_type=${encodeURIComponent('urn:ietf:params:oauth:grant-type:jwt-bearer')}&assertion=${si}.${sig}`;
+  const res = await httpsRequest(
+    { hostname: 'oauth2.googleapis.com', path: '/token', method: 'POST', headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Content-Length': Buffer.byteLength(body) } },
+    body
+  );
+  const json = JSON.parse(res.body);
+  if (!json.access_token) throw new Error('OAuth token error: ' + res.body);
+  return json.access_token;
+}
+
+async function listBucketClips(bucket, tok) {
+  const names = new Set();
+  let pageToken = '';
+  do {
+    const path = `/storage/v1/b/${bucket}/o?prefix=${encodeURIComponent(`${CLIP_FOLDER}/`)}&fields=items(name),nextPageToken${pageToken ? `&pageToken=${pageToken}` : ''}`;
+    const res = await httpsRequest({ hostname: 'storage.googleapis.com', path, method: 'GET', headers: { Authorization: `Bearer ${tok}` } }, null);
+    if (res.status !== 200) throw new Error(`list ${bucket} → ${res.status}: ${res.body.slice(0, 300)}`);
+    const json = JSON.parse(res.body || '{}');
+    (json.items || []).forEach((o) => {
+      const m = o.name.match(new RegExp(`^${CLIP_FOLDER}/(.+)\\.mp3$`));
+      if (m) names.add(m[1]);
+    });
+    pageToken = json.nextPageToken || '';
+  } while (pageToken);
+  return names;
+}
+
+// Multipart upload so the object gets a Firebase download token —
+// `getDownloadURL` in the app needs one.
+async function uploadClip(bucket, tok, clip, bytes) {
+  const boundary = `iqra-${crypto.randomUUID()}`;
+  const metadata = {
+    name: `${CLIP_FOLDER}/${clip}.mp3`,
+    contentType: 'audio/mpeg',
+    cacheControl: 'public, max-age=31536000',
+    metadata: { firebaseStorageDownloadTokens: crypto.randomUUID() },
+  };
+  const body = Buffer.concat([
+    Buffer.from(`--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(metadata)}\r\n`),
+    Buffer.from(`--${boundary}\r\nContent-Type: audio/mpeg\r\n\r\n`),
+    bytes,
+    Buffer.from(`\r\n--${boundary}--`),
+  ]);
+  const res = await httpsRequest(
+    {
+      hostname: 'storage.googleapis.com',
+      path: `/upload/storage/v1/b/${bucket}/o?uploadType=multipart`,
+      method: 'POST',
+      headers: { Authorization: `Bearer ${tok}`, 'Content-Type': `multipart/related; boundary=${boundary}`, 'Content-Length': body.length },
+    },
+    body
+  );
+  if (res.status !== 200) throw new Error(`upload ${clip} → ${res.status}: ${res.body.slice(0, 300)}`);
+}
+
+// ---------------------------------------------------------------- main
+async function main() {
+  const args = parseArgs();
+  const clips = await loadCourseClips();
+  console.log(`The course plays ${clips.length} clip(s) from ${CLIP_FOLDER}/ in Storage.`);
+
+  if (args.manifest) {
+    writeFileSync(MANIFEST_PATH, JSON.stringify(clips, null, 2) + '\n');
+    console.log(`Wrote ${MANIFEST_PATH}`);
+    return;
+  }
+
+  if (!sameClips(readManifest(), clips)) {
+    throw new Error('clips.json is out of date with data/iqraCourse.ts. Run with --manifest and commit it.');
+  }
+
+  const local = clips.filter((c) => existsSync(join(args.dir, `${c.clip}.mp3`)));
+  const missingLocal = clips.filter((c) => !local.includes(c));
+  console.log(`Recordings in ${args.dir}: ${local.length}/${clips.length}`);
+  missingLocal.slice(0, 20).forEach((c) => console.log(`  - missing ${c.clip}.mp3  (${c.transliteration}  ${c.arabic})`));
+  if (missingLocal.length > 20) console.log(`  … and ${missingLocal.length - 20} more (see clips.json)`);
+
+  if (!args.apply && !findServiceAccountPath(args.key)) {
+    console.log('\nDRY RUN — no key given, so the bucket was not checked. Pass --key=<path> to audit it.');
+    return;
+  }
+
+  const sa = loadServiceAccount(args.key);
+  const bucket = resolveBucket(args.bucket);
+  const tok = await getAccessToken(sa);
+
+  const live = await listBucketClips(bucket, tok);
+  const missingLive = clips.filter((c) => !live.has(c.clip));
+  console.log(`\nClips in gs://${bucket}/${CLIP_FOLDER}/: ${clips.length - missingLive.length}/${clips.length}`);
+
+  if (!args.apply) {
+    missingLive.slice(0, 20).forEach((c) => console.log(`  - missing ${c.clip}`));
+    console.log('\nDRY RUN — re-run with --apply to upload the recordings.');
+    return;
+  }
+
+  const toUpload = (args.replace ? local : local.filter((c) => !live.has(c.clip)));
+  console.log(`Uploading ${toUpload.length} clip(s)${args.replace ? ' (replace)' : ''}…`);
+  for (const [i, c] of toUpload.entries()) {
+    await uploadClip(bucket, tok, c.clip, readFileSync(join(args.dir, `${c.clip}.mp3`)));
+    if ((i + 1) % 20 === 0 || i + 1 === toUpload.length) console.log(`  uploaded ${i + 1}/${toUpload.length}`);
+  }
+
+  const after = await listBucketClips(bucket, tok);
+  const stillMissing = clips.filter((c) => !after.has(c.clip));
+  if (stillMissing.length) {
+    console.log(`\n⚠️  ${stillMissing.length} clip(s) still missing — the app shows "not available" for these:`);
+    stillMissing.slice(0, 20).forEach((c) => console.log(`  - ${c.clip}`));
+    process.exit(1);
+  }
+  console.log('\nDone. Every course clip is in the bucket.');
+}
+
+main().catch((e) => { console.error('ERROR:', e.message); process.exit(1); });
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+/**
+ * Validate the on-device astronomical prayer-time calculator against the
+ * official MUIS Singapore timetable.
+ *
+ * The app falls back to `api/services/prayer/utils/astronomical.ts` when both
+ * Firebase and Aladhan are unreachable. This script runs that exact module for
+ * every day in `data/<year>.txt` and reports how far it drifts from MUIS, so a
+ * change to the solar model or the MUIS parameters can be checked before it
+ * ships.
+ *
+ * USAGE (Node >= 22.18, which strips TypeScript types natively; on 22.6-22.17
+ * add --experimental-strip-types):
+ *   node scripts/prayer-times/validate-calculator.mjs --year=2026
+ *   node scripts/prayer-times/validate-calculator.mjs --year=2026 --tolerance=2
+ *
+ * Exits non-zero if any prayer deviates by more than --tolerance minutes
+ * (default 2).
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import {
+  calculatePrayerTimes,
+  MUIS_CALCULATION_PARAMETERS,
+} from '../../api/services/prayer/utils/astronomical.ts';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PRAYERS = ['subuh', 'syuruk', 'zohor', 'asar', 'maghrib', 'isyak'];
+
+// Same reference point the app uses as DEFAULT_LOCATION.
+const SINGAPORE = { latitude: 1.3521, longitude: 103.8198 };
+const SINGAPORE_UTC_OFFSET = 8;
+
+// ---------------------------------------------------------------- args
+function parseArgs() {
+  const out = {};
+  for (const a of process.argv.slice(2)) {
+    const m = a.match(/^--([^=]+)(?:=(.*))?$/);
+    if (!m) continue;
+    out[m[1]] = m[2] === undefined ? true : m[2];
+  }
+  if (!out.year) {
+    console.error('Missing --year=YYYY');
+    process.exit(1);
+  }
+  out.year = parseInt(out.year, 10);
+  out.tolerance = out.tolerance === undefined ? 2 : parseInt(out.tolerance, 10);
+  out.file = out.file || join(__dirname, 'data', `${out.year}.txt`);
+  return out;
+}
+
+// ---------------------------------------------------------------- parse (mirrors seed-prayer-times.mjs)
+function minutesOf(name, h, m) {
+  if (name === 'subuh' || name === 'syuruk') return h * 60 + m; // morning (AM)
+  return (h === 12 ? 12 : h + 12) * 60 + m; // afternoon/evening (PM); zohor 12 = noon
+}
+
+function parseTable(filePath, year) {
+  const rows = [];
+  for (const line of readFileSync(filePath, 'utf8').split('\n')) {
+    const dateMatch = line.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+    if (!dateMatch) continue;
+    const [, d, mo, y] = dateMatch;
+    if (parseInt(y, 10) !== year) continue;
+    const after = line.slice(line.indexOf(dateMatch[0]) + dateMatch[0].length);
+    const nums = (after.match(/\d+/g) || []).map(Number);
+    if (nums.length !== 12) {
+      throw new Error(`Expected 12 time numbers, got ${nums.length} on line: "${line.trim()}"`);
+    }
+    const time = {};
+    PRAYERS.forEach((p, i) => { time[p] = minutesOf(p, nums[i * 2], nums[i * 2 + 1]); });
+    rows.push({ date: new Date(year, parseInt(mo, 10) - 1, parseInt(d, 10)), label: dateMatch[0], time });
+  }
+  return rows;
+}
+
+const toMinutes = (hhmm) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// ---------------------------------------------------------------- main
+const args = parseArgs();
+console.log(`\n== Validate astronomical calculator vs MUIS ${args.year} ==`);
+console.log(`Source file: ${args.file}`);
+console.log(`Parameters:  ${JSON.stringify(MUIS_CALCULATION_PARAMETERS)}`);
+
+const rows = parseTable(args.file, args.year);
+const stats = Object.fromEntries(PRAYERS.map((p) => [p, { max: 0, maxDate: '', sumAbs: 0, exact: 0 }]));
+
+for (const r of rows) {
+  const calc = calculatePrayerTimes(r.date, SINGAPORE, MUIS_CALCULATION_PARAMETERS, {
+    timezoneOffsetHours: SINGAPORE_UTC_OFFSET,
+  });
+  for (const p of PRAYERS) {
+    const delta = toMinutes(calc[p]) - r.time[p];
+    const s = stats[p];
+    s.sumAbs += Math.abs(delta);
+    if (delta === 0) s.exact++;
+    if (Math.abs(delta) > Math.abs(s.max)) {
+      s.max = delta;
+      s.maxDate = r.label;
+    }
+  }
+}
+
+console.log(`\nDays compared: ${rows.length}\n`);
+console.log('prayer    max(min)  worst date   mean |Δ|  exact');
+let overall = 0;
+for (const p of PRAYERS) {
+  const s = stats[p];
+  overall = Math.max(overall, Math.abs(s.max));
+  console.log(
+    `${p.padEnd(9)} ${String(s.max).padStart(8)}  ${(s.maxDate || '-').padEnd(11)}  ${(s.sumAbs / rows.length).toFixed(2).padStart(8)}  ${((s.exact / rows.length) * 100).toFixed(1)}%`
+  );
+}
+
+console.log(`\nMax deviation: ${overall} min (tolerance ${args.tolerance} min)`);
+if (overall > args.tolerance) {
+  console.error('✗ Calculator drifts beyond tolerance.');
+  process.exit(1);
+}
+console.log('✔ Calculator within tolerance.');
@@ -0,0 +1,378 @@
+/**
+ * Backup Service
+ *
+ * Exports the user's prayer history and Quran/dhikr progress as a versioned
+ * JSON backup (plus CSV views for spreadsheets) through the OS share sheet,
+ * and restores a JSON backup by merging it into what is already on the
+ * device/account.
+ *
+ * Restores never delete anything:
+ * - Prayer logs are merged per prayer (most recently changed entry wins)
+ * - Read ayahs and bookmarks are unioned
+ * - Counters keep the higher value
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { format } from 'date-fns';
+import { z } from 'zod';
+import {
+  exportGuestPrayerLogHistory,
+  importGuestPrayerLogHistory,
+} from '../../api/services/prayer/api/guest';
+import {
+  fetchPrayerLogHistory,
+  importPrayerLogHistory,
+} from '../../api/services/prayer/api/history';
+import { PrayerLogSchema } from '../../api/services/prayer/types';
+import type { PrayerLogHistory, PrayerLogMergeReport } from '../../api/services/prayer/types';
+import { LOGGABLE_PRAYERS } from '../../api/services/prayer/types/constants';
+import { useQuranStore } from '../../stores/useQuranStore';
+import { useTasbihStore } from '../../stores/useTasbihStore';
+import { useDoaBookmarksStore } from '../../stores/useDoaBookmarkStore';
+import { createLogger } from '../logging/logger';
+
+const logger = createLogger('Backup');
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+export const BACKUP_VERSION = 1;
+
+const DateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+const AyahKeySchema = z.string().regex(/^\d+:\d+$/, 'Ayah key must be surah:ayah');
+
+const DhikrSchema = z.object({
+  id: z.string(),
+  arabic: z.string(),
+  transliteration: z.string(),
+  meaning: z.string(),
+});
+
+/**
+ * Backup file schema (version 1)
+ *
+ * Bump `BACKUP_VERSION` and keep reading older versions when the shape changes.
+ */
+export const BackupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string().datetime(),
+  prayer: z.object({
+    prayerLogs: z.record(DateKeySchema, PrayerLogSchema.shape.prayers),
+    prayerLogTravel: z.record(DateKeySchema, PrayerLogSchema.shape.travel.unwrap()),
+  }),
+  quran: z.object({
+    readAyahs: z.array(AyahKeySchema),
+    bookmarks: z.array(
+      z.object({
+        surahNumber: z.number().int().positive(),
+        ayahNumber: z.number().int().positive(),
+        surahName: z.string(),
+        timestamp: z.number(),
+      })
+    ),
+    recitationPlan: z
+      .object({
+        planType: z.enum(['ayahs', 'surahs', 'juz']),
+        daysToFinish: z.number().positive(),
+        startDate: z.string(),
+        completedAyahKeys: z.array(z.string()),
+        lastReadAyah: z.string(),
+      })
+      .nullable(),
+    currentStreak: z.number().int().nonnegative(),
+    longestStreak: z.number().int().nonnegative(),
+    lastReadDate: DateKeySchema.nullable(),
+  }),
+  tasbih: z.object({
+    todayTotal: z.number().int().nonnegative(),
+    lifetimeTotal: z.number().int().nonnegative(),
+    lastDate: z.string(),
+    custom: DhikrSchema.nullable(),
+  }),
+  doaBookmarks: z.array(
+    z.object({
+      doaId: z.string(),
+      doaTitle: z.string(),
+      timestamp: z.number(),
+    })
+  ),
+});
+
+export type Backup = z.infer<typeof BackupSchema>;
+
+export type CsvExport = 'prayer' | 'quran';
+
+/**
+ * What a restore changed
+ */
+export interface BackupImportSummary {
+  prayer: PrayerLogMergeReport;
+  readAyahs: number; // Newly read ayahs
+  quranBookmarks: number; // New Quran bookmarks
+  doaBookmarks: number; // New doa bookmarks
+  exportedAt: string; // When the backup was made
+}
+
+/**
+ * Raised for files that cannot be restored (not JSON, wrong shape, newer version)
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// ============================================================================
+// CREATE
+// ============================================================================
+
+/**
+ * Snapshot everything that goes into a backup
+ *
+ * @param userId - Signed-in user ID (null exports the guest logs on this device)
+ * @returns Backup object
+ */
+export async function createBackup(userId: string | null): Promise<Backup> {
+  const prayer: PrayerLogHistory = userId
+    ? await fetchPrayerLogHistory(userId)
+    : exportGuestPrayerLogHistory();
+
+  const quran = useQuranStore.getState();
+  const tasbih = useTasbihStore.getState();
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    prayer,
+    quran: {
+      readAyahs: quran.readAyahs,
+      bookmarks: quran.bookmarks,
+      recitationPlan: quran.recitationPlan,
+      currentStreak: quran.currentStreak,
+      longestStreak: quran.longestStreak,
+      lastReadDate: quran.lastReadDate,
+    },
+    tasbih: {
+      todayTotal: tasbih.todayTotal,
+      lifetimeTotal: tasbih.lifetimeTotal,
+      lastDate: tasbih.lastDate,
+      custom: tasbih.custom,
+    },
+    doaBookmarks: useDoaBookmarksStore.getState().bookmarks,
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Prayer log CSV: one row per day, one status column per prayer
+ */
+export function buildPrayerLogCsv({ prayerLogs, prayerLogTravel }: Backup['prayer']): string {
+  const rows = Object.keys(prayerLogs)
+    .sort()
+    .map((date) => [
+      date,
+      ...LOGGABLE_PRAYERS.map((prayer) => prayerLogs[date][prayer]?.status),
+      prayerLogTravel[date]?.destination ?? (prayerLogTravel[date] ? 'travel' : ''),
+    ]);
+
+  return toCsv([['date', ...LOGGABLE_PRAYERS, 'travel'], ...rows]);
+}
+
+/**
+ * Quran CSV: read ayahs and bookmarks, one row per ayah
+ */
+export function buildQuranProgressCsv({ readAyahs, bookmarks }: Backup['quran']): string {
+  const bookmarked = new Map(
+    bookmarks.map((b) => [`${b.surahNumber}:${b.ayahNumber}`, b])
+  );
+  const keys = Array.from(new Set([...readAyahs, ...bookmarked.keys()]));
+  const read = new Set(readAyahs);
+
+  const rows = keys
+    .map((key) => key.split(':').map(Number))
+    .sort(([surahA, ayahA], [surahB, ayahB]) => surahA - surahB || ayahA - ayahB)
+    .map(([surah, ayah]) => {
+      const bookmark = bookmarked.get(`${surah}:${ayah}`);
+      return [
+        surah,
+        ayah,
+        read.has(`${surah}:${ayah}`) ? 'yes' : 'no',
+        bookmark ? 'yes' : 'no',
+        bookmark?.surahName,
+      ];
+    });
+
+  return toCsv([['surah', 'ayah', 'read', 'bookmarked', 'surah_name'], ...rows]);
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+async function shareText(fileName: string, content: string, mimeType: string): Promise<void> {
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new BackupError('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+}
+
+/**
+ * Export a JSON backup through the share sheet
+ *
+ * @param userId - Signed-in user ID (null for a guest)
+ *
+ * @example
+ * ```ts
+ * await exportBackup(user?.uid ?? null);
+ * ```
+ */
+export async function exportBackup(userId: string | null): Promise<void> {
+  const backup = await createBackup(userId);
+  const fileName = `rihlah-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
+
+  await shareText(fileName, JSON.stringify(backup, null, 2), 'application/json');
+
+  logger.success('Backup exported', {
+    prayerDays: Object.keys(backup.prayer.prayerLogs).length,
+    readAyahs: backup.quran.readAyahs.length,
+    guest: !userId,
+  });
+}
+
+/**
+ * Export a CSV view through the share sheet
+ *
+ * @param userId - Signed-in user ID (null for a guest)
+ * @param kind - 'prayer' (daily statuses) or 'quran' (read/bookmarked ayahs)
+ */
+export async function exportBackupCsv(userId: string | null, kind: CsvExport): Promise<void> {
+  const backup = await createBackup(userId);
+  const csv = kind === 'prayer' ? buildPrayerLogCsv(backup.prayer) : buildQuranProgressCsv(backup.quran);
+  const fileName = `rihlah-${kind}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+
+  await shareText(fileName, csv, 'text/csv');
+
+  logger.success('CSV exported', { kind, guest: !userId });
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse and validate backup file contents
+ *
+ * @param content - File text
+ * @returns Validated backup
+ * @throws {BackupError} When the file is not a backup this version can read
+ */
+export function parseBackup(content: string): Backup {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new BackupError('This file is not a valid backup (not JSON)');
+  }
+
+  const version = (json as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of the app. Please update first.');
+  }
+
+  const result = BackupSchema.safeParse(json);
+  if (!result.success) {
+    logger.warn('Backup validation failed', {
+      issues: result.error.issues.slice(0, 5).map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+    throw new BackupError('This file is not a valid backup');
+  }
+
+  return result.data;
+}
+
+/**
+ * Merge a backup into the device and account
+ *
+ * @param backup - Validated backup
+ * @param userId - Signed-in user ID (null merges prayer logs into guest storage)
+ * @returns What changed
+ */
+export async function restoreBackup(
+  backup: Backup,
+  userId: string | null
+): Promise<BackupImportSummary> {
+  const prayer = userId
+    ? await importPrayerLogHistory(userId, backup.prayer)
+    : importGuestPrayerLogHistory(backup.prayer);
+
+  const quran = useQuranStore.getState().importProgress(backup.quran);
+  useTasbihStore.getState().importTotals(backup.tasbih);
+  const doaBookmarks = useDoaBookmarksStore.getState().importBookmarks(backup.doaBookmarks);
+
+  const summary: BackupImportSummary = {
+    prayer,
+    readAyahs: quran.readAyahs,
+    quranBookmarks: quran.bookmarks,
+    doaBookmarks,
+    exportedAt: backup.exportedAt,
+  };
+
+  logger.success('Backup restored', {
+    prayerDaysAdded: prayer.addedDates.length,
+    prayerDaysMerged: prayer.mergedDates.length,
+    conflicts: prayer.conflicts.length,
+    readAyahs: summary.readAyahs,
+    quranBookmarks: summary.quranBookmarks,
+    doaBookmarks,
+  });
+
+  return summary;
+}
+
+/**
+ * Pick a JSON backup with the system file picker and restore it
+ *
+ * @param userId - Signed-in user ID (null for a guest)
+ * @returns What changed, or null if the picker was dismissed
+ * @throws {BackupError} When the file cannot be restored
+ */
+export async function importBackup(userId: string | null): Promise<BackupImportSummary | null> {
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync(undefined, 'application/json');
+  } catch (error) {
+    logger.debug('Backup picker dismissed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) return null;
+
+  const backup = parseBackup(await file.text());
+  return restoreBackup(backup, userId);
+}
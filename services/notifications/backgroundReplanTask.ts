@@ -0,0 +1,78 @@
+/**
+ * Background Re-plan Task
+ *
+ * Background fetch task that re-runs the notification planner, so the last
+ * days of the planning window get their alerts even when the app is not
+ * opened for a while. The OS decides when it runs (roughly every few hours at
+ * best).
+ *
+ * The task is defined when this module loads — import it from the app root so
+ * a headless launch finds it. Loading it also registers every provider the
+ * plan needs, since no screen mounts in the background.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import { replanNotificationsInBackground } from './notificationPlanner';
+import './prayerNotificationService';
+import { registerDailyReminders } from './dailyReminderService';
+import { createLogger } from '../logging/logger';
+
+const logger = createLogger('Background Replan');
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const NOTIFICATION_REPLAN_TASK = 'notification-replan';
+
+// A lower bound only; iOS and Android pick the actual schedule
+const MINIMUM_INTERVAL_SECONDS = 6 * 60 * 60;
+
+// ============================================================================
+// TASK
+// ============================================================================
+
+registerDailyReminders();
+
+TaskManager.defineTask(NOTIFICATION_REPLAN_TASK, async () => {
+  try {
+    const plan = await replanNotificationsInBackground();
+    if (!plan) return BackgroundFetch.BackgroundFetchResult.Failed;
+
+    logger.info('Background re-plan complete', { scheduled: plan.scheduled.length });
+    return BackgroundFetch.BackgroundFetchResult.NewData;
+  } catch (error) {
+    logger.error('Background re-plan failed', error as Error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * Ask the OS to run the re-plan task periodically
+ *
+ * Skipped when background fetch is disabled for the app (Low Power Mode,
+ * Background App Refresh off, or restricted by the user).
+ */
+export async function registerNotificationReplanTask(): Promise<void> {
+  const status = await BackgroundFetch.getStatusAsync();
+  if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+    logger.warn('Background fetch unavailable, plans refresh on app foreground only', { status });
+    return;
+  }
+
+  if (await TaskManager.isTaskRegisteredAsync(NOTIFICATION_REPLAN_TASK)) {
+    logger.debug('Background re-plan task already registered');
+    return;
+  }
+
+  await BackgroundFetch.registerTaskAsync(NOTIFICATION_REPLAN_TASK, {
+    minimumInterval: MINIMUM_INTERVAL_SECONDS,
+    stopOnTerminate: false,
+    startOnBoot: true,
+  });
+  logger.success('Background re-plan task registered', { minimumInterval: MINIMUM_INTERVAL_SECONDS });
+}
@@ -0,0 +1,253 @@
+/**
+ * Custom Adhan Sounds
+ *
+ * Imports an adhan clip picked by the user, trims it to the notification-sound
+ * limit and stores it in `Library/Sounds`, where iOS notifications reference
+ * it by filename.
+ *
+ * Only WAV files are accepted: iOS notification sounds must be linear PCM,
+ * IMA4, µLaw or aLaw, and WAV can be trimmed by rewriting its data chunk
+ * without decoding.
+ *
+ * iOS only. expo-notifications resolves Android channel sounds from `res/raw`,
+ * which an installed app cannot add to, so an imported clip would only ever
+ * play the default sound. Android hides the import and treats any custom
+ * selection (e.g. restored from an iOS backup) as the default sound.
+ *
+ * @version 1.2
+ * @since 2026-10-18
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import type { AdhanSelection, CustomAdhan } from '../../stores/userPreferencesStore';
+import { createLogger } from '../logging/logger';
+
+const logger = createLogger('Custom Adhan');
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// iOS plays the default sound instead of any notification sound over 30s
+export const MAX_ADHAN_SECONDS = 30;
+
+/** Whether notifications can play an imported adhan on this platform */
+export const CUSTOM_ADHAN_SUPPORTED = Platform.OS === 'ios';
+
+export const CUSTOM_ADHAN_UNSUPPORTED_MESSAGE =
+  'Android notifications can only play the adhans that come with the app, so imported sounds are available on iOS only.';
+
+const CUSTOM_PREFIX = 'custom:';
+
+// WAV format tags iOS can play as notification sounds
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+const WAVE_FORMAT_IMA_ADPCM = 0x0011;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const SUPPORTED_FORMATS = [
+  WAVE_FORMAT_PCM,
+  WAVE_FORMAT_IEEE_FLOAT,
+  WAVE_FORMAT_ALAW,
+  WAVE_FORMAT_MULAW,
+  WAVE_FORMAT_IMA_ADPCM,
+];
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Raised for files that cannot be used as an adhan (not WAV, unsupported encoding)
+ */
+export class CustomAdhanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomAdhanError';
+  }
+}
+
+// ============================================================================
+// SELECTION HELPERS
+// ============================================================================
+
+export function toCustomAdhanSelection(id: string): AdhanSelection {
+  return `${CUSTOM_PREFIX}${id}`;
+}
+
+/** The imported sound a selection points at, if any (null for bundled adhans). */
+export function findCustomAdhan(selection: string, customAdhans: CustomAdhan[]): CustomAdhan | null {
+  if (!selection.startsWith(CUSTOM_PREFIX)) return null;
+  const id = selection.slice(CUSTOM_PREFIX.length);
+  return customAdhans.find((adhan) => adhan.id === id) ?? null;
+}
+
+/** Playable file for previews. */
+export function getCustomAdhanFile(adhan: CustomAdhan): File {
+  return new File(getSoundDirectory(), adhan.fileName);
+}
+
+// iOS looks up notification sounds in <container>/Library/Sounds
+function getSoundDirectory(): Directory {
+  return new Directory(Paths.document.parentDirectory, 'Library', 'Sounds');
+}
+
+// ============================================================================
+// WAV TRIMMING
+// ============================================================================
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Trim a WAV file to `maxSeconds`, keeping only its `fmt ` and `data` chunks
+ *
+ * @param bytes - WAV file contents
+ * @param maxSeconds - Longest clip to keep
+ * @returns Trimmed file, its duration and whether anything was cut
+ * @throws {CustomAdhanError} When the file is not a WAV iOS can play
+ */
+export function trimWav(
+  bytes: Uint8Array,
+  maxSeconds: number
+): { bytes: Uint8Array; durationSeconds: number; trimmed: boolean } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new CustomAdhanError('Choose a WAV file. Other formats cannot be used as notification sounds.');
+  }
+
+  let fmt: { offset: number; size: number } | null = null;
+  let data: { offset: number; size: number } | null = null;
+
+  // Chunks are word-aligned: odd sizes are followed by a pad byte
+  for (let offset = 12; offset + 8 <= bytes.byteLength; ) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') fmt = { offset: body, size };
+    if (id === 'data') {
+      // Streamed WAVs can leave the size unset; use what is in the file
+      data = { offset: body, size: Math.min(size, bytes.byteLength - body) };
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (!fmt || !data || fmt.size < 16) {
+    throw new CustomAdhanError('This WAV file is missing its audio data.');
+  }
+
+  let format = view.getUint16(fmt.offset, true);
+  if (format === WAVE_FORMAT_EXTENSIBLE && fmt.size >= 26) {
+    format = view.getUint16(fmt.offset + 24, true); // first bytes of the sub-format GUID
+  }
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    throw new CustomAdhanError('This WAV encoding is not supported. Export it as 16-bit PCM and try again.');
+  }
+
+  const byteRate = view.getUint32(fmt.offset + 8, true);
+  const blockAlign = view.getUint16(fmt.offset + 12, true) || 1;
+  if (!byteRate) {
+    throw new CustomAdhanError('This WAV file is missing its audio data.');
+  }
+
+  const maxBytes = Math.floor((maxSeconds * byteRate) / blockAlign) * blockAlign;
+  const keep = Math.min(data.size - (data.size % blockAlign), maxBytes);
+
+  const fmtChunkSize = 8 + fmt.size + (fmt.size % 2);
+  const output = new Uint8Array(12 + fmtChunkSize + 8 + keep);
+  const out = new DataView(output.buffer);
+
+  output.set(bytes.subarray(0, 12), 0);
+  out.setUint32(4, output.byteLength - 8, true);
+  output.set(bytes.subarray(fmt.offset - 8, fmt.offset + fmt.size), 12);
+
+  const dataHeader = 12 + fmtChunkSize;
+  output.set(bytes.subarray(data.offset - 8, data.offset - 4), dataHeader); // 'data'
+  out.setUint32(dataHeader + 4, keep, true);
+  output.set(bytes.subarray(data.offset, data.offset + keep), dataHeader + 8);
+
+  return {
+    bytes: output,
+    durationSeconds: keep / byteRate,
+    trimmed: keep < data.size - (data.size % blockAlign),
+  };
+}
+
+// ============================================================================
+// IMPORT / DELETE
+// ============================================================================
+
+/**
+ * Pick a WAV file, trim it and store it as a notification sound
+ *
+ * @returns The imported sound and whether it was trimmed, or null if the
+ * picker was dismissed
+ * @throws {CustomAdhanError} When the file cannot be used as an adhan, or on
+ * Android
+ */
+export async function importCustomAdhan(): Promise<{ adhan: CustomAdhan; trimmed: boolean } | null> {
+  if (!CUSTOM_ADHAN_SUPPORTED) {
+    throw new CustomAdhanError(CUSTOM_ADHAN_UNSUPPORTED_MESSAGE);
+  }
+
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync(undefined, 'audio/*');
+  } catch (error) {
+    logger.debug('Adhan picker dismissed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+
+  const pickedFile = Array.isArray(picked) ? picked[0] : picked;
+  if (!pickedFile) return null;
+  const source = new File(pickedFile.uri);
+
+  const { bytes, durationSeconds, trimmed } = trimWav(await source.bytes(), MAX_ADHAN_SECONDS);
+
+  // Unique filename per import: iOS caches notification sounds by name
+  const id = Date.now().toString(36);
+  const adhan: CustomAdhan = {
+    id,
+    name: source.name.replace(/\.[^.]+$/, '') || 'Custom adhan',
+    fileName: `adhan_custom_${id}.wav`,
+    durationSeconds: Math.round(durationSeconds),
+    importedAt: Date.now(),
+  };
+
+  const directory = getSoundDirectory();
+  directory.create({ intermediates: true, idempotent: true });
+  const file = new File(directory, adhan.fileName);
+  file.create({ overwrite: true });
+  file.write(bytes);
+
+  logger.success('Custom adhan imported', {
+    id,
+    durationSeconds: adhan.durationSeconds,
+    trimmed,
+    bytes: bytes.byteLength,
+  });
+  return { adhan, trimmed };
+}
+
+/**
+ * Remove an imported adhan's file
+ */
+export function deleteCustomAdhan(adhan: CustomAdhan): void {
+  const file = getCustomAdhanFile(adhan);
+  if (file.exists) file.delete();
+
+  logger.info('Custom adhan deleted', { id: adhan.id });
+}
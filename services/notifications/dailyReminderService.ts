@@ -0,0 +1,178 @@
+/**
+ * Daily Reminder Service
+ *
+ * Once-a-day habit reminders, scheduled through the notification planner:
+ * - Quran goal: read today to keep the streak (and the recitation plan) going
+ * - Tasbih: a nudge to do the day's dhikr
+ *
+ * Each is off by default and fires at the time picked in the prayer settings.
+ * Today's reminder is left out once the habit is done, so reading an ayah or
+ * counting a dhikr re-plans to drop it.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { format, parseISO } from 'date-fns';
+import { calculateDailyTarget, useQuranStore } from '../../stores/useQuranStore';
+import { useTasbihStore } from '../../stores/useTasbihStore';
+import { usePreferencesStore, type DailyReminderSettings } from '../../stores/userPreferencesStore';
+import {
+  notificationPlanner,
+  type LocalNotificationContent,
+  type NotificationCandidate,
+  type NotificationCategory,
+  type PlanningWindow,
+} from './notificationPlanner';
+import { createLogger } from '../logging/logger';
+
+const logger = createLogger('Daily Reminders');
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Times offered for a daily reminder (minutes from midnight) */
+export const DAILY_REMINDER_TIMES = [6 * 60, 9 * 60, 13 * 60, 17 * 60, 20 * 60, 21 * 60, 22 * 60] as const;
+
+const DAILY_REMINDER_CHANNEL = 'daily-reminder';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const todayStr = (): string => format(new Date(), 'yyyy-MM-dd');
+
+function atMinutes(dateStr: string, minutes: number): Date {
+  const date = parseISO(dateStr);
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+}
+
+/**
+ * One candidate per day in the window, skipping today when the habit is done
+ */
+function dailyCandidates(
+  category: NotificationCategory,
+  settings: DailyReminderSettings,
+  window: PlanningWindow,
+  doneToday: boolean,
+  content: Omit<LocalNotificationContent, 'channelId'>
+): NotificationCandidate[] {
+  if (!settings.enabled) return [];
+
+  const today = todayStr();
+  return window.dates
+    .filter((date) => !(date === today && doneToday))
+    .map((date) => ({
+      key: `${category}:${date}`,
+      category,
+      date,
+      fireAt: atMinutes(date, settings.minutes),
+      content: {
+        ...content,
+        data: { ...content.data, date },
+        channelId: Platform.OS === 'android' ? DAILY_REMINDER_CHANNEL : undefined,
+      },
+    }));
+}
+
+let channelReady: Promise<unknown> | null = null;
+
+/** Android routes the reminders to their own channel, created on first use. */
+function ensureChannel(): Promise<unknown> {
+  if (Platform.OS !== 'android') return Promise.resolve();
+  channelReady ??= Notifications.setNotificationChannelAsync(DAILY_REMINDER_CHANNEL, {
+    name: 'Daily reminders',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    sound: 'default',
+  }).catch((error) => {
+    channelReady = null;
+    logger.error('Failed to create daily reminder channel', error as Error);
+  });
+  return channelReady;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+async function getQuranGoalCandidates(window: PlanningWindow): Promise<NotificationCandidate[]> {
+  const settings = usePreferencesStore.getState().dailyReminders.quranGoal;
+  if (!settings.enabled) return [];
+  await ensureChannel();
+
+  const { recitationPlan, lastReadDate, currentStreak } = useQuranStore.getState();
+  const body = recitationPlan
+    ? `Today's goal: ${+calculateDailyTarget(recitationPlan).toFixed(1)} ${recitationPlan.planType} to stay on your recitation plan.`
+    : currentStreak > 1
+      ? `Read a few ayahs to keep your ${currentStreak}-day streak.`
+      : 'Read a few ayahs today.';
+
+  return dailyCandidates('quran-goal', settings, window, lastReadDate === todayStr(), {
+    title: 'Time for your Quran reading',
+    body,
+    data: recitationPlan ? { type: 'quran-goal', url: '/recitationPlan' } : { type: 'quran-goal' },
+  });
+}
+
+async function getTasbihCandidates(window: PlanningWindow): Promise<NotificationCandidate[]> {
+  const settings = usePreferencesStore.getState().dailyReminders.tasbih;
+  if (!settings.enabled) return [];
+  await ensureChannel();
+
+  const { lastDate, todayTotal } = useTasbihStore.getState();
+  return dailyCandidates('tasbih', settings, window, lastDate === todayStr() && todayTotal > 0, {
+    title: 'Remember Allah',
+    body: 'Take a moment for your daily dhikr.',
+    data: { type: 'tasbih', url: '/tasbih' },
+  });
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+let registered = false;
+
+/**
+ * Register the Quran goal and tasbih providers, and re-plan when their
+ * settings change or today's habit gets done
+ *
+ * Safe to call more than once (app start and background fetch).
+ */
+export function registerDailyReminders(): void {
+  if (registered) return;
+  registered = true;
+
+  notificationPlanner.register({ id: 'quran-goal', getCandidates: getQuranGoalCandidates });
+  notificationPlanner.register({ id: 'tasbih', getCandidates: getTasbihCandidates });
+
+  usePreferencesStore.subscribe((state, previous) => {
+    if (state.dailyReminders !== previous.dailyReminders) {
+      notificationPlanner.replan('settings');
+    }
+  });
+
+  useQuranStore.subscribe((state, previous) => {
+    const today = todayStr();
+    if (state.lastReadDate === today && previous.lastReadDate !== today) {
+      logger.debug('Quran read today, dropping today\'s reminder');
+      notificationPlanner.replan('provider');
+    }
+  });
+
+  useTasbihStore.subscribe((state, previous) => {
+    const today = todayStr();
+    const done = state.lastDate === today && state.todayTotal > 0;
+    const wasDone = previous.lastDate === today && previous.todayTotal > 0;
+    if (done && !wasDone) {
+      logger.debug('Dhikr counted today, dropping today\'s reminder');
+      notificationPlanner.replan('provider');
+    }
+  });
+
+  logger.info('Daily reminder providers registered');
+}
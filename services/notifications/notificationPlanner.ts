@@ -0,0 +1,387 @@
+/**
+ * Notification Planner
+ *
+ * Single owner of the app's scheduled local notifications. Features register a
+ * provider that returns candidate notifications for the planning window; the
+ * planner ranks every candidate by category priority, fills the OS budget
+ * greedily and records what did not fit.
+ *
+ * - One shared budget (iOS drops pending notifications beyond 64)
+ * - Category priority, then earliest first within a category
+ * - Snoozes and other one-off notifications scheduled outside the planner are
+ *   left alone and counted against the budget
+ * - Re-plans on app foreground, and from the background fetch task
+ *   (backgroundReplanTask) via `replanNotificationsInBackground`
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import * as Notifications from 'expo-notifications';
+import { AppState } from 'react-native';
+import { addDays, format, startOfDay } from 'date-fns';
+import { defaultStorage } from '../../api/client/storage';
+
+import { createLogger } from '../../services/logging/logger';
+
+const logger = createLogger('Notification Planner');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NotificationCategory =
+  | 'adhan'
+  | 'iftar'
+  | 'sahur'
+  | 'jumaat'
+  | 'reminder'
+  | 'quran-goal'
+  | 'nudge'
+  | 'tasbih';
+
+/** What a notification shows and how it sounds once scheduled. */
+export interface LocalNotificationContent {
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  sound?: string;             // iOS sound file; Android uses the channel's sound
+  channelId?: string;
+  silent?: boolean;
+  categoryIdentifier?: string; // action buttons
+}
+
+/** A notification a feature would like scheduled. */
+export interface NotificationCandidate {
+  key: string;                // stable across plans, e.g. 'prayer:2026-10-18:Asar:adhan'
+  category: NotificationCategory;
+  date: string;               // day it belongs to (YYYY-MM-DD)
+  fireAt: Date;
+  content: LocalNotificationContent;
+}
+
+/** Days the planner is filling, starting today. */
+export interface PlanningWindow {
+  start: Date;
+  end: Date;
+  dates: string[];            // YYYY-MM-DD, today first
+}
+
+export interface NotificationProvider {
+  id: string;
+  getCandidates(window: PlanningWindow): Promise<NotificationCandidate[]>;
+}
+
+export interface PlannedNotification {
+  id?: string;                // OS identifier (scheduled entries only)
+  key: string;
+  provider: string;
+  category: NotificationCategory;
+  date: string;
+  fireAt: string;             // ISO
+}
+
+/** Candidate tagged with the provider that produced it. */
+type ProvidedCandidate = NotificationCandidate & { provider: string };
+
+export type ReplanReason = 'foreground' | 'background-fetch' | 'settings' | 'provider';
+
+export interface NotificationPlan {
+  plannedAt: number;
+  reason: ReplanReason;
+  budget: number;
+  scheduled: PlannedNotification[];
+  dropped: PlannedNotification[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// iOS silently drops pending notifications beyond 64. Stay under so the
+// platform never picks what gets dropped.
+export const MAX_SCHEDULED_NOTIFICATIONS = 58;
+
+export const PLANNING_DAYS = 5;
+
+/** Higher wins when the budget runs out. */
+export const NOTIFICATION_CATEGORY_PRIORITY: Record<NotificationCategory, number> = {
+  adhan: 100,
+  iftar: 90,
+  sahur: 90,
+  jumaat: 80,
+  reminder: 60,
+  'quran-goal': 40,
+  nudge: 30,
+  tasbih: 20,
+};
+
+const PLAN_STORAGE_KEY = 'notification_plan';
+
+// Written by the prayer scheduler before the planner owned scheduling
+const LEGACY_STORAGE_KEYS = ['scheduled_notifications', 'notification_metadata'];
+
+// Coming back to the app within this window reuses the plan (same day only)
+const FOREGROUND_REPLAN_INTERVAL_MS = 15 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Order candidates for the budget: category priority, then earliest first
+ */
+export function rankNotificationCandidates<T extends NotificationCandidate>(candidates: T[]): T[] {
+  return [...candidates].sort(
+    (a, b) =>
+      NOTIFICATION_CATEGORY_PRIORITY[b.category] - NOTIFICATION_CATEGORY_PRIORITY[a.category] ||
+      a.fireAt.getTime() - b.fireAt.getTime() ||
+      a.key.localeCompare(b.key)
+  );
+}
+
+function toPlanned({ key, provider, category, date, fireAt }: ProvidedCandidate, id?: string): PlannedNotification {
+  return { id, key, provider, category, date, fireAt: fireAt.toISOString() };
+}
+
+function getPlanningWindow(now: Date): PlanningWindow {
+  const today = startOfDay(now);
+  const dates = Array.from({ length: PLANNING_DAYS }, (_, i) => format(addDays(today, i), 'yyyy-MM-dd'));
+  return { start: now, end: addDays(today, PLANNING_DAYS), dates };
+}
+
+/**
+ * Create notification trigger from Date or seconds
+ */
+function createTrigger(trigger: Date | number, channelId?: string): Notifications.NotificationTriggerInput {
+  const channel = channelId ? { channelId } : {};
+  const seconds =
+    typeof trigger === 'number'
+      ? trigger
+      : Math.max(1, Math.floor((trigger.getTime() - Date.now()) / 1000));
+
+  return {
+    type: 'timeInterval',
+    seconds,
+    repeats: false,
+    ...channel,
+  } as Notifications.TimeIntervalTriggerInput;
+}
+
+/**
+ * Schedule a single notification
+ *
+ * Used by the planner and for one-off alerts (e.g. snoozes) that should not
+ * wait for the next plan.
+ */
+export async function scheduleLocalNotification(
+  content: LocalNotificationContent,
+  trigger: Date | number
+): Promise<string> {
+  const notificationContent: Notifications.NotificationContentInput = {
+    title: content.title,
+    body: content.body,
+    data: content.data,
+    // iOS plays this sound directly; on Android the channel owns the sound.
+    // silent -> no sound (false), so quiet-hours/silent alerts still show.
+    sound: content.silent ? false : content.sound || 'default',
+    priority: content.silent
+      ? Notifications.AndroidNotificationPriority.DEFAULT
+      : Notifications.AndroidNotificationPriority.HIGH,
+    categoryIdentifier: content.categoryIdentifier,
+  };
+
+  return Notifications.scheduleNotificationAsync({
+    content: notificationContent,
+    trigger: createTrigger(trigger, content.channelId),
+  });
+}
+
+// ============================================================================
+// PLANNER
+// ============================================================================
+
+class NotificationPlanner {
+  private providers = new Map<string, NotificationProvider>();
+  private planning: Promise<NotificationPlan | null> | null = null;
+  private pendingReason: ReplanReason | null = null;
+
+  constructor() {
+    AppState.addEventListener('change', (state) => {
+      if (state === 'active' && this.isPlanStale()) {
+        this.replan('foreground');
+      }
+    });
+  }
+
+  /**
+   * Register a feature's candidates. Call `replan` when its inputs change.
+   *
+   * @returns Unregister function
+   */
+  register(provider: NotificationProvider): () => void {
+    this.providers.set(provider.id, provider);
+    logger.debug('Provider registered', { provider: provider.id });
+    return () => {
+      this.providers.delete(provider.id);
+    };
+  }
+
+  /**
+   * Rebuild the schedule from every provider's candidates
+   *
+   * Calls made while a plan is running are coalesced into one follow-up plan
+   * and resolve with the in-flight result.
+   */
+  async replan(reason: ReplanReason): Promise<NotificationPlan | null> {
+    if (this.planning) {
+      this.pendingReason = reason;
+      return this.planning;
+    }
+
+    this.planning = this.plan(reason);
+    try {
+      return await this.planning;
+    } finally {
+      this.planning = null;
+      const next = this.pendingReason;
+      this.pendingReason = null;
+      if (next) this.replan(next);
+    }
+  }
+
+  /** Last recorded plan, including what was dropped. */
+  getPlan(): NotificationPlan | null {
+    return defaultStorage.get<NotificationPlan>(PLAN_STORAGE_KEY);
+  }
+
+  private isPlanStale(): boolean {
+    const plan = this.getPlan();
+    if (!plan) return true;
+    const sameDay = format(plan.plannedAt, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
+    return !sameDay || Date.now() - plan.plannedAt > FOREGROUND_REPLAN_INTERVAL_MS;
+  }
+
+  private async plan(reason: ReplanReason): Promise<NotificationPlan | null> {
+    logger.time('notification-plan');
+
+    try {
+      const { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') {
+        logger.warn('No notification permissions, skipping plan', { reason });
+        return null;
+      }
+
+      const window = getPlanningWindow(new Date());
+      const candidates = await this.collectCandidates(window);
+
+      const previous = this.getPlan();
+      if (!previous) {
+        await this.clearLegacySchedule();
+      }
+
+      // Anything pending that this planner did not schedule keeps its slot
+      const previousIds = new Set(previous?.scheduled.map((n) => n.id) ?? []);
+      const pending = await Notifications.getAllScheduledNotificationsAsync();
+      const unmanaged = pending.filter((n) => !previousIds.has(n.identifier)).length;
+      const budget = Math.max(0, MAX_SCHEDULED_NOTIFICATIONS - unmanaged);
+
+      const ranked = rankNotificationCandidates(candidates);
+      const selected = ranked.slice(0, budget);
+      const dropped = ranked.slice(budget).map((candidate) => toPlanned(candidate));
+
+      await Promise.all(
+        [...previousIds].map((id) =>
+          id ? Notifications.cancelScheduledNotificationAsync(id).catch(() => undefined) : null
+        )
+      );
+
+      const scheduled: PlannedNotification[] = [];
+      for (const candidate of selected) {
+        try {
+          const id = await scheduleLocalNotification(candidate.content, candidate.fireAt);
+          scheduled.push(toPlanned(candidate, id));
+        } catch (error) {
+          logger.error('Failed to schedule notification', error as Error, {
+            key: candidate.key,
+            provider: candidate.provider,
+          });
+        }
+      }
+
+      const plan: NotificationPlan = {
+        plannedAt: Date.now(),
+        reason,
+        budget,
+        scheduled,
+        dropped,
+      };
+      defaultStorage.set(PLAN_STORAGE_KEY, plan);
+
+      logger.success('Notification plan complete', {
+        reason,
+        candidates: candidates.length,
+        scheduled: scheduled.length,
+        dropped: dropped.length,
+        budget,
+        unmanaged,
+      });
+      return plan;
+    } catch (error) {
+      logger.error('Notification planning failed', error as Error, { reason });
+      return null;
+    } finally {
+      logger.timeEnd('notification-plan');
+    }
+  }
+
+  /** Candidates inside the window from every provider, deduplicated by key. */
+  private async collectCandidates(window: PlanningWindow): Promise<ProvidedCandidate[]> {
+    const now = Date.now();
+    const byKey = new Map<string, ProvidedCandidate>();
+
+    for (const provider of this.providers.values()) {
+      try {
+        const candidates = await provider.getCandidates(window);
+        for (const candidate of candidates) {
+          const fireAt = candidate.fireAt.getTime();
+          if (fireAt <= now || fireAt >= window.end.getTime()) continue;
+
+          byKey.set(candidate.key, { ...candidate, provider: provider.id });
+        }
+      } catch (error) {
+        logger.error('Provider failed to build candidates', error as Error, { provider: provider.id });
+      }
+    }
+
+    return [...byKey.values()];
+  }
+
+  /**
+   * Before the planner, the prayer scheduler owned every pending notification
+   * and cancelled them all on each run. Start the first plan from a clean slate.
+   */
+  private async clearLegacySchedule() {
+    if (!LEGACY_STORAGE_KEYS.some((key) => defaultStorage.contains(key))) return;
+
+    logger.info('Clearing notifications from the legacy scheduler');
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    LEGACY_STORAGE_KEYS.forEach((key) => defaultStorage.delete(key));
+  }
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export const notificationPlanner = new NotificationPlanner();
+
+/**
+ * Entry point for the background fetch task (backgroundReplanTask), so alerts
+ * for the last days of the window get scheduled even if the app is not opened.
+ */
+export function replanNotificationsInBackground(): Promise<NotificationPlan | null> {
+  return notificationPlanner.replan('background-fetch');
+}
+
+export { NotificationPlanner };
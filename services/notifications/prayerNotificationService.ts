@@ -5,25 +5,81 @@
  * ✅ IMPROVED: Added performance timers, better error context, detailed scheduling logs
  * 
  * Schedules prayer time notifications with:
- * - 5-day lookahead scheduling
- * - Reminder + Adhan notifications
- * - Firebase (MUIS official) + Aladhan (fallback)
- * - Smart rescheduling (only when needed)
+ * - 5-day lookahead, scheduled through the notification planner's shared budget
+ * - Adhan notifications plus any number of reminders per prayer, with
+ *   weekday filters (Friday Zohor is announced as Jumaat)
+ * - Friday khutbah preview (opens the khutbah) and "leave for the mosque"
+ *   reminder timed from the travel estimate to a favourite mosque
+ * - Firebase (MUIS official) + Aladhan (fallback) + on-device calculation (offline)
+ * - User calculation profile (method, Asr school, adjustments) for future days
+ * - Future days' prayer times cached between re-plans
  * - Per-prayer muting support
+ * - Per-prayer adhan, including sounds imported by the user (iOS)
+ * - Sahur (before imsak) and iftar alerts during Ramadan
+ * - "Prayed" action that logs the prayer without opening the app (only once
+ *   the prayer has started; reminders and sahur/iftar alerts offer Snooze only)
+ * - Optional nudge before a prayer's window closes if it is not logged
  * 
- * @version 2.0
+ * @version 3.7
  * @since 2025-12-24
  */
 
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import { addDays, format, startOfDay } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { defaultStorage } from '../../api/client/storage';
 import { fetchPrayerTimesByDateFromAladhan } from '../../api/services/prayer/api/aladhan';
 import { fetchDailyPrayerTimeFromFirebase } from '../../api/services/prayer/api/firebase';
 import { normalizeAladhanResponse, normalizeFirebaseTime } from '../../api/services/prayer/api/transformers';
-import type { NormalizedPrayerTimes, LocalPrayerName } from '../../api/services/prayer/types';
-import { LOGGABLE_PRAYERS } from '../../api/services/prayer/';
+import { calculatePrayerTimes } from '../../api/services/prayer/utils/astronomical';
+import {
+  applyPrayerTimeAdjustments,
+  getCalculationParameters,
+  getCalculationProfileKey,
+  usesOfficialMuisTimes,
+} from '../../api/services/prayer/utils/calculation-profile';
+import { onPrayerLogWritten, readPrayerLog, writePrayerLog } from '../../api/services/prayer/queries/prayer-logs';
+import type {
+  NormalizedPrayerTimes,
+  LocalPrayerName,
+  LoggablePrayerName,
+  PrayerCalculationProfile,
+  JumaatTravelMode,
+  PrayerLog,
+  PrayerReminderRule,
+} from '../../api/services/prayer/types';
+import {
+  JUMAAT_TRAVEL_MODES,
+  JUMAAT_WEEKDAY,
+  LOGGABLE_PRAYERS,
+  SAHUR_REMINDER_MINUTES,
+} from '../../api/services/prayer/';
+import { getImsakTime } from '../../api/services/prayer/utils/ramadan';
+import {
+  createEmptyPrayerLogPrayers,
+  createPrayerLogEntry,
+  getNextPrayer,
+  isPrayerPrayed,
+} from '../../api/services/prayer/utils/prayer';
+import {
+  getJumaatLeaveTime,
+  getPrayerDisplayName,
+  getReminderRulesForDay,
+} from '../../api/services/prayer/utils/reminders';
+import { buildTravelTag } from '../../api/services/prayer/utils/travel';
+import { getKhutbahHref, isKhutbahForFriday, type Khutbah, type Language } from '../../api/services/khutbah';
+import { useAuthStore } from '../../stores/useAuthStore';
+import { useTravelStore } from '../../stores/useTravelStore';
+import type { AdhanSelection, CustomAdhan } from '../../stores/userPreferencesStore';
+import { CUSTOM_ADHAN_SUPPORTED, findCustomAdhan } from './customAdhanSounds';
+import {
+  notificationPlanner,
+  scheduleLocalNotification,
+  type LocalNotificationContent,
+  type NotificationCandidate,
+  type PlannedNotification,
+  type PlanningWindow,
+} from './notificationPlanner';
 
 // ✅ Import structured logging
 import { createLogger } from '../../services/logging/logger';
@@ -35,20 +91,7 @@ const logger = createLogger('Prayer Notifications');
 // TYPES
 // ============================================================================
 
-interface ScheduledNotification {
-  id: string;
-  prayerName: LocalPrayerName;
-  type: 'reminder' | 'adhan';
-  scheduledFor: Date;
-  date: string;
-}
-
-interface NotificationMetadata {
-  lastScheduledDate: string;
-  scheduledDates: string[];
-  scheduledCount: number;
-  lastUpdated: number;
-}
+type PrayerAlertType = 'reminder' | 'adhan' | 'sahur' | 'iftar' | 'nudge';
 
 interface LocationCoords {
   latitude: number;
@@ -62,12 +105,16 @@ interface LocationCoords {
 /**
  * Internal helper: Fetch prayer times for a specific date
  * 
- * **Priority: Firebase (MUIS official) → Aladhan (fallback)**
+ * **Priority: Firebase (MUIS official) → Aladhan (fallback) → calculated (offline)**
+ * 
+ * Firebase is skipped when the MUIS timetable does not apply to the profile or
+ * location. The profile's per-prayer adjustments are applied to every source.
  */
 async function fetchPrayerTimesForDate(
   latitude: number,
   longitude: number,
-  date: Date
+  date: Date,
+  profile: PrayerCalculationProfile
 ): Promise<NormalizedPrayerTimes> {
   logger.time('fetch-prayer-times');
   const isoDate = format(date, 'yyyy-MM-dd');
@@ -78,33 +125,41 @@ async function fetchPrayerTimesForDate(
     longitude,
   });
   
-  // Try Firebase FIRST (MUIS official timings)
-  try {
-    logger.debug('Attempting Firebase (MUIS official)...', { date: isoDate });
-    const firebaseData = await fetchDailyPrayerTimeFromFirebase(isoDate);
-    
-    if (firebaseData) {
-      const normalized = normalizeFirebaseTime(firebaseData);
-      logger.success('Using Firebase (MUIS official)', {
+  // Try Firebase FIRST (MUIS official timings) when they apply
+  if (usesOfficialMuisTimes(profile, { latitude, longitude })) {
+    try {
+      logger.debug('Attempting Firebase (MUIS official)...', { date: isoDate });
+      const firebaseData = await fetchDailyPrayerTimeFromFirebase(isoDate);
+      
+      if (firebaseData) {
+        const normalized = applyPrayerTimeAdjustments(
+          normalizeFirebaseTime(firebaseData),
+          profile.adjustments
+        );
+        logger.success('Using Firebase (MUIS official)', {
+          date: isoDate,
+          source: 'firebase',
+          prayers: Object.keys(normalized),
+        });
+        logger.timeEnd('fetch-prayer-times');
+        return normalized;
+      }
+    } catch (error) {
+      logger.warn('Firebase failed, using Aladhan fallback', {
         date: isoDate,
-        source: 'firebase',
-        prayers: Object.keys(normalized),
+        error: error instanceof Error ? error.message : String(error),
       });
-      logger.timeEnd('fetch-prayer-times');
-      return normalized;
     }
-  } catch (error) {
-    logger.warn('Firebase failed, using Aladhan fallback', {
-      date: isoDate,
-      error: error instanceof Error ? error.message : String(error),
-    });
   }
   
-  // Fallback to Aladhan ONLY if Firebase unavailable
+  // Fallback to Aladhan if Firebase unavailable or not applicable
   try {
-    logger.debug('Using Aladhan API (fallback)...', { date: isoDate });
-    const aladhanData = await fetchPrayerTimesByDateFromAladhan(latitude, longitude, date);
-    const normalized = normalizeAladhanResponse(aladhanData);
+    logger.debug('Using Aladhan API (fallback)...', { date: isoDate, method: profile.method });
+    const aladhanData = await fetchPrayerTimesByDateFromAladhan(latitude, longitude, date, profile);
+    const normalized = applyPrayerTimeAdjustments(
+      normalizeAladhanResponse(aladhanData),
+      profile.adjustments
+    );
     
     logger.success('Using Aladhan (fallback)', {
       date: isoDate,
@@ -113,6 +168,27 @@ async function fetchPrayerTimesForDate(
     });
     logger.timeEnd('fetch-prayer-times');
     return normalized;
+  } catch (error) {
+    logger.warn('Aladhan failed, calculating on-device', {
+      date: isoDate,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  // Last resort: astronomical calculation, so offline days still get alerts
+  try {
+    const calculated = applyPrayerTimeAdjustments(
+      calculatePrayerTimes(date, { latitude, longitude }, getCalculationParameters(profile)),
+      profile.adjustments
+    );
+
+    logger.success('Using on-device calculation (offline fallback)', {
+      date: isoDate,
+      source: 'calculated',
+      prayers: Object.keys(calculated),
+    });
+    logger.timeEnd('fetch-prayer-times');
+    return calculated;
   } catch (error) {
     logger.error('All prayer time sources failed', error as Error, {
       date: isoDate,
@@ -152,19 +228,57 @@ const ANDROID_CHANNEL_SOUND: Record<string, string> = {
   'prayer-adhan-default': 'default',
 };
 
+/**
+ * Sound for an adhan selection: the iOS sound file and the Android channel.
+ * Imported sounds that were since deleted, and any imported sound on Android
+ * (its channel cannot play it), fall back to the default sound.
+ */
+function resolveAdhanSound(
+  selection: string,
+  customAdhans: CustomAdhan[]
+): { iosSound: string | undefined; androidChannel: string } {
+  const custom = findCustomAdhan(selection, customAdhans);
+  if (custom && CUSTOM_ADHAN_SUPPORTED) {
+    return { iosSound: custom.fileName, androidChannel: ADHAN_ANDROID_CHANNEL.None };
+  }
+  return {
+    iosSound: ADHAN_IOS_SOUND[selection],
+    androidChannel: ADHAN_ANDROID_CHANNEL[selection] ?? 'prayer-adhan-default',
+  };
+}
+
 const REMINDER_CHANNEL = 'prayer-reminder';
 // Delivered but silent (quiet hours / per-prayer silent). Still visible in tray.
 const SILENT_CHANNEL = 'prayer-silent';
 
-// Notification category carrying the "Snooze" action button.
+// Notification categories: alerts from the prayer's start onwards carry
+// "Prayed" and "Snooze"; heads-ups before it (reminders, sahur, iftar) only
+// "Snooze", so a prayer can't be logged before its time.
 const PRAYER_CATEGORY = 'prayer-alert';
+const REMINDER_CATEGORY = 'prayer-reminder-alert';
 const SNOOZE_ACTION = 'snooze';
+const PRAYED_ACTION = 'prayed';
 const SNOOZE_MINUTES = 10;
 
-// iOS silently drops pending notifications beyond 64. Stay well under so the
-// last scheduled days never get dropped (and leave headroom for other local
-// notifications the app may post).
-const MAX_SCHEDULED_NOTIFICATIONS = 58;
+// Missed-prayer nudge lead time before the next prayer starts.
+const NUDGE_MINUTES = 20;
+
+// Khutbah summaries are long; the notification shows the opening only.
+const KHUTBAH_PREVIEW_LENGTH = 180;
+
+// Alerts that nag about a prayer after its time; cancelled once it is logged.
+const FOLLOW_UP_TYPES = ['snooze', 'nudge'];
+
+// Alerts whose "Prayed" action may log the prayer (the rest fire before it starts).
+const PRAYED_ALERT_TYPES = ['adhan', 'nudge', 'snooze'];
+
+// Last inputs from the preferences, so re-plans after a cold start (or from a
+// background task) still include prayer alerts
+const SCHEDULE_INPUT_KEY = 'prayer_notification_input';
+
+// Responses already handled (the cold-start response can also reach the listener).
+const HANDLED_RESPONSES_KEY = 'handled_notification_responses';
+const MAX_HANDLED_RESPONSES = 20;
 
 export interface QuietHours {
   enabled: boolean;
@@ -181,14 +295,69 @@ function isWithinQuietHours(date: Date, qh: QuietHours): boolean {
   return s < e ? mins >= s && mins < e : mins >= s || mins < e;
 }
 
+/**
+ * Friday extras, resolved by the prayer screen from the khutbah list and the
+ * user's favourite mosque. Either part is null when switched off.
+ */
+export interface JumaatNotificationConfig {
+  preview: {
+    atMinutes: number;                // minutes from midnight
+    khutbah: Pick<Khutbah, 'id' | 'title' | 'date' | 'summary'> | null; // latest khutbah
+    language: Language;
+  } | null;
+  leave: {
+    mosqueName: string;
+    travelMode: JumaatTravelMode;
+    travelMinutes: number;
+    arriveMinutesBefore: number;
+  } | null;
+}
+
 /** Per-call notification config threaded down from the user's preferences. */
 interface ScheduleConfig {
   reminderMinutes: number;            // default offset
   mutedPrayers: LocalPrayerName[];
   selectedAdhan: string;
-  prayerReminders: Record<string, number>; // per-prayer override (minutes)
+  prayerAdhans: Record<string, AdhanSelection>; // per-prayer adhan override
+  customAdhans: CustomAdhan[];        // sounds imported by the user
+  prayerReminderRules: Record<string, PrayerReminderRule[]>; // per-prayer rules (missing = default)
   silentPrayers: string[];            // prayers whose at-time alert is silent
   quietHours: QuietHours;
+  calculationProfile: PrayerCalculationProfile; // used to fetch future days
+  ramadanDates: string[];             // days (YYYY-MM-DD) that get sahur/iftar alerts
+  missedPrayerNudge: boolean;         // nudge before the window closes if not logged
+  jumaat: JumaatNotificationConfig | null; // Friday khutbah preview and leave reminder
+}
+
+/** Everything the prayer provider needs to rebuild its candidates. */
+interface ScheduleInput {
+  prayerData: NormalizedPrayerTimes;
+  config: ScheduleConfig;
+  location: LocationCoords;
+}
+
+/**
+ * Planner candidate for one prayer alert; the key is stable across re-plans.
+ * `variant` tells apart several alerts of one type (e.g. reminder rules).
+ */
+function prayerCandidate(
+  type: PrayerAlertType,
+  prayer: LocalPrayerName,
+  date: string,
+  fireAt: Date,
+  content: Omit<LocalNotificationContent, 'categoryIdentifier'>,
+  variant?: string
+): NotificationCandidate {
+  return {
+    key: `prayer:${date}:${prayer}:${type}${variant ? `:${variant}` : ''}`,
+    category: type,
+    date,
+    fireAt,
+    content: {
+      ...content,
+      categoryIdentifier: PRAYED_ALERT_TYPES.includes(type) ? PRAYER_CATEGORY : REMINDER_CATEGORY,
+    },
+  };
 }
 
 // ============================================================================
@@ -196,15 +365,30 @@ interface ScheduleConfig {
 // ============================================================================
 
 class PrayerNotificationService {
-  private readonly NOTIFICATION_STORAGE_KEY = 'scheduled_notifications';
-  private readonly METADATA_STORAGE_KEY = 'notification_metadata';
-  private readonly DAYS_TO_SCHEDULE = 5;
-  
-  // ✅ ADD: Scheduling lock to prevent concurrent calls
-  private isScheduling = false;
+  // Latest inputs from the preferences; null while prayer alerts are off
+  private scheduleInput = defaultStorage.get<ScheduleInput>(SCHEDULE_INPUT_KEY);
+
+  // Future days' prayer times, keyed by date, profile and location
+  private timesCache = new Map<string, NormalizedPrayerTimes>();
+
+  // Notified after a prayer is logged from a notification action
+  private prayerLoggedListeners = new Set<(log: PrayerLog) => void>();
   
   constructor() {
     logger.info('Initializing Prayer Notification Service');
+    notificationPlanner.register({
+      id: 'prayer',
+      getCandidates: (window) => this.getCandidates(window),
+    });
+    // However a prayer is logged (list, dashboard, "Prayed" action), its
+    // snoozes and missed-prayer nudge go
+    onPrayerLogWritten(({ date, prayers }) => {
+      LOGGABLE_PRAYERS.filter((prayer) => isPrayerPrayed(prayers[prayer])).forEach((prayer) =>
+        this.cancelFollowUps(prayer, date).catch((error) =>
+          logger.warn('Failed to cancel follow-up alerts', { prayer, date, error })
+        )
+      );
+    });
     this.initialize();
   }
 
@@ -227,8 +411,21 @@ class PrayerNotificationService {
 
       logger.debug('Notification handler configured');
 
-      // Register the "Snooze" action button and listen for taps on it.
+      // Register the action buttons and listen for taps on them. A tap that
+      // launched the app from cold is picked up via the last response.
       await Notifications.setNotificationCategoryAsync(PRAYER_CATEGORY, [
+        {
+          identifier: PRAYED_ACTION,
+          buttonTitle: 'Prayed',
+          options: { opensAppToForeground: false },
+        },
+        {
+          identifier: SNOOZE_ACTION,
+          buttonTitle: `Snooze ${SNOOZE_MINUTES} min`,
+          options: { opensAppToForeground: false },
+        },
+      ]);
+      await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [
         {
           identifier: SNOOZE_ACTION,
           buttonTitle: `Snooze ${SNOOZE_MINUTES} min`,
@@ -236,11 +433,14 @@ class PrayerNotificationService {
         },
       ]);
       Notifications.addNotificationResponseReceivedListener((response) => {
-        if (response.actionIdentifier === SNOOZE_ACTION) {
-          this.handleSnooze(response.notification.request.content.data ?? {});
-        }
+        this.handleResponse(response);
       });
 
+      const lastResponse = await Notifications.getLastNotificationResponseAsync();
+      if (lastResponse) {
+        await this.handleResponse(lastResponse);
+      }
+
       await this.requestPermissions();
 
       logger.success('Prayer Notification Service initialized');
@@ -249,28 +449,170 @@ class PrayerNotificationService {
     }
   }
 
-  /** Re-fire a prayer alert SNOOZE_MINUTES from now, preserving its sound. */
+  /** Route an action button tap, once per notification and action. */
+  private async handleResponse(response: Notifications.NotificationResponse) {
+    const { actionIdentifier } = response;
+    if (actionIdentifier !== SNOOZE_ACTION && actionIdentifier !== PRAYED_ACTION) return;
+
+    const responseKey = `${response.notification.request.identifier}:${actionIdentifier}`;
+    const handled = this.getHandledResponses();
+    if (handled.includes(responseKey)) return;
+    defaultStorage.set(HANDLED_RESPONSES_KEY, [...handled, responseKey].slice(-MAX_HANDLED_RESPONSES));
+
+    const data = response.notification.request.content.data ?? {};
+    if (actionIdentifier === SNOOZE_ACTION) {
+      await this.handleSnooze(data);
+    } else {
+      await this.handlePrayed(data);
+    }
+  }
+
+  private getHandledResponses(): string[] {
+    return defaultStorage.get<string[]>(HANDLED_RESPONSES_KEY) ?? [];
+  }
+
+  /**
+   * Log the prayer as prayed (same path as the prayer list: guest storage or
+   * the outbox, so it is queued while offline) and cancel its follow-ups.
+   *
+   * Refused for alerts that fire before the prayer (reminders, sahur, iftar)
+   * and before the prayer's time on that day, as the prayer list does.
+   */
+  private async handlePrayed(data: Record<string, any>) {
+    const prayer = data.prayer as LoggablePrayerName;
+    if (!LOGGABLE_PRAYERS.includes(prayer)) {
+      logger.warn('Prayed action without a loggable prayer', { prayer });
+      return;
+    }
+    if (!PRAYED_ALERT_TYPES.includes(data.type)) {
+      logger.warn('Prayed action on an alert before the prayer', { prayer, type: data.type });
+      return;
+    }
+
+    const date: string = data.date ?? format(new Date(), 'yyyy-MM-dd');
+    const startsAt = await this.getPrayerStart(prayer, date);
+    if (!startsAt || startsAt > new Date()) {
+      logger.warn('Prayed action before the prayer time', { prayer, date, startsAt });
+      return;
+    }
+
+    const userId = useAuthStore.getState().user?.uid ?? null;
+
+    try {
+      // Offline reads can fail; an untouched day is safe to write over because
+      // queued writes are merged per prayer with what is stored.
+      const current = await readPrayerLog(userId, date).catch(() => null);
+      const prayers = current?.prayers ?? createEmptyPrayerLogPrayers();
+
+      if (!isPrayerPrayed(prayers[prayer])) {
+        const updatedPrayers = { ...prayers, [prayer]: createPrayerLogEntry('on_time') };
+        const session = useTravelStore.getState().getSessionForDate(date);
+        const log = await writePrayerLog({
+          userId,
+          date,
+          prayers: updatedPrayers,
+          travel: session
+            ? buildTravelTag(updatedPrayers, session.id, session.destination.name, current?.travel)
+            : undefined,
+        });
+
+        this.prayerLoggedListeners.forEach((listener) => listener(log));
+        logger.success('Prayer logged from notification', { prayer, date, guest: !userId });
+      } else {
+        // Logged elsewhere already; saving would have cancelled the follow-ups
+        await this.cancelFollowUps(prayer, date);
+      }
+    } catch (e) {
+      logger.error('Failed to log prayer from notification', e as Error, { prayer, date });
+    }
+  }
+
+  /**
+   * When a prayer starts on a date, from the scheduled inputs (null when prayer
+   * alerts are off or the day's times can't be loaded)
+   */
+  private async getPrayerStart(prayer: LoggablePrayerName, date: string): Promise<Date | null> {
+    if (!this.scheduleInput) return null;
+
+    const { prayerData, config, location } = this.scheduleInput;
+    try {
+      const times =
+        prayerData.date === date
+          ? prayerData
+          : await this.getPrayerTimes(date, config.calculationProfile, location);
+      const time = times[prayer.toLowerCase() as keyof NormalizedPrayerTimes];
+      if (!time) return null;
+
+      const [hours, minutes] = time.split(':').map(Number);
+      const startsAt = parseISO(date);
+      startsAt.setHours(hours, minutes, 0, 0);
+      return startsAt;
+    } catch (error) {
+      logger.error('Failed to load prayer time for Prayed action', error as Error, { prayer, date });
+      return null;
+    }
+  }
+
+  /**
+   * Cancel pending follow-up alerts (snoozes, missed-prayer nudges) for a
+   * prayer on a date — runs on every saved log that has it prayed
+   */
+  async cancelFollowUps(prayer: string, date: string): Promise<void> {
+    const pending = await Notifications.getAllScheduledNotificationsAsync();
+    const followUps = pending.filter(({ content }) => {
+      const data = content.data ?? {};
+      return FOLLOW_UP_TYPES.includes(data.type as string) && data.prayer === prayer && data.date === date;
+    });
+
+    await Promise.all(
+      followUps.map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier))
+    );
+
+    if (followUps.length > 0) {
+      logger.debug('Follow-up alerts cancelled', { prayer, date, count: followUps.length });
+    }
+  }
+
+  /**
+   * Subscribe to prayers logged from the "Prayed" action
+   *
+   * @returns Unsubscribe function
+   */
+  onPrayerLogged(listener: (log: PrayerLog) => void): () => void {
+    this.prayerLoggedListeners.add(listener);
+    return () => {
+      this.prayerLoggedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Re-fire a prayer alert SNOOZE_MINUTES from now, preserving its sound and
+   * its action buttons (a snoozed reminder still can't be marked prayed)
+   */
   private async handleSnooze(data: Record<string, any>) {
     const prayer = data.prayer ?? 'Prayer';
+    const snoozedType: string = data.snoozedType ?? data.type;
     const sound: string | undefined = data.sound;
     const silent = sound === 'silent';
-    const iosSound = silent ? undefined : sound ? ADHAN_IOS_SOUND[sound] : undefined;
-    const androidChannel = silent
-      ? SILENT_CHANNEL
-      : sound
-      ? ADHAN_ANDROID_CHANNEL[sound] ?? REMINDER_CHANNEL
-      : REMINDER_CHANNEL;
+    const adhanSound =
+      sound && !silent ? resolveAdhanSound(sound, this.scheduleInput?.config.customAdhans ?? []) : null;
+    const iosSound = adhanSound?.iosSound;
+    const androidChannel = silent ? SILENT_CHANNEL : adhanSound?.androidChannel ?? REMINDER_CHANNEL;
 
     try {
-      await this.scheduleNotification({
-        title: `${prayer} Prayer`,
-        body: `Snoozed reminder — time for ${prayer}.`,
-        data: { type: 'snooze', prayer, sound },
-        trigger: SNOOZE_MINUTES * 60,
-        sound: Platform.OS === 'ios' ? iosSound : undefined,
-        channelId: Platform.OS === 'android' ? androidChannel : undefined,
-        silent,
-      });
+      // Outside the planner, so the snooze survives re-plans until it fires
+      await scheduleLocalNotification(
+        {
+          title: `${prayer} Prayer`,
+          body: `Snoozed reminder — time for ${prayer}.`,
+          data: { type: 'snooze', snoozedType, prayer, sound, date: data.date },
+          sound: Platform.OS === 'ios' ? iosSound : undefined,
+          channelId: Platform.OS === 'android' ? androidChannel : undefined,
+          silent,
+          categoryIdentifier: PRAYED_ALERT_TYPES.includes(snoozedType) ? PRAYER_CATEGORY : REMINDER_CATEGORY,
+        },
+        SNOOZE_MINUTES * 60
+      );
       logger.info('Prayer alert snoozed', { prayer, minutes: SNOOZE_MINUTES });
     } catch (e) {
       logger.error('Failed to snooze prayer alert', e as Error);
@@ -364,44 +706,14 @@ class PrayerNotificationService {
     }
   }
 
-  /**
-   * Check if notifications are already scheduled for upcoming days
-   */
-  private hasExistingNotifications(): boolean {
-    logger.debug('Checking for existing scheduled notifications...');
-    
-    const metadata = this.getMetadata();
-    if (!metadata) {
-      logger.debug('No metadata found, scheduling needed');
-      return false;
-    }
-
-    const today = format(new Date(), 'yyyy-MM-dd');
-    const scheduledDates = metadata.scheduledDates || [];
-    
-    // Check if we have at least 3 future days scheduled
-    const futureDates = scheduledDates.filter(date => date >= today);
-    const hasEnoughScheduled = futureDates.length >= 3;
-
-    logger.info('Existing notifications check', {
-      totalScheduled: scheduledDates.length,
-      futureDates: futureDates.length,
-      hasEnough: hasEnoughScheduled,
-      dates: futureDates,
-      lastScheduled: metadata.lastScheduledDate,
-      totalCount: metadata.scheduledCount,
-    });
-
-    return hasEnoughScheduled;
-  }
-
   /**
    * Schedule prayer notifications for the next 5 days
-   * 
+   *
+   * Stores the inputs for the prayer provider and asks the notification
+   * planner to re-plan; the planner decides what fits in the OS budget.
+   *
    * @param prayerData - Today's prayer times (already normalized)
-   * @param reminderMinutes - Minutes before prayer to send reminder
-   * @param mutedPrayers - Prayers to skip notifications for
-   * @param selectedAdhan - Adhan sound to use
+   * @param config - Reminder, adhan, muting and quiet-hours preferences
    * @param userLocation - User's location for fetching future prayer times
    */
   async schedulePrayerNotifications(
@@ -410,9 +722,7 @@ class PrayerNotificationService {
     userLocation?: LocationCoords
   ): Promise<void> {
     const { reminderMinutes, mutedPrayers, selectedAdhan } = config;
-    logger.time('schedule-notifications');
-    logger.info('Starting notification scheduling', {
-      daysToSchedule: this.DAYS_TO_SCHEDULE,
+    logger.info('Updating prayer notification inputs', {
       reminderMinutes,
       mutedCount: mutedPrayers.length,
       mutedPrayers,
@@ -422,192 +732,135 @@ class PrayerNotificationService {
       hasLocation: !!userLocation,
     });
 
-    // Check the scheduling lock FIRST (prevents concurrent calls). This guard runs
-    // BEFORE the try/finally so its early return does NOT release a lock held by the
-    // call that is currently in flight.
-    if (this.isScheduling) {
-      logger.warn('Scheduling already in progress, blocking duplicate call');
-      logger.timeEnd('schedule-notifications');
+    // Permissions also create the Android channels the alerts are routed to
+    const hasPermission = await this.requestPermissions();
+    if (!hasPermission) {
+      logger.warn('No notification permissions, skipping scheduling');
       return;
     }
 
-    // Acquire the lock, then run the body in try/finally so EVERY exit path
-    // (including the early returns below) releases it. Previously the early returns
-    // left isScheduling=true forever, silently blocking all later reschedules.
-    this.isScheduling = true;
-    logger.debug('Scheduling lock acquired');
+    // Default to Singapore coordinates if location not provided
+    const location = userLocation || {
+      latitude: 1.3521,
+      longitude: 103.8198
+    };
 
-    try {
-      // Step 1: Check if already scheduled
-      if (this.hasExistingNotifications()) {
-        logger.success('Notifications already scheduled, skipping');
-        return;
-      }
+    if (!userLocation) {
+      logger.warn('No user location provided, using default Singapore coordinates', {
+        latitude: location.latitude,
+        longitude: location.longitude,
+      });
+    }
 
-      // Step 2: Check permissions
-      logger.debug('Verifying notification permissions...');
-      const hasPermission = await this.requestPermissions();
-      if (!hasPermission) {
-        logger.warn('No notification permissions, skipping scheduling');
-        return;
-      }
+    this.scheduleInput = { prayerData, config, location };
+    defaultStorage.set(SCHEDULE_INPUT_KEY, this.scheduleInput);
+    await notificationPlanner.replan('settings');
+  }
 
-      // Step 3: Cancel existing notifications
-      logger.debug('Cancelling existing notifications...');
-      await this.cancelAllNotifications();
+  /**
+   * Prayer provider: reminders, adhans, nudges and Ramadan alerts for every
+   * day in the planning window
+   */
+  private async getCandidates(window: PlanningWindow): Promise<NotificationCandidate[]> {
+    if (!this.scheduleInput) return [];
 
-      const scheduledNotifications: ScheduledNotification[] = [];
-      const scheduledDates: string[] = [];
+    const { prayerData, config, location } = this.scheduleInput;
+    const candidates: NotificationCandidate[] = [];
 
-      // Default to Singapore coordinates if location not provided
-      const location = userLocation || {
-        latitude: 1.3521,
-        longitude: 103.8198
-      };
+    // Prayers already logged today get no missed-prayer nudge
+    const loggedToday = config.missedPrayerNudge ? await this.getLoggedPrayers(window.start) : [];
+    this.pruneTimesCache(window.dates[0]);
 
-      if (!userLocation) {
-        logger.warn('No user location provided, using default Singapore coordinates', {
-          latitude: location.latitude,
-          longitude: location.longitude,
+    for (const [i, dateStr] of window.dates.entries()) {
+      try {
+        const dayPrayerData =
+          prayerData.date === dateStr
+            ? prayerData
+            : await this.getPrayerTimes(dateStr, config.calculationProfile, location);
+
+        const dayCandidates = this.buildDayCandidates(
+          dayPrayerData,
+          config,
+          dateStr,
+          i === 0 ? loggedToday : []
+        );
+        candidates.push(...dayCandidates);
+
+        logger.debug(`Built candidates for ${dateStr}`, {
+          date: dateStr,
+          dayNumber: i + 1,
+          notificationCount: dayCandidates.length,
+        });
+      } catch (error) {
+        logger.error(`Failed to build notifications for ${dateStr}`, error as Error, {
+          date: dateStr,
+          dayNumber: i + 1,
         });
       }
+    }
 
-      logger.info(`Scheduling notifications for ${this.DAYS_TO_SCHEDULE} days`, {
-        startDate: format(new Date(), 'yyyy-MM-dd'),
-        location,
-      });
-
-      // Step 4: Schedule for each day
-      for (let i = 0; i < this.DAYS_TO_SCHEDULE; i++) {
-        const targetDate = addDays(startOfDay(new Date()), i);
-        const dateStr = format(targetDate, 'yyyy-MM-dd');
-
-        // Stay under iOS's 64-pending cap: stop before scheduling a day that
-        // would push us over, so earlier days are never silently dropped. Upper
-        // bound = every non-muted prayer with both a reminder and an at-time alert.
-        const perDayMax = (LOGGABLE_PRAYERS.length - mutedPrayers.length) * 2;
-        if (scheduledNotifications.length + perDayMax > MAX_SCHEDULED_NOTIFICATIONS) {
-          logger.warn('Approaching notification cap; stopping early', {
-            scheduled: scheduledNotifications.length,
-            perDayMax,
-            cap: MAX_SCHEDULED_NOTIFICATIONS,
-            daysScheduled: i,
-          });
-          break;
-        }
-
-        try {
-          logger.debug(`Processing day ${i + 1}/${this.DAYS_TO_SCHEDULE}`, {
-            date: dateStr,
-            isToday: i === 0,
-          });
-
-          let dayPrayerData: NormalizedPrayerTimes;
-
-          if (i === 0) {
-            // Use today's data (already provided)
-            dayPrayerData = prayerData;
-            logger.debug('Using provided prayer data for today');
-          } else {
-            // Fetch future days
-            logger.debug(`Fetching prayer times for future date`, { date: dateStr });
-            dayPrayerData = await fetchPrayerTimesForDate(
-              location.latitude,
-              location.longitude,
-              targetDate
-            );
-          }
-
-          // Schedule notifications for this day
-          const dayNotifications = await this.scheduleDayNotifications(
-            dayPrayerData,
-            config,
-            dateStr
-          );
-
-          scheduledNotifications.push(...dayNotifications);
-          scheduledDates.push(dateStr);
-
-          logger.success(`Scheduled notifications for ${dateStr}`, {
-            date: dateStr,
-            dayNumber: i + 1,
-            notificationCount: dayNotifications.length,
-            reminderCount: dayNotifications.filter(n => n.type === 'reminder').length,
-            adhanCount: dayNotifications.filter(n => n.type === 'adhan').length,
-          });
-        } catch (error) {
-          logger.error(`Failed to schedule notifications for ${dateStr}`, error as Error, {
-            date: dateStr,
-            dayNumber: i + 1,
-          });
-        }
-      }
+    return candidates;
+  }
 
-      // Step 5: Save metadata
-      const metadata: NotificationMetadata = {
-        lastScheduledDate: format(new Date(), 'yyyy-MM-dd'),
-        scheduledDates,
-        scheduledCount: scheduledNotifications.length,
-        lastUpdated: Date.now(),
-      };
-
-      logger.debug('Saving notification metadata...', {
-        totalNotifications: scheduledNotifications.length,
-        daysScheduled: scheduledDates.length,
-      });
+  /**
+   * Prayer times for a future day, cached per profile and location so
+   * foreground re-plans don't refetch the whole window
+   */
+  private async getPrayerTimes(
+    dateStr: string,
+    profile: PrayerCalculationProfile,
+    location: LocationCoords
+  ): Promise<NormalizedPrayerTimes> {
+    const cacheKey = `${dateStr}|${getCalculationProfileKey(profile)}|${location.latitude.toFixed(
+      3
+    )},${location.longitude.toFixed(3)}`;
+
+    const cached = this.timesCache.get(cacheKey);
+    if (cached) return cached;
+
+    const times = await fetchPrayerTimesForDate(
+      location.latitude,
+      location.longitude,
+      parseISO(dateStr),
+      profile
+    );
+    this.timesCache.set(cacheKey, times);
+    return times;
+  }
 
-      this.saveScheduledNotifications(scheduledNotifications);
-      this.saveMetadata(metadata);
-      
-      logger.success('Notification scheduling complete', {
-        totalNotifications: scheduledNotifications.length,
-        daysScheduled: scheduledDates.length,
-        dates: scheduledDates,
-        reminderCount: scheduledNotifications.filter(n => n.type === 'reminder').length,
-        adhanCount: scheduledNotifications.filter(n => n.type === 'adhan').length,
-      });
-    } catch (error) {
-      logger.error('Error scheduling notifications', error as Error, {
-        reminderMinutes,
-        mutedCount: mutedPrayers.length,
-        selectedAdhan,
-      });
-      throw error;
-    } finally {
-      // Release the lock on EVERY exit path (success, early return, or error).
-      this.isScheduling = false;
-      logger.debug('Scheduling lock released');
-      logger.timeEnd('schedule-notifications');
+  /** Drop cached times for days before the window. */
+  private pruneTimesCache(firstDate: string) {
+    for (const key of this.timesCache.keys()) {
+      if (key.split('|')[0] < firstDate) this.timesCache.delete(key);
     }
   }
 
   /**
-   * Schedule notifications for a single day
+   * Candidate notifications for a single day
    */
-  private async scheduleDayNotifications(
+  private buildDayCandidates(
     prayerData: NormalizedPrayerTimes,
     config: ScheduleConfig,
-    dateStr: string
-  ): Promise<ScheduledNotification[]> {
-    const { reminderMinutes, mutedPrayers, selectedAdhan, prayerReminders, silentPrayers, quietHours } = config;
-    logger.debug(`Scheduling day notifications`, {
-      date: dateStr,
-      prayers: LOGGABLE_PRAYERS.length,
-      reminderMinutes,
-      mutedCount: mutedPrayers.length,
-    });
+    dateStr: string,
+    loggedPrayers: LoggablePrayerName[] = []
+  ): NotificationCandidate[] {
+    const { reminderMinutes, mutedPrayers, prayerReminderRules, silentPrayers, quietHours } = config;
 
-    const scheduledNotifications: ScheduledNotification[] = [];
+    const candidates: NotificationCandidate[] = [];
     const now = new Date();
-    let skippedCount = 0;
+    const isRamadanDay = config.ramadanDates.includes(dateStr);
+
+    if (isRamadanDay) {
+      candidates.push(...this.buildRamadanCandidates(prayerData, config, dateStr));
+    }
+
+    if (config.jumaat && parseISO(dateStr).getDay() === JUMAAT_WEEKDAY) {
+      candidates.push(...this.buildJumaatCandidates(prayerData, config.jumaat, config.quietHours, dateStr));
+    }
 
     for (const prayerName of LOGGABLE_PRAYERS) {
       // Skip muted prayers
-      if (mutedPrayers.includes(prayerName)) {
-        logger.debug(`Skipping muted prayer`, { prayer: prayerName, date: dateStr });
-        skippedCount++;
-        continue;
-      }
+      if (mutedPrayers.includes(prayerName)) continue;
 
       // Get prayer time (lowercase property names)
       const prayerTimeStr = prayerData[prayerName.toLowerCase() as keyof NormalizedPrayerTimes];
@@ -618,388 +871,250 @@ class PrayerNotificationService {
 
       // Parse prayer time
       const [hours, minutes] = prayerTimeStr.split(':').map(Number);
-      const prayerTime = new Date(dateStr);
+      const prayerTime = parseISO(dateStr);
       prayerTime.setHours(hours, minutes, 0, 0);
 
-      // Skip if prayer time has passed
-      if (prayerTime <= now) {
-        logger.debug(`Prayer time has passed, skipping`, {
-          prayer: prayerName,
-          time: prayerTimeStr,
-          date: dateStr,
-        });
-        continue;
+      // The nudge lands near the end of the window, so it can still be due
+      // after the prayer time itself has passed.
+      if (config.missedPrayerNudge && !loggedPrayers.includes(prayerName)) {
+        const nudge = this.buildMissedPrayerNudge(prayerData, prayerName, prayerTime, config, dateStr);
+        if (nudge) candidates.push(nudge);
       }
 
-      logger.debug(`Scheduling notifications for prayer`, {
-        prayer: prayerName,
-        time: prayerTimeStr,
-        date: dateStr,
-        hasReminder: reminderMinutes > 0,
-      });
-
-      // Schedule the "get ready" reminder (per-prayer offset; default sound, or
-      // silent within quiet hours). The adhan is the at-time alert; this is the
-      // gentle heads-up beforehand.
-      const effectiveReminder = prayerReminders[prayerName] ?? reminderMinutes;
-      if (effectiveReminder > 0) {
-        const reminderTime = new Date(prayerTime.getTime() - effectiveReminder * 60 * 1000);
-        if (reminderTime > now) {
-          const reminderQuiet = isWithinQuietHours(reminderTime, quietHours);
-          try {
-            const reminderId = await this.scheduleNotification({
-              title: `${prayerName} in ${effectiveReminder} min`,
-              body: `Time to get ready for ${prayerName}.`,
-              data: { type: 'reminder', prayer: prayerName },
-              trigger: reminderTime,
+      // Skip if prayer time has passed
+      if (prayerTime <= now) continue;
+
+      // Friday Zohor is announced as Jumaat
+      const displayName = getPrayerDisplayName(prayerName, prayerTime);
+
+      // The "get ready" reminders (the prayer's rules for this weekday; default
+      // sound, or silent within quiet hours). The adhan is the at-time alert;
+      // these are the gentle heads-ups beforehand.
+      const reminderRules = getReminderRulesForDay(prayerReminderRules[prayerName], reminderMinutes, prayerTime);
+      for (const rule of reminderRules) {
+        const reminderTime = new Date(prayerTime.getTime() - rule.minutesBefore * 60 * 1000);
+        const reminderQuiet = isWithinQuietHours(reminderTime, quietHours);
+        candidates.push(
+          prayerCandidate(
+            'reminder',
+            prayerName,
+            dateStr,
+            reminderTime,
+            {
+              title: `${displayName} in ${rule.minutesBefore} min`,
+              body: rule.note || `Time to get ready for ${displayName}.`,
+              data: { type: 'reminder', prayer: prayerName, date: dateStr },
               channelId: reminderQuiet ? SILENT_CHANNEL : REMINDER_CHANNEL,
               silent: reminderQuiet,
-            });
-
-            scheduledNotifications.push({
-              id: reminderId,
-              prayerName,
-              type: 'reminder',
-              scheduledFor: reminderTime,
-              date: dateStr,
-            });
-
-            logger.debug(`Scheduled reminder`, {
-              prayer: prayerName,
-              reminderTime: format(reminderTime, 'HH:mm'),
-              notificationId: reminderId,
-            });
-          } catch (error) {
-            logger.error(`Failed to schedule reminder`, error as Error, {
-              prayer: prayerName,
-              date: dateStr,
-            });
-          }
-        }
+            },
+            rule.id
+          )
+        );
       }
 
-      // Schedule the at-prayer-time alert. Silent (per-prayer choice or quiet
-      // hours) -> visible banner, no sound. Otherwise iOS plays the bundled
-      // adhan clip by filename; Android routes to the matching adhan channel.
-      try {
-        const atTimeSilent =
-          silentPrayers.includes(prayerName) || isWithinQuietHours(prayerTime, quietHours);
-        const iosSound = atTimeSilent ? undefined : ADHAN_IOS_SOUND[selectedAdhan];
-        const androidChannel = atTimeSilent
-          ? SILENT_CHANNEL
-          : ADHAN_ANDROID_CHANNEL[selectedAdhan] ?? 'prayer-adhan-default';
-        const adhanId = await this.scheduleNotification({
-          title: `${prayerName} Prayer Time`,
-          body: 'Time for prayer',
-          data: { type: 'adhan', prayer: prayerName, sound: atTimeSilent ? 'silent' : selectedAdhan },
-          trigger: prayerTime,
+      // The at-prayer-time alert. Silent (per-prayer choice or quiet hours) ->
+      // visible banner, no sound. Otherwise iOS plays the bundled adhan clip by
+      // filename; Android routes to the matching adhan channel.
+      const adhan = config.prayerAdhans[prayerName] ?? config.selectedAdhan;
+      const atTimeSilent =
+        silentPrayers.includes(prayerName) || isWithinQuietHours(prayerTime, quietHours);
+      const adhanSound = resolveAdhanSound(adhan, config.customAdhans);
+      const iosSound = atTimeSilent ? undefined : adhanSound.iosSound;
+      const androidChannel = atTimeSilent ? SILENT_CHANNEL : adhanSound.androidChannel;
+      // During Ramadan the Maghrib alert doubles as the iftar alert
+      const isIftar = isRamadanDay && prayerName === 'Maghrib';
+      candidates.push(
+        prayerCandidate('adhan', prayerName, dateStr, prayerTime, {
+          title: isIftar ? 'Maghrib · Iftar' : `${displayName} Prayer Time`,
+          body: isIftar ? 'Time to break your fast' : 'Time for prayer',
+          data: {
+            type: 'adhan',
+            prayer: prayerName,
+            date: dateStr,
+            sound: atTimeSilent ? 'silent' : adhan,
+          },
           sound: Platform.OS === 'ios' ? iosSound : undefined,
           channelId: Platform.OS === 'android' ? androidChannel : undefined,
           silent: atTimeSilent,
-        });
-
-        scheduledNotifications.push({
-          id: adhanId,
-          prayerName,
-          type: 'adhan',
-          scheduledFor: prayerTime,
-          date: dateStr,
-        });
-
-        logger.debug(`Scheduled adhan`, {
-          prayer: prayerName,
-          prayerTime: prayerTimeStr,
-          notificationId: adhanId,
-          sound: selectedAdhan,
-        });
-      } catch (error) {
-        logger.error(`Failed to schedule adhan`, error as Error, {
-          prayer: prayerName,
-          date: dateStr,
-        });
-      }
+        })
+      );
     }
 
-    logger.info(`Day scheduling complete`, {
-      date: dateStr,
-      scheduled: scheduledNotifications.length,
-      skipped: skippedCount,
-      reminderCount: scheduledNotifications.filter(n => n.type === 'reminder').length,
-      adhanCount: scheduledNotifications.filter(n => n.type === 'adhan').length,
-    });
-
-    return scheduledNotifications;
+    return candidates;
   }
 
   /**
-   * Schedule a single notification
+   * Missed-prayer nudge for one prayer
+   *
+   * Fires NUDGE_MINUTES before the next prayer (from `getNextPrayer`), unless
+   * that is inside quiet hours. Cancelled when the prayer is logged (see
+   * `cancelFollowUps`).
    */
-  private async scheduleNotification(config: {
-    title: string;
-    body: string;
-    data: any;
-    trigger: Date | number;
-    sound?: string;
-    channelId?: string;
-    silent?: boolean;
-  }): Promise<string> {
-    logger.debug('Scheduling notification', {
-      title: config.title,
-      type: config.data.type,
-      prayer: config.data.prayer,
-      hasSound: !!config.sound,
-      silent: config.silent,
-      channelId: config.channelId,
+  private buildMissedPrayerNudge(
+    prayerData: NormalizedPrayerTimes,
+    prayerName: LoggablePrayerName,
+    prayerTime: Date,
+    config: ScheduleConfig,
+    dateStr: string
+  ): NotificationCandidate | null {
+    const next = getNextPrayer(prayerData, prayerTime);
+    if (!next || next.minutesUntil <= NUDGE_MINUTES) return null;
+
+    const nudgeTime = new Date(prayerTime.getTime() + (next.minutesUntil - NUDGE_MINUTES) * 60 * 1000);
+    if (isWithinQuietHours(nudgeTime, config.quietHours)) return null;
+
+    const displayName = getPrayerDisplayName(prayerName, prayerTime);
+    return prayerCandidate('nudge', prayerName, dateStr, nudgeTime, {
+      title: `Have you prayed ${displayName}?`,
+      body: `You haven't logged ${displayName} yet — ${next.prayer} is in ${NUDGE_MINUTES} minutes.`,
+      data: { type: 'nudge', prayer: prayerName, date: dateStr },
+      channelId: REMINDER_CHANNEL,
     });
-
-    try {
-      const notificationContent: Notifications.NotificationContentInput = {
-        title: config.title,
-        body: config.body,
-        data: config.data,
-        // iOS plays this sound directly; on Android the channel owns the sound.
-        // silent -> no sound (false), so quiet-hours/silent alerts still show.
-        sound: config.silent ? false : config.sound || 'default',
-        priority: config.silent
-          ? Notifications.AndroidNotificationPriority.DEFAULT
-          : Notifications.AndroidNotificationPriority.HIGH,
-        // Carries the "Snooze" action button.
-        categoryIdentifier: PRAYER_CATEGORY,
-      };
-
-      const trigger = this.createTrigger(config.trigger, config.channelId);
-
-      const notificationId = await Notifications.scheduleNotificationAsync({
-        content: notificationContent,
-        trigger,
-      });
-
-      logger.debug('Notification scheduled', {
-        id: notificationId,
-        title: config.title,
-        type: config.data.type,
-      });
-
-      return notificationId;
-    } catch (error) {
-      logger.error('Failed to schedule notification', error as Error, {
-        title: config.title,
-        type: config.data.type,
-      });
-      throw error;
-    }
   }
 
-  /**
-   * Create notification trigger from Date or seconds
-   */
-  private createTrigger(
-    trigger: Date | number,
-    channelId?: string
-  ): Notifications.NotificationTriggerInput {
-    const channel = channelId ? { channelId } : {};
-
-    if (typeof trigger === 'number') {
-      logger.debug('Creating time interval trigger', { seconds: trigger, channelId });
-      return {
-        type: 'timeInterval',
-        seconds: trigger,
-        repeats: false,
-        ...channel,
-      } as Notifications.TimeIntervalTriggerInput;
-    }
-
-    const now = new Date().getTime();
-    const triggerTime = trigger.getTime();
-    const secondsUntilTrigger = Math.max(1, Math.floor((triggerTime - now) / 1000));
-
-    logger.debug('Creating date trigger', {
-      triggerTime: format(trigger, 'yyyy-MM-dd HH:mm'),
-      secondsUntilTrigger,
-      minutesUntilTrigger: Math.floor(secondsUntilTrigger / 60),
-      channelId,
-    });
-
-    return {
-      type: 'timeInterval',
-      seconds: secondsUntilTrigger,
-      repeats: false,
-      ...channel,
-    } as Notifications.TimeIntervalTriggerInput;
+  /** Prayers already logged as prayed on a day (empty if the log can't be read). */
+  private async getLoggedPrayers(date: Date): Promise<LoggablePrayerName[]> {
+    const userId = useAuthStore.getState().user?.uid ?? null;
+    const log = await readPrayerLog(userId, format(date, 'yyyy-MM-dd')).catch(() => null);
+    return log ? LOGGABLE_PRAYERS.filter((prayer) => isPrayerPrayed(log.prayers[prayer])) : [];
   }
 
   /**
-   * Cancel all scheduled notifications
+   * Ramadan alerts for a single day
+   *
+   * Sahur: SAHUR_REMINDER_MINUTES before imsak. Iftar: only when Maghrib is
+   * muted (otherwise the Maghrib alert carries the iftar copy).
    */
-  async cancelAllNotifications(): Promise<void> {
-    logger.time('cancel-notifications');
-    logger.info('Cancelling all scheduled notifications');
+  private buildRamadanCandidates(
+    prayerData: NormalizedPrayerTimes,
+    config: ScheduleConfig,
+    dateStr: string
+  ): NotificationCandidate[] {
+    const imsak = getImsakTime(prayerData);
+
+    const atTime = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      const date = parseISO(dateStr);
+      date.setHours(hours, minutes, 0, 0);
+      return date;
+    };
 
-    try {
-      const beforeCount = await Notifications.getAllScheduledNotificationsAsync();
-      
-      await Notifications.cancelAllScheduledNotificationsAsync();
-      defaultStorage.delete(this.NOTIFICATION_STORAGE_KEY);
-      defaultStorage.delete(this.METADATA_STORAGE_KEY);
-      
-      // ❌ REMOVED: Don't touch scheduling lock here - only schedulePrayerNotifications should manage it
-      
-      logger.success('All notifications cancelled', {
-        cancelledCount: beforeCount.length,
-        storageCleared: true,
+    const alerts: { type: 'sahur' | 'iftar'; at: Date; title: string; body: string }[] = [
+      {
+        type: 'sahur',
+        at: new Date(atTime(imsak).getTime() - SAHUR_REMINDER_MINUTES * 60 * 1000),
+        title: `Sahur ends in ${SAHUR_REMINDER_MINUTES} min`,
+        body: `Imsak at ${imsak}. Finish your sahur.`,
+      },
+    ];
+    if (config.mutedPrayers.includes('Maghrib')) {
+      alerts.push({
+        type: 'iftar',
+        at: atTime(prayerData.maghrib),
+        title: 'Iftar',
+        body: 'Time to break your fast',
       });
-      logger.timeEnd('cancel-notifications');
-    } catch (error) {
-      logger.error('Error cancelling notifications', error as Error);
-      logger.timeEnd('cancel-notifications');
     }
+
+    return alerts.map((alert) => {
+      const quiet = isWithinQuietHours(alert.at, config.quietHours);
+      const prayer = alert.type === 'sahur' ? 'Subuh' : 'Maghrib';
+      return prayerCandidate(alert.type, prayer, dateStr, alert.at, {
+        title: alert.title,
+        body: alert.body,
+        data: { type: alert.type, prayer, date: dateStr },
+        channelId: quiet ? SILENT_CHANNEL : REMINDER_CHANNEL,
+        silent: quiet,
+      });
+    });
   }
 
   /**
-   * Cancel notifications for a specific date
+   * Friday alerts: the khutbah preview (only once that Friday's khutbah is
+   * published; re-plans pick it up) and the reminder to leave for the mosque.
+   * Both are skipped once Zohor has started.
    */
-  async cancelNotificationsForDate(date: string): Promise<void> {
-    logger.info('Cancelling notifications for date', { date });
-
-    try {
-      const scheduled = this.getScheduledNotifications();
-      const toCancel = scheduled.filter(n => n.date === date);
-
-      logger.debug('Found notifications to cancel', {
-        date,
-        count: toCancel.length,
-        prayers: toCancel.map(n => n.prayerName),
+  private buildJumaatCandidates(
+    prayerData: NormalizedPrayerTimes,
+    jumaat: JumaatNotificationConfig,
+    quietHours: QuietHours,
+    dateStr: string
+  ): NotificationCandidate[] {
+    const atTime = (minutes: number) => {
+      const date = parseISO(dateStr);
+      date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+      return date;
+    };
+    const [zohorHours, zohorMinutes] = prayerData.zohor.split(':').map(Number);
+    const zohor = atTime(zohorHours * 60 + zohorMinutes);
+
+    const candidates: NotificationCandidate[] = [];
+    const jumaatCandidate = (variant: string, fireAt: Date, content: Omit<LocalNotificationContent, 'channelId' | 'silent'>) => {
+      const quiet = isWithinQuietHours(fireAt, quietHours);
+      candidates.push({
+        key: `jumaat:${dateStr}:${variant}`,
+        category: 'jumaat',
+        date: dateStr,
+        fireAt,
+        content: { ...content, channelId: quiet ? SILENT_CHANNEL : REMINDER_CHANNEL, silent: quiet },
       });
+    };
 
-      for (const notification of toCancel) {
-        try {
-          await Notifications.cancelScheduledNotificationAsync(notification.id);
-          logger.debug('Cancelled notification', {
-            id: notification.id,
-            prayer: notification.prayerName,
-            type: notification.type,
-          });
-        } catch (error) {
-          logger.error('Failed to cancel individual notification', error as Error, {
-            id: notification.id,
-            prayer: notification.prayerName,
-          });
-        }
+    const { preview, leave } = jumaat;
+    const khutbah = preview?.khutbah;
+    if (preview && khutbah && isKhutbahForFriday(khutbah, dateStr)) {
+      const fireAt = atTime(preview.atMinutes);
+      const summary = khutbah.summary?.trim();
+      if (fireAt < zohor) {
+        jumaatCandidate('khutbah', fireAt, {
+          title: `Today's khutbah: ${khutbah.title}`,
+          body: summary
+            ? summary.length > KHUTBAH_PREVIEW_LENGTH
+              ? `${summary.slice(0, KHUTBAH_PREVIEW_LENGTH).trimEnd()}…`
+              : summary
+            : `Read this week's khutbah before Jumaat at ${prayerData.zohor}.`,
+          data: {
+            type: 'khutbah',
+            khutbahId: khutbah.id,
+            date: dateStr,
+            url: getKhutbahHref(khutbah.id, preview.language),
+          },
+        });
       }
-
-      const remaining = scheduled.filter(n => n.date !== date);
-      this.saveScheduledNotifications(remaining);
-      
-      logger.success('Cancelled notifications for date', {
-        date,
-        cancelledCount: toCancel.length,
-        remainingCount: remaining.length,
-      });
-    } catch (error) {
-      logger.error('Error cancelling notifications for date', error as Error, { date });
     }
-  }
-
-  /**
-   * Force reschedule all notifications (clears metadata check)
-   */
-  async forceReschedule(): Promise<void> {
-    logger.info('Force rescheduling all notifications');
-    await this.cancelAllNotifications();
-    logger.success('Force reschedule complete - call schedulePrayerNotifications to reschedule');
-  }
 
-  /**
-   * Save scheduled notifications to storage
-   */
-  private saveScheduledNotifications(notifications: ScheduledNotification[]): void {
-    try {
-      const serialized = notifications.map(n => ({
-        ...n,
-        scheduledFor: n.scheduledFor.toISOString(),
-      }));
-      
-      defaultStorage.set(this.NOTIFICATION_STORAGE_KEY, JSON.stringify(serialized));
-      
-      logger.debug('Saved scheduled notifications to storage', {
-        count: notifications.length,
-        storageKey: this.NOTIFICATION_STORAGE_KEY,
-      });
-    } catch (error) {
-      logger.error('Failed to save scheduled notifications', error as Error, {
-        count: notifications.length,
+    if (leave) {
+      const fireAt = getJumaatLeaveTime(zohor, leave.travelMinutes, leave.arriveMinutesBefore);
+      const { phrase } = JUMAAT_TRAVEL_MODES[leave.travelMode];
+      jumaatCandidate('leave', fireAt, {
+        title: `Leave for ${leave.mosqueName}`,
+        body: `About ${leave.travelMinutes} min ${phrase} — you'll arrive ${leave.arriveMinutesBefore} min before Jumaat at ${prayerData.zohor}.`,
+        data: { type: 'jumaat-leave', prayer: 'Zohor', date: dateStr },
       });
     }
-  }
-
-  /**
-   * Get scheduled notifications from storage
-   */
-  private getScheduledNotifications(): ScheduledNotification[] {
-    try {
-      const stored = defaultStorage.getString(this.NOTIFICATION_STORAGE_KEY);
-      if (!stored) {
-        logger.debug('No scheduled notifications in storage');
-        return [];
-      }
-      
-      const parsed = JSON.parse(stored);
-      const notifications = parsed.map((n: any) => ({
-        ...n,
-        scheduledFor: new Date(n.scheduledFor),
-      }));
-
-      logger.debug('Retrieved scheduled notifications from storage', {
-        count: notifications.length,
-      });
 
-      return notifications;
-    } catch (error) {
-      logger.error('Failed to retrieve scheduled notifications', error as Error);
-      return [];
-    }
+    return candidates;
   }
 
   /**
-   * Save notification metadata
+   * Stop scheduling prayer alerts (master switch off)
+   *
+   * Other features' notifications stay scheduled.
    */
-  private saveMetadata(metadata: NotificationMetadata): void {
-    try {
-      defaultStorage.set(this.METADATA_STORAGE_KEY, JSON.stringify(metadata));
-      
-      logger.debug('Saved notification metadata', {
-        lastScheduled: metadata.lastScheduledDate,
-        datesCount: metadata.scheduledDates.length,
-        totalCount: metadata.scheduledCount,
-      });
-    } catch (error) {
-      logger.error('Failed to save notification metadata', error as Error);
-    }
+  async cancelAllNotifications(): Promise<void> {
+    logger.info('Cancelling prayer notifications');
+    this.scheduleInput = null;
+    defaultStorage.delete(SCHEDULE_INPUT_KEY);
+    await notificationPlanner.replan('settings');
   }
 
   /**
-   * Get notification metadata
+   * Force reschedule (refetches future days' prayer times)
    */
-  private getMetadata(): NotificationMetadata | null {
-    try {
-      const stored = defaultStorage.getString(this.METADATA_STORAGE_KEY);
-      if (!stored) {
-        logger.debug('No notification metadata in storage');
-        return null;
-      }
-
-      const metadata = JSON.parse(stored);
-      logger.debug('Retrieved notification metadata', {
-        lastScheduled: metadata.lastScheduledDate,
-        datesCount: metadata.scheduledDates?.length || 0,
-        totalCount: metadata.scheduledCount,
-      });
-
-      return metadata;
-    } catch (error) {
-      logger.error('Failed to retrieve notification metadata', error as Error);
-      return null;
-    }
+  async forceReschedule(): Promise<void> {
+    logger.info('Force rescheduling prayer notifications');
+    this.timesCache.clear();
+    await notificationPlanner.replan('settings');
   }
 
   /**
@@ -1019,35 +1134,38 @@ class PrayerNotificationService {
   }
 
   /**
-   * Get info about scheduled dates
+   * Get info about scheduled dates, and the notifications that did not fit in
+   * the budget at the last plan
    */
   async getScheduledDatesInfo(): Promise<{
     dates: string[];
     count: number;
     nextSchedule: string | null;
+    dropped: PlannedNotification[];
   }> {
-    logger.debug('Getting scheduled dates info');
-
-    const metadata = this.getMetadata();
-    if (!metadata) {
-      logger.debug('No metadata available for scheduled dates');
-      return { dates: [], count: 0, nextSchedule: null };
+    const plan = notificationPlanner.getPlan();
+    if (!plan) {
+      logger.debug('No notification plan available');
+      return { dates: [], count: 0, nextSchedule: null, dropped: [] };
     }
 
     const today = format(new Date(), 'yyyy-MM-dd');
-    const futureDates = metadata.scheduledDates.filter(date => date >= today);
+    const futureDates = [...new Set(plan.scheduled.map((n) => n.date))]
+      .filter((date) => date >= today)
+      .sort();
 
     const info = {
       dates: futureDates,
-      count: metadata.scheduledCount,
+      count: plan.scheduled.length,
       nextSchedule: futureDates[0] || null,
+      dropped: plan.dropped,
     };
 
     logger.info('Scheduled dates info', {
       futureDates: futureDates.length,
       totalCount: info.count,
+      droppedCount: info.dropped.length,
       nextSchedule: info.nextSchedule,
-      allDates: futureDates,
     });
 
     return info;
@@ -0,0 +1,363 @@
+/**
+ * Quran Audio Download Service
+ *
+ * Downloads per-ayah recitation audio for a reciter, a surah or a juz at a
+ * time, so the Quran player can play from disk instead of streaming. Files
+ * live under `<documents>/quran-audio/<reciter>/<surah>-<ayah>.mp3` and are
+ * shared between surah and juz downloads.
+ *
+ * Downloads run one job at a time from a persisted queue:
+ * - Each ayah is retried with backoff before the job is marked failed
+ * - With "Wi-Fi only" (or offline) jobs wait and resume on reconnect
+ * - The storage limit and free disk space are checked before every batch
+ *
+ * @version 1.1
+ * @since 2026-10-18
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import NetInfo, { NetInfoStateType } from '@react-native-community/netinfo';
+import { fetchSurahWithTranslation } from '../../api/services/quran';
+import { juzMeta } from '../../data/juzMeta';
+import { surahMeta } from '../../data/surahMeta';
+import {
+  audioDownloadJobId,
+  useAudioDownloadStore,
+  type AudioDownloadJob,
+  type AudioDownloadKind,
+} from '../../stores/useAudioDownloadStore';
+import { createLogger } from '../logging/logger';
+
+const logger = createLogger('Quran Audio Download');
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Streaming links in Firestore point at this reciter; other reciters swap it out
+const SOURCE_RECITER = 'ar.alafasy';
+
+const AYAH_BATCH_SIZE = 4;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Leave room for the OS and other apps
+const MIN_FREE_DISK_BYTES = 200 * 1024 * 1024;
+
+let isProcessing = false;
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Raised when a download cannot continue (storage limit, disk full); not retried
+ */
+export class AudioDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioDownloadError';
+  }
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+interface AyahRef {
+  surah: number;
+  ayah: number;
+}
+
+function getReciterDirectory(reciter: string): Directory {
+  return new Directory(Paths.document, 'quran-audio', reciter);
+}
+
+function getAyahAudioFile(reciter: string, surah: number, ayah: number): File {
+  return new File(getReciterDirectory(reciter), `${surah}-${ayah}.mp3`);
+}
+
+/**
+ * Streaming URL of an ayah for a reciter
+ */
+export function toReciterAudioUrl(link: string, reciter: string): string {
+  return link.replace(SOURCE_RECITER, reciter).trim();
+}
+
+/**
+ * Downloaded file for an ayah, or null to stream it
+ */
+export function getLocalAyahAudioUri(reciter: string, surah: number, ayah: number): string | null {
+  const file = getAyahAudioFile(reciter, surah, ayah);
+  return file.exists ? file.uri : null;
+}
+
+/**
+ * Ayahs covered by a surah or juz download
+ */
+export function getAudioDownloadAyahs(kind: AudioDownloadKind, number: number): AyahRef[] {
+  const range =
+    kind === 'surah'
+      ? { start: { surah: number, ayah: 1 }, end: { surah: number, ayah: surahMeta[number - 1].ayahCount } }
+      : juzMeta[number - 1];
+
+  const ayahs: AyahRef[] = [];
+  for (let surah = range.start.surah; surah <= range.end.surah; surah++) {
+    const first = surah === range.start.surah ? range.start.ayah : 1;
+    const last = surah === range.end.surah ? range.end.ayah : surahMeta[surah - 1].ayahCount;
+    for (let ayah = first; ayah <= last; ayah++) ayahs.push({ surah, ayah });
+  }
+  return ayahs;
+}
+
+/** The juz an ayah belongs to */
+export function getJuzForAyah(surah: number, ayah: number): number {
+  const juz = juzMeta.find(
+    ({ end }) => surah < end.surah || (surah === end.surah && ayah <= end.ayah)
+  );
+  return juz?.number ?? juzMeta.length;
+}
+
+export function getAudioDownloadLabel(kind: AudioDownloadKind, number: number): string {
+  return kind === 'surah' ? `Surah ${number} · ${surahMeta[number - 1].name}` : `Juz ${number}`;
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Queue a surah or juz for download and start the queue
+ */
+export function queueAudioDownload(reciter: string, kind: AudioDownloadKind, number: number): void {
+  const store = useAudioDownloadStore.getState();
+  const id = audioDownloadJobId(reciter, kind, number);
+  const existing = store.jobs.find((job) => job.id === id);
+
+  if (existing) {
+    if (existing.status === 'failed') store.updateJob(id, { status: 'queued', error: null });
+  } else {
+    store.addJob({
+      id,
+      reciter,
+      kind,
+      number,
+      total: getAudioDownloadAyahs(kind, number).length,
+      done: 0,
+      status: 'queued',
+      error: null,
+    });
+    logger.info('Audio download queued', { reciter, kind, number });
+  }
+
+  processAudioDownloadQueue();
+}
+
+export function retryAudioDownload(id: string): void {
+  useAudioDownloadStore.getState().updateJob(id, { status: 'queued', error: null });
+  processAudioDownloadQueue();
+}
+
+/**
+ * Remove a job from the queue; a running job stops after its current batch
+ * and keeps the ayahs already downloaded
+ */
+export function cancelAudioDownload(id: string): void {
+  useAudioDownloadStore.getState().removeJob(id);
+  logger.info('Audio download cancelled', { id });
+}
+
+type NetworkCheck = 'ok' | 'offline' | 'needs-wifi';
+
+async function checkNetwork(wifiOnly: boolean): Promise<NetworkCheck> {
+  const state = await NetInfo.fetch();
+  if (state.isConnected === false || state.isInternetReachable === false) return 'offline';
+  if (wifiOnly && state.type !== NetInfoStateType.wifi && state.type !== NetInfoStateType.ethernet) {
+    return 'needs-wifi';
+  }
+  return 'ok';
+}
+
+const WAITING_MESSAGES: Record<Exclude<NetworkCheck, 'ok'>, string> = {
+  offline: 'Waiting for a connection',
+  'needs-wifi': 'Waiting for Wi-Fi',
+};
+
+function assertStorageAvailable(): void {
+  const { quotaMB, usedBytes } = useAudioDownloadStore.getState();
+  const used = Object.values(usedBytes).reduce((total, bytes) => total + bytes, 0);
+
+  if (quotaMB > 0 && used >= quotaMB * 1024 * 1024) {
+    throw new AudioDownloadError('Storage limit reached. Raise the limit or delete some audio.');
+  }
+  if (Paths.availableDiskSpace < MIN_FREE_DISK_BYTES) {
+    throw new AudioDownloadError('Not enough free space on this device.');
+  }
+}
+
+const isJobQueued = (id: string) => useAudioDownloadStore.getState().jobs.some((job) => job.id === id);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Streaming links per surah, shared by the ayahs of a batch
+type SurahLinks = Map<number, Promise<string[]>>;
+
+async function downloadAyah(reciter: string, { surah, ayah }: AyahRef, links: SurahLinks) {
+  if (!links.has(surah)) {
+    links.set(
+      surah,
+      fetchSurahWithTranslation(surah).then(({ arabic }) => arabic.ayahs.map((a) => a.audio || ''))
+    );
+  }
+  const link = (await links.get(surah))?.[ayah - 1];
+  if (!link) throw new Error(`No audio link for ${surah}:${ayah}`);
+
+  const url = toReciterAudioUrl(link, reciter);
+  const file = getAyahAudioFile(reciter, surah, ayah);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await File.downloadFileAsync(url, file, { idempotent: true });
+      useAudioDownloadStore.getState().addDownloadedAyah(reciter, surah, file.size);
+      return;
+    } catch (error) {
+      if (file.exists) file.delete();
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+}
+
+async function runJob(job: AudioDownloadJob): Promise<void> {
+  const { updateJob, removeJob } = useAudioDownloadStore.getState();
+  const ayahs = getAudioDownloadAyahs(job.kind, job.number);
+  const missing = ayahs.filter(({ surah, ayah }) => !getAyahAudioFile(job.reciter, surah, ayah).exists);
+  let done = ayahs.length - missing.length;
+
+  updateJob(job.id, { status: 'downloading', error: null, total: ayahs.length, done });
+  logger.info('Downloading recitation audio', { id: job.id, missing: missing.length });
+
+  const links: SurahLinks = new Map();
+
+  try {
+    getReciterDirectory(job.reciter).create({ intermediates: true, idempotent: true });
+
+    for (let i = 0; i < missing.length; i += AYAH_BATCH_SIZE) {
+      if (!isJobQueued(job.id)) return;
+      assertStorageAvailable();
+
+      // Re-checked per batch: "Wi-Fi only" holds when Wi-Fi drops mid-job
+      const network = await checkNetwork(useAudioDownloadStore.getState().wifiOnly);
+      if (network !== 'ok') {
+        logger.info('Audio download paused until the network is back', { id: job.id, network });
+        updateJob(job.id, { status: 'waiting', error: WAITING_MESSAGES[network] });
+        return;
+      }
+
+      const batch = missing.slice(i, i + AYAH_BATCH_SIZE);
+      const results = await Promise.allSettled(batch.map((ref) => downloadAyah(job.reciter, ref, links)));
+      done += results.filter((r) => r.status === 'fulfilled').length;
+      if (isJobQueued(job.id)) updateJob(job.id, { done });
+
+      const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failure) throw failure.reason;
+    }
+
+    removeJob(job.id);
+    logger.success('Recitation audio downloaded', { id: job.id, ayahs: ayahs.length });
+  } catch (error) {
+    if (!isJobQueued(job.id)) return;
+
+    const network = await checkNetwork(useAudioDownloadStore.getState().wifiOnly);
+    if (network !== 'ok' && !(error instanceof AudioDownloadError)) {
+      logger.info('Audio download paused until the network is back', { id: job.id, network });
+      updateJob(job.id, { status: 'waiting', error: WAITING_MESSAGES[network] });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Audio download failed', { id: job.id, error: message });
+    updateJob(job.id, {
+      status: 'failed',
+      error: error instanceof AudioDownloadError ? message : 'Download failed. Tap to retry.',
+    });
+  }
+}
+
+/**
+ * Work through the queue, one job at a time, until it is empty, only failed
+ * jobs remain, or the network does not allow downloading
+ */
+export async function processAudioDownloadQueue(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    for (;;) {
+      const { jobs, wifiOnly, updateJob } = useAudioDownloadStore.getState();
+      const pending = jobs.filter((job) => job.status !== 'failed');
+      if (pending.length === 0) return;
+
+      const network = await checkNetwork(wifiOnly);
+      if (network !== 'ok') {
+        pending.forEach((job) => updateJob(job.id, { status: 'waiting', error: WAITING_MESSAGES[network] }));
+        logger.debug('Audio downloads waiting for network', { pending: pending.length, network });
+        return;
+      }
+
+      await runJob(pending[0]);
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Resume queued downloads now and whenever the connection changes
+ *
+ * Call once at app start; returns the NetInfo unsubscribe.
+ */
+export function startAudioDownloadQueue(): () => void {
+  processAudioDownloadQueue();
+
+  return NetInfo.addEventListener(() => {
+    const { jobs } = useAudioDownloadStore.getState();
+    if (jobs.some((job) => job.status === 'waiting')) processAudioDownloadQueue();
+  });
+}
+
+// ============================================================================
+// DELETE
+// ============================================================================
+
+/**
+ * Delete a surah's downloaded audio for a reciter
+ */
+export function deleteSurahAudio(reciter: string, surah: number): void {
+  let freed = 0;
+  for (let ayah = 1; ayah <= surahMeta[surah - 1].ayahCount; ayah++) {
+    const file = getAyahAudioFile(reciter, surah, ayah);
+    if (file.exists) {
+      freed += file.size;
+      file.delete();
+    }
+  }
+
+  useAudioDownloadStore.getState().removeDownloaded(reciter, surah, freed);
+  logger.info('Surah audio deleted', { reciter, surah, freedBytes: freed });
+}
+
+/**
+ * Delete all downloaded audio for a reciter and drop their queued downloads
+ */
+export function deleteReciterAudio(reciter: string): void {
+  const store = useAudioDownloadStore.getState();
+  store.jobs.filter((job) => job.reciter === reciter).forEach((job) => store.removeJob(job.id));
+
+  const directory = getReciterDirectory(reciter);
+  const freed = directory.exists ? directory.size ?? 0 : 0;
+  if (directory.exists) directory.delete();
+
+  store.removeDownloaded(reciter, null, store.usedBytes[reciter] ?? freed);
+  logger.info('Reciter audio deleted', { reciter, freedBytes: freed });
+}
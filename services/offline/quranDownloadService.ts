@@ -0,0 +1,259 @@
+/**
+ * Quran Download Service
+ *
+ * Downloads the whole Quran for offline use: the Arabic text and English
+ * translation of all 114 surahs (Firestore) and all 604 mushaf pages
+ * (alquran.cloud). Everything is written to the same MMKV cache entries the
+ * reader, search and mushaf view already read first, so nothing else needs an
+ * offline code path.
+ *
+ * Downloads run in small parallel batches and skip whatever is already
+ * cached, so pausing, losing the connection or closing the app simply
+ * resumes where it stopped on the next start.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import {
+  TOTAL_SURAHS,
+  cacheSurahForOffline,
+  clearSurahOfflineCache,
+  fetchSurahs,
+  getSurahOfflineCacheSize,
+  isSurahCachedOffline,
+} from '../../api/services/quran';
+import {
+  clearMushafPage,
+  fetchMushafPage,
+  getMushafPageCacheSize,
+  isMushafPageCached,
+} from '../../api/services/quran/mushafPage';
+import { TOTAL_MUSHAF_PAGES } from '../../constants/quranPages';
+import { useQuranDownloadStore, type QuranDownloadProgress } from '../../stores/useQuranDownloadStore';
+import { createLogger } from '../logging/logger';
+
+const logger = createLogger('Quran Download');
+
+// Each surah is one Firestore read; each page is two alquran.cloud requests
+const SURAH_BATCH_SIZE = 6;
+const PAGE_BATCH_SIZE = 4;
+
+const SURAH_NUMBERS = Array.from({ length: TOTAL_SURAHS }, (_, i) => i + 1);
+const PAGE_NUMBERS = Array.from({ length: TOTAL_MUSHAF_PAGES }, (_, i) => i + 1);
+
+let pauseRequested = false;
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Read what is currently downloaded straight from the caches
+ */
+export function getQuranDownloadProgress(): QuranDownloadProgress {
+  let surahsCached = 0;
+  let pagesCached = 0;
+  let bytes = 0;
+
+  for (const surah of SURAH_NUMBERS) {
+    if (isSurahCachedOffline(surah)) surahsCached++;
+    bytes += getSurahOfflineCacheSize(surah);
+  }
+  for (const page of PAGE_NUMBERS) {
+    if (isMushafPageCached(page)) pagesCached++;
+    bytes += getMushafPageCacheSize(page);
+  }
+
+  return { surahsCached, pagesCached, bytes };
+}
+
+export function isQuranDownloadComplete(progress: QuranDownloadProgress): boolean {
+  return progress.surahsCached === TOTAL_SURAHS && progress.pagesCached === TOTAL_MUSHAF_PAGES;
+}
+
+/**
+ * Sync the download store with the caches (e.g. when the settings screen opens)
+ */
+export function refreshQuranDownloadState(): QuranDownloadProgress {
+  const store = useQuranDownloadStore.getState();
+  const progress = getQuranDownloadProgress();
+  store.setProgress(progress);
+
+  if (store.status !== 'downloading') {
+    if (isQuranDownloadComplete(progress)) store.setStatus('complete');
+    else if (store.status === 'complete') store.setStatus('idle');
+  }
+  return progress;
+}
+
+// ============================================================================
+// DOWNLOAD
+// ============================================================================
+
+/**
+ * Run `task` over the missing items in parallel batches
+ *
+ * @param onCached - Called after each batch with the items it downloaded
+ * @returns Number of items that failed, or null when paused/offline
+ */
+async function downloadInBatches(
+  items: number[],
+  batchSize: number,
+  isCached: (item: number) => boolean,
+  task: (item: number) => Promise<unknown>,
+  onCached: (cached: number[]) => void
+): Promise<number | null> {
+  const missing = items.filter((item) => !isCached(item));
+  let failed = 0;
+
+  for (let i = 0; i < missing.length; i += batchSize) {
+    if (pauseRequested) return null;
+
+    const batch = missing.slice(i, i + batchSize);
+    const results = await Promise.allSettled(batch.map(task));
+    const cached = batch.filter((_, index) => results[index].status === 'fulfilled');
+    failed += batch.length - cached.length;
+    onCached(cached);
+
+    if (cached.length === 0) {
+      const { isConnected } = await NetInfo.fetch();
+      if (isConnected === false) {
+        logger.warn('Connection lost, stopping download', { remaining: missing.length - i });
+        return null;
+      }
+    }
+  }
+
+  return failed;
+}
+
+// Progress during a download is counted per batch instead of rescanning the caches
+function addSurahsToProgress(surahs: number[]) {
+  const { surahsCached, bytes, setProgress } = useQuranDownloadStore.getState();
+  setProgress({
+    surahsCached: surahsCached + surahs.length,
+    bytes: bytes + surahs.reduce((total, surah) => total + getSurahOfflineCacheSize(surah), 0),
+  });
+}
+
+function addPagesToProgress(pages: number[]) {
+  const { pagesCached, bytes, setProgress } = useQuranDownloadStore.getState();
+  setProgress({
+    pagesCached: pagesCached + pages.length,
+    bytes: bytes + pages.reduce((total, page) => total + getMushafPageCacheSize(page), 0),
+  });
+}
+
+/**
+ * Download (or resume downloading) the whole Quran
+ *
+ * Resolves when finished, paused or stopped; progress and errors are reported
+ * through `useQuranDownloadStore`.
+ */
+export async function startQuranDownload(): Promise<void> {
+  const store = useQuranDownloadStore.getState();
+  if (store.status === 'downloading') return;
+
+  const { isConnected } = await NetInfo.fetch();
+  if (isConnected === false) {
+    store.setStatus('error', 'You are offline. Connect to the internet to download the Quran.');
+    return;
+  }
+
+  pauseRequested = false;
+  const startTime = Date.now();
+  logger.info('Starting offline Quran download', refreshQuranDownloadState());
+  store.setStatus('downloading');
+
+  try {
+    // The surah list drives the reader's index screen
+    await fetchSurahs();
+
+    const surahFailures = await downloadInBatches(
+      SURAH_NUMBERS,
+      SURAH_BATCH_SIZE,
+      isSurahCachedOffline,
+      cacheSurahForOffline,
+      addSurahsToProgress
+    );
+    const pageFailures =
+      surahFailures === null
+        ? null
+        : await downloadInBatches(
+            PAGE_NUMBERS,
+            PAGE_BATCH_SIZE,
+            isMushafPageCached,
+            fetchMushafPage,
+            addPagesToProgress
+          );
+
+    const progress = refreshQuranDownloadState();
+    const duration = `${Date.now() - startTime}ms`;
+
+    if (surahFailures === null || pageFailures === null) {
+      const wasPaused = pauseRequested;
+      logger.info('Offline Quran download stopped', { ...progress, paused: wasPaused, duration });
+      store.setStatus(
+        wasPaused ? 'paused' : 'error',
+        wasPaused ? null : 'Connection lost. Tap Resume to continue when you are back online.'
+      );
+      return;
+    }
+
+    if (isQuranDownloadComplete(progress)) {
+      logger.success('Offline Quran download complete', { ...progress, duration });
+      store.setStatus('complete');
+      return;
+    }
+
+    const failed = surahFailures + pageFailures;
+    logger.warn('Offline Quran download finished with failures', { ...progress, failed, duration });
+    store.setStatus('error', `${failed} item${failed === 1 ? '' : 's'} failed to download. Tap Resume to retry.`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Offline Quran download failed', { error: message });
+    refreshQuranDownloadState();
+    store.setStatus('error', message);
+  } finally {
+    pauseRequested = false;
+  }
+}
+
+/**
+ * Pause after the batch in flight; `startQuranDownload` resumes
+ */
+export function pauseQuranDownload(): void {
+  if (useQuranDownloadStore.getState().status !== 'downloading') return;
+  pauseRequested = true;
+  logger.info('Pausing offline Quran download');
+}
+
+/**
+ * Remove all downloaded surahs and mushaf pages
+ *
+ * Surahs and pages opened later are cached again as usual.
+ */
+export function deleteQuranDownload(): void {
+  const store = useQuranDownloadStore.getState();
+  if (store.status === 'downloading') return;
+
+  const { bytes } = getQuranDownloadProgress();
+  SURAH_NUMBERS.forEach(clearSurahOfflineCache);
+  PAGE_NUMBERS.forEach(clearMushafPage);
+
+  logger.info('Offline Quran download deleted', { freedBytes: bytes });
+  store.setStatus('idle');
+  refreshQuranDownloadState();
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export function formatStorageSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
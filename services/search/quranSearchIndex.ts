@@ -0,0 +1,418 @@
+/**
+ * Quran Search Index
+ *
+ * Persistent inverted index over all 6236 ayahs: normalised Arabic words,
+ * their triliteral roots, and the words of the English translation (stemmed),
+ * the other selected translations and the transliteration. Built once from the
+ * cached surahs and saved to the document directory, so later searches start
+ * instantly; it is rebuilt only when the index format or the selected editions
+ * change.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { EDITIONS, TOTAL_SURAHS, fetchSurahWithTranslation } from '../../api/services/quran';
+import { fetchQuranEdition } from '../../api/services/quran/translations';
+import {
+  arabicRoot,
+  isArabic,
+  isStopWord,
+  normalizeArabic,
+  normalizeLatin,
+  stemEnglish,
+  tokenize,
+  tokenizeArabic,
+  tokenizeLatin,
+} from '../../utils/quran/textNormalization';
+import { createLogger } from '../logging/logger';
+
+const logger = createLogger('Quran Search');
+
+// Bump when tokenising or the file layout changes; older files are rebuilt
+const INDEX_VERSION = 1;
+const SURAH_BATCH_SIZE = 6;
+const PREFIX_EXPANSION_LIMIT = 30;
+
+// Term weights: exact word > stem > root > prefix of the word being typed
+const WEIGHT_EXACT = 3;
+const WEIGHT_STEM = 2;
+const WEIGHT_ROOT = 1.5;
+const WEIGHT_PREFIX = 1;
+const PHRASE_BONUS = 2;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IndexedAyah {
+  surahNumber: number;
+  ayahNumber: number;
+  arabic: string;
+  translation: string;
+  /** Texts of the other selected editions (incl. transliteration), by edition id */
+  editions: Record<string, string>;
+}
+
+/** term -> ayah ids (positions in `ayahs`), ascending */
+type Postings = Map<string, number[]>;
+
+export interface QuranSearchIndex {
+  version: number;
+  /** Extra editions indexed besides Arabic and Sahih International */
+  editions: string[];
+  builtAt: number;
+  ayahs: IndexedAyah[];
+  arabic: Postings;
+  roots: Postings;
+  latin: Postings;
+}
+
+interface SerializedIndex extends Omit<QuranSearchIndex, 'arabic' | 'roots' | 'latin'> {
+  arabic: [string, number[]][];
+  roots: [string, number[]][];
+  latin: [string, number[]][];
+}
+
+export interface QuranSearchOptions {
+  /** Also match Arabic words sharing a triliteral root */
+  rootMatch: boolean;
+}
+
+export interface QuranSearchHit {
+  ayah: IndexedAyah;
+  score: number;
+  /** Number of query words the ayah matched */
+  matchedTerms: number;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+const indexFile = () => new File(Paths.document, 'quran-search', `index-v${INDEX_VERSION}.json`);
+
+const editionsSignature = (editions: string[]) => [...editions].sort().join(',');
+
+function serialize(index: QuranSearchIndex): string {
+  const data: SerializedIndex = {
+    ...index,
+    arabic: [...index.arabic],
+    roots: [...index.roots],
+    latin: [...index.latin],
+  };
+  return JSON.stringify(data);
+}
+
+function deserialize(json: string): QuranSearchIndex {
+  const data = JSON.parse(json) as SerializedIndex;
+  return {
+    ...data,
+    arabic: new Map(data.arabic),
+    roots: new Map(data.roots),
+    latin: new Map(data.latin),
+  };
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+const yieldToUI = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function addPosting(postings: Postings, term: string, id: number) {
+  const ids = postings.get(term);
+  if (!ids) postings.set(term, [id]);
+  else if (ids[ids.length - 1] !== id) ids.push(id); // same word twice in an ayah
+}
+
+/** Words of a translation or transliteration; English editions are stemmed */
+function latinTerms(edition: string, text: string): string[] {
+  const tokens = tokenizeLatin(text);
+  const isEnglish = edition.startsWith('en.') && edition !== EDITIONS.TRANSLITERATION;
+  return isEnglish ? tokens.map(stemEnglish) : tokens;
+}
+
+/**
+ * Build the index from the (cached) surahs and the given extra editions
+ *
+ * @param onProgress - 0–1; fetching surahs is most of the work on first build
+ */
+async function buildQuranSearchIndex(
+  editions: string[],
+  onProgress?: (progress: number) => void
+): Promise<QuranSearchIndex> {
+  const startTime = Date.now();
+  logger.info('Building Quran search index', { editions });
+
+  const surahNumbers = Array.from({ length: TOTAL_SURAHS }, (_, i) => i + 1);
+  const surahs: Awaited<ReturnType<typeof fetchSurahWithTranslation>>[] = [];
+  for (let i = 0; i < surahNumbers.length; i += SURAH_BATCH_SIZE) {
+    const batch = surahNumbers.slice(i, i + SURAH_BATCH_SIZE);
+    surahs.push(...(await Promise.all(batch.map(fetchSurahWithTranslation))));
+    onProgress?.((surahs.length / TOTAL_SURAHS) * 0.8);
+  }
+
+  const editionTexts = await Promise.all(editions.map(fetchQuranEdition));
+  onProgress?.(0.85);
+
+  const index: QuranSearchIndex = {
+    version: INDEX_VERSION,
+    editions,
+    builtAt: Date.now(),
+    ayahs: [],
+    arabic: new Map(),
+    roots: new Map(),
+    latin: new Map(),
+  };
+
+  // Ayahs are added in order, so every posting list stays sorted and unique
+  for (const [s, { arabic, translation }] of surahs.entries()) {
+    arabic.ayahs.forEach((ayah, a) => {
+      const id = index.ayahs.length;
+      const texts: Record<string, string> = {};
+      editions.forEach((edition, e) => {
+        const text = editionTexts[e][s]?.[a];
+        if (text) texts[edition] = text;
+      });
+
+      index.ayahs.push({
+        surahNumber: s + 1,
+        ayahNumber: a + 1,
+        arabic: ayah.text,
+        translation: translation.ayahs[a]?.text ?? '',
+        editions: texts,
+      });
+
+      for (const word of tokenizeArabic(ayah.text)) {
+        addPosting(index.arabic, word, id);
+        const root = arabicRoot(word);
+        if (root) addPosting(index.roots, root, id);
+      }
+      for (const term of latinTerms(EDITIONS.ENGLISH, translation.ayahs[a]?.text ?? '')) {
+        addPosting(index.latin, term, id);
+      }
+      for (const [edition, text] of Object.entries(texts)) {
+        for (const term of latinTerms(edition, text)) addPosting(index.latin, term, id);
+      }
+    });
+
+    if (s % 10 === 9) {
+      onProgress?.(0.85 + (s / TOTAL_SURAHS) * 0.15);
+      await yieldToUI();
+    }
+  }
+  onProgress?.(1);
+
+  logger.success('Quran search index built', {
+    ayahs: index.ayahs.length,
+    arabicTerms: index.arabic.size,
+    roots: index.roots.size,
+    latinTerms: index.latin.size,
+    duration: `${Date.now() - startTime}ms`,
+  });
+  return index;
+}
+
+// ============================================================================
+// LOAD
+// ============================================================================
+
+let loadedIndex: QuranSearchIndex | null = null;
+let pendingBuild: { signature: string; promise: Promise<QuranSearchIndex> } | null = null;
+
+/** The index already in memory, if it covers exactly these editions */
+export function getLoadedQuranSearchIndex(editions: string[]): QuranSearchIndex | null {
+  return loadedIndex && editionsSignature(loadedIndex.editions) === editionsSignature(editions)
+    ? loadedIndex
+    : null;
+}
+
+/**
+ * Load the saved index, or build and save it when missing or outdated
+ *
+ * Concurrent calls for the same editions share one build.
+ */
+export async function loadQuranSearchIndex(
+  editions: string[],
+  onProgress?: (progress: number) => void
+): Promise<QuranSearchIndex> {
+  const inMemory = getLoadedQuranSearchIndex(editions);
+  if (inMemory) return inMemory;
+
+  const signature = editionsSignature(editions);
+  if (pendingBuild?.signature === signature) return pendingBuild.promise;
+
+  const promise = (async () => {
+    const file = indexFile();
+    if (file.exists) {
+      try {
+        const saved = deserialize(await file.text());
+        if (saved.version === INDEX_VERSION && editionsSignature(saved.editions) === signature) {
+          logger.debug('Quran search index loaded from disk', { ayahs: saved.ayahs.length });
+          return saved;
+        }
+      } catch (error) {
+        logger.warn('Saved Quran search index unreadable, rebuilding', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const built = await buildQuranSearchIndex(editions, onProgress);
+    try {
+      file.create({ intermediates: true, overwrite: true });
+      file.write(serialize(built));
+    } catch (error) {
+      // Still usable for this session; the next start rebuilds
+      logger.warn('Failed to save Quran search index', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return built;
+  })();
+
+  pendingBuild = { signature, promise };
+  try {
+    loadedIndex = await promise;
+    return loadedIndex;
+  } finally {
+    if (pendingBuild?.promise === promise) pendingBuild = null;
+  }
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+interface QueryTerm {
+  postings: Postings;
+  term: string;
+  weight: number;
+}
+
+/**
+ * Index lookups for one query word. The word still being typed (`isLast`)
+ * also matches indexed words that start with it.
+ */
+function expandQueryWord(
+  index: QuranSearchIndex,
+  word: string,
+  isLast: boolean,
+  { rootMatch }: QuranSearchOptions
+): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+
+  if (isArabic(word)) {
+    const normalized = normalizeArabic(word);
+    terms.push({ postings: index.arabic, term: normalized, weight: WEIGHT_EXACT });
+    const root = rootMatch ? arabicRoot(normalized) : null;
+    if (root) terms.push({ postings: index.roots, term: root, weight: WEIGHT_ROOT });
+    if (isLast && normalized.length >= 2) {
+      terms.push(...prefixTerms(index.arabic, normalized));
+    }
+    return terms;
+  }
+
+  const normalized = normalizeLatin(word);
+  terms.push({ postings: index.latin, term: normalized, weight: WEIGHT_EXACT });
+  const stem = stemEnglish(normalized);
+  if (stem !== normalized) terms.push({ postings: index.latin, term: stem, weight: WEIGHT_STEM });
+  if (isLast && normalized.length >= 3) {
+    terms.push(...prefixTerms(index.latin, normalized));
+  }
+  return terms;
+}
+
+function prefixTerms(postings: Postings, prefix: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  for (const term of postings.keys()) {
+    if (terms.length >= PREFIX_EXPANSION_LIMIT) break;
+    if (term !== prefix && term.startsWith(prefix)) {
+      terms.push({ postings, term, weight: WEIGHT_PREFIX });
+    }
+  }
+  return terms;
+}
+
+/**
+ * Ranked matches for a query, best first
+ *
+ * Ayahs matching more of the query words rank first, then by the summed
+ * weight × IDF of their matches (rare words count more), with a bonus when
+ * the query appears as a phrase; ties keep Quran order.
+ */
+export function searchQuranIndex(
+  index: QuranSearchIndex,
+  query: string,
+  options: QuranSearchOptions
+): QuranSearchHit[] {
+  const words = tokenize(query.trim());
+  const meaningful = words.filter((word) => isArabic(word) || !isStopWord(normalizeLatin(word)));
+  const queryWords = meaningful.length ? meaningful : words;
+  if (!queryWords.length) return [];
+
+  const total = index.ayahs.length;
+  const scores = new Map<number, { score: number; matchedTerms: number }>();
+  const isTyping = !/\s$/.test(query);
+
+  queryWords.forEach((word, w) => {
+    // Best weighted match of this word per ayah
+    const wordScores = new Map<number, number>();
+    for (const { postings, term, weight } of expandQueryWord(index, word, isTyping && w === queryWords.length - 1, options)) {
+      const ids = postings.get(term);
+      if (!ids) continue;
+      const score = weight * Math.log(1 + total / ids.length);
+      for (const id of ids) {
+        if ((wordScores.get(id) ?? 0) < score) wordScores.set(id, score);
+      }
+    }
+
+    wordScores.forEach((score, id) => {
+      const entry = scores.get(id) ?? { score: 0, matchedTerms: 0 };
+      entry.score += score;
+      entry.matchedTerms += 1;
+      scores.set(id, entry);
+    });
+  });
+
+  const arabicQuery = isArabic(query);
+  const phrase = arabicQuery ? normalizeArabic(query.trim()) : normalizeLatin(query.trim());
+  const hasPhrase = queryWords.length > 1;
+
+  const hits: (QuranSearchHit & { id: number })[] = [];
+  scores.forEach(({ score, matchedTerms }, id) => {
+    const ayah = index.ayahs[id];
+    let ranked = score;
+    if (hasPhrase && matchedTerms === queryWords.length) {
+      const texts = arabicQuery
+        ? [normalizeArabic(ayah.arabic)]
+        : [ayah.translation, ...Object.values(ayah.editions)].map(normalizeLatin);
+      if (texts.some((text) => text.includes(phrase))) ranked += PHRASE_BONUS;
+    }
+    hits.push({ id, ayah, score: ranked, matchedTerms });
+  });
+
+  hits.sort((a, b) => b.matchedTerms - a.matchedTerms || b.score - a.score || a.id - b.id);
+  return hits.map(({ ayah, score, matchedTerms }) => ({ ayah, score, matchedTerms }));
+}
+
+/**
+ * The text a hit should be shown with: the Arabic for Arabic queries,
+ * otherwise the first translation containing a query word (English by default)
+ */
+export function getMatchedText(ayah: IndexedAyah, query: string): { edition: string; text: string } {
+  if (isArabic(query)) return { edition: EDITIONS.ARABIC, text: ayah.arabic };
+
+  const words = tokenizeLatin(query);
+  const stems = words.map(stemEnglish);
+  const texts: [string, string][] = [[EDITIONS.ENGLISH, ayah.translation], ...Object.entries(ayah.editions)];
+  const match = texts.find(([, text]) => {
+    const normalized = normalizeLatin(text);
+    return words.some((word) => normalized.includes(word)) || stems.some((stem) => normalized.includes(stem));
+  });
+
+  const [edition, text] = match ?? texts[0];
+  return { edition, text };
+}
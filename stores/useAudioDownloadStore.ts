@@ -0,0 +1,103 @@
+/**
+ * Audio Download Store
+ *
+ * Offline recitation audio: the download queue, what has been downloaded per
+ * reciter and surah, disk usage, and the download preferences (Wi-Fi only,
+ * storage limit). Persisted, so queued downloads resume after a restart; the
+ * files themselves are managed by the audio download service.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { defaultStorage } from '../api/client/storage';
+
+export type AudioDownloadKind = 'surah' | 'juz';
+
+/** 'waiting' = paused until the network allows downloading again */
+export type AudioDownloadJobStatus = 'queued' | 'downloading' | 'waiting' | 'failed';
+
+export interface AudioDownloadJob {
+  id: string;
+  reciter: string;
+  kind: AudioDownloadKind;
+  number: number;
+  total: number;
+  done: number;
+  status: AudioDownloadJobStatus;
+  error: string | null;
+}
+
+/** Storage limit choices in MB; 0 = no limit */
+export const AUDIO_QUOTA_OPTIONS_MB = [500, 1000, 2000, 0] as const;
+
+interface AudioDownloadState {
+  jobs: AudioDownloadJob[];
+  /** Downloaded ayah count per reciter, per surah */
+  downloaded: Record<string, Record<number, number>>;
+  /** Bytes on disk per reciter */
+  usedBytes: Record<string, number>;
+  wifiOnly: boolean;
+  quotaMB: number;
+
+  setWifiOnly: (wifiOnly: boolean) => void;
+  setQuotaMB: (quotaMB: number) => void;
+  addJob: (job: AudioDownloadJob) => void;
+  updateJob: (id: string, changes: Partial<AudioDownloadJob>) => void;
+  removeJob: (id: string) => void;
+  addDownloadedAyah: (reciter: string, surah: number, bytes: number) => void;
+  removeDownloaded: (reciter: string, surah: number | null, bytes: number) => void;
+}
+
+export const useAudioDownloadStore = create<AudioDownloadState>()(
+  persist(
+    (set) => ({
+      jobs: [],
+      downloaded: {},
+      usedBytes: {},
+      wifiOnly: true,
+      quotaMB: 1000,
+
+      setWifiOnly: (wifiOnly) => set({ wifiOnly }),
+      setQuotaMB: (quotaMB) => set({ quotaMB }),
+
+      addJob: (job) =>
+        set((s) => (s.jobs.some((j) => j.id === job.id) ? s : { jobs: [...s.jobs, job] })),
+      updateJob: (id, changes) =>
+        set((s) => ({ jobs: s.jobs.map((j) => (j.id === id ? { ...j, ...changes } : j)) })),
+      removeJob: (id) => set((s) => ({ jobs: s.jobs.filter((j) => j.id !== id) })),
+
+      addDownloadedAyah: (reciter, surah, bytes) =>
+        set((s) => {
+          const counts = s.downloaded[reciter] ?? {};
+          return {
+            downloaded: { ...s.downloaded, [reciter]: { ...counts, [surah]: (counts[surah] ?? 0) + 1 } },
+            usedBytes: { ...s.usedBytes, [reciter]: (s.usedBytes[reciter] ?? 0) + bytes },
+          };
+        }),
+
+      // surah = null removes everything for the reciter
+      removeDownloaded: (reciter, surah, bytes) =>
+        set((s) => {
+          const { [surah ?? -1]: _removed, ...counts } = s.downloaded[reciter] ?? {};
+          return {
+            downloaded: { ...s.downloaded, [reciter]: surah === null ? {} : counts },
+            usedBytes: { ...s.usedBytes, [reciter]: Math.max(0, (s.usedBytes[reciter] ?? 0) - bytes) },
+          };
+        }),
+    }),
+    {
+      name: 'audio-download-store',
+      storage: createJSONStorage(() => ({
+        getItem: (name) => defaultStorage.getString(name) ?? null,
+        setItem: (name, value) => defaultStorage.setString(name, value),
+        removeItem: (name) => defaultStorage.delete(name),
+      })),
+    }
+  )
+);
+
+export const audioDownloadJobId = (reciter: string, kind: AudioDownloadKind, number: number) =>
+  `${reciter}:${kind}:${number}`;
@@ -7,6 +7,7 @@
  * Manages user authentication state with Firebase:
  * - Sign in/up/out
  * - User profile sync
+ * - Guest prayer log migration on sign in/up
  * - MMKV persistence
  * - Firebase auth listener
  * 
@@ -28,6 +29,8 @@ import firestore from '@react-native-firebase/firestore';
 import { generateReferralCode } from '../utils';
 import { authService, db } from '../api/client/firebase';
 import { doc, getDoc } from '@react-native-firebase/firestore';
+import { hasGuestPrayerLogs, migrateGuestPrayerLogs } from '../api/services/prayer/api/guest';
+import type { PrayerLogMergeReport } from '../api/services/prayer/types/index';
 
 // ✅ Import structured logging
 import { createLogger } from '../services/logging/logger';
@@ -53,6 +56,7 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  guestMigrationReport: PrayerLogMergeReport | null;
   
   // Actions
   signIn: (email: string, password: string) => Promise<void>;
@@ -60,6 +64,38 @@ interface AuthState {
   signOut: () => void;
   setUser: (user: User | null) => void;
   clearError: () => void;
+  clearGuestMigrationReport: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Merge prayer logs made as a guest into the account
+ *
+ * Never fails the sign in: on error the guest logs stay on the device and are
+ * retried on the next sign in.
+ */
+async function migrateGuestHistory(uid: string): Promise<PrayerLogMergeReport | null> {
+  if (!hasGuestPrayerLogs()) return null;
+
+  try {
+    const report = await migrateGuestPrayerLogs(uid);
+    logger.info('Guest prayer logs merged into account', {
+      uid,
+      added: report?.addedDates.length ?? 0,
+      merged: report?.mergedDates.length ?? 0,
+      conflicts: report?.conflicts.length ?? 0,
+    });
+    return report;
+  } catch (error: any) {
+    logger.warn('Guest prayer log migration failed, keeping local logs', {
+      uid,
+      error: error.message,
+    });
+    return null;
+  }
 }
 
 // ============================================================================
@@ -74,6 +110,7 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      guestMigrationReport: null,
       
       // =======================================================================
       // Sign In
@@ -126,12 +163,16 @@ export const useAuthStore = create<AuthState>()(
             hasReferralCode: !!user.referralCode,
           });
           
-          // Step 4: Update store
+          // Step 4: Merge guest prayer logs before queries switch to the account
+          const guestMigrationReport = await migrateGuestHistory(user.uid);
+          
+          // Step 5: Update store
           set({
             user,
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            ...(guestMigrationReport && { guestMigrationReport }),
           });
           
           logger.success('Sign in successful', { 
@@ -243,12 +284,16 @@ export const useAuthStore = create<AuthState>()(
             referralCode,
           };
           
-          // Step 5: Update store
+          // Step 5: Merge guest prayer logs into the new account
+          const guestMigrationReport = await migrateGuestHistory(user.uid);
+          
+          // Step 6: Update store
           set({
             user,
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            ...(guestMigrationReport && { guestMigrationReport }),
           });
           
           logger.success('Sign up successful', { 
@@ -341,6 +386,13 @@ export const useAuthStore = create<AuthState>()(
         logger.debug('Clearing auth error');
         set({ error: null });
       },
+      
+      // =======================================================================
+      // Clear Guest Migration Report
+      // =======================================================================
+      clearGuestMigrationReport: () => {
+        set({ guestMigrationReport: null });
+      },
     }),
     {
       name: 'auth', // Storage key
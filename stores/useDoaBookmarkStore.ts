@@ -36,6 +36,7 @@ interface DoaBookmarksState {
   removeBookmark: (doaId: string) => void;
   isBookmarked: (doaId: string) => boolean;
   clearBookmarks: () => void;
+  importBookmarks: (bookmarks: DoaBookmark[]) => number;
 }
 
 // ============================================================================
@@ -131,6 +132,25 @@ export const useDoaBookmarksStore = create<DoaBookmarksState>()(
           previousCount: count,
         });
       },
+      
+      // =======================================================================
+      // Import Bookmarks (backup restore)
+      // =======================================================================
+      importBookmarks: (bookmarks) => {
+        const existing = new Set(get().bookmarks.map((b) => b.doaId));
+        const added = bookmarks.filter((b) => !existing.has(b.doaId));
+        
+        if (added.length > 0) {
+          set((state) => ({ bookmarks: [...state.bookmarks, ...added] }));
+        }
+        
+        logger.success('Bookmarks imported', { 
+          added: added.length,
+          skipped: bookmarks.length - added.length,
+        });
+        
+        return added.length;
+      },
     }),
     {
       name: 'doa-bookmarks',
@@ -0,0 +1,92 @@
+/**
+ * Fasting Store
+ *
+ * Daily Ramadan fasting log (fasted / missed / excused with a reason),
+ * persisted to MMKV. Missed and excused days feed the fidyah calculator.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { defaultStorage } from '../api/client/storage';
+import type {
+  FastingExcuseReason,
+  FastingLogEntry,
+  FastingStatus,
+} from '../api/services/prayer/types/index';
+import { createLogger } from '../services/logging/logger';
+
+const logger = createLogger('Fasting Store');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface FastingState {
+  log: Record<string, FastingLogEntry>; // keyed by YYYY-MM-DD
+
+  logFast: (
+    date: string,
+    status: FastingStatus,
+    hijriYear: string,
+    reason?: FastingExcuseReason
+  ) => void;
+  clearFast: (date: string) => void;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export const useFastingStore = create<FastingState>()(
+  persist(
+    (set) => ({
+      log: {},
+
+      logFast: (date, status, hijriYear, reason) => {
+        logger.info('Fast logged', { date, status, reason, hijriYear });
+
+        set((state) => ({
+          log: {
+            ...state.log,
+            [date]: {
+              status,
+              ...(status === 'excused' && { reason: reason ?? 'other' }),
+              hijriYear,
+              updatedAt: new Date().toISOString(),
+            },
+          },
+        }));
+      },
+
+      clearFast: (date) => {
+        logger.info('Fast log cleared', { date });
+
+        set((state) => {
+          const { [date]: _removed, ...log } = state.log;
+          return { log };
+        });
+      },
+    }),
+    {
+      name: 'fasting-log',
+      storage: createJSONStorage(() => ({
+        getItem: (name) => defaultStorage.getString(name) ?? null,
+        setItem: (name, value) => defaultStorage.setString(name, value),
+        removeItem: (name) => defaultStorage.delete(name),
+      })),
+    }
+  )
+);
+
+// ============================================================================
+// SELECTORS
+// ============================================================================
+
+/**
+ * Fasting log entry for a date
+ */
+export const useFastingEntry = (date: string) =>
+  useFastingStore((state) => state.log[date] ?? null);
@@ -2,40 +2,229 @@
  * Hifz (memorization) store
  *
  * Settings for the Quran memorization toolkit, read by the audio player and the
- * Mushaf reader. Playback speed + repeat preference persist; test mode is
+ * Mushaf reader, plus the hifz tracker: ayah ranges the user has memorised,
+ * each with an SM-2 review schedule (utils/quran/spacedRepetition), and a log
+ * of recent reviews for retention stats.
+ *
+ * Playback speed, repeat preference and the tracker persist; test mode is
  * ephemeral (always starts off, so you never open the reader to hidden text).
+ * Removed ranges leave a tombstone so a sync (hooks/quran/useHifzSync) does not
+ * bring them back from another device.
+ *
+ * @version 2.0
+ * @since 2026-10-18
  */
 
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import { subDays } from 'date-fns';
 import { defaultStorage } from '../api/client/storage';
+import { createLogger } from '../services/logging/logger';
+import { surahMeta } from '../data/surahMeta';
+import {
+  MATURE_INTERVAL_DAYS,
+  PASSING_GRADE,
+  createSchedule,
+  scheduleReview,
+  toDateKey,
+  type RecallGrade,
+  type ReviewSchedule,
+} from '../utils/quran/spacedRepetition';
+
+const logger = createLogger('Hifz');
 
 /** repeatEachAyah sentinels: 1 = play once (off), N = repeat N times, -1 = loop forever. */
 export const REPEAT_OFF = 1;
 export const REPEAT_INFINITE = -1;
 
-interface HifzState {
+/** Reviews kept for stats (and synced) — a few months of daily practice */
+const MAX_REVIEWS = 500;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HifzRange extends ReviewSchedule {
+  /** `{surah}:{startAyah}-{endAyah}` — the same range has the same id on every device */
+  id: string;
+  surah: number;
+  startAyah: number;
+  endAyah: number;
+  addedAt: number;
+  updatedAt: number;
+  lastReviewedAt: number | null;
+  /** Reviews graded below passing */
+  lapses: number;
+}
+
+export interface HifzReview {
+  rangeId: string;
+  grade: RecallGrade;
+  /** yyyy-MM-dd */
+  date: string;
+  reviewedAt: number;
+}
+
+/** The part of the store that is synced to the user's profile */
+export interface HifzSyncData {
+  ranges: Record<string, HifzRange>;
+  /** Removal time by range id */
+  removed: Record<string, number>;
+  reviews: HifzReview[];
+}
+
+interface HifzState extends HifzSyncData {
   playbackRate: number;     // 0.5–2.0
   repeatEachAyah: number;   // 1 = off, 3/5/7 = finite, -1 = ∞
   testMode: boolean;        // hide Arabic text until tapped (recall practice)
+  syncEnabled: boolean;     // mirror the tracker to the signed-in user's profile
+  lastSyncedAt: number | null;
 
   setPlaybackRate: (rate: number) => void;
   setRepeatEachAyah: (n: number) => void;
   setTestMode: (on: boolean) => void;
   toggleTestMode: () => void;
+
+  addRange: (surah: number, startAyah: number, endAyah: number) => string;
+  removeRange: (id: string) => void;
+  gradeRange: (id: string, grade: RecallGrade) => void;
+  setSyncEnabled: (on: boolean) => void;
+  applySyncData: (data: HifzSyncData) => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const hifzRangeId = (surah: number, startAyah: number, endAyah: number): string =>
+  `${surah}:${startAyah}-${endAyah}`;
+
+/** "Al-Baqarah 1–5", or "Al-Fatihah 3" for a single ayah */
+export function formatHifzRange(range: Pick<HifzRange, 'surah' | 'startAyah' | 'endAyah'>): string {
+  const name = surahMeta[range.surah - 1]?.name ?? `Surah ${range.surah}`;
+  return range.startAyah === range.endAyah
+    ? `${name} ${range.startAyah}`
+    : `${name} ${range.startAyah}–${range.endAyah}`;
+}
+
+/**
+ * Combine two copies of the tracker (this device and the synced profile)
+ *
+ * The most recently updated copy of each range wins, unless the range was
+ * removed after that update. Review logs are unioned.
+ */
+export function mergeHifzData(local: HifzSyncData, remote: HifzSyncData): HifzSyncData {
+  const removed = { ...local.removed };
+  Object.entries(remote.removed ?? {}).forEach(([id, at]) => {
+    removed[id] = Math.max(removed[id] ?? 0, at);
+  });
+
+  const ranges: Record<string, HifzRange> = {};
+  const ids = new Set([...Object.keys(local.ranges), ...Object.keys(remote.ranges ?? {})]);
+  ids.forEach((id) => {
+    const a = local.ranges[id];
+    const b = remote.ranges?.[id];
+    const newest = !a ? b : !b ? a : b.updatedAt > a.updatedAt ? b : a;
+    if (newest && newest.updatedAt > (removed[id] ?? 0)) ranges[id] = newest;
+  });
+
+  const reviews = new Map<string, HifzReview>();
+  [...local.reviews, ...(remote.reviews ?? [])].forEach((review) => {
+    reviews.set(`${review.rangeId}@${review.reviewedAt}`, review);
+  });
+
+  return {
+    ranges,
+    removed,
+    reviews: [...reviews.values()]
+      .sort((a, b) => a.reviewedAt - b.reviewedAt)
+      .slice(-MAX_REVIEWS),
+  };
 }
 
+// ============================================================================
+// STORE
+// ============================================================================
+
 export const useHifzStore = create<HifzState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       playbackRate: 1,
       repeatEachAyah: REPEAT_OFF,
       testMode: false,
+      syncEnabled: false,
+      lastSyncedAt: null,
+      ranges: {},
+      removed: {},
+      reviews: [],
 
       setPlaybackRate: (playbackRate) => set({ playbackRate }),
       setRepeatEachAyah: (repeatEachAyah) => set({ repeatEachAyah }),
       setTestMode: (testMode) => set({ testMode }),
       toggleTestMode: () => set((s) => ({ testMode: !s.testMode })),
+
+      // Marking an already tracked range keeps its schedule.
+      addRange: (surah, startAyah, endAyah) => {
+        const [start, end] = startAyah <= endAyah ? [startAyah, endAyah] : [endAyah, startAyah];
+        const id = hifzRangeId(surah, start, end);
+        if (get().ranges[id]) return id;
+
+        const now = Date.now();
+        const { [id]: _, ...removed } = get().removed;
+        logger.info('Hifz range added', { id });
+        set((s) => ({
+          removed,
+          ranges: {
+            ...s.ranges,
+            [id]: {
+              id,
+              surah,
+              startAyah: start,
+              endAyah: end,
+              addedAt: now,
+              updatedAt: now,
+              lastReviewedAt: null,
+              lapses: 0,
+              ...createSchedule(),
+            },
+          },
+        }));
+        return id;
+      },
+      removeRange: (id) =>
+        set((s) => {
+          const { [id]: _, ...ranges } = s.ranges;
+          logger.info('Hifz range removed', { id });
+          return { ranges, removed: { ...s.removed, [id]: Date.now() } };
+        }),
+      gradeRange: (id, grade) =>
+        set((s) => {
+          const range = s.ranges[id];
+          if (!range) return {};
+
+          const now = Date.now();
+          const schedule = scheduleReview(range, grade);
+          logger.info('Hifz range reviewed', { id, grade, interval: schedule.interval, due: schedule.due });
+          return {
+            ranges: {
+              ...s.ranges,
+              [id]: {
+                ...range,
+                ...schedule,
+                updatedAt: now,
+                lastReviewedAt: now,
+                lapses: range.lapses + (grade < PASSING_GRADE ? 1 : 0),
+              },
+            },
+            reviews: [...s.reviews, { rangeId: id, grade, date: toDateKey(), reviewedAt: now }].slice(
+              -MAX_REVIEWS
+            ),
+          };
+        }),
+      setSyncEnabled: (syncEnabled) => set({ syncEnabled }),
+      applySyncData: ({ ranges, removed, reviews }) =>
+        set({ ranges, removed, reviews, lastSyncedAt: Date.now() }),
     }),
     {
       name: 'hifz-store',
@@ -44,8 +233,76 @@ export const useHifzStore = create<HifzState>()(
         setItem: (name, value) => defaultStorage.setString(name, value),
         removeItem: (name) => defaultStorage.delete(name),
       })),
-      // Persist preferences only — testMode always starts off.
-      partialize: (s) => ({ playbackRate: s.playbackRate, repeatEachAyah: s.repeatEachAyah }),
+      // Persist preferences and the tracker — testMode always starts off.
+      partialize: (s) => ({
+        playbackRate: s.playbackRate,
+        repeatEachAyah: s.repeatEachAyah,
+        syncEnabled: s.syncEnabled,
+        lastSyncedAt: s.lastSyncedAt,
+        ranges: s.ranges,
+        removed: s.removed,
+        reviews: s.reviews,
+      }),
     }
   )
 );
+
+// ============================================================================
+// SELECTORS
+// ============================================================================
+
+const byDueThenMushafOrder = (a: HifzRange, b: HifzRange) =>
+  a.due.localeCompare(b.due) || a.surah - b.surah || a.startAyah - b.startAyah;
+
+// Selector: every tracked range, soonest review first.
+export const useHifzRanges = (): HifzRange[] => {
+  const ranges = useHifzStore((s) => s.ranges);
+  return useMemo(() => Object.values(ranges).sort(byDueThenMushafOrder), [ranges]);
+};
+
+// Selector: ranges due for review today (overdue first).
+export const useHifzDueQueue = (): HifzRange[] => {
+  const ranges = useHifzRanges();
+  const today = toDateKey();
+  return useMemo(() => ranges.filter((range) => range.due <= today), [ranges, today]);
+};
+
+export interface HifzStats {
+  /** Distinct ayahs across all ranges */
+  memorisedAyahs: number;
+  rangeCount: number;
+  dueToday: number;
+  /** Ranges reviewed at an interval of 21 days or more */
+  matureRanges: number;
+  /** Share of reviews in the last 30 days graded passing, 0–1 (null without reviews) */
+  retention: number | null;
+  reviewsLast30Days: number;
+}
+
+// Selector: tracker summary (for the Progress tab card and the hifz screen).
+export const useHifzStats = (): HifzStats => {
+  const ranges = useHifzStore((s) => s.ranges);
+  const reviews = useHifzStore((s) => s.reviews);
+  const today = toDateKey();
+
+  return useMemo(() => {
+    const list = Object.values(ranges);
+    const ayahs = new Set<string>();
+    list.forEach((range) => {
+      for (let ayah = range.startAyah; ayah <= range.endAyah; ayah++) ayahs.add(`${range.surah}:${ayah}`);
+    });
+
+    const since = toDateKey(subDays(new Date(), 30));
+    const recent = reviews.filter((review) => review.date > since);
+    const passed = recent.filter((review) => review.grade >= PASSING_GRADE).length;
+
+    return {
+      memorisedAyahs: ayahs.size,
+      rangeCount: list.length,
+      dueToday: list.filter((range) => range.due <= today).length,
+      matureRanges: list.filter((range) => range.interval >= MATURE_INTERVAL_DAYS).length,
+      retention: recent.length ? passed / recent.length : null,
+      reviewsLast30Days: recent.length,
+    };
+  }, [ranges, reviews, today]);
+};
@@ -0,0 +1,83 @@
+/**
+ * Iqra store
+ *
+ * Progress through the Iqra reading course (data/iqraCourse.ts): which lessons
+ * are done, with the best self-check score. Lessons unlock in course order, so
+ * the completed map is all the course screens and the Progress tab need.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { defaultStorage } from '../api/client/storage';
+import { createLogger } from '../services/logging/logger';
+import { IQRA_LESSONS, getNextIqraLesson, type IqraLesson } from '../data/iqraCourse';
+
+const logger = createLogger('Iqra');
+
+export interface IqraLessonResult {
+  completedAt: number;
+  score: number; // best self-check score, 0–1
+}
+
+interface IqraState {
+  completed: Record<string, IqraLessonResult>;
+  lastLessonId: string | null;
+
+  completeLesson: (lessonId: string, score: number) => void;
+  openLesson: (lessonId: string) => void;
+  resetCourse: () => void;
+}
+
+export const useIqraStore = create<IqraState>()(
+  persist(
+    (set) => ({
+      completed: {},
+      lastLessonId: null,
+
+      // Retaking a lesson keeps the first completion date and the best score.
+      completeLesson: (lessonId, score) =>
+        set((s) => {
+          const previous = s.completed[lessonId];
+          logger.info('Iqra lesson completed', { lessonId, score });
+          return {
+            completed: {
+              ...s.completed,
+              [lessonId]: {
+                completedAt: previous?.completedAt ?? Date.now(),
+                score: Math.max(previous?.score ?? 0, score),
+              },
+            },
+          };
+        }),
+      openLesson: (lastLessonId) => set({ lastLessonId }),
+      resetCourse: () => {
+        logger.info('Iqra course reset');
+        set({ completed: {}, lastLessonId: null });
+      },
+    }),
+    {
+      name: 'iqra-store',
+      storage: createJSONStorage(() => ({
+        getItem: (name) => defaultStorage.getString(name) ?? null,
+        setItem: (name, value) => defaultStorage.setString(name, value),
+        removeItem: (name) => defaultStorage.delete(name),
+      })),
+    }
+  )
+);
+
+export interface IqraProgress {
+  completed: number;
+  total: number;
+  next: IqraLesson | null;
+}
+
+// Selector: course progress (for the Progress tab card and the course screen).
+export const useIqraProgress = (): IqraProgress => {
+  const completed = useIqraStore((s) => s.completed);
+  return {
+    completed: IQRA_LESSONS.filter((lesson) => !!completed[lesson.id]).length,
+    total: IQRA_LESSONS.length,
+    next: getNextIqraLesson(completed),
+  };
+};
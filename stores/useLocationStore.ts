@@ -4,16 +4,19 @@
  * Persists location preference and coordinates
  * - useCustomLocation: Boolean flag (use GPS vs. Singapore)
  * - lastKnownLocation: Cached coordinates
+ * - homeCoords: Home location for travel (safar) detection
  * - Auto-loads on app startup
  * 
- * @version 2.0
+ * @version 2.1
  */
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import * as Location from 'expo-location';
 import { defaultStorage } from '../api/client/storage';
+import { getTravelStatus } from '../api/services/prayer/utils/travel';
 import { createLogger } from '../services/logging/logger';
+import { useTravelStore } from './useTravelStore';
 
 const logger = createLogger('Location');
 
@@ -31,6 +34,10 @@ interface LocationState {
     latitude: number;
     longitude: number;
   } | null;
+  homeCoords: {                // Travel mode: distance is measured from here
+    latitude: number;
+    longitude: number;
+  };
   
   // UI states
   isLoading: boolean;
@@ -49,6 +56,9 @@ interface LocationActions {
   enableCustomLocation: (coords: { latitude: number; longitude: number }) => void;  // ✅ NEW
   resetToSingapore: () => void;  // ✅ NEW
   
+  // Travel mode
+  setHomeLocation: (coords: { latitude: number; longitude: number }) => void;
+  
   // Utility
   clearError: () => void;
   reset: () => void;
@@ -65,6 +75,41 @@ const SINGAPORE_COORDS = {
   longitude: 103.8198,
 };
 
+// ============================================================================
+// TRAVEL DETECTION
+// ============================================================================
+
+/**
+ * Start, update or end the travel session for new coordinates
+ *
+ * Beyond the qasar distance from home starts (or moves) a session; back
+ * within it ends the session. The destination name is resolved best-effort.
+ */
+async function updateTravelSession(
+  home: { latitude: number; longitude: number },
+  coords: { latitude: number; longitude: number }
+): Promise<void> {
+  const travel = useTravelStore.getState();
+  const { distanceKm, isTravelling } = getTravelStatus(home, coords);
+
+  if (!isTravelling) {
+    travel.endSession();
+    return;
+  }
+
+  travel.startSession(coords, distanceKm);
+
+  try {
+    const [place] = await Location.reverseGeocodeAsync(coords);
+    const name = place ? [place.city || place.subregion, place.country].filter(Boolean).join(', ') : '';
+    if (name) travel.updateDestination({ ...coords, name }, distanceKm);
+  } catch (error) {
+    logger.warn('Could not resolve travel destination', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 // ============================================================================
 // STORE
 // ============================================================================
@@ -76,6 +121,7 @@ export const useLocationStore = create<LocationStore>()(
       userLocation: null,
       useCustomLocation: false,
       lastKnownCoords: null,
+      homeCoords: SINGAPORE_COORDS,
       isLoading: false,
       error: null,
       hasPermission: false,
@@ -117,6 +163,8 @@ export const useLocationStore = create<LocationStore>()(
             error: null
           });
 
+          await updateTravelSession(get().homeCoords, coords);
+
         } catch (error) {
           logger.error('Error fetching location', error as Error);
           set({ 
@@ -138,6 +186,8 @@ export const useLocationStore = create<LocationStore>()(
           useCustomLocation: true,
           error: null
         });
+
+        void updateTravelSession(get().homeCoords, coords);
       },
 
       // ✅ NEW: Enable custom location with specific coordinates
@@ -156,6 +206,14 @@ export const useLocationStore = create<LocationStore>()(
           lastKnownCoords: null,
           error: null,
         });
+
+        void updateTravelSession(get().homeCoords, SINGAPORE_COORDS);
+      },
+
+      setHomeLocation: (coords) => {
+        logger.info('Home location updated', coords);
+        set({ homeCoords: coords });
+        useTravelStore.getState().endSession();
       },
 
       clearError: () => set({ error: null }),
@@ -164,6 +222,7 @@ export const useLocationStore = create<LocationStore>()(
         userLocation: null,
         useCustomLocation: false,
         lastKnownCoords: null,
+        homeCoords: SINGAPORE_COORDS,
         isLoading: false,
         error: null,
         hasPermission: false,
@@ -187,6 +246,7 @@ export const useLocationStore = create<LocationStore>()(
       partialize: (state) => ({
         useCustomLocation: state.useCustomLocation,
         lastKnownCoords: state.lastKnownCoords,
+        homeCoords: state.homeCoords,
       }),
     }
   )
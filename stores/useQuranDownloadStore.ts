@@ -0,0 +1,37 @@
+/**
+ * Quran Download Store
+ *
+ * Ephemeral (non-persisted) progress of the offline Quran download. What is
+ * actually on the device lives in the MMKV caches, so the counts are re-read
+ * from there on app start (`refreshQuranDownloadState`) rather than persisted.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { create } from 'zustand';
+
+export type QuranDownloadStatus = 'idle' | 'downloading' | 'paused' | 'complete' | 'error';
+
+export interface QuranDownloadProgress {
+  surahsCached: number;
+  pagesCached: number;
+  bytes: number;
+}
+
+interface QuranDownloadState extends QuranDownloadProgress {
+  status: QuranDownloadStatus;
+  error: string | null;
+  setStatus: (status: QuranDownloadStatus, error?: string | null) => void;
+  setProgress: (progress: Partial<QuranDownloadProgress>) => void;
+}
+
+export const useQuranDownloadStore = create<QuranDownloadState>((set) => ({
+  status: 'idle',
+  error: null,
+  surahsCached: 0,
+  pagesCached: 0,
+  bytes: 0,
+  setStatus: (status, error = null) => set({ status, error }),
+  setProgress: (progress) => set(progress),
+}));
@@ -40,6 +40,16 @@ export interface RecitationPlan {
   lastReadAyah: string;
 }
 
+/** Reading progress carried in a backup file. */
+export interface QuranProgressBackup {
+  bookmarks: QuranBookmark[];
+  recitationPlan: RecitationPlan | null;
+  readAyahs: string[];
+  currentStreak: number;
+  longestStreak: number;
+  lastReadDate: string | null;
+}
+
 interface QuranState {
   // State
   bookmarks: QuranBookmark[];
@@ -74,6 +84,9 @@ interface QuranState {
   
   // Last Listened Position
   setLastListenedAyah: (surahNumber: number, ayahNumber: number) => void;
+  
+  // Backup
+  importProgress: (backup: QuranProgressBackup) => { bookmarks: number; readAyahs: number };
 }
 
 // ============================================================================
@@ -389,6 +402,60 @@ export const useQuranStore = create<QuranState>()(
         
         set({ lastListenedAyah: { surahNumber, ayahNumber } });
       },
+      
+      // ========================================================================
+      // BACKUP
+      // ========================================================================
+      
+      importProgress: (backup) => {
+        const state = get();
+        
+        const readSet = new Set(state.readAyahs);
+        const newReadAyahs = backup.readAyahs.filter((key) => !readSet.has(key));
+        const newBookmarks = backup.bookmarks.filter(
+          (b) => !state.isBookmarked(b.surahNumber, b.ayahNumber)
+        );
+        
+        // Keep the active plan; adopt the backup's only when none is set.
+        // Progress on the same plan is combined.
+        let recitationPlan = state.recitationPlan ?? backup.recitationPlan;
+        if (
+          state.recitationPlan &&
+          backup.recitationPlan &&
+          state.recitationPlan.planType === backup.recitationPlan.planType &&
+          state.recitationPlan.startDate === backup.recitationPlan.startDate
+        ) {
+          recitationPlan = {
+            ...state.recitationPlan,
+            completedAyahKeys: Array.from(
+              new Set([...state.recitationPlan.completedAyahKeys, ...backup.recitationPlan.completedAyahKeys])
+            ),
+          };
+        }
+        
+        // The most recent reading day owns the current streak
+        const backupIsNewer =
+          !!backup.lastReadDate && (!state.lastReadDate || backup.lastReadDate > state.lastReadDate);
+        
+        set({
+          readAyahs: [...state.readAyahs, ...newReadAyahs],
+          bookmarks: [...state.bookmarks, ...newBookmarks],
+          recitationPlan,
+          longestStreak: Math.max(state.longestStreak, backup.longestStreak),
+          ...(backupIsNewer && {
+            currentStreak: backup.currentStreak,
+            lastReadDate: backup.lastReadDate,
+          }),
+        });
+        
+        logger.success('Reading progress imported', {
+          newReadAyahs: newReadAyahs.length,
+          newBookmarks: newBookmarks.length,
+          hasRecitationPlan: !!recitationPlan,
+        });
+        
+        return { bookmarks: newBookmarks.length, readAyahs: newReadAyahs.length };
+      },
     }),
     {
       name: 'quran', // Storage key
@@ -1,10 +1,12 @@
 /**
  * Tasbih (dhikr counter) store
  *
- * Customizable dhikr counter, persisted to MMKV. Two modes:
+ * Customizable dhikr counter, persisted to MMKV. Three modes:
  *  - 'postSalah': auto-cycles SubhanAllah 33 → Alhamdulillah 33 → Allahu Akbar 34
  *  - 'single':    one chosen dhikr (from the library or a custom one) counted to
  *                 a chosen target (33 / 99 / 100 / free), looping on completion.
+ *  - 'tahlil':    the counted adhkar of a tahlil gathering, in order (the
+ *                 Quran portions are read in the Quran reader; see the tahlil guide).
  * Tracks a daily total (reset at date change) + lifetime total for the Progress tab.
  */
 
@@ -41,6 +43,7 @@ export const ADHKAR_LIBRARY: Dhikr[] = [
   { id: 'salawat', arabic: 'اللّٰهُمَّ صَلِّ عَلَىٰ مُحَمَّد', transliteration: 'Allahumma salli ʿala Muhammad', meaning: 'O Allah, send blessings upon Muhammad' },
   { id: 'subhana_bihamdihi', arabic: 'سُبْحَانَ اللّٰهِ وَبِحَمْدِهِ', transliteration: 'SubhanAllahi wa bihamdihi', meaning: 'Glory and praise to Allah' },
   { id: 'hasbunallah', arabic: 'حَسْبُنَا اللّٰهُ وَنِعْمَ الْوَكِيل', transliteration: 'Hasbunallahu wa niʿmal wakil', meaning: 'Allah is sufficient for us' },
+  { id: 'subhana_bihamdihi_azim', arabic: 'سُبْحَانَ اللّٰهِ وَبِحَمْدِهِ سُبْحَانَ اللّٰهِ الْعَظِيم', transliteration: 'SubhanAllahi wa bihamdihi, SubhanAllahil ʿazim', meaning: 'Glory and praise to Allah, glory to Allah the Magnificent' },
 ];
 
 export const TARGET_PRESETS = [33, 99, 100, 0] as const; // 0 = free
@@ -52,12 +55,21 @@ const POST_SALAH_STEPS: { id: string; target: number }[] = [
   { id: 'allahuakbar', target: 34 },
 ];
 
+// Counted adhkar of the tahlil, after the Quran portions (common Malay practice;
+// counts vary locally).
+const TAHLIL_STEPS: { id: string; target: number }[] = [
+  { id: 'istighfar', target: 3 },
+  { id: 'tahlil', target: 100 },
+  { id: 'subhana_bihamdihi_azim', target: 33 },
+  { id: 'salawat', target: 10 },
+];
+
 const libraryById = (id: string): Dhikr =>
   ADHKAR_LIBRARY.find((d) => d.id === id) ?? ADHKAR_LIBRARY[0];
 
 const todayStr = (): string => format(new Date(), 'yyyy-MM-dd');
 
-export type TasbihMode = 'postSalah' | 'single';
+export type TasbihMode = 'postSalah' | 'single' | 'tahlil';
 
 interface TasbihState {
   // config
@@ -81,6 +93,15 @@ interface TasbihState {
   setSingleDhikr: (id: string) => void;
   setSingleTarget: (target: number) => void;
   setCustomDhikr: (dhikr: Omit<Dhikr, 'id'>) => void;
+  importTotals: (totals: TasbihBackup) => void;
+}
+
+/** Fields carried in a backup file. */
+export interface TasbihBackup {
+  todayTotal: number;
+  lifetimeTotal: number;
+  lastDate: string;
+  custom: Dhikr | null;
 }
 
 /** Resolve the ordered steps for the current config (pure). */
@@ -90,6 +111,9 @@ export function computeSteps(
   if (state.mode === 'postSalah') {
     return POST_SALAH_STEPS.map((s) => ({ dhikr: libraryById(s.id), target: s.target }));
   }
+  if (state.mode === 'tahlil') {
+    return TAHLIL_STEPS.map((s) => ({ dhikr: libraryById(s.id), target: s.target }));
+  }
   const dhikr =
     state.singleId === CUSTOM_DHIKR_ID && state.custom
       ? state.custom
@@ -169,6 +193,25 @@ export const useTasbihStore = create<TasbihState>()(
           count: 0,
           stepIndex: 0,
         }),
+
+      // Restoring a backup never lowers a total; today's count only carries
+      // over when the backup was made today. An existing custom dhikr is kept.
+      importTotals: (backup) =>
+        set((s) => {
+          const today = todayStr();
+          const currentToday = s.lastDate === today ? s.todayTotal : 0;
+          const backupToday = backup.lastDate === today ? backup.todayTotal : 0;
+          logger.info('Tasbih totals imported', {
+            lifetimeTotal: backup.lifetimeTotal,
+            todayTotal: backupToday,
+          });
+          return {
+            lifetimeTotal: Math.max(s.lifetimeTotal, backup.lifetimeTotal),
+            todayTotal: Math.max(currentToday, backupToday),
+            lastDate: today,
+            custom: s.custom ?? (backup.custom ? { ...backup.custom, id: CUSTOM_DHIKR_ID } : null),
+          };
+        }),
     }),
     {
       name: 'tasbih-store',
@@ -0,0 +1,131 @@
+/**
+ * Travel Store
+ *
+ * Client-only (MMKV) travel sessions. A session starts when the location store
+ * finds the user beyond the qasar distance from home and ends when they are
+ * back. Kept locally so prayer logs recorded during travel can be tagged as
+ * shortened/combined, and so past sessions can be looked up by date.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { format } from 'date-fns';
+import { defaultStorage } from '../api/client/storage';
+import { createLogger } from '../services/logging/logger';
+
+const logger = createLogger('Travel');
+
+/** Completed sessions kept for log tagging / history. */
+const MAX_SESSION_HISTORY = 50;
+
+export interface TravelDestination {
+  latitude: number;
+  longitude: number;
+  name?: string;
+}
+
+export interface TravelSession {
+  id: string;
+  startedAt: string; // ISO
+  endedAt: string | null; // ISO, null while active
+  destination: TravelDestination;
+  distanceKm: number;
+}
+
+interface TravelState {
+  activeSession: TravelSession | null;
+  sessions: TravelSession[]; // Completed, newest first
+
+  startSession: (destination: TravelDestination, distanceKm: number) => void;
+  updateDestination: (destination: TravelDestination, distanceKm: number) => void;
+  endSession: () => void;
+  getSessionForDate: (date: string) => TravelSession | null;
+}
+
+/** True if the session covers the given yyyy-MM-dd date. */
+const coversDate = (session: TravelSession, date: string) =>
+  format(new Date(session.startedAt), 'yyyy-MM-dd') <= date &&
+  (session.endedAt === null || format(new Date(session.endedAt), 'yyyy-MM-dd') >= date);
+
+export const useTravelStore = create<TravelState>()(
+  persist(
+    (set, get) => ({
+      activeSession: null,
+      sessions: [],
+
+      startSession: (destination, distanceKm) => {
+        if (get().activeSession) {
+          get().updateDestination(destination, distanceKm);
+          return;
+        }
+
+        const session: TravelSession = {
+          id: `travel_${Date.now()}`,
+          startedAt: new Date().toISOString(),
+          endedAt: null,
+          destination,
+          distanceKm: Math.round(distanceKm),
+        };
+        logger.info('Travel session started', {
+          id: session.id,
+          destination: destination.name,
+          distanceKm: session.distanceKm,
+        });
+        set({ activeSession: session });
+      },
+
+      updateDestination: (destination, distanceKm) => {
+        const active = get().activeSession;
+        if (!active) return;
+
+        set({
+          activeSession: {
+            ...active,
+            destination: { ...destination, name: destination.name ?? active.destination.name },
+            distanceKm: Math.round(distanceKm),
+          },
+        });
+      },
+
+      endSession: () => {
+        const active = get().activeSession;
+        if (!active) return;
+
+        const ended = { ...active, endedAt: new Date().toISOString() };
+        logger.info('Travel session ended', { id: ended.id });
+        set((state) => ({
+          activeSession: null,
+          sessions: [ended, ...state.sessions].slice(0, MAX_SESSION_HISTORY),
+        }));
+      },
+
+      getSessionForDate: (date) => {
+        const { activeSession, sessions } = get();
+        if (activeSession && coversDate(activeSession, date)) return activeSession;
+        return sessions.find((session) => coversDate(session, date)) ?? null;
+      },
+    }),
+    {
+      name: 'travel-sessions',
+      storage: createJSONStorage(() => ({
+        getItem: (name) => defaultStorage.getString(name) ?? null,
+        setItem: (name, value) => defaultStorage.setString(name, value),
+        removeItem: (name) => defaultStorage.delete(name),
+      })),
+      partialize: (state) => ({
+        activeSession: state.activeSession,
+        sessions: state.sessions,
+      }),
+    }
+  )
+);
+
+/** Reactive selector — the ongoing travel session, if any. */
+export const useActiveTravelSession = () => useTravelStore((s) => s.activeSession);
+
+/** Reactive selector — the travel session covering a date (yyyy-MM-dd), if any. */
+export const useTravelSessionForDate = (date: string) =>
+  useTravelStore((s) => {
+    if (s.activeSession && coversDate(s.activeSession, date)) return s.activeSession;
+    return s.sessions.find((session) => coversDate(session, date)) ?? null;
+  });
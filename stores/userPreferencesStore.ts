@@ -9,18 +9,29 @@
  * - Dark mode toggle
  * - Text size customization
  * - Reciter selection
+ * - Quran translation editions and transliteration
  * - Time format (12/24 hour)
- * - Adhan selection
- * - Prayer notifications
+ * - Adhan selection (bundled or user-imported, optionally per prayer)
+ * - Prayer notifications (several reminders per prayer, with weekday filters)
+ * - Prayer calculation profile (method, Asr school, high-latitude rule, adjustments)
+ * - Jumaat khutbah preview and "leave for the mosque" reminder
+ * - Daily Quran reading and dhikr reminders
  * - MMKV persistence
  * 
- * @version 2.0
+ * @version 2.5
  * @refactored 2025-12-23
  */
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { defaultStorage } from '../api/client/storage';
+import { DEFAULT_CALCULATION_PROFILE, DEFAULT_JUMAAT_SETTINGS } from '../api/services/prayer/types/constants';
+import { DEFAULT_TRANSLATION_EDITIONS } from '../api/services/quran/translations';
+import type {
+  JumaatSettings,
+  PrayerCalculationProfile,
+  PrayerReminderRule,
+} from '../api/services/prayer/types/index';
 import { createLogger } from '../services/logging/logger';
 
 // ============================================================================
@@ -35,7 +46,26 @@ const logger = createLogger('Preferences');
 
 export type Theme = 'green' | 'blue' | 'purple';
 export type TimeFormat = '12-hour' | '24-hour';
-export type AdhanSelection = 'Ahmad Al-Nafees' | 'Mishary Rashid Alafasy' | 'None';
+export type BundledAdhan = 'Ahmad Al-Nafees' | 'Mishary Rashid Alafasy' | 'None';
+/** A bundled adhan, or `custom:<id>` for a sound the user imported. */
+export type AdhanSelection = BundledAdhan | `custom:${string}`;
+
+/** Adhan clip imported by the user (trimmed WAV in the app's sound directory). */
+export interface CustomAdhan {
+  id: string;
+  name: string;
+  fileName: string;
+  durationSeconds: number;
+  importedAt: number;
+}
+
+export type DailyReminderKind = 'quranGoal' | 'tasbih';
+
+/** A once-a-day reminder, skipped on days the habit is already done. */
+export interface DailyReminderSettings {
+  enabled: boolean;
+  minutes: number; // minutes from midnight
+}
 
 interface PreferencesState {
   // State
@@ -43,40 +73,72 @@ interface PreferencesState {
   isDarkMode: boolean;
   textSize: number;
   reciter: string;
+  /** Translation editions shown under each ayah, in display order. */
+  quranTranslations: string[];
+  /** Show the transliteration above the translations (default off). */
+  showTransliteration: boolean;
   timeFormat: TimeFormat;
   /** Default pre-prayer reminder (minutes). Per-prayer overrides win. */
   reminderInterval: number;
   selectedAdhan: AdhanSelection;
+  /** Per-prayer adhan override. Missing = use selectedAdhan. */
+  prayerAdhans: Record<string, AdhanSelection>;
+  customAdhans: CustomAdhan[];
   mutedNotifications: string[];
   /** Master switch for all prayer notifications (default on). */
   notificationsEnabled: boolean;
-  /** Per-prayer reminder override (minutes before). Missing = use reminderInterval. */
-  prayerReminders: Record<string, number>;
+  /** Per-prayer reminder rules. Missing = reminderInterval every day; empty = none. */
+  prayerReminderRules: Record<string, PrayerReminderRule[]>;
   /** Prayers whose at-time alert is silent (no adhan, just a banner). */
   silentPrayers: string[];
   /** Quiet hours: alerts still arrive but silently within the window. */
   quietHoursEnabled: boolean;
   quietStartMinutes: number; // minutes from midnight
   quietEndMinutes: number;   // minutes from midnight (may wrap past midnight)
+  /** Sahur and iftar alerts during Ramadan (default on). */
+  ramadanRemindersEnabled: boolean;
+  /** Nudge before a prayer's window closes if it is not logged yet (default off). */
+  missedPrayerNudgeEnabled: boolean;
   /** When true (default), the highlight accent follows the live sky phase. */
   useSkyAccent: boolean;
+  /** How prayer times are calculated (MUIS Singapore by default). */
+  calculationProfile: PrayerCalculationProfile;
+  /** Friday khutbah preview and leave-for-the-mosque reminder. */
+  jumaatSettings: JumaatSettings;
+  /** Daily Quran reading and dhikr reminders (default off). */
+  dailyReminders: Record<DailyReminderKind, DailyReminderSettings>;
 
   // Actions
   setTheme: (theme: Theme) => void;
   toggleDarkMode: () => void;
   setTextSize: (size: number) => void;
   setReciter: (reciter: string) => void;
+  setQuranTranslations: (editions: string[]) => void;
+  setShowTransliteration: (value: boolean) => void;
   setTimeFormat: (format: TimeFormat) => void;
   setReminderInterval: (interval: number) => void;
   toggleTimeFormat: () => void;
   setSelectedAdhan: (adhan: AdhanSelection) => void;
+  setPrayerAdhan: (prayer: string, adhan: AdhanSelection | null) => void;
+  addCustomAdhan: (adhan: CustomAdhan) => void;
+  removeCustomAdhan: (id: string) => void;
   toggleNotificationForPrayer: (prayer: string) => void;
   setNotificationsEnabled: (value: boolean) => void;
-  setPrayerReminder: (prayer: string, minutes: number) => void;
+  addPrayerReminderRule: (prayer: string, rule: Omit<PrayerReminderRule, 'id'>) => void;
+  removePrayerReminderRule: (prayer: string, ruleId: string) => void;
+  /** Drop a prayer's own rules so it follows reminderInterval again. */
+  resetPrayerReminderRules: (prayer: string) => void;
   togglePrayerSilent: (prayer: string) => void;
   setQuietHoursEnabled: (value: boolean) => void;
   setQuietHours: (startMinutes: number, endMinutes: number) => void;
+  setRamadanRemindersEnabled: (value: boolean) => void;
+  setMissedPrayerNudgeEnabled: (value: boolean) => void;
   setSkyAccent: (value: boolean) => void;
+  setCalculationProfile: (profile: Partial<PrayerCalculationProfile>) => void;
+  setPrayerAdjustment: (prayer: keyof PrayerCalculationProfile['adjustments'], minutes: number) => void;
+  resetCalculationProfile: () => void;
+  setJumaatSettings: (settings: Partial<JumaatSettings>) => void;
+  setDailyReminder: (kind: DailyReminderKind, settings: Partial<DailyReminderSettings>) => void;
   resetPreferences: () => void;
 }
 
@@ -84,22 +146,36 @@ interface PreferencesState {
 // INITIAL STATE
 // ============================================================================
 
+const DEFAULT_DAILY_REMINDERS: Record<DailyReminderKind, DailyReminderSettings> = {
+  quranGoal: { enabled: false, minutes: 20 * 60 }, // 20:00
+  tasbih: { enabled: false, minutes: 21 * 60 },    // 21:00
+};
+
 const initialState = {
   theme: 'green' as Theme,
   isDarkMode: false,
   textSize: 30,
   reciter: 'ar.alafasy',
+  quranTranslations: DEFAULT_TRANSLATION_EDITIONS,
+  showTransliteration: false,
   timeFormat: '12-hour' as TimeFormat,
   reminderInterval: 0,
   selectedAdhan: 'None' as AdhanSelection,
+  prayerAdhans: {} as Record<string, AdhanSelection>,
+  customAdhans: [] as CustomAdhan[],
   mutedNotifications: [],
   notificationsEnabled: true,
-  prayerReminders: {} as Record<string, number>,
+  prayerReminderRules: {} as Record<string, PrayerReminderRule[]>,
   silentPrayers: [] as string[],
   quietHoursEnabled: false,
   quietStartMinutes: 22 * 60, // 22:00
   quietEndMinutes: 5 * 60,    // 05:00
+  ramadanRemindersEnabled: true,
+  missedPrayerNudgeEnabled: false,
   useSkyAccent: true,
+  calculationProfile: DEFAULT_CALCULATION_PROFILE,
+  jumaatSettings: DEFAULT_JUMAAT_SETTINGS,
+  dailyReminders: DEFAULT_DAILY_REMINDERS,
 };
 
 // ============================================================================
@@ -167,6 +243,19 @@ export const usePreferencesStore = create<PreferencesState>()(
         
         set({ reciter });
       },
+
+      setQuranTranslations: (quranTranslations) => {
+        logger.info('Quran translations changed', {
+          oldTranslations: get().quranTranslations,
+          newTranslations: quranTranslations,
+        });
+        set({ quranTranslations });
+      },
+
+      setShowTransliteration: (showTransliteration) => {
+        logger.info('Transliteration toggled', { enabled: showTransliteration });
+        set({ showTransliteration });
+      },
       
       // ========================================================================
       // PRAYER ACTIONS
@@ -212,6 +301,35 @@ export const usePreferencesStore = create<PreferencesState>()(
         
         set({ selectedAdhan });
       },
+
+      setPrayerAdhan: (prayer, adhan) => {
+        set((state) => {
+          const { [prayer]: _previous, ...prayerAdhans } = state.prayerAdhans;
+          logger.info('Per-prayer adhan set', { prayer, adhan: adhan ?? 'default' });
+          return { prayerAdhans: adhan ? { ...prayerAdhans, [prayer]: adhan } : prayerAdhans };
+        });
+      },
+
+      addCustomAdhan: (adhan) => {
+        logger.info('Custom adhan added', { id: adhan.id, durationSeconds: adhan.durationSeconds });
+        set((state) => ({ customAdhans: [...state.customAdhans, adhan] }));
+      },
+
+      removeCustomAdhan: (id) => {
+        // Anything that used the sound falls back to the default adhan
+        set((state) => {
+          const selection: AdhanSelection = `custom:${id}`;
+          const prayerAdhans = Object.fromEntries(
+            Object.entries(state.prayerAdhans).filter(([, adhan]) => adhan !== selection)
+          );
+          logger.info('Custom adhan removed', { id });
+          return {
+            customAdhans: state.customAdhans.filter((adhan) => adhan.id !== id),
+            prayerAdhans,
+            selectedAdhan: state.selectedAdhan === selection ? 'None' : state.selectedAdhan,
+          };
+        });
+      },
       
       setNotificationsEnabled: (notificationsEnabled) => {
         logger.info('Notifications master toggle changed', {
@@ -220,11 +338,29 @@ export const usePreferencesStore = create<PreferencesState>()(
         set({ notificationsEnabled });
       },
 
-      setPrayerReminder: (prayer, minutes) => {
+      addPrayerReminderRule: (prayer, rule) => {
         set((state) => {
-          const next = { ...state.prayerReminders, [prayer]: minutes };
-          logger.info('Per-prayer reminder set', { prayer, minutes });
-          return { prayerReminders: next };
+          const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+          const rules = [...(state.prayerReminderRules[prayer] ?? []), { ...rule, id }];
+          logger.info('Prayer reminder rule added', { prayer, ...rule });
+          return { prayerReminderRules: { ...state.prayerReminderRules, [prayer]: rules } };
+        });
+      },
+
+      removePrayerReminderRule: (prayer, ruleId) => {
+        set((state) => {
+          // Removing the last rule leaves an empty list: no reminders for the prayer
+          const rules = (state.prayerReminderRules[prayer] ?? []).filter((rule) => rule.id !== ruleId);
+          logger.info('Prayer reminder rule removed', { prayer, ruleId });
+          return { prayerReminderRules: { ...state.prayerReminderRules, [prayer]: rules } };
+        });
+      },
+
+      resetPrayerReminderRules: (prayer) => {
+        set((state) => {
+          const { [prayer]: _removed, ...prayerReminderRules } = state.prayerReminderRules;
+          logger.info('Prayer reminder rules reset to default', { prayer });
+          return { prayerReminderRules };
         });
       },
 
@@ -249,6 +385,59 @@ export const usePreferencesStore = create<PreferencesState>()(
         set({ quietStartMinutes, quietEndMinutes });
       },
 
+      setRamadanRemindersEnabled: (ramadanRemindersEnabled) => {
+        logger.info('Ramadan reminders toggled', { enabled: ramadanRemindersEnabled });
+        set({ ramadanRemindersEnabled });
+      },
+
+      setMissedPrayerNudgeEnabled: (missedPrayerNudgeEnabled) => {
+        logger.info('Missed prayer nudge toggled', { enabled: missedPrayerNudgeEnabled });
+        set({ missedPrayerNudgeEnabled });
+      },
+
+      setCalculationProfile: (profile) => {
+        set((state) => {
+          const calculationProfile = { ...state.calculationProfile, ...profile };
+          logger.info('Calculation profile changed', {
+            oldProfile: state.calculationProfile,
+            newProfile: calculationProfile,
+          });
+          return { calculationProfile };
+        });
+      },
+
+      setPrayerAdjustment: (prayer, minutes) => {
+        set((state) => {
+          const adjustments = { ...state.calculationProfile.adjustments, [prayer]: minutes };
+          logger.info('Prayer time adjustment set', { prayer, minutes });
+          return { calculationProfile: { ...state.calculationProfile, adjustments } };
+        });
+      },
+
+      resetCalculationProfile: () => {
+        logger.info('Calculation profile reset to MUIS Singapore');
+        set({ calculationProfile: DEFAULT_CALCULATION_PROFILE });
+      },
+
+      setJumaatSettings: (settings) => {
+        set((state) => {
+          const jumaatSettings = { ...state.jumaatSettings, ...settings };
+          logger.info('Jumaat settings changed', { changed: settings });
+          return { jumaatSettings };
+        });
+      },
+
+      setDailyReminder: (kind, settings) => {
+        set((state) => {
+          const dailyReminders = {
+            ...state.dailyReminders,
+            [kind]: { ...state.dailyReminders[kind], ...settings },
+          };
+          logger.info('Daily reminder changed', { kind, changed: settings });
+          return { dailyReminders };
+        });
+      },
+
       toggleNotificationForPrayer: (prayer) => {
         set((state) => {
           const isMuted = state.mutedNotifications.includes(prayer);
@@ -284,6 +473,7 @@ export const usePreferencesStore = create<PreferencesState>()(
             reminderInterval: currentState.reminderInterval !== initialState.reminderInterval,
             adhan: currentState.selectedAdhan !== initialState.selectedAdhan,
             mutedCount: currentState.mutedNotifications.length,
+            calculationProfile: currentState.calculationProfile !== initialState.calculationProfile,
           },
         });
         
@@ -304,7 +494,7 @@ export const usePreferencesStore = create<PreferencesState>()(
           defaultStorage.delete(name);
         },
       })),
-      version: 4,
+      version: 12,
       // Migration logic
       migrate: (persistedState: any, version: number) => {
         if (version === 0) {
@@ -326,6 +516,49 @@ export const usePreferencesStore = create<PreferencesState>()(
           persistedState.quietStartMinutes = persistedState.quietStartMinutes ?? 22 * 60;
           persistedState.quietEndMinutes = persistedState.quietEndMinutes ?? 5 * 60;
         }
+        if (version < 5 && persistedState) {
+          logger.warn('Migrating preferences to v5: defaulting calculationProfile to MUIS');
+          persistedState.calculationProfile =
+            persistedState.calculationProfile ?? DEFAULT_CALCULATION_PROFILE;
+        }
+        if (version < 6 && persistedState) {
+          logger.warn('Migrating preferences to v6: defaulting ramadanRemindersEnabled=true');
+          persistedState.ramadanRemindersEnabled = persistedState.ramadanRemindersEnabled ?? true;
+        }
+        if (version < 7 && persistedState) {
+          logger.warn('Migrating preferences to v7: defaulting missedPrayerNudgeEnabled=false');
+          persistedState.missedPrayerNudgeEnabled = persistedState.missedPrayerNudgeEnabled ?? false;
+        }
+        if (version < 8 && persistedState) {
+          logger.warn('Migrating preferences to v8: per-prayer and custom adhan defaults');
+          persistedState.prayerAdhans = persistedState.prayerAdhans ?? {};
+          persistedState.customAdhans = persistedState.customAdhans ?? [];
+        }
+        if (version < 9 && persistedState) {
+          logger.warn('Migrating preferences to v9: per-prayer reminders become rule lists');
+          const legacy: Record<string, number> = persistedState.prayerReminders ?? {};
+          persistedState.prayerReminderRules = Object.fromEntries(
+            Object.entries(legacy).map(([prayer, minutes]) => [
+              prayer,
+              minutes > 0 ? [{ id: `${prayer}-migrated`, minutesBefore: minutes, weekdays: [] }] : [],
+            ])
+          );
+          delete persistedState.prayerReminders;
+        }
+        if (version < 10 && persistedState) {
+          logger.warn('Migrating preferences to v10: default Jumaat settings');
+          persistedState.jumaatSettings = persistedState.jumaatSettings ?? DEFAULT_JUMAAT_SETTINGS;
+        }
+        if (version < 11 && persistedState) {
+          logger.warn('Migrating preferences to v11: default Quran translations');
+          persistedState.quranTranslations =
+            persistedState.quranTranslations ?? DEFAULT_TRANSLATION_EDITIONS;
+          persistedState.showTransliteration = persistedState.showTransliteration ?? false;
+        }
+        if (version < 12 && persistedState) {
+          logger.warn('Migrating preferences to v12: daily reminders off');
+          persistedState.dailyReminders = persistedState.dailyReminders ?? DEFAULT_DAILY_REMINDERS;
+        }
         return persistedState as PreferencesState;
       },
       // Log store hydration
@@ -343,6 +576,7 @@ export const usePreferencesStore = create<PreferencesState>()(
               timeFormat: state.timeFormat,
               adhan: state.selectedAdhan,
               mutedPrayers: state.mutedNotifications.length,
+              calculationMethod: state.calculationProfile.method,
             });
           }
         };
@@ -382,6 +616,10 @@ export const useSkyAccentEnabled = () => usePreferencesStore((state) => state.us
 export const useNotificationsEnabled = () =>
   usePreferencesStore((state) => state.notificationsEnabled);
 
+/** Prayer calculation profile (method, Asr school, high-latitude rule, adjustments). */
+export const useCalculationProfile = () =>
+  usePreferencesStore((state) => state.calculationProfile);
+
 // ============================================================================
 // UTILITY HOOKS
 // ============================================================================
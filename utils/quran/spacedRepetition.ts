@@ -0,0 +1,131 @@
+/**
+ * Spaced Repetition (SM-2)
+ *
+ * Review scheduling for memorised ayah ranges, after SuperMemo's SM-2: each
+ * range carries an easiness factor, an interval in days and a run of
+ * successful repetitions. A recall grade of 3 or more pushes the next review
+ * out; anything lower starts the range over at one day.
+ *
+ * Dates are local `yyyy-MM-dd` keys, so "due today" follows the user's day
+ * rather than UTC.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** SM-2 recall quality: 0 = blackout … 5 = perfect */
+export type RecallGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewSchedule {
+  easiness: number;
+  /** Days until the next review */
+  interval: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  /** Next review date (yyyy-MM-dd) */
+  due: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const INITIAL_EASINESS = 2.5;
+export const MIN_EASINESS = 1.3;
+
+/** Grades below this are a lapse */
+export const PASSING_GRADE = 3;
+
+/** Ranges reviewed at this interval or longer count as long-term memorised */
+export const MATURE_INTERVAL_DAYS = 21;
+
+/** The four buttons offered after a test — SM-2 grades underneath */
+export const RECALL_GRADES: { grade: RecallGrade; label: string; hint: string }[] = [
+  { grade: 1, label: 'Again', hint: 'Could not recall' },
+  { grade: 3, label: 'Hard', hint: 'Recalled with mistakes' },
+  { grade: 4, label: 'Good', hint: 'Recalled with hesitation' },
+  { grade: 5, label: 'Easy', hint: 'Recalled fluently' },
+];
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+export const toDateKey = (date: Date = new Date()): string => format(date, 'yyyy-MM-dd');
+
+/** Days from today until a date key (negative when overdue) */
+export function daysUntil(dateKey: string, today: Date = new Date()): number {
+  return differenceInCalendarDays(parseISO(dateKey), today);
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+/**
+ * Schedule for a newly memorised range: first review tomorrow
+ */
+export function createSchedule(today: Date = new Date()): ReviewSchedule {
+  return {
+    easiness: INITIAL_EASINESS,
+    interval: 0,
+    repetitions: 0,
+    due: toDateKey(addDays(today, 1)),
+  };
+}
+
+/**
+ * Next schedule after a review graded `grade`
+ *
+ * @example
+ * ```ts
+ * const next = scheduleReview(createSchedule(), 4);
+ * // { easiness: 2.5, interval: 1, repetitions: 1, due: tomorrow }
+ * ```
+ */
+export function scheduleReview(
+  schedule: ReviewSchedule,
+  grade: RecallGrade,
+  today: Date = new Date()
+): ReviewSchedule {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    schedule.easiness + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)
+  );
+
+  let interval: number;
+  let repetitions: number;
+  if (grade < PASSING_GRADE) {
+    interval = 1;
+    repetitions = 0;
+  } else {
+    repetitions = schedule.repetitions + 1;
+    interval =
+      repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.interval * schedule.easiness);
+  }
+
+  return {
+    easiness: Math.round(easiness * 100) / 100,
+    interval,
+    repetitions,
+    due: toDateKey(addDays(today, interval)),
+  };
+}
+
+/**
+ * Label for a due date: "Today", "Tomorrow", "In 6 days", "2 days overdue"
+ */
+export function formatDue(dateKey: string, today: Date = new Date()): string {
+  const days = daysUntil(dateKey, today);
+  if (days < -1) return `${-days} days overdue`;
+  if (days === -1) return '1 day overdue';
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return `In ${days} days`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Quran Text Normalisation
+ *
+ * Tokenising, Arabic normalisation, light triliteral-root extraction and
+ * English stemming for the Quran search index. The same functions run when the
+ * index is built and when a query is parsed, so both sides agree on terms.
+ *
+ * These are light, rule-based approximations — not a morphological analyser.
+ * They are tuned for recall (finding كتاب from كتب, "believers" from
+ * "believe"); ranking puts exact word matches first.
+ *
+ * @version 1.0
+ * @since 2026-10-18
+ */
+
+// ============================================================================
+// ARABIC
+// ============================================================================
+
+// Harakat, tanween, shadda, sukun, superscript alif, Quranic annotation marks, tatweel
+const TASHKEEL = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+const ARABIC_LETTER = /[\u0621-\u064A\u0671-\u06D3]/;
+
+const PREFIXES = ['وال', 'فال', 'بال', 'كال', 'ولل', 'ال', 'لل', 'و', 'ف', 'ب', 'ك', 'ل', 'س'];
+const SUFFIXES = ['هما', 'كما', 'تم', 'ون', 'ين', 'ات', 'ان', 'ها', 'هم', 'هن', 'كم', 'كن', 'نا', 'وا', 'ه', 'ي', 'ك', 'ت'];
+// Pattern letters that wrap or sit inside a root (مفعول, تفعيل, فاعل, ...)
+const PATTERN_PREFIXES = ['است', 'مست', 'م', 'ت', 'ي', 'ن', 'ا'];
+const WEAK_LETTERS = /[اوي]/;
+
+export function isArabic(text: string): boolean {
+  return ARABIC_LETTER.test(text);
+}
+
+/**
+ * Strip tashkeel and unify letter variants: alif forms (أ إ آ ٱ) → ا,
+ * ؤ → و, ئ / ى → ي, ة → ه
+ */
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(TASHKEEL, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/[ئى]/g, 'ي')
+    .replace(/ة/g, 'ه');
+}
+
+/**
+ * Best-effort triliteral root of a normalised Arabic word
+ *
+ * Strips clitics (و, ال, ...), common suffixes and pattern letters, then drops
+ * weak letters until three remain. Returns null for words too short to judge.
+ */
+export function arabicRoot(word: string): string | null {
+  let stem = word;
+
+  // A single-letter clitic is only split off longer words (كاتب is not ك + اتب)
+  for (const prefix of PREFIXES) {
+    if (stem.startsWith(prefix) && stem.length - prefix.length >= (prefix.length === 1 ? 4 : 3)) {
+      stem = stem.slice(prefix.length);
+      break;
+    }
+  }
+  for (const suffix of SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length);
+      break;
+    }
+  }
+  for (const prefix of PATTERN_PREFIXES) {
+    if (stem.length > 3 && stem.startsWith(prefix) && stem.length - prefix.length >= 3) {
+      stem = stem.slice(prefix.length);
+      break;
+    }
+  }
+
+  // Long vowels inside the word belong to the pattern (كاتب, مكتوب, كبير)
+  while (stem.length > 3) {
+    const index = stem.slice(1).search(WEAK_LETTERS);
+    if (index === -1) break;
+    stem = stem.slice(0, index + 1) + stem.slice(index + 2);
+  }
+
+  return stem.length === 3 ? stem : null;
+}
+
+// ============================================================================
+// LATIN SCRIPT (translations, transliteration)
+// ============================================================================
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'he', 'his', 'i', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'was', 'we',
+  'were', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+export function isStopWord(token: string): boolean {
+  return STOP_WORDS.has(token);
+}
+
+/** Lowercase and strip accents (ā → a), apostrophes and ayn marks */
+export function normalizeLatin(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036F]/g, '')
+    .replace(/[\u02BE\u02BF\u2018\u2019'`]/g, '');
+}
+
+/**
+ * Light English stemmer (plural, tense and common derivational suffixes)
+ */
+export function stemEnglish(word: string): string {
+  if (word.length <= 3) return word;
+
+  let stem = word;
+  if (stem.endsWith('ies') && stem.length > 4) stem = stem.slice(0, -3) + 'y';
+  else if (stem.endsWith('sses')) stem = stem.slice(0, -2);
+  else if (stem.endsWith('s') && !stem.endsWith('ss') && !stem.endsWith('us')) stem = stem.slice(0, -1);
+
+  for (const suffix of ['fulness', 'ousness', 'iveness', 'fully', 'ness', 'ment', 'ingly', 'edly', 'ing', 'ful', 'ed', 'ly', 'er']) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length);
+      // believ(e)d, hop(p)ing: undouble the final consonant
+      if (/([b-df-hj-np-tv-z])\1$/.test(stem) && !/(ll|ss|zz)$/.test(stem)) stem = stem.slice(0, -1);
+      break;
+    }
+  }
+
+  // mercy / merciful / mercies all end up as "merci"
+  if (stem.endsWith('y') && stem.length > 3) return stem.slice(0, -1) + 'i';
+  return stem.endsWith('e') && stem.length > 3 ? stem.slice(0, -1) : stem;
+}
+
+// ============================================================================
+// TOKENISING
+// ============================================================================
+
+const TOKEN_SEPARATOR = /[\s.,;:!?"“”()[\]{}«»،؛؟۞۩\-–—…*/\\]+/;
+
+export function tokenize(text: string): string[] {
+  return text.split(TOKEN_SEPARATOR).filter(Boolean);
+}
+
+/**
+ * Normalised Arabic words of a text
+ *
+ * Uthmani words with a superscript alif are returned in both spellings, so
+ * ٱلْكِتَٰبُ matches the modern الكتاب as well as الكتب (and ذَٰلِكَ still
+ * matches ذلك).
+ */
+export function tokenizeArabic(text: string): string[] {
+  return tokenize(text).flatMap((word) => {
+    const normalized = normalizeArabic(word);
+    if (!isArabic(normalized)) return [];
+    if (!word.includes('\u0670')) return [normalized];
+    const withAlif = normalizeArabic(word.replace(/\u0648?\u0670/g, '\u0627'));
+    return withAlif === normalized ? [normalized] : [normalized, withAlif];
+  });
+}
+
+/** Normalised Latin-script words of a text, without stop words */
+export function tokenizeLatin(text: string): string[] {
+  return tokenize(normalizeLatin(text)).filter((token) => !isStopWord(token));
+}
@@ -2,10 +2,16 @@
 import { Platform } from 'react-native';
 import SharedGroupPreferences from 'react-native-shared-group-preferences';
 import type { NormalizedPrayerTimes } from '../api/services/prayer/types';
+import { PrayerWidget } from '../modules/prayer-widget';
 import { createLogger } from '../services/logging/logger';
 
 const logger = createLogger('Widget');
 
+/**
+ * iOS app group shared with the widget extension. On Android the same name is
+ * the SharedPreferences file the widget provider reads (the app and widget
+ * share a process, so no group is needed).
+ */
 const APP_GROUP_IDENTIFIER = 'group.com.rihlah.prayerTimesWidget';
 
 /**
@@ -30,15 +36,31 @@ export interface DailyPrayerData extends NormalizedPrayerTimes {
   date: string; // ISO format: "YYYY-MM-DD"
 }
 
+const hasWidget = () => Platform.OS === 'ios' || Platform.OS === 'android';
+
+// Android reads plain SharedPreferences; iOS reads the app-group UserDefaults
+const storageOptions = () =>
+  Platform.OS === 'android' ? { useAndroidSharedPreferences: true } : undefined;
+
+async function writeWidgetItem(key: string, value: string) {
+  await SharedGroupPreferences.setItem(key, value, APP_GROUP_IDENTIFIER, storageOptions());
+}
+
+async function readWidgetItem(key: string): Promise<string | null> {
+  return SharedGroupPreferences.getItem<string | null>(key, APP_GROUP_IDENTIFIER, storageOptions());
+}
+
 /**
- * Updates iOS widget with prayer times data
- * Widget will automatically reload when shared data changes
+ * Updates the home-screen widget (iOS and Android) with prayer times data
+ *
+ * iOS reloads on its timeline; Android is asked to redraw right away and then
+ * refreshes itself at each prayer boundary.
  * 
  * @param prayerTimesData - Array of daily prayer times in normalized format
  */
 export async function updatePrayerTimesWidget(prayerTimesData: DailyPrayerData[]) {
-  if (Platform.OS !== 'ios') {
-    logger.debug('Skipping widget update (not iOS)');
+  if (!hasWidget()) {
+    logger.debug('Skipping widget update (no widget on this platform)');
     return;
   }
   
@@ -92,31 +114,24 @@ export async function updatePrayerTimesWidget(prayerTimesData: DailyPrayerData[]
     
     // Write prayer times data under the year-agnostic key, plus the legacy key
     // so an older native widget build keeps working after a JS-only OTA update.
-    await SharedGroupPreferences.setItem(
-      WIDGET_PRAYER_TIMES_KEY,
-      jsonString,
-      APP_GROUP_IDENTIFIER
-    );
-    await SharedGroupPreferences.setItem(
-      LEGACY_WIDGET_KEY,
-      jsonString,
-      APP_GROUP_IDENTIFIER
-    );
+    // The Android widget shipped after the rename, so it only reads the new key.
+    await writeWidgetItem(WIDGET_PRAYER_TIMES_KEY, jsonString);
+    if (Platform.OS === 'ios') {
+      await writeWidgetItem(LEGACY_WIDGET_KEY, jsonString);
+    }
     
     // Write timestamp
-    await SharedGroupPreferences.setItem(
-      'lastUpdated',
-      new Date().toISOString(),
-      APP_GROUP_IDENTIFIER
-    );
+    await writeWidgetItem('lastUpdated', new Date().toISOString());
     
     logger.info('Widget data updated', {
+      platform: Platform.OS,
       count: widgetData.length,
       firstDate: widgetData[0]?.date,
       lastDate: widgetData[widgetData.length - 1]?.date,
     });
     
-    // Note: Widget will auto-reload based on its timeline configuration
+    // iOS reloads on its timeline; Android redraws now (no-op without the native module)
+    await PrayerWidget.reload();
     
   } catch (error) {
     logger.error('Failed to update widget', error as Error);
@@ -136,19 +151,16 @@ export async function forceWidgetUpdate(prayerTimesData: DailyPrayerData[]) {
  * Check if widget data exists and when it was last updated
  */
 export async function getWidgetStatus() {
-  if (Platform.OS !== 'ios') {
+  if (!hasWidget()) {
     return { hasData: false, lastUpdated: null };
   }
   
   try {
     const data =
-      (await SharedGroupPreferences.getItem(WIDGET_PRAYER_TIMES_KEY, APP_GROUP_IDENTIFIER)) ??
-      (await SharedGroupPreferences.getItem(LEGACY_WIDGET_KEY, APP_GROUP_IDENTIFIER));
+      (await readWidgetItem(WIDGET_PRAYER_TIMES_KEY)) ??
+      (Platform.OS === 'ios' ? await readWidgetItem(LEGACY_WIDGET_KEY) : null);
     
-    const timestamp = await SharedGroupPreferences.getItem(
-      'lastUpdated',
-      APP_GROUP_IDENTIFIER
-    );
+    const timestamp = await readWidgetItem('lastUpdated');
     
     return {
       hasData: !!data,